@@ -25,6 +25,8 @@ const KBDocumentDetail = lazy(() => import("./pages/KBDocumentDetail"));
 const AdminLogin = lazy(() => import("./pages/AdminLogin"));
 const AdminPanel = lazy(() => import("./pages/AdminPanel"));
 const MyDocuments = lazy(() => import("./pages/MyDocuments"));
+const ClientPortal = lazy(() => import("./pages/ClientPortal"));
+const PracticeAnalytics = lazy(() => import("./pages/PracticeAnalytics"));
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -161,6 +163,36 @@ const App = () => (
               </ProtectedRoute>
             }
           />
+          <Route
+            path="/analytics"
+            element={
+              <ProtectedRoute>
+                <Suspense fallback={<PageLoader />}>
+                  <PracticeAnalytics />
+                </Suspense>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/portal"
+            element={
+              <ProtectedRoute requiredRole="client">
+                <Suspense fallback={<PageLoader />}>
+                  <ClientPortal />
+                </Suspense>
+              </ProtectedRoute>
+            }
+          />
+          <Route
+            path="/portal/cases/:id"
+            element={
+              <ProtectedRoute requiredRole="client">
+                <Suspense fallback={<PageLoader />}>
+                  <ClientPortal />
+                </Suspense>
+              </ProtectedRoute>
+            }
+          />
           <Route path="*" element={<NotFound />} />
         </Routes>
       </BrowserRouter>
@@ -211,6 +211,7 @@ export function LegalPracticeKB() {
         description: data.description || null,
       };
 
+      let docId = data.id;
       if (data.id) {
         const { error } = await supabase
           .from('legal_practice_kb')
@@ -218,11 +219,19 @@ export function LegalPracticeKB() {
           .eq('id', data.id);
         if (error) throw error;
       } else {
-        const { error } = await supabase
+        const { data: inserted, error } = await supabase
           .from('legal_practice_kb')
-          .insert([payload]);
+          .insert([payload])
+          .select('id')
+          .single();
         if (error) throw error;
+        docId = inserted.id;
       }
+
+      // Rebuild citation graph edges in the background; the save itself already succeeded
+      supabase.functions
+        .invoke('practice-graph-sync', { body: { action: 'sync', doc_id: docId } })
+        .catch(err => console.warn('Practice graph sync failed:', err));
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['legal-practice-kb'] });
@@ -0,0 +1,314 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DollarSign, Plus, Trash2, Loader2 } from 'lucide-react';
+
+interface PriceRow {
+  id: string;
+  model_name: string;
+  input_per_1k: number;
+  output_per_1k: number;
+  effective_from: string;
+  note: string | null;
+}
+
+type PeriodStatus = 'current' | 'scheduled' | 'past';
+
+interface PriceForm {
+  modelName: string;
+  inputPer1k: string;
+  outputPer1k: string;
+  effectiveFrom: string;
+  note: string;
+}
+
+/** Value for a datetime-local input, in local time */
+function toLocalInput(date: Date): string {
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 16);
+}
+
+/**
+ * Status of every period: the latest started period of a model is current,
+ * earlier ones are past, later ones are scheduled.
+ */
+function periodStatuses(rows: PriceRow[], now: number): Map<string, PeriodStatus> {
+  const statuses = new Map<string, PeriodStatus>();
+  const currentByModel = new Map<string, PriceRow>();
+  for (const r of rows) {
+    if (Date.parse(r.effective_from) > now) {
+      statuses.set(r.id, 'scheduled');
+      continue;
+    }
+    const current = currentByModel.get(r.model_name);
+    if (!current || Date.parse(r.effective_from) > Date.parse(current.effective_from)) {
+      currentByModel.set(r.model_name, r);
+    }
+  }
+  for (const r of rows) {
+    if (statuses.has(r.id)) continue;
+    statuses.set(r.id, currentByModel.get(r.model_name)?.id === r.id ? 'current' : 'past');
+  }
+  return statuses;
+}
+
+const STATUS_VARIANT: Record<PeriodStatus, 'default' | 'secondary' | 'outline'> = {
+  current: 'default',
+  scheduled: 'secondary',
+  past: 'outline',
+};
+
+export function ModelPricingManager() {
+  const { t } = useTranslation(['usage', 'common']);
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<PriceForm | null>(null);
+  const [showPast, setShowPast] = useState(false);
+
+  const { data: rows = [], isLoading } = useQuery({
+    queryKey: ['model-pricing'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('model_pricing')
+        .select('id, model_name, input_per_1k, output_per_1k, effective_from, note')
+        .order('model_name')
+        .order('effective_from', { ascending: false });
+      if (error) throw error;
+      return (data || []) as PriceRow[];
+    },
+  });
+
+  const statuses = useMemo(() => periodStatuses(rows, Date.now()), [rows]);
+  const models = useMemo(() => [...new Set(rows.map(r => r.model_name))], [rows]);
+  const visibleRows = showPast ? rows : rows.filter(r => statuses.get(r.id) !== 'past');
+
+  const addPeriod = useMutation({
+    mutationFn: async (f: PriceForm) => {
+      const { error } = await supabase.from('model_pricing').insert({
+        model_name: f.modelName.trim(),
+        input_per_1k: Number(f.inputPer1k),
+        output_per_1k: Number(f.outputPer1k),
+        effective_from: new Date(f.effectiveFrom).toISOString(),
+        note: f.note.trim() || null,
+        created_by: user?.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['model-pricing'] });
+      setForm(null);
+      toast({ title: t('usage:pricing_saved') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deletePeriod = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('model_pricing').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['model-pricing'] });
+      toast({ title: t('usage:pricing_deleted') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const openAdd = (modelName = '') => {
+    const current = rows.find(r => r.model_name === modelName && statuses.get(r.id) === 'current');
+    setForm({
+      modelName,
+      inputPer1k: current ? String(current.input_per_1k) : '',
+      outputPer1k: current ? String(current.output_per_1k) : '',
+      effectiveFrom: toLocalInput(new Date()),
+      note: '',
+    });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.modelName.trim() || form.inputPer1k === '' || form.outputPer1k === '' || !form.effectiveFrom) {
+      toast({ title: t('usage:pricing_required'), variant: 'destructive' });
+      return;
+    }
+    // Started periods are immutable; a new period may not reach into the past
+    if (new Date(form.effectiveFrom).getTime() < Date.now() - 60_000) {
+      toast({ title: t('usage:pricing_past_period'), variant: 'destructive' });
+      return;
+    }
+    addPeriod.mutate(form);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <DollarSign className="h-5 w-5" />
+          {t('usage:pricing_title')}
+        </CardTitle>
+        <CardDescription>{t('usage:pricing_description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button size="sm" onClick={() => openAdd()}>
+            <Plus className="mr-2 h-4 w-4" />
+            {t('usage:pricing_add')}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => setShowPast(v => !v)}>
+            {showPast ? t('usage:pricing_hide_history') : t('usage:pricing_show_history')}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : visibleRows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('usage:pricing_none')}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('usage:pricing_model')}</TableHead>
+                <TableHead className="text-right">{t('usage:pricing_input')}</TableHead>
+                <TableHead className="text-right">{t('usage:pricing_output')}</TableHead>
+                <TableHead>{t('usage:pricing_effective_from')}</TableHead>
+                <TableHead>{t('usage:pricing_status')}</TableHead>
+                <TableHead className="w-[90px]">{t('common:actions')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map(r => {
+                const status = statuses.get(r.id) ?? 'past';
+                return (
+                  <TableRow key={r.id}>
+                    <TableCell className="font-mono text-xs">
+                      {r.model_name}
+                      {r.note && <div className="text-muted-foreground font-sans">{r.note}</div>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono text-xs">${Number(r.input_per_1k)}</TableCell>
+                    <TableCell className="text-right font-mono text-xs">${Number(r.output_per_1k)}</TableCell>
+                    <TableCell className="text-sm">{new Date(r.effective_from).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANT[status]}>{t(`usage:pricing_status_${status}`)}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex gap-1">
+                        {status === 'current' && (
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openAdd(r.model_name)}>
+                            <Plus className="h-4 w-4" />
+                          </Button>
+                        )}
+                        {status === 'scheduled' && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-destructive"
+                            onClick={() => deletePeriod.mutate(r.id)}
+                            disabled={deletePeriod.isPending}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('usage:pricing_add')}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>{t('usage:pricing_model')}</Label>
+                <Input
+                  list="model-pricing-models"
+                  value={form.modelName}
+                  onChange={(e) => setForm({ ...form, modelName: e.target.value })}
+                />
+                <datalist id="model-pricing-models">
+                  {models.map(m => <option key={m} value={m} />)}
+                </datalist>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label>{t('usage:pricing_input')}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.000001"
+                    value={form.inputPer1k}
+                    onChange={(e) => setForm({ ...form, inputPer1k: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t('usage:pricing_output')}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.000001"
+                    value={form.outputPer1k}
+                    onChange={(e) => setForm({ ...form, outputPer1k: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label>{t('usage:pricing_effective_from')}</Label>
+                <Input
+                  type="datetime-local"
+                  value={form.effectiveFrom}
+                  onChange={(e) => setForm({ ...form, effectiveFrom: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>{t('usage:pricing_note')}</Label>
+                <Input value={form.note} onChange={(e) => setForm({ ...form, note: e.target.value })} />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>{t('common:cancel')}</Button>
+            <Button onClick={handleSave} disabled={addPeriod.isPending}>
+              {addPeriod.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
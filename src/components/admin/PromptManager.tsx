@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -55,14 +56,19 @@ import {
   ChevronRight,
   FolderOpen,
   Database,
+  FlaskConical,
+  AlertTriangle,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { PromptFilesEditor } from './PromptFilesEditor';
+import { PromptVariantsDialog } from './PromptVariantsDialog';
+import { isRuntimeModule, missingPlaceholders } from '@/lib/prompt-registry';
 
 // AI Functions list
 const AI_FUNCTIONS = [
   { id: 'ai-analyze', name: 'AI Analyze', nameHy: 'AI \u054E\u0565\u0580\u056C\u0578\u0582\u056E\u0578\u0582\u0569\u0575\u0578\u0582\u0576' },
   { id: 'generate-document', name: 'Generate Document', nameHy: '\u0553\u0561\u057D\u057F\u0561\u0569\u0578\u0582\u0572\u0569\u056B \u057D\u057F\u0565\u0572\u056E\u0578\u0582\u0574' },
+  { id: 'multi-agent-analyze', name: 'Multi-Agent Analyze', nameHy: '\u0532\u0561\u0566\u0574\u0561\u0563\u0578\u0580\u056E\u0561\u056F\u0561\u056C\u0561\u0575\u056B\u0576 \u057E\u0565\u0580\u056C\u0578\u0582\u056E\u0578\u0582\u0569\u0575\u0578\u0582\u0576' },
   { id: 'generate-complaint', name: 'Generate Complaint', nameHy: '\u0532\u0578\u0572\u0578\u0584\u056B \u057D\u057F\u0565\u0572\u056E\u0578\u0582\u0574' },
   { id: 'legal-chat', name: 'Legal Chat', nameHy: '\u053B\u0580\u0561\u057E\u0561\u0562\u0561\u0576\u0561\u056F\u0561\u0576 \u0579\u0561\u057F' },
   { id: 'ocr-process', name: 'OCR Process', nameHy: 'OCR \u0544\u0577\u0561\u056F\u0578\u0582\u0574' },
@@ -81,6 +87,8 @@ interface Prompt {
   description: string | null;
   prompt_text: string;
   is_active: boolean;
+  /** Served to the edge functions instead of the prompt in code */
+  runtime_enabled: boolean;
   current_version: number;
   created_at: string;
   updated_at: string;
@@ -109,6 +117,7 @@ export const PromptManager = () => {
   const [previewDialogOpen, setPreviewDialogOpen] = useState(false);
   const [versionsDialogOpen, setVersionsDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [variantsDialogOpen, setVariantsDialogOpen] = useState(false);
   
   const [selectedPrompt, setSelectedPrompt] = useState<Prompt | null>(null);
   const [versions, setVersions] = useState<PromptVersion[]>([]);
@@ -138,6 +147,7 @@ export const PromptManager = () => {
       
       if (error) throw error;
       setPrompts((data || []) as Prompt[]);
+      setSelectedPrompt(prev => (prev && data?.find(p => p.id === prev.id)) || prev);
     } catch (error) {
       console.error('Error fetching prompts:', error);
       toast.error('Ошибка загрузки промптов');
@@ -249,6 +259,23 @@ export const PromptManager = () => {
     }
   };
 
+  // Switch a prompt between the registry text and the prompt in code
+  const handleToggleRuntime = async (prompt: Prompt, enabled: boolean) => {
+    try {
+      const { error } = await supabase
+        .from('ai_prompts')
+        .update({ runtime_enabled: enabled })
+        .eq('id', prompt.id);
+
+      if (error) throw error;
+      setPrompts(prev => prev.map(p => (p.id === prompt.id ? { ...p, runtime_enabled: enabled } : p)));
+      toast.success(enabled ? 'Промпт используется функцией' : 'Функция использует промпт из кода');
+    } catch (error) {
+      console.error('Error toggling prompt runtime:', error);
+      toast.error('Ошибка переключения промпта');
+    }
+  };
+
   // Handle duplicate
   const handleDuplicate = async (prompt: Prompt) => {
     try {
@@ -642,6 +669,12 @@ export const PromptManager = () => {
     setVersionsDialogOpen(true);
   };
 
+  // Open variants dialog
+  const openVariantsDialog = (prompt: Prompt) => {
+    setSelectedPrompt(prompt);
+    setVariantsDialogOpen(true);
+  };
+
   // Open delete dialog
   const openDeleteDialog = (prompt: Prompt) => {
     setSelectedPrompt(prompt);
@@ -746,14 +779,15 @@ export const PromptManager = () => {
                     <TableHead className="w-[150px]">Модуль/Тип</TableHead>
                     <TableHead>Название (RU)</TableHead>
                     <TableHead className="w-[100px]">Версия</TableHead>
+                    <TableHead className="w-[110px]">В рантайме</TableHead>
                     <TableHead className="w-[120px]">Обновлено</TableHead>
-                    <TableHead className="w-[180px] text-right">Действия</TableHead>
+                    <TableHead className="w-[220px] text-right">Действия</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {paginatedPrompts.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
+                      <TableCell colSpan={7} className="h-24 text-center text-muted-foreground">
                         Промпты не найдены
                       </TableCell>
                     </TableRow>
@@ -773,6 +807,25 @@ export const PromptManager = () => {
                           </div>
                         </TableCell>
                         <TableCell>v{prompt.current_version}</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1.5">
+                            <Switch
+                              checked={prompt.runtime_enabled}
+                              onCheckedChange={(checked) => handleToggleRuntime(prompt, checked)}
+                              disabled={!prompt.is_active}
+                              aria-label="В рантайме"
+                            />
+                            {!isRuntimeModule(prompt.function_name, prompt.module_type) ? (
+                              <span title="Функция не запрашивает этот модуль: промпт используется только как справка">
+                                <AlertTriangle className="h-4 w-4 text-muted-foreground" />
+                              </span>
+                            ) : missingPlaceholders(prompt.function_name, prompt.module_type, prompt.prompt_text).length > 0 && (
+                              <span title={`Нет подстановок ${missingPlaceholders(prompt.function_name, prompt.module_type, prompt.prompt_text).join(', ')}: функция использует промпт из кода`}>
+                                <AlertTriangle className="h-4 w-4 text-orange-500" />
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
                         <TableCell className="text-xs text-muted-foreground">
                           {format(new Date(prompt.updated_at), 'dd.MM.yyyy')}
                         </TableCell>
@@ -810,6 +863,14 @@ export const PromptManager = () => {
                             >
                               <History className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => openVariantsDialog(prompt)}
+                              title="Варианты и A/B"
+                            >
+                              <FlaskConical className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="icon"
@@ -1028,6 +1089,13 @@ export const PromptManager = () => {
         </DialogContent>
       </Dialog>
 
+      <PromptVariantsDialog
+        prompt={selectedPrompt}
+        open={variantsDialogOpen}
+        onOpenChange={setVariantsDialogOpen}
+        onPromptChanged={fetchPrompts}
+      />
+
       {/* Delete Confirmation */}
       <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <AlertDialogContent>
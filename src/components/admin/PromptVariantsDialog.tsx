@@ -0,0 +1,530 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { toast } from 'sonner';
+import { AlertTriangle, ArrowUpCircle, Edit, Loader2, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  costPerRequest,
+  missingPlaceholders,
+  ratingDelta,
+  trafficShares,
+  type PromptVariant,
+  type PromptVariantStatus,
+  type VariantReportRow,
+} from '@/lib/prompt-registry';
+
+interface VariantPrompt {
+  id: string;
+  function_name: string;
+  module_type: string;
+  name_ru: string;
+  prompt_text: string;
+  runtime_enabled: boolean;
+}
+
+interface PromptVariantsDialogProps {
+  prompt: VariantPrompt | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The base text changed (promote / rollback) */
+  onPromptChanged: () => void;
+}
+
+const STATUS_LABELS: Record<PromptVariantStatus, string> = {
+  draft: 'Черновик',
+  active: 'Активен',
+  retired: 'Завершён',
+};
+
+const STATUS_VARIANT: Record<PromptVariantStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  active: 'default',
+  retired: 'secondary',
+};
+
+const emptyForm = {
+  label: '',
+  prompt_text: '',
+  weight: 10,
+  status: 'draft' as PromptVariantStatus,
+  pinned_user_ids: [] as string[],
+  pinned_team_ids: [] as string[],
+};
+
+export const PromptVariantsDialog = ({ prompt, open, onOpenChange, onPromptChanged }: PromptVariantsDialogProps) => {
+  const [variants, setVariants] = useState<PromptVariant[]>([]);
+  const [report, setReport] = useState<VariantReportRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [users, setUsers] = useState<{ id: string; email: string; full_name: string | null }[]>([]);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+
+  const [editing, setEditing] = useState<PromptVariant | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const [confirm, setConfirm] = useState<{ kind: 'promote' | 'rollback' | 'delete'; variant?: PromptVariant } | null>(null);
+  const [acting, setActing] = useState(false);
+
+  const fetchData = useCallback(async () => {
+    if (!prompt) return;
+    setLoading(true);
+    try {
+      const [variantsRes, reportRes] = await Promise.all([
+        supabase
+          .from('ai_prompt_variants')
+          .select('*')
+          .eq('prompt_id', prompt.id)
+          .order('created_at'),
+        supabase.rpc('get_prompt_variant_report', { p_prompt_id: prompt.id }),
+      ]);
+      if (variantsRes.error) throw variantsRes.error;
+      if (reportRes.error) throw reportRes.error;
+      setVariants(variantsRes.data || []);
+      setReport((reportRes.data || []) as unknown as VariantReportRow[]);
+    } catch (error) {
+      console.error('Error fetching prompt variants:', error);
+      toast.error('Ошибка загрузки вариантов');
+    } finally {
+      setLoading(false);
+    }
+  }, [prompt]);
+
+  useEffect(() => {
+    if (open) fetchData();
+  }, [open, fetchData]);
+
+  // Pin candidates are loaded once, when the dialog is first used
+  useEffect(() => {
+    if (!open || users.length > 0) return;
+    const fetchPinTargets = async () => {
+      const [usersRes, teamsRes] = await Promise.all([
+        supabase.from('profiles').select('id, email, full_name').order('email'),
+        supabase.from('teams').select('id, name').order('name'),
+      ]);
+      if (usersRes.error || teamsRes.error) {
+        console.error('Error fetching pin targets:', usersRes.error || teamsRes.error);
+        return;
+      }
+      setUsers(usersRes.data || []);
+      setTeams(teamsRes.data || []);
+    };
+    fetchPinTargets();
+  }, [open, users.length]);
+
+  const shares = useMemo(() => trafficShares(variants), [variants]);
+  const baseRow = report.find(r => r.variant_id === null);
+  const variantById = useMemo(() => new Map(variants.map(v => [v.id, v])), [variants]);
+
+  const openForm = (variant?: PromptVariant) => {
+    setEditing(variant ?? null);
+    setFormData(variant ? {
+      label: variant.label,
+      prompt_text: variant.prompt_text,
+      weight: variant.weight,
+      status: variant.status as PromptVariantStatus,
+      pinned_user_ids: variant.pinned_user_ids,
+      pinned_team_ids: variant.pinned_team_ids,
+    } : { ...emptyForm, prompt_text: prompt?.prompt_text ?? '' });
+    setFormOpen(true);
+  };
+
+  // A variant's text is fixed once it has served traffic, so its report stays meaningful
+  const textLocked = !!editing && editing.status !== 'draft';
+  const formMissing = prompt ? missingPlaceholders(prompt.function_name, prompt.module_type, formData.prompt_text) : [];
+
+  const togglePin = (key: 'pinned_user_ids' | 'pinned_team_ids', id: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      [key]: checked ? [...prev[key], id] : prev[key].filter(x => x !== id),
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!prompt) return;
+    if (!formData.label.trim() || !formData.prompt_text.trim()) {
+      toast.error('Заполните обязательные поля');
+      return;
+    }
+    const weight = Math.min(100, Math.max(0, Math.round(Number(formData.weight) || 0)));
+
+    setSaving(true);
+    try {
+      const values = {
+        label: formData.label.trim(),
+        weight,
+        status: formData.status,
+        pinned_user_ids: formData.pinned_user_ids,
+        pinned_team_ids: formData.pinned_team_ids,
+      };
+      if (editing) {
+        const { error } = await supabase
+          .from('ai_prompt_variants')
+          .update(textLocked ? values : { ...values, prompt_text: formData.prompt_text })
+          .eq('id', editing.id);
+        if (error) throw error;
+        toast.success('Вариант обновлён');
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('ai_prompt_variants')
+          .insert({ ...values, prompt_id: prompt.id, prompt_text: formData.prompt_text, created_by: user?.id ?? null });
+        if (error) throw error;
+        toast.success('Вариант создан');
+      }
+      setFormOpen(false);
+      fetchData();
+    } catch (error: unknown) {
+      console.error('Error saving prompt variant:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Ошибка: ${message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!prompt || !confirm) return;
+    setActing(true);
+    try {
+      if (confirm.kind === 'promote' && confirm.variant) {
+        const { data, error } = await supabase.rpc('promote_ai_prompt_variant', { p_variant_id: confirm.variant.id });
+        if (error) throw error;
+        toast.success(`Вариант «${confirm.variant.label}» стал основным текстом (v${data})`);
+        onPromptChanged();
+      } else if (confirm.kind === 'rollback') {
+        const { data, error } = await supabase.rpc('rollback_ai_prompt', { p_prompt_id: prompt.id });
+        if (error) throw error;
+        toast.success(`Предыдущий текст восстановлен (v${data})`);
+        onPromptChanged();
+      } else if (confirm.kind === 'delete' && confirm.variant) {
+        const { error } = await supabase.from('ai_prompt_variants').delete().eq('id', confirm.variant.id);
+        if (error) throw error;
+        toast.success('Вариант удалён');
+      }
+      setConfirm(null);
+      fetchData();
+    } catch (error: unknown) {
+      console.error('Error updating prompt variants:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      toast.error(`Ошибка: ${message}`);
+    } finally {
+      setActing(false);
+    }
+  };
+
+  const formatDelta = (delta: number | null) =>
+    delta === null ? '' : ` (${delta > 0 ? '+' : ''}${delta.toFixed(2)})`;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Варианты: {prompt?.name_ru}</DialogTitle>
+            <DialogDescription>
+              {prompt?.function_name} / {prompt?.module_type}
+            </DialogDescription>
+          </DialogHeader>
+
+          {prompt && !prompt.runtime_enabled && (
+            <p className="flex items-start gap-2 text-sm text-orange-700 dark:text-orange-300">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0" />
+              <span>Промпт не включён в рантайме: функция использует текст из кода, варианты не раздаются.</span>
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="text-sm text-muted-foreground">
+              Основной текст получает {shares.base.toFixed(0)}% трафика без закрепления
+            </span>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setConfirm({ kind: 'rollback' })}>
+                <RotateCcw className="mr-1.5 h-4 w-4" />
+                Откатить основной текст
+              </Button>
+              <Button onClick={() => openForm()}>
+                <Plus className="mr-1.5 h-4 w-4" />
+                Новый вариант
+              </Button>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Вариант</TableHead>
+                    <TableHead className="w-[110px]">Статус</TableHead>
+                    <TableHead className="w-[70px]">Доля</TableHead>
+                    <TableHead className="w-[80px]">Запросы</TableHead>
+                    <TableHead className="w-[90px]">Токены</TableHead>
+                    <TableHead className="w-[90px]">$ / запрос</TableHead>
+                    <TableHead className="w-[80px]">Анализы</TableHead>
+                    <TableHead className="w-[140px]">Оценка</TableHead>
+                    <TableHead className="w-[120px] text-right">Действия</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.map((row) => {
+                    const variant = row.variant_id ? variantById.get(row.variant_id) : undefined;
+                    const status = row.status;
+                    const share = row.variant_id === null ? shares.base : shares.variants[row.variant_id];
+                    const perRequest = costPerRequest(row);
+                    return (
+                      <TableRow key={row.variant_id ?? 'base'}>
+                        <TableCell>
+                          <div className="font-medium">{row.variant_id === null ? 'Основной текст' : row.label}</div>
+                          <div className="text-xs text-muted-foreground">
+                            с {format(new Date(row.since), 'dd.MM.yyyy')}
+                            {variant && (variant.pinned_user_ids.length > 0 || variant.pinned_team_ids.length > 0) &&
+                              ` · закреплён: ${variant.pinned_user_ids.length} польз., ${variant.pinned_team_ids.length} команд`}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {status && <Badge variant={STATUS_VARIANT[status]}>{STATUS_LABELS[status]}</Badge>}
+                        </TableCell>
+                        <TableCell>{share !== undefined ? `${share.toFixed(0)}%` : '\u2014'}</TableCell>
+                        <TableCell>{row.requests}</TableCell>
+                        <TableCell>{row.tokens.toLocaleString()}</TableCell>
+                        <TableCell>{perRequest !== null ? `$${perRequest.toFixed(4)}` : '\u2014'}</TableCell>
+                        <TableCell>{row.analyses}</TableCell>
+                        <TableCell>
+                          {row.avg_rating !== null
+                            ? `${row.avg_rating.toFixed(2)}${row.variant_id ? formatDelta(ratingDelta(row, baseRow)) : ''} · ${row.ratings}`
+                            : '\u2014'}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {variant && (
+                            <div className="flex justify-end gap-1">
+                              <Button variant="ghost" size="icon" onClick={() => openForm(variant)} title="Редактировать">
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setConfirm({ kind: 'promote', variant })}
+                                disabled={variant.status === 'retired'}
+                                title="Сделать основным"
+                              >
+                                <ArrowUpCircle className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setConfirm({ kind: 'delete', variant })}
+                                title="Удалить"
+                                className="text-destructive hover:text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Закрыть
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Variant form */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Редактировать вариант' : 'Новый вариант'}</DialogTitle>
+            <DialogDescription>
+              Доля: процент трафика без закрепления. Закреплённые пользователи и команды всегда получают этот вариант
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Название *</label>
+                <Input
+                  value={formData.label}
+                  onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                  placeholder="напр. B: короче выводы"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Доля, %</label>
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.weight}
+                  onChange={(e) => setFormData({ ...formData, weight: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Статус</label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(v) => setFormData({ ...formData, status: v as PromptVariantStatus })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(STATUS_LABELS) as PromptVariantStatus[]).map(s => (
+                      <SelectItem key={s} value={s}>{STATUS_LABELS[s]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Закреплённые пользователи</label>
+                <ScrollArea className="h-32 rounded-md border p-2">
+                  {users.map(u => (
+                    <label key={u.id} className="flex items-center gap-2 py-0.5 text-sm">
+                      <Checkbox
+                        checked={formData.pinned_user_ids.includes(u.id)}
+                        onCheckedChange={(checked) => togglePin('pinned_user_ids', u.id, checked === true)}
+                      />
+                      <span className="truncate">{u.full_name ? `${u.full_name} (${u.email})` : u.email}</span>
+                    </label>
+                  ))}
+                </ScrollArea>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Закреплённые команды</label>
+                <ScrollArea className="h-32 rounded-md border p-2">
+                  {teams.map(t => (
+                    <label key={t.id} className="flex items-center gap-2 py-0.5 text-sm">
+                      <Checkbox
+                        checked={formData.pinned_team_ids.includes(t.id)}
+                        onCheckedChange={(checked) => togglePin('pinned_team_ids', t.id, checked === true)}
+                      />
+                      <span className="truncate">{t.name}</span>
+                    </label>
+                  ))}
+                </ScrollArea>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Текст промпта *</label>
+              {textLocked && (
+                <p className="text-xs text-muted-foreground">
+                  Текст запущенного варианта не меняется, для другого текста создайте новый вариант
+                </p>
+              )}
+              {formMissing.length > 0 && (
+                <p className="flex items-center gap-1.5 text-xs text-orange-700 dark:text-orange-300">
+                  <AlertTriangle className="h-3.5 w-3.5" />
+                  Нет подстановок {formMissing.join(', ')}, такой текст не будет использоваться
+                </p>
+              )}
+              <Textarea
+                value={formData.prompt_text}
+                onChange={(e) => setFormData({ ...formData, prompt_text: e.target.value })}
+                readOnly={textLocked}
+                rows={15}
+                className="font-mono text-sm"
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>
+              Отмена
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Сохранить
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Promote / rollback / delete confirmation */}
+      <AlertDialog open={!!confirm} onOpenChange={(o) => !o && setConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {confirm?.kind === 'promote' ? 'Сделать вариант основным?'
+                : confirm?.kind === 'rollback' ? 'Откатить основной текст?'
+                : 'Удалить вариант?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {confirm?.kind === 'promote'
+                ? `Текст «${confirm.variant?.label}» заменит основной текст, эксперимент завершится: все активные варианты будут остановлены. Промпт будет включён в рантайме.`
+                : confirm?.kind === 'rollback'
+                ? 'Будет восстановлен текст из последней записи истории версий (отмена последнего изменения), активные варианты вернутся в черновики.'
+                : 'Статистика варианта останется в журналах без привязки к нему.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={acting}>Отмена</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => { e.preventDefault(); handleConfirm(); }}
+              disabled={acting}
+              className={confirm?.kind === 'delete' ? 'bg-destructive text-destructive-foreground' : undefined}
+            >
+              {acting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Подтвердить
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
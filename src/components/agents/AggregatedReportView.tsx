@@ -5,17 +5,20 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Loader2, FileText, Download, Printer, CheckCircle2, AlertTriangle, Shield, Scale } from "lucide-react";
+import { Loader2, FileText, Download, Printer, CheckCircle2, AlertTriangle, Shield, Scale, BookOpen } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { toast } from "sonner";
-import type { AggregatedReport, AgentAnalysisRun } from "./types";
+import type { AggregatedReport, AgentAnalysisRun, CaseVolume } from "./types";
 import { AGENT_CONFIGS } from "./types";
+import { PageAnchorLinks } from "./PageAnchorLinks";
+import { parsePageAnchors } from "@/lib/page-anchors";
 import { exportDocumentToPDF } from "@/lib/pdfExportDocument";
 
 interface AggregatedReportViewProps {
   caseId: string;
   report: AggregatedReport | null;
   runs: AgentAnalysisRun[];
+  volumes: CaseVolume[];
   evidenceCount: number;
   onGenerateReport: () => void;
   isGenerating: boolean;
@@ -25,6 +28,7 @@ export function AggregatedReportView({
   caseId,
   report,
   runs,
+  volumes,
   evidenceCount,
   onGenerateReport,
   isGenerating
@@ -35,6 +39,13 @@ export function AggregatedReportView({
   const completedRuns = runs.filter(r => r.status === "completed");
   const canGenerate = completedRuns.length >= 3; // Need at least 3 agents completed
 
+  // Findings of the completed agents that cite volume pages
+  const anchoredFindings = completedRuns.flatMap(run =>
+    (run.findings || [])
+      .map(finding => ({ run, finding, anchors: parsePageAnchors(finding.page_anchors) }))
+      .filter(f => f.anchors.length > 0)
+  );
+
   const handleExportPdf = async () => {
     if (!report) return;
     
@@ -169,11 +180,12 @@ export function AggregatedReportView({
 
       {/* Report Sections */}
       <Tabs defaultValue="summary" className="space-y-4">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="summary">{t("ai:summary")}</TabsTrigger>
           <TabsTrigger value="evidence">{t("ai:evidence")}</TabsTrigger>
           <TabsTrigger value="violations">{t("ai:violations")}</TabsTrigger>
           <TabsTrigger value="defense">{t("ai:defense")}</TabsTrigger>
+          <TabsTrigger value="pages">{t("ai:cited_pages")}</TabsTrigger>
           <TabsTrigger value="full">{t("ai:full_report")}</TabsTrigger>
         </TabsList>
 
@@ -268,6 +280,43 @@ export function AggregatedReportView({
           </Card>
         </TabsContent>
 
+        <TabsContent value="pages">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <BookOpen className="h-5 w-5" />
+                {t("ai:cited_pages")}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ScrollArea className="h-[400px]">
+                {anchoredFindings.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("ai:cited_pages_empty")}</p>
+                ) : (
+                  <div className="space-y-3">
+                    {anchoredFindings.map(({ run, finding, anchors }, idx) => {
+                      const config = AGENT_CONFIGS.find(c => c.type === run.agent_type);
+                      return (
+                        <div key={`${run.id}-${idx}`} className="rounded-lg border p-3 space-y-2">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="text-sm font-medium">{finding.title}</span>
+                            {config && (
+                              <Badge variant="secondary" className="text-xs">
+                                {i18n.language === "hy" ? config.nameHy : i18n.language === "ru" ? config.nameRu : config.name}
+                              </Badge>
+                            )}
+                          </div>
+                          <PageAnchorLinks anchors={anchors} volumes={volumes} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+              </ScrollArea>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         <TabsContent value="full">
           <Card>
             <CardHeader>
@@ -13,6 +13,8 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Search, Filter, Edit2, FileText, AlertTriangle, CheckCircle, HelpCircle, Clock } from "lucide-react";
 import type { EvidenceItem, CaseVolume, EvidenceStatus, EvidenceType } from "./types";
 import { EVIDENCE_TYPE_LABELS, EVIDENCE_STATUS_LABELS } from "./types";
+import { PageAnchorLinks } from "./PageAnchorLinks";
+import { parsePageAnchors } from "@/lib/page-anchors";
 
 interface EvidenceRegistryProps {
   caseId: string;
@@ -199,7 +201,11 @@ export function EvidenceRegistry({
                       </Badge>
                     </TableCell>
                     <TableCell className="text-sm text-muted-foreground">
-                      {item.page_reference || "-"}
+                      {parsePageAnchors(item.page_anchors).length > 0 ? (
+                        <PageAnchorLinks anchors={parsePageAnchors(item.page_anchors)} volumes={volumes} />
+                      ) : (
+                        item.page_reference || "-"
+                      )}
                     </TableCell>
                     <TableCell>
                       <Badge className={EVIDENCE_STATUS_LABELS[item.admissibility_status]?.color}>
@@ -250,6 +256,9 @@ export function EvidenceRegistry({
                   <div className="mt-1 text-sm">
                     {editingItem.page_reference || "-"}
                   </div>
+                  <div className="mt-1">
+                    <PageAnchorLinks anchors={parsePageAnchors(editingItem.page_anchors)} volumes={volumes} />
+                  </div>
                 </div>
               </div>
               
@@ -74,6 +74,7 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
     isLoading,
     currentAgent,
     runs,
+    isBatchActive,
     evidenceRegistry,
     volumes,
     aggregatedReport,
@@ -84,6 +85,7 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
     runAgent,
     runAllAgents,
     loadRuns,
+    watchRuns,
     loadEvidenceRegistry,
     updateEvidenceItem,
     generateAggregatedReport,
@@ -98,6 +100,9 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
     loadAggregatedReport(caseId);
   }, [caseId, loadVolumes, loadRuns, loadEvidenceRegistry, loadAggregatedReport]);
 
+  // Queued runs progress on the server; follow them live
+  useEffect(() => watchRuns(caseId), [caseId, watchRuns]);
+
   // Calculate progress
   const completedAgents = runs.filter(r => r.status === "completed").length;
   const totalAgents = AGENT_CONFIGS.length;
@@ -155,11 +160,11 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
             <div className="flex flex-col sm:flex-row gap-2 w-full pt-1">
               <Button
                 onClick={() => runAllAgents(caseId, referencesText || undefined)}
-                disabled={isLoading || volumes.length === 0}
+                disabled={isLoading || isBatchActive || volumes.length === 0}
                 size="sm"
                 className="w-full sm:flex-1 h-9 rounded-lg text-xs font-medium"
               >
-                {isLoading ? (
+                {isLoading || isBatchActive ? (
                   <Loader2 className="h-3.5 w-3.5 animate-spin" />
                 ) : (
                   <>
@@ -203,7 +208,7 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
                 className={`cursor-pointer transition-all duration-200 active:scale-[0.96] w-14 sm:w-auto shrink-0 ${
                   isCurrentAgent ? "ring-1.5 ring-primary shadow-sm" : ""
                 } ${status === "completed" ? "bg-accent/50" : ""}`}
-                onClick={() => !isLoading && runAgent(caseId, agent.type, referencesText || undefined)}
+                onClick={() => !isLoading && !isBatchActive && runAgent(caseId, agent.type, referencesText || undefined)}
               >
                 <CardContent className="p-1.5 sm:p-2 text-center flex flex-col items-center justify-center h-full min-h-[52px] sm:min-h-[60px]">
                   <div className="text-sm sm:text-lg mb-0.5">{agent.icon}</div>
@@ -267,9 +272,9 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
                     key={agent.type}
                     agent={agent}
                     run={latestRun}
-                    isRunning={currentAgent === agent.type}
+                    isRunning={currentAgent === agent.type || latestRun?.status === "running"}
                     onRun={() => runAgent(caseId, agent.type, referencesText || undefined)}
-                    disabled={isLoading}
+                    disabled={isLoading || isBatchActive}
                   />
                 );
               })}
@@ -291,6 +296,7 @@ export function MultiAgentPanel({ caseId, caseFacts, caseType, partyRole }: Mult
             caseId={caseId}
             report={aggregatedReport}
             runs={runs}
+            volumes={volumes}
             evidenceCount={evidenceRegistry.length}
             onGenerateReport={() => generateAggregatedReport(caseId)}
             isGenerating={isLoading && currentAgent === "aggregator"}
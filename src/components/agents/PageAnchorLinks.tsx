@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ExternalLink, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { isPageAnchorValid, pdfPageUrl, type PageAnchor } from "@/lib/page-anchors";
+import type { CaseVolume } from "./types";
+
+interface PageAnchorLinksProps {
+  anchors: PageAnchor[];
+  volumes: CaseVolume[];
+}
+
+/** Volume/page citations that open the volume PDF at the cited page */
+export function PageAnchorLinks({ anchors, volumes }: PageAnchorLinksProps) {
+  const { t } = useTranslation(["ai"]);
+  const [opening, setOpening] = useState<string | null>(null);
+
+  if (anchors.length === 0) return null;
+
+  const openAnchor = async (anchor: PageAnchor, key: string) => {
+    const volume = volumes.find(v => v.volume_number === anchor.volume_number);
+    if (!volume?.file_id) {
+      toast.error(t("ai:page_anchor_no_file"));
+      return;
+    }
+
+    setOpening(key);
+    try {
+      const { data: file, error: fileError } = await supabase
+        .from("case_files")
+        .select("storage_path")
+        .eq("id", volume.file_id)
+        .single();
+      if (fileError || !file) throw fileError || new Error("Volume file not found");
+
+      const { data: signed, error: signError } = await supabase.storage
+        .from("case-files")
+        .createSignedUrl(file.storage_path, 300);
+      if (signError || !signed?.signedUrl) throw signError || new Error("Failed to get signed URL");
+
+      window.open(pdfPageUrl(signed.signedUrl, anchor.page), "_blank");
+    } catch (err) {
+      console.error("Open page anchor error:", err);
+      toast.error(t("ai:page_anchor_open_failed"));
+    } finally {
+      setOpening(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap gap-1">
+      {anchors.map((anchor) => {
+        const key = `${anchor.volume_number}:${anchor.page}`;
+        const label = t("ai:page_anchor_label", { volume: anchor.volume_number, page: anchor.page });
+
+        if (!isPageAnchorValid(anchor, volumes)) {
+          return (
+            <Badge key={key} variant="destructive" className="text-xs gap-1" title={t("ai:page_anchor_invalid")}>
+              <AlertTriangle className="h-3 w-3" />
+              {label}
+            </Badge>
+          );
+        }
+
+        return (
+          <Badge
+            key={key}
+            variant="outline"
+            className="text-xs gap-1 cursor-pointer hover:bg-muted"
+            onClick={() => openAnchor(anchor, key)}
+          >
+            {opening === key ? <Loader2 className="h-3 w-3 animate-spin" /> : <ExternalLink className="h-3 w-3" />}
+            {label}
+          </Badge>
+        );
+      })}
+    </div>
+  );
+}
@@ -154,6 +154,7 @@ export function VolumeManager({
           fileName: file.original_filename,
           language: lang,
           fileId: file.id,
+          volumeId: volume.id,
         }
       });
 
@@ -161,16 +162,18 @@ export function VolumeManager({
       setOcrProgress(prev => ({ ...prev, [volume.id]: 80 }));
 
       const extractedText = data.extracted_text || data.text;
-      if (data.success && extractedText) {
-        // Update volume with OCR text
+      if ((data.ok || data.success) && extractedText) {
+        // Update volume with OCR text; the page count from OCR bounds the
+        // page anchors agents may cite
         await onUpdateVolume(volume.id, {
           ocr_text: extractedText,
-          ocr_completed: true
+          ocr_completed: true,
+          ...(data.pages ? { page_count: data.pages } : {})
         });
         setOcrProgress(prev => ({ ...prev, [volume.id]: 100 }));
         toast.success(t('ocr:processing_complete'));
       } else {
-        throw new Error(data.error || 'OCR failed');
+        throw new Error(data.error || data.warnings?.[0] || 'OCR failed');
       }
     } catch (err) {
       console.error('Volume OCR error:', err);
@@ -2,6 +2,8 @@
 // MULTI-AGENT SYSTEM TYPES
 // =============================================================================
 
+import type { PageAnchor } from "@/lib/page-anchors";
+
 // Frontend AgentType (used in multi-agent UI)
 export type AgentType = 
   | 'evidence_collector'
@@ -89,6 +91,8 @@ export interface AgentAnalysisRun {
   tokens_used?: number;
   error_message?: string;
   created_by?: string;
+  /** Set when the run belongs to a server-side batch (enqueue_agent_analysis) */
+  batch_id?: string | null;
   created_at: string;
   updated_at: string;
 }
@@ -105,6 +109,7 @@ export interface AgentFinding {
   evidence_refs?: string[];
   volume_refs?: string[];
   page_references?: string[];
+  page_anchors?: PageAnchor[];
   recommendation?: string;
   metadata?: Record<string, unknown>;
   created_at?: string;
@@ -119,6 +124,7 @@ export interface EvidenceItem {
   title: string;
   description?: string;
   page_reference?: string;
+  page_anchors?: PageAnchor[];
   source_document?: string;
   date_obtained?: string;
   obtained_by?: string;
@@ -0,0 +1,43 @@
+import { useTranslation } from 'react-i18next';
+import { cn } from '@/lib/utils';
+import { OUTCOME_COLORS, outcomeShares, type OutcomeCounts } from '@/lib/practice-outcomes';
+
+interface OutcomeBarProps {
+  counts: OutcomeCounts;
+  className?: string;
+}
+
+/** Stacked horizontal bar of outcome shares */
+export function OutcomeBar({ counts, className }: OutcomeBarProps) {
+  const { t } = useTranslation('kb');
+
+  return (
+    <div className={cn('flex h-2.5 w-full overflow-hidden rounded-full bg-muted', className)}>
+      {outcomeShares(counts)
+        .filter(s => s.count > 0)
+        .map(s => (
+          <div
+            key={s.outcome}
+            className={OUTCOME_COLORS[s.outcome]}
+            style={{ width: `${s.percent}%` }}
+            title={`${t(`lp_outcome_${s.outcome}`)}: ${s.count} (${s.percent}%)`}
+          />
+        ))}
+    </div>
+  );
+}
+
+export function OutcomeLegend({ className }: { className?: string }) {
+  const { t } = useTranslation('kb');
+
+  return (
+    <div className={cn('flex flex-wrap gap-3 text-xs text-muted-foreground', className)}>
+      {(Object.keys(OUTCOME_COLORS) as (keyof typeof OUTCOME_COLORS)[]).map(outcome => (
+        <span key={outcome} className="flex items-center gap-1.5">
+          <span className={cn('h-2.5 w-2.5 rounded-full', OUTCOME_COLORS[outcome])} />
+          {t(`lp_outcome_${outcome}`)}
+        </span>
+      ))}
+    </div>
+  );
+}
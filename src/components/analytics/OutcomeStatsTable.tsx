@@ -0,0 +1,66 @@
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { favorableRate, type PracticeDimension } from '@/lib/practice-outcomes';
+import { useDimensionLabel, type PracticeOutcomeStat } from '@/hooks/usePracticeAnalytics';
+import { OutcomeBar } from './OutcomeBar';
+
+interface OutcomeStatsTableProps {
+  dimension: PracticeDimension;
+  rows: PracticeOutcomeStat[];
+  isLoading: boolean;
+  selectedKey: string | null;
+  onSelect: (key: string) => void;
+}
+
+export function OutcomeStatsTable({ dimension, rows, isLoading, selectedKey, onSelect }: OutcomeStatsTableProps) {
+  const { t } = useTranslation('analytics');
+  const label = useDimensionLabel();
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-10">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return <p className="py-10 text-center text-sm text-muted-foreground">{t('no_data')}</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{t(dimension)}</TableHead>
+          <TableHead className="w-20 text-right">{t('total')}</TableHead>
+          <TableHead className="hidden w-1/3 sm:table-cell" />
+          <TableHead className="w-24 text-right">%</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map(row => {
+          const rate = favorableRate(row);
+          return (
+            <TableRow
+              key={row.group_key}
+              onClick={() => onSelect(row.group_key)}
+              className={cn('cursor-pointer', selectedKey === row.group_key && 'bg-muted')}
+            >
+              <TableCell className="font-medium">{label(dimension, row.group_key)}</TableCell>
+              <TableCell className="text-right tabular-nums">{row.total}</TableCell>
+              <TableCell className="hidden sm:table-cell">
+                <OutcomeBar counts={row} />
+              </TableCell>
+              <TableCell className="text-right tabular-nums" title={t('favorable_rate')}>
+                {rate === null ? '-' : `${rate}%`}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
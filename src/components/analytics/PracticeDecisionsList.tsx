@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PRACTICE_OUTCOMES, type PracticeOutcome } from '@/lib/practice-outcomes';
+import { usePracticeDecisions, type PracticeAnalyticsFilters } from '@/hooks/usePracticeAnalytics';
+
+const PAGE_SIZE = 50;
+
+const OUTCOME_VARIANT: Record<PracticeOutcome, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  granted: 'default',
+  partial: 'secondary',
+  rejected: 'destructive',
+  remanded: 'outline',
+  discontinued: 'outline',
+};
+
+interface PracticeDecisionsListProps {
+  filters: PracticeAnalyticsFilters;
+}
+
+export function PracticeDecisionsList({ filters }: PracticeDecisionsListProps) {
+  const { t } = useTranslation(['analytics', 'kb']);
+  const [outcome, setOutcome] = useState<PracticeOutcome | 'all'>('all');
+
+  const { data: decisions = [], isLoading } = usePracticeDecisions(
+    filters,
+    outcome === 'all' ? undefined : outcome,
+    PAGE_SIZE
+  );
+
+  return (
+    <div className="space-y-3">
+      <Select value={outcome} onValueChange={(v) => setOutcome(v as PracticeOutcome | 'all')}>
+        <SelectTrigger className="w-full sm:w-60">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">{t('analytics:all_outcomes')}</SelectItem>
+          {PRACTICE_OUTCOMES.map(o => (
+            <SelectItem key={o} value={o}>{t(`kb:lp_outcome_${o}`)}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : decisions.length === 0 ? (
+        <p className="py-6 text-center text-sm text-muted-foreground">{t('analytics:no_decisions')}</p>
+      ) : (
+        <div className="divide-y">
+          {decisions.map(d => (
+            <div key={d.id} className="flex flex-col gap-1 py-2 sm:flex-row sm:items-start sm:justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium break-words">{d.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    d.court_name,
+                    t(`kb:lp_court_${d.court_type}`),
+                    d.case_number_anonymized,
+                    d.decision_date && format(new Date(d.decision_date), 'dd.MM.yyyy'),
+                  ].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <Badge variant={OUTCOME_VARIANT[d.outcome]} className="shrink-0 self-start">
+                {t(`kb:lp_outcome_${d.outcome}`)}
+              </Badge>
+            </div>
+          ))}
+          {decisions.length === PAGE_SIZE && (
+            <p className="pt-2 text-xs text-muted-foreground">{t('analytics:shown_first', { count: PAGE_SIZE })}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { Music, Loader2 } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAudioTranscriptions } from '@/hooks/useAudioTranscriptions';
 import { AudioTranscriptionResult } from './AudioTranscriptionResult';
+import { AudioTranscriptionProgress } from './AudioTranscriptionProgress';
 import { AudioUpload } from './AudioUpload';
 
 interface AudioTranscriptionListProps {
@@ -41,11 +42,19 @@ export function AudioTranscriptionList({ caseId }: AudioTranscriptionListProps)
           ) : (
             <div className="space-y-4">
               {transcriptions.map((transcription) => (
-                <AudioTranscriptionResult
-                  key={transcription.id}
-                  transcription={transcription}
-                  caseId={caseId}
-                />
+                transcription.status === 'completed' ? (
+                  <AudioTranscriptionResult
+                    key={transcription.id}
+                    transcription={transcription}
+                    caseId={caseId}
+                  />
+                ) : (
+                  <AudioTranscriptionProgress
+                    key={transcription.id}
+                    transcription={transcription}
+                    caseId={caseId}
+                  />
+                )
               ))}
             </div>
           )}
@@ -0,0 +1,82 @@
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { AlertCircle, Clock, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { useAudioTranscriptions, type TranscriptionWithFile } from '@/hooks/useAudioTranscriptions';
+import { formatTimestamp } from '@/lib/transcript';
+
+interface AudioTranscriptionProgressProps {
+  transcription: TranscriptionWithFile;
+  caseId: string;
+}
+
+/** A long recording still being transcribed part by part, or one that failed */
+export function AudioTranscriptionProgress({ transcription, caseId }: AudioTranscriptionProgressProps) {
+  const { t } = useTranslation(['audio', 'common']);
+  const { deleteTranscription } = useAudioTranscriptions(caseId);
+
+  const failed = transcription.status === 'failed';
+  const stitching = transcription.status === 'stitching';
+  const total = Math.max(transcription.chunks_total, 1);
+  const percent = stitching ? 100 : Math.round((transcription.chunks_completed / total) * 100);
+
+  return (
+    <Card className="w-full overflow-hidden">
+      <CardHeader className="pb-3 px-3 sm:px-6">
+        <CardTitle className="text-sm sm:text-base break-words leading-tight">
+          {transcription.case_files?.original_filename || t('audio:transcription')}
+        </CardTitle>
+        <div className="flex flex-wrap items-center gap-x-2 gap-y-1 text-xs sm:text-sm text-muted-foreground">
+          <span className="flex items-center gap-1">
+            <Clock className="h-3 w-3 shrink-0" />
+            {format(new Date(transcription.created_at), 'dd.MM.yyyy HH:mm')}
+          </span>
+          {transcription.duration_seconds !== null && (
+            <span>
+              {t('audio:duration')}: {formatTimestamp(transcription.duration_seconds * 1000)}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="px-3 sm:px-6 space-y-3">
+        {failed ? (
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+            <span className="break-words">
+              {t('audio:processing_failed')}
+              {transcription.error_message && `: ${transcription.error_message}`}
+            </span>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin shrink-0" />
+              {stitching
+                ? t('audio:chunks_stitching')
+                : t('audio:chunks_progress', {
+                    done: transcription.chunks_completed,
+                    total: transcription.chunks_total,
+                  })}
+            </div>
+            <Progress value={percent} aria-label={t('audio:processing')} />
+          </>
+        )}
+
+        {failed && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => deleteTranscription.mutate(transcription.id)}
+            disabled={deleteTranscription.isPending}
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            {t('audio:delete_transcription')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { format } from 'date-fns';
 import { 
@@ -9,8 +9,12 @@ import {
   AlertTriangle, 
   CheckCircle2,
   BookOpen,
+  Download,
+  FileSearch,
   Loader2,
-  MessageSquare
+  MessageSquare,
+  Play,
+  Users,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -31,11 +35,38 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useAudioTranscriptions, TranscriptionWithFile } from '@/hooks/useAudioTranscriptions';
+import { useTranscriptSegments } from '@/hooks/useTranscriptSegments';
+import { useCaseParties } from '@/hooks/useCaseParties';
+import { useCase } from '@/hooks/useCases';
 import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
 import type { Database } from '@/integrations/supabase/types';
+import { exportTranscriptToDocx } from '@/lib/docxExport';
+import {
+  formatTimestamp,
+  hasTimestamps,
+  parseSpeakerLabels,
+  parseTranscriptText,
+  speakerIds,
+  speakerNumber,
+  toSrt,
+  toTranscriptLine,
+  toVtt,
+  type SpeakerLabels,
+  type TranscriptLine,
+} from '@/lib/transcript';
+import { TranscriptContradictionsDialog } from './TranscriptContradictionsDialog';
+import { TranscriptSegmentList } from './TranscriptSegmentList';
+import { TranscriptSpeakersDialog } from './TranscriptSpeakersDialog';
 
 interface AudioTranscriptionResultProps {
   transcription: TranscriptionWithFile;
@@ -57,38 +88,22 @@ const KB_CATEGORIES: KBCategory[] = [
   'other',
 ];
 
-// Speaker color palettes using CSS variables for theme support
-const SPEAKER_STYLES = [
-  { label: 'text-blue-600 dark:text-blue-400', bubble: 'bg-blue-50 dark:bg-blue-950/40 border-blue-200 dark:border-blue-800' },
-  { label: 'text-emerald-600 dark:text-emerald-400', bubble: 'bg-emerald-50 dark:bg-emerald-950/40 border-emerald-200 dark:border-emerald-800' },
-  { label: 'text-purple-600 dark:text-purple-400', bubble: 'bg-purple-50 dark:bg-purple-950/40 border-purple-200 dark:border-purple-800' },
-  { label: 'text-orange-600 dark:text-orange-400', bubble: 'bg-orange-50 dark:bg-orange-950/40 border-orange-200 dark:border-orange-800' },
-  { label: 'text-rose-600 dark:text-rose-400', bubble: 'bg-rose-50 dark:bg-rose-950/40 border-rose-200 dark:border-rose-800' },
-];
-
-function parseDialogue(text: string) {
-  const lines = text.split('\n');
-  const speakerMap: Record<string, number> = {};
-  let speakerCount = 0;
-
-  return lines.map((line) => {
-    const match = line.match(/^((?:Спикер|Speaker|Говорящий|Խոսող)\s*\d+)\s*:\s*(.*)$/i);
-    if (match) {
-      const speaker = match[1];
-      const content = match[2];
-      if (!(speaker in speakerMap)) {
-        speakerMap[speaker] = speakerCount % SPEAKER_STYLES.length;
-        speakerCount++;
-      }
-      return { type: 'dialogue' as const, speaker, content, styleIdx: speakerMap[speaker] };
-    }
-    return { type: 'plain' as const, content: line };
-  });
+function downloadText(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: `${type};charset=utf-8` }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 }
 
 export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscriptionResultProps) {
-  const { t } = useTranslation(['audio', 'kb', 'common']);
+  const { t, i18n } = useTranslation(['audio', 'kb', 'common']);
   const { updateTranscription, addToKnowledgeBase } = useAudioTranscriptions(caseId);
+  const { segments, updateSegment, saveSpeakerLabels } = useTranscriptSegments(transcription.id, caseId);
+  const { data: caseData } = useCase(caseId);
   const { isAdmin, isClient } = useAuth();
   
   const [isEditing, setIsEditing] = useState(false);
@@ -96,6 +111,12 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
   const [showKBDialog, setShowKBDialog] = useState(false);
   const [kbTitle, setKbTitle] = useState('');
   const [kbCategory, setKbCategory] = useState<KBCategory>('legal_commentary');
+  const [showSpeakers, setShowSpeakers] = useState(false);
+  const [showContradictions, setShowContradictions] = useState(false);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [isLoadingAudio, setIsLoadingAudio] = useState(false);
+  const [positionMs, setPositionMs] = useState<number | null>(null);
+  const audioRef = useRef<HTMLAudioElement>(null);
 
   const confidenceScore = transcription.confidence || 0;
   const confidencePercent = Math.round(Number(confidenceScore) * 100);
@@ -111,8 +132,92 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
     ? Math.floor(transcription.duration_seconds % 60) 
     : 0;
 
-  const dialogueLines = parseDialogue(transcription.transcription_text);
-  const isDialogue = dialogueLines.some(l => l.type === 'dialogue');
+  // Transcriptions from before structured segments are parsed from their text
+  const isStructured = segments.length > 0;
+  const { lines, labels } = useMemo((): { lines: TranscriptLine[]; labels: SpeakerLabels } => {
+    const stored = parseSpeakerLabels(transcription.speaker_labels);
+    if (segments.length > 0) return { lines: segments.map(toTranscriptLine), labels: stored };
+    const legacy = parseTranscriptText(transcription.transcription_text);
+    return { lines: legacy.lines, labels: { ...legacy.labels, ...stored } };
+  }, [segments, transcription.speaker_labels, transcription.transcription_text]);
+  const speakers = useMemo(() => speakerIds(lines), [lines]);
+  const isDialogue = speakers.length > 1 || Object.keys(labels).length > 0;
+  const canPlay = !!transcription.case_files?.storage_path;
+  const { parties } = useCaseParties(canEdit && isStructured ? caseId : undefined);
+
+  const speakerName = (id: string) => labels[id]?.name || t('audio:speaker', { number: speakerNumber(id) });
+
+  const activeIndex = positionMs === null
+    ? null
+    : lines.findIndex(l => l.start_ms !== null && l.end_ms !== null && positionMs >= l.start_ms && positionMs < l.end_ms);
+
+  const loadAudio = async (): Promise<string | null> => {
+    if (audioUrl) return audioUrl;
+    const path = transcription.case_files?.storage_path;
+    if (!path) return null;
+    setIsLoadingAudio(true);
+    try {
+      const { data } = await supabase.storage.from('case-files').createSignedUrl(path, 3600);
+      setAudioUrl(data?.signedUrl ?? null);
+      return data?.signedUrl ?? null;
+    } finally {
+      setIsLoadingAudio(false);
+    }
+  };
+
+  const seek = async (ms: number) => {
+    const url = await loadAudio();
+    const audio = audioRef.current;
+    if (!url || !audio) return;
+    if (audio.src !== url) audio.src = url;
+    audio.currentTime = ms / 1000;
+    void audio.play().catch(() => undefined);
+  };
+
+  const exportBaseName = (transcription.case_files?.original_filename || 'transcript').replace(/\.[^.]+$/, '');
+
+  const handleExport = async (kind: 'srt' | 'vtt' | 'docx') => {
+    if (kind === 'srt') {
+      downloadText(toSrt(lines, speakerName), `${exportBaseName}.srt`, 'application/x-subrip');
+      return;
+    }
+    if (kind === 'vtt') {
+      downloadText(toVtt(lines, speakerName), `${exportBaseName}.vtt`, 'text/vtt');
+      return;
+    }
+    const language = (['hy', 'ru', 'en'] as const).find(l => i18n.language?.startsWith(l)) ?? 'hy';
+    await exportTranscriptToDocx({
+      title: t('audio:protocol_title'),
+      details: [
+        caseData ? t('audio:protocol_case', { value: `${caseData.case_number} \u2014 ${caseData.title}` }) : null,
+        t('audio:protocol_recording', { value: transcription.case_files?.original_filename || '' }),
+        t('audio:protocol_date', { value: format(new Date(transcription.created_at), 'dd.MM.yyyy HH:mm') }),
+        `${t('audio:duration')}: ${durationMinutes}:${durationSecs.toString().padStart(2, '0')}`,
+      ].filter((line): line is string => !!line),
+      participantsHeading: t('audio:protocol_participants'),
+      participants: speakers.map(id => {
+        const role = labels[id]?.role;
+        return role ? `${speakerName(id)} \u2014 ${t(`audio:speaker_role_${role}`)}` : speakerName(id);
+      }),
+      entries: lines.map(l => ({
+        time: l.start_ms !== null ? formatTimestamp(l.start_ms) : null,
+        speaker: speakerName(l.speaker),
+        text: l.text,
+      })),
+      headerText: caseData?.case_number ?? exportBaseName,
+      fileName: `${exportBaseName}.docx`,
+      language,
+    });
+  };
+
+  const handleSaveSegment = async (line: TranscriptLine, text: string, speaker: string) => {
+    if (!line.id) return;
+    await updateSegment.mutateAsync({ id: line.id, text, speaker });
+  };
+
+  const handleSaveSpeakers = (next: SpeakerLabels) => {
+    saveSpeakerLabels.mutate(next, { onSuccess: () => setShowSpeakers(false) });
+  };
 
   const getConfidenceBadge = () => {
     const score = Number(confidenceScore);
@@ -192,7 +297,7 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
                 {isDialogue && (
                   <span className="flex items-center gap-1 text-primary">
                     <MessageSquare className="h-3 w-3 shrink-0" />
-                    Диалог
+                    {t('audio:speakers_count', { count: speakers.length })}
                   </span>
                 )}
               </div>
@@ -219,25 +324,33 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
               className="font-mono text-sm w-full"
               aria-label={t('audio:edit_transcription')}
             />
-          ) : isDialogue ? (
-            <div className="rounded-md border bg-muted/20 p-3 sm:p-4 max-h-80 overflow-y-auto space-y-2">
-              {dialogueLines.map((line, idx) => {
-                if (line.type === 'dialogue') {
-                  const style = SPEAKER_STYLES[line.styleIdx];
-                  return (
-                    <div key={idx} className={`rounded-lg border p-2.5 ${style.bubble}`}>
-                      <span className={`text-xs font-semibold uppercase tracking-wide ${style.label}`}>
-                        {line.speaker}
-                      </span>
-                      <p className="text-sm mt-1 break-words">{line.content}</p>
-                    </div>
-                  );
-                }
-                if (!line.content.trim()) return null;
-                return (
-                  <p key={idx} className="text-sm text-muted-foreground px-1 break-words">{line.content}</p>
-                );
-              })}
+          ) : lines.length > 0 && (isDialogue || hasTimestamps(lines)) ? (
+            <div className="space-y-2">
+              {canPlay && (
+                audioUrl ? (
+                  <audio
+                    ref={audioRef}
+                    src={audioUrl}
+                    controls
+                    className="w-full"
+                    onTimeUpdate={(e) => setPositionMs(e.currentTarget.currentTime * 1000)}
+                  />
+                ) : (
+                  <Button size="sm" variant="outline" onClick={() => void loadAudio()} disabled={isLoadingAudio}>
+                    {isLoadingAudio ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+                    {t('audio:play_audio')}
+                  </Button>
+                )
+              )}
+              <TranscriptSegmentList
+                lines={lines}
+                speakers={speakers}
+                speakerName={speakerName}
+                activeIndex={activeIndex !== null && activeIndex >= 0 ? activeIndex : null}
+                onSeek={canPlay ? (ms) => void seek(ms) : undefined}
+                onSave={canEdit && isStructured ? handleSaveSegment : undefined}
+                isSaving={updateSegment.isPending}
+              />
             </div>
           ) : (
             <div className="bg-muted/50 rounded-md p-3 sm:p-4 max-h-64 overflow-y-auto">
@@ -255,9 +368,9 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
           )}
         </CardContent>
 
-        {canEdit && (
+        {(canEdit || lines.length > 0) && (
           <CardFooter className="flex flex-col sm:flex-row justify-between gap-2 pt-0 px-3 sm:px-6">
-            {isEditing ? (
+            {!canEdit ? null : isEditing ? (
               <div className="flex gap-2 w-full sm:w-auto">
                 <Button
                   size="sm"
@@ -277,6 +390,11 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
                   <span className="truncate">{t('audio:cancel')}</span>
                 </Button>
               </div>
+            ) : isStructured ? (
+              <Button size="sm" variant="outline" onClick={() => setShowSpeakers(true)} className="w-full sm:w-auto">
+                <Users className="h-4 w-4 mr-1 shrink-0" />
+                <span className="truncate">{t('audio:speakers_title')}</span>
+              </Button>
             ) : (
               <Button size="sm" variant="outline" onClick={() => setIsEditing(true)} className="w-full sm:w-auto">
                 <Edit className="h-4 w-4 mr-1 shrink-0" />
@@ -284,6 +402,38 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
               </Button>
             )}
 
+            {!isEditing && lines.length > 0 && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button size="sm" variant="outline" className="w-full sm:w-auto">
+                    <Download className="h-4 w-4 mr-1 shrink-0" />
+                    <span className="truncate">{t('common:export')}</span>
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {hasTimestamps(lines) && (
+                    <>
+                      <DropdownMenuItem onClick={() => void handleExport('srt')}>{t('audio:export_srt')}</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => void handleExport('vtt')}>{t('audio:export_vtt')}</DropdownMenuItem>
+                    </>
+                  )}
+                  <DropdownMenuItem onClick={() => void handleExport('docx')}>{t('audio:export_protocol')}</DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+
+            {canEdit && isStructured && !isEditing && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowContradictions(true)}
+                className="w-full sm:w-auto"
+              >
+                <FileSearch className="h-4 w-4 mr-1 shrink-0" />
+                <span className="truncate">{t('audio:contradictions_button')}</span>
+              </Button>
+            )}
+
             {canAddToKB && !isEditing && (
               <Button
                 size="sm"
@@ -299,6 +449,31 @@ export function AudioTranscriptionResult({ transcription, caseId }: AudioTranscr
         )}
       </Card>
 
+      {isStructured && (
+        <TranscriptSpeakersDialog
+          open={showSpeakers}
+          speakers={speakers}
+          labels={labels}
+          parties={parties}
+          isSaving={saveSpeakerLabels.isPending}
+          onSave={handleSaveSpeakers}
+          onOpenChange={setShowSpeakers}
+        />
+      )}
+
+      {canEdit && isStructured && (
+        <TranscriptContradictionsDialog
+          open={showContradictions}
+          transcriptionId={transcription.id}
+          caseId={caseId}
+          speakers={speakers}
+          speakerName={speakerName}
+          canSave={canEdit}
+          onSeek={canPlay ? (ms) => void seek(ms) : undefined}
+          onOpenChange={setShowContradictions}
+        />
+      )}
+
       <Dialog open={showKBDialog} onOpenChange={setShowKBDialog}>
         <DialogContent>
           <DialogHeader>
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, FileSearch, Loader2, Save } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useTranscriptContradictions } from '@/hooks/useTranscriptContradictions';
+import { formatTimestamp } from '@/lib/transcript';
+import {
+  contradictionKey,
+  contradictionSource,
+  type ContradictionAnalysis,
+  type ContradictionSeverity,
+} from '@/lib/transcript-contradictions';
+
+const SEVERITY_VARIANT: Record<ContradictionSeverity, 'destructive' | 'secondary' | 'outline'> = {
+  high: 'destructive',
+  medium: 'secondary',
+  low: 'outline',
+};
+
+interface TranscriptContradictionsDialogProps {
+  open: boolean;
+  transcriptionId: string;
+  caseId: string;
+  speakers: string[];
+  speakerName: (id: string) => string;
+  /** Confirmed rows can be saved to the evidence registry */
+  canSave: boolean;
+  onSeek?: (ms: number) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TranscriptContradictionsDialog({
+  open,
+  transcriptionId,
+  caseId,
+  speakers,
+  speakerName,
+  canSave,
+  onSeek,
+  onOpenChange,
+}: TranscriptContradictionsDialogProps) {
+  const { t } = useTranslation(['audio', 'common']);
+  const { analyze, saveToEvidence, pageReference } = useTranscriptContradictions(transcriptionId, caseId);
+  const [speaker, setSpeaker] = useState<string>(speakers[0] ?? '');
+  const [result, setResult] = useState<ContradictionAnalysis | null>(null);
+  const [confirmed, setConfirmed] = useState<Set<string>>(new Set());
+  const [saved, setSaved] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!speakers.includes(speaker)) setSpeaker(speakers[0] ?? '');
+  }, [speakers, speaker]);
+
+  const selectSpeaker = (id: string) => {
+    setSpeaker(id);
+    setResult(null);
+    setConfirmed(new Set());
+    setSaved(new Set());
+  };
+
+  const handleAnalyze = () => {
+    analyze.mutate(speaker, {
+      onSuccess: (data) => {
+        setResult(data);
+        setConfirmed(new Set());
+        setSaved(new Set());
+      },
+    });
+  };
+
+  const toggle = (key: string, checked: boolean) =>
+    setConfirmed(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(key);
+      else next.delete(key);
+      return next;
+    });
+
+  const handleSave = () => {
+    if (!result) return;
+    const items = result.contradictions.filter(c => confirmed.has(contradictionKey(c)));
+    saveToEvidence.mutate({ items, speakerName: speakerName(speaker) }, {
+      onSuccess: () => {
+        setSaved(prev => new Set([...prev, ...confirmed]));
+        setConfirmed(new Set());
+      },
+    });
+  };
+
+  const rows = result?.contradictions ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('audio:contradictions_title')}</DialogTitle>
+          <DialogDescription>{t('audio:contradictions_description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={speaker} onValueChange={selectSpeaker} disabled={analyze.isPending}>
+            <SelectTrigger className="sm:w-64" aria-label={t('audio:contradictions_speaker')}>
+              <SelectValue placeholder={t('audio:contradictions_speaker')} />
+            </SelectTrigger>
+            <SelectContent>
+              {speakers.map(id => (
+                <SelectItem key={id} value={id}>{speakerName(id)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleAnalyze} disabled={!speaker || analyze.isPending}>
+            {analyze.isPending
+              ? <Loader2 className="h-4 w-4 animate-spin mr-1" />
+              : <FileSearch className="h-4 w-4 mr-1" />}
+            {analyze.isPending ? t('audio:contradictions_running') : t('audio:contradictions_run')}
+          </Button>
+        </div>
+
+        {result && !result.indexed && (
+          <p className="text-sm text-orange-700 dark:text-orange-300 flex items-start gap-2">
+            <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+            <span>{t('audio:contradictions_not_indexed')}</span>
+          </p>
+        )}
+
+        {result?.indexed && (
+          <p className="text-xs text-muted-foreground">
+            {t('audio:contradictions_compared', { statements: result.statements, excerpts: result.excerpts })}
+          </p>
+        )}
+
+        {result?.indexed && rows.length === 0 && (
+          <p className="text-sm text-muted-foreground py-4 text-center">{t('audio:contradictions_none')}</p>
+        )}
+
+        {rows.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canSave && <TableHead className="w-10"><span className="sr-only">{t('audio:contradiction_confirm')}</span></TableHead>}
+                <TableHead className="w-20">{t('audio:contradiction_time')}</TableHead>
+                <TableHead>{t('audio:contradiction_hearing')}</TableHead>
+                <TableHead>{t('audio:contradiction_prior')}</TableHead>
+                <TableHead className="w-40">{t('audio:contradiction_source')}</TableHead>
+                <TableHead className="w-24">{t('audio:contradiction_severity')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(c => {
+                const key = contradictionKey(c);
+                const isSaved = saved.has(key);
+                return (
+                  <TableRow key={key} className="align-top">
+                    {canSave && (
+                      <TableCell>
+                        <Checkbox
+                          checked={isSaved || confirmed.has(key)}
+                          disabled={isSaved || saveToEvidence.isPending}
+                          onCheckedChange={(checked) => toggle(key, checked === true)}
+                          aria-label={t('audio:contradiction_confirm')}
+                        />
+                      </TableCell>
+                    )}
+                    <TableCell className="font-mono text-xs">
+                      {onSeek ? (
+                        <button
+                          type="button"
+                          className="text-primary hover:underline"
+                          onClick={() => onSeek(c.start_ms)}
+                          title={t('audio:play_from', { time: formatTimestamp(c.start_ms) })}
+                        >
+                          {formatTimestamp(c.start_ms)}
+                        </button>
+                      ) : formatTimestamp(c.start_ms)}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="break-words">{c.transcript_quote}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <p className="break-words">{c.prior_quote}</p>
+                      {c.explanation && (
+                        <p className="mt-1 text-xs text-muted-foreground break-words">{c.explanation}</p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <p className="font-medium">{pageReference(c) ?? '\u2014'}</p>
+                      {c.page_estimated && (
+                        <p className="text-muted-foreground">{t('audio:contradiction_page_estimated')}</p>
+                      )}
+                      {contradictionSource(c) && (
+                        <p className="text-muted-foreground break-words">{contradictionSource(c)}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={SEVERITY_VARIANT[c.severity]}>
+                        {t(`audio:contradiction_severity_${c.severity}`)}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common:close')}
+          </Button>
+          {canSave && rows.length > 0 && (
+            <Button onClick={handleSave} disabled={confirmed.size === 0 || saveToEvidence.isPending}>
+              {saveToEvidence.isPending
+                ? <Loader2 className="h-4 w-4 animate-spin mr-1" />
+                : <Save className="h-4 w-4 mr-1" />}
+              {t('audio:contradictions_save', { count: confirmed.size })}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Check, History, Loader2, Pencil, Play, RotateCcw, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { formatTimestamp, isSegmentEdited, type TranscriptLine } from '@/lib/transcript';
+
+// Speaker color palettes using CSS variables for theme support
+const SPEAKER_STYLES = [
+  { label: 'text-blue-600 dark:text-blue-400', bubble: 'bg-blue-50 dark:bg-blue-950/40 border-blue-200 dark:border-blue-800' },
+  { label: 'text-emerald-600 dark:text-emerald-400', bubble: 'bg-emerald-50 dark:bg-emerald-950/40 border-emerald-200 dark:border-emerald-800' },
+  { label: 'text-purple-600 dark:text-purple-400', bubble: 'bg-purple-50 dark:bg-purple-950/40 border-purple-200 dark:border-purple-800' },
+  { label: 'text-orange-600 dark:text-orange-400', bubble: 'bg-orange-50 dark:bg-orange-950/40 border-orange-200 dark:border-orange-800' },
+  { label: 'text-rose-600 dark:text-rose-400', bubble: 'bg-rose-50 dark:bg-rose-950/40 border-rose-200 dark:border-rose-800' },
+];
+
+interface TranscriptSegmentListProps {
+  lines: TranscriptLine[];
+  /** Speaker ids in order of first appearance; also the color index */
+  speakers: string[];
+  speakerName: (id: string) => string;
+  /** Segment under the playback position */
+  activeIndex?: number | null;
+  onSeek?: (ms: number) => void;
+  /** Only stored segments (with an id) can be edited */
+  onSave?: (line: TranscriptLine, text: string, speaker: string) => Promise<void>;
+  isSaving?: boolean;
+}
+
+export function TranscriptSegmentList({
+  lines,
+  speakers,
+  speakerName,
+  activeIndex = null,
+  onSeek,
+  onSave,
+  isSaving = false,
+}: TranscriptSegmentListProps) {
+  const { t } = useTranslation(['audio', 'common']);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [draftSpeaker, setDraftSpeaker] = useState('');
+  const [originalShown, setOriginalShown] = useState<Set<string>>(new Set());
+  const activeRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeIndex]);
+
+  const styleFor = (speaker: string) =>
+    SPEAKER_STYLES[Math.max(speakers.indexOf(speaker), 0) % SPEAKER_STYLES.length];
+
+  const startEdit = (line: TranscriptLine) => {
+    setEditingId(line.id);
+    setDraftText(line.text);
+    setDraftSpeaker(line.speaker);
+  };
+
+  const save = async (line: TranscriptLine, text: string, speaker: string) => {
+    if (!onSave || !text.trim()) return;
+    await onSave(line, text.trim(), speaker);
+    setEditingId(null);
+  };
+
+  const toggleOriginal = (id: string) =>
+    setOriginalShown(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  return (
+    <div className="rounded-md border bg-muted/20 p-3 sm:p-4 max-h-96 overflow-y-auto space-y-2">
+      {lines.map((line, idx) => {
+        const style = styleFor(line.speaker);
+        const edited = isSegmentEdited(line);
+        const isEditing = !!line.id && editingId === line.id;
+        const isActive = idx === activeIndex;
+
+        return (
+          <div
+            key={line.id ?? idx}
+            ref={isActive ? activeRef : undefined}
+            className={`rounded-lg border p-2.5 ${style.bubble} ${isActive ? 'ring-2 ring-primary' : ''}`}
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              {line.start_ms !== null && (
+                onSeek ? (
+                  <button
+                    type="button"
+                    className="flex items-center gap-1 text-xs font-mono text-muted-foreground hover:text-primary"
+                    onClick={() => onSeek(line.start_ms!)}
+                    aria-label={t('audio:play_from', { time: formatTimestamp(line.start_ms) })}
+                  >
+                    <Play className="h-3 w-3" />
+                    {formatTimestamp(line.start_ms)}
+                  </button>
+                ) : (
+                  <span className="text-xs font-mono text-muted-foreground">{formatTimestamp(line.start_ms)}</span>
+                )
+              )}
+              <span className={`text-xs font-semibold uppercase tracking-wide ${style.label}`}>
+                {speakerName(line.speaker)}
+              </span>
+              {edited && line.id && (
+                <Badge
+                  variant="outline"
+                  className="cursor-pointer text-[10px]"
+                  onClick={() => toggleOriginal(line.id!)}
+                >
+                  <History className="h-3 w-3 mr-1" />
+                  {t('audio:segment_edited')}
+                </Badge>
+              )}
+              {line.confidence !== null && line.confidence < 0.5 && (
+                <Badge variant="outline" className="text-[10px] text-orange-600 border-orange-600">
+                  {t('audio:segment_low_confidence')}
+                </Badge>
+              )}
+              {onSave && line.id && !isEditing && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="ml-auto h-6 w-6"
+                  aria-label={t('audio:edit_segment')}
+                  onClick={() => startEdit(line)}
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+
+            {isEditing ? (
+              <div className="mt-2 space-y-2">
+                <Select value={draftSpeaker} onValueChange={setDraftSpeaker}>
+                  <SelectTrigger className="h-8 w-full sm:w-56" aria-label={t('audio:segment_speaker')}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {speakers.map(id => (
+                      <SelectItem key={id} value={id}>{speakerName(id)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  value={draftText}
+                  onChange={(e) => setDraftText(e.target.value)}
+                  rows={3}
+                  className="text-sm"
+                  aria-label={t('audio:edit_segment')}
+                />
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" onClick={() => save(line, draftText, draftSpeaker)} disabled={isSaving || !draftText.trim()}>
+                    {isSaving ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Check className="h-4 w-4 mr-1" />}
+                    {t('audio:save_changes')}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setEditingId(null)}>
+                    <X className="h-4 w-4 mr-1" />
+                    {t('audio:cancel')}
+                  </Button>
+                  {edited && line.original_text !== null && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={isSaving}
+                      onClick={() => save(line, line.original_text!, line.original_speaker ?? line.speaker)}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      {t('audio:restore_original')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm mt-1 break-words">{line.text}</p>
+            )}
+
+            {!isEditing && line.id && originalShown.has(line.id) && (
+              <div className="mt-2 rounded border border-dashed bg-background/60 p-2 text-xs text-muted-foreground">
+                <span className="font-medium">{t('audio:original_text')}</span>
+                {line.original_speaker && line.original_speaker !== line.speaker && (
+                  <span> ({speakerName(line.original_speaker)})</span>
+                )}
+                : {line.original_text}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
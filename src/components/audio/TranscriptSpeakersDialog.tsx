@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { CasePartySelect } from '@/components/documents/CasePartySelect';
+import type { CaseParty } from '@/lib/case-parties';
+import {
+  SPEAKER_ROLES,
+  speakerNumber,
+  toSpeakerRole,
+  type SpeakerLabel,
+  type SpeakerLabels,
+  type SpeakerRole,
+} from '@/lib/transcript';
+
+const NO_ROLE = 'none';
+
+interface TranscriptSpeakersDialogProps {
+  open: boolean;
+  speakers: string[];
+  labels: SpeakerLabels;
+  /** Registered parties of the case, offered as speakers */
+  parties: CaseParty[];
+  isSaving: boolean;
+  onSave: (labels: SpeakerLabels) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TranscriptSpeakersDialog({
+  open,
+  speakers,
+  labels,
+  parties,
+  isSaving,
+  onSave,
+  onOpenChange,
+}: TranscriptSpeakersDialogProps) {
+  const { t } = useTranslation(['audio', 'common']);
+  const [draft, setDraft] = useState<SpeakerLabels>({});
+
+  useEffect(() => {
+    if (open) setDraft(labels);
+  }, [open, labels]);
+
+  const update = (id: string, patch: Partial<SpeakerLabel>) =>
+    setDraft(prev => ({
+      ...prev,
+      [id]: { name: '', role: null, party_id: null, ...prev[id], ...patch },
+    }));
+
+  const fromParty = (id: string, party: CaseParty) =>
+    update(id, { name: party.name, role: toSpeakerRole(party.role) ?? 'other', party_id: party.id });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const cleaned: SpeakerLabels = {};
+    for (const id of speakers) {
+      const label = draft[id];
+      if (!label) continue;
+      const name = label.name.trim();
+      if (!name && !label.role) continue;
+      cleaned[id] = { name, role: label.role, party_id: label.party_id };
+    }
+    onSave(cleaned);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{t('audio:speakers_title')}</DialogTitle>
+          <DialogDescription>{t('audio:speakers_hint')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {speakers.map(id => {
+            const label = draft[id];
+            return (
+              <div key={id} className="space-y-3 rounded-md border p-3">
+                <p className="text-sm font-medium">{t('audio:speaker', { number: speakerNumber(id) })}</p>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor={`speaker-name-${id}`}>{t('audio:speaker_name')}</Label>
+                    <Input
+                      id={`speaker-name-${id}`}
+                      value={label?.name ?? ''}
+                      onChange={e => update(id, { name: e.target.value, party_id: null })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor={`speaker-role-${id}`}>{t('audio:speaker_role')}</Label>
+                    <Select
+                      value={label?.role ?? NO_ROLE}
+                      onValueChange={v => update(id, { role: v === NO_ROLE ? null : v as SpeakerRole })}
+                    >
+                      <SelectTrigger id={`speaker-role-${id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NO_ROLE}>{'\u2014'}</SelectItem>
+                        {SPEAKER_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{t(`audio:speaker_role_${role}`)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                {parties.length > 0 && (
+                  <CasePartySelect id={`speaker-party-${id}`} parties={parties} onSelect={party => fromParty(id, party)} />
+                )}
+              </div>
+            );
+          })}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common:cancel')}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,7 +13,8 @@ import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { exportAnalysisToPDF, exportMultipleAnalysesToPDF } from '@/lib/pdfExport';
-import { Loader2, Brain, Download, FileSignature, Save, AlertTriangle, Check, Scale, Timer, GitCompare, ShieldCheck, FileText, Target, Search, BarChart3, BookOpen, MessageSquareQuote } from 'lucide-react';
+import { exportAnalysisToDocx, exportMultipleAnalysesToDocx } from '@/lib/docxExport';
+import { Loader2, Brain, Download, FileSignature, Save, AlertTriangle, Check, Scale, Timer, GitCompare, ShieldCheck, FileText, Target, Search, BarChart3, BookOpen, MessageSquareQuote, Square } from 'lucide-react';
 import { useReferencesText } from '@/lib/references-store';
 import { PrecedentCitationView, type PrecedentCitationResult } from '@/components/cases/PrecedentCitationView';
 import { DeadlineRulesView, type DeadlineRulesResult } from '@/components/cases/DeadlineRulesView';
@@ -24,6 +25,7 @@ import { EvidenceWeaknessView, type EvidenceWeaknessResult } from '@/components/
 import { RiskFactorsView, type RiskFactorsResult } from '@/components/cases/RiskFactorsView';
 import { LawUpdateSummaryView, type LawUpdateSummaryResult } from '@/components/cases/LawUpdateSummaryView';
 import { CrossExamView, type CrossExamResult } from '@/components/cases/CrossExamView';
+import { CitationVerificationView, type CitationVerificationReport } from '@/components/cases/CitationVerificationView';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Textarea } from '@/components/ui/textarea';
 
@@ -59,6 +61,8 @@ export function CaseAIAnalysisPanel({
     isLoading: isAnalyzing,
     currentRole,
     results,
+    liveText,
+    cancelAnalysis,
     analyzeCase,
     clearResults,
     loadResults
@@ -100,6 +104,8 @@ export function CaseAIAnalysisPanel({
   // If user clicks "Clear" while the initial saved-analyses load is still in-flight,
   // we must ignore that async result to prevent the content from "reappearing".
   const ignoreSavedAnalysesLoadRef = useRef(false);
+  // Set by Stop so the remaining roles of a multi-role run are skipped
+  const stopRequestedRef = useRef(false);
 
   // Load previously saved analyses
   useEffect(() => {
@@ -126,7 +132,7 @@ export function CaseAIAnalysisPanel({
           }
 
           const savedRolesSet = new Set<AIRole>();
-          const loadedResults: Partial<Record<AIRole, { role: AIRole; analysis: string; sources: Array<{ title: string; category: string; source_name: string }>; model: string } | null>> = {};
+          const loadedResults: Partial<Record<AIRole, { role: AIRole; analysis: string; sources: Array<{ title: string; category: string; source_name: string }>; model: string; analysis_id: string } | null>> = {};
           
           latestByRole.forEach((item, role) => {
             const validRoles: AIRole[] = ['advocate', 'prosecutor', 'judge', 'aggregator'];
@@ -139,7 +145,8 @@ export function CaseAIAnalysisPanel({
                 role: role as AIRole,
                 analysis: item.response_text,
                 sources,
-                model: 'loaded'
+                model: 'loaded',
+                analysis_id: item.id
               };
             }
           });
@@ -201,19 +208,37 @@ export function CaseAIAnalysisPanel({
       return;
     }
     
+    // ai-analyze saves each analysis of a case itself and returns its id
+    const markSaved = (role: AIRole, analysisId?: string | null) => {
+      if (analysisId) setSavedAnalysisRoles(prev => new Set(prev).add(role));
+    };
+
+    stopRequestedRef.current = false;
     for (const role of rolesToRun) {
-      await analyzeCase(role, caseId, facts, legalQuestion || '', referencesText);
+      const result = await analyzeCase(role, caseId, facts, legalQuestion || '', referencesText);
+      markSaved(role, result?.analysis_id);
+      if (stopRequestedRef.current) return;
     }
     
     if (canRunAggregator) {
-      await analyzeCase('aggregator', caseId, facts, legalQuestion || '', referencesText);
+      const result = await analyzeCase('aggregator', caseId, facts, legalQuestion || '', referencesText);
+      markSaved('aggregator', result?.analysis_id);
     }
   };
 
-  const handleExportSingleAnalysis = async (role: AIRole) => {
+  // The rating is stored against the final analysis (and so its prompt variant)
+  const ratedAnalysisId = (results.aggregator ?? results.judge ?? results.prosecutor ?? results.advocate)?.analysis_id ?? undefined;
+
+  const handleStopAnalysis = () => {
+    stopRequestedRef.current = true;
+    cancelAnalysis();
+  };
+
+  const handleExportSingleAnalysis = async (role: AIRole, format: 'pdf' | 'docx' = 'pdf') => {
     if (!results[role]) return;
     
-    await exportAnalysisToPDF({
+    const exportAnalysis = format === 'docx' ? exportAnalysisToDocx : exportAnalysisToPDF;
+    await exportAnalysis({
       caseNumber,
       caseTitle,
       role,
@@ -224,7 +249,7 @@ export function CaseAIAnalysisPanel({
     });
   };
 
-  const handleExportAllAnalyses = async () => {
+  const handleExportAllAnalyses = async (format: 'pdf' | 'docx' = 'pdf') => {
     const analyses = Object.entries(results)
       .filter((entry): entry is [string, NonNullable<typeof results[keyof typeof results]>] => entry[1] !== null)
       .map(([role, result]) => ({
@@ -235,7 +260,8 @@ export function CaseAIAnalysisPanel({
     
     if (analyses.length === 0) return;
     
-    await exportMultipleAnalysesToPDF(caseNumber, caseTitle, analyses, 'hy');
+    const exportAll = format === 'docx' ? exportMultipleAnalysesToDocx : exportMultipleAnalysesToPDF;
+    await exportAll(caseNumber, caseTitle, analyses, 'hy');
   };
   
   const canEnableAggregator = enabledRoles.advocate && enabledRoles.prosecutor && enabledRoles.judge;
@@ -543,13 +569,32 @@ export function CaseAIAnalysisPanel({
                   >
                     {t('common:clear', 'Clear')}
                   </Button>
-                  <PdfExportButton onClick={handleExportAllAnalyses} />
+                  <PdfExportButton onClick={() => handleExportAllAnalyses('pdf')} />
+                  <Button variant="outline" size="sm" onClick={() => handleExportAllAnalyses('docx')}>
+                    <Download className="mr-2 h-4 w-4" />
+                    {t('common:export_docx')}
+                  </Button>
                 </>
               )}
             </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {liveText && liveText.role !== 'draft_deterministic' && (
+            <div className="mb-6 border rounded-lg p-4" aria-live="polite">
+              <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+                <h3 className="font-semibold text-lg capitalize flex items-center gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {liveText.role}
+                </h3>
+                <Button variant="outline" size="sm" onClick={handleStopAnalysis}>
+                  <Square className="mr-2 h-3 w-3" />
+                  {t('ai:stop_generation')}
+                </Button>
+              </div>
+              <div className="text-sm whitespace-pre-wrap">{liveText.text}</div>
+            </div>
+          )}
           {!Object.values(results).some(r => r !== null) ? (
             <>
               <p className="text-sm text-muted-foreground mb-4">
@@ -613,19 +658,27 @@ export function CaseAIAnalysisPanel({
                 )}
               </div>
               
-              <Button className="w-full" onClick={handleStartAnalysis} disabled={isAnalyzing}>
-                {isAnalyzing ? (
-                  <>
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                    {t('ai:analyzing', 'Analyzing')} {currentRole ? `(${currentRole})` : ''}...
-                  </>
-                ) : (
-                  <>
-                    <Brain className="mr-2 h-4 w-4" />
-                    {t('ai:start_analysis', 'Start Analysis')}
-                  </>
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={handleStartAnalysis} disabled={isAnalyzing}>
+                  {isAnalyzing ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      {t('ai:analyzing', 'Analyzing')} {currentRole ? `(${currentRole})` : ''}...
+                    </>
+                  ) : (
+                    <>
+                      <Brain className="mr-2 h-4 w-4" />
+                      {t('ai:start_analysis', 'Start Analysis')}
+                    </>
+                  )}
+                </Button>
+                {isAnalyzing && !liveText && (
+                  <Button variant="outline" onClick={handleStopAnalysis}>
+                    <Square className="mr-2 h-4 w-4" />
+                    {t('ai:stop_generation')}
+                  </Button>
                 )}
-              </Button>
+              </div>
             </>
           ) : (
             <div className="space-y-6">
@@ -653,13 +706,20 @@ export function CaseAIAnalysisPanel({
                           )}
                           {savedAnalysisRoles.has(role) ? t('common:saved', 'Saved') : t('ai:save_analysis')}
                         </Button>
-                        <Button variant="outline" size="sm" onClick={() => handleExportSingleAnalysis(role)}>
+                        <Button variant="outline" size="sm" onClick={() => handleExportSingleAnalysis(role, 'pdf')}>
                           <Download className="mr-2 h-3 w-3" />
                           PDF
                         </Button>
+                        <Button variant="outline" size="sm" onClick={() => handleExportSingleAnalysis(role, 'docx')}>
+                          <Download className="mr-2 h-3 w-3" />
+                          DOCX
+                        </Button>
                       </div>
                     </div>
                     <div className="text-sm whitespace-pre-wrap mb-3">{result.analysis}</div>
+                    {result.citation_verification && (
+                      <CitationVerificationView data={result.citation_verification as CitationVerificationReport} />
+                    )}
                     {result.sources && result.sources.length > 0 && (
                       <div className="mt-3 pt-3 border-t">
                         <p className="text-xs font-semibold text-muted-foreground mb-2">
@@ -700,7 +760,7 @@ export function CaseAIAnalysisPanel({
                  : i18n.language === 'en' ? 'Procedural Deadlines' 
                  : '\u041F\u0440\u043E\u0446\u0435\u0441\u0441\u0443\u0430\u043B\u044C\u043D\u044B\u0435 \u0441\u0440\u043E\u043A\u0438'}
               </h3>
-              <DeadlineRulesView data={deadlineData} />
+              <DeadlineRulesView data={deadlineData} caseId={caseId} />
             </div>
           )}
 
@@ -728,16 +788,24 @@ export function CaseAIAnalysisPanel({
             </div>
           )}
 
-          {/* Draft Deterministic Results */}
-          {draftText && (
+          {/* Draft Deterministic Results (streamed while generating) */}
+          {(draftText || liveText?.role === 'draft_deterministic') && (
             <div className="mt-6 pt-6 border-t">
-              <h3 className="font-semibold text-lg mb-3">
-                {i18n.language === 'hy' ? '\u0546\u0561\u056D\u0561\u0563\u056B\u056E \u0583\u0561\u057D\u057F\u0561\u0569\u0578\u0582\u0572\u0569' 
-                 : i18n.language === 'en' ? 'Draft Document' 
-                 : '\u0427\u0435\u0440\u043D\u043E\u0432\u0438\u043A \u0434\u043E\u043A\u0443\u043C\u0435\u043D\u0442\u0430'}
-              </h3>
-              <div className="bg-muted/30 rounded-lg p-4 text-sm whitespace-pre-wrap font-mono leading-relaxed">
-                {draftText}
+              <div className="flex items-center justify-between mb-3 flex-wrap gap-2">
+                <h3 className="font-semibold text-lg">
+                  {i18n.language === 'hy' ? '\u0546\u0561\u056D\u0561\u0563\u056B\u056E \u0583\u0561\u057D\u057F\u0561\u0569\u0578\u0582\u0572\u0569' 
+                   : i18n.language === 'en' ? 'Draft Document' 
+                   : '\u0427\u0435\u0440\u043D\u043E\u0432\u0438\u043A \u0434\u043E\u043A\u0443\u043C\u0435\u043D\u0442\u0430'}
+                </h3>
+                {liveText?.role === 'draft_deterministic' && (
+                  <Button variant="outline" size="sm" onClick={handleStopAnalysis}>
+                    <Square className="mr-2 h-3 w-3" />
+                    {t('ai:stop_generation')}
+                  </Button>
+                )}
+              </div>
+              <div className="bg-muted/30 rounded-lg p-4 text-sm whitespace-pre-wrap font-mono leading-relaxed" aria-live="polite">
+                {draftText ?? liveText?.text}
               </div>
             </div>
           )}
@@ -804,7 +872,7 @@ export function CaseAIAnalysisPanel({
 
           {Object.values(results).some(r => r !== null) && (
             <div className="mt-6 pt-6 border-t">
-              <FeedbackStars caseId={caseId} />
+              <FeedbackStars caseId={caseId} analysisId={ratedAnalysisId} />
             </div>
           )}
         </CardContent>
@@ -0,0 +1,207 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useCaseFiles } from '@/hooks/useCaseFiles';
+import { useCaseClientAccess, useClientUploads, type ClientUpload } from '@/hooks/useClientPortal';
+import { CaseMessagesThread } from '@/components/portal/CaseMessagesThread';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Check, ExternalLink, FileText, Inbox, Loader2, UserCheck, UserX, X } from 'lucide-react';
+
+interface CaseClientPortalPanelProps {
+  caseId: string;
+  clientId: string | null;
+  lawyerId: string | null;
+}
+
+const UPLOAD_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  accepted: 'default',
+  rejected: 'destructive',
+};
+
+export function CaseClientPortalPanel({ caseId, clientId, lawyerId }: CaseClientPortalPanelProps) {
+  const { t } = useTranslation(['portal', 'common']);
+  const [username, setUsername] = useState('');
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+
+  // Same rule as is_case_portal_client(): the client of a case someone else runs
+  const hasPortalClient = !!clientId && !!lawyerId && clientId !== lawyerId;
+
+  const { setClient, setShared } = useCaseClientAccess(caseId);
+  const { files = [], isLoading: filesLoading } = useCaseFiles(caseId);
+  const { uploads, isLoading: uploadsLoading, accept, reject, preview } = useClientUploads(caseId);
+
+  const { data: client } = useQuery({
+    queryKey: ['profile', clientId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id, full_name, username, email')
+        .eq('id', clientId!)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: hasPortalClient,
+  });
+
+  const review = (item: ClientUpload, action: 'accept' | 'reject') => {
+    const mutation = action === 'accept' ? accept : reject;
+    mutation.mutate({ item, reviewNote: reviewNotes[item.id] });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <UserCheck className="h-4 w-4" />
+            {t('client_access')}
+          </CardTitle>
+          <CardDescription>{t('client_access_hint')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {hasPortalClient ? (
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="text-sm">
+                <span className="text-muted-foreground">{t('current_client')}: </span>
+                <span className="font-medium">{client?.full_name || client?.username || client?.email || '...'}</span>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setClient.mutate('')}
+                disabled={setClient.isPending}
+              >
+                <UserX className="mr-2 h-4 w-4" />
+                {t('remove_client')}
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t('no_client')}</p>
+          )}
+          <div className="space-y-1">
+            <Label className="text-xs">{t('client_username')}</Label>
+            <div className="flex gap-2">
+              <Input value={username} onChange={(e) => setUsername(e.target.value)} />
+              <Button
+                onClick={() => setClient.mutate(username, { onSuccess: () => setUsername('') })}
+                disabled={!username.trim() || setClient.isPending}
+              >
+                {setClient.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {t('assign_client')}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <FileText className="h-4 w-4" />
+            {t('share_files')}
+          </CardTitle>
+          <CardDescription>{t('share_files_hint')}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filesLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : files.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('no_files')}</p>
+          ) : (
+            <div className="divide-y">
+              {files.map(f => (
+                <label key={f.id} className="flex items-center justify-between gap-3 py-2 text-sm cursor-pointer">
+                  <span className="truncate">{f.original_filename}</span>
+                  <Switch
+                    checked={f.shared_with_client}
+                    onCheckedChange={(shared) => setShared.mutate({ fileId: f.id, shared })}
+                    disabled={setShared.isPending}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Inbox className="h-4 w-4" />
+            {t('review_uploads')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {uploadsLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          ) : uploads.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('no_uploads')}</p>
+          ) : (
+            <div className="space-y-3">
+              {uploads.map(u => (
+                <div key={u.id} className="rounded-md border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium truncate">{u.original_filename}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {format(new Date(u.created_at), 'dd.MM.yyyy HH:mm')}
+                      </div>
+                    </div>
+                    <Badge variant={UPLOAD_STATUS_VARIANT[u.status] ?? 'secondary'}>
+                      {t(`status_${u.status}`)}
+                    </Badge>
+                  </div>
+                  {u.note && <p className="text-sm whitespace-pre-wrap">{u.note}</p>}
+                  {u.status === 'pending' ? (
+                    <>
+                      <Input
+                        placeholder={t('review_note')}
+                        value={reviewNotes[u.id] ?? ''}
+                        onChange={(e) => setReviewNotes(prev => ({ ...prev, [u.id]: e.target.value }))}
+                      />
+                      <div className="flex flex-wrap gap-2">
+                        <Button variant="outline" size="sm" onClick={() => preview(u)}>
+                          <ExternalLink className="mr-2 h-4 w-4" />
+                          {t('preview')}
+                        </Button>
+                        <Button size="sm" onClick={() => review(u, 'accept')} disabled={accept.isPending || reject.isPending}>
+                          <Check className="mr-2 h-4 w-4" />
+                          {t('accept')}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="text-destructive"
+                          onClick={() => review(u, 'reject')}
+                          disabled={accept.isPending || reject.isPending}
+                        >
+                          <X className="mr-2 h-4 w-4" />
+                          {t('reject')}
+                        </Button>
+                      </div>
+                    </>
+                  ) : (
+                    u.review_note && <p className="text-xs text-muted-foreground">{u.review_note}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {hasPortalClient && (
+        <CaseMessagesThread caseId={caseId} counterpartLabel={t('client')} hint={t('messages_hint')} />
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,13 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Loader2, Wand2, Pencil, Save, X, AlertTriangle } from 'lucide-react';
 import { getFunctionsInvokeErrorMessage, isNoDataForExtractionMessage } from '@/lib/functionsInvokeError';
+import { extractPartyNames, mergePartyCandidates, type ConflictMatch, type PartyCandidate } from '@/lib/conflict-check';
+import { useConflictCheck } from '@/hooks/useConflictCheck';
+import { ConflictCheckDialog } from './ConflictCheckDialog';
 
 interface CaseFactsEditorProps {
   caseId: string;
+  caseNumber?: string | null;
   facts?: string | null;
   legalQuestion?: string | null;
   aiCreditsExhausted: boolean;
@@ -20,6 +24,7 @@ interface CaseFactsEditorProps {
 
 export function CaseFactsEditor({
   caseId,
+  caseNumber,
   facts,
   legalQuestion,
   aiCreditsExhausted,
@@ -34,6 +39,11 @@ export function CaseFactsEditor({
   const [editLegalQuestion, setEditLegalQuestion] = useState('');
   const [isSavingFields, setIsSavingFields] = useState(false);
   const [isExtracting, setIsExtracting] = useState(false);
+  const { checkConflicts, logConflictCheck } = useConflictCheck();
+  const [conflictReview, setConflictReview] = useState<{
+    parties: PartyCandidate[];
+    matches: ConflictMatch[];
+  } | null>(null);
 
   const handleStartEditFields = () => {
     setEditFacts(facts || '');
@@ -99,6 +109,8 @@ export function CaseFactsEditor({
           description: t('cases:fields_extracted', 'Facts and legal question extracted successfully'),
         });
         queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+        queryClient.invalidateQueries({ queryKey: ['case-party-proposals', caseId] });
+        void runConflictCheck(mergePartyCandidates(data.parties ?? [], extractPartyNames(data.facts || '')));
       } else {
         if (data.error?.includes('402') || data.error?.includes('credits')) {
           onCreditsExhausted();
@@ -128,6 +140,30 @@ export function CaseFactsEditor({
     }
   };
 
+  // Extraction names the parties of an existing case, so a conflict can only
+  // be acknowledged here; the outcome goes to the audit log either way
+  const runConflictCheck = async (parties: PartyCandidate[]) => {
+    const matches = await checkConflicts({ parties, caseId });
+    if (!matches) return;
+    if (matches.length > 0) {
+      setConflictReview({ parties, matches });
+    } else if (parties.length > 0) {
+      void logConflictCheck({ caseId, caseNumber, parties, matches, outcome: 'clear' });
+    }
+  };
+
+  const closeConflictReview = (confirmed: boolean, overrideReason?: string) => {
+    if (!conflictReview) return;
+    void logConflictCheck({
+      caseId,
+      caseNumber,
+      ...conflictReview,
+      outcome: !confirmed ? 'cancelled' : overrideReason ? 'overridden' : 'acknowledged',
+      overrideReason,
+    });
+    setConflictReview(null);
+  };
+
   return (
     <Card className="mt-4">
       <CardHeader className="flex flex-col items-start justify-between gap-3 sm:flex-row sm:items-center">
@@ -239,6 +275,14 @@ export function CaseFactsEditor({
           </>
         )}
       </CardContent>
+
+      <ConflictCheckDialog
+        open={!!conflictReview}
+        matches={conflictReview?.matches ?? []}
+        confirmLabel={t('cases:conflict_acknowledge')}
+        onConfirm={reason => closeConflictReview(true, reason)}
+        onCancel={() => closeConflictReview(false)}
+      />
     </Card>
   );
 }
@@ -4,6 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useTranslation } from 'react-i18next';
 import { CaseFormFileUpload } from './CaseFormFileUpload';
+import { ConflictCheckDialog } from './ConflictCheckDialog';
 import { format } from 'date-fns';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -38,6 +39,8 @@ import {
 import { Loader2, CalendarIcon } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { extractPartyNames, type ConflictMatch, type PartyCandidate } from '@/lib/conflict-check';
+import { useConflictCheck, type PendingConflictCheck } from '@/hooks/useConflictCheck';
 import type { Database } from '@/integrations/supabase/types';
 
 type Case = Database['public']['Tables']['cases']['Row'];
@@ -127,7 +130,8 @@ const COURTS = [
 interface CaseFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  onSubmit: (data: CaseInsert, files?: File[]) => void;
+  /** `conflictCheck` is set for a new case, for the caller to log once it has an id */
+  onSubmit: (data: CaseInsert, files?: File[], conflictCheck?: PendingConflictCheck) => void;
   initialData?: Case | null;
   isLoading?: boolean;
 }
@@ -163,6 +167,13 @@ export function CaseForm({
 
   type CaseFormValues = z.infer<typeof caseFormSchema>;
 
+  const { checkConflicts, logConflictCheck, isChecking } = useConflictCheck();
+  const [conflictReview, setConflictReview] = useState<{
+    values: CaseFormValues;
+    parties: PartyCandidate[];
+    matches: ConflictMatch[];
+  } | null>(null);
+
   const form = useForm<CaseFormValues>({
     resolver: zodResolver(caseFormSchema),
     defaultValues: {
@@ -234,7 +245,7 @@ export function CaseForm({
     }
   }, [initialData, form]);
 
-  const handleSubmit = (values: CaseFormValues) => {
+  const submitValues = (values: CaseFormValues, conflictCheck?: PendingConflictCheck) => {
     onSubmit({
       case_number: values.case_number,
       title: values.title,
@@ -249,11 +260,70 @@ export function CaseForm({
       description: values.description || null,
       court_name: values.court_name || null,
       notes: values.notes || null,
-    }, pendingFiles.length > 0 ? pendingFiles : undefined);
+    }, pendingFiles.length > 0 ? pendingFiles : undefined, conflictCheck);
     
     setPendingFiles([]);
   };
 
+  // An edited case is logged right away; a new one goes through onSubmit so the
+  // entry carries the id of the created case
+  const submitChecked = (values: CaseFormValues, check: PendingConflictCheck) => {
+    if (!initialData?.id) {
+      submitValues(values, check);
+      return;
+    }
+    void logConflictCheck({ ...check, caseId: initialData.id, caseNumber: values.case_number });
+    submitValues(values);
+  };
+
+  // Conflict check before saving; an edit is re-checked only when the parties
+  // or the represented side may have changed
+  const handleSubmit = async (values: CaseFormValues) => {
+    const unchanged = initialData
+      && values.title === initialData.title
+      && (values.description || '') === (initialData.description || '')
+      && values.party_role === initialData.party_role;
+    const parties = unchanged ? [] : extractPartyNames(`${values.title}\n${values.description || ''}`);
+    if (parties.length === 0) {
+      submitValues(values);
+      return;
+    }
+
+    const matches = await checkConflicts({
+      parties,
+      partyRole: values.party_role,
+      caseId: initialData?.id,
+    });
+    if (matches && matches.length > 0) {
+      setConflictReview({ values, parties, matches });
+      return;
+    }
+    submitChecked(values, { parties, matches: matches ?? [], outcome: matches ? 'clear' : 'error' });
+  };
+
+  const closeConflictReview = (confirmed: boolean, overrideReason?: string) => {
+    if (!conflictReview) return;
+    const { values, parties, matches } = conflictReview;
+    setConflictReview(null);
+    if (!confirmed) {
+      // Nothing is saved, so a new case has no id to log against
+      void logConflictCheck({
+        caseId: initialData?.id,
+        caseNumber: values.case_number,
+        parties,
+        matches,
+        outcome: 'cancelled',
+      });
+      return;
+    }
+    submitChecked(values, {
+      parties,
+      matches,
+      outcome: overrideReason ? 'overridden' : 'acknowledged',
+      overrideReason,
+    });
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[600px]">
@@ -570,13 +640,21 @@ export function CaseForm({
               >
                 {t('common:cancel')}
               </Button>
-              <Button type="submit" disabled={isLoading}>
-                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              <Button type="submit" disabled={isLoading || isChecking}>
+                {(isLoading || isChecking) && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                 {t('common:save')}
               </Button>
             </div>
           </form>
         </Form>
+
+        <ConflictCheckDialog
+          open={!!conflictReview}
+          matches={conflictReview?.matches ?? []}
+          confirmLabel={t('conflict_save_anyway')}
+          onConfirm={reason => closeConflictReview(true, reason)}
+          onCancel={() => closeConflictReview(false)}
+        />
       </DialogContent>
     </Dialog>
   );
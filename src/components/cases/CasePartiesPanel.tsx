@@ -0,0 +1,220 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Building2, Check, Loader2, Pencil, Plus, Trash2, User, Users, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useCaseParties, type SaveCasePartyInput } from '@/hooks/useCaseParties';
+import { useConflictCheck } from '@/hooks/useConflictCheck';
+import { partyContactLine, type CaseParty, type PartyProposal } from '@/lib/case-parties';
+import type { ConflictMatch } from '@/lib/conflict-check';
+import { CasePartyDialog, draftFromParty, emptyDraft, type CasePartyDraft } from './CasePartyDialog';
+import { ConflictCheckDialog } from './ConflictCheckDialog';
+
+interface CasePartiesPanelProps {
+  caseId: string;
+  caseNumber?: string | null;
+}
+
+export function CasePartiesPanel({ caseId, caseNumber }: CasePartiesPanelProps) {
+  const { t } = useTranslation(['cases', 'common']);
+  const { parties, proposals, isLoading, saveParty, deleteParty, dismissProposal, revealPii } = useCaseParties(caseId);
+  const { checkConflicts, logConflictCheck, isChecking } = useConflictCheck();
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [draft, setDraft] = useState<CasePartyDraft | null>(null);
+  const [editing, setEditing] = useState<CaseParty | null>(null);
+  // Proposal being confirmed; its case_party_names row is dropped once saved
+  const [proposal, setProposal] = useState<PartyProposal | null>(null);
+  const [conflictReview, setConflictReview] = useState<{
+    input: SaveCasePartyInput;
+    matches: ConflictMatch[];
+  } | null>(null);
+
+  const openDialog = (next: CasePartyDraft, party: CaseParty | null = null, from: PartyProposal | null = null) => {
+    setDraft(next);
+    setEditing(party);
+    setProposal(from);
+    setDialogOpen(true);
+  };
+
+  const save = (input: SaveCasePartyInput) => {
+    saveParty.mutate(input, {
+      onSuccess: () => {
+        setDialogOpen(false);
+        if (proposal) dismissProposal.mutate(proposal.id);
+      },
+    });
+  };
+
+  // A party added by hand is checked against other cases before it is saved
+  const handleSubmit = async (input: SaveCasePartyInput) => {
+    if (input.id) {
+      save(input);
+      return;
+    }
+    const parties = [{ name: input.name, role: input.role }];
+    const matches = await checkConflicts({ parties, caseId });
+    if (matches && matches.length > 0) {
+      setConflictReview({ input, matches });
+      return;
+    }
+    if (matches) void logConflictCheck({ caseId, caseNumber, parties, matches, outcome: 'clear' });
+    save(input);
+  };
+
+  const closeConflictReview = (confirmed: boolean, overrideReason?: string) => {
+    if (!conflictReview) return;
+    const { input, matches } = conflictReview;
+    const outcome = !confirmed ? 'cancelled' : overrideReason ? 'overridden' : 'acknowledged';
+    void logConflictCheck({
+      caseId,
+      caseNumber,
+      parties: [{ name: input.name, role: input.role }],
+      matches,
+      outcome,
+      overrideReason,
+    });
+    setConflictReview(null);
+    if (confirmed) save(input);
+  };
+
+  return (
+    <Card className="mt-4 card-premium overflow-hidden">
+      <CardHeader className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 p-4 sm:p-6">
+        <div className="space-y-1.5">
+          <CardTitle className="text-mobile-lg sm:text-lg flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            {t('cases:parties_title')}
+          </CardTitle>
+          <CardDescription>{t('cases:parties_hint')}</CardDescription>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => openDialog(emptyDraft())}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t('cases:party_add')}
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : parties.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('cases:parties_empty')}</p>
+        ) : (
+          <div className="space-y-2">
+            {parties.map(party => {
+              const contact = partyContactLine(party);
+              return (
+                <div key={party.id} className="flex items-start justify-between gap-3 rounded-md border p-3 text-sm">
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      {party.kind === 'organization'
+                        ? <Building2 className="h-4 w-4 text-muted-foreground" />
+                        : <User className="h-4 w-4 text-muted-foreground" />}
+                      <span className="font-medium break-words">{party.name}</span>
+                      <Badge variant="outline">{t(`cases:party_role_${party.role}`)}</Badge>
+                      {party.is_client && <Badge>{t('cases:party_client')}</Badge>}
+                    </div>
+                    {party.representative_name && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('cases:party_represented_by', { name: party.representative_name })}
+                        {party.representative_basis ? ` (${party.representative_basis})` : ''}
+                      </p>
+                    )}
+                    {(party.address || contact) && (
+                      <p className="text-xs text-muted-foreground break-words">
+                        {[party.address, contact].filter(Boolean).join(' \u00b7 ')}
+                      </p>
+                    )}
+                    {(party.passport_masked || party.tax_id_masked) && (
+                      <p className="text-xs text-muted-foreground font-mono">
+                        {[party.passport_masked, party.tax_id_masked].filter(Boolean).join(' \u00b7 ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8"
+                      aria-label={t('common:edit')}
+                      onClick={() => openDialog(draftFromParty(party), party)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-8 w-8 text-destructive"
+                      aria-label={t('common:delete')}
+                      disabled={deleteParty.isPending}
+                      onClick={() => {
+                        if (window.confirm(t('cases:party_delete_confirm', { name: party.name }))) {
+                          deleteParty.mutate(party.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {proposals.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">{t('cases:party_proposals')}</p>
+            {proposals.map(p => (
+              <div key={p.id} className="flex items-center justify-between gap-3 rounded-md border border-dashed p-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2 min-w-0">
+                  <span className="break-words">{p.name}</span>
+                  <Badge variant="secondary">{t(`cases:party_role_${p.role}`)}</Badge>
+                </div>
+                <div className="flex shrink-0 gap-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    aria-label={t('cases:party_confirm')}
+                    onClick={() => openDialog(emptyDraft({ name: p.name, role: p.role, source: 'extracted' }), null, p)}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    aria-label={t('cases:party_dismiss')}
+                    disabled={dismissProposal.isPending}
+                    onClick={() => dismissProposal.mutate(p.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <CasePartyDialog
+        open={dialogOpen}
+        draft={draft}
+        masked={editing ? { passport: editing.passport_masked, tax_id: editing.tax_id_masked } : undefined}
+        isSaving={saveParty.isPending || isChecking}
+        onReveal={editing ? () => revealPii(editing.id) : undefined}
+        onSubmit={input => void handleSubmit(input)}
+        onOpenChange={setDialogOpen}
+      />
+
+      <ConflictCheckDialog
+        open={!!conflictReview}
+        matches={conflictReview?.matches ?? []}
+        confirmLabel={t('cases:conflict_save_anyway')}
+        onConfirm={reason => closeConflictReview(true, reason)}
+        onCancel={() => closeConflictReview(false)}
+      />
+    </Card>
+  );
+}
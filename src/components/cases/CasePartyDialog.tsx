@@ -0,0 +1,282 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Eye, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CASE_PARTY_ROLES,
+  type CaseParty,
+  type CasePartyKind,
+  type CasePartyRole,
+} from '@/lib/case-parties';
+import type { SaveCasePartyInput } from '@/hooks/useCaseParties';
+
+export interface CasePartyDraft {
+  id?: string;
+  kind: CasePartyKind;
+  name: string;
+  role: CasePartyRole;
+  is_client: boolean;
+  address: string;
+  phone: string;
+  email: string;
+  representative_name: string;
+  representative_basis: string;
+  notes: string;
+  source: 'manual' | 'extracted';
+}
+
+export function draftFromParty(party: CaseParty): CasePartyDraft {
+  return {
+    id: party.id,
+    kind: party.kind as CasePartyKind,
+    name: party.name,
+    role: party.role as CasePartyRole,
+    is_client: party.is_client,
+    address: party.address ?? '',
+    phone: party.phone ?? '',
+    email: party.email ?? '',
+    representative_name: party.representative_name ?? '',
+    representative_basis: party.representative_basis ?? '',
+    notes: party.notes ?? '',
+    source: party.source as 'manual' | 'extracted',
+  };
+}
+
+export function emptyDraft(overrides: Partial<CasePartyDraft> = {}): CasePartyDraft {
+  return {
+    kind: 'person',
+    name: '',
+    role: 'other',
+    is_client: false,
+    address: '',
+    phone: '',
+    email: '',
+    representative_name: '',
+    representative_basis: '',
+    notes: '',
+    source: 'manual',
+    ...overrides,
+  };
+}
+
+interface CasePartyDialogProps {
+  open: boolean;
+  draft: CasePartyDraft | null;
+  /** Masked identifiers of the edited party */
+  masked?: { passport: string | null; tax_id: string | null };
+  isSaving: boolean;
+  onReveal?: () => Promise<{ passport: string | null; tax_id: string | null } | null>;
+  onSubmit: (input: SaveCasePartyInput) => void;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CasePartyDialog({ open, draft, masked, isSaving, onReveal, onSubmit, onOpenChange }: CasePartyDialogProps) {
+  const { t } = useTranslation(['cases', 'common']);
+  const [form, setForm] = useState<CasePartyDraft>(emptyDraft());
+  // Undefined until typed into, so an untouched field keeps the stored value
+  const [passport, setPassport] = useState<string | undefined>();
+  const [taxId, setTaxId] = useState<string | undefined>();
+  const [isRevealing, setIsRevealing] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setForm(draft ?? emptyDraft());
+      setPassport(undefined);
+      setTaxId(undefined);
+    }
+  }, [open, draft]);
+
+  const set = <K extends keyof CasePartyDraft>(key: K, value: CasePartyDraft[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const handleReveal = async () => {
+    if (!onReveal) return;
+    setIsRevealing(true);
+    try {
+      const pii = await onReveal();
+      if (pii) {
+        setPassport(pii.passport ?? '');
+        setTaxId(pii.tax_id ?? '');
+      }
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = form.name.trim();
+    if (!name) return;
+    const optional = (value: string) => value.trim() || null;
+    onSubmit({
+      id: form.id,
+      kind: form.kind,
+      name,
+      role: form.role,
+      is_client: form.is_client,
+      address: optional(form.address),
+      phone: optional(form.phone),
+      email: optional(form.email),
+      representative_name: optional(form.representative_name),
+      representative_basis: optional(form.representative_basis),
+      notes: optional(form.notes),
+      source: form.source,
+      pii: { passport: passport?.trim(), tax_id: taxId?.trim() },
+    });
+  };
+
+  const isOrganization = form.kind === 'organization';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>{form.id ? t('cases:party_edit') : t('cases:party_add')}</DialogTitle>
+          <DialogDescription>{t('cases:party_dialog_hint')}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{t('cases:party_kind')}</Label>
+              <Select value={form.kind} onValueChange={v => set('kind', v as CasePartyKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="person">{t('cases:party_kind_person')}</SelectItem>
+                  <SelectItem value="organization">{t('cases:party_kind_organization')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('cases:party_role')}</Label>
+              <Select value={form.role} onValueChange={v => set('role', v as CasePartyRole)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CASE_PARTY_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{t(`cases:party_role_${role}`)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="party-name">
+              {isOrganization ? t('cases:party_name_organization') : t('cases:party_name_person')}
+            </Label>
+            <Input id="party-name" value={form.name} onChange={e => set('name', e.target.value)} required />
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <Label htmlFor="party-is-client">{t('cases:party_is_client')}</Label>
+            <Switch id="party-is-client" checked={form.is_client} onCheckedChange={v => set('is_client', v)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="party-address">{t('cases:party_address')}</Label>
+            <Input id="party-address" value={form.address} onChange={e => set('address', e.target.value)} />
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="party-phone">{t('cases:party_phone')}</Label>
+              <Input id="party-phone" type="tel" value={form.phone} onChange={e => set('phone', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="party-email">{t('cases:party_email')}</Label>
+              <Input id="party-email" type="email" value={form.email} onChange={e => set('email', e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="party-passport">
+                {isOrganization ? t('cases:party_registration') : t('cases:party_passport')}
+              </Label>
+              <Input
+                id="party-passport"
+                value={passport ?? ''}
+                placeholder={masked?.passport ?? ''}
+                onChange={e => setPassport(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="party-tax-id">{t('cases:party_tax_id')}</Label>
+              <Input
+                id="party-tax-id"
+                value={taxId ?? ''}
+                placeholder={masked?.tax_id ?? ''}
+                onChange={e => setTaxId(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+          </div>
+          {form.id && (masked?.passport || masked?.tax_id) && onReveal && (
+            <Button type="button" variant="ghost" size="sm" onClick={handleReveal} disabled={isRevealing}>
+              {isRevealing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Eye className="mr-2 h-4 w-4" />}
+              {t('cases:party_reveal_pii')}
+            </Button>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="party-representative">{t('cases:party_representative')}</Label>
+              <Input
+                id="party-representative"
+                value={form.representative_name}
+                onChange={e => set('representative_name', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="party-representative-basis">{t('cases:party_representative_basis')}</Label>
+              <Input
+                id="party-representative-basis"
+                value={form.representative_basis}
+                onChange={e => set('representative_basis', e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="party-notes">{t('cases:notes')}</Label>
+            <Textarea id="party-notes" value={form.notes} onChange={e => set('notes', e.target.value)} rows={2} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              {t('common:cancel')}
+            </Button>
+            <Button type="submit" disabled={isSaving || !form.name.trim()}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Loader2, Search, RefreshCw, FileText, Music, BookOpen, AlertTriangle } from 'lucide-react';
+import { getFunctionsInvokeErrorMessage } from '@/lib/functionsInvokeError';
+import {
+  formatPageRange,
+  formatTimeRange,
+  type CaseIndexStatus,
+  type CaseSearchHit,
+  type CaseSearchSourceType,
+} from '@/lib/case-search';
+
+interface CaseSearchPanelProps {
+  caseId: string;
+}
+
+const sourceIcons: Record<CaseSearchSourceType, typeof FileText> = {
+  ocr: FileText,
+  transcript: Music,
+  volume: BookOpen,
+};
+
+// Each index call works for up to ~45s server-side; stop after this many rounds
+const MAX_INDEX_ROUNDS = 30;
+
+export function CaseSearchPanel({ caseId }: CaseSearchPanelProps) {
+  const { t } = useTranslation(['cases', 'common', 'errors']);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<CaseSearchHit[] | null>(null);
+  const [keywordOnly, setKeywordOnly] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [indexProgress, setIndexProgress] = useState<CaseIndexStatus | null>(null);
+  const [failedCount, setFailedCount] = useState(0);
+
+  const statusQueryKey = ['case-search-status', caseId];
+  const { data: status, isLoading: isStatusLoading } = useQuery({
+    queryKey: statusQueryKey,
+    queryFn: async () => {
+      const { data, error } = await supabase.functions.invoke('case-search', {
+        body: { action: 'status', caseId },
+      });
+      if (error) throw error;
+      return data as CaseIndexStatus;
+    },
+  });
+
+  const isIndexing = indexProgress !== null;
+
+  const handleIndex = async () => {
+    setFailedCount(0);
+    setIndexProgress(status ?? { sources: 0, indexed: 0, pending: 0 });
+    try {
+      for (let round = 0; round < MAX_INDEX_ROUNDS; round++) {
+        const { data, error } = await supabase.functions.invoke('case-search', {
+          body: { action: 'index', caseId },
+        });
+        if (error) throw error;
+        const progress = data as CaseIndexStatus;
+        setIndexProgress(progress);
+        setFailedCount(progress.failed ?? 0);
+        if (progress.pending <= 0) break;
+      }
+    } catch (error) {
+      console.error('Case index error:', error);
+      toast({
+        title: t('errors:operation_failed', 'Operation failed'),
+        description: getFunctionsInvokeErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIndexProgress(null);
+      queryClient.invalidateQueries({ queryKey: statusQueryKey });
+    }
+  };
+
+  const handleSearch = async () => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) return;
+    setIsSearching(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('case-search', {
+        body: { action: 'search', caseId, query: trimmed },
+      });
+      if (error) throw error;
+      setHits((data?.hits ?? []) as CaseSearchHit[]);
+      setKeywordOnly(data?.semantic === false);
+    } catch (error) {
+      console.error('Case search error:', error);
+      setHits(null);
+      toast({
+        title: t('cases:search_error', 'Search failed'),
+        description: getFunctionsInvokeErrorMessage(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const sourceLabel = (hit: CaseSearchHit) => {
+    if (hit.source_type === 'volume') {
+      const volume = hit.volume_number != null
+        ? t('cases:search_volume', 'Vol. {{number}}', { number: hit.volume_number })
+        : t('cases:search_source_volume', 'Volume');
+      return hit.volume_title ? `${volume} \u00B7 ${hit.volume_title}` : volume;
+    }
+    return hit.file_name
+      || (hit.source_type === 'transcript'
+        ? t('cases:search_source_transcript', 'Audio')
+        : t('cases:search_source_ocr', 'Document'));
+  };
+
+  const locatorLabel = (hit: CaseSearchHit) => {
+    if (hit.source_type === 'transcript') return formatTimeRange(hit.time_start_seconds, hit.time_end_seconds);
+    const pages = formatPageRange(hit.page_start, hit.page_end);
+    if (!pages) return null;
+    return hit.page_estimated
+      ? t('cases:search_page_estimated', '\u2248 p. {{pages}}', { pages })
+      : t('cases:search_page', 'p. {{pages}}', { pages });
+  };
+
+  const shown = indexProgress ?? status;
+
+  return (
+    <Card className="card-premium overflow-hidden">
+      <CardHeader className="p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3">
+          <CardTitle className="text-mobile-lg sm:text-lg">
+            {t('cases:search_in_case_title', 'Search inside this case')}
+          </CardTitle>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleIndex}
+            disabled={isIndexing || isStatusLoading || !status?.sources}
+            className="rounded-xl"
+          >
+            {isIndexing ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            {status?.indexed
+              ? t('cases:search_index_update', 'Update index')
+              : t('cases:search_index_build', 'Index case material')}
+          </Button>
+        </div>
+        {shown && (
+          <p className="text-xs text-muted-foreground">
+            {shown.sources === 0
+              ? t('cases:search_no_sources', 'No OCR text, volumes or transcripts in this case yet')
+              : isIndexing
+                ? t('cases:search_indexing', 'Indexing\u2026 {{indexed}} of {{sources}}', { indexed: shown.indexed, sources: shown.sources })
+                : t('cases:search_index_status', '{{indexed}} of {{sources}} sources indexed', { indexed: shown.indexed, sources: shown.sources })}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {failedCount > 0 && !isIndexing && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              {t('cases:search_index_failed', '{{count}} sources could not be indexed', { count: failedCount })}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleSearch();
+          }}
+        >
+          <Input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('cases:search_in_case_placeholder', 'Find in volumes, OCR documents and transcripts...')}
+            className="h-11 rounded-xl"
+          />
+          <Button type="submit" disabled={isSearching || query.trim().length < 2} className="h-11 rounded-xl">
+            {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+            <span className="ml-2 hidden sm:inline">{t('cases:search_in_case_button', 'Search')}</span>
+          </Button>
+        </form>
+
+        {keywordOnly && hits && (
+          <Alert>
+            <AlertDescription className="text-xs">
+              {t('cases:search_keyword_only', 'Semantic search unavailable \u2014 showing keyword matches')}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {hits && hits.length === 0 && (
+          <p className="py-4 text-center text-sm text-muted-foreground">
+            {t('cases:search_no_results', 'Nothing found')}
+          </p>
+        )}
+
+        {hits && hits.length > 0 && (
+          <div className="space-y-3">
+            {hits.map((hit) => {
+              const Icon = sourceIcons[hit.source_type];
+              const locator = locatorLabel(hit);
+              return (
+                <div key={hit.id} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="text-sm font-medium break-all">{sourceLabel(hit)}</span>
+                    {locator && (
+                      <Badge variant="secondary" className="text-xs font-mono">{locator}</Badge>
+                    )}
+                    {hit.similarity > 0 && (
+                      <Badge variant="outline" className="text-xs">{Math.round(hit.similarity * 100)}%</Badge>
+                    )}
+                  </div>
+                  {hit.label && <p className="text-xs text-muted-foreground">{hit.label}</p>}
+                  <p className="whitespace-pre-wrap break-words text-sm leading-relaxed">{hit.snippet}</p>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,82 @@
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/ui/badge';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+
+/** Mirrors CitationVerificationReport in supabase/functions/_shared/citation-verifier.ts */
+export interface CitationVerificationReport {
+  reference_date: string;
+  checked: number;
+  verified: number;
+  not_found: number;
+  repealed: number;
+  truncated: boolean;
+  citations: Array<{
+    type: 'article' | 'case';
+    value: string;
+    verdict: 'verified' | 'not_found' | 'repealed';
+    reason?: string;
+    kb_title?: string | null;
+    practice_title?: string | null;
+  }>;
+  error?: string;
+}
+
+interface Props {
+  data: CitationVerificationReport;
+}
+
+export function CitationVerificationView({ data }: Props) {
+  const { i18n } = useTranslation();
+  const lang = i18n.language;
+
+  const label = (hy: string, en: string, ru: string) =>
+    lang === 'hy' ? hy : lang === 'en' ? en : ru;
+
+  if (data.checked === 0) return null;
+
+  const flagged = data.citations.filter((c) => c.verdict !== 'verified');
+  const ok = flagged.length === 0 && !data.error;
+
+  const verdictLabel = (verdict: string) =>
+    verdict === 'repealed'
+      ? label('\u0578\u0582\u056A\u0568 \u056F\u0578\u0580\u0581\u0580\u0561\u056E', 'Repealed', '\u0423\u0442\u0440\u0430\u0442\u0438\u043B\u0430 \u0441\u0438\u043B\u0443')
+      : label('\u0579\u056B \u0563\u057F\u0576\u057E\u0565\u056C', 'Not found', '\u041D\u0435 \u043D\u0430\u0439\u0434\u0435\u043D\u043E');
+
+  return (
+    <div className={`mt-2 rounded-md border p-2 text-xs ${
+      ok ? 'border-green-500/50 bg-green-500/10' : 'border-amber-500/50 bg-amber-500/10'
+    }`}>
+      <div className="flex items-center gap-2">
+        {ok ? (
+          <ShieldCheck className="h-4 w-4 text-green-600 dark:text-green-400 shrink-0" />
+        ) : (
+          <ShieldAlert className="h-4 w-4 text-amber-600 dark:text-amber-400 shrink-0" />
+        )}
+        <span>
+          {label(
+            `\u0540\u0572\u0578\u0582\u0574\u0576\u0565\u0580\u0568 \u057D\u057F\u0578\u0582\u0563\u057E\u0561\u056E \u0565\u0576 \u0533\u0532-\u0578\u057E ${data.reference_date} \u0564\u0580\u0578\u0582\u0569\u0575\u0561\u0574\u0562\u055D ${data.verified} \u0570\u0561\u057D\u057F\u0561\u057F\u057E\u0561\u056E, ${data.not_found} \u0579\u0563\u057F\u0576\u057E\u0561\u056E, ${data.repealed} \u0578\u0582\u056A\u0568 \u056F\u0578\u0580\u0581\u0580\u0561\u056E`,
+            `Citations checked against the KB as of ${data.reference_date}: ${data.verified} verified, ${data.not_found} not found, ${data.repealed} repealed`,
+            `\u0421\u0441\u044B\u043B\u043A\u0438 \u043F\u0440\u043E\u0432\u0435\u0440\u0435\u043D\u044B \u043F\u043E \u0431\u0430\u0437\u0435 \u043D\u0430 ${data.reference_date}: ${data.verified} \u043F\u043E\u0434\u0442\u0432., ${data.not_found} \u043D\u0435 \u043D\u0430\u0439\u0434\u0435\u043D\u043E, ${data.repealed} \u0443\u0442\u0440\u0430\u0442\u0438\u043B\u0438 \u0441\u0438\u043B\u0443`
+          )}
+        </span>
+      </div>
+      {data.error && (
+        <p className="mt-1 text-muted-foreground">
+          {label('\u054D\u057F\u0578\u0582\u0563\u0578\u0582\u0574\u0568 \u0569\u0565\u0580\u056B \u0567', 'Verification incomplete', '\u041F\u0440\u043E\u0432\u0435\u0440\u043A\u0430 \u043D\u0435\u043F\u043E\u043B\u043D\u0430\u044F')}
+        </p>
+      )}
+      {flagged.length > 0 && (
+        <ul className="mt-1 space-y-1">
+          {flagged.map((c, i) => (
+            <li key={i} className="flex items-center gap-2">
+              <Badge variant={c.verdict === 'repealed' ? 'secondary' : 'destructive'} className="text-[10px]">
+                {verdictLabel(c.verdict)}
+              </Badge>
+              <span className="font-mono">{c.value}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
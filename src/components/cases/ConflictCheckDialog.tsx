@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, ShieldAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { hasConflict, type ConflictMatch, type ConflictRelation } from '@/lib/conflict-check';
+
+const RELATION_VARIANTS: Record<ConflictRelation, 'destructive' | 'secondary' | 'outline'> = {
+  conflict: 'destructive',
+  same_side: 'secondary',
+  review: 'outline',
+};
+
+interface ConflictCheckDialogProps {
+  open: boolean;
+  matches: ConflictMatch[];
+  /** Label of the confirm button, e.g. "Save anyway" */
+  confirmLabel: string;
+  onConfirm: (overrideReason?: string) => void;
+  onCancel: () => void;
+}
+
+export function ConflictCheckDialog({ open, matches, confirmLabel, onConfirm, onCancel }: ConflictCheckDialogProps) {
+  const { t } = useTranslation(['cases', 'common']);
+  const [reason, setReason] = useState('');
+  const conflict = hasConflict(matches);
+
+  useEffect(() => {
+    if (open) setReason('');
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={next => { if (!next) onCancel(); }}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-[640px]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-destructive" />
+            {t('cases:conflict_check_title')}
+          </DialogTitle>
+          <DialogDescription>{t('cases:conflict_check_hint', { count: matches.length })}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {matches.map((m, i) => (
+            <div key={`${m.case_id}-${m.party_name}-${i}`} className="rounded-md border p-3 text-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium">{m.party_name}</span>
+                <Badge variant={RELATION_VARIANTS[m.relation]}>{t(`cases:conflict_relation_${m.relation}`)}</Badge>
+              </div>
+              <p className="mt-1 text-muted-foreground">
+                {m.accessible
+                  ? [m.case_number, m.case_title].filter(Boolean).join(' \u2014 ')
+                  : t('cases:conflict_case_restricted')}
+              </p>
+              <p className="mt-1 text-xs text-muted-foreground">
+                {m.match_source === 'text'
+                  ? t('cases:conflict_matched_text')
+                  : m.matched_name
+                    ? t('cases:conflict_matched_party', {
+                        name: m.matched_name,
+                        side: t(`cases:conflict_side_${m.matched_side ?? 'unknown'}`),
+                      })
+                    : t('cases:conflict_matched_party_restricted', {
+                        side: t(`cases:conflict_side_${m.matched_side ?? 'unknown'}`),
+                      })}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        {conflict && (
+          <div className="space-y-2">
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>{t('cases:conflict_override_required')}</AlertDescription>
+            </Alert>
+            <Label htmlFor="conflict-override-reason">{t('cases:conflict_override_reason')}</Label>
+            <Textarea
+              id="conflict-override-reason"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            {t('common:cancel')}
+          </Button>
+          <Button
+            type="button"
+            variant={conflict ? 'destructive' : 'default'}
+            disabled={conflict && reason.trim().length === 0}
+            onClick={() => onConfirm(conflict ? reason.trim() : undefined)}
+          >
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
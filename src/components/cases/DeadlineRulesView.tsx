@@ -1,8 +1,20 @@
+import { useId, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertTriangle, Clock, FileText, HelpCircle } from 'lucide-react';
+import { AlertTriangle, Bell, CalendarClock, Check, Clock, FileText, HelpCircle } from 'lucide-react';
+import { useReminders, type CreateReminderInput } from '@/hooks/useReminders';
+import {
+  computeDeadline,
+  daysUntil,
+  parseDeadlineTerm,
+  type DeadlineComputation,
+  type DeadlineTermRule,
+  type DeadlineTermUnit,
+} from '@/lib/deadline-calculator';
 
 export interface DeadlineRule {
   procedure_type: string;
@@ -12,6 +24,8 @@ export interface DeadlineRule {
   triggering_event: string;
   required_dates_to_compute: string[];
   deadline_rule_text: string;
+  term_length?: number | null;
+  term_unit?: DeadlineTermUnit | '';
   risk_note: string;
 }
 
@@ -24,9 +38,29 @@ export interface DeadlineRulesResult {
 
 interface DeadlineRulesViewProps {
   data: DeadlineRulesResult;
+  caseId?: string;
 }
 
-export function DeadlineRulesView({ data }: DeadlineRulesViewProps) {
+const TERM_UNITS: DeadlineTermUnit[] = ['calendar_days', 'working_days', 'months', 'years'];
+
+/**
+ * Resolve the structured term of a deadline: prefer the model's term_length/term_unit,
+ * fall back to parsing deadline_rule_text.
+ */
+function resolveTerm(deadline: DeadlineRule): DeadlineTermRule | null {
+  const base = { article: deadline.legal_basis_article, triggeringEvent: deadline.triggering_event };
+  if (
+    typeof deadline.term_length === 'number' &&
+    deadline.term_length > 0 &&
+    TERM_UNITS.includes(deadline.term_unit as DeadlineTermUnit)
+  ) {
+    return { ...base, termLength: deadline.term_length, unit: deadline.term_unit as DeadlineTermUnit };
+  }
+  const parsed = parseDeadlineTerm(deadline.deadline_rule_text);
+  return parsed ? { ...base, ...parsed } : null;
+}
+
+export function DeadlineRulesView({ data, caseId }: DeadlineRulesViewProps) {
   const { i18n } = useTranslation();
   const lang = i18n.language;
 
@@ -133,6 +167,9 @@ export function DeadlineRulesView({ data }: DeadlineRulesViewProps) {
                     </div>
                   )}
 
+                  {/* Computed Due Date */}
+                  <DeadlineCalculatorRow deadline={deadline} caseId={caseId} t={t} />
+
                   {/* Risk Note */}
                   {deadline.risk_note && (
                     <div className="mt-1 p-2 rounded bg-destructive/10 text-destructive text-xs">
@@ -184,3 +221,112 @@ export function DeadlineRulesView({ data }: DeadlineRulesViewProps) {
     </div>
   );
 }
+
+
+interface DeadlineCalculatorRowProps {
+  deadline: DeadlineRule;
+  caseId?: string;
+  t: (hy: string, en: string, ru: string) => string;
+}
+
+function DeadlineCalculatorRow({ deadline, caseId, t }: DeadlineCalculatorRowProps) {
+  const { createReminder } = useReminders();
+  const inputId = useId();
+  const [triggerDate, setTriggerDate] = useState('');
+  const [reminderCreated, setReminderCreated] = useState(false);
+
+  const term = useMemo(() => resolveTerm(deadline), [deadline]);
+
+  const computation: DeadlineComputation | null = useMemo(() => {
+    if (!term || !triggerDate) return null;
+    try {
+      return computeDeadline(term, triggerDate);
+    } catch {
+      return null;
+    }
+  }, [term, triggerDate]);
+
+  if (!term) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {t('\u053A\u0561\u0574\u056F\u0565\u057F\u0568 \u0570\u0576\u0561\u0580\u0561\u057E\u0578\u0580 \u0579\u0567 \u0561\u057E\u057F\u0578\u0574\u0561\u057F \u0570\u0561\u0577\u057E\u0561\u0580\u056F\u0565\u056C', 'Term cannot be computed automatically', '\u0421\u0440\u043E\u043A \u043D\u0435\u0432\u043E\u0437\u043C\u043E\u0436\u043D\u043E \u0440\u0430\u0441\u0441\u0447\u0438\u0442\u0430\u0442\u044C \u0430\u0432\u0442\u043E\u043C\u0430\u0442\u0438\u0447\u0435\u0441\u043A\u0438')}
+      </p>
+    );
+  }
+
+  const daysLeft = computation ? daysUntil(computation.dueDate) : null;
+
+  const handleCreateReminder = () => {
+    if (!computation) return;
+    const input: CreateReminderInput = {
+      title: deadline.deadline_purpose,
+      description: [deadline.legal_basis_article, deadline.deadline_rule_text].filter(Boolean).join('\n'),
+      case_id: caseId ?? null,
+      reminder_type: 'deadline',
+      priority: daysLeft !== null && daysLeft <= 3 ? 'urgent' : 'high',
+      event_datetime: new Date(`${computation.dueDate}T09:00:00`).toISOString(),
+      notify_before: [4320, 1440], // 3 days and 1 day before
+    };
+    createReminder.mutate(input, {
+      onSuccess: () => setReminderCreated(true),
+    });
+  };
+
+  return (
+    <div className="rounded-md border bg-muted/30 p-2 space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <CalendarClock className="h-4 w-4 shrink-0 text-muted-foreground" />
+        <label className="text-xs font-medium text-muted-foreground" htmlFor={inputId}>
+          {t('\u054D\u056F\u0566\u0562\u0576\u0561\u056F\u0561\u0576 \u0561\u0574\u057D\u0561\u0569\u056B\u057E', 'Trigger date', '\u0414\u0430\u0442\u0430 \u0441\u043E\u0431\u044B\u0442\u0438\u044F')}:
+        </label>
+        <Input
+          id={inputId}
+          type="date"
+          value={triggerDate}
+          onChange={(e) => {
+            setTriggerDate(e.target.value);
+            setReminderCreated(false);
+          }}
+          className="h-8 w-40 text-xs"
+        />
+      </div>
+
+      {computation && (
+        <div className="flex items-center justify-between gap-2 flex-wrap">
+          <div className="text-sm">
+            <span className="font-medium text-muted-foreground">
+              {t('\u054E\u0565\u0580\u057B\u0576\u0561\u056A\u0561\u0574\u056F\u0565\u057F', 'Due date', '\u041F\u043E\u0441\u043B\u0435\u0434\u043D\u0438\u0439 \u0434\u0435\u043D\u044C \u0441\u0440\u043E\u043A\u0430')}:{' '}
+            </span>
+            <span className="font-semibold">{new Date(`${computation.dueDate}T00:00:00`).toLocaleDateString()}</span>
+            {daysLeft !== null && (
+              <Badge variant={daysLeft <= 3 ? 'destructive' : 'secondary'} className="ml-2 text-xs">
+                {daysLeft < 0
+                  ? t('\u053A\u0561\u0574\u056F\u0565\u057F\u0576 \u0561\u0576\u0581\u0565\u056C \u0567', 'Expired', '\u0421\u0440\u043E\u043A \u0438\u0441\u0442\u0451\u043A')
+                  : t(`\u0544\u0576\u0561\u0581\u0565\u056C \u0567 ${daysLeft} \u0585\u0580`, `${daysLeft} days left`, `\u041E\u0441\u0442\u0430\u043B\u043E\u0441\u044C ${daysLeft} \u0434\u043D.`)}
+              </Badge>
+            )}
+            {computation.shifted && (
+              <p className="text-xs text-muted-foreground mt-1">
+                {t('\u054F\u0565\u0572\u0561\u0583\u0578\u056D\u057E\u0565\u056C \u0567 \u0578\u0579 \u0561\u0577\u056D\u0561\u057F\u0561\u0576\u0584\u0561\u0575\u056B\u0576 \u0585\u0580\u057E\u0561\u0576\u056B\u0581', 'Moved from a non-working day', '\u041F\u0435\u0440\u0435\u043D\u0435\u0441\u0435\u043D\u043E \u0441 \u043D\u0435\u0440\u0430\u0431\u043E\u0447\u0435\u0433\u043E \u0434\u043D\u044F')}
+                {' '}({new Date(`${computation.nominalDueDate}T00:00:00`).toLocaleDateString()})
+              </p>
+            )}
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleCreateReminder}
+            disabled={reminderCreated || createReminder.isPending || (daysLeft !== null && daysLeft < 0)}
+          >
+            {reminderCreated ? (
+              <Check className="h-4 w-4 mr-1 shrink-0" />
+            ) : (
+              <Bell className="h-4 w-4 mr-1 shrink-0" />
+            )}
+            {t('\u054D\u057F\u0565\u0572\u056E\u0565\u056C \u0570\u056B\u0577\u0565\u0581\u0578\u0582\u0574', 'Create reminder', '\u0421\u043E\u0437\u0434\u0430\u0442\u044C \u043D\u0430\u043F\u043E\u043C\u0438\u043D\u0430\u043D\u0438\u0435')}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
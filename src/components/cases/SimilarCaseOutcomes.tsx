@@ -0,0 +1,83 @@
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { BarChart3, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { OutcomeBar, OutcomeLegend } from '@/components/analytics/OutcomeBar';
+import { useSimilarCaseOutcomes } from '@/hooks/usePracticeAnalytics';
+import { favorableRate } from '@/lib/practice-outcomes';
+
+interface SimilarCaseOutcomesProps {
+  caseId: string;
+  caseType?: string | null;
+}
+
+export function SimilarCaseOutcomes({ caseId, caseType }: SimilarCaseOutcomesProps) {
+  const { t } = useTranslation('analytics');
+  const navigate = useNavigate();
+  const { data, isLoading } = useSimilarCaseOutcomes(caseId);
+
+  const openAnalytics = (article: string) => {
+    const params = new URLSearchParams({ article });
+    if (caseType) params.set('category', caseType);
+    navigate(`/analytics?${params.toString()}`);
+  };
+
+  const overall = data?.overall;
+  const overallRate = overall ? favorableRate(overall) : null;
+
+  return (
+    <Card className="mt-4 card-premium overflow-hidden">
+      <CardHeader className="p-4 sm:p-6">
+        <CardTitle className="text-mobile-lg sm:text-lg flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-primary" />
+          {t('similar_title')}
+        </CardTitle>
+        <CardDescription>{t('similar_hint')}</CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 sm:p-6 pt-0 sm:pt-0 space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        ) : !overall || overall.total === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('similar_none')}</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <div className="flex items-baseline justify-between gap-2 text-sm">
+                <span className="text-muted-foreground">{t('similar_total', { count: overall.total })}</span>
+                {overallRate !== null && (
+                  <span>
+                    {t('favorable_rate')}: <span className="font-semibold">{overallRate}%</span>
+                  </span>
+                )}
+              </div>
+              <OutcomeBar counts={overall} className="h-3" />
+              <OutcomeLegend />
+            </div>
+
+            <div className="space-y-2">
+              <p className="text-xs font-medium text-muted-foreground">{t('similar_articles')}</p>
+              {data.byArticle.map(row => (
+                <button
+                  key={row.article}
+                  type="button"
+                  onClick={() => openAnalytics(row.article)}
+                  className="grid w-full grid-cols-[5rem_1fr_3rem] items-center gap-3 rounded-md px-1 py-1 text-left text-sm hover:bg-muted"
+                  title={t('open_analytics')}
+                >
+                  <span className="font-medium">{t('article')} {row.article}</span>
+                  <OutcomeBar counts={row} />
+                  <span className="text-right tabular-nums text-muted-foreground">{row.total}</span>
+                </button>
+              ))}
+            </div>
+
+            <Button variant="outline" size="sm" onClick={() => navigate('/analytics')}>
+              {t('open_analytics')}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
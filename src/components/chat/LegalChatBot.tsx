@@ -18,10 +18,12 @@ import {
 import { cn } from '@/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import { useReferencesText } from '@/lib/references-store';
+import { CitationVerificationView, type CitationVerificationReport } from '@/components/cases/CitationVerificationView';
 
 interface Message {
   role: 'user' | 'assistant';
   content: string;
+  citationVerification?: CitationVerificationReport;
 }
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/legal-chat`;
@@ -129,6 +131,18 @@ export function LegalChatBot({ isOpen: controlledIsOpen, onOpenChange, reference
 
           try {
             const parsed = JSON.parse(jsonStr);
+            if (parsed.citation_verification) {
+              const report = parsed.citation_verification as CitationVerificationReport;
+              setMessages(prev => {
+                const updated = [...prev];
+                const last = updated[updated.length - 1];
+                if (last?.role === 'assistant') {
+                  updated[updated.length - 1] = { ...last, citationVerification: report };
+                }
+                return updated;
+              });
+              continue;
+            }
             const content = parsed.choices?.[0]?.delta?.content as string | undefined;
             if (content) {
               assistantContent += content;
@@ -279,6 +293,9 @@ export function LegalChatBot({ isOpen: controlledIsOpen, onOpenChange, reference
                   {msg.role === 'assistant' ? (
                     <div className="prose prose-sm dark:prose-invert max-w-none">
                       <ReactMarkdown>{msg.content || '\u2026'}</ReactMarkdown>
+                      {msg.citationVerification && (
+                        <CitationVerificationView data={msg.citationVerification} />
+                      )}
                     </div>
                   ) : (
                     <p className="whitespace-pre-wrap">{msg.content}</p>
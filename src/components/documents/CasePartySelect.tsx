@@ -0,0 +1,45 @@
+import { useTranslation } from "react-i18next";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CaseParty } from "@/lib/case-parties";
+
+interface CasePartySelectProps {
+  id: string;
+  parties: CaseParty[];
+  onSelect: (party: CaseParty) => void;
+}
+
+/** Fills a document form from a party of the case registry */
+export function CasePartySelect({ id, parties, onSelect }: CasePartySelectProps) {
+  const { t } = useTranslation(["cases"]);
+
+  return (
+    <div>
+      <Label htmlFor={id}>{t("cases:party_fill_from")}</Label>
+      <Select
+        value=""
+        onValueChange={(partyId) => {
+          const party = parties.find((p) => p.id === partyId);
+          if (party) onSelect(party);
+        }}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue placeholder={t("cases:party_fill_placeholder")} />
+        </SelectTrigger>
+        <SelectContent>
+          {parties.map((party) => (
+            <SelectItem key={party.id} value={party.id}>
+              {party.name} ({t(`cases:party_role_${party.role}`)})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -22,11 +22,13 @@ import {
   Pilcrow
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { plainTextToDocumentHtml } from '@/lib/documentHtml';
 import { useEffect } from 'react';
 
 interface DocumentEditorProps {
   content: string;
-  onChange: (content: string) => void;
+  /** Plain text, plus the TipTap HTML used for DOCX export */
+  onChange: (content: string, html: string) => void;
   editable?: boolean;
 }
 
@@ -43,10 +45,10 @@ export function DocumentEditor({ content, onChange, editable = true }: DocumentE
         types: ['heading', 'paragraph'],
       }),
     ],
-    content: convertToHtml(content),
+    content: plainTextToDocumentHtml(content),
     editable,
     onUpdate: ({ editor }) => {
-      onChange(editor.getText());
+      onChange(editor.getText(), editor.getHTML());
     },
   });
 
@@ -54,7 +56,7 @@ export function DocumentEditor({ content, onChange, editable = true }: DocumentE
     if (editor && content) {
       const currentContent = editor.getText();
       if (currentContent !== content) {
-        editor.commands.setContent(convertToHtml(content));
+        editor.commands.setContent(plainTextToDocumentHtml(content));
       }
     }
   }, [content, editor]);
@@ -226,35 +228,3 @@ function ToolbarButton({ onClick, active, disabled, title, children }: ToolbarBu
     </Button>
   );
 }
-
-// Convert plain text to HTML for the editor
-function convertToHtml(text: string): string {
-  if (!text) return '<p></p>';
-  
-  const lines = text.split('\n');
-  let html = '';
-  
-  for (const line of lines) {
-    const trimmed = line.trim();
-    
-    // Check for headers (all caps lines or specific patterns)
-    if (/^[А-ЯA-Z\s]{5,}$/.test(trimmed) || 
-        /^(ЗАЯВЛЕНИЕ|ЖАЛОБА|ХОДАТАЙСТВО|ИСКОВОЕ|ОБРАЩЕНИЕ|ТРЕБОВАНИЕ|\u0534\u056B\u0574\u0578\u0582\u0574|\u0532\u0578\u0572\u0578\u0584)/i.test(trimmed)) {
-      html += `<h1 style="text-align: center">${trimmed}</h1>`;
-    }
-    // Section headers (numbered)
-    else if (/^\d+\./.test(trimmed) || /^(I\.|II\.|III\.|IV\.|V\.)/.test(trimmed)) {
-      html += `<h3>${line}</h3>`;
-    }
-    // Empty lines
-    else if (trimmed === '') {
-      html += '<p><br></p>';
-    }
-    // Regular paragraphs
-    else {
-      html += `<p style="text-align: justify">${line}</p>`;
-    }
-  }
-  
-  return html || '<p></p>';
-}
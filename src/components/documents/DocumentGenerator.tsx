@@ -3,7 +3,7 @@ import { getText } from "@/lib/i18n-utils";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Loader2, FileText, CheckCircle2, History } from "lucide-react";
+import { Loader2, FileText, CheckCircle2, History, Square } from "lucide-react";
 import { DocumentTemplateList } from "./DocumentTemplateList";
 import { DocumentPreview } from "./DocumentPreview";
 import { DocumentEditor } from "./DocumentEditor";
@@ -17,6 +17,7 @@ import { SourceTextForm } from "./SourceTextForm";
 import { LanguageSelector } from "./LanguageSelector";
 import { useDocumentGenerator } from "./useDocumentGenerator";
 import { useReferencesText } from "@/lib/references-store";
+import { useCaseParties } from "@/hooks/useCaseParties";
 interface DocumentGeneratorProps {
   caseData?: {
     id: string;
@@ -35,6 +36,7 @@ interface DocumentGeneratorProps {
 export function DocumentGenerator({ caseData, preselectedType }: DocumentGeneratorProps) {
   const { t, i18n } = useTranslation(["cases", "common"]);
   const storeReferencesText = useReferencesText(caseData?.id);
+  const { parties } = useCaseParties(caseData?.id);
 
   const {
     // Templates
@@ -48,12 +50,14 @@ export function DocumentGenerator({ caseData, preselectedType }: DocumentGenerat
     isGenerating,
     generatedContent,
     editedContent,
-    setEditedContent,
+    handleEditorChange,
+    docxExportProps,
     isEditing,
     setIsEditing,
     activeTab,
     setActiveTab,
     handleGenerate,
+    cancelGeneration,
     handleSave,
     handleValidate,
     handleLoadFromHistory,
@@ -198,6 +202,7 @@ export function DocumentGenerator({ caseData, preselectedType }: DocumentGenerat
                   setSelectedCommitteeData(data);
                 }}
                 onTemplateReset={() => setSelectedTemplate(null)}
+                parties={parties}
               />
 
               <SenderForm
@@ -207,6 +212,7 @@ export function DocumentGenerator({ caseData, preselectedType }: DocumentGenerat
                 onSenderAddressChange={setSenderAddress}
                 senderContact={senderContact}
                 onSenderContactChange={setSenderContact}
+                parties={parties}
               />
 
               {/* Dynamic Document Fields */}
@@ -263,6 +269,12 @@ export function DocumentGenerator({ caseData, preselectedType }: DocumentGenerat
                     </>
                   )}
                 </Button>
+                {isGenerating && (
+                  <Button variant="outline" size="lg" onClick={cancelGeneration}>
+                    <Square className="mr-2 h-4 w-4" />
+                    {t("common:cancel")}
+                  </Button>
+                )}
               </div>
             </div>
           </div>
@@ -272,19 +284,28 @@ export function DocumentGenerator({ caseData, preselectedType }: DocumentGenerat
           {generatedContent && (
             <Card>
               <CardHeader>
-                <CardTitle>
-                  {selectedTemplate ? getTemplateName(selectedTemplate) : "\u0414\u043E\u043A\u0443\u043C\u0435\u043D\u0442"}
+                <CardTitle className="flex items-center justify-between gap-2 flex-wrap">
+                  <span className="flex items-center gap-2">
+                    {isGenerating && <Loader2 className="h-4 w-4 animate-spin" />}
+                    {selectedTemplate ? getTemplateName(selectedTemplate) : "\u0414\u043E\u043A\u0443\u043C\u0435\u043D\u0442"}
+                  </span>
+                  {isGenerating && (
+                    <Button variant="outline" size="sm" onClick={cancelGeneration}>
+                      <Square className="mr-2 h-3 w-3" />
+                      {t("common:cancel")}
+                    </Button>
+                  )}
                 </CardTitle>
               </CardHeader>
               <CardContent>
                 {isEditing ? (
                   <DocumentEditor
                     content={editedContent}
-                    onChange={setEditedContent}
+                    onChange={handleEditorChange}
                     editable={true}
                   />
                 ) : (
-                  <DocumentPreview content={editedContent || generatedContent} />
+                  <DocumentPreview content={editedContent || generatedContent} streaming={isGenerating} />
                 )}
               </CardContent>
             </Card>
@@ -313,6 +334,7 @@ export function DocumentGenerator({ caseData, preselectedType }: DocumentGenerat
         open={showPreviewModal}
         onOpenChange={setShowPreviewModal}
         content={editedContent || generatedContent}
+        {...docxExportProps}
         title={selectedTemplate ? getTemplateName(selectedTemplate) : "\u0414\u043E\u043A\u0443\u043C\u0435\u043D\u0442"}
         onEdit={() => {
           setShowPreviewModal(false);
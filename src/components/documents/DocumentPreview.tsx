@@ -2,9 +2,11 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 
 interface DocumentPreviewProps {
   content: string;
+  /** Content is still arriving: show a caret after the last line */
+  streaming?: boolean;
 }
 
-export function DocumentPreview({ content }: DocumentPreviewProps) {
+export function DocumentPreview({ content, streaming = false }: DocumentPreviewProps) {
   // Format content with proper line breaks and spacing
   const formattedContent = content
     .split('\n')
@@ -49,6 +51,9 @@ export function DocumentPreview({ content }: DocumentPreviewProps) {
       <div className="p-6 bg-white dark:bg-gray-900 rounded-lg border shadow-inner font-serif">
         <div className="max-w-[700px] mx-auto">
           {formattedContent}
+          {streaming && (
+            <span className="inline-block w-2 h-4 align-text-bottom bg-foreground/60 animate-pulse" aria-hidden="true" />
+          )}
         </div>
       </div>
     </ScrollArea>
@@ -17,6 +17,7 @@ import {
 } from "lucide-react";
 import { toast } from "sonner";
 import { exportDocumentToPDF } from "@/lib/pdfExportDocument";
+import { exportDocumentToDocx, type DocxRecipient, type DocxSender } from "@/lib/docxExport";
 
 // =============================================================================
 // TYPES
@@ -26,7 +27,11 @@ export interface DocumentPreviewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   content: string;
+  /** TipTap HTML for `content`, when it was edited in DocumentEditor */
+  html?: string;
   title: string;
+  recipient?: DocxRecipient;
+  sender?: DocxSender;
   onEdit?: () => void;
   onRegenerate?: () => void;
   onSave?: () => Promise<boolean> | void;
@@ -41,7 +46,10 @@ export function DocumentPreviewModal({
   open,
   onOpenChange,
   content,
+  html,
   title,
+  recipient,
+  sender,
   onEdit,
   onRegenerate,
   onSave,
@@ -106,19 +114,26 @@ export function DocumentPreviewModal({
     }
   };
 
-  const handleDownloadDocx = () => {
-    const contentToExport = isEditing ? editedContent : content;
-    // Create a simple text file (DOCX generation requires external library)
-    const blob = new Blob([contentToExport], { type: "text/plain;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `${title || "document"}.txt`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-    toast.success(lang === "hy" ? "\u0553\u0561\u057d\u057f\u0561\u0569\u0578\u0582\u0572\u0569\u0568 \u0562\u0565\u057c\u0576\u057e\u0565\u0581" : lang === "ru" ? "\u0414\u043e\u043a\u0443\u043c\u0435\u043d\u0442 \u0441\u043a\u0430\u0447\u0430\u043d" : "Document downloaded");
+  const handleDownloadDocx = async () => {
+    setIsExporting(true);
+    try {
+      const edited = isEditing && editedContent !== content;
+      await exportDocumentToDocx({
+        title: title || "document",
+        content: edited ? editedContent : content,
+        html: edited ? undefined : html,
+        recipient,
+        sender,
+        createdAt: new Date(),
+        language: lang as "hy" | "ru" | "en"
+      });
+      toast.success(lang === "hy" ? "\u0553\u0561\u057d\u057f\u0561\u0569\u0578\u0582\u0572\u0569\u0568 \u0562\u0565\u057c\u0576\u057e\u0565\u0581" : lang === "ru" ? "\u0414\u043e\u043a\u0443\u043c\u0435\u043d\u0442 \u0441\u043a\u0430\u0447\u0430\u043d" : "Document downloaded");
+    } catch (error) {
+      console.error("DOCX export error:", error);
+      toast.error(lang === "hy" ? "DOCX \u057d\u056d\u0561\u056c" : lang === "ru" ? "\u041e\u0448\u0438\u0431\u043a\u0430 DOCX" : "DOCX error");
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   const handleSaveToMyDocs = async () => {
@@ -247,6 +262,7 @@ export function DocumentPreviewModal({
             <Button
               variant="outline"
               onClick={handleDownloadDocx}
+              disabled={isExporting}
             >
               <Download className="h-4 w-4 mr-2" />
               {labels.downloadDocx}
@@ -1,13 +1,29 @@
-import { useState, useCallback, useMemo } from "react";
+import { useState, useCallback, useMemo, useEffect } from "react";
 import { useTranslation } from "react-i18next";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Plus, X, Calculator, Users, FileText, Scale } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus, X, Users, FileText, Scale, BookOpen } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  calculateStateDuty,
+  formatStateDutyBreakdown,
+  getStateDutyLabel,
+  parseClaimAmount,
+  stateDutyInstanceFor,
+  STATE_DUTY_CLAIM_TYPES,
+  STATE_DUTY_EXEMPTIONS,
+  STATE_DUTY_INSTANCES,
+  type StateDutyClaimType,
+  type StateDutyExemption,
+  type StateDutyInstance,
+} from "@/lib/state-duty-calculator";
 
 // =============================================================================
 // TYPES
@@ -25,9 +41,19 @@ interface Requirement {
   text: string;
 }
 
+interface CourtFeeCalculation {
+  fee: number;
+  exempt: boolean;
+  /** Calculation steps in the document language */
+  breakdown: string[];
+  /** Articles of the Law "On State Duty" from the knowledge base */
+  legalBasis: string[];
+}
+
 interface DynamicFieldsState {
   claimAmount: string;
   courtFee: string;
+  courtFeeCalculation: CourtFeeCalculation | null;
   currentMeasure: string;
   proposedAlternative: string;
   thirdParties: Party[];
@@ -70,17 +96,6 @@ const DETENTION_DOCUMENTS = [
   "bail_motion"
 ];
 
-// Court fee rates in Armenia (AMD)
-const COURT_FEE_RATES = {
-  civil_property: { base: 4000, rate: 0.03, maxRate: 0.04 }, // 3-4% of claim
-  civil_non_property: { fixed: 4000 },
-  administrative: { fixed: 3000 },
-  labor: { fixed: 0 }, // Free for employees
-  alimony: { fixed: 0 }, // Free
-  cassation: { multiplier: 1.5 }, // 150% of first instance fee
-  appeal: { multiplier: 1.0 }, // Same as first instance
-};
-
 // Preventive measures in Armenia
 const PREVENTIVE_MEASURES = [
   { id: "arrest", label_hy: "\u053F\u0561\u056C\u0561\u0576\u0561\u057E\u0578\u0580\u0578\u0582\u0574", label_ru: "\u0410\u0440\u0435\u0441\u0442", label_en: "Arrest" },
@@ -133,6 +148,7 @@ export function DynamicDocumentFields({
   const [fields, setFields] = useState<DynamicFieldsState>({
     claimAmount: "",
     courtFee: "",
+    courtFeeCalculation: null,
     currentMeasure: "",
     proposedAlternative: "",
     thirdParties: [],
@@ -168,31 +184,59 @@ export function DynamicDocumentFields({
     });
   }, [onFieldsChange]);
 
-  // Calculate court fee based on claim amount
-  const calculateCourtFee = useCallback((amount: string) => {
-    const numAmount = parseFloat(amount.replace(/[^\d.]/g, "")) || 0;
-    let fee = 0;
-
-    if (category === "civil_process") {
-      if (numAmount > 0) {
-        // Property claim: 3% with min 4000 AMD
-        fee = Math.max(4000, Math.round(numAmount * 0.03));
-      } else {
-        // Non-property claim
-        fee = 4000;
-      }
-    } else if (category === "administrative_process") {
-      fee = 3000;
-    }
-
-    // Apply multiplier for appeals/cassation
-    const templateLower = (templateId || subcategory || "").toLowerCase();
-    if (templateLower.includes("cassation")) {
-      fee = Math.round(fee * 1.5);
-    }
+  // State duty inputs
+  const [claimType, setClaimType] = useState<StateDutyClaimType>("property");
+  const [instanceOverride, setInstanceOverride] = useState<StateDutyInstance | null>(null);
+  const [exemptions, setExemptions] = useState<StateDutyExemption[]>([]);
+  const instance = instanceOverride ?? stateDutyInstanceFor(category, templateId || subcategory || "");
+
+  const dutyCalculation = useMemo(() => calculateStateDuty({
+    claimType,
+    claimAmount: parseClaimAmount(fields.claimAmount),
+    instance,
+    exemptions,
+  }), [claimType, fields.claimAmount, instance, exemptions]);
+
+  const basisArticles = dutyCalculation.basis.map(b => b.article);
+
+  // Legal basis articles from the knowledge base
+  const { data: basisDocs } = useQuery({
+    queryKey: ["state-duty-basis", basisArticles],
+    enabled: showClaimFields,
+    staleTime: 60 * 60 * 1000,
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("knowledge_base")
+        .select("id, article_number, title, content_text")
+        .eq("is_active", true)
+        .eq("category", "state_duty_law")
+        .in("article_number", basisArticles);
+      if (error) throw error;
+      return data || [];
+    },
+  });
+
+  const legalBasis = useMemo(() => (basisDocs || []).map(d =>
+    `${d.article_number ? `${d.article_number}. ` : ""}${d.title}: ${d.content_text.slice(0, 1000)}`
+  ), [basisDocs]);
+
+  // Auto-fill the court fee whenever the claim or duty inputs change
+  useEffect(() => {
+    if (!showClaimFields) return;
+    updateFields({
+      courtFee: dutyCalculation.fee.toString(),
+      courtFeeCalculation: {
+        fee: dutyCalculation.fee,
+        exempt: dutyCalculation.exempt,
+        breakdown: formatStateDutyBreakdown(dutyCalculation, lang),
+        legalBasis,
+      },
+    });
+  }, [showClaimFields, dutyCalculation, lang, legalBasis, updateFields]);
 
-    updateFields({ claimAmount: amount, courtFee: fee.toString() });
-  }, [category, templateId, subcategory, updateFields]);
+  const toggleExemption = (id: StateDutyExemption, checked: boolean) => {
+    setExemptions(prev => checked ? [...prev, id] : prev.filter(e => e !== id));
+  };
 
   // Party management
   const addParty = (type: "thirdParties" | "coDefendants") => {
@@ -238,7 +282,11 @@ export function DynamicDocumentFields({
   const labels = {
     claimAmount: lang === "hy" ? "\u0540\u0561\u0575\u0581\u056B \u0563\u056B\u0576" : lang === "ru" ? "\u0426\u0435\u043D\u0430 \u0438\u0441\u043A\u0430" : "Claim amount",
     courtFee: lang === "hy" ? "\u054A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584" : lang === "ru" ? "\u0413\u043E\u0441\u043F\u043E\u0448\u043B\u0438\u043D\u0430" : "Court fee",
-    calculate: lang === "hy" ? "\u0540\u0561\u0577\u057E\u0561\u0580\u056F\u0565\u056C" : lang === "ru" ? "\u0420\u0430\u0441\u0441\u0447\u0438\u0442\u0430\u0442\u044C" : "Calculate",
+    claimType: lang === "hy" ? "\u0540\u0561\u0575\u0581\u056B \u057F\u0565\u057D\u0561\u056F" : lang === "ru" ? "\u0412\u0438\u0434 \u0438\u0441\u043A\u0430" : "Claim type",
+    instance: lang === "hy" ? "\u0531\u057F\u0575\u0561\u0576" : lang === "ru" ? "\u0418\u043D\u0441\u0442\u0430\u043D\u0446\u0438\u044F" : "Instance",
+    exemptions: lang === "hy" ? "\u054A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584\u056B\u0581 \u0561\u0566\u0561\u057F\u0578\u0582\u0574" : lang === "ru" ? "\u041E\u0441\u0432\u043E\u0431\u043E\u0436\u0434\u0435\u043D\u0438\u0435 \u043E\u0442 \u0433\u043E\u0441\u043F\u043E\u0448\u043B\u0438\u043D\u044B" : "State duty exemptions",
+    feeBreakdown: lang === "hy" ? "\u054A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584\u056B \u0570\u0561\u0577\u057E\u0561\u0580\u056F" : lang === "ru" ? "\u0420\u0430\u0441\u0447\u0451\u0442 \u0433\u043E\u0441\u043F\u043E\u0448\u043B\u0438\u043D\u044B" : "State duty calculation",
+    basisNotInKb: lang === "hy" ? "\u00AB\u054A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584\u056B \u0574\u0561\u057D\u056B\u0576\u00BB \u0585\u0580\u0565\u0576\u0584\u056B \u0570\u0578\u0564\u057E\u0561\u056E\u0568 \u0563\u056B\u057F\u0565\u056C\u056B\u0584\u0576\u0565\u0580\u056B \u0562\u0561\u0566\u0561\u0575\u0578\u0582\u0574 \u0579\u056B \u0563\u057F\u0576\u057E\u0565\u056C" : lang === "ru" ? "\u0421\u0442\u0430\u0442\u044C\u044F \u0417\u0430\u043A\u043E\u043D\u0430 \u00AB\u041E \u0433\u043E\u0441\u0443\u0434\u0430\u0440\u0441\u0442\u0432\u0435\u043D\u043D\u043E\u0439 \u043F\u043E\u0448\u043B\u0438\u043D\u0435\u00BB \u043D\u0435 \u043D\u0430\u0439\u0434\u0435\u043D\u0430 \u0432 \u0431\u0430\u0437\u0435 \u0437\u043D\u0430\u043D\u0438\u0439" : "The Law \"On State Duty\" article was not found in the knowledge base",
     amd: lang === "hy" ? "\u0564\u0580\u0561\u0574" : lang === "ru" ? "\u0434\u0440\u0430\u043C" : "AMD",
     currentMeasure: lang === "hy" ? "\u0533\u0578\u0580\u056E\u0578\u0572 \u056D\u0561\u0583\u0561\u0576\u0574\u0561\u0576 \u0574\u056B\u057B\u0578\u0581\u0568" : lang === "ru" ? "\u0422\u0435\u043A\u0443\u0449\u0430\u044F \u043C\u0435\u0440\u0430 \u043F\u0440\u0435\u0441\u0435\u0447\u0435\u043D\u0438\u044F" : "Current preventive measure",
     proposedAlternative: lang === "hy" ? "\u0531\u057C\u0561\u057B\u0561\u0580\u056F\u057E\u0578\u0572 \u0561\u0575\u056C\u0568\u0576\u057F\u0580\u0561\u0576\u0584" : lang === "ru" ? "\u041F\u0440\u0435\u0434\u043B\u0430\u0433\u0430\u0435\u043C\u0430\u044F \u0430\u043B\u044C\u0442\u0435\u0440\u043D\u0430\u0442\u0438\u0432\u0430" : "Proposed alternative",
@@ -272,27 +320,45 @@ export function DynamicDocumentFields({
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label className="text-xs">{labels.claimType}</Label>
+                <Select value={claimType} onValueChange={(v) => setClaimType(v as StateDutyClaimType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STATE_DUTY_CLAIM_TYPES.map(t => (
+                      <SelectItem key={t.id} value={t.id}>{getStateDutyLabel(STATE_DUTY_CLAIM_TYPES, t.id, lang)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">{labels.instance}</Label>
+                <Select value={instance} onValueChange={(v) => setInstanceOverride(v as StateDutyInstance)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {STATE_DUTY_INSTANCES.map(i => (
+                      <SelectItem key={i.id} value={i.id}>{getStateDutyLabel(STATE_DUTY_INSTANCES, i.id, lang)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
             <div className="grid grid-cols-2 gap-3">
               <div>
                 <Label className="text-xs">{labels.claimAmount}</Label>
-                <div className="flex gap-2">
-                  <Input
-                    type="text"
-                    value={fields.claimAmount}
-                    onChange={(e) => setFields(prev => ({ ...prev, claimAmount: e.target.value }))}
-                    placeholder="0"
-                    className="text-right"
-                  />
-                  <Button
-                    type="button"
-                    size="icon"
-                    variant="outline"
-                    onClick={() => calculateCourtFee(fields.claimAmount)}
-                    title={labels.calculate}
-                  >
-                    <Calculator className="h-4 w-4" />
-                  </Button>
-                </div>
+                <Input
+                  type="text"
+                  value={fields.claimAmount}
+                  onChange={(e) => updateFields({ claimAmount: e.target.value })}
+                  placeholder="0"
+                  className="text-right"
+                  disabled={claimType === "non_property"}
+                />
               </div>
               <div>
                 <Label className="text-xs">{labels.courtFee}</Label>
@@ -310,6 +376,40 @@ export function DynamicDocumentFields({
                 </div>
               </div>
             </div>
+
+            <div>
+              <Label className="text-xs">{labels.exemptions}</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mt-1">
+                {STATE_DUTY_EXEMPTIONS.map(ex => (
+                  <label key={ex.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={exemptions.includes(ex.id as StateDutyExemption)}
+                      onCheckedChange={(checked) => toggleExemption(ex.id as StateDutyExemption, checked === true)}
+                    />
+                    {getStateDutyLabel(STATE_DUTY_EXEMPTIONS, ex.id, lang)}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {fields.courtFeeCalculation && (
+              <div className="rounded-md bg-muted/50 p-3 space-y-1 text-xs">
+                <div className="font-medium">{labels.feeBreakdown}</div>
+                {fields.courtFeeCalculation.breakdown.map((line, idx) => (
+                  <div key={idx} className={cn(idx === fields.courtFeeCalculation!.breakdown.length - 1 && "font-semibold")}>
+                    {line}
+                  </div>
+                ))}
+                <div className="flex items-start gap-1 pt-1 text-muted-foreground">
+                  <BookOpen className="h-3 w-3 mt-0.5 shrink-0" />
+                  {basisDocs && basisDocs.length > 0 ? (
+                    <span>{basisDocs.map(d => d.title).join("; ")}</span>
+                  ) : (
+                    <span>{labels.basisNotInKb}</span>
+                  )}
+                </div>
+              </div>
+            )}
           </CardContent>
         </Card>
       )}
@@ -13,6 +13,8 @@ import { FlatProsecutor } from "@/data/armenianProsecutors";
 import { FlatGovernmentBody } from "@/data/armenianGovernment";
 import { FlatInvestigativeBody } from "@/data/armenianInvestigativeBodies";
 import { FlatCommitteeService } from "@/data/armenianCommitteesServices";
+import type { CaseParty } from "@/lib/case-parties";
+import { CasePartySelect } from "./CasePartySelect";
 
 export type RecipientType = "court" | "prosecutor" | "government" | "investigative" | "other";
 
@@ -36,6 +38,8 @@ interface RecipientFormProps {
   selectedCommitteeId: string;
   onCommitteeChange: (id: string, data: FlatCommitteeService | null) => void;
   onTemplateReset: () => void;
+  /** Parties of the case, offered for autofill (e.g. the opposing party) */
+  parties?: CaseParty[];
 }
 
 export function RecipientForm({
@@ -58,6 +62,7 @@ export function RecipientForm({
   selectedCommitteeId,
   onCommitteeChange,
   onTemplateReset,
+  parties = [],
 }: RecipientFormProps) {
   const { i18n } = useTranslation();
 
@@ -84,6 +89,20 @@ export function RecipientForm({
     onCommitteeChange("", null);
   };
 
+  // A party is addressed as "other": an organization by its name, a person
+  // by full name
+  const fillFromParty = (party: CaseParty) => {
+    if (recipientType !== "other") handleTypeChange("other");
+    if (party.kind === "organization") {
+      onRecipientOrganizationChange(party.name);
+      onRecipientNameChange(party.representative_name ?? "");
+    } else {
+      onRecipientOrganizationChange("");
+      onRecipientNameChange(party.name);
+    }
+    onRecipientPositionChange("");
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -105,6 +124,10 @@ export function RecipientForm({
           ))}
         </div>
 
+        {parties.length > 0 && (
+          <CasePartySelect id="recipientParty" parties={parties} onSelect={fillFromParty} />
+        )}
+
         {/* Court Selector */}
         {recipientType === "court" && (
           <CourtSelector
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from "vitest";
-import { render } from "@testing-library/react";
+import { render, fireEvent } from "@testing-library/react";
 import { SenderForm } from "./SenderForm";
+import type { CaseParty } from "@/lib/case-parties";
 
 // Mock useTranslation
 vi.mock("react-i18next", () => ({
@@ -20,6 +21,15 @@ vi.mock("react-i18next", () => ({
   }),
 }));
 
+// Mock the party picker: a button that picks the first party
+vi.mock("./CasePartySelect", () => ({
+  CasePartySelect: ({ parties, onSelect }: { parties: CaseParty[]; onSelect: (party: CaseParty) => void }) => (
+    <button type="button" data-testid="party-select" onClick={() => onSelect(parties[0])}>
+      Pick party
+    </button>
+  ),
+}));
+
 describe("SenderForm", () => {
   const defaultProps = {
     senderName: "",
@@ -67,4 +77,41 @@ describe("SenderForm", () => {
     const inputs = container.querySelectorAll("input");
     expect(inputs.length).toBe(3);
   });
+
+  it("does not offer party autofill without parties", () => {
+    const { queryByTestId } = render(<SenderForm {...defaultProps} />);
+    expect(queryByTestId("party-select")).toBeNull();
+  });
+
+  it("fills sender fields from a case party", () => {
+    const onSenderNameChange = vi.fn();
+    const onSenderAddressChange = vi.fn();
+    const onSenderContactChange = vi.fn();
+    const party = {
+      id: "p1",
+      name: "Aram Petrosyan",
+      kind: "person",
+      role: "claimant",
+      is_client: true,
+      address: "Yerevan, Abovyan 1",
+      phone: "+374 10 000000",
+      email: "aram@example.am",
+      representative_name: null,
+    } as CaseParty;
+
+    const { getByTestId } = render(
+      <SenderForm
+        {...defaultProps}
+        onSenderNameChange={onSenderNameChange}
+        onSenderAddressChange={onSenderAddressChange}
+        onSenderContactChange={onSenderContactChange}
+        parties={[party]}
+      />
+    );
+    fireEvent.click(getByTestId("party-select"));
+
+    expect(onSenderNameChange).toHaveBeenCalledWith("Aram Petrosyan");
+    expect(onSenderAddressChange).toHaveBeenCalledWith("Yerevan, Abovyan 1");
+    expect(onSenderContactChange).toHaveBeenCalledWith("+374 10 000000, aram@example.am");
+  });
 });
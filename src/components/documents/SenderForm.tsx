@@ -2,6 +2,8 @@ import { useTranslation } from "react-i18next";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { partyContactLine, partyDisplayName, type CaseParty } from "@/lib/case-parties";
+import { CasePartySelect } from "./CasePartySelect";
 
 interface SenderFormProps {
   senderName: string;
@@ -10,6 +12,8 @@ interface SenderFormProps {
   onSenderAddressChange: (address: string) => void;
   senderContact: string;
   onSenderContactChange: (contact: string) => void;
+  /** Parties of the case, offered for autofill; clients are listed first */
+  parties?: CaseParty[];
 }
 
 export function SenderForm({
@@ -19,15 +23,25 @@ export function SenderForm({
   onSenderAddressChange,
   senderContact,
   onSenderContactChange,
+  parties = [],
 }: SenderFormProps) {
   const { t } = useTranslation(["cases"]);
 
+  const fillFromParty = (party: CaseParty) => {
+    onSenderNameChange(partyDisplayName(party));
+    onSenderAddressChange(party.address ?? "");
+    onSenderContactChange(partyContactLine(party));
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>{t("cases:sender")}</CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {parties.length > 0 && (
+          <CasePartySelect id="senderParty" parties={parties} onSelect={fillFromParty} />
+        )}
         <div>
           <Label htmlFor="senderName">{t("cases:sender_name")}</Label>
           <Input
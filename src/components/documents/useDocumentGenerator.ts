@@ -1,7 +1,9 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useTranslation } from "react-i18next";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { formatQuotaExceeded, getQuotaExceededInfo } from "@/lib/functionsInvokeError";
+import { isAbortError, streamEdgeFunction } from "@/lib/edge-stream";
 import { RecipientType } from "./RecipientForm";
 import { UploadedFile } from "./EnhancedFileUpload";
 import { validateDocumentForm, ValidationField } from "./ValidationModal";
@@ -24,6 +26,7 @@ interface DocumentTemplate {
 interface DynamicFieldsState {
   claimAmount: string;
   courtFee: string;
+  courtFeeCalculation: { fee: number; exempt: boolean; breakdown: string[]; legalBasis: string[] } | null;
   currentMeasure: string;
   proposedAlternative: string;
   thirdParties: Array<{ id: string; fullName: string; address: string; role: string }>;
@@ -60,8 +63,12 @@ export function useDocumentGenerator(
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedContent, setGeneratedContent] = useState("");
   const [editedContent, setEditedContent] = useState("");
+  // Editor HTML together with the text it was produced for, so it is only
+  // exported while that text is still the current one
+  const [editedHtml, setEditedHtml] = useState<{ text: string; html: string } | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [activeTab, setActiveTab] = useState("template");
+  const generationAbortRef = useRef<AbortController | null>(null);
 
   // Form fields
   const [recipientName, setRecipientName] = useState("");
@@ -92,6 +99,7 @@ export function useDocumentGenerator(
   const [dynamicFields, setDynamicFields] = useState<DynamicFieldsState>({
     claimAmount: "",
     courtFee: "",
+    courtFeeCalculation: null,
     currentMeasure: "",
     proposedAlternative: "",
     thirdParties: [],
@@ -195,6 +203,63 @@ export function useDocumentGenerator(
     setShowValidationModal(true);
   }, [selectedTemplate, senderName, senderAddress, senderContact, recipientOrganization, recipientName, recipientPosition, sourceText, fileExtractedText, i18n.language]);
 
+  // Recipient as selected in RecipientForm: a picked institution overrides the
+  // free-text organization and brings its address and contacts
+  const resolveRecipient = () => {
+    let organization = recipientOrganization;
+    let address: string | null = null;
+    let phones: string[] | null = null;
+    let email: string | null = null;
+
+    if (selectedCourtData) {
+      const courtName = language === 'hy' ? selectedCourtData.fullName_hy : 
+                        language === 'en' ? selectedCourtData.fullName_en : 
+                        selectedCourtData.fullName_ru;
+      organization = courtName;
+      address = selectedCourtData.address || null;
+      phones = selectedCourtData.phones || null;
+    } else if (selectedProsecutorData) {
+      const prosecutorName = language === 'hy' ? selectedProsecutorData.fullName_hy : 
+                              language === 'en' ? selectedProsecutorData.fullName_en : 
+                              selectedProsecutorData.fullName_ru;
+      organization = prosecutorName;
+      address = selectedProsecutorData.address || null;
+      phones = selectedProsecutorData.phones || null;
+      email = selectedProsecutorData.email || null;
+    } else if (selectedGovernmentData) {
+      const govName = language === 'hy' ? selectedGovernmentData.fullName_hy : 
+                      language === 'en' ? selectedGovernmentData.fullName_en : 
+                      selectedGovernmentData.fullName_ru;
+      organization = govName;
+      address = selectedGovernmentData.address || null;
+      phones = selectedGovernmentData.phones || null;
+      email = selectedGovernmentData.email || null;
+    } else if (selectedInvestigativeData) {
+      const invName = language === 'hy' ? selectedInvestigativeData.fullName_hy : 
+                      language === 'en' ? selectedInvestigativeData.fullName_en : 
+                      selectedInvestigativeData.fullName_ru;
+      organization = invName;
+      address = selectedInvestigativeData.address || null;
+      phones = selectedInvestigativeData.phones || null;
+      email = selectedInvestigativeData.email || null;
+    } else if (selectedCommitteeData) {
+      const commName = language === 'hy' ? selectedCommitteeData.fullName_hy : 
+                       language === 'en' ? selectedCommitteeData.fullName_en : 
+                       selectedCommitteeData.fullName_ru;
+      organization = commName;
+      address = selectedCommitteeData.address || null;
+      phones = selectedCommitteeData.phones || null;
+      email = selectedCommitteeData.email || null;
+    }
+
+    return { organization, address, phones, email };
+  };
+
+  const handleEditorChange = (text: string, html: string) => {
+    setEditedContent(text);
+    setEditedHtml({ text, html });
+  };
+
   const handleGenerate = async () => {
     if (!selectedTemplate) {
       toast({
@@ -207,54 +272,15 @@ export function useDocumentGenerator(
 
     setIsGenerating(true);
     setGeneratedContent("");
+    setEditedContent("");
+    setEditedHtml(null);
+    setIsEditing(false);
     setShowValidationModal(false);
+    const controller = new AbortController();
+    generationAbortRef.current = controller;
 
     try {
-      let finalRecipientOrg = recipientOrganization;
-      let recipientAddress: string | null = null;
-      let recipientPhones: string[] | null = null;
-      let recipientEmail: string | null = null;
-
-      if (selectedCourtData) {
-        const courtName = language === 'hy' ? selectedCourtData.fullName_hy : 
-                          language === 'en' ? selectedCourtData.fullName_en : 
-                          selectedCourtData.fullName_ru;
-        finalRecipientOrg = courtName;
-        recipientAddress = selectedCourtData.address || null;
-        recipientPhones = selectedCourtData.phones || null;
-      } else if (selectedProsecutorData) {
-        const prosecutorName = language === 'hy' ? selectedProsecutorData.fullName_hy : 
-                                language === 'en' ? selectedProsecutorData.fullName_en : 
-                                selectedProsecutorData.fullName_ru;
-        finalRecipientOrg = prosecutorName;
-        recipientAddress = selectedProsecutorData.address || null;
-        recipientPhones = selectedProsecutorData.phones || null;
-        recipientEmail = selectedProsecutorData.email || null;
-      } else if (selectedGovernmentData) {
-        const govName = language === 'hy' ? selectedGovernmentData.fullName_hy : 
-                        language === 'en' ? selectedGovernmentData.fullName_en : 
-                        selectedGovernmentData.fullName_ru;
-        finalRecipientOrg = govName;
-        recipientAddress = selectedGovernmentData.address || null;
-        recipientPhones = selectedGovernmentData.phones || null;
-        recipientEmail = selectedGovernmentData.email || null;
-      } else if (selectedInvestigativeData) {
-        const invName = language === 'hy' ? selectedInvestigativeData.fullName_hy : 
-                        language === 'en' ? selectedInvestigativeData.fullName_en : 
-                        selectedInvestigativeData.fullName_ru;
-        finalRecipientOrg = invName;
-        recipientAddress = selectedInvestigativeData.address || null;
-        recipientPhones = selectedInvestigativeData.phones || null;
-        recipientEmail = selectedInvestigativeData.email || null;
-      } else if (selectedCommitteeData) {
-        const commName = language === 'hy' ? selectedCommitteeData.fullName_hy : 
-                         language === 'en' ? selectedCommitteeData.fullName_en : 
-                         selectedCommitteeData.fullName_ru;
-        finalRecipientOrg = commName;
-        recipientAddress = selectedCommitteeData.address || null;
-        recipientPhones = selectedCommitteeData.phones || null;
-        recipientEmail = selectedCommitteeData.email || null;
-      }
+      const { organization: finalRecipientOrg, address: recipientAddress, phones: recipientPhones, email: recipientEmail } = resolveRecipient();
 
       const additionalFields = {
         ...dynamicFields,
@@ -290,12 +316,19 @@ export function useDocumentGenerator(
         requestBody.referencesText = referencesText;
       }
 
-      const { data, error } = await supabase.functions.invoke("generate-document", {
-        body: requestBody,
+      // The document text streams into the Result tab while it is generated
+      let switchedToResult = false;
+      const data = await streamEdgeFunction<{ content: string; error?: string }>("generate-document", requestBody, {
+        signal: controller.signal,
+        onDelta: (_delta, text) => {
+          setGeneratedContent(text);
+          if (!switchedToResult) {
+            switchedToResult = true;
+            setActiveTab("result");
+          }
+        },
       });
 
-      if (error) throw error;
-
       if (data.error) {
         throw new Error(data.error);
       }
@@ -310,7 +343,19 @@ export function useDocumentGenerator(
         description: t("cases:document_generated_success"),
       });
     } catch (error: unknown) {
-      const errorMessage = error instanceof Error ? error.message : t("cases:generation_error");
+      if (isAbortError(error)) {
+        setGeneratedContent("");
+        setActiveTab("template");
+        toast({ title: t("cases:generation_cancelled") });
+        return;
+      }
+      // Drop partial text of a failed stream
+      setGeneratedContent("");
+      setActiveTab("template");
+      const quota = await getQuotaExceededInfo(error);
+      const errorMessage = quota
+        ? formatQuotaExceeded(quota, t)
+        : error instanceof Error ? error.message : t("cases:generation_error");
       console.error("Generation error:", error);
       toast({
         title: t("common:error"),
@@ -318,10 +363,16 @@ export function useDocumentGenerator(
         variant: "destructive",
       });
     } finally {
+      if (generationAbortRef.current === controller) generationAbortRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  /** Stops a running generation; the upstream model call is aborted */
+  const cancelGeneration = useCallback(() => {
+    generationAbortRef.current?.abort();
+  }, []);
+
   const handleSave = async (): Promise<boolean> => {
     const contentToSave = editedContent || generatedContent;
     if (!contentToSave) return false;
@@ -372,6 +423,18 @@ export function useDocumentGenerator(
     setShowPreviewModal(true);
   }, []);
 
+  const resolvedRecipient = resolveRecipient();
+  const docxExportProps = {
+    html: editedHtml && editedHtml.text === (editedContent || generatedContent) ? editedHtml.html : undefined,
+    recipient: {
+      name: recipientName,
+      position: recipientPosition,
+      organization: resolvedRecipient.organization,
+      address: resolvedRecipient.address,
+    },
+    sender: { name: senderName, address: senderAddress, contact: senderContact },
+  };
+
   return {
     // Templates
     templates,
@@ -385,11 +448,14 @@ export function useDocumentGenerator(
     generatedContent,
     editedContent,
     setEditedContent,
+    handleEditorChange,
+    docxExportProps,
     isEditing,
     setIsEditing,
     activeTab,
     setActiveTab,
     handleGenerate,
+    cancelGeneration,
     handleSave,
     handleValidate,
     handleLoadFromHistory,
@@ -16,6 +16,7 @@ import { useLegalPracticeKB, type KBDocument, type PracticeCategory } from "@/ho
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { highlightTerms } from "@/lib/snippet-extractor";
+import { PracticeGraphLinks } from "@/components/kb/PracticeGraphLinks";
 
 const CATEGORY_LABELS: Record<PracticeCategory, string> = {
   criminal: "\u0554\u0580\u0565\u0561\u056F\u0561\u0576",
@@ -120,6 +121,8 @@ interface KBSearchResult {
   max_score: number;
   relevancePct: number;
   chunks: KBChunkResult[];
+  /** Present when searched with an as-of date (point-in-time text) */
+  as_of?: { date: string; version_number: number; version_date: string | null; is_current: boolean };
 }
 
 /** Unified merged item for cross-source ranking */
@@ -176,6 +179,8 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
   const storeReferencesText = useReferencesText(storeKey);
   const { t } = useTranslation("kb");
   const [query, setQuery] = useState("");
+  /** Point-in-time date for legislation text ("" = current text) */
+  const [asOfDate, setAsOfDate] = useState("");
   const [viewFilter, setViewFilter] = useState<ViewFilter>("all");
   const [mergedVisibleCount, setMergedVisibleCount] = useState(MERGED_PAGE_SIZE);
 
@@ -323,7 +328,7 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
   }, []);
 
   // ─── Unified search via Edge function (with fallback) ────────────
-  const searchUnified = useCallback(async (searchQuery: string, cat: string | null) => {
+  const searchUnified = useCallback(async (searchQuery: string, cat: string | null, asOf: string | null = null) => {
     const trimmed = searchQuery.trim();
     if (trimmed.length < 2) return false;
 
@@ -333,6 +338,7 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
           query: trimmed,
           category: cat,
           kbCategory: null,
+          ...(asOf ? { asOfDate: asOf } : {}),
         },
       });
 
@@ -349,7 +355,7 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
         chunksByDoc.set(chunk.doc_id, arr);
       }
       const globalMax = kbDocs.reduce((mx: number, d: { max_score: number }) => Math.max(mx, Number(d.max_score) || 0), 0);
-      const parsedKb: KBSearchResult[] = kbDocs.map((doc: { id: string; title: string; category: string; source_name: string | null; article_number: string | null; source_url: string | null; max_score: number }) => {
+      const parsedKb: KBSearchResult[] = kbDocs.map((doc: { id: string; title: string; category: string; source_name: string | null; article_number: string | null; source_url: string | null; max_score: number; as_of?: KBSearchResult["as_of"] }) => {
         const raw = Number(doc.max_score) || 0;
         const relevancePct = globalMax > 0 ? Math.round((raw / globalMax) * 100) : 0;
         return { ...doc, relevancePct, chunks: chunksByDoc.get(doc.id) || [] };
@@ -423,12 +429,12 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
 
   const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  const runSearch = useCallback(async (searchQuery: string) => {
+  const runSearch = useCallback(async (searchQuery: string, asOf: string = asOfDate) => {
     if (!searchQuery.trim() || searchQuery.trim().length < 2) return;
     setMergedVisibleCount(MERGED_PAGE_SIZE);
 
     // Try unified endpoint first (single request for both KB + Practice)
-    const unifiedOk = await searchUnified(searchQuery, null);
+    const unifiedOk = await searchUnified(searchQuery, null, asOf || null);
 
     // If unified failed, fall back to separate parallel searches
     if (!unifiedOk) {
@@ -437,7 +443,7 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
         searchPractice(searchQuery, null),
       ]);
     }
-  }, [searchUnified, searchKBLegislation, searchPractice]);
+  }, [searchUnified, searchKBLegislation, searchPractice, asOfDate]);
 
   const handleQueryChange = (value: string) => {
     setQuery(value);
@@ -549,6 +555,23 @@ export function KBSearchPanel({ caseId, onInsertReference, onReferencesChange }:
           )}
         </div>
 
+        {/* Point-in-time: legislation text as of a date (e.g. offence date) */}
+        <div className="flex items-center gap-2">
+          <label htmlFor="kb-as-of-date" className="text-xs text-muted-foreground whitespace-nowrap">
+            {t("as_of_date", "\u053D\u0574\u0562\u0561\u0563\u0580\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568 \u0561\u0574\u057D\u0561\u0569\u057E\u056B \u0564\u0580\u0578\u0582\u0569\u0575\u0561\u0574\u0562")}
+          </label>
+          <Input
+            id="kb-as-of-date"
+            type="date"
+            value={asOfDate}
+            onChange={(e) => {
+              setAsOfDate(e.target.value);
+              if (query.trim().length >= 2) runSearch(query, e.target.value);
+            }}
+            className="h-8 w-40 text-xs"
+          />
+        </div>
+
         {/* View filter tabs */}
         {(hasAnyResults || documents.length > 0) && (
           <Tabs value={viewFilter} onValueChange={(v) => setViewFilter(v as ViewFilter)} className="w-full">
@@ -944,6 +967,13 @@ function KBLawCard({ result, searchQuery, isExpanded, onToggle, onInsertReferenc
                     {chunks.length} {chunks.length === 1 ? "fragment" : "fragments"}
                   </Badge>
                 )}
+                {result.as_of && (
+                  <Badge variant={result.as_of.is_current ? "outline" : "destructive"} className="text-xs py-0">
+                    v{result.as_of.version_number}
+                    {result.as_of.version_date ? ` \u00B7 ${result.as_of.version_date}` : ""}
+                    {!result.as_of.is_current && ` \u00B7 ${t("as_of_superseded", "\u0583\u0578\u0583\u0578\u056D\u057E\u0561\u056E")}`}
+                  </Badge>
+                )}
                 {Number.isFinite(result.relevancePct) && result.relevancePct > 0 && (
                   <Badge variant="outline" className="text-xs py-0">{t('relevance')}: {result.relevancePct}%</Badge>
                 )}
@@ -1147,6 +1177,8 @@ function KBDocumentCard({
               {"\u0532\u0561\u0581\u0565\u056C \u0570\u0561\u057B\u0578\u0580\u0564 \u0570\u0561\u057F\u057E\u0561\u056E\u0568"}
             </Button>
           )}
+
+          <PracticeGraphLinks docId={document.id} />
         </CollapsibleContent>
       </Collapsible>
     </div>
@@ -0,0 +1,180 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { useKBVersions } from '@/hooks/useKnowledgeBase';
+import { alignArticleVersions, type ArticleDiffRow } from '@/lib/kb-article-diff';
+import { cn } from '@/lib/utils';
+
+interface KBVersionDiffProps {
+  kbId: string;
+  current: {
+    title: string;
+    content_text: string;
+    current_version: number;
+    version_date: string | null;
+  };
+}
+
+interface VersionOption {
+  value: string;
+  label: string;
+  content: string;
+}
+
+const statusClass: Record<ArticleDiffRow['status'], string> = {
+  unchanged: '',
+  changed: 'border-amber-500/50',
+  added: 'border-green-500/50',
+  removed: 'border-destructive/50',
+};
+
+function DiffColumn({ row, side }: { row: ArticleDiffRow; side: 'left' | 'right' }) {
+  const text = side === 'left' ? row.left : row.right;
+  if (text === null) {
+    return <div className="rounded bg-muted/40 p-2 text-xs text-muted-foreground">&mdash;</div>;
+  }
+  if (!row.lines) {
+    return <pre className="whitespace-pre-wrap font-sans text-xs leading-relaxed p-2">{text}</pre>;
+  }
+  const hidden = side === 'left' ? 'added' : 'removed';
+  return (
+    <pre className="whitespace-pre-wrap font-sans text-xs leading-relaxed p-2">
+      {row.lines
+        .filter((l) => l.type !== hidden)
+        .map((l, i) => (
+          <span
+            key={i}
+            className={cn(
+              'block',
+              l.type === 'removed' && 'bg-destructive/15 line-through decoration-destructive/50',
+              l.type === 'added' && 'bg-green-500/15',
+            )}
+          >
+            {l.text || '\u00A0'}
+          </span>
+        ))}
+    </pre>
+  );
+}
+
+export function KBVersionDiff({ kbId, current }: KBVersionDiffProps) {
+  const { t } = useTranslation(['kb', 'common']);
+  const { data: versions, isLoading } = useKBVersions(kbId);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  const options = useMemo<VersionOption[]>(() => {
+    const currentOption: VersionOption = {
+      value: 'current',
+      label: `v${current.current_version}${current.version_date ? ` (${current.version_date})` : ''} \u00B7 ${t('version_current', 'current')}`,
+      content: current.content_text,
+    };
+    const history = (versions || []).map((v) => ({
+      value: v.id,
+      label: `v${v.version_number}${v.version_date ? ` (${v.version_date})` : ''}`,
+      content: v.content_text,
+    }));
+    return [currentOption, ...history];
+  }, [versions, current, t]);
+
+  const [leftId, setLeftId] = useState<string | null>(null);
+  const [rightId, setRightId] = useState('current');
+  // Default left side: the most recent previous version
+  const effectiveLeftId = leftId ?? options[1]?.value ?? 'current';
+
+  const rows = useMemo(() => {
+    const left = options.find((o) => o.value === effectiveLeftId);
+    const right = options.find((o) => o.value === rightId);
+    if (!left || !right) return [];
+    return alignArticleVersions(left.content, right.content);
+  }, [options, effectiveLeftId, rightId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (options.length < 2) {
+    return (
+      <p className="py-4 text-center text-sm text-muted-foreground">
+        {t('common:no_history', 'No version history')}
+      </p>
+    );
+  }
+
+  const changedCount = rows.filter((r) => r.status !== 'unchanged').length;
+  const visibleRows = showUnchanged ? rows : rows.filter((r) => r.status !== 'unchanged');
+
+  const statusLabel = (status: ArticleDiffRow['status']) =>
+    status === 'added' ? t('diff_added', 'Added')
+      : status === 'removed' ? t('diff_removed', 'Removed')
+        : status === 'changed' ? t('diff_changed', 'Changed')
+          : t('diff_unchanged', 'Unchanged');
+
+  const rowHeading = (row: ArticleDiffRow) =>
+    row.heading ?? (row.key === '__preamble' ? t('diff_preamble', 'Preamble') : current.title);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <Select value={effectiveLeftId} onValueChange={setLeftId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((o) => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={rightId} onValueChange={setRightId}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map((o) => (
+              <SelectItem key={o.value} value={o.value}>{o.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {t('diff_summary', '{{changed}} of {{total}} articles differ', { changed: changedCount, total: rows.length })}
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="kb-diff-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+          <Label htmlFor="kb-diff-unchanged" className="text-sm">{t('diff_show_unchanged', 'Show unchanged')}</Label>
+        </div>
+      </div>
+
+      {visibleRows.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">{t('diff_identical', 'The versions are identical')}</p>
+      ) : (
+        <div className="space-y-3">
+          {visibleRows.map((row) => (
+            <div key={row.key} className={cn('rounded-lg border', statusClass[row.status])}>
+              <div className="flex items-center justify-between gap-2 border-b px-3 py-2">
+                <span className="text-sm font-medium">{rowHeading(row)}</span>
+                <Badge variant={row.status === 'removed' ? 'destructive' : 'outline'} className="text-xs">
+                  {statusLabel(row.status)}
+                </Badge>
+              </div>
+              <div className="grid grid-cols-2 divide-x">
+                <DiffColumn row={row} side="left" />
+                <DiffColumn row={row} side="right" />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
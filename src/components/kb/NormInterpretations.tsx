@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Gavel, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useDecisionsByNorm } from '@/hooks/usePracticeGraph';
+import { NORM_RELATIONS, normKeyFromKBDocument } from '@/lib/practice-graph';
+
+interface NormInterpretationsProps {
+  category: string;
+  articleNumber: string | null;
+}
+
+/** Court decisions from the practice base that interpret or apply a KB article */
+export function NormInterpretations({ category, articleNumber }: NormInterpretationsProps) {
+  const { t } = useTranslation('kb');
+  const [includeMentions, setIncludeMentions] = useState(false);
+  const norm = normKeyFromKBDocument(category, articleNumber);
+  const { data: decisions = [], isLoading } = useDecisionsByNorm(norm, undefined, includeMentions);
+
+  if (!norm) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Gavel className="h-4 w-4 text-primary" />
+          {t('norm_interpretations_title')}
+        </CardTitle>
+        <CardDescription>{t('norm_interpretations_hint')}</CardDescription>
+        <div className="flex items-center gap-2 pt-1">
+          <Switch id="norm-mentions" checked={includeMentions} onCheckedChange={setIncludeMentions} />
+          <Label htmlFor="norm-mentions" className="text-xs font-normal">{t('norm_interpretations_mentions')}</Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : decisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('norm_interpretations_empty')}</p>
+        ) : (
+          <ul className="divide-y">
+            {decisions.map(d => {
+              const relation = NORM_RELATIONS.find(r => d.relations.includes(r));
+              return (
+                <li key={d.id} className="py-2 space-y-1">
+                  <p className="text-sm font-medium break-words">{d.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {[
+                      d.court_name,
+                      d.case_number_anonymized,
+                      d.decision_date && format(new Date(d.decision_date), 'dd.MM.yyyy'),
+                    ].filter(Boolean).join(' · ')}
+                  </p>
+                  <div className="flex flex-wrap gap-1">
+                    {relation && (
+                      <Badge variant={relation === 'interprets' ? 'default' : 'secondary'} className="text-[11px] py-0">
+                        {t(`graph_relation_${relation}`)}
+                      </Badge>
+                    )}
+                    {d.parts.length > 0 && (
+                      <Badge variant="outline" className="text-[11px] py-0 font-normal">
+                        {t('graph_parts', { parts: d.parts.join(', ') })}
+                      </Badge>
+                    )}
+                    <Badge variant="outline" className="text-[11px] py-0 font-normal">
+                      {t(`lp_outcome_${d.outcome}`)}
+                    </Badge>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
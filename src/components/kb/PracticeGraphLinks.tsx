@@ -0,0 +1,105 @@
+import { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Loader2, Network } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { useCitedDecisions, useCitingDecisions, usePracticeNormEdges } from '@/hooks/usePracticeGraph';
+import { groupNormEdges, type NormGroup } from '@/lib/practice-graph';
+
+const RELATION_VARIANT: Record<NormGroup['relation'], 'default' | 'secondary' | 'outline'> = {
+  interprets: 'default',
+  applies: 'secondary',
+  mentions: 'outline',
+};
+
+interface PracticeGraphLinksProps {
+  docId: string;
+}
+
+/** Norms a decision interprets/applies and the decisions it cites or is cited by */
+export function PracticeGraphLinks({ docId }: PracticeGraphLinksProps) {
+  const { t } = useTranslation('kb');
+  const { data: edges = [], isLoading: edgesLoading } = usePracticeNormEdges(docId);
+  const { data: cited = [], isLoading: citedLoading } = useCitedDecisions(docId);
+  const { data: citing = [], isLoading: citingLoading } = useCitingDecisions(docId);
+
+  const norms = useMemo(
+    () => groupNormEdges(edges, e => (e.act_key ? t(`category_${e.act_key}`) : e.act_raw || '')),
+    [edges, t]
+  );
+
+  if (edgesLoading || citedLoading || citingLoading) {
+    return <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />;
+  }
+
+  const isEmpty = norms.length === 0 && cited.length === 0 && citing.length === 0;
+
+  return (
+    <div className="border rounded-lg p-3 space-y-2.5 text-xs">
+      <span className="font-semibold text-primary flex items-center gap-1.5">
+        <Network className="h-3 w-3" />
+        {t('graph_title')}
+      </span>
+
+      {isEmpty && <p className="text-muted-foreground">{t('graph_no_links')}</p>}
+
+      {norms.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium text-muted-foreground">{t('graph_norms')}</p>
+          <div className="flex flex-wrap gap-1.5">
+            {norms.map(n => (
+              <Badge key={`${n.label}|${n.relation}`} variant={RELATION_VARIANT[n.relation]} className="text-[11px] py-0 font-normal">
+                {n.label}
+                {n.parts.length > 0 && `, ${t('graph_parts', { parts: n.parts.join(', ') })}`}
+                <span className="ml-1 opacity-70">· {t(`graph_relation_${n.relation}`)}</span>
+              </Badge>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {cited.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium text-muted-foreground">{t('graph_cites')}</p>
+          <ul className="space-y-0.5">
+            {cited.map(c => (
+              <li key={c.id ?? c.target_ref} className="break-words">
+                {c.id ? (
+                  <>
+                    {c.title}
+                    {c.decision_date && (
+                      <span className="text-muted-foreground"> · {format(new Date(c.decision_date), 'dd.MM.yyyy')}</span>
+                    )}
+                  </>
+                ) : (
+                  <>
+                    {c.target_ref} <span className="text-muted-foreground">({t('graph_unresolved')})</span>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {citing.length > 0 && (
+        <div className="space-y-1">
+          <p className="font-medium text-muted-foreground">{t('graph_cited_by')}</p>
+          <ul className="space-y-0.5">
+            {citing.map(c => (
+              <li key={c.id} className="break-words">
+                {c.title}
+                <span className="text-muted-foreground">
+                  {[c.case_number_anonymized, c.decision_date && format(new Date(c.decision_date), 'dd.MM.yyyy')]
+                    .filter(Boolean)
+                    .map(v => ` · ${v}`)
+                    .join('')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useCaseMessages } from '@/hooks/useClientPortal';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { Loader2, MessageCircle, Send } from 'lucide-react';
+
+interface CaseMessagesThreadProps {
+  caseId: string;
+  /** How the other side is labelled: the lawyer in the portal, the client in the case view */
+  counterpartLabel: string;
+  hint?: string;
+}
+
+export function CaseMessagesThread({ caseId, counterpartLabel, hint }: CaseMessagesThreadProps) {
+  const { t } = useTranslation('portal');
+  const { user } = useAuth();
+  const { messages, isLoading, unreadCount, send, markRead } = useCaseMessages(caseId);
+  const [draft, setDraft] = useState('');
+
+  const { mutate: markAsRead } = markRead;
+  useEffect(() => {
+    if (unreadCount > 0) markAsRead();
+  }, [unreadCount, markAsRead]);
+
+  const handleSend = () => {
+    if (!draft.trim()) return;
+    send.mutate(draft, { onSuccess: () => setDraft('') });
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <MessageCircle className="h-4 w-4" />
+          {t('messages')}
+        </CardTitle>
+        {hint && <CardDescription>{hint}</CardDescription>}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">{t('no_messages')}</p>
+        ) : (
+          <ScrollArea className="h-[320px] pr-3">
+            <div className="space-y-3">
+              {messages.map(m => {
+                const own = m.sender_id === user?.id;
+                return (
+                  <div key={m.id} className={cn('flex flex-col', own ? 'items-end' : 'items-start')}>
+                    <div
+                      className={cn(
+                        'max-w-[85%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words',
+                        own ? 'bg-primary text-primary-foreground' : 'bg-muted'
+                      )}
+                    >
+                      {m.body}
+                    </div>
+                    <span className="mt-1 text-xs text-muted-foreground">
+                      {own ? t('you') : counterpartLabel} · {format(new Date(m.created_at), 'dd.MM.yyyy HH:mm')}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
+
+        <div className="flex gap-2">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={t('message_placeholder')}
+            rows={2}
+            maxLength={5000}
+            className="resize-none"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSend();
+            }}
+          />
+          <Button
+            size="icon"
+            className="h-auto"
+            onClick={handleSend}
+            disabled={!draft.trim() || send.isPending}
+            aria-label={t('send')}
+          >
+            {send.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Loader2, Send, Bell, ExternalLink, Copy, Check, Key, RefreshCw } from 'lucide-react';
+import { Loader2, Send, Bell, ExternalLink, Copy, Check, Key, RefreshCw, ScanText } from 'lucide-react';
 
 const BOT_USERNAME = '@AiLegalArmenia';
 const VERIFICATION_CODE_EXPIRY_MINUTES = 10;
@@ -37,6 +37,7 @@ export const TelegramSettings = ({ onClose }: TelegramSettingsProps) => {
 
   const [chatId, setChatId] = useState('');
   const [notificationsEnabled, setNotificationsEnabled] = useState(true);
+  const [autoOcrEnabled, setAutoOcrEnabled] = useState(true);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
@@ -58,8 +59,9 @@ export const TelegramSettings = ({ onClose }: TelegramSettingsProps) => {
 
         if (data) {
           setChatId(data.telegram_chat_id || '');
-          const prefs = data.notification_preferences as any;
+          const prefs = data.notification_preferences as { telegram_enabled?: boolean; telegram_auto_ocr?: boolean } | null;
           setNotificationsEnabled(prefs?.telegram_enabled !== false);
+          setAutoOcrEnabled(prefs?.telegram_auto_ocr !== false);
         }
       } catch (error) {
         console.error('Error loading telegram settings:', error);
@@ -142,6 +144,7 @@ export const TelegramSettings = ({ onClose }: TelegramSettingsProps) => {
         .update({
           notification_preferences: {
             telegram_enabled: notificationsEnabled,
+            telegram_auto_ocr: autoOcrEnabled,
           },
         })
         .eq('id', user.id);
@@ -360,6 +363,24 @@ export const TelegramSettings = ({ onClose }: TelegramSettingsProps) => {
           <Switch checked={notificationsEnabled} onCheckedChange={setNotificationsEnabled} />
         </div>
 
+        {/* Auto-OCR for files attached to a case from Telegram */}
+        <div className="flex items-center justify-between">
+          <div className="space-y-0.5">
+            <Label className="flex items-center gap-2">
+              <ScanText className="h-4 w-4" />
+              {getText('\u0531\u057E\u057F\u0578\u0574\u0561\u057F OCR', '\u0410\u0432\u0442\u043E\u043C\u0430\u0442\u0438\u0447\u0435\u0441\u043A\u0438\u0439 OCR', 'Automatic OCR')}
+            </Label>
+            <p className="text-sm text-muted-foreground">
+              {getText(
+                '\u0543\u0561\u0576\u0561\u0579\u0565\u056C Telegram-\u056B\u0581 \u0563\u0578\u0580\u056E\u056B\u0576 \u056F\u0581\u057E\u0561\u056E \u0586\u0561\u0575\u056C\u0565\u0580\u056B \u057F\u0565\u0584\u057D\u057F\u0568',
+                '\u0420\u0430\u0441\u043F\u043E\u0437\u043D\u0430\u0432\u0430\u0442\u044C \u0442\u0435\u043A\u0441\u0442 \u0444\u0430\u0439\u043B\u043E\u0432, \u043F\u0440\u0438\u043A\u0440\u0435\u043F\u043B\u0451\u043D\u043D\u044B\u0445 \u043A \u0434\u0435\u043B\u0443 \u0438\u0437 Telegram',
+                'Recognize text in files attached to a case from Telegram'
+              )}
+            </p>
+          </div>
+          <Switch checked={autoOcrEnabled} onCheckedChange={setAutoOcrEnabled} />
+        </div>
+
         {/* Save Button */}
         <div className="flex justify-end gap-2">
           {onClose && (
@@ -0,0 +1,395 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { formatQuotaAmount } from '@/lib/functionsInvokeError';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Gauge, Plus, Pencil, Trash2, Loader2 } from 'lucide-react';
+
+/** Edge functions that go through the AI router and can carry their own quota */
+const QUOTA_FUNCTIONS = [
+  'ai-analyze',
+  'multi-agent-analyze',
+  'generate-document',
+  'generate-complaint',
+  'analyze-files-for-complaint',
+  'kb-search-assistant',
+  'transcript-contradictions',
+];
+
+const ALL_FUNCTIONS = '__all__';
+const TEAM_TARGET = '__team__';
+
+interface QuotaRow {
+  quota_id: string;
+  scope: string;
+  user_id: string | null;
+  function_name: string | null;
+  monthly_usd_limit: number | null;
+  monthly_token_limit: number | null;
+  alert_threshold: number;
+  usd_used: number;
+  tokens_used: number;
+}
+
+interface QuotaForm {
+  id: string | null;
+  target: string;
+  functionName: string;
+  usdLimit: string;
+  tokenLimit: string;
+  alertPercent: string;
+}
+
+const EMPTY_FORM: QuotaForm = {
+  id: null,
+  target: TEAM_TARGET,
+  functionName: ALL_FUNCTIONS,
+  usdLimit: '',
+  tokenLimit: '',
+  alertPercent: '80',
+};
+
+function usagePercent(q: QuotaRow): number {
+  const ratios: number[] = [];
+  if (q.monthly_usd_limit != null) ratios.push(q.monthly_usd_limit > 0 ? Number(q.usd_used) / q.monthly_usd_limit : 1);
+  if (q.monthly_token_limit != null) ratios.push(q.monthly_token_limit > 0 ? Number(q.tokens_used) / q.monthly_token_limit : 1);
+  return Math.min(100, Math.round(Math.max(0, ...ratios) * 100));
+}
+
+export function AIQuotaManager() {
+  const { t } = useTranslation(['usage', 'common']);
+  const { user, isAdmin } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [teamId, setTeamId] = useState<string>('');
+  const [form, setForm] = useState<QuotaForm | null>(null);
+
+  const { data: teams = [], isLoading: teamsLoading } = useQuery({
+    queryKey: ['quota-teams', user?.id, isAdmin],
+    queryFn: async () => {
+      let query = supabase.from('teams').select('id, name').order('name');
+      if (!isAdmin) query = query.eq('leader_id', user!.id);
+      const { data, error } = await query;
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user?.id,
+  });
+
+  useEffect(() => {
+    if (!teamId && teams.length > 0) setTeamId(teams[0].id);
+  }, [teams, teamId]);
+
+  const { data: members = [] } = useQuery({
+    queryKey: ['quota-team-members', teamId],
+    queryFn: async () => {
+      const { data: rows, error } = await supabase
+        .from('team_members')
+        .select('user_id')
+        .eq('team_id', teamId);
+      if (error) throw error;
+      const ids = (rows || []).map(r => r.user_id);
+      if (ids.length === 0) return [];
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, email, full_name')
+        .in('id', ids);
+      if (profilesError) throw profilesError;
+      return profiles || [];
+    },
+    enabled: !!teamId,
+  });
+
+  const { data: quotas = [], isLoading: quotasLoading } = useQuery({
+    queryKey: ['team-ai-quotas', teamId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_team_ai_quotas', { _team_id: teamId });
+      if (error) throw error;
+      return (data || []) as QuotaRow[];
+    },
+    enabled: !!teamId,
+  });
+
+  const saveQuota = useMutation({
+    mutationFn: async (f: QuotaForm) => {
+      const isTeam = f.target === TEAM_TARGET;
+      const row = {
+        scope: isTeam ? 'team' : 'user',
+        team_id: isTeam ? teamId : null,
+        user_id: isTeam ? null : f.target,
+        function_name: f.functionName === ALL_FUNCTIONS ? null : f.functionName,
+        monthly_usd_limit: f.usdLimit ? Number(f.usdLimit) : null,
+        monthly_token_limit: f.tokenLimit ? Math.round(Number(f.tokenLimit)) : null,
+        alert_threshold: Math.min(100, Math.max(1, Number(f.alertPercent) || 80)) / 100,
+      };
+      const { error } = f.id
+        ? await supabase.from('ai_quotas').update(row).eq('id', f.id)
+        : await supabase.from('ai_quotas').insert({ ...row, created_by: user?.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['team-ai-quotas', teamId] });
+      setForm(null);
+      toast({ title: t('usage:quota_saved') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteQuota = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('ai_quotas').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['team-ai-quotas', teamId] });
+      toast({ title: t('usage:quota_deleted') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const memberName = (id: string | null) => {
+    const m = members.find(p => p.id === id);
+    return m?.full_name || m?.email || id?.slice(0, 8) || '';
+  };
+
+  const openEdit = (q: QuotaRow) => setForm({
+    id: q.quota_id,
+    target: q.scope === 'team' ? TEAM_TARGET : (q.user_id ?? TEAM_TARGET),
+    functionName: q.function_name ?? ALL_FUNCTIONS,
+    usdLimit: q.monthly_usd_limit != null ? String(q.monthly_usd_limit) : '',
+    tokenLimit: q.monthly_token_limit != null ? String(q.monthly_token_limit) : '',
+    alertPercent: String(Math.round(Number(q.alert_threshold) * 100)),
+  });
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.usdLimit && !form.tokenLimit) {
+      toast({ title: t('usage:quota_limit_required'), variant: 'destructive' });
+      return;
+    }
+    saveQuota.mutate(form);
+  };
+
+  if (teamsLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          {t('usage:quotas_title')}
+        </CardTitle>
+        <CardDescription>{t('usage:quotas_description')}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {teams.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('usage:quota_no_teams')}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1 min-w-[200px]">
+                <Label>{t('usage:quota_team')}</Label>
+                <Select value={teamId} onValueChange={setTeamId}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {teams.map(team => (
+                      <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button size="sm" onClick={() => setForm(EMPTY_FORM)}>
+                <Plus className="mr-2 h-4 w-4" />
+                {t('usage:quota_add')}
+              </Button>
+            </div>
+
+            {quotasLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : quotas.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('usage:quota_none')}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('usage:quota_target')}</TableHead>
+                    <TableHead>{t('usage:quota_function')}</TableHead>
+                    <TableHead>{t('usage:quota_used')}</TableHead>
+                    <TableHead className="w-[90px]">{t('common:actions')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {quotas.map(q => {
+                    const percent = usagePercent(q);
+                    return (
+                      <TableRow key={q.quota_id}>
+                        <TableCell className="font-medium">
+                          {q.scope === 'team' ? t('usage:quota_target_team') : memberName(q.user_id)}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {q.function_name ?? t('usage:quota_all_functions')}
+                        </TableCell>
+                        <TableCell className="min-w-[180px] space-y-1">
+                          {q.monthly_usd_limit != null && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatQuotaAmount('usd', Number(q.usd_used))} / {formatQuotaAmount('usd', Number(q.monthly_usd_limit))}
+                            </div>
+                          )}
+                          {q.monthly_token_limit != null && (
+                            <div className="text-xs text-muted-foreground">
+                              {formatQuotaAmount('tokens', Number(q.tokens_used))} / {formatQuotaAmount('tokens', Number(q.monthly_token_limit))} {t('usage:tokens')}
+                            </div>
+                          )}
+                          <Progress
+                            value={percent}
+                            className={percent >= Number(q.alert_threshold) * 100 ? 'h-2 [&>div]:bg-destructive' : 'h-2'}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openEdit(q)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-destructive"
+                              onClick={() => deleteQuota.mutate(q.quota_id)}
+                              disabled={deleteQuota.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={!!form} onOpenChange={(open) => !open && setForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{form?.id ? t('usage:quota_edit') : t('usage:quota_add')}</DialogTitle>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-1">
+                <Label>{t('usage:quota_target')}</Label>
+                <Select value={form.target} onValueChange={(v) => setForm({ ...form, target: v })} disabled={!!form.id}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={TEAM_TARGET}>{t('usage:quota_target_team')}</SelectItem>
+                    {members.map(m => (
+                      <SelectItem key={m.id} value={m.id}>{m.full_name || m.email}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{t('usage:quota_function')}</Label>
+                <Select value={form.functionName} onValueChange={(v) => setForm({ ...form, functionName: v })} disabled={!!form.id}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_FUNCTIONS}>{t('usage:quota_all_functions')}</SelectItem>
+                    {QUOTA_FUNCTIONS.map(fn => (
+                      <SelectItem key={fn} value={fn}>{fn}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-1">
+                  <Label>{t('usage:quota_usd_limit')}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={form.usdLimit}
+                    onChange={(e) => setForm({ ...form, usdLimit: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t('usage:quota_token_limit')}</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    step="1000"
+                    value={form.tokenLimit}
+                    onChange={(e) => setForm({ ...form, tokenLimit: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>{t('usage:quota_alert_threshold')}</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={form.alertPercent}
+                    onChange={(e) => setForm({ ...form, alertPercent: e.target.value })}
+                  />
+                </div>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForm(null)}>{t('common:cancel')}</Button>
+            <Button onClick={handleSave} disabled={saveQuota.isPending}>
+              {saveQuota.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('common:save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
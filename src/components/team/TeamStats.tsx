@@ -49,6 +49,7 @@ interface TeamMemberStats {
   pendingCases: number;
   filesCount: number;
   commentsCount: number;
+  aiCost: number;
   lastActivity: string | null;
 }
 
@@ -61,6 +62,7 @@ interface TeamStats {
   closedCases: number;
   inProgressCases: number;
   pendingCases: number;
+  aiCost: number;
   memberStats: TeamMemberStats[];
 }
 
@@ -120,6 +122,7 @@ export function TeamStats() {
             closedCases: 0,
             inProgressCases: 0,
             pendingCases: 0,
+            aiCost: 0,
             memberStats: [],
           });
           continue;
@@ -164,6 +167,13 @@ export function TeamStats() {
           if (!commentsError) commentsData = comments || [];
         }
 
+        // AI spend this month, priced the same way as UsageMonitor
+        const { data: aiUsage, error: aiUsageError } = await supabase
+          .rpc('get_team_ai_usage', { _team_id: team.id });
+        const aiCostByUser = new Map<string, number>(
+          aiUsageError ? [] : (aiUsage || []).map(u => [u.user_id, Number(u.total_cost)])
+        );
+
         // Calculate stats per member
         const memberStats: TeamMemberStats[] = (profiles || []).map(profile => {
           const memberCases = (cases || []).filter(c => c.lawyer_id === profile.id);
@@ -185,6 +195,7 @@ export function TeamStats() {
             pendingCases: memberCases.filter(c => c.status === 'pending').length,
             filesCount: memberFiles.length,
             commentsCount: memberComments.length,
+            aiCost: aiCostByUser.get(profile.id) || 0,
             lastActivity: lastCase?.updated_at || null,
           };
         });
@@ -200,6 +211,7 @@ export function TeamStats() {
           closedCases: teamCases.filter(c => c.status === 'closed').length,
           inProgressCases: teamCases.filter(c => c.status === 'in_progress').length,
           pendingCases: teamCases.filter(c => c.status === 'pending').length,
+          aiCost: [...aiCostByUser.values()].reduce((sum, cost) => sum + cost, 0),
           memberStats: memberStats.sort((a, b) => b.totalCases - a.totalCases),
         });
       }
@@ -239,6 +251,7 @@ export function TeamStats() {
             <Users2 className="h-6 w-6 text-primary" />
             <h2 className="text-xl font-bold">{team.teamName}</h2>
             <Badge variant="secondary">{team.totalMembers} իրավաբաններ</Badge>
+            <Badge variant="outline">AI ծախս (ամիս)՝ ${team.aiCost.toFixed(2)}</Badge>
           </div>
 
           {/* Summary Cards */}
@@ -399,6 +412,7 @@ export function TeamStats() {
                         <TableHead className="text-center">
                           <MessageSquare className="h-4 w-4 mx-auto" />
                         </TableHead>
+                        <TableHead className="text-center">AI ծախս (ամիս)</TableHead>
                         <TableHead>Վերջին ակտիվություն</TableHead>
                       </TableRow>
                     </TableHeader>
@@ -435,6 +449,9 @@ export function TeamStats() {
                           <TableCell className="text-center text-muted-foreground">
                             {member.commentsCount}
                           </TableCell>
+                          <TableCell className="text-center font-mono text-sm">
+                            ${member.aiCost.toFixed(2)}
+                          </TableCell>
                           <TableCell className="text-sm text-muted-foreground">
                             {member.lastActivity 
                               ? format(new Date(member.lastActivity), 'dd MMM yyyy', { locale: ru })
@@ -1,7 +1,9 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
+import { formatQuotaExceeded, getQuotaExceededInfo } from "@/lib/functionsInvokeError";
+import { EdgeStreamError, isAbortError, streamEdgeFunction } from "@/lib/edge-stream";
 
 export type AIRole = "advocate" | "prosecutor" | "judge" | "aggregator" | "precedent_citation" | "deadline_rules" | "legal_position_comparator" | "hallucination_audit" | "draft_deterministic" | "strategy_builder" | "evidence_weakness" | "risk_factors" | "law_update_summary" | "cross_exam";
 
@@ -20,6 +22,18 @@ interface AnalysisResult {
   risk_factors_data?: unknown;
   law_update_data?: unknown;
   cross_exam_data?: unknown;
+  citation_verification?: unknown;
+  /** ai_analysis row saved by the edge function (requests with a caseId) */
+  analysis_id?: string | null;
+}
+
+/** ai-analyze response body (the final event of a streamed response) */
+type AnalyzeResponse = Omit<AnalysisResult, "model"> & { model_used?: string; model?: string; error?: string };
+
+/** Text streamed so far for the running analysis */
+interface LiveAnalysis {
+  role: AIRole;
+  text: string;
 }
 
 interface UseAIAnalysisReturn {
@@ -27,6 +41,9 @@ interface UseAIAnalysisReturn {
   currentRole: AIRole | null;
   results: Record<AIRole, AnalysisResult | null>;
   creditsExhausted: boolean;
+  liveText: LiveAnalysis | null;
+  /** Stops the running analysis; the upstream model call is aborted */
+  cancelAnalysis: () => void;
   analyzeCase: (role: AIRole, caseId?: string, caseFacts?: string, legalQuestion?: string, referencesText?: string) => Promise<AnalysisResult | null>;
   runAllRoles: (caseId?: string, caseFacts?: string, legalQuestion?: string) => Promise<void>;
   clearResults: () => void;
@@ -38,6 +55,8 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [currentRole, setCurrentRole] = useState<AIRole | null>(null);
   const [creditsExhausted, setCreditsExhausted] = useState(false);
+  const [liveText, setLiveText] = useState<LiveAnalysis | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const [results, setResults] = useState<Record<AIRole, AnalysisResult | null>>({
     advocate: null,
     prosecutor: null,
@@ -65,6 +84,9 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
     setIsLoading(true);
     setCurrentRole(role);
     setCreditsExhausted(false);
+    setLiveText(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     
     try {
       const body: Record<string, string | undefined> = {
@@ -88,23 +110,12 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
         body.judgeResponse = results.judge?.analysis || "";
       }
 
-      const { data, error } = await supabase.functions.invoke("ai-analyze", {
-        body,
+      // Free-text roles stream; structured roles answer with plain JSON
+      const data = await streamEdgeFunction<AnalyzeResponse>("ai-analyze", body, {
+        signal: controller.signal,
+        onDelta: (_delta, text) => setLiveText({ role, text }),
       });
 
-      if (error) {
-        console.error("AI analysis error:", error);
-        // Check for 402 Payment Required error
-        const errorMsg = error.message || "";
-        if (errorMsg.includes("402") || errorMsg.includes("Payment required") || errorMsg.includes("credits")) {
-          setCreditsExhausted(true);
-          toast.error(t("cases:ai_credits_exhausted"));
-          return null;
-        }
-        toast.error(t("ai:analysis_failed"));
-        return null;
-      }
-
       if (data.error) {
         // Check for 402 in response data
         if (data.error.includes("402") || data.error.includes("credits") || data.error.includes("exhausted")) {
@@ -131,6 +142,8 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
         risk_factors_data: data.risk_factors_data || null,
         law_update_data: data.law_update_data || null,
         cross_exam_data: data.cross_exam_data || null,
+        citation_verification: data.citation_verification || null,
+        analysis_id: data.analysis_id ?? null,
       };
 
       setResults(prev => ({
@@ -142,9 +155,18 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
       return result;
       
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info(t("ai:analysis_cancelled"));
+        return null;
+      }
       console.error("AI analysis error:", error);
+      const quota = await getQuotaExceededInfo(error);
+      if (quota) {
+        toast.error(formatQuotaExceeded(quota, t));
+        return null;
+      }
       const errorMsg = error instanceof Error ? error.message : "";
-      if (errorMsg.includes("402") || errorMsg.includes("Payment required") || errorMsg.includes("credits")) {
+      if ((error instanceof EdgeStreamError && error.status === 402) || errorMsg.includes("402") || errorMsg.includes("Payment required") || errorMsg.includes("credits")) {
         setCreditsExhausted(true);
         toast.error(t("cases:ai_credits_exhausted"));
         return null;
@@ -152,11 +174,17 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
       toast.error(t("ai:analysis_failed"));
       return null;
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setLiveText(null);
       setIsLoading(false);
       setCurrentRole(null);
     }
   }, [results, t]);
 
+  const cancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
   const runAllRoles = useCallback(async (
     caseId?: string,
     caseFacts?: string,
@@ -251,6 +279,8 @@ export function useAIAnalysis(): UseAIAnalysisReturn {
     currentRole,
     results,
     creditsExhausted,
+    liveText,
+    cancelAnalysis,
     analyzeCase,
     runAllRoles,
     clearResults,
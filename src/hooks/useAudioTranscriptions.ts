@@ -1,8 +1,10 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
 import type { Database } from '@/integrations/supabase/types';
+import { formatQuotaExceeded, getQuotaExceededInfo } from '@/lib/functionsInvokeError';
 
 type AudioTranscription = Database['public']['Tables']['audio_transcriptions']['Row'];
 type CaseFile = Database['public']['Tables']['case_files']['Row'];
@@ -33,7 +35,8 @@ const SUPPORTED_AUDIO_FORMATS = [
  
  const ALL_SUPPORTED_FORMATS = [...SUPPORTED_AUDIO_FORMATS, ...SUPPORTED_VIDEO_FORMATS];
 
-const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB
+// Long MP3 / WAV recordings are split into parts server-side
+const MAX_FILE_SIZE = 1024 * 1024 * 1024; // 1GB
 
 export function useAudioTranscriptions(caseId: string | undefined) {
   const { toast } = useToast();
@@ -65,6 +68,24 @@ export function useAudioTranscriptions(caseId: string | undefined) {
     enabled: !!caseId,
   });
 
+  // Long recordings are transcribed part by part in the background
+  const hasPending = (transcriptions || []).some(tr => tr.status === 'processing' || tr.status === 'stitching');
+  useEffect(() => {
+    if (!caseId || !hasPending) return;
+    const channel = supabase
+      .channel(`audio-transcriptions-${caseId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'audio_transcriptions' },
+        () => queryClient.invalidateQueries({ queryKey: ['audio-transcriptions', caseId] }),
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [caseId, hasPending, queryClient]);
+
   // Upload and transcribe audio
   const uploadAndTranscribe = useMutation({
     mutationFn: async ({ file, caseId }: { file: File; caseId: string }) => {
@@ -154,6 +175,14 @@ export function useAudioTranscriptions(caseId: string | undefined) {
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['audio-transcriptions', caseId] });
       queryClient.invalidateQueries({ queryKey: ['case-files', caseId] });
+
+      if (data.transcription.queued) {
+        toast({
+          title: t('audio:queued_title'),
+          description: t('audio:queued_description', { count: data.transcription.chunks_total }),
+        });
+        return;
+      }
       
       const confidence = data.transcription.confidence_score || 0;
       const confidencePercent = Math.round(confidence * 100);
@@ -164,10 +193,11 @@ export function useAudioTranscriptions(caseId: string | undefined) {
         variant: confidence >= 0.5 ? 'default' : 'destructive',
       });
     },
-    onError: (error) => {
+    onError: async (error) => {
+      const quota = await getQuotaExceededInfo(error);
       toast({
         title: t('audio:processing_failed'),
-        description: error.message,
+        description: quota ? formatQuotaExceeded(quota, t) : error.message,
         variant: 'destructive',
       });
     },
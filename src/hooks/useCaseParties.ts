@@ -0,0 +1,175 @@
+import { useCallback } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import {
+  pendingProposals,
+  sortParties,
+  type CaseParty,
+  type CasePartyKind,
+  type CasePartyRole,
+} from '@/lib/case-parties';
+
+export interface CasePartyInput {
+  kind: CasePartyKind;
+  name: string;
+  role: CasePartyRole;
+  is_client: boolean;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+  representative_name?: string | null;
+  representative_basis?: string | null;
+  notes?: string | null;
+  source?: 'manual' | 'extracted';
+}
+
+/** Passport / tax id: undefined keeps the stored value, '' removes it */
+export interface CasePartyPiiInput {
+  passport?: string;
+  tax_id?: string;
+}
+
+export interface SaveCasePartyInput extends CasePartyInput {
+  id?: string;
+  pii?: CasePartyPiiInput;
+}
+
+export function useCaseParties(caseId: string | undefined) {
+  const { user } = useAuth();
+  const { t } = useTranslation('cases');
+  const queryClient = useQueryClient();
+
+  const { data: parties = [], isLoading } = useQuery({
+    queryKey: ['case-parties', caseId],
+    queryFn: async () => {
+      if (!caseId) return [];
+      const { data, error } = await supabase
+        .from('case_parties')
+        .select('*')
+        .eq('case_id', caseId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return sortParties(data as CaseParty[]);
+    },
+    enabled: !!caseId && !!user,
+  });
+
+  // Names found by extraction that nobody has confirmed or dismissed yet
+  const { data: extracted = [] } = useQuery({
+    queryKey: ['case-party-proposals', caseId],
+    queryFn: async () => {
+      if (!caseId) return [];
+      const { data, error } = await supabase
+        .from('case_party_names')
+        .select('id, name, role')
+        .eq('case_id', caseId)
+        .eq('source', 'extracted')
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      return data;
+    },
+    enabled: !!caseId && !!user,
+  });
+
+  const proposals = pendingProposals(extracted, parties);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['case-parties', caseId] });
+    queryClient.invalidateQueries({ queryKey: ['case-party-proposals', caseId] });
+  };
+
+  const saveParty = useMutation({
+    mutationFn: async ({ id, pii, ...input }: SaveCasePartyInput) => {
+      if (!user || !caseId) throw new Error('User not authenticated');
+
+      const { data, error } = id
+        ? await supabase
+            .from('case_parties')
+            .update(input)
+            .eq('id', id)
+            .select()
+            .single()
+        : await supabase
+            .from('case_parties')
+            .insert({ ...input, case_id: caseId, created_by: user.id })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      if (pii && (pii.passport !== undefined || pii.tax_id !== undefined)) {
+        const { error: piiError } = await supabase.rpc('set_case_party_pii', {
+          p_party_id: data.id,
+          p_passport: pii.passport,
+          p_tax_id: pii.tax_id,
+        });
+        if (piiError) throw piiError;
+      }
+
+      return data as CaseParty;
+    },
+    onSuccess: (_data, input) => {
+      invalidate();
+      toast.success(t(input.id ? 'party_updated' : 'party_created'));
+    },
+    onError: (error) => {
+      console.error('Error saving case party:', error);
+      toast.error(t('party_save_error'));
+    },
+  });
+
+  const deleteParty = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('case_parties').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast.success(t('party_deleted'));
+    },
+    onError: (error) => {
+      console.error('Error deleting case party:', error);
+      toast.error(t('party_delete_error'));
+    },
+  });
+
+  const dismissProposal = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('case_party_names').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['case-party-proposals', caseId] });
+    },
+    onError: (error) => {
+      console.error('Error dismissing party proposal:', error);
+      toast.error(t('party_save_error'));
+    },
+  });
+
+  /** Decrypted passport / tax id; every call is written to the audit log */
+  const revealPii = useCallback(async (partyId: string) => {
+    const { data, error } = await supabase.rpc('get_case_party_pii', { p_party_id: partyId });
+    if (error) {
+      console.error('Error reading party identifiers:', error);
+      toast.error(t('party_pii_error'));
+      return null;
+    }
+    return data?.[0] ?? { passport: null, tax_id: null };
+  }, [t]);
+
+  return {
+    parties,
+    proposals,
+    isLoading,
+    saveParty,
+    deleteParty,
+    dismissProposal,
+    revealPii,
+  };
+}
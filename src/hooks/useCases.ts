@@ -3,7 +3,9 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useTranslation } from 'react-i18next';
-import type { Database } from '@/integrations/supabase/types';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { extractPartyNames } from '@/lib/conflict-check';
+import { logConflictCheck, type PendingConflictCheck } from '@/hooks/useConflictCheck';
 
 type Case = Database['public']['Tables']['cases']['Row'];
 type CaseInsert = Database['public']['Tables']['cases']['Insert'];
@@ -11,6 +13,9 @@ type CaseUpdate = Database['public']['Tables']['cases']['Update'];
 type CaseStatus = Database['public']['Enums']['case_status'];
 type CasePriority = Database['public']['Enums']['case_priority'];
 
+/** New case with the conflict check run before saving it, logged against the created case */
+export type CaseCreateInput = CaseInsert & { conflictCheck?: PendingConflictCheck };
+
 export interface CaseFilters {
   status?: CaseStatus | 'all';
   priority?: CasePriority | 'all';
@@ -18,6 +23,18 @@ export interface CaseFilters {
   sortBy?: 'newest' | 'oldest' | 'priority';
 }
 
+// Keeps the conflict-check index in step with the names in title and description;
+// extracted parties are maintained by extract-case-fields
+async function indexCaseTextParties(saved: Case) {
+  const parties = extractPartyNames(`${saved.title}\n${saved.description || ''}`);
+  const { error } = await supabase.rpc('set_case_party_names', {
+    p_case_id: saved.id,
+    p_source: 'text',
+    p_parties: parties as unknown as Json,
+  });
+  if (error) console.warn('[cases] party index not updated:', error.message);
+}
+
 // Escape special LIKE characters to prevent search manipulation
 function escapeLikePattern(input: string): string {
   return input.replace(/[%_\\]/g, '\\$&');
@@ -72,13 +89,17 @@ export function useCases(filters: CaseFilters = {}) {
   });
 
   const createCase = useMutation({
-    mutationFn: async (newCase: CaseInsert) => {
+    mutationFn: async ({ conflictCheck, ...newCase }: CaseCreateInput) => {
       const { data, error } = await supabase
         .from('cases')
         .insert(newCase)
         .select()
         .single();
       if (error) throw error;
+      await indexCaseTextParties(data);
+      if (conflictCheck) {
+        await logConflictCheck({ ...conflictCheck, caseId: data.id, caseNumber: data.case_number });
+      }
       return data;
     },
     onSuccess: () => {
@@ -106,6 +127,7 @@ export function useCases(filters: CaseFilters = {}) {
         .select()
         .single();
       if (error) throw error;
+      if ('title' in updates || 'description' in updates) await indexCaseTextParties(data);
       return data;
     },
     onSuccess: () => {
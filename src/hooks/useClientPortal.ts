@@ -0,0 +1,376 @@
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from 'react-i18next';
+import type { Database } from '@/integrations/supabase/types';
+
+export type PortalCase = Database['public']['Functions']['get_client_portal_cases']['Returns'][number];
+export type ClientUpload = Database['public']['Tables']['client_uploads']['Row'];
+export type CaseClientMessage = Database['public']['Tables']['case_client_messages']['Row'];
+
+export interface SharedCaseFile {
+  id: string;
+  original_filename: string;
+  file_type: string | null;
+  file_size: number | null;
+  storage_path: string;
+  shared_at: string | null;
+}
+
+const QUARANTINE_BUCKET = 'client-uploads';
+const CASE_FILES_BUCKET = 'case-files';
+
+function fileExtension(filename: string): string {
+  const ext = filename.includes('.') ? filename.split('.').pop() : '';
+  return ext ? `.${ext.toLowerCase()}` : '';
+}
+
+async function openSignedUrl(bucket: string, path: string) {
+  const { data, error } = await supabase.storage.from(bucket).createSignedUrl(path, 300);
+  if (error) throw error;
+  window.open(data.signedUrl, '_blank', 'noopener');
+}
+
+// =============================================================================
+// Client side
+// =============================================================================
+
+/** Cases the current user follows as a portal client (safe columns only) */
+export function usePortalCases() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ['portal-cases', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_client_portal_cases');
+      if (error) throw error;
+      return (data || []) as PortalCase[];
+    },
+    enabled: !!user,
+  });
+}
+
+/** Files the lawyer shared with the client; RLS hides everything else */
+export function useSharedCaseFiles(caseId: string | undefined) {
+  const { toast } = useToast();
+  const { t } = useTranslation(['portal', 'common']);
+
+  const query = useQuery({
+    queryKey: ['portal-shared-files', caseId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('case_files')
+        .select('id, original_filename, file_type, file_size, storage_path, shared_at')
+        .eq('case_id', caseId!)
+        .eq('shared_with_client', true)
+        .is('deleted_at', null)
+        .order('shared_at', { ascending: false });
+      if (error) throw error;
+      return (data || []) as SharedCaseFile[];
+    },
+    enabled: !!caseId,
+  });
+
+  const openFile = async (file: SharedCaseFile) => {
+    try {
+      await openSignedUrl(CASE_FILES_BUCKET, file.storage_path);
+    } catch (error) {
+      toast({
+        title: t('common:error'),
+        description: error instanceof Error ? error.message : t('portal:download_failed'),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return { ...query, openFile };
+}
+
+// =============================================================================
+// Quarantined uploads (client uploads, lawyer reviews)
+// =============================================================================
+
+export function useClientUploads(caseId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation(['portal', 'common']);
+  const queryClient = useQueryClient();
+
+  const { data: uploads = [], isLoading } = useQuery({
+    queryKey: ['client-uploads', caseId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('client_uploads')
+        .select('*')
+        .eq('case_id', caseId!)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data as ClientUpload[];
+    },
+    enabled: !!caseId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['client-uploads', caseId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+  };
+
+  // The row is registered first: storage only accepts paths with a pending row
+  const upload = useMutation({
+    mutationFn: async ({ file, note }: { file: File; note?: string }) => {
+      if (!user || !caseId) throw new Error('Not authenticated');
+
+      const storagePath = `${caseId}/${user.id}/${crypto.randomUUID()}${fileExtension(file.name)}`;
+      const { data: row, error: insertError } = await supabase
+        .from('client_uploads')
+        .insert({
+          case_id: caseId,
+          client_id: user.id,
+          storage_path: storagePath,
+          original_filename: file.name,
+          file_type: file.type || null,
+          file_size: file.size,
+          note: note?.trim() || null,
+        })
+        .select('id')
+        .single();
+      if (insertError) throw insertError;
+
+      const { error: uploadError } = await supabase.storage
+        .from(QUARANTINE_BUCKET)
+        .upload(storagePath, file, { contentType: file.type || undefined });
+      if (uploadError) {
+        await supabase.from('client_uploads').delete().eq('id', row.id);
+        throw uploadError;
+      }
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t('portal:upload_sent') });
+    },
+    onError,
+  });
+
+  // Copies the file into case-files and registers it as a regular case file
+  const accept = useMutation({
+    mutationFn: async ({ item, reviewNote }: { item: ClientUpload; reviewNote?: string }) => {
+      if (!user || !caseId) throw new Error('Not authenticated');
+
+      const { data: blob, error: downloadError } = await supabase.storage
+        .from(QUARANTINE_BUCKET)
+        .download(item.storage_path);
+      if (downloadError) throw downloadError;
+
+      const fileId = crypto.randomUUID();
+      const filename = `${fileId}${fileExtension(item.original_filename)}`;
+      const storagePath = `${caseId}/${filename}`;
+      const { error: uploadError } = await supabase.storage
+        .from(CASE_FILES_BUCKET)
+        .upload(storagePath, blob, { contentType: item.file_type || undefined });
+      if (uploadError) throw uploadError;
+
+      const { data: caseFile, error: fileError } = await supabase
+        .from('case_files')
+        .insert({
+          case_id: caseId,
+          filename,
+          original_filename: item.original_filename,
+          storage_path: storagePath,
+          file_type: item.file_type || 'application/octet-stream',
+          file_size: item.file_size,
+          version: 1,
+          uploaded_by: user.id,
+          notes: item.note,
+        })
+        .select('id')
+        .single();
+      if (fileError) throw fileError;
+
+      const { error: reviewError } = await supabase
+        .from('client_uploads')
+        .update({
+          status: 'accepted',
+          reviewed_by: user.id,
+          reviewed_at: new Date().toISOString(),
+          review_note: reviewNote?.trim() || null,
+          case_file_id: caseFile.id,
+        })
+        .eq('id', item.id);
+      if (reviewError) throw reviewError;
+
+      await supabase.storage.from(QUARANTINE_BUCKET).remove([item.storage_path]);
+    },
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['case-files', caseId] });
+      toast({ title: t('portal:upload_accepted') });
+    },
+    onError,
+  });
+
+  const reject = useMutation({
+    mutationFn: async ({ item, reviewNote }: { item: ClientUpload; reviewNote?: string }) => {
+      if (!user) throw new Error('Not authenticated');
+
+      const { error } = await supabase
+        .from('client_uploads')
+        .update({
+          status: 'rejected',
+          reviewed_by: user.id,
+          reviewed_at: new Date().toISOString(),
+          review_note: reviewNote?.trim() || null,
+        })
+        .eq('id', item.id);
+      if (error) throw error;
+
+      await supabase.storage.from(QUARANTINE_BUCKET).remove([item.storage_path]);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t('portal:upload_rejected') });
+    },
+    onError,
+  });
+
+  const preview = async (item: ClientUpload) => {
+    try {
+      await openSignedUrl(QUARANTINE_BUCKET, item.storage_path);
+    } catch (error) {
+      onError(error instanceof Error ? error : new Error(t('portal:download_failed')));
+    }
+  };
+
+  return { uploads, isLoading, upload, accept, reject, preview };
+}
+
+// =============================================================================
+// Lawyer side: client assignment and sharing
+// =============================================================================
+
+export function useCaseClientAccess(caseId: string) {
+  const { toast } = useToast();
+  const { t } = useTranslation(['portal', 'common']);
+  const queryClient = useQueryClient();
+
+  const onError = (error: Error) => {
+    toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+  };
+
+  const setClient = useMutation({
+    mutationFn: async (username: string) => {
+      const { error } = await supabase.rpc('set_case_client', { _case_id: caseId, _username: username });
+      if (error) throw error;
+    },
+    onSuccess: (_data, username) => {
+      queryClient.invalidateQueries({ queryKey: ['case', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['cases'] });
+      toast({ title: username.trim() ? t('portal:client_assigned') : t('portal:client_removed') });
+    },
+    onError,
+  });
+
+  const setShared = useMutation({
+    mutationFn: async ({ fileId, shared }: { fileId: string; shared: boolean }) => {
+      const { error } = await supabase
+        .from('case_files')
+        .update({
+          shared_with_client: shared,
+          shared_at: shared ? new Date().toISOString() : null,
+        })
+        .eq('id', fileId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['case-files', caseId] });
+    },
+    onError,
+  });
+
+  return { setClient, setShared };
+}
+
+// =============================================================================
+// Client <-> lawyer messages (not the internal case_comments)
+// =============================================================================
+
+export function useCaseMessages(caseId: string | undefined) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { t } = useTranslation(['portal', 'common']);
+  const queryClient = useQueryClient();
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ['case-client-messages', caseId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('case_client_messages')
+        .select('*')
+        .eq('case_id', caseId!)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data as CaseClientMessage[];
+    },
+    enabled: !!caseId,
+  });
+
+  const unreadCount = messages.filter(m => m.sender_id !== user?.id && !m.read_at).length;
+
+  useEffect(() => {
+    if (!caseId) return;
+
+    const channel = supabase
+      .channel(`case-client-messages-${caseId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'case_client_messages',
+          filter: `case_id=eq.${caseId}`,
+        },
+        () => {
+          queryClient.invalidateQueries({ queryKey: ['case-client-messages', caseId] });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [caseId, queryClient]);
+
+  const send = useMutation({
+    mutationFn: async (body: string) => {
+      if (!user || !caseId) throw new Error('Not authenticated');
+      const { error } = await supabase
+        .from('case_client_messages')
+        .insert({ case_id: caseId, sender_id: user.id, body: body.trim() });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['case-client-messages', caseId] });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('common:error'), description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const markRead = useMutation({
+    mutationFn: async () => {
+      if (!caseId) return;
+      const { error } = await supabase.rpc('mark_case_messages_read', { _case_id: caseId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['case-client-messages', caseId] });
+      queryClient.invalidateQueries({ queryKey: ['portal-cases'] });
+    },
+  });
+
+  return { messages, isLoading, unreadCount, send, markRead };
+}
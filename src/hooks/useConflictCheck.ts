@@ -0,0 +1,77 @@
+import { useCallback, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { ConflictMatch, PartyCandidate } from '@/lib/conflict-check';
+
+/** `error` records a save that went ahead because the check could not run */
+export type ConflictCheckOutcome = 'clear' | 'acknowledged' | 'overridden' | 'cancelled' | 'error';
+
+interface CheckParams {
+  parties: PartyCandidate[];
+  /** Represented side; falls back to the stored one of `caseId` */
+  partyRole?: string | null;
+  /** Case being edited, excluded from the matches */
+  caseId?: string | null;
+}
+
+export interface ConflictCheckLog {
+  caseId?: string | null;
+  caseNumber?: string | null;
+  parties: PartyCandidate[];
+  matches: ConflictMatch[];
+  outcome: ConflictCheckOutcome;
+  overrideReason?: string;
+}
+
+/** Check of a case not created yet, logged once the insert returns its id */
+export type PendingConflictCheck = Omit<ConflictCheckLog, 'caseId' | 'caseNumber'>;
+
+/** Writes the check, its outcome and any override reason to the audit log */
+export async function logConflictCheck({ caseId, caseNumber, parties, matches, outcome, overrideReason }: ConflictCheckLog) {
+  const { error } = await supabase.rpc('log_audit', {
+    _action: 'conflict_check',
+    _table_name: 'cases',
+    _record_id: caseId || undefined,
+    _details: {
+      case_number: caseNumber ?? null,
+      outcome,
+      override_reason: overrideReason ?? null,
+      parties: parties.map(p => p.name),
+      matches: matches.map(m => ({
+        party: m.party_name,
+        case_id: m.case_id,
+        case_number: m.case_number,
+        relation: m.relation,
+        source: m.match_source,
+        score: m.score,
+      })),
+    } as unknown as Json,
+  });
+  if (error) console.warn('[conflict-check] audit log failed:', error.message);
+}
+
+export function useConflictCheck() {
+  const [isChecking, setIsChecking] = useState(false);
+
+  /** Matches for the parties, or null when the check could not run */
+  const checkConflicts = useCallback(async ({ parties, partyRole, caseId }: CheckParams) => {
+    if (parties.length === 0) return [] as ConflictMatch[];
+    setIsChecking(true);
+    try {
+      const { data, error } = await supabase.rpc('check_case_conflicts', {
+        p_parties: parties as unknown as Json,
+        p_party_role: partyRole || undefined,
+        p_case_id: caseId || undefined,
+      });
+      if (error) {
+        console.warn('[conflict-check] check failed:', error.message);
+        return null;
+      }
+      return (data || []) as ConflictMatch[];
+    } finally {
+      setIsChecking(false);
+    }
+  }, []);
+
+  return { checkConflicts, logConflictCheck, isChecking };
+}
@@ -1,7 +1,8 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useMemo } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useTranslation } from "react-i18next";
+import { formatQuotaExceeded, getQuotaExceededInfo } from "@/lib/functionsInvokeError";
 import type { Json } from "@/integrations/supabase/types";
 import type { 
   AgentType, 
@@ -23,6 +24,17 @@ function castToAgentRuns(data: unknown[]): AgentAnalysisRun[] {
   }));
 }
 
+// Prefix of error_message on runs cancelled because an earlier agent failed
+// (fail_agent_analysis_job); only the failing agent itself is reported
+const DEPENDENCY_FAILED_PREFIX = "Dependency failed";
+
+function upsertRun(runs: AgentAnalysisRun[], run: AgentAnalysisRun): AgentAnalysisRun[] {
+  const next = runs.some(r => r.id === run.id)
+    ? runs.map(r => r.id === run.id ? run : r)
+    : [run, ...runs];
+  return next.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
 function castToEvidenceItems(data: unknown[]): EvidenceItem[] {
   return data as EvidenceItem[];
 }
@@ -35,6 +47,8 @@ interface UseMultiAgentAnalysisReturn {
   isLoading: boolean;
   currentAgent: AgentType | null;
   runs: AgentAnalysisRun[];
+  /** A server-side batch of this case is queued or running */
+  isBatchActive: boolean;
   evidenceRegistry: EvidenceItem[];
   volumes: CaseVolume[];
   aggregatedReport: AggregatedReport | null;
@@ -49,6 +63,8 @@ interface UseMultiAgentAnalysisReturn {
   runAgent: (caseId: string, agentType: AgentType, referencesText?: string) => Promise<AgentAnalysisRun | null>;
   runAllAgents: (caseId: string, referencesText?: string) => Promise<void>;
   loadRuns: (caseId: string) => Promise<void>;
+  /** Realtime run updates for a case; returns the unsubscribe function */
+  watchRuns: (caseId: string) => () => void;
   
   // Evidence registry
   loadEvidenceRegistry: (caseId: string) => Promise<void>;
@@ -250,6 +266,7 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
           legal_basis: f.legal_basis || [],
           evidence_refs: f.evidence_refs || [],
           page_references: f.page_references || [],
+          page_anchors: (f.page_anchors || []) as unknown as Json,
           recommendation: f.recommendation || null
         }));
         
@@ -265,6 +282,7 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
           title: e.title,
           description: e.description,
           page_reference: e.page_reference,
+          page_anchors: (e.page_anchors || []) as unknown as Json,
           source_document: e.source_document,
           admissibility_status: "pending_review",
           ai_analysis: e.ai_analysis
@@ -275,12 +293,17 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
       
       setRuns(prev => [updatedRun as AgentAnalysisRun, ...prev.filter(r => r.id !== run.id)]);
       toast.success(t("ai:analysis_complete"));
+      const rejectedCount = data.page_anchor_check?.rejected?.length ?? 0;
+      if (rejectedCount > 0) {
+        toast.warning(t("ai:page_anchors_rejected", { count: rejectedCount }));
+      }
       
       return updatedRun as AgentAnalysisRun;
       
     } catch (error) {
       console.error("Agent run error:", error);
-      toast.error(t("ai:analysis_failed"));
+      const quota = await getQuotaExceededInfo(error);
+      toast.error(quota ? formatQuotaExceeded(quota, t) : t("ai:analysis_failed"));
       return null;
     } finally {
       setIsLoading(false);
@@ -288,36 +311,31 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
     }
   }, [t]);
 
-  // Run all agents sequentially
+  // Queue all agents as a server-side batch (multi-agent-worker runs it);
+  // progress arrives through watchRuns
   const runAllAgents = useCallback(async (caseId: string, referencesText?: string) => {
-    const agentOrder: AgentType[] = [
-      "evidence_collector",
-      "evidence_admissibility",
-      "charge_qualification",
-      "procedural_violations",
-      "substantive_violations",
-      "defense_strategy",
-      "prosecution_weaknesses",
-      "rights_violations",
-      "aggregator"
-    ];
-    
     setIsLoading(true);
     
     try {
-      for (const agentType of agentOrder) {
-        const result = await runAgent(caseId, agentType, referencesText);
-        if (!result) {
-          toast.error(`${t("ai:analysis_failed")}: ${agentType}`);
-          break;
-        }
+      const { error } = await supabase.rpc("enqueue_agent_analysis", {
+        p_case_id: caseId,
+        p_references_text: referencesText?.trim() || undefined
+      });
+      
+      if (error) {
+        console.error("Enqueue error:", error);
+        toast.error(error.message.includes("already in progress")
+          ? t("ai:analysis_already_running")
+          : t("ai:analysis_failed"));
+        return;
       }
       
-      toast.success(t("ai:all_agents_complete"));
+      toast.success(t("ai:agents_queued"));
+      await loadRuns(caseId);
     } finally {
       setIsLoading(false);
     }
-  }, [runAgent, t]);
+  }, [loadRuns, t]);
 
   // Load evidence registry
   const loadEvidenceRegistry = useCallback(async (caseId: string) => {
@@ -335,6 +353,44 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
     setEvidenceRegistry(castToEvidenceItems(data || []));
   }, []);
 
+  // Subscribe to run changes of a case (queued batches, other devices)
+  const watchRuns = useCallback((caseId: string) => {
+    const channel = supabase
+      .channel(`agent-runs-${caseId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "*",
+          schema: "public",
+          table: "agent_analysis_runs",
+          filter: `case_id=eq.${caseId}`,
+        },
+        (payload) => {
+          if (payload.eventType === "DELETE") {
+            const removedId = (payload.old as { id?: string }).id;
+            setRuns(prev => prev.filter(r => r.id !== removedId));
+            return;
+          }
+          const [run] = castToAgentRuns([payload.new]);
+          setRuns(prev => upsertRun(prev, run));
+          
+          if (!run.batch_id || payload.eventType !== "UPDATE") return;
+          if (run.status === "completed" && run.agent_type === "evidence_collector") {
+            loadEvidenceRegistry(caseId);
+          } else if (run.status === "completed" && run.agent_type === "aggregator") {
+            toast.success(t("ai:all_agents_complete"));
+          } else if (run.status === "failed" && !run.error_message?.startsWith(DEPENDENCY_FAILED_PREFIX)) {
+            toast.error(`${t("ai:analysis_failed")}: ${run.agent_type}`);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [loadEvidenceRegistry, t]);
+
   // Update evidence item
   const updateEvidenceItem = useCallback(async (itemId: string, data: Partial<EvidenceItem>) => {
     // Convert to DB-safe format
@@ -358,6 +414,11 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
     toast.success(t("cases:evidence_updated"));
   }, [t]);
 
+  const isBatchActive = useMemo(
+    () => runs.some(r => r.batch_id && (r.status === "pending" || r.status === "running")),
+    [runs]
+  );
+
   // Generate aggregated report
   const generateAggregatedReport = useCallback(async (caseId: string): Promise<AggregatedReport | null> => {
     setIsLoading(true);
@@ -402,7 +463,8 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
       
     } catch (error) {
       console.error("Report generation error:", error);
-      toast.error(t("ai:report_failed"));
+      const quota = await getQuotaExceededInfo(error);
+      toast.error(quota ? formatQuotaExceeded(quota, t) : t("ai:report_failed"));
       return null;
     } finally {
       setIsLoading(false);
@@ -431,6 +493,7 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
     isLoading,
     currentAgent,
     runs,
+    isBatchActive,
     evidenceRegistry,
     volumes,
     aggregatedReport,
@@ -441,6 +504,7 @@ export function useMultiAgentAnalysis(): UseMultiAgentAnalysisReturn {
     runAgent,
     runAllAgents,
     loadRuns,
+    watchRuns,
     loadEvidenceRegistry,
     updateEvidenceItem,
     generateAggregatedReport,
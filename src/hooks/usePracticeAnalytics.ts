@@ -0,0 +1,107 @@
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { PracticeDimension } from '@/lib/practice-outcomes';
+
+type Enums = Database['public']['Enums'];
+
+export type PracticeOutcomeStat = Database['public']['Functions']['get_practice_outcome_stats']['Returns'][number];
+export type PracticeDecision = Database['public']['Functions']['list_practice_decisions']['Returns'][number];
+export type SimilarCaseOutcome = Database['public']['Functions']['get_similar_case_outcomes']['Returns'][number];
+
+export interface PracticeAnalyticsFilters {
+  category?: Enums['practice_category'];
+  courtType?: Enums['court_type'];
+  /** '' selects decisions without a court name */
+  courtName?: string;
+  yearFrom?: number;
+  yearTo?: number;
+  article?: string;
+}
+
+function filterArgs(filters: PracticeAnalyticsFilters) {
+  return {
+    _category: filters.category,
+    _court_type: filters.courtType,
+    _court_name: filters.courtName,
+    _year_from: filters.yearFrom,
+    _year_to: filters.yearTo,
+    _article: filters.article?.trim() || undefined,
+  };
+}
+
+export function usePracticeOutcomeStats(dimension: PracticeDimension, filters: PracticeAnalyticsFilters) {
+  return useQuery({
+    queryKey: ['practice-outcome-stats', dimension, filters],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_practice_outcome_stats', {
+        _dimension: dimension,
+        ...filterArgs(filters),
+      });
+      if (error) throw error;
+      return (data || []) as PracticeOutcomeStat[];
+    },
+  });
+}
+
+export function usePracticeDecisions(
+  filters: PracticeAnalyticsFilters | null,
+  outcome?: Enums['case_outcome'],
+  limit = 50
+) {
+  return useQuery({
+    queryKey: ['practice-decisions', filters, outcome, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('list_practice_decisions', {
+        ...filterArgs(filters!),
+        _outcome: outcome,
+        _limit: limit,
+      });
+      if (error) throw error;
+      return (data || []) as PracticeDecision[];
+    },
+    enabled: !!filters,
+  });
+}
+
+/**
+ * Outcome counts of KB decisions that applied the same articles as the case.
+ * The row with `article === null` counts every matching decision once.
+ */
+export function useSimilarCaseOutcomes(caseId: string | undefined, articles?: string[]) {
+  return useQuery({
+    queryKey: ['similar-case-outcomes', caseId, articles],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_similar_case_outcomes', {
+        _case_id: caseId!,
+        _articles: articles && articles.length > 0 ? articles : undefined,
+      });
+      if (error) throw error;
+      const rows = (data || []) as SimilarCaseOutcome[];
+      return {
+        overall: rows.find(r => r.article === null) ?? null,
+        byArticle: rows.filter(r => r.article !== null),
+      };
+    },
+    enabled: !!caseId,
+  });
+}
+
+/** Display label for a group key of the given dimension */
+export function useDimensionLabel() {
+  const { t } = useTranslation(['analytics', 'kb']);
+
+  return (dimension: PracticeDimension, key: string) => {
+    switch (dimension) {
+      case 'court':
+        return key || t('analytics:unspecified_court');
+      case 'instance':
+        return t(`kb:lp_court_${key}`);
+      case 'article':
+        return `${t('analytics:article')} ${key}`;
+      default:
+        return key;
+    }
+  };
+}
@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { NormKey } from '@/lib/practice-graph';
+
+export type PracticeGraphEdge = Database['public']['Tables']['legal_practice_graph_edges']['Row'];
+export type CitingDecision = Database['public']['Functions']['get_citing_decisions']['Returns'][number];
+export type CitedDecision = Database['public']['Functions']['get_cited_decisions']['Returns'][number];
+export type NormDecision = Database['public']['Functions']['get_decisions_by_norm']['Returns'][number];
+
+/** Norm edges (interprets/applies/mentions) of one decision */
+export function usePracticeNormEdges(kbId: string | undefined) {
+  return useQuery({
+    queryKey: ['practice-graph-norms', kbId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('legal_practice_graph_edges')
+        .select('*')
+        .eq('source_id', kbId!)
+        .neq('relation', 'cites');
+      if (error) throw error;
+      return (data || []) as PracticeGraphEdge[];
+    },
+    enabled: !!kbId,
+  });
+}
+
+export function useCitingDecisions(kbId: string | undefined, limit = 50) {
+  return useQuery({
+    queryKey: ['practice-graph-citing', kbId, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_citing_decisions', { _kb_id: kbId!, _limit: limit });
+      if (error) throw error;
+      return (data || []) as CitingDecision[];
+    },
+    enabled: !!kbId,
+  });
+}
+
+/** Decisions cited by kbId; unresolved references have `id === null` */
+export function useCitedDecisions(kbId: string | undefined) {
+  return useQuery({
+    queryKey: ['practice-graph-cited', kbId],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_cited_decisions', { _kb_id: kbId! });
+      if (error) throw error;
+      return (data || []) as CitedDecision[];
+    },
+    enabled: !!kbId,
+  });
+}
+
+/** All decisions interpreting (and, by default, applying) a norm, strongest relation first */
+export function useDecisionsByNorm(norm: NormKey | null, part?: string, includeMentions = false, limit = 50) {
+  return useQuery({
+    queryKey: ['practice-graph-by-norm', norm, part, includeMentions, limit],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_decisions_by_norm', {
+        _article: norm!.article,
+        _act_key: norm!.actKey ?? undefined,
+        _part: part || undefined,
+        _relations: includeMentions ? ['interprets', 'applies', 'mentions'] : ['interprets', 'applies'],
+        _limit: limit,
+      });
+      if (error) throw error;
+      return (data || []) as NormDecision[];
+    },
+    enabled: !!norm,
+  });
+}
@@ -0,0 +1,120 @@
+import { useMutation } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from 'react-i18next';
+import type { Database, Json } from '@/integrations/supabase/types';
+import { formatQuotaExceeded, getQuotaExceededInfo } from '@/lib/functionsInvokeError';
+import { formatPageRange } from '@/lib/case-search';
+import { formatTimestamp } from '@/lib/transcript';
+import {
+  contradictionAnchors,
+  contradictionSource,
+  type ContradictionAnalysis,
+  type TranscriptContradiction,
+} from '@/lib/transcript-contradictions';
+
+type EvidenceInsert = Database['public']['Tables']['evidence_registry']['Insert'];
+
+interface SaveContradictionsInput {
+  items: TranscriptContradiction[];
+  speakerName: string;
+}
+
+export function useTranscriptContradictions(transcriptionId: string, caseId: string) {
+  const { toast } = useToast();
+  const { t } = useTranslation(['audio', 'errors']);
+
+  const analyze = useMutation({
+    mutationFn: async (speaker: string): Promise<ContradictionAnalysis> => {
+      const { data, error } = await supabase.functions.invoke('transcript-contradictions', {
+        body: { transcriptionId, speaker },
+      });
+      if (error) throw error;
+      return data as ContradictionAnalysis;
+    },
+    onError: async (error: Error) => {
+      const quota = await getQuotaExceededInfo(error);
+      toast({
+        title: t('audio:contradictions_failed'),
+        description: quota ? formatQuotaExceeded(quota, t) : error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const pageReference = (c: TranscriptContradiction): string | null => {
+    const pages = formatPageRange(c.page_start, c.page_end);
+    if (c.volume_number !== null) {
+      return pages
+        ? t('audio:contradiction_volume_pages', { volume: c.volume_number, pages })
+        : t('audio:contradiction_volume', { volume: c.volume_number });
+    }
+    return pages ? t('audio:contradiction_pages', { pages }) : null;
+  };
+
+  // evidence_number is unique per case; a concurrent save takes the numbers first
+  const saveToEvidence = useMutation({
+    mutationFn: async ({ items, speakerName }: SaveContradictionsInput) => {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      for (let attempt = 0; ; attempt++) {
+        const { data: last, error: lastErr } = await supabase
+          .from('evidence_registry')
+          .select('evidence_number')
+          .eq('case_id', caseId)
+          .order('evidence_number', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        if (lastErr) throw lastErr;
+
+        const first = (last?.evidence_number ?? 0) + 1;
+        const rows: EvidenceInsert[] = items.map((c, i) => ({
+          case_id: caseId,
+          evidence_number: first + i,
+          evidence_type: 'testimony',
+          title: t('audio:contradiction_evidence_title', { speaker: speakerName, time: formatTimestamp(c.start_ms) }),
+          description: [
+            `${t('audio:contradiction_hearing')}: ${c.transcript_quote}`,
+            `${t('audio:contradiction_prior')}: ${c.prior_quote}`,
+          ].join('\n\n'),
+          ai_analysis: c.explanation || null,
+          page_reference: pageReference(c),
+          page_anchors: contradictionAnchors(c) as unknown as Json,
+          source_document: contradictionSource(c),
+          volume_id: c.volume_id,
+          admissibility_status: 'pending_review',
+          created_by: user?.id ?? null,
+          metadata: {
+            source: 'transcript_contradiction',
+            transcription_id: transcriptionId,
+            segment_id: c.segment_id,
+            start_ms: c.start_ms,
+            end_ms: c.end_ms,
+            chunk_id: c.chunk_id,
+            severity: c.severity,
+          },
+        }));
+
+        const { error } = await supabase.from('evidence_registry').insert(rows);
+        if (!error) return rows.length;
+        if (error.code !== '23505' || attempt >= 2) throw error;
+      }
+    },
+    onSuccess: (count) => {
+      toast({ title: t('audio:contradictions_saved', { count }) });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t('errors:operation_failed'),
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  return {
+    analyze,
+    saveToEvidence,
+    pageReference,
+  };
+}
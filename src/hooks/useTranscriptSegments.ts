@@ -0,0 +1,86 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { useTranslation } from 'react-i18next';
+import type { Json } from '@/integrations/supabase/types';
+import type { SpeakerLabels, TranscriptSegment } from '@/lib/transcript';
+
+export function useTranscriptSegments(transcriptionId: string | undefined, caseId: string | undefined) {
+  const { toast } = useToast();
+  const { t } = useTranslation(['audio', 'errors']);
+  const queryClient = useQueryClient();
+
+  const { data: segments = [], isLoading } = useQuery({
+    queryKey: ['transcript-segments', transcriptionId],
+    queryFn: async () => {
+      if (!transcriptionId) return [];
+      const { data, error } = await supabase
+        .from('transcript_segments')
+        .select('*')
+        .eq('transcription_id', transcriptionId)
+        .order('seq', { ascending: true });
+
+      if (error) throw error;
+      return data as TranscriptSegment[];
+    },
+    enabled: !!transcriptionId,
+  });
+
+  // transcription_text is re-rendered server-side from segments and labels
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['transcript-segments', transcriptionId] });
+    queryClient.invalidateQueries({ queryKey: ['audio-transcriptions', caseId] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: t('errors:operation_failed'),
+      description: error.message,
+      variant: 'destructive',
+    });
+  };
+
+  // The model output stays in original_text / original_speaker
+  const updateSegment = useMutation({
+    mutationFn: async ({ id, text, speaker }: { id: string; text: string; speaker: string }) => {
+      const { data, error } = await supabase
+        .from('transcript_segments')
+        .update({ text, speaker })
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data as TranscriptSegment;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t('audio:segment_saved') });
+    },
+    onError,
+  });
+
+  const saveSpeakerLabels = useMutation({
+    mutationFn: async (labels: SpeakerLabels) => {
+      if (!transcriptionId) throw new Error('Transcription not loaded');
+      const { error } = await supabase
+        .from('audio_transcriptions')
+        .update({ speaker_labels: labels as unknown as Json })
+        .eq('id', transcriptionId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t('audio:speakers_saved') });
+    },
+    onError,
+  });
+
+  return {
+    segments,
+    isLoading,
+    updateSegment,
+    saveSpeakerLabels,
+  };
+}
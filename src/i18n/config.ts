@@ -17,6 +17,8 @@ import hyCalendar from './locales/hy/calendar.json';
 import hyReminders from './locales/hy/reminders.json';
 import hyAdmin from './locales/hy/admin.json';
 import hyDictionary from './locales/hy/dictionary.json';
+import hyPortal from './locales/hy/portal.json';
+import hyAnalytics from './locales/hy/analytics.json';
 
 // Import English translations
 import enCommon from './locales/en/common.json';
@@ -34,6 +36,8 @@ import enCalendar from './locales/en/calendar.json';
 import enReminders from './locales/en/reminders.json';
 import enAdmin from './locales/en/admin.json';
 import enDictionary from './locales/en/dictionary.json';
+import enPortal from './locales/en/portal.json';
+import enAnalytics from './locales/en/analytics.json';
 
 // Import Russian translations
 import ruCommon from './locales/ru/common.json';
@@ -51,6 +55,8 @@ import ruCalendar from './locales/ru/calendar.json';
 import ruReminders from './locales/ru/reminders.json';
 import ruAdmin from './locales/ru/admin.json';
 import ruDictionary from './locales/ru/dictionary.json';
+import ruPortal from './locales/ru/portal.json';
+import ruAnalytics from './locales/ru/analytics.json';
 
 const resources = {
   hy: {
@@ -69,6 +75,8 @@ const resources = {
     reminders: hyReminders,
     admin: hyAdmin,
     dictionary: hyDictionary,
+    portal: hyPortal,
+    analytics: hyAnalytics,
   },
   en: {
     common: enCommon,
@@ -86,6 +94,8 @@ const resources = {
     reminders: enReminders,
     admin: enAdmin,
     dictionary: enDictionary,
+    portal: enPortal,
+    analytics: enAnalytics,
   },
   ru: {
     common: ruCommon,
@@ -103,6 +113,8 @@ const resources = {
     reminders: ruReminders,
     admin: ruAdmin,
     dictionary: ruDictionary,
+    portal: ruPortal,
+    analytics: ruAnalytics,
   },
 };
 
@@ -132,7 +144,7 @@ i18n
     lng: getSavedLanguage(),
     fallbackLng: 'en',
     defaultNS: 'common',
-    ns: ['common', 'auth', 'cases', 'ai', 'kb', 'ocr', 'audio', 'usage', 'dashboard', 'disclaimer', 'errors', 'calendar', 'reminders', 'admin', 'dictionary'],
+    ns: ['common', 'auth', 'cases', 'ai', 'kb', 'ocr', 'audio', 'usage', 'dashboard', 'disclaimer', 'errors', 'calendar', 'reminders', 'admin', 'dictionary', 'portal', 'analytics'],
     interpolation: {
       escapeValue: false, // React already escapes
     },
@@ -14,10 +14,86 @@ export type Database = {
   }
   public: {
     Tables: {
+      agent_analysis_jobs: {
+        Row: {
+          agent_type: Database["public"]["Enums"]["agent_type"]
+          attempts: number
+          batch_id: string
+          case_id: string
+          created_at: string
+          created_by: string | null
+          depends_on: string[]
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          next_run_at: string
+          references_text: string | null
+          run_id: string
+          status: string
+          updated_at: string
+          worker_id: string | null
+        }
+        Insert: {
+          agent_type: Database["public"]["Enums"]["agent_type"]
+          attempts?: number
+          batch_id: string
+          case_id: string
+          created_at?: string
+          created_by?: string | null
+          depends_on?: string[]
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          references_text?: string | null
+          run_id: string
+          status?: string
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Update: {
+          agent_type?: Database["public"]["Enums"]["agent_type"]
+          attempts?: number
+          batch_id?: string
+          case_id?: string
+          created_at?: string
+          created_by?: string | null
+          depends_on?: string[]
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          references_text?: string | null
+          run_id?: string
+          status?: string
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "agent_analysis_jobs_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "agent_analysis_jobs_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "agent_analysis_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       agent_analysis_runs: {
         Row: {
           agent_type: Database["public"]["Enums"]["agent_type"]
           analysis_result: string | null
+          batch_id: string | null
           case_id: string
           completed_at: string | null
           created_at: string
@@ -35,6 +111,7 @@ export type Database = {
         Insert: {
           agent_type: Database["public"]["Enums"]["agent_type"]
           analysis_result?: string | null
+          batch_id?: string | null
           case_id: string
           completed_at?: string | null
           created_at?: string
@@ -52,6 +129,7 @@ export type Database = {
         Update: {
           agent_type?: Database["public"]["Enums"]["agent_type"]
           analysis_result?: string | null
+          batch_id?: string | null
           case_id?: string
           completed_at?: string | null
           created_at?: string
@@ -86,6 +164,7 @@ export type Database = {
           id: string
           legal_basis: string[] | null
           metadata: Json | null
+          page_anchors: Json
           page_references: string[] | null
           recommendation: string | null
           run_id: string
@@ -102,6 +181,7 @@ export type Database = {
           id?: string
           legal_basis?: string[] | null
           metadata?: Json | null
+          page_anchors?: Json
           page_references?: string[] | null
           recommendation?: string | null
           run_id: string
@@ -118,6 +198,7 @@ export type Database = {
           id?: string
           legal_basis?: string[] | null
           metadata?: Json | null
+          page_anchors?: Json
           page_references?: string[] | null
           recommendation?: string | null
           run_id?: string
@@ -210,7 +291,9 @@ export type Database = {
           created_at: string
           created_by: string | null
           id: string
+          prompt_id: string | null
           prompt_used: string | null
+          prompt_variant_id: string | null
           response_text: string
           role: string
           sources_used: Json | null
@@ -220,7 +303,9 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           id?: string
+          prompt_id?: string | null
           prompt_used?: string | null
+          prompt_variant_id?: string | null
           response_text: string
           role: string
           sources_used?: Json | null
@@ -230,7 +315,9 @@ export type Database = {
           created_at?: string
           created_by?: string | null
           id?: string
+          prompt_id?: string | null
           prompt_used?: string | null
+          prompt_variant_id?: string | null
           response_text?: string
           role?: string
           sources_used?: Json | null
@@ -243,6 +330,73 @@ export type Database = {
             referencedRelation: "cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_analysis_prompt_id_fkey"
+            columns: ["prompt_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_analysis_prompt_variant_id_fkey"
+            columns: ["prompt_variant_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_prompt_variants: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          label: string
+          pinned_team_ids: string[]
+          pinned_user_ids: string[]
+          promoted_at: string | null
+          prompt_id: string
+          prompt_text: string
+          status: string
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label: string
+          pinned_team_ids?: string[]
+          pinned_user_ids?: string[]
+          promoted_at?: string | null
+          prompt_id: string
+          prompt_text: string
+          status?: string
+          updated_at?: string
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          label?: string
+          pinned_team_ids?: string[]
+          pinned_user_ids?: string[]
+          promoted_at?: string | null
+          prompt_id?: string
+          prompt_text?: string
+          status?: string
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_prompt_variants_prompt_id_fkey"
+            columns: ["prompt_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompts"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ai_prompt_versions: {
@@ -297,6 +451,7 @@ export type Database = {
           name_hy: string
           name_ru: string
           prompt_text: string
+          runtime_enabled: boolean
           updated_at: string
         }
         Insert: {
@@ -312,6 +467,7 @@ export type Database = {
           name_hy: string
           name_ru: string
           prompt_text: string
+          runtime_enabled?: boolean
           updated_at?: string
         }
         Update: {
@@ -327,16 +483,74 @@ export type Database = {
           name_hy?: string
           name_ru?: string
           prompt_text?: string
+          runtime_enabled?: boolean
           updated_at?: string
         }
         Relationships: []
       }
+      ai_quotas: {
+        Row: {
+          alert_threshold: number
+          created_at: string
+          created_by: string | null
+          function_name: string | null
+          id: string
+          last_alert_period: string | null
+          monthly_token_limit: number | null
+          monthly_usd_limit: number | null
+          scope: string
+          team_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          alert_threshold?: number
+          created_at?: string
+          created_by?: string | null
+          function_name?: string | null
+          id?: string
+          last_alert_period?: string | null
+          monthly_token_limit?: number | null
+          monthly_usd_limit?: number | null
+          scope: string
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          alert_threshold?: number
+          created_at?: string
+          created_by?: string | null
+          function_name?: string | null
+          id?: string
+          last_alert_period?: string | null
+          monthly_token_limit?: number | null
+          monthly_usd_limit?: number | null
+          scope?: string
+          team_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_quotas_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       api_usage: {
         Row: {
           created_at: string
           estimated_cost: number | null
+          function_name: string | null
           id: string
           model_name: string | null
+          pricing_id: string | null
+          prompt_id: string | null
+          prompt_variant_id: string | null
           request_metadata: Json | null
           service_type: string
           tokens_used: number | null
@@ -345,8 +559,12 @@ export type Database = {
         Insert: {
           created_at?: string
           estimated_cost?: number | null
+          function_name?: string | null
           id?: string
           model_name?: string | null
+          pricing_id?: string | null
+          prompt_id?: string | null
+          prompt_variant_id?: string | null
           request_metadata?: Json | null
           service_type: string
           tokens_used?: number | null
@@ -355,14 +573,40 @@ export type Database = {
         Update: {
           created_at?: string
           estimated_cost?: number | null
+          function_name?: string | null
           id?: string
           model_name?: string | null
+          pricing_id?: string | null
+          prompt_id?: string | null
+          prompt_variant_id?: string | null
           request_metadata?: Json | null
           service_type?: string
           tokens_used?: number | null
           user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "api_usage_pricing_id_fkey"
+            columns: ["pricing_id"]
+            isOneToOne: false
+            referencedRelation: "model_pricing"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_usage_prompt_id_fkey"
+            columns: ["prompt_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "api_usage_prompt_variant_id_fkey"
+            columns: ["prompt_variant_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_variants"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       app_settings: {
         Row: {
@@ -418,11 +662,98 @@ export type Database = {
         }
         Relationships: []
       }
+      armenian_word_forms: {
+        Row: {
+          form_norm: string
+          lemma_norm: string
+        }
+        Insert: {
+          form_norm: string
+          lemma_norm: string
+        }
+        Update: {
+          form_norm?: string
+          lemma_norm?: string
+        }
+        Relationships: []
+      }
+      audio_transcription_chunks: {
+        Row: {
+          attempts: number
+          byte_end: number
+          byte_start: number
+          chunk_index: number
+          created_at: string
+          end_ms: number
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          next_run_at: string
+          segments: Json | null
+          start_ms: number
+          status: string
+          transcription_id: string
+          updated_at: string
+          worker_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          byte_end: number
+          byte_start: number
+          chunk_index: number
+          created_at?: string
+          end_ms: number
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          segments?: Json | null
+          start_ms: number
+          status?: string
+          transcription_id: string
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          byte_end?: number
+          byte_start?: number
+          chunk_index?: number
+          created_at?: string
+          end_ms?: number
+          id?: string
+          last_error?: string | null
+          lease_expires_at?: string | null
+          max_attempts?: number
+          next_run_at?: string
+          segments?: Json | null
+          start_ms?: number
+          status?: string
+          transcription_id?: string
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audio_transcription_chunks_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "audio_transcriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audio_transcriptions: {
         Row: {
+          chunks_completed: number
+          chunks_total: number
           confidence: number | null
           created_at: string
+          created_by: string | null
           duration_seconds: number | null
+          error_message: string | null
           file_id: string
           id: string
           language: string | null
@@ -430,12 +761,18 @@ export type Database = {
           reviewed_at: string | null
           reviewed_by: string | null
           speaker_labels: Json | null
+          status: string
           transcription_text: string
+          updated_at: string
         }
         Insert: {
+          chunks_completed?: number
+          chunks_total?: number
           confidence?: number | null
           created_at?: string
+          created_by?: string | null
           duration_seconds?: number | null
+          error_message?: string | null
           file_id: string
           id?: string
           language?: string | null
@@ -443,12 +780,18 @@ export type Database = {
           reviewed_at?: string | null
           reviewed_by?: string | null
           speaker_labels?: Json | null
+          status?: string
           transcription_text: string
+          updated_at?: string
         }
         Update: {
+          chunks_completed?: number
+          chunks_total?: number
           confidence?: number | null
           created_at?: string
+          created_by?: string | null
           duration_seconds?: number | null
+          error_message?: string | null
           file_id?: string
           id?: string
           language?: string | null
@@ -456,7 +799,9 @@ export type Database = {
           reviewed_at?: string | null
           reviewed_by?: string | null
           speaker_labels?: Json | null
+          status?: string
           transcription_text?: string
+          updated_at?: string
         }
         Relationships: [
           {
@@ -504,6 +849,41 @@ export type Database = {
         }
         Relationships: []
       }
+      case_client_messages: {
+        Row: {
+          body: string
+          case_id: string
+          created_at: string
+          id: string
+          read_at: string | null
+          sender_id: string
+        }
+        Insert: {
+          body: string
+          case_id: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id: string
+        }
+        Update: {
+          body?: string
+          case_id?: string
+          created_at?: string
+          id?: string
+          read_at?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_client_messages_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       case_comments: {
         Row: {
           author_id: string
@@ -554,6 +934,8 @@ export type Database = {
           id: string
           notes: string | null
           original_filename: string
+          shared_at: string | null
+          shared_with_client: boolean
           storage_path: string
           uploaded_by: string | null
           version: number
@@ -569,6 +951,8 @@ export type Database = {
           id?: string
           notes?: string | null
           original_filename: string
+          shared_at?: string | null
+          shared_with_client?: boolean
           storage_path: string
           uploaded_by?: string | null
           version?: number
@@ -584,6 +968,8 @@ export type Database = {
           id?: string
           notes?: string | null
           original_filename?: string
+          shared_at?: string | null
+          shared_with_client?: boolean
           storage_path?: string
           uploaded_by?: string | null
           version?: number
@@ -598,6 +984,173 @@ export type Database = {
           },
         ]
       }
+      case_parties: {
+        Row: {
+          address: string | null
+          case_id: string
+          created_at: string
+          created_by: string | null
+          email: string | null
+          id: string
+          is_client: boolean
+          kind: string
+          name: string
+          notes: string | null
+          passport_masked: string | null
+          phone: string | null
+          pii_owner: string | null
+          representative_basis: string | null
+          representative_name: string | null
+          role: string
+          source: string
+          tax_id_masked: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          case_id: string
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          is_client?: boolean
+          kind?: string
+          name: string
+          notes?: string | null
+          passport_masked?: string | null
+          phone?: string | null
+          pii_owner?: string | null
+          representative_basis?: string | null
+          representative_name?: string | null
+          role?: string
+          source?: string
+          tax_id_masked?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          case_id?: string
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          is_client?: boolean
+          kind?: string
+          name?: string
+          notes?: string | null
+          passport_masked?: string | null
+          phone?: string | null
+          pii_owner?: string | null
+          representative_basis?: string | null
+          representative_name?: string | null
+          role?: string
+          source?: string
+          tax_id_masked?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_parties_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_party_names: {
+        Row: {
+          case_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          name_key: string
+          party_id: string | null
+          role: string | null
+          source: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          name_key?: string
+          party_id?: string | null
+          role?: string | null
+          source?: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          name_key?: string
+          party_id?: string | null
+          role?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_party_names_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_party_names_party_id_fkey"
+            columns: ["party_id"]
+            isOneToOne: false
+            referencedRelation: "case_parties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_volume_pages: {
+        Row: {
+          case_id: string
+          created_at: string
+          id: string
+          ocr_text: string
+          page_number: number
+          volume_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          id?: string
+          ocr_text?: string
+          page_number: number
+          volume_id: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          id?: string
+          ocr_text?: string
+          page_number?: number
+          volume_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_volume_pages_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "case_volume_pages_volume_id_fkey"
+            columns: ["volume_id"]
+            isOneToOne: false
+            referencedRelation: "case_volumes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       case_volumes: {
         Row: {
           case_id: string
@@ -727,6 +1280,72 @@ export type Database = {
         }
         Relationships: []
       }
+      client_uploads: {
+        Row: {
+          case_file_id: string | null
+          case_id: string
+          client_id: string
+          created_at: string
+          file_size: number | null
+          file_type: string | null
+          id: string
+          note: string | null
+          original_filename: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          storage_path: string
+        }
+        Insert: {
+          case_file_id?: string | null
+          case_id: string
+          client_id: string
+          created_at?: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          note?: string | null
+          original_filename: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          storage_path: string
+        }
+        Update: {
+          case_file_id?: string | null
+          case_id?: string
+          client_id?: string
+          created_at?: string
+          file_size?: number | null
+          file_type?: string | null
+          id?: string
+          note?: string | null
+          original_filename?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_uploads_case_file_id_fkey"
+            columns: ["case_file_id"]
+            isOneToOne: false
+            referencedRelation: "case_files"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_uploads_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       dictionary_import_jobs: {
         Row: {
           completed_at: string | null
@@ -1124,6 +1743,7 @@ export type Database = {
           id: string
           metadata: Json | null
           obtained_by: string | null
+          page_anchors: Json
           page_reference: string | null
           prosecution_position: string | null
           related_articles: string[] | null
@@ -1150,6 +1770,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           obtained_by?: string | null
+          page_anchors?: Json
           page_reference?: string | null
           prosecution_position?: string | null
           related_articles?: string[] | null
@@ -1176,6 +1797,7 @@ export type Database = {
           id?: string
           metadata?: Json | null
           obtained_by?: string | null
+          page_anchors?: Json
           page_reference?: string | null
           prosecution_position?: string | null
           related_articles?: string[] | null
@@ -1432,6 +2054,7 @@ export type Database = {
           is_active: boolean
           kb_id: string
           label: string | null
+          lemma_tsv: unknown
         }
         Insert: {
           char_end?: number
@@ -1445,6 +2068,7 @@ export type Database = {
           is_active?: boolean
           kb_id: string
           label?: string | null
+          lemma_tsv?: unknown
         }
         Update: {
           char_end?: number
@@ -1458,6 +2082,7 @@ export type Database = {
           is_active?: boolean
           kb_id?: string
           label?: string | null
+          lemma_tsv?: unknown
         }
         Relationships: [
           {
@@ -1609,6 +2234,69 @@ export type Database = {
         }
         Relationships: []
       }
+      legal_practice_graph_edges: {
+        Row: {
+          act_key: string | null
+          act_raw: string | null
+          article: string | null
+          created_at: string
+          id: string
+          origin: string
+          part: string | null
+          point: string | null
+          relation: string
+          source_id: string
+          target_id: string | null
+          target_ref: string | null
+          target_ref_key: string | null
+        }
+        Insert: {
+          act_key?: string | null
+          act_raw?: string | null
+          article?: string | null
+          created_at?: string
+          id?: string
+          origin: string
+          part?: string | null
+          point?: string | null
+          relation: string
+          source_id: string
+          target_id?: string | null
+          target_ref?: string | null
+          target_ref_key?: string | null
+        }
+        Update: {
+          act_key?: string | null
+          act_raw?: string | null
+          article?: string | null
+          created_at?: string
+          id?: string
+          origin?: string
+          part?: string | null
+          point?: string | null
+          relation?: string
+          source_id?: string
+          target_id?: string | null
+          target_ref?: string | null
+          target_ref_key?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "legal_practice_graph_edges_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "legal_practice_kb"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "legal_practice_graph_edges_target_id_fkey"
+            columns: ["target_id"]
+            isOneToOne: false
+            referencedRelation: "legal_practice_kb"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       legal_practice_kb: {
         Row: {
           application_scope: string | null
@@ -1821,6 +2509,39 @@ export type Database = {
           },
         ]
       }
+      model_pricing: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          effective_from: string
+          id: string
+          input_per_1k: number
+          model_name: string
+          note: string | null
+          output_per_1k: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          input_per_1k: number
+          model_name: string
+          note?: string | null
+          output_per_1k: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          effective_from?: string
+          id?: string
+          input_per_1k?: number
+          model_name?: string
+          note?: string | null
+          output_per_1k?: number
+        }
+        Relationships: []
+      }
       notifications: {
         Row: {
           created_at: string
@@ -2186,6 +2907,62 @@ export type Database = {
         }
         Relationships: []
       }
+      transcript_segments: {
+        Row: {
+          confidence: number | null
+          created_at: string
+          edited_at: string | null
+          edited_by: string | null
+          end_ms: number
+          id: string
+          original_speaker: string
+          original_text: string
+          seq: number
+          speaker: string
+          start_ms: number
+          text: string
+          transcription_id: string
+        }
+        Insert: {
+          confidence?: number | null
+          created_at?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          end_ms: number
+          id?: string
+          original_speaker?: string
+          original_text?: string
+          seq: number
+          speaker: string
+          start_ms: number
+          text: string
+          transcription_id: string
+        }
+        Update: {
+          confidence?: number | null
+          created_at?: string
+          edited_at?: string | null
+          edited_by?: string | null
+          end_ms?: number
+          id?: string
+          original_speaker?: string
+          original_text?: string
+          seq?: number
+          speaker?: string
+          start_ms?: number
+          text?: string
+          transcription_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_segments_transcription_id_fkey"
+            columns: ["transcription_id"]
+            isOneToOne: false
+            referencedRelation: "audio_transcriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       translations_cache: {
         Row: {
           cache_key: string
@@ -2223,6 +3000,8 @@ export type Database = {
           comment: string | null
           created_at: string
           id: string
+          prompt_id: string | null
+          prompt_variant_id: string | null
           rating: number | null
           user_id: string | null
         }
@@ -2232,6 +3011,8 @@ export type Database = {
           comment?: string | null
           created_at?: string
           id?: string
+          prompt_id?: string | null
+          prompt_variant_id?: string | null
           rating?: number | null
           user_id?: string | null
         }
@@ -2241,6 +3022,8 @@ export type Database = {
           comment?: string | null
           created_at?: string
           id?: string
+          prompt_id?: string | null
+          prompt_variant_id?: string | null
           rating?: number | null
           user_id?: string | null
         }
@@ -2259,6 +3042,20 @@ export type Database = {
             referencedRelation: "cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "user_feedback_prompt_id_fkey"
+            columns: ["prompt_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_feedback_prompt_variant_id_fkey"
+            columns: ["prompt_variant_id"]
+            isOneToOne: false
+            referencedRelation: "ai_prompt_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_notes: {
@@ -2314,10 +3111,127 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      legal_practice_article_refs: {
+        Row: {
+          act: string | null
+          article: string | null
+          kb_id: string | null
+        }
+        Relationships: []
+      }
+      legal_practice_outcomes: {
+        Row: {
+          case_number_anonymized: string | null
+          court_name: string | null
+          court_type: Database["public"]["Enums"]["court_type"] | null
+          decision_date: string | null
+          decision_year: number | null
+          id: string | null
+          outcome: Database["public"]["Enums"]["case_outcome"] | null
+          practice_category:
+            | Database["public"]["Enums"]["practice_category"]
+            | null
+          title: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      check_ai_quota: {
+        Args: { _function_name: string; _user_id: string }
+        Returns: {
+          alert_threshold: number
+          function_name: string
+          last_alert_period: string
+          monthly_token_limit: number
+          monthly_usd_limit: number
+          quota_id: string
+          scope: string
+          team_id: string
+          team_leader_id: string
+          tokens_used: number
+          usd_used: number
+          user_id: string
+        }[]
+      }
       check_budget_alert: { Args: { budget_limit?: number }; Returns: boolean }
+      check_case_conflicts: {
+        Args: { p_case_id?: string; p_parties: Json; p_party_role?: string }
+        Returns: {
+          accessible: boolean
+          case_id: string
+          case_number: string
+          case_title: string
+          match_source: string
+          matched_name: string
+          matched_role: string
+          matched_side: string
+          party_name: string
+          party_side: string
+          relation: string
+          score: number
+        }[]
+      }
+      claim_agent_analysis_jobs: {
+        Args: { p_lease_minutes?: number; p_limit?: number }
+        Returns: {
+          agent_type: Database["public"]["Enums"]["agent_type"]
+          attempts: number
+          batch_id: string
+          case_id: string
+          created_at: string
+          created_by: string | null
+          depends_on: string[]
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          next_run_at: string
+          references_text: string | null
+          run_id: string
+          status: string
+          updated_at: string
+          worker_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "agent_analysis_jobs"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      claim_audio_transcription_chunks: {
+        Args: { p_lease_minutes?: number; p_limit?: number }
+        Returns: {
+          attempts: number
+          byte_end: number
+          byte_start: number
+          chunk_index: number
+          created_at: string
+          end_ms: number
+          id: string
+          last_error: string | null
+          lease_expires_at: string | null
+          max_attempts: number
+          next_run_at: string
+          segments: Json | null
+          start_ms: number
+          status: string
+          transcription_id: string
+          updated_at: string
+          worker_id: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "audio_transcription_chunks"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      claim_audio_transcription_stitches: {
+        Args: { p_limit?: number }
+        Returns: string[]
+      }
       claim_chunk_jobs: {
         Args: {
           p_lease_minutes?: number
@@ -2363,6 +3277,10 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      complete_audio_transcription_chunk: {
+        Args: { p_chunk_id: string; p_segments: Json }
+        Returns: boolean
+      }
       decrypt_pii: {
         Args: { _field_name: string; _user_id: string }
         Returns: string
@@ -2392,6 +3310,99 @@ export type Database = {
         Args: { p_data: string; p_key?: string }
         Returns: string
       }
+      enqueue_agent_analysis: {
+        Args: { p_case_id: string; p_references_text?: string }
+        Returns: string
+      }
+      extract_article_numbers: { Args: { _text: string }; Returns: string[] }
+      fail_agent_analysis_job: {
+        Args: { p_error: string; p_job_id: string; p_retry_seconds?: number }
+        Returns: string
+      }
+      fail_audio_transcription_chunk: {
+        Args: { p_chunk_id: string; p_error: string; p_retry_seconds?: number }
+        Returns: string
+      }
+      fail_stale_agent_runs: {
+        Args: { p_stale_minutes?: number }
+        Returns: number
+      }
+      fail_stale_audio_transcriptions: {
+        Args: { p_stitch_minutes?: number }
+        Returns: number
+      }
+      fill_missing_search_tsv: {
+        Args: { _batch?: number }
+        Returns: number
+      }
+      get_case_party_pii: {
+        Args: { p_party_id: string }
+        Returns: {
+          passport: string
+          tax_id: string
+        }[]
+      }
+      get_cited_decisions: {
+        Args: { _kb_id: string }
+        Returns: {
+          court_name: string
+          court_type: Database["public"]["Enums"]["court_type"]
+          decision_date: string
+          id: string
+          outcome: Database["public"]["Enums"]["case_outcome"]
+          target_ref: string
+          title: string
+        }[]
+      }
+      get_citing_decisions: {
+        Args: { _kb_id: string; _limit?: number }
+        Returns: {
+          case_number_anonymized: string
+          court_name: string
+          court_type: Database["public"]["Enums"]["court_type"]
+          decision_date: string
+          id: string
+          outcome: Database["public"]["Enums"]["case_outcome"]
+          title: string
+        }[]
+      }
+      get_client_portal_cases: {
+        Args: never
+        Returns: {
+          case_number: string
+          court_date: string
+          court_name: string
+          current_stage: string
+          id: string
+          lawyer_name: string
+          shared_files: number
+          status: Database["public"]["Enums"]["case_status"]
+          title: string
+          unread_messages: number
+          updated_at: string
+        }[]
+      }
+      get_decisions_by_norm: {
+        Args: {
+          _act_key?: string
+          _article: string
+          _limit?: number
+          _part?: string
+          _relations?: string[]
+        }
+        Returns: {
+          case_number_anonymized: string
+          court_name: string
+          court_type: Database["public"]["Enums"]["court_type"]
+          decision_date: string
+          id: string
+          outcome: Database["public"]["Enums"]["case_outcome"]
+          parts: string[]
+          practice_category: Database["public"]["Enums"]["practice_category"]
+          relations: string[]
+          title: string
+        }[]
+      }
       get_kb_chunk: {
         Args: { chunk_idx: number; doc_id: string }
         Returns: {
@@ -2416,6 +3427,41 @@ export type Database = {
           total_tokens: number
         }[]
       }
+      get_practice_graph_neighbors: {
+        Args: {
+          _category?: Database["public"]["Enums"]["practice_category"]
+          _exclude_ids?: string[]
+          _limit?: number
+          _seed_ids: string[]
+        }
+        Returns: {
+          id: string
+          score: number
+          via: string
+        }[]
+      }
+      get_practice_outcome_stats: {
+        Args: {
+          _article?: string
+          _category?: Database["public"]["Enums"]["practice_category"]
+          _court_name?: string
+          _court_type?: Database["public"]["Enums"]["court_type"]
+          _dimension: string
+          _limit?: number
+          _min_total?: number
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: {
+          discontinued: number
+          granted: number
+          group_key: string
+          partial: number
+          rejected: number
+          remanded: number
+          total: number
+        }[]
+      }
       get_practice_total_chunks: {
         Args: { p_ids: string[] }
         Returns: {
@@ -2423,6 +3469,57 @@ export type Database = {
           total_chunks: number
         }[]
       }
+      get_prompt_variant_report: {
+        Args: { p_prompt_id: string }
+        Returns: {
+          analyses: number
+          avg_rating: number
+          cost_usd: number
+          label: string
+          ratings: number
+          requests: number
+          since: string
+          status: string
+          tokens: number
+          variant_id: string
+          weight: number
+        }[]
+      }
+      get_similar_case_outcomes: {
+        Args: { _articles?: string[]; _case_id: string }
+        Returns: {
+          article: string
+          discontinued: number
+          granted: number
+          partial: number
+          rejected: number
+          remanded: number
+          total: number
+        }[]
+      }
+      get_team_ai_quotas: {
+        Args: { _team_id: string }
+        Returns: {
+          alert_threshold: number
+          function_name: string
+          monthly_token_limit: number
+          monthly_usd_limit: number
+          quota_id: string
+          scope: string
+          tokens_used: number
+          usd_used: number
+          user_id: string
+        }[]
+      }
+      get_team_ai_usage: {
+        Args: { _team_id: string }
+        Returns: {
+          total_cost: number
+          total_requests: number
+          total_tokens: number
+          user_id: string
+        }[]
+      }
       get_team_member_ids: { Args: { _leader_id: string }; Returns: string[] }
       get_user_roles: {
         Args: { _user_id: string }
@@ -2435,8 +3532,36 @@ export type Database = {
         }
         Returns: boolean
       }
+      hy_expand_terms: {
+        Args: { _terms: string[] }
+        Returns: {
+          forms: string[]
+          lemma: string
+        }[]
+      }
+      hy_lemma_text: { Args: { _text: string }; Returns: string }
+      hy_query_lemmas: { Args: { _query: string }; Returns: string[] }
+      hy_tokenize: { Args: { _text: string }; Returns: string[] }
+      hy_word_forms: { Args: { _max?: number; _word: string }; Returns: string[] }
+      hy_word_lemmas: { Args: { _word: string }; Returns: string[] }
       immutable_unaccent: { Args: { "": string }; Returns: string }
       invoke_pipeline_orchestrator: { Args: never; Returns: undefined }
+      is_case_portal_client: {
+        Args: { _case_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_case_staff: {
+        Args: { _case_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_file_portal_client: {
+        Args: { _file_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_object_portal_client: {
+        Args: { _object_name: string; _user_id: string }
+        Returns: boolean
+      }
       is_team_leader: {
         Args: { _team_id: string; _user_id: string }
         Returns: boolean
@@ -2507,6 +3632,29 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      list_practice_decisions: {
+        Args: {
+          _article?: string
+          _category?: Database["public"]["Enums"]["practice_category"]
+          _court_name?: string
+          _court_type?: Database["public"]["Enums"]["court_type"]
+          _limit?: number
+          _offset?: number
+          _outcome?: Database["public"]["Enums"]["case_outcome"]
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: {
+          case_number_anonymized: string
+          court_name: string
+          court_type: Database["public"]["Enums"]["court_type"]
+          decision_date: string
+          id: string
+          outcome: Database["public"]["Enums"]["case_outcome"]
+          practice_category: Database["public"]["Enums"]["practice_category"]
+          title: string
+        }[]
+      }
       log_api_usage: {
         Args: {
           _estimated_cost?: number
@@ -2536,6 +3684,11 @@ export type Database = {
         }
         Returns: string
       }
+      mark_case_messages_read: {
+        Args: { _case_id: string }
+        Returns: undefined
+      }
+      mask_pii: { Args: { _value: string }; Returns: string }
       match_knowledge_base: {
         Args: {
           match_count?: number
@@ -2576,10 +3729,55 @@ export type Database = {
         }[]
       }
       normalize_hy: { Args: { input: string }; Returns: string }
+      or_tsquery: { Args: { _lexemes: string[] }; Returns: unknown }
+      party_name_key: { Args: { input: string }; Returns: string }
+      party_role_group: { Args: { _role: string }; Returns: string }
+      party_side: {
+        Args: { _case_party_role: string; _role: string }
+        Returns: string
+      }
+      practice_case_ref_key: { Args: { _ref: string }; Returns: string }
+      practice_outcome_scope: {
+        Args: {
+          _article?: string
+          _category?: Database["public"]["Enums"]["practice_category"]
+          _court_name?: string
+          _court_type?: Database["public"]["Enums"]["court_type"]
+          _year_from?: number
+          _year_to?: number
+        }
+        Returns: Database["public"]["Views"]["legal_practice_outcomes"]["Row"][]
+      }
+      promote_ai_prompt_variant: {
+        Args: { p_variant_id: string }
+        Returns: number
+      }
+      reindex_kb_chunk_lemmas: {
+        Args: { _after_id?: string; _batch?: number }
+        Returns: string
+      }
+      render_transcript_text: {
+        Args: { _labels: Json; _transcription_id: string }
+        Returns: string
+      }
+      resolve_practice_citations: { Args: { _kb_id: string }; Returns: number }
       retrieve_decrypted_pii: {
         Args: { p_field_name: string; p_user_id: string }
         Returns: string
       }
+      search_kb_bm25: {
+        Args: {
+          _category?: string
+          _limit?: number
+          _query: string
+          _reference_date?: string
+        }
+        Returns: {
+          id: string
+          score: number
+        }[]
+      }
+      rollback_ai_prompt: { Args: { p_prompt_id: string }; Returns: number }
       search_kb_chunks: {
         Args: {
           p_category?: string
@@ -2590,6 +3788,30 @@ export type Database = {
         }
         Returns: Json
       }
+      search_kb_lemma: {
+        Args: {
+          _category?: string
+          _limit?: number
+          _query: string
+          _reference_date?: string
+        }
+        Returns: {
+          id: string
+          score: number
+        }[]
+      }
+      search_kb_trigram: {
+        Args: {
+          _category?: string
+          _limit?: number
+          _query: string
+          _reference_date?: string
+        }
+        Returns: {
+          id: string
+          score: number
+        }[]
+      }
       search_knowledge_base: {
         Args: {
           reference_date?: string
@@ -2676,6 +3898,33 @@ export type Database = {
           total_chunks: number
         }[]
       }
+      search_or_tsquery: { Args: { _query: string }; Returns: unknown }
+      search_practice_bm25: {
+        Args: { _category?: string; _limit?: number; _query: string }
+        Returns: {
+          id: string
+          score: number
+        }[]
+      }
+      search_practice_trigram: {
+        Args: { _category?: string; _limit?: number; _query: string }
+        Returns: {
+          id: string
+          score: number
+        }[]
+      }
+      set_case_client: {
+        Args: { _case_id: string; _username: string }
+        Returns: string
+      }
+      set_case_party_names: {
+        Args: { p_case_id: string; p_parties: Json; p_source: string }
+        Returns: number
+      }
+      set_case_party_pii: {
+        Args: { p_party_id: string; p_passport?: string; p_tax_id?: string }
+        Returns: undefined
+      }
       show_limit: { Args: never; Returns: number }
       show_trgm: { Args: { "": string }; Returns: string[] }
       soft_delete_case: { Args: { p_case_id: string }; Returns: undefined }
@@ -2684,6 +3933,11 @@ export type Database = {
         Args: { p_field_name: string; p_user_id: string; p_value: string }
         Returns: boolean
       }
+      transcript_timestamp: { Args: { _ms: number }; Returns: string }
+      transcription_case_id: {
+        Args: { _transcription_id: string }
+        Returns: string
+      }
       user_can_access_case: { Args: { _case_id: string }; Returns: boolean }
       user_can_access_case_as: {
         Args: { _case_id: string; _user_id: string }
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { partyContactLine, partyDisplayName, pendingProposals, sortParties, toCasePartyRole } from './case-parties';
+
+describe('case-parties', () => {
+  it('maps unknown roles to other', () => {
+    expect(toCasePartyRole('victim')).toBe('victim');
+    expect(toCasePartyRole('representative')).toBe('other');
+    expect(toCasePartyRole(null)).toBe('other');
+  });
+
+  it('formats contacts and representatives', () => {
+    expect(partyContactLine({ phone: '+374 10 000000', email: 'a@b.am' })).toBe('+374 10 000000, a@b.am');
+    expect(partyContactLine({ phone: null, email: 'a@b.am' })).toBe('a@b.am');
+    expect(partyDisplayName({ name: 'Anna Ivanova', representative_name: null })).toBe('Anna Ivanova');
+    expect(partyDisplayName({ name: 'ABC LLC', representative_name: 'Aram Petrosyan' })).toBe('ABC LLC (Aram Petrosyan)');
+  });
+
+  it('proposes only extracted names that are not registered in any script', () => {
+    const proposals = pendingProposals(
+      [
+        { id: '1', name: '\u0531\u0580\u0561\u0574 \u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576', role: 'victim' },
+        { id: '2', name: 'Gagik Sargsyan', role: 'witness' },
+        { id: '3', name: 'Gagik Sargsian', role: null },
+      ],
+      [{ name: 'Aram Petrosyan' }],
+    );
+    expect(proposals).toEqual([{ id: '2', name: 'Gagik Sargsyan', role: 'witness' }]);
+  });
+
+  it('sorts clients first, then by role', () => {
+    const sorted = sortParties([
+      { name: 'W', role: 'witness', is_client: false },
+      { name: 'D', role: 'defendant', is_client: false },
+      { name: 'C', role: 'victim', is_client: true },
+    ]);
+    expect(sorted.map(p => p.name)).toEqual(['C', 'D', 'W']);
+  });
+});
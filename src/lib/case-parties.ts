@@ -0,0 +1,87 @@
+/**
+ * Case parties registry helpers.
+ *
+ * Parties are stored in `case_parties`; passport and tax id are kept
+ * encrypted (`set_case_party_pii` / `get_case_party_pii`) and only their
+ * masked form is part of the row. Extraction (`extract-case-fields`) does not
+ * write to the registry: its names are offered as proposals until a lawyer
+ * confirms or dismisses them.
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+import { nameMatchKey } from './unicode-utils';
+
+export type CaseParty = Database['public']['Tables']['case_parties']['Row'];
+
+export type CasePartyKind = 'person' | 'organization';
+
+export const CASE_PARTY_ROLES = [
+  'claimant',
+  'defendant',
+  'accused',
+  'victim',
+  'applicant',
+  'respondent',
+  'third_party',
+  'witness',
+  'administrative_body',
+  'government',
+  'prosecutor',
+  'other',
+] as const;
+
+export type CasePartyRole = (typeof CASE_PARTY_ROLES)[number];
+
+export function toCasePartyRole(role: string | null | undefined): CasePartyRole {
+  return (CASE_PARTY_ROLES as readonly string[]).includes(role ?? '') ? (role as CasePartyRole) : 'other';
+}
+
+/** Phone and e-mail on one line, as the sender contact of a document */
+export function partyContactLine(party: Pick<CaseParty, 'phone' | 'email'>): string {
+  return [party.phone, party.email].filter(Boolean).join(', ');
+}
+
+/** Display name, with the representative when there is one */
+export function partyDisplayName(party: Pick<CaseParty, 'name' | 'representative_name'>): string {
+  return party.representative_name ? `${party.name} (${party.representative_name})` : party.name;
+}
+
+export interface PartyProposal {
+  /** case_party_names row the proposal comes from */
+  id: string;
+  name: string;
+  role: CasePartyRole;
+}
+
+/**
+ * Extracted names not yet in the registry. A name counts as registered when
+ * its match key equals that of a registered party, whatever the script.
+ */
+export function pendingProposals(
+  extracted: Array<{ id: string; name: string; role: string | null }>,
+  registered: Array<Pick<CaseParty, 'name'>>,
+): PartyProposal[] {
+  const known = new Set(registered.map(p => nameMatchKey(p.name)));
+  const seen = new Set<string>();
+  const out: PartyProposal[] = [];
+  for (const row of extracted) {
+    const key = nameMatchKey(row.name);
+    if (!key || known.has(key) || seen.has(key)) continue;
+    seen.add(key);
+    out.push({ id: row.id, name: row.name, role: toCasePartyRole(row.role) });
+  }
+  return out;
+}
+
+/** Clients first, then by role order, then by name */
+export function sortParties<T extends Pick<CaseParty, 'is_client' | 'role' | 'name'>>(parties: T[]): T[] {
+  const rank = (role: string) => {
+    const i = (CASE_PARTY_ROLES as readonly string[]).indexOf(role);
+    return i < 0 ? CASE_PARTY_ROLES.length : i;
+  };
+  return [...parties].sort((a, b) =>
+    Number(b.is_client) - Number(a.is_client)
+    || rank(a.role) - rank(b.role)
+    || a.name.localeCompare(b.name),
+  );
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { formatPageRange, formatTimeRange, formatTimestamp } from './case-search';
+
+describe('case-search locators', () => {
+  it('formats page ranges', () => {
+    expect(formatPageRange(12, 12)).toBe('12');
+    expect(formatPageRange(12, 14)).toBe('12\u201314');
+    expect(formatPageRange(3, null)).toBe('3');
+    expect(formatPageRange(null, null)).toBeNull();
+  });
+
+  it('formats timestamps with hours only when needed', () => {
+    expect(formatTimestamp(0)).toBe('00:00');
+    expect(formatTimestamp(245)).toBe('04:05');
+    expect(formatTimestamp(3723)).toBe('1:02:03');
+  });
+
+  it('formats time ranges', () => {
+    expect(formatTimeRange(245, 310)).toBe('04:05\u201305:10');
+    expect(formatTimeRange(245, null)).toBe('04:05');
+    expect(formatTimeRange(245, 245)).toBe('04:05');
+    expect(formatTimeRange(null, 10)).toBeNull();
+  });
+});
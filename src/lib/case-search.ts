@@ -0,0 +1,58 @@
+/**
+ * Client side of the case-search edge function: hit shape and locator formatting.
+ *
+ * Volume and OCR hits carry a page range (page_estimated = derived from the
+ * text offset and the volume page count, not read from a page marker);
+ * transcript hits carry a time range in seconds.
+ */
+
+export type CaseSearchSourceType = 'ocr' | 'transcript' | 'volume';
+
+export interface CaseSearchHit {
+  id: string;
+  source_type: CaseSearchSourceType;
+  file_id: string | null;
+  file_name: string | null;
+  volume_id: string | null;
+  volume_number: number | null;
+  volume_title: string | null;
+  label: string | null;
+  snippet: string;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+  time_start_seconds: number | null;
+  time_end_seconds: number | null;
+  similarity: number;
+  keyword_match: boolean;
+}
+
+export interface CaseIndexStatus {
+  sources: number;
+  indexed: number;
+  pending: number;
+  failed?: number;
+}
+
+/** "12" or "12-14" */
+export function formatPageRange(start: number | null, end: number | null): string | null {
+  if (start == null) return null;
+  return end == null || end === start ? String(start) : `${start}\u2013${end}`;
+}
+
+/** "04:05" below an hour, "1:02:03" above */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const mm = String(m).padStart(2, '0');
+  const ss = String(s).padStart(2, '0');
+  return h > 0 ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+/** "04:05-05:10", or just the start when the end is unknown */
+export function formatTimeRange(start: number | null, end: number | null): string | null {
+  if (start == null) return null;
+  return end == null || end <= start ? formatTimestamp(start) : `${formatTimestamp(start)}\u2013${formatTimestamp(end)}`;
+}
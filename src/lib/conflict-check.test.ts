@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { extractPartyNames, hasConflict, mergePartyCandidates, type ConflictMatch } from './conflict-check';
+import { nameMatchKey } from './unicode-utils';
+
+describe('nameMatchKey', () => {
+  it('brings Armenian, Cyrillic and Latin spellings together', () => {
+    const key = nameMatchKey('\u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576 \u0531\u0580\u0561\u0574');
+    expect(key).toBe('petrosian aram');
+    expect(nameMatchKey('\u041f\u0435\u0442\u0440\u043e\u0441\u044f\u043d \u0410\u0440\u0430\u043c')).toBe(key);
+    expect(nameMatchKey('Petrosyan, Aram')).toBe(key);
+    expect(nameMatchKey('PETROSIAN ARAM')).toBe(key);
+  });
+
+  it('maps Armenian digraphs', () => {
+    expect(nameMatchKey('\u053d\u0561\u0579\u0561\u057f\u0580\u0575\u0561\u0576')).toBe(nameMatchKey('Khachatryan'));
+    expect(nameMatchKey('Xachatryan')).toBe(nameMatchKey('Khachatryan'));
+    expect(nameMatchKey('\u0542\u0578\u0582\u056f\u0561\u057d\u0575\u0561\u0576')).toBe('ghukasian');
+  });
+});
+
+describe('extractPartyNames', () => {
+  it('finds Armenian names with their role and strips case endings', () => {
+    const parties = extractPartyNames('\u0540\u0561\u0575\u0581\u057e\u0578\u0580 \u0531\u0580\u0561\u0574 \u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576\u056b \u0570\u0561\u0575\u0581\u0576 \u0568\u0576\u0564\u0564\u0565\u0574 \u057a\u0561\u057f\u0561\u057d\u056d\u0561\u0576\u0578\u0572 \u0533\u0561\u0563\u056b\u056f \u054d\u0561\u0580\u0563\u057d\u0575\u0561\u0576\u056b');
+    expect(parties).toEqual([
+      { name: '\u0531\u0580\u0561\u0574 \u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576', role: 'claimant' },
+      { name: '\u0533\u0561\u0563\u056b\u056f \u054d\u0561\u0580\u0563\u057d\u0575\u0561\u0576', role: 'defendant' },
+    ]);
+  });
+
+  it('reads surname-first names with a patronymic', () => {
+    expect(extractPartyNames('\u041e\u0431\u0432\u0438\u043d\u044f\u0435\u043c\u044b\u0439 \u041f\u0435\u0442\u0440\u043e\u0441\u044f\u043d \u0410\u0440\u043c\u0435\u043d \u0413\u0430\u0433\u0438\u043a\u043e\u0432\u0438\u0447')).toEqual([
+      { name: '\u041f\u0435\u0442\u0440\u043e\u0441\u044f\u043d \u0410\u0440\u043c\u0435\u043d \u0413\u0430\u0433\u0438\u043a\u043e\u0432\u0438\u0447', role: 'accused' },
+    ]);
+  });
+
+  it('finds Russian and Latin names', () => {
+    const parties = extractPartyNames('\u043f\u043e\u0442\u0435\u0440\u043f\u0435\u0432\u0448\u0430\u044f \u0410\u043d\u043d\u0430 \u0418\u0432\u0430\u043d\u043e\u0432\u0430; witness John Ivanov');
+    expect(parties).toEqual([
+      { name: '\u0410\u043d\u043d\u0430 \u0418\u0432\u0430\u043d\u043e\u0432', role: 'victim' },
+      { name: 'John Ivanov', role: 'witness' },
+    ]);
+  });
+
+  it('finds organizations by their legal form', () => {
+    const names = extractPartyNames('\u00ab\u0531\u0580\u0561\u0580\u0561\u057f \u0551\u0565\u0574\u0565\u0576\u057f\u00bb \u0553\u0532\u0538 \u0587 \u041e\u041e\u041e \u00ab\u0421\u0435\u0432\u0435\u0440\u043d\u044b\u0439 \u0432\u0435\u0442\u0435\u0440\u00bb').map(p => p.name);
+    expect(names).toEqual(['\u0531\u0580\u0561\u0580\u0561\u057f \u0551\u0565\u0574\u0565\u0576\u057f', '\u0421\u0435\u0432\u0435\u0440\u043d\u044b\u0439 \u0432\u0435\u0442\u0435\u0440']);
+  });
+
+  it('ignores single words and capitalized words without a surname', () => {
+    expect(extractPartyNames('\u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576\u0568 \u0576\u0565\u0580\u056f\u0561\u0575\u0561\u0581\u0565\u056c \u0567\u0589 \u054e\u0573\u057c\u0561\u0562\u0565\u056f \u0534\u0561\u057f\u0561\u0580\u0561\u0576')).toEqual([]);
+    expect(extractPartyNames('')).toEqual([]);
+  });
+
+  it('deduplicates the same person across scripts', () => {
+    expect(extractPartyNames('Aram Petrosyan, also Aram Petrosian')).toHaveLength(1);
+  });
+});
+
+describe('mergePartyCandidates', () => {
+  it('keeps the first spelling and fills in a missing role', () => {
+    expect(mergePartyCandidates(
+      [{ name: '\u0531\u0580\u0561\u0574 \u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576', role: null }],
+      [{ name: 'Aram Petrosyan', role: 'victim' }, { name: 'Anna Ivanova', role: null }],
+    )).toEqual([
+      { name: '\u0531\u0580\u0561\u0574 \u054a\u0565\u057f\u0580\u0578\u057d\u0575\u0561\u0576', role: 'victim' },
+      { name: 'Anna Ivanova', role: null },
+    ]);
+  });
+});
+
+describe('hasConflict', () => {
+  const match = (relation: ConflictMatch['relation']) => ({ relation } as ConflictMatch);
+
+  it('is true only for opposite sides', () => {
+    expect(hasConflict([match('review'), match('same_side')])).toBe(false);
+    expect(hasConflict([match('review'), match('conflict')])).toBe(true);
+  });
+});
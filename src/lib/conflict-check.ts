@@ -0,0 +1,204 @@
+/**
+ * Conflict-of-interest check helpers.
+ *
+ * Matching runs in SQL (`check_case_conflicts`, keyed by `party_name_key`);
+ * this module finds candidate party names in free text (case title,
+ * description, facts) so a check can run before any AI extraction exists.
+ * Only names that look like a surname-bearing person or an organization with
+ * a legal form are picked up — a missed name is caught later by the
+ * extracted parties, a noisy one would make every check a false alarm.
+ */
+
+import { nameMatchKey } from './unicode-utils';
+
+export interface PartyCandidate {
+  name: string;
+  /** Procedural role as used by party_side() in the DB, null when unknown */
+  role: string | null;
+}
+
+export type ConflictRelation = 'conflict' | 'same_side' | 'review';
+
+/** Row returned by check_case_conflicts() */
+export interface ConflictMatch {
+  party_name: string;
+  party_side: string | null;
+  matched_name: string | null;
+  matched_role: string | null;
+  matched_side: string | null;
+  relation: ConflictRelation;
+  /** 'party': indexed party of the other case, 'text': found in its text */
+  match_source: 'party' | 'text';
+  /** Case id, number, title and matched_name are null when accessible is false */
+  case_id: string | null;
+  case_number: string | null;
+  case_title: string | null;
+  /** False for another lawyer's case the caller cannot open */
+  accessible: boolean;
+  score: number;
+}
+
+// ─── Names ──────────────────────────────────────────────────────────────────
+
+const WORD_PATTERNS = [
+  // Armenian
+  '[\u0531-\u0556][\u0561-\u0587]+',
+  // Cyrillic
+  '[\u0410-\u042f\u0401][\u0430-\u044f\u0451]+',
+  // Latin
+  '[A-Z][a-z]+',
+];
+
+// Surname with an optional case ending, e.g. Պետրոսյանի, Պետրոսյանից
+const ARMENIAN_SURNAME = /^(.+(?:\u0575\u0561\u0576\u0581|\u0575\u0561\u0576|\u0578\u0582\u0576\u0581|\u0578\u0582\u0576\u056b|\u0565\u0576\u0581))(?:\u056b|\u056b\u0576|\u056b\u0581|\u0578\u057e|\u0568|\u0576)?$/u;
+// Петросяна / Петросяном, Петрову / Петровым; female forms (Петрова,
+// Петровой) reduce to the male one
+const CYRILLIC_SURNAME = /^(.+(?:\u044f\u043d\u0446|\u044f\u043d|\u043e\u0432|\u0435\u0432|\u0438\u043d))(?:\u0430|\u0443|\u043e\u043c|\u044b\u043c|\u043e\u0439|\u0435)?$/u;
+const LATIN_SURNAME = /(?:yan|ian|yants|uni|ov|ova|ev|eva)$/;
+
+/** Nominative form of a surname, or null when the word is not one */
+function surnameBase(word: string): string | null {
+  const match = word.match(ARMENIAN_SURNAME) ?? word.match(CYRILLIC_SURNAME);
+  if (match) return match[1];
+  return LATIN_SURNAME.test(word) ? word : null;
+}
+
+// Legal forms that mark an organization name in quotes
+const LEGAL_FORMS = '\u054d\u054a\u0538|\u0532\u0532\u0538|\u0553\u0532\u0538|\u041e\u041e\u041e|\u041e\u0410\u041e|\u0417\u0410\u041e|\u0410\u041e|LLC|CJSC|OJSC';
+const ORGANIZATION_RE = new RegExp(
+  `(?:(?<![\\p{L}])(?:${LEGAL_FORMS})\\s*[\u00ab"\u201e]([^\u00bb"\u201c\\n]{2,80})[\u00bb"\u201c])` +
+    `|(?:[\u00ab"\u201e]([^\u00bb"\u201c\\n]{2,80})[\u00bb"\u201c]\\s*(?:${LEGAL_FORMS})(?![\\p{L}]))`,
+  'gu',
+);
+
+// ─── Roles ──────────────────────────────────────────────────────────────────
+
+// Lowercase stems, so declined forms match too
+const ROLE_KEYWORDS: Array<[string, string]> = [
+  ['\u0570\u0561\u0575\u0581\u057e\u0578\u0580', 'claimant'], ['\u0438\u0441\u0442\u0446', 'claimant'], ['\u0438\u0441\u0442\u0435\u0446', 'claimant'], ['plaintiff', 'claimant'], ['claimant', 'claimant'],
+  ['\u057a\u0561\u057f\u0561\u057d\u056d\u0561\u0576\u0578\u0572', 'defendant'], ['\u043e\u0442\u0432\u0435\u0442\u0447\u0438\u043a', 'defendant'], ['defendant', 'defendant'],
+  ['\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c', 'accused'], ['\u0561\u0574\u0562\u0561\u057d\u057f\u0561\u0576\u0575\u0561\u056c', 'accused'], ['\u056f\u0561\u057d\u056f\u0561\u056e\u0575\u0561\u056c', 'accused'],
+  ['\u043e\u0431\u0432\u0438\u043d\u044f\u0435\u043c', 'accused'], ['\u043f\u043e\u0434\u0441\u0443\u0434\u0438\u043c', 'accused'], ['\u043f\u043e\u0434\u043e\u0437\u0440\u0435\u0432\u0430\u0435\u043c', 'accused'], ['accused', 'accused'], ['suspect', 'accused'],
+  ['\u057f\u0578\u0582\u056a\u0578\u0572', 'victim'], ['\u043f\u043e\u0442\u0435\u0440\u043f\u0435\u0432\u0448', 'victim'], ['victim', 'victim'],
+  ['\u0564\u056b\u0574\u0578\u0572', 'applicant'], ['\u0437\u0430\u044f\u0432\u0438\u0442\u0435\u043b', 'applicant'], ['applicant', 'applicant'],
+  ['\u057e\u056f\u0561', 'witness'], ['\u0441\u0432\u0438\u0434\u0435\u0442\u0435\u043b', 'witness'], ['witness', 'witness'],
+  ['\u0576\u0565\u0580\u056f\u0561\u0575\u0561\u0581\u0578\u0582\u0581\u056b\u0579', 'representative'], ['\u043f\u0440\u0435\u0434\u0441\u0442\u0430\u0432\u0438\u0442\u0435\u043b', 'representative'], ['representative', 'representative'],
+];
+
+const ROLE_WINDOW = 40;
+
+/** Role named closest before `index` (within ROLE_WINDOW characters) */
+function roleBefore(text: string, index: number): string | null {
+  const window = text.slice(Math.max(0, index - ROLE_WINDOW), index).toLowerCase();
+  let best: { at: number; role: string } | null = null;
+  for (const [keyword, role] of ROLE_KEYWORDS) {
+    const at = window.lastIndexOf(keyword);
+    if (at >= 0 && (!best || at > best.at)) best = { at, role };
+  }
+  return best?.role ?? null;
+}
+
+function isRoleWord(word: string): boolean {
+  const lower = word.toLowerCase();
+  return ROLE_KEYWORDS.some(([keyword]) => lower.startsWith(keyword));
+}
+
+interface Word {
+  text: string;
+  start: number;
+  end: number;
+  surname: string | null;
+}
+
+function personNames(text: string): Array<{ name: string; start: number }> {
+  const found: Array<{ name: string; start: number }> = [];
+
+  for (const pattern of WORD_PATTERNS) {
+    const wordRe = new RegExp(`(?<![\\p{L}])${pattern}(?![\\p{L}])`, 'gu');
+    // A capitalized role word ("Истец Петросян") is not part of the name
+    const words: Word[] = Array.from(text.matchAll(wordRe))
+      .filter(m => !isRoleWord(m[0]))
+      .map(m => ({
+        text: m[0],
+        start: m.index!,
+        end: m.index! + m[0].length,
+        surname: surnameBase(m[0]),
+      }));
+
+    // Runs of capitalized words separated by whitespace only
+    const runs: Word[][] = [];
+    for (const word of words) {
+      const run = runs[runs.length - 1];
+      const prev = run?.[run.length - 1];
+      if (prev && /^[ \t]+$/.test(text.slice(prev.end, word.start))) run.push(word);
+      else runs.push([word]);
+    }
+
+    for (const run of runs) {
+      // "Surname Given Patronymic" when the run opens with a surname,
+      // otherwise "Given Surname"
+      const surnameFirst = run[0].surname !== null;
+      run.forEach((word, i) => {
+        if (!word.surname) return;
+        const parts = surnameFirst
+          ? [word, ...takeWhile(run.slice(i + 1, i + 3), w => !w.surname)]
+          : [...(i > 0 && !run[i - 1].surname ? [run[i - 1]] : []), word];
+        if (parts.length < 2) return;
+        found.push({
+          name: parts.map(w => w.surname ?? w.text).join(' '),
+          start: parts[0].start,
+        });
+      });
+    }
+  }
+
+  return found;
+}
+
+function takeWhile<T>(items: T[], pred: (item: T) => boolean): T[] {
+  const out: T[] = [];
+  for (const item of items) {
+    if (!pred(item)) break;
+    out.push(item);
+  }
+  return out;
+}
+
+/**
+ * Person (2–3 words, one of them a surname) and organization names found in
+ * the text, each with the role named just before it when there is one.
+ * Names are deduplicated by their match key.
+ */
+export function extractPartyNames(text: string): PartyCandidate[] {
+  if (!text) return [];
+
+  const found = personNames(text);
+  for (const m of text.matchAll(ORGANIZATION_RE)) {
+    found.push({ name: (m[1] ?? m[2]).trim(), start: m.index! });
+  }
+  found.sort((a, b) => a.start - b.start);
+
+  return mergePartyCandidates(
+    found.map(({ name, start }) => ({ name, role: roleBefore(text, start) })),
+  );
+}
+
+/**
+ * Merges candidate lists, keeping the first spelling of each name and the
+ * first known role.
+ */
+export function mergePartyCandidates(...lists: PartyCandidate[][]): PartyCandidate[] {
+  const byKey = new Map<string, PartyCandidate>();
+  for (const candidate of lists.flat()) {
+    const key = nameMatchKey(candidate.name);
+    if (!key) continue;
+    const existing = byKey.get(key);
+    if (!existing) byKey.set(key, { name: candidate.name, role: candidate.role ?? null });
+    else if (!existing.role && candidate.role) existing.role = candidate.role;
+  }
+  return Array.from(byKey.values());
+}
+
+export function hasConflict(matches: ConflictMatch[]): boolean {
+  return matches.some(m => m.relation === 'conflict');
+}
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import {
+  computeDeadline,
+  daysUntil,
+  getArmenianPublicHolidays,
+  isNonWorkingDay,
+  parseDeadlineTerm,
+} from "./deadline-calculator";
+
+describe("isNonWorkingDay", () => {
+  it("treats weekends as non-working", () => {
+    expect(isNonWorkingDay("2026-10-17")).toBe(true); // Saturday
+    expect(isNonWorkingDay("2026-10-18")).toBe(true); // Sunday
+    expect(isNonWorkingDay("2026-10-19")).toBe(false); // Monday
+  });
+
+  it("treats RA public holidays as non-working", () => {
+    expect(isNonWorkingDay("2026-09-21")).toBe(true); // Independence Day (Monday)
+    expect(isNonWorkingDay("2026-04-24")).toBe(true);
+    expect(isNonWorkingDay("2026-01-06")).toBe(true);
+  });
+
+  it("accepts extra holidays", () => {
+    expect(isNonWorkingDay("2026-10-20")).toBe(false);
+    expect(isNonWorkingDay("2026-10-20", { extraHolidays: ["2026-10-20"] })).toBe(true);
+  });
+
+  it("lists the fixed holidays for a year", () => {
+    const holidays = getArmenianPublicHolidays(2027);
+    expect(holidays).toContain("2027-01-01");
+    expect(holidays).toContain("2027-12-31");
+    expect(holidays).toHaveLength(12);
+  });
+});
+
+describe("computeDeadline", () => {
+  it("counts calendar days from the day after the trigger", () => {
+    const r = computeDeadline({ termLength: 10, unit: "calendar_days" }, "2026-10-05");
+    expect(r.startDate).toBe("2026-10-06");
+    expect(r.nominalDueDate).toBe("2026-10-15");
+    expect(r.dueDate).toBe("2026-10-15");
+    expect(r.shifted).toBe(false);
+  });
+
+  it("moves a calendar-day deadline off a weekend", () => {
+    // 2026-10-10 + 7 = 2026-10-17 (Saturday) -> Monday 2026-10-19
+    const r = computeDeadline({ termLength: 7, unit: "calendar_days" }, "2026-10-10");
+    expect(r.nominalDueDate).toBe("2026-10-17");
+    expect(r.dueDate).toBe("2026-10-19");
+    expect(r.shifted).toBe(true);
+  });
+
+  it("moves a deadline off a public holiday", () => {
+    // 2026-09-11 + 10 = 2026-09-21 (Independence Day, Monday) -> 2026-09-22
+    const r = computeDeadline({ termLength: 10, unit: "calendar_days" }, "2026-09-11");
+    expect(r.dueDate).toBe("2026-09-22");
+  });
+
+  it("counts working days skipping weekends and holidays", () => {
+    // Friday 2026-09-18; next working days: 22, 23, 24, 25 (21 is a holiday)
+    const r = computeDeadline({ termLength: 4, unit: "working_days" }, "2026-09-18");
+    expect(r.dueDate).toBe("2026-09-25");
+    expect(r.shifted).toBe(false);
+  });
+
+  it("ends month terms on the corresponding date", () => {
+    const r = computeDeadline({ termLength: 1, unit: "months" }, "2026-03-16");
+    expect(r.dueDate).toBe("2026-04-16");
+  });
+
+  it("clamps month terms to the last day of a shorter month", () => {
+    // 2026-01-31 + 1 month -> 2026-02-28 (Saturday) -> Monday 2026-03-02
+    const r = computeDeadline({ termLength: 1, unit: "months" }, "2026-01-31");
+    expect(r.nominalDueDate).toBe("2026-02-28");
+    expect(r.dueDate).toBe("2026-03-02");
+  });
+
+  it("handles year terms across leap years", () => {
+    const r = computeDeadline({ termLength: 1, unit: "years" }, "2028-02-29");
+    expect(r.nominalDueDate).toBe("2029-02-28");
+  });
+
+  it("rejects invalid input", () => {
+    expect(() => computeDeadline({ termLength: 0, unit: "calendar_days" }, "2026-10-05")).toThrow();
+    expect(() => computeDeadline({ termLength: 1.5, unit: "months" }, "2026-10-05")).toThrow();
+    expect(() => computeDeadline({ termLength: 5, unit: "calendar_days" }, "not-a-date")).toThrow();
+  });
+});
+
+describe("daysUntil", () => {
+  it("returns signed calendar-day difference", () => {
+    expect(daysUntil("2026-10-20", "2026-10-18")).toBe(2);
+    expect(daysUntil("2026-10-18", "2026-10-18")).toBe(0);
+    expect(daysUntil("2026-10-15", "2026-10-18")).toBe(-3);
+  });
+});
+
+describe("parseDeadlineTerm", () => {
+  it("parses English rule text", () => {
+    expect(parseDeadlineTerm("15 working days from notification")).toEqual({ termLength: 15, unit: "working_days" });
+    expect(parseDeadlineTerm("30 calendar days from receipt")).toEqual({ termLength: 30, unit: "calendar_days" });
+    expect(parseDeadlineTerm("within 1 month")).toEqual({ termLength: 1, unit: "months" });
+    expect(parseDeadlineTerm("3 years")).toEqual({ termLength: 3, unit: "years" });
+  });
+
+  it("parses Russian rule text", () => {
+    expect(parseDeadlineTerm("10 рабочих дней")).toEqual({ termLength: 10, unit: "working_days" });
+    expect(parseDeadlineTerm("15 дней")).toEqual({ termLength: 15, unit: "calendar_days" });
+    expect(parseDeadlineTerm("2 месяца")).toEqual({ termLength: 2, unit: "months" });
+  });
+
+  it("parses Armenian rule text", () => {
+    expect(parseDeadlineTerm("15 աշխատանքային օր")).toEqual({ termLength: 15, unit: "working_days" });
+    expect(parseDeadlineTerm("30 օր")).toEqual({ termLength: 30, unit: "calendar_days" });
+    expect(parseDeadlineTerm("1 ամիս")).toEqual({ termLength: 1, unit: "months" });
+  });
+
+  it("prefers the earliest mention", () => {
+    expect(parseDeadlineTerm("2 months and 10 days")).toEqual({ termLength: 2, unit: "months" });
+  });
+
+  it("returns null when no term is present", () => {
+    expect(parseDeadlineTerm("")).toBeNull();
+    expect(parseDeadlineTerm("reasonable time")).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Deterministic procedural deadline calculator (Republic of Armenia).
+ *
+ * The DEADLINE_RULE_PICKER prompt only identifies the applicable rule
+ * (code, article, term length, unit, triggering event). The date arithmetic
+ * is done here, in code, following the general RA rules on computation of terms:
+ *
+ *   - A term starts on the day after the triggering event.
+ *   - Day terms expire on the last day of the term.
+ *   - Month/year terms expire on the corresponding date of the last month/year;
+ *     if that month has no such date, on its last day.
+ *   - Working-day terms count only working days (Mon-Fri, excluding public holidays).
+ *   - If the last day falls on a non-working day, the term expires on the
+ *     next working day.
+ *
+ * All dates are calendar dates in "YYYY-MM-DD" form; arithmetic is done in UTC
+ * so the result never depends on the browser timezone.
+ */
+
+export type DeadlineTermUnit = 'calendar_days' | 'working_days' | 'months' | 'years';
+
+export interface DeadlineTermRule {
+  /** Procedural code, e.g. "Civil Procedure Code" */
+  code?: string;
+  /** Article reference, e.g. "Art. 361" */
+  article?: string;
+  termLength: number;
+  unit: DeadlineTermUnit;
+  triggeringEvent?: string;
+}
+
+export interface DeadlineComputation {
+  /** Date of the triggering event */
+  triggerDate: string;
+  /** First day of the term (day after the trigger) */
+  startDate: string;
+  /** Last day of the term before the non-working-day shift */
+  nominalDueDate: string;
+  /** Effective last day on which the action may be performed */
+  dueDate: string;
+  /** True if nominalDueDate fell on a non-working day and was moved */
+  shifted: boolean;
+}
+
+export interface DeadlineCalculatorOptions {
+  /** Additional non-working days ("YYYY-MM-DD"), e.g. Government-declared transfers */
+  extraHolidays?: string[];
+}
+
+/**
+ * Fixed-date non-working public holidays (RA Law "On Holidays and Memorial Days").
+ * Format: "MM-DD".
+ */
+export const ARMENIAN_PUBLIC_HOLIDAYS: readonly string[] = [
+  '01-01', // New Year
+  '01-02', // New Year
+  '01-06', // Christmas
+  '01-28', // Army Day
+  '03-08', // Women's Day
+  '04-24', // Genocide Remembrance Day
+  '05-01', // Labour Day
+  '05-09', // Victory and Peace Day
+  '05-28', // First Republic Day
+  '07-05', // Constitution Day
+  '09-21', // Independence Day
+  '12-31', // New Year's Eve
+];
+
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})/;
+
+function parseDate(input: string | Date): Date {
+  if (input instanceof Date) {
+    return new Date(Date.UTC(input.getFullYear(), input.getMonth(), input.getDate()));
+  }
+  const m = ISO_DATE_RE.exec(input);
+  if (!m) throw new Error(`Invalid date: ${input}`);
+  return new Date(Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3])));
+}
+
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(date: Date, days: number): Date {
+  const d = new Date(date.getTime());
+  d.setUTCDate(d.getUTCDate() + days);
+  return d;
+}
+
+function addMonthsClamped(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDayOfTarget = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDayOfTarget)));
+}
+
+/**
+ * Returns the fixed public holidays of a given year as "YYYY-MM-DD" strings.
+ */
+export function getArmenianPublicHolidays(year: number): string[] {
+  return ARMENIAN_PUBLIC_HOLIDAYS.map((md) => `${year}-${md}`);
+}
+
+/**
+ * True for Saturdays, Sundays, RA public holidays and any extra holidays supplied.
+ */
+export function isNonWorkingDay(date: string | Date, options: DeadlineCalculatorOptions = {}): boolean {
+  const d = parseDate(date);
+  const weekday = d.getUTCDay();
+  if (weekday === 0 || weekday === 6) return true;
+
+  const iso = formatDate(d);
+  if (ARMENIAN_PUBLIC_HOLIDAYS.includes(iso.slice(5))) return true;
+  return options.extraHolidays?.includes(iso) ?? false;
+}
+
+function nextWorkingDay(date: Date, options: DeadlineCalculatorOptions): Date {
+  let d = date;
+  while (isNonWorkingDay(d.toISOString(), options)) {
+    d = addDays(d, 1);
+  }
+  return d;
+}
+
+/**
+ * Computes the due date of a procedural term from the triggering event date.
+ *
+ * Throws on an invalid trigger date or a non-positive / non-integer term length.
+ */
+export function computeDeadline(
+  rule: DeadlineTermRule,
+  triggerDate: string | Date,
+  options: DeadlineCalculatorOptions = {}
+): DeadlineComputation {
+  if (!Number.isInteger(rule.termLength) || rule.termLength <= 0) {
+    throw new Error(`Invalid term length: ${rule.termLength}`);
+  }
+
+  const trigger = parseDate(triggerDate);
+  const start = addDays(trigger, 1);
+  let nominal: Date;
+
+  switch (rule.unit) {
+    case 'calendar_days':
+      nominal = addDays(trigger, rule.termLength);
+      break;
+    case 'working_days': {
+      let remaining = rule.termLength;
+      let d = trigger;
+      while (remaining > 0) {
+        d = addDays(d, 1);
+        if (!isNonWorkingDay(d.toISOString(), options)) remaining--;
+      }
+      nominal = d;
+      break;
+    }
+    case 'months':
+      nominal = addMonthsClamped(trigger, rule.termLength);
+      break;
+    case 'years':
+      nominal = addMonthsClamped(trigger, rule.termLength * 12);
+      break;
+    default:
+      throw new Error(`Unknown term unit: ${rule.unit}`);
+  }
+
+  const due = nextWorkingDay(nominal, options);
+
+  return {
+    triggerDate: formatDate(trigger),
+    startDate: formatDate(start),
+    nominalDueDate: formatDate(nominal),
+    dueDate: formatDate(due),
+    shifted: due.getTime() !== nominal.getTime(),
+  };
+}
+
+/**
+ * Whole calendar days from `today` until `dueDate` (negative if already expired).
+ */
+export function daysUntil(dueDate: string, today: string | Date = new Date()): number {
+  const diff = parseDate(dueDate).getTime() - parseDate(today).getTime();
+  return Math.round(diff / 86_400_000);
+}
+
+// Unit keywords (EN / RU / HY). Working-day patterns must be tested before plain days.
+const TERM_PATTERNS: Array<{ unit: DeadlineTermUnit; re: RegExp }> = [
+  { unit: 'working_days', re: /(\d+)\s*(?:working|business)\s*days?/i },
+  { unit: 'working_days', re: /(\d+)\s*\u0440\u0430\u0431\u043E\u0447/i },
+  { unit: 'working_days', re: /(\d+)\s*\u0561\u0577\u056D\u0561\u057F/i },
+  { unit: 'calendar_days', re: /(\d+)\s*(?:calendar\s*)?days?\b/i },
+  { unit: 'calendar_days', re: /(\d+)\s*(?:\u043A\u0430\u043B\u0435\u043D\u0434\u0430\u0440\u043D\S*\s*)?(?:\u0434\u043D|\u0434\u0435\u043D\u044C|\u0441\u0443\u0442)/i },
+  { unit: 'calendar_days', re: /(\d+)\s*(?:\u0585\u0580\u0561\u0581\u0578\u0582\u0575\u0581\u0561\u0575\u056B\u0576\s*)?\u0585\u0580/i },
+  { unit: 'months', re: /(\d+)\s*months?/i },
+  { unit: 'months', re: /(\d+)\s*\u043C\u0435\u0441\u044F\u0446/i },
+  { unit: 'months', re: /(\d+)\s*\u0561\u0574(?:\u056B\u057D|\u057D)/i },
+  { unit: 'years', re: /(\d+)\s*years?/i },
+  { unit: 'years', re: /(\d+)\s*(?:\u0433\u043E\u0434|\u043B\u0435\u0442)/i },
+  { unit: 'years', re: /(\d+)\s*\u057F\u0561\u0580/i },
+];
+
+/**
+ * Best-effort extraction of a term from free-text rule descriptions,
+ * e.g. "15 working days from notification" or "1 month". Returns null if no term is found.
+ */
+export function parseDeadlineTerm(text: string): Pick<DeadlineTermRule, 'termLength' | 'unit'> | null {
+  if (!text) return null;
+
+  // The earliest mention wins ("2 months and 10 days" -> 2 months)
+  let best: { index: number; termLength: number; unit: DeadlineTermUnit } | null = null;
+  for (const { unit, re } of TERM_PATTERNS) {
+    const m = re.exec(text);
+    if (!m) continue;
+    const termLength = parseInt(m[1], 10);
+    if (termLength > 0 && (!best || m.index < best.index)) {
+      best = { index: m.index, termLength, unit };
+    }
+  }
+  return best ? { termLength: best.termLength, unit: best.unit } : null;
+}
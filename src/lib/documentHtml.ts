@@ -0,0 +1,42 @@
+/**
+ * Plain-text generated documents → TipTap HTML.
+ *
+ * Generated documents are stored as plain text. The editor and the DOCX
+ * exporter both rebuild the same structure from it: title lines become
+ * centered H1, numbered sections H3, everything else justified paragraphs.
+ */
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+export function plainTextToDocumentHtml(text: string): string {
+  if (!text) return '<p></p>';
+
+  const lines = text.split('\n');
+  let html = '';
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+
+    // Check for headers (all caps lines or specific patterns)
+    if (/^[А-ЯA-Z\s]{5,}$/.test(trimmed) ||
+        /^(ЗАЯВЛЕНИЕ|ЖАЛОБА|ХОДАТАЙСТВО|ИСКОВОЕ|ОБРАЩЕНИЕ|ТРЕБОВАНИЕ|\u0534\u056B\u0574\u0578\u0582\u0574|\u0532\u0578\u0572\u0578\u0584)/i.test(trimmed)) {
+      html += `<h1 style="text-align: center">${escapeHtml(trimmed)}</h1>`;
+    }
+    // Section headers (numbered)
+    else if (/^\d+\./.test(trimmed) || /^(I\.|II\.|III\.|IV\.|V\.)/.test(trimmed)) {
+      html += `<h3>${escapeHtml(line)}</h3>`;
+    }
+    // Empty lines
+    else if (trimmed === '') {
+      html += '<p><br></p>';
+    }
+    // Regular paragraphs
+    else {
+      html += `<p style="text-align: justify">${escapeHtml(line)}</p>`;
+    }
+  }
+
+  return html || '<p></p>';
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import { htmlToDocxBlocks, analysisTextToDocxBlocks, transcriptToDocxBlocks } from './docxExport';
+import { plainTextToDocumentHtml } from './documentHtml';
+
+describe('htmlToDocxBlocks', () => {
+  it('keeps headings, alignment and inline marks', () => {
+    const blocks = htmlToDocxBlocks(
+      '<h1 style="text-align: center">\u0532\u0548\u0542\u0548\u0554</h1>' +
+      '<p style="text-align: justify">Plain <strong>bold</strong> <em><u>both</u></em></p>' +
+      '<p><br></p>'
+    );
+
+    expect(blocks[0]).toMatchObject({ type: 'heading', headingLevel: 1, alignment: 'center', runs: [{ text: '\u0532\u0548\u0542\u0548\u0554' }] });
+    expect(blocks[1].alignment).toBe('justify');
+    expect(blocks[1].runs).toEqual([
+      { text: 'Plain ' },
+      { text: 'bold', bold: true },
+      { text: ' ' },
+      { text: 'both', italics: true, underline: true },
+    ]);
+    expect(blocks[2]).toMatchObject({ type: 'paragraph', runs: [] });
+  });
+
+  it('maps nested lists to levels and restarts numbering per list', () => {
+    const blocks = htmlToDocxBlocks(
+      '<ol><li><p>One</p><ul><li><p>Sub</p></li></ul></li><li><p>Two</p></li></ol>' +
+      '<ol><li><p>Again</p></li></ol>'
+    );
+
+    expect(blocks.map(b => [b.runs[0].text, b.list?.ordered, b.list?.level])).toEqual([
+      ['One', true, 0],
+      ['Sub', false, 1],
+      ['Two', true, 0],
+      ['Again', true, 0],
+    ]);
+    expect(blocks[0].list?.instance).toBe(blocks[2].list?.instance);
+    expect(blocks[3].list?.instance).not.toBe(blocks[0].list?.instance);
+  });
+
+  it('reads plain-text documents through the editor conversion', () => {
+    const blocks = htmlToDocxBlocks(plainTextToDocumentHtml('ЖАЛОБА\n1. Facts\nA < B & C'));
+
+    expect(blocks.map(b => b.type)).toEqual(['heading', 'heading', 'paragraph']);
+    expect(blocks[1].headingLevel).toBe(3);
+    expect(blocks[2].runs[0].text).toBe('A < B & C');
+  });
+});
+
+describe('analysisTextToDocxBlocks', () => {
+  it('turns markdown headings, bullets and bold into blocks', () => {
+    const blocks = analysisTextToDocxBlocks('## Conclusion\n- first **key** point\n  - detail\n\nText');
+
+    expect(blocks[0]).toMatchObject({ type: 'heading', headingLevel: 2, runs: [{ text: 'Conclusion' }] });
+    expect(blocks[1].list).toMatchObject({ ordered: false, level: 0 });
+    expect(blocks[1].runs).toEqual([{ text: 'first ' }, { text: 'key', bold: true }, { text: ' point' }]);
+    expect(blocks[2].list?.level).toBe(1);
+    expect(blocks[3]).toMatchObject({ type: 'paragraph', runs: [] });
+    expect(blocks[4]).toMatchObject({ type: 'paragraph', alignment: 'justify', runs: [{ text: 'Text' }] });
+  });
+});
+
+describe('transcriptToDocxBlocks', () => {
+  it('lists participants and writes one paragraph per segment', () => {
+    const blocks = transcriptToDocxBlocks({
+      title: 'Hearing protocol',
+      details: ['Case 12/2026'],
+      participantsHeading: 'Participants',
+      participants: ['Judge Petrosyan — Judge'],
+      entries: [
+        { time: '0:00', speaker: 'Judge Petrosyan', text: 'Court is in session.' },
+        { time: null, speaker: 'Speaker 2', text: 'Ready.' },
+      ],
+      headerText: '12/2026',
+      fileName: 'protocol.docx',
+    });
+
+    expect(blocks.map(b => b.type)).toEqual(['heading', 'paragraph', 'heading', 'listItem', 'paragraph', 'paragraph', 'paragraph']);
+    expect(blocks[5].runs).toEqual([
+      { text: '[0:00] ' },
+      { text: 'Judge Petrosyan: ', bold: true },
+      { text: 'Court is in session.' },
+    ]);
+    expect(blocks[6].runs[0]).toEqual({ text: 'Speaker 2: ', bold: true });
+  });
+});
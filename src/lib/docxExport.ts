@@ -0,0 +1,526 @@
+import {
+  AlignmentType,
+  Document,
+  Footer,
+  Header,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  PageNumber,
+  Paragraph,
+  TabStopType,
+  TextRun,
+} from "docx";
+import { loadArmenianFontBytes, containsArmenian } from "./pdf/fontLoader";
+import { plainTextToDocumentHtml } from "./documentHtml";
+import { DISCLAIMER, LABELS as DOCUMENT_LABELS } from "./pdfExportDocument";
+import { DISCLAIMER_EN, LABELS as ANALYSIS_LABELS, ROLE_LABELS, type AnalysisExportData } from "./pdfExport";
+
+// =============================================================================
+// DOCX EXPORT — editable Word files for generated documents and AI analyses
+// =============================================================================
+// Mirrors the PDF exporters (same header, disclaimer and page numbering) but
+// keeps the document structure: TipTap HTML is mapped to Word headings,
+// alignment, bold/italic/underline and real bullet/numbered lists. Armenian
+// runs use the Noto Sans Armenian font bundled for PDF, embedded in the file.
+
+const ARMENIAN_FONT = "Noto Sans Armenian";
+const DEFAULT_FONT = "Times New Roman";
+const ORDERED_LIST = "ordered-list";
+
+type Alignment = "left" | "center" | "right" | "justify";
+
+export interface DocxRun {
+  text: string;
+  bold?: boolean;
+  italics?: boolean;
+  underline?: boolean;
+  /** Line break before the text (from <br>) */
+  lineBreak?: boolean;
+}
+
+export interface DocxBlock {
+  type: "heading" | "paragraph" | "listItem";
+  headingLevel?: 1 | 2 | 3;
+  alignment?: Alignment;
+  list?: { ordered: boolean; level: number; instance: number };
+  runs: DocxRun[];
+}
+
+export interface DocxRecipient {
+  name?: string;
+  position?: string;
+  organization?: string;
+  address?: string | null;
+}
+
+export interface DocxSender {
+  name?: string;
+  address?: string;
+  contact?: string;
+}
+
+export interface DocumentDocxData {
+  title: string;
+  /** Plain-text document; used when no editor HTML is available */
+  content: string;
+  /** TipTap HTML from DocumentEditor */
+  html?: string;
+  recipient?: DocxRecipient;
+  sender?: DocxSender;
+  createdAt: Date;
+  language?: "hy" | "ru" | "en";
+}
+
+export interface TranscriptDocxData {
+  title: string;
+  /** Lines under the title: case, recording, date, duration */
+  details: string[];
+  participantsHeading: string;
+  /** One line per speaker, e.g. "Name — Judge" */
+  participants: string[];
+  entries: Array<{ time: string | null; speaker: string; text: string }>;
+  /** Right side of the page header, e.g. the case number */
+  headerText: string;
+  fileName: string;
+  language?: "hy" | "ru" | "en";
+}
+
+// ── HTML / text → blocks ─────────────────────────────────────────────────────
+
+type Marks = Pick<DocxRun, "bold" | "italics" | "underline">;
+
+function parseAlignment(el: Element): Alignment | undefined {
+  const align = (el as HTMLElement).style?.textAlign;
+  return align === "left" || align === "center" || align === "right" || align === "justify" ? align : undefined;
+}
+
+function collectRuns(nodes: NodeListOf<ChildNode> | ChildNode[], marks: Marks, runs: DocxRun[]): DocxRun[] {
+  let pendingBreak = false;
+  for (const node of Array.from(nodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent ?? "";
+      if (!text) continue;
+      runs.push({ text, ...marks, ...(pendingBreak ? { lineBreak: true } : {}) });
+      pendingBreak = false;
+      continue;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+    const el = node as Element;
+    const tag = el.tagName.toLowerCase();
+    if (tag === "br") {
+      pendingBreak = true;
+      continue;
+    }
+    if (tag === "ul" || tag === "ol") continue;
+    const next: Marks = {
+      ...marks,
+      ...(tag === "strong" || tag === "b" ? { bold: true } : {}),
+      ...(tag === "em" || tag === "i" ? { italics: true } : {}),
+      ...(tag === "u" ? { underline: true } : {}),
+    };
+    collectRuns(el.childNodes, next, runs);
+  }
+  // A trailing <br> (TipTap's empty paragraph) adds nothing visible
+  return runs;
+}
+
+/** TipTap HTML (headings, paragraphs, marks, nested lists) → DOCX blocks */
+export function htmlToDocxBlocks(html: string): DocxBlock[] {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const blocks: DocxBlock[] = [];
+  let listInstance = 0;
+
+  const walkList = (list: Element, level: number) => {
+    const ordered = list.tagName.toLowerCase() === "ol";
+    const instance = ++listInstance;
+    for (const li of Array.from(list.children)) {
+      if (li.tagName.toLowerCase() !== "li") continue;
+      const inline = Array.from(li.childNodes).filter(
+        (n) => !(n.nodeType === Node.ELEMENT_NODE && ["ul", "ol"].includes((n as Element).tagName.toLowerCase())),
+      );
+      blocks.push({ type: "listItem", list: { ordered, level, instance }, runs: collectRuns(inline, {}, []) });
+      for (const nested of Array.from(li.children)) {
+        const tag = nested.tagName.toLowerCase();
+        if (tag === "ul" || tag === "ol") walkList(nested, Math.min(level + 1, 2));
+      }
+    }
+  };
+
+  const walk = (nodes: NodeListOf<ChildNode>) => {
+    for (const node of Array.from(nodes)) {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const text = node.textContent?.trim();
+        if (text) blocks.push({ type: "paragraph", runs: [{ text }] });
+        continue;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) continue;
+      const el = node as Element;
+      const tag = el.tagName.toLowerCase();
+      const heading = /^h([1-6])$/.exec(tag);
+      if (heading) {
+        blocks.push({
+          type: "heading",
+          headingLevel: Math.min(Number(heading[1]), 3) as 1 | 2 | 3,
+          alignment: parseAlignment(el),
+          runs: collectRuns(el.childNodes, {}, []),
+        });
+      } else if (tag === "p") {
+        blocks.push({ type: "paragraph", alignment: parseAlignment(el), runs: collectRuns(el.childNodes, {}, []) });
+      } else if (tag === "ul" || tag === "ol") {
+        walkList(el, 0);
+      } else if (tag !== "hr") {
+        walk(el.childNodes);
+      }
+    }
+  };
+
+  walk(doc.body.childNodes);
+  return blocks;
+}
+
+function markdownRuns(text: string): DocxRun[] {
+  return text
+    .split(/(\*\*[^*]+\*\*)/)
+    .filter(Boolean)
+    .map((part) => (part.startsWith("**") && part.endsWith("**") && part.length > 4
+      ? { text: part.slice(2, -2), bold: true }
+      : { text: part }));
+}
+
+/** AI analysis text (plain text with light markdown) → DOCX blocks */
+export function analysisTextToDocxBlocks(text: string): DocxBlock[] {
+  let listInstance = 0;
+  let inList = false;
+  return text.split("\n").map((line): DocxBlock => {
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line.trim());
+    const bullet = /^(\s*)[-*•]\s+(.*)$/.exec(line);
+    if (!bullet) inList = false;
+    if (heading) {
+      return { type: "heading", headingLevel: heading[1].length as 1 | 2 | 3, runs: markdownRuns(heading[2]) };
+    }
+    if (bullet) {
+      if (!inList) listInstance++;
+      inList = true;
+      const level = Math.min(Math.floor(bullet[1].length / 2), 2);
+      return { type: "listItem", list: { ordered: false, level, instance: listInstance }, runs: markdownRuns(bullet[2]) };
+    }
+    return { type: "paragraph", alignment: "justify", runs: line.trim() ? markdownRuns(line) : [] };
+  });
+}
+
+/** Hearing protocol: participants, then one "[time] Speaker: text" paragraph per segment */
+export function transcriptToDocxBlocks(data: TranscriptDocxData): DocxBlock[] {
+  const blocks: DocxBlock[] = [
+    { type: "heading", headingLevel: 1, alignment: "center", runs: [{ text: data.title }] },
+    ...data.details.map((text): DocxBlock => ({ type: "paragraph", runs: [{ text }] })),
+  ];
+  if (data.participants.length > 0) {
+    blocks.push(
+      { type: "heading", headingLevel: 2, runs: [{ text: data.participantsHeading }] },
+      ...data.participants.map((text): DocxBlock => ({
+        type: "listItem",
+        list: { ordered: false, level: 0, instance: 0 },
+        runs: [{ text }],
+      })),
+    );
+  }
+  blocks.push({ type: "paragraph", runs: [] });
+  for (const entry of data.entries) {
+    blocks.push({
+      type: "paragraph",
+      alignment: "justify",
+      runs: [
+        ...(entry.time ? [{ text: `[${entry.time}] ` }] : []),
+        { text: `${entry.speaker}: `, bold: true },
+        { text: entry.text },
+      ],
+    });
+  }
+  return blocks;
+}
+
+// ── Blocks → docx ────────────────────────────────────────────────────────────
+
+const ALIGNMENT = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT,
+  justify: AlignmentType.JUSTIFIED,
+} as const;
+
+const HEADING = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+} as const;
+
+function fontFor(text: string, hasArmenianFont: boolean): string {
+  return hasArmenianFont && containsArmenian(text) ? ARMENIAN_FONT : DEFAULT_FONT;
+}
+
+function textRun(run: DocxRun, hasArmenianFont: boolean, size?: number): TextRun {
+  return new TextRun({
+    text: run.text,
+    bold: run.bold,
+    italics: run.italics,
+    underline: run.underline ? {} : undefined,
+    break: run.lineBreak ? 1 : undefined,
+    font: fontFor(run.text, hasArmenianFont),
+    size,
+  });
+}
+
+function blockToParagraph(block: DocxBlock, hasArmenianFont: boolean): Paragraph {
+  const children = block.runs.map((r) => textRun(r, hasArmenianFont));
+  if (block.type === "heading") {
+    return new Paragraph({
+      heading: HEADING[block.headingLevel ?? 1],
+      alignment: block.alignment ? ALIGNMENT[block.alignment] : undefined,
+      children,
+    });
+  }
+  if (block.type === "listItem" && block.list) {
+    return new Paragraph({
+      ...(block.list.ordered
+        ? { numbering: { reference: ORDERED_LIST, level: block.list.level, instance: block.list.instance } }
+        : { bullet: { level: block.list.level } }),
+      children,
+    });
+  }
+  return new Paragraph({
+    alignment: block.alignment ? ALIGNMENT[block.alignment] : undefined,
+    spacing: { after: 120 },
+    children,
+  });
+}
+
+function plainParagraph(text: string, hasArmenianFont: boolean, options: { bold?: boolean; size?: number; alignment?: Alignment } = {}): Paragraph {
+  return new Paragraph({
+    alignment: options.alignment ? ALIGNMENT[options.alignment] : undefined,
+    children: [textRun({ text, bold: options.bold }, hasArmenianFont, options.size)],
+  });
+}
+
+function pageHeader(rightText: string, hasArmenianFont: boolean): Header {
+  return new Header({
+    children: [
+      new Paragraph({
+        tabStops: [{ type: TabStopType.RIGHT, position: 9360 }],
+        children: [
+          new TextRun({ text: "AI Legal Armenia", size: 18, font: DEFAULT_FONT }),
+          new TextRun({ text: `\t${rightText}`, size: 18, font: fontFor(rightText, hasArmenianFont) }),
+        ],
+      }),
+    ],
+  });
+}
+
+/** Disclaimer and "N / M" page numbers, as in the PDF footer */
+function pageFooter(disclaimer: string, hasArmenianFont: boolean): Footer {
+  return new Footer({
+    children: [
+      new Paragraph({
+        border: { top: { style: "single", size: 4, color: "B4B4B4", space: 4 } },
+        children: [new TextRun({ text: disclaimer, size: 14, color: "505050", font: fontFor(disclaimer, hasArmenianFont) })],
+      }),
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        children: [
+          new TextRun({ children: [PageNumber.CURRENT, " / ", PageNumber.TOTAL_PAGES], size: 16, color: "646464" }),
+        ],
+      }),
+    ],
+  });
+}
+
+async function buildDocument(
+  body: (hasArmenianFont: boolean) => Paragraph[],
+  headerText: string,
+  disclaimer: string,
+): Promise<Document> {
+  let fontBytes: Uint8Array | null = null;
+  try {
+    fontBytes = await loadArmenianFontBytes();
+  } catch (error) {
+    console.warn("Could not load Armenian font, using fallback:", error);
+  }
+  const hasArmenianFont = !!fontBytes;
+
+  return new Document({
+    creator: "AI Legal Armenia",
+    // docx types the font data as Buffer but only needs the raw bytes
+    fonts: fontBytes ? [{ name: ARMENIAN_FONT, data: fontBytes as unknown as Buffer }] : [],
+    styles: {
+      default: {
+        document: { run: { font: DEFAULT_FONT, size: 24 } },
+        heading1: { run: { size: 32, bold: true, color: "000000" }, paragraph: { spacing: { before: 240, after: 120 } } },
+        heading2: { run: { size: 28, bold: true, color: "000000" }, paragraph: { spacing: { before: 200, after: 100 } } },
+        heading3: { run: { size: 24, bold: true, color: "000000" }, paragraph: { spacing: { before: 160, after: 80 } } },
+      },
+    },
+    numbering: {
+      config: [{
+        reference: ORDERED_LIST,
+        levels: [0, 1, 2].map((level) => ({
+          level,
+          format: LevelFormat.DECIMAL,
+          text: `%${level + 1}.`,
+          alignment: AlignmentType.START,
+          style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+        })),
+      }],
+    },
+    sections: [{
+      headers: { default: pageHeader(headerText, hasArmenianFont) },
+      footers: { default: pageFooter(disclaimer, hasArmenianFont) },
+      children: body(hasArmenianFont),
+    }],
+  });
+}
+
+function localeFor(language: "hy" | "ru" | "en"): string {
+  return language === "hy" ? "hy-AM" : language === "ru" ? "ru-RU" : "en-US";
+}
+
+async function saveDocx(doc: Document, filename: string): Promise<void> {
+  const blob = await Packer.toBlob(doc);
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** Right-aligned court header: recipient, then sender (RecipientForm / SenderForm) */
+function addresseeBlock(data: DocumentDocxData, hasArmenianFont: boolean): Paragraph[] {
+  const labels = DOCUMENT_LABELS[data.language || "hy"];
+  const r = data.recipient;
+  const s = data.sender;
+  const lines: Array<{ text: string; bold?: boolean }> = [];
+
+  const recipientHead = r?.organization || r?.name;
+  if (recipientHead) {
+    lines.push({ text: `${labels.to} ${recipientHead}`, bold: true });
+    const person = [r?.position, r?.organization ? r?.name : undefined].filter(Boolean).join(" ");
+    if (person) lines.push({ text: person });
+    if (r?.address) lines.push({ text: r.address });
+  }
+  if (s?.name) {
+    if (lines.length > 0) lines.push({ text: "" });
+    lines.push({ text: `${labels.from} ${s.name}`, bold: true });
+    if (s.address) lines.push({ text: s.address });
+    if (s.contact) lines.push({ text: s.contact });
+  }
+  if (lines.length === 0) return [];
+
+  return [
+    ...lines.map((l) => plainParagraph(l.text, hasArmenianFont, { bold: l.bold, alignment: "right" })),
+    new Paragraph({ children: [] }),
+  ];
+}
+
+export async function exportDocumentToDocx(data: DocumentDocxData): Promise<void> {
+  const lang = data.language || "hy";
+  const exportDate = new Date();
+  const blocks = htmlToDocxBlocks(data.html || plainTextToDocumentHtml(data.content));
+
+  const doc = await buildDocument(
+    (hasArmenianFont) => [
+      ...addresseeBlock(data, hasArmenianFont),
+      plainParagraph(data.title, hasArmenianFont, { bold: true, size: 32, alignment: "center" }),
+      plainParagraph(`${DOCUMENT_LABELS[lang].date} ${data.createdAt.toLocaleDateString(localeFor(lang))}`, hasArmenianFont, { alignment: "right" }),
+      new Paragraph({ children: [] }),
+      ...blocks.map((b) => blockToParagraph(b, hasArmenianFont)),
+    ],
+    exportDate.toLocaleDateString(localeFor(lang)),
+    DISCLAIMER[lang],
+  );
+
+  const safeTitle = data.title.replace(/[^a-zA-Z0-9\u0400-\u04FF\u0530-\u058F]/g, '_').substring(0, 50);
+  await saveDocx(doc, `AI_Legal_${safeTitle}_${exportDate.toISOString().split("T")[0]}.docx`);
+}
+
+function analysisSection(
+  role: string,
+  text: string,
+  sources: AnalysisExportData["sources"],
+  language: "hy" | "en",
+  hasArmenianFont: boolean,
+): Paragraph[] {
+  const labels = ANALYSIS_LABELS[language];
+  const paragraphs = [
+    plainParagraph(ROLE_LABELS[role]?.[language] || role, hasArmenianFont, { bold: true, size: 28, alignment: "center" }),
+    ...analysisTextToDocxBlocks(text).map((b) => blockToParagraph(b, hasArmenianFont)),
+  ];
+  if (sources && sources.length > 0) {
+    paragraphs.push(
+      new Paragraph({ children: [] }),
+      plainParagraph(labels.sourcesUsed, hasArmenianFont, { bold: true }),
+      ...sources.map((source, index) =>
+        plainParagraph(`${index + 1}. ${source.title} (${source.category}) - ${source.source_name}`, hasArmenianFont, { size: 20 })),
+    );
+  }
+  return paragraphs;
+}
+
+function caseHeaderText(caseNumber: string, language: "hy" | "en"): string {
+  return `${language === 'hy' ? '\u0533\u0578\u0580\u056E \u2116' : 'Case #'} ${caseNumber}`;
+}
+
+export async function exportAnalysisToDocx(data: AnalysisExportData): Promise<void> {
+  const lang = data.language || "hy";
+  const exportDate = new Date();
+
+  const doc = await buildDocument(
+    (hasArmenianFont) => [
+      plainParagraph(ANALYSIS_LABELS[lang].analysis, hasArmenianFont, { bold: true, size: 32, alignment: "center" }),
+      ...analysisSection(data.role, data.analysisText, data.sources, lang, hasArmenianFont),
+    ],
+    caseHeaderText(data.caseNumber, lang),
+    DISCLAIMER_EN,
+  );
+
+  await saveDocx(doc, `AI_Legal_${data.caseNumber}_${data.role}_${exportDate.toISOString().split("T")[0]}.docx`);
+}
+
+export async function exportMultipleAnalysesToDocx(
+  caseNumber: string,
+  caseTitle: string,
+  analyses: Array<{ role: string; text: string; sources?: Array<{ title: string; category: string; source_name: string }> }>,
+  language: "hy" | "en" = "hy"
+): Promise<void> {
+  const labels = ANALYSIS_LABELS[language];
+  const exportDate = new Date();
+
+  const doc = await buildDocument(
+    (hasArmenianFont) => [
+      plainParagraph(labels.fullCaseAnalysis, hasArmenianFont, { bold: true, size: 32, alignment: "center" }),
+      plainParagraph(`${labels.case} ${caseNumber} — ${caseTitle}`, hasArmenianFont, { alignment: "center" }),
+      ...analyses.flatMap((a) => [
+        new Paragraph({ children: [] }),
+        ...analysisSection(a.role, a.text, a.sources, language, hasArmenianFont),
+      ]),
+    ],
+    caseHeaderText(caseNumber, language),
+    DISCLAIMER_EN,
+  );
+
+  await saveDocx(doc, `AI_Legal_${caseNumber}_Full_Analysis_${exportDate.toISOString().split("T")[0]}.docx`);
+}
+
+export async function exportTranscriptToDocx(data: TranscriptDocxData): Promise<void> {
+  const lang = data.language || "hy";
+  const blocks = transcriptToDocxBlocks(data);
+
+  const doc = await buildDocument(
+    (hasArmenianFont) => blocks.map((b) => blockToParagraph(b, hasArmenianFont)),
+    data.headerText,
+    DISCLAIMER[lang],
+  );
+
+  await saveDocx(doc, data.fileName);
+}
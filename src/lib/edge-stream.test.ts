@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createSSEParser, EdgeStreamError, readEdgeStream, type EdgeStreamEvent } from './edge-stream';
+import { getQuotaExceededInfo } from './functionsInvokeError';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { auth: { getSession: vi.fn() } },
+}));
+
+function sseResponse(...chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      for (const chunk of chunks) c.enqueue(encoder.encode(chunk));
+      c.close();
+    },
+  });
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('edge-stream', () => {
+  it('parses events split across chunks and ignores everything after [DONE]', () => {
+    const events: EdgeStreamEvent[] = [];
+    const parser = createSSEParser((e) => events.push(e));
+    parser.push('data: {"type":"delta","te');
+    parser.push('xt":"a"}\r\n\n: ping\n\ndata: [DONE]\n\ndata: {"type":"delta","text":"b"}\n');
+    parser.flush();
+    expect(events).toEqual([{ type: 'delta', text: 'a' }]);
+  });
+
+  it('streams deltas and resolves with the final payload', async () => {
+    const onDelta = vi.fn();
+    const data = await readEdgeStream<{ content: string }>(
+      sseResponse(
+        'data: {"type":"delta","text":"Hel"}\n\n',
+        'data: {"type":"delta","text":"lo"}\n\ndata: {"type":"final","data":{"content":"Hello."}}\n\n',
+        'data: [DONE]\n\n',
+      ),
+      onDelta,
+    );
+    expect(onDelta.mock.calls).toEqual([['Hel', 'Hel'], ['lo', 'Hello']]);
+    expect(data).toEqual({ content: 'Hello.' });
+  });
+
+  it('returns plain JSON responses as they are', async () => {
+    const res = new Response(JSON.stringify({ role: 'precedent_citation' }), { headers: { 'Content-Type': 'application/json' } });
+    expect(await readEdgeStream(res)).toEqual({ role: 'precedent_citation' });
+  });
+
+  it('throws error events and non-2xx responses with their body', async () => {
+    await expect(readEdgeStream(sseResponse(
+      'data: {"type":"delta","text":"x"}\n\ndata: {"type":"error","status":429,"error":"Rate limit exceeded"}\n\n',
+    ))).rejects.toMatchObject({ status: 429, message: 'Rate limit exceeded' });
+
+    const quota = { error: 'Quota used up', code: 'QUOTA_EXCEEDED', scope: 'user', limit_type: 'usd', used: 5, limit: 5 };
+    const error = await readEdgeStream(new Response(JSON.stringify(quota), { status: 402 })).catch((e) => e);
+    expect(error).toBeInstanceOf(EdgeStreamError);
+    expect(await getQuotaExceededInfo(error)).toMatchObject({ scope: 'user', used: 5 });
+  });
+
+  it('fails when the stream ends without a final event', async () => {
+    await expect(readEdgeStream(sseResponse('data: {"type":"delta","text":"x"}\n\n'))).rejects.toMatchObject({ status: 502 });
+  });
+});
@@ -0,0 +1,141 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/**
+ * Client for edge functions that stream over SSE (ai-analyze,
+ * generate-document; wire format in supabase/functions/_shared/sse.ts).
+ * The function may still answer with plain JSON, e.g. for roles that do
+ * not stream or errors raised before generation starts.
+ */
+
+export type EdgeStreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "final"; data: unknown }
+  | ({ type: "error"; status: number; error: string } & Record<string, unknown>);
+
+/**
+ * Non-2xx response or `error` event. `body` is the JSON error body, so
+ * getQuotaExceededInfo() works on it like on a FunctionsInvokeError.
+ */
+export class EdgeStreamError extends Error {
+  readonly status: number;
+  readonly body: Record<string, unknown>;
+
+  constructor(status: number, body: Record<string, unknown>) {
+    super(typeof body.error === "string" && body.error ? body.error : `Error: ${status}`);
+    this.name = "EdgeStreamError";
+    this.status = status;
+    this.body = body;
+  }
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+/** Incremental SSE parser: feed decoded text, receive events up to [DONE] */
+export function createSSEParser(onEvent: (event: EdgeStreamEvent) => void) {
+  let buffer = "";
+  let done = false;
+
+  const handleLine = (raw: string) => {
+    const line = raw.endsWith("\r") ? raw.slice(0, -1) : raw;
+    if (done || !line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (payload === "[DONE]") {
+      done = true;
+      return;
+    }
+    try {
+      onEvent(JSON.parse(payload) as EdgeStreamEvent);
+    } catch {
+      // not an event of ours
+    }
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      let idx: number;
+      while ((idx = buffer.indexOf("\n")) !== -1) {
+        handleLine(buffer.slice(0, idx));
+        buffer = buffer.slice(idx + 1);
+      }
+    },
+    flush() {
+      if (buffer) handleLine(buffer);
+      buffer = "";
+    },
+  };
+}
+
+/**
+ * Reads a streamed or plain JSON edge function response. Deltas go to
+ * onDelta (with the text so far); resolves with the final payload.
+ */
+export async function readEdgeStream<T>(
+  response: Response,
+  onDelta?: (delta: string, text: string) => void,
+): Promise<T> {
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new EdgeStreamError(response.status, body);
+  }
+  if (!(response.headers.get("Content-Type") ?? "").includes("text/event-stream") || !response.body) {
+    return (await response.json()) as T;
+  }
+
+  let text = "";
+  let final: { data: unknown } | null = null;
+  let failure: EdgeStreamError | null = null;
+  const parser = createSSEParser((event) => {
+    if (event.type === "delta") {
+      text += event.text;
+      onDelta?.(event.text, text);
+    } else if (event.type === "final") {
+      final = { data: event.data };
+    } else if (event.type === "error") {
+      const { type: _type, status, ...body } = event;
+      failure = new EdgeStreamError(status, body);
+    }
+  });
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+  parser.push(decoder.decode());
+  parser.flush();
+
+  if (failure) throw failure;
+  if (!final) throw new EdgeStreamError(502, { error: "Stream ended without a result" });
+  return (final as { data: unknown }).data as T;
+}
+
+/**
+ * POST to an edge function asking for a stream. Aborting `signal` closes the
+ * connection, which cancels the upstream model call; the promise then
+ * rejects with an AbortError (see isAbortError).
+ */
+export async function streamEdgeFunction<T>(
+  functionName: string,
+  body: unknown,
+  options: { onDelta?: (delta: string, text: string) => void; signal?: AbortSignal } = {},
+): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error("Not authenticated");
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${functionName}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify(body),
+    signal: options.signal,
+  });
+  return readEdgeStream<T>(response, options.onDelta);
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getFunctionsInvokeErrorMessage, getQuotaExceededInfo, parseQuotaExceeded } from './functionsInvokeError';
+
+const quotaBody = {
+  error: "Your team's monthly AI quota is used up ($50.00 of $50.00).",
+  code: 'QUOTA_EXCEEDED',
+  scope: 'team',
+  function_name: null,
+  limit_type: 'usd',
+  used: 50,
+  limit: 50,
+};
+
+describe('functionsInvokeError', () => {
+  it('reads the quota body from a raw Response context', async () => {
+    const error = { message: 'Edge Function returned a non-2xx status code', context: new Response(JSON.stringify(quotaBody), { status: 402 }) };
+    const info = await getQuotaExceededInfo(error);
+    expect(info).toMatchObject({ scope: 'team', limit_type: 'usd', used: 50, limit: 50 });
+  });
+
+  it('reads the quota body from a parsed or string body', async () => {
+    expect(await getQuotaExceededInfo({ context: { body: quotaBody } })).not.toBeNull();
+    expect(await getQuotaExceededInfo({ body: JSON.stringify(quotaBody) })).not.toBeNull();
+    expect(getFunctionsInvokeErrorMessage({ context: { body: quotaBody } })).toBe(quotaBody.error);
+  });
+
+  it('ignores other errors', async () => {
+    expect(parseQuotaExceeded({ error: 'AI credits exhausted' })).toBeNull();
+    expect(await getQuotaExceededInfo(new Error('boom'))).toBeNull();
+    expect(await getQuotaExceededInfo({ context: new Response('not json', { status: 500 }) })).toBeNull();
+  });
+});
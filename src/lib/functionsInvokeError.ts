@@ -1,3 +1,5 @@
+import type { TFunction } from "i18next";
+
 /**
  * Extracts the meaningful error message from a Supabase FunctionsInvokeError
  * returned when edge function returns non-2xx status.
@@ -58,3 +60,82 @@ export function getFunctionsInvokeErrorMessage(error: unknown): string {
 export function isNoDataForExtractionMessage(msg: string): boolean {
   return msg.toLowerCase().includes("no data available");
 }
+
+// ── Quota errors ─────────────────────────────────────────────────────────────
+
+/** Error code edge functions return with HTTP 402 when an AI quota is used up */
+export const QUOTA_EXCEEDED_CODE = "QUOTA_EXCEEDED";
+
+export interface QuotaExceededInfo {
+  scope: "user" | "team";
+  function_name: string | null;
+  limit_type: "usd" | "tokens";
+  used: number;
+  limit: number;
+  message: string;
+}
+
+/**
+ * Reads the JSON body of a non-2xx edge function response. supabase-js puts
+ * the raw Response under `context`; older versions expose a parsed body.
+ */
+export async function readFunctionsInvokeErrorBody(error: unknown): Promise<Record<string, unknown> | null> {
+  if (!error || typeof error !== "object") return null;
+  const anyErr = error as Record<string, unknown>;
+  const ctx = anyErr.context;
+
+  const candidates: unknown[] = [];
+  if (ctx instanceof Response) {
+    try {
+      candidates.push(await ctx.clone().json());
+    } catch {
+      return null;
+    }
+  } else if (ctx && typeof ctx === "object") {
+    candidates.push((ctx as Record<string, unknown>).body);
+  }
+  if ("body" in anyErr) candidates.push(anyErr.body);
+
+  for (const c of candidates) {
+    if (c && typeof c === "object") return c as Record<string, unknown>;
+    if (typeof c === "string" && c.trim()) {
+      try {
+        const parsed = JSON.parse(c);
+        if (parsed && typeof parsed === "object") return parsed;
+      } catch {
+        // plain text
+      }
+    }
+  }
+  return null;
+}
+
+export function parseQuotaExceeded(body: unknown): QuotaExceededInfo | null {
+  if (!body || typeof body !== "object") return null;
+  const b = body as Record<string, unknown>;
+  if (b.code !== QUOTA_EXCEEDED_CODE) return null;
+  return {
+    scope: b.scope === "team" ? "team" : "user",
+    function_name: typeof b.function_name === "string" ? b.function_name : null,
+    limit_type: b.limit_type === "tokens" ? "tokens" : "usd",
+    used: Number(b.used) || 0,
+    limit: Number(b.limit) || 0,
+    message: typeof b.error === "string" ? b.error : "",
+  };
+}
+
+export async function getQuotaExceededInfo(error: unknown): Promise<QuotaExceededInfo | null> {
+  return parseQuotaExceeded(await readFunctionsInvokeErrorBody(error));
+}
+
+export function formatQuotaAmount(limitType: "usd" | "tokens", value: number): string {
+  return limitType === "usd" ? `$${value.toFixed(2)}` : value.toLocaleString();
+}
+
+/** Localized toast text for an exhausted quota (keys in usage.json) */
+export function formatQuotaExceeded(info: QuotaExceededInfo, t: TFunction): string {
+  return t(`usage:quota_exceeded_${info.scope}`, {
+    used: formatQuotaAmount(info.limit_type, info.used),
+    limit: formatQuotaAmount(info.limit_type, info.limit),
+  });
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { alignArticleVersions, diffLines, splitIntoArticles } from "./kb-article-diff";
+
+// "\u0540\u0578\u0564\u057E\u0561\u056E" = "Article"
+const ART = "\u0540\u0578\u0564\u057E\u0561\u056E";
+
+const v1 = [
+  "Preamble text",
+  `${ART} 1. Scope`,
+  "1. Old scope line",
+  `${ART} 2. Definitions`,
+  "Definitions text",
+  `${ART} 3. Repealed article`,
+  "To be removed",
+].join("\n");
+
+const v2 = [
+  "Preamble text",
+  `${ART} 1. Scope`,
+  "1. New scope line",
+  `${ART} 2. Definitions`,
+  "Definitions text",
+  `${ART} 4. New article`,
+  "Added text",
+].join("\n");
+
+describe("splitIntoArticles", () => {
+  it("splits at article headers and keeps the preamble", () => {
+    const segs = splitIntoArticles(v1);
+    expect(segs.map((s) => s.key)).toEqual(["__preamble", "1", "2", "3"]);
+    expect(segs[1].heading).toBe(`${ART} 1. Scope`);
+    expect(segs[1].text).toContain("Old scope line");
+  });
+
+  it("treats text without headers as one block", () => {
+    expect(splitIntoArticles("plain text")).toEqual([{ key: "__all", heading: null, text: "plain text" }]);
+    expect(splitIntoArticles("")).toEqual([]);
+  });
+
+  it("recognises the Armenian full stop", () => {
+    expect(splitIntoArticles(`${ART} 12\u0589 Title\nBody`)[0].key).toBe("12");
+  });
+});
+
+describe("diffLines", () => {
+  it("marks added and removed lines", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+    ]);
+  });
+});
+
+describe("alignArticleVersions", () => {
+  it("pairs articles by number and classifies them", () => {
+    const rows = alignArticleVersions(v1, v2);
+    expect(rows.map((r) => [r.key, r.status])).toEqual([
+      ["__preamble", "unchanged"],
+      ["1", "changed"],
+      ["2", "unchanged"],
+      ["3", "removed"],
+      ["4", "added"],
+    ]);
+    const changed = rows[1];
+    expect(changed.lines?.filter((l) => l.type !== "same").map((l) => l.text)).toEqual([
+      "1. Old scope line",
+      "1. New scope line",
+    ]);
+  });
+
+  it("keeps removed articles in their original position", () => {
+    const rows = alignArticleVersions(
+      `${ART} 1. A\nx\n${ART} 2. B\ny\n${ART} 3. C\nz`,
+      `${ART} 1. A\nx\n${ART} 3. C\nz`,
+    );
+    expect(rows.map((r) => [r.key, r.status])).toEqual([
+      ["1", "unchanged"],
+      ["2", "removed"],
+      ["3", "unchanged"],
+    ]);
+  });
+});
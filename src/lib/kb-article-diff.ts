@@ -0,0 +1,152 @@
+/**
+ * Article-aligned comparison of two versions of a legislative text.
+ *
+ * Both texts are split at article headers ("\u0540\u0578\u0564\u057E\u0561\u056E N." / "\u0540\u0578\u0564\u057E\u0561\u056E N\u0589"),
+ * articles are paired by number, and paired articles get a line-level diff.
+ * Texts without article headers are compared as a single block.
+ */
+
+export interface ArticleSegment {
+  /** Article number, "__preamble" for text before the first header, "__all" if there are no headers */
+  key: string;
+  /** Header line of the article, if any */
+  heading: string | null;
+  text: string;
+}
+
+export type ArticleDiffStatus = 'unchanged' | 'changed' | 'added' | 'removed';
+
+export interface LineDiff {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ArticleDiffRow {
+  key: string;
+  heading: string | null;
+  left: string | null;
+  right: string | null;
+  status: ArticleDiffStatus;
+  /** Line diff for changed articles */
+  lines?: LineDiff[];
+}
+
+// Same header shapes as the edge chunker (supabase/functions/_shared/chunker.ts)
+const ARTICLE_HEADER_RE = /\u0540\u0578\u0564\u057E\u0561\u056E\s+(\d+(?:[.-]\d+)*)\s*[.\u0589]/g;
+
+/** Above this many line pairs the LCS table is skipped and the block is shown as replaced */
+const MAX_LCS_CELLS = 2_000_000;
+
+export function splitIntoArticles(text: string): ArticleSegment[] {
+  const source = text ?? '';
+  const headers = [...source.matchAll(ARTICLE_HEADER_RE)];
+  if (headers.length === 0) {
+    return source.trim() ? [{ key: '__all', heading: null, text: source.trim() }] : [];
+  }
+
+  const segments: ArticleSegment[] = [];
+  const preamble = source.substring(0, headers[0].index).trim();
+  if (preamble) segments.push({ key: '__preamble', heading: null, text: preamble });
+
+  const seen = new Set<string>();
+  headers.forEach((m, i) => {
+    const start = m.index ?? 0;
+    const end = i + 1 < headers.length ? headers[i + 1].index ?? source.length : source.length;
+    const body = source.substring(start, end).trim();
+    const lineEnd = body.indexOf('\n');
+    // Cross-references ("see Article 5.") can repeat a header shape; keep the first
+    const key = seen.has(m[1]) ? `${m[1]}#${i}` : m[1];
+    seen.add(m[1]);
+    segments.push({ key, heading: lineEnd === -1 ? body : body.substring(0, lineEnd), text: body });
+  });
+  return segments;
+}
+
+/** Line-level diff (LCS). Falls back to remove-all/add-all for very large blocks. */
+export function diffLines(left: string, right: string): LineDiff[] {
+  const a = left.split('\n');
+  const b = right.split('\n');
+
+  if (a.length * b.length > MAX_LCS_CELLS) {
+    return [
+      ...a.map((text) => ({ type: 'removed' as const, text })),
+      ...b.map((text) => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: LineDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      out.push({ type: 'removed', text: a[i++] });
+    } else {
+      out.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) out.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) out.push({ type: 'added', text: b[j++] });
+  return out;
+}
+
+/**
+ * Pair the articles of two versions by number. Order follows the right
+ * (newer) text; articles only in the left text are placed where they stood.
+ */
+export function alignArticleVersions(leftText: string, rightText: string): ArticleDiffRow[] {
+  const left = splitIntoArticles(leftText);
+  const right = splitIntoArticles(rightText);
+  const leftByKey = new Map(left.map((s) => [s.key, s]));
+  const rightKeys = new Set(right.map((s) => s.key));
+  const consumed = new Set<string>();
+  const rows: ArticleDiffRow[] = [];
+
+  const pushRemoved = (seg: ArticleSegment) => {
+    consumed.add(seg.key);
+    rows.push({ key: seg.key, heading: seg.heading, left: seg.text, right: null, status: 'removed' });
+  };
+
+  let li = 0;
+  for (const r of right) {
+    // Flush left-only articles that precede the next shared one
+    while (li < left.length && (consumed.has(left[li].key) || !rightKeys.has(left[li].key))) {
+      if (!consumed.has(left[li].key)) pushRemoved(left[li]);
+      li++;
+    }
+
+    const l = leftByKey.get(r.key);
+    if (!l) {
+      rows.push({ key: r.key, heading: r.heading, left: null, right: r.text, status: 'added' });
+      continue;
+    }
+    consumed.add(l.key);
+    if (l.text === r.text) {
+      rows.push({ key: r.key, heading: r.heading, left: l.text, right: r.text, status: 'unchanged' });
+    } else {
+      rows.push({
+        key: r.key,
+        heading: r.heading ?? l.heading,
+        left: l.text,
+        right: r.text,
+        status: 'changed',
+        lines: diffLines(l.text, r.text),
+      });
+    }
+  }
+  for (; li < left.length; li++) {
+    if (!consumed.has(left[li].key)) pushRemoved(left[li]);
+  }
+  return rows;
+}
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { isPageAnchorValid, parsePageAnchors, pdfPageUrl } from './page-anchors';
+
+describe('page-anchors', () => {
+  it('parses anchors and drops malformed entries', () => {
+    expect(parsePageAnchors([{ volume_number: 1, page: 15 }, { volume_number: '2', page: '3' }, { page: 4 }, null]))
+      .toEqual([{ volume_number: 1, page: 15 }, { volume_number: 2, page: 3 }]);
+    expect(parsePageAnchors(null)).toEqual([]);
+  });
+
+  it('validates anchors against volumes', () => {
+    const volumes = [{ volume_number: 1, page_count: 20 }, { volume_number: 2 }];
+    expect(isPageAnchorValid({ volume_number: 1, page: 20 }, volumes)).toBe(true);
+    expect(isPageAnchorValid({ volume_number: 1, page: 21 }, volumes)).toBe(false);
+    expect(isPageAnchorValid({ volume_number: 1, page: 0 }, volumes)).toBe(false);
+    expect(isPageAnchorValid({ volume_number: 2, page: 500 }, volumes)).toBe(true);
+    expect(isPageAnchorValid({ volume_number: 3, page: 1 }, volumes)).toBe(false);
+  });
+
+  it('builds PDF page URLs', () => {
+    expect(pdfPageUrl('https://x.test/a.pdf?token=t', 7)).toBe('https://x.test/a.pdf?token=t#page=7');
+    expect(pdfPageUrl('https://x.test/a.pdf#page=2', 9)).toBe('https://x.test/a.pdf#page=9');
+  });
+});
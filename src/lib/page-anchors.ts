@@ -0,0 +1,42 @@
+/**
+ * Page anchors on multi-agent findings and evidence items: {volume_number, page}
+ * pairs checked server-side against the case volumes (multi-agent-analyze).
+ *
+ * Anchors are re-checked here because volumes can be re-OCR'd or deleted after
+ * the finding was stored.
+ */
+
+export interface PageAnchor {
+  volume_number: number;
+  page: number;
+}
+
+interface AnchorVolume {
+  volume_number: number;
+  page_count?: number | null;
+}
+
+/** Anchors from a JSON column or run payload; malformed entries are dropped */
+export function parsePageAnchors(raw: unknown): PageAnchor[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((item) => {
+    if (!item || typeof item !== 'object') return [];
+    const { volume_number, page } = item as Record<string, unknown>;
+    const v = Number(volume_number);
+    const p = Number(page);
+    return Number.isInteger(v) && Number.isInteger(p) ? [{ volume_number: v, page: p }] : [];
+  });
+}
+
+/** False when the volume is gone or the page lies beyond its known page count */
+export function isPageAnchorValid(anchor: PageAnchor, volumes: AnchorVolume[]): boolean {
+  const volume = volumes.find((v) => v.volume_number === anchor.volume_number);
+  if (!volume || anchor.page < 1) return false;
+  return !volume.page_count || anchor.page <= volume.page_count;
+}
+
+/** Open a PDF at a page (PDF open parameters, honoured by browser viewers) */
+export function pdfPageUrl(url: string, page: number): string {
+  const base = url.split('#')[0];
+  return `${base}#page=${page}`;
+}
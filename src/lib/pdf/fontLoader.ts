@@ -2,12 +2,13 @@ import jsPDF from "jspdf";
 
 // This will be populated with the base64 font data
 let armenianFontBase64: string | null = null;
+let armenianFontBytes: Uint8Array | null = null;
 let fontLoadPromise: Promise<void> | null = null;
 
-// Function to load the Armenian font
-async function loadArmenianFont(): Promise<string> {
-  if (armenianFontBase64) {
-    return armenianFontBase64;
+// Raw TTF bytes of the bundled Armenian font (also embedded in DOCX exports)
+export async function loadArmenianFontBytes(): Promise<Uint8Array> {
+  if (armenianFontBytes) {
+    return armenianFontBytes;
   }
 
   // Load the font file
@@ -16,8 +17,17 @@ async function loadArmenianFont(): Promise<string> {
     throw new Error('Failed to load Armenian font');
   }
   
-  const arrayBuffer = await response.arrayBuffer();
-  const bytes = new Uint8Array(arrayBuffer);
+  armenianFontBytes = new Uint8Array(await response.arrayBuffer());
+  return armenianFontBytes;
+}
+
+// Function to load the Armenian font
+async function loadArmenianFont(): Promise<string> {
+  if (armenianFontBase64) {
+    return armenianFontBase64;
+  }
+
+  const bytes = await loadArmenianFontBytes();
   
   // Convert to base64
   let binary = '';
@@ -2,7 +2,7 @@ import jsPDF from "jspdf";
 import { registerArmenianFont, setArmenianFont, containsArmenian, containsCyrillic } from "./pdf/fontLoader";
 import { loadLogoForPDF, addLogoToPage } from "./pdf/logoLoader";
 
-interface AnalysisExportData {
+export interface AnalysisExportData {
   caseNumber: string;
   caseTitle: string;
   role: string;
@@ -14,10 +14,10 @@ interface AnalysisExportData {
 
 const DISCLAIMER_HY = "\u0546\u0531\u053D\u0531\u0536\u0533\u0548\u0552\u054D\u0553\u054A\u054F\u0545\u0548\u0552\u0546: \u054D\u0578\u0582\u0575\u0576 \u057E\u0565\u0580\u056C\u0578\u0582\u056E\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568 \u0576\u0561\u056D\u0561\u057F\u0565\u057D\u057E\u0561\u056E \u0567 \u0574\u056B\u0561\u0575\u0576 \u057F\u0565\u0572\u0565\u056F\u0561\u057F\u057E\u0561\u056F\u0561\u0576 \u0576\u057A\u0561\u057F\u0561\u056F\u0576\u0565\u0580\u0578\u057E \u0587 \u0579\u056B \u0570\u0561\u0576\u0564\u056B\u057D\u0561\u0576\u0578\u0582\u0574 \u056B\u0580\u0561\u057E\u0561\u0562\u0561\u0576\u0561\u056F\u0561\u0576 \u056D\u0578\u0580\u0570\u0580\u0564\u0561\u057F\u057E\u0578\u0582\u0569\u0575\u0578\u0582\u0576: \u0544\u056B\u0577\u057F \u056D\u0578\u0580\u0570\u0580\u0564\u0561\u056F\u0581\u0565\u0584 \u056C\u056B\u0581\u0565\u0576\u0566\u0561\u057E\u0578\u0580\u057E\u0561\u056E \u056B\u0580\u0561\u057E\u0561\u0562\u0561\u0576\u056B \u0570\u0565\u057F: \u0531\u0580\u0564\u0575\u0578\u0582\u0576\u0584\u0576\u0565\u0580\u0568 \u056D\u0578\u0580\u0570\u0580\u0564\u0561\u057F\u057E\u0561\u056F\u0561\u0576 \u0565\u0576 \u0587 \u0578\u0579 \u0574\u0565\u056F \u056B\u0580\u0561\u057E\u0561\u0562\u0561\u0576\u0561\u056F\u0561\u0576 \u0578\u0582\u056A \u0579\u0578\u0582\u0576\u0565\u0576:";
 
-const DISCLAIMER_EN = "DISCLAIMER: This analysis is for informational purposes only and does not constitute legal advice. Always consult with a licensed attorney for legal matters. The results are advisory and have no legal force.";
+export const DISCLAIMER_EN = "DISCLAIMER: This analysis is for informational purposes only and does not constitute legal advice. Always consult with a licensed attorney for legal matters. The results are advisory and have no legal force.";
 
 // Labels in native Armenian Unicode and English
-const LABELS = {
+export const LABELS = {
   hy: {
     legalAnalysisReport: "\u053B\u054A\u0531\u054E\u0531\u0532\u0531\u0546\u0531\u053F\u0531\u0546 \u054E\u0535\u054A\u053C\u0548\u0552\u053E\u0548\u0552\u0539\u0545\u0548\u0552\u0546",
     caseNumber: "\u0533\u0578\u0580\u056E\u056B \u0570\u0561\u0574\u0561\u0580:",
@@ -71,7 +71,7 @@ const LABELS = {
 };
 
 // Role labels
-const ROLE_LABELS: Record<string, Record<string, string>> = {
+export const ROLE_LABELS: Record<string, Record<string, string>> = {
   advocate: { hy: "\u054A\u0561\u0577\u057F\u057A\u0561\u0576 (\u0553\u0561\u057D\u057F\u0561\u0562\u0561\u0576)", en: "Advocate (Defense)" },
   prosecutor: { hy: "\u0544\u0565\u0572\u0561\u0564\u0580\u0578\u0572", en: "Prosecutor" },
   judge: { hy: "\u0534\u0561\u057F\u0561\u057E\u0578\u0580", en: "Judge" },
@@ -12,13 +12,13 @@ interface DocumentExportData {
   language?: "hy" | "ru" | "en";
 }
 
-const DISCLAIMER = {
+export const DISCLAIMER = {
   hy: "\u0546\u0531\u053D\u0531\u0536\u0533\u0548\u0552\u054D\u0553\u054A\u054F\u0545\u0548\u0552\u0546: \u054D\u0578\u0582\u0575\u0576 \u0583\u0561\u057D\u057f\u0561\u0569\u0578\u0582\u0572\u0569\u0568 \u0576\u0561\u056D\u0561\u057f\u0565\u057d\u057e\u0561\u056e \u0567 AI-\u056b \u0585\u0563\u0576\u0578\u0582\u0569\u0575\u0561\u0574\u0562 \u0587 \u056f\u0561\u0580\u0578\u0572 \u0567 \u057a\u0561\u0570\u0561\u0576\u057b\u0565\u056c \u056b\u0580\u0561\u057e\u0561\u0562\u0561\u0576\u0561\u056f\u0561\u0576 \u057d\u057f\u0578\u0582\u0563\u0578\u0582\u0574\u0589",
   ru: "\u041E\u0422\u041A\u0410\u0417 \u041E\u0422 \u041E\u0422\u0412\u0415\u0422\u0421\u0422\u0412\u0415\u041D\u041D\u041E\u0421\u0422\u0418: \u042D\u0442\u043E\u0442 \u0434\u043E\u043A\u0443\u043C\u0435\u043D\u0442 \u0441\u043E\u0437\u0434\u0430\u043D \u0441 \u043F\u043E\u043C\u043E\u0449\u044C\u044E AI \u0438 \u043C\u043E\u0436\u0435\u0442 \u0442\u0440\u0435\u0431\u043E\u0432\u0430\u0442\u044C \u044E\u0440\u0438\u0434\u0438\u0447\u0435\u0441\u043A\u043E\u0439 \u043F\u0440\u043E\u0432\u0435\u0440\u043A\u0438.",
   en: "DISCLAIMER: This document was generated with AI assistance and may require legal review.",
 };
 
-const LABELS = {
+export const LABELS = {
   hy: {
     document: "\u0553\u0531\u054D\u054F\u0531\u0539\u0548\u0552\u0542\u0539",
     to: "\u054D\u057f\u0561\u0581\u0578\u0572:",
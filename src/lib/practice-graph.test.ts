@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { groupNormEdges, normKeyFromKBDocument } from './practice-graph';
+
+describe('normKeyFromKBDocument', () => {
+  it('uses the code category as act key and the first number as article', () => {
+    expect(normKeyFromKBDocument('criminal_code', 'Հոդված 104.1')).toEqual({
+      actKey: 'criminal_code',
+      article: '104.1',
+    });
+  });
+
+  it('drops the act key for non-act categories and needs an article number', () => {
+    expect(normKeyFromKBDocument('court_practice', '12')).toEqual({ actKey: null, article: '12' });
+    expect(normKeyFromKBDocument('civil_code', null)).toBeNull();
+    expect(normKeyFromKBDocument('civil_code', 'preamble')).toBeNull();
+  });
+});
+
+describe('groupNormEdges', () => {
+  const edge = (relation: string, article: string, part: string | null = null) => ({
+    relation,
+    act_key: 'civil_code',
+    act_raw: null,
+    article,
+    part,
+  });
+
+  it('keeps the strongest relation per norm and merges parts', () => {
+    const groups = groupNormEdges(
+      [edge('mentions', '8'), edge('applies', '8', '2'), edge('interprets', '8', '1'), edge('applies', '10')],
+      e => e.act_key ?? ''
+    );
+
+    expect(groups).toEqual([
+      { label: 'civil_code 8', relation: 'interprets', parts: ['2', '1'] },
+      { label: 'civil_code 10', relation: 'applies', parts: [] },
+    ]);
+  });
+
+  it('ignores citation edges', () => {
+    expect(groupNormEdges([{ relation: 'cites', act_key: null, act_raw: null, article: null, part: null }], () => '')).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Client-side helpers for the practice citation graph.
+ *
+ * Edges are extracted and stored server-side (`practice-graph-sync`); this
+ * module maps a normative KB article onto the norm key used by the edges and
+ * groups a decision's edges for display.
+ */
+
+export type PracticeGraphRelation = 'interprets' | 'applies' | 'mentions' | 'cites';
+
+/** Strongest first: used for ordering and for the badge of a decision */
+export const NORM_RELATIONS: Exclude<PracticeGraphRelation, 'cites'>[] = ['interprets', 'applies', 'mentions'];
+
+/** KB categories that are not a single act and so have no act key */
+const NON_ACT_CATEGORIES = new Set([
+  'court_practice',
+  'legal_commentary',
+  'other',
+  'cassation_criminal',
+  'cassation_civil',
+  'cassation_administrative',
+]);
+
+export interface NormKey {
+  actKey: string | null;
+  article: string;
+}
+
+/**
+ * Norm key of a normative KB document: the category is the act key (as in
+ * applied_articles.code) and the article is the first number of article_number,
+ * e.g. "Հոդված 104.1" → "104.1". Returns null when there is no article number.
+ */
+export function normKeyFromKBDocument(category: string | null | undefined, articleNumber: string | null | undefined): NormKey | null {
+  const match = (articleNumber || '').match(/(\d+(?:\.\d+)?)/);
+  if (!match) return null;
+  return {
+    actKey: category && !NON_ACT_CATEGORIES.has(category) ? category : null,
+    article: match[1],
+  };
+}
+
+export interface NormEdgeLike {
+  relation: string;
+  act_key: string | null;
+  act_raw: string | null;
+  article: string | null;
+  part: string | null;
+}
+
+export interface NormGroup {
+  label: string;
+  /** Strongest relation this decision has to the norm */
+  relation: Exclude<PracticeGraphRelation, 'cites'>;
+  parts: string[];
+}
+
+/**
+ * Collapses a decision's norm edges to one entry per (act, article): the
+ * strongest relation wins and the cited parts are merged.
+ */
+export function groupNormEdges(edges: NormEdgeLike[], actLabel: (edge: NormEdgeLike) => string): NormGroup[] {
+  const groups = new Map<string, NormGroup>();
+  for (const edge of edges) {
+    const relation = edge.relation as NormGroup['relation'];
+    if (!edge.article || !NORM_RELATIONS.includes(relation)) continue;
+    const key = `${edge.act_key ?? edge.act_raw ?? ''}|${edge.article}`;
+    const existing = groups.get(key);
+    const group = existing ?? { label: `${actLabel(edge)} ${edge.article}`.trim(), relation, parts: [] };
+    if (NORM_RELATIONS.indexOf(relation) < NORM_RELATIONS.indexOf(group.relation)) group.relation = relation;
+    if (edge.part && !group.parts.includes(edge.part)) group.parts.push(edge.part);
+    groups.set(key, group);
+  }
+  return [...groups.values()].sort(
+    (a, b) => NORM_RELATIONS.indexOf(a.relation) - NORM_RELATIONS.indexOf(b.relation) || a.label.localeCompare(b.label)
+  );
+}
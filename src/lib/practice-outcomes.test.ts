@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { favorableRate, outcomeShares } from './practice-outcomes';
+
+const counts = { total: 8, granted: 3, partial: 1, rejected: 3, remanded: 1, discontinued: 0 };
+
+describe('outcomeShares', () => {
+  it('returns every outcome with its share of the total', () => {
+    const shares = outcomeShares(counts);
+
+    expect(shares.map(s => s.outcome)).toEqual(['granted', 'partial', 'rejected', 'remanded', 'discontinued']);
+    expect(shares.find(s => s.outcome === 'granted')).toEqual({ outcome: 'granted', count: 3, percent: 37.5 });
+    expect(shares.find(s => s.outcome === 'discontinued')?.percent).toBe(0);
+  });
+
+  it('accepts bigint counts serialized as strings and empty groups', () => {
+    const shares = outcomeShares({ ...counts, total: '3', granted: '1' } as unknown as typeof counts);
+    expect(shares[0].percent).toBe(33.3);
+
+    expect(outcomeShares({ total: 0, granted: 0, partial: 0, rejected: 0, remanded: 0, discontinued: 0 })
+      .every(s => s.percent === 0)).toBe(true);
+  });
+});
+
+describe('favorableRate', () => {
+  it('counts granted and partially granted decisions', () => {
+    expect(favorableRate(counts)).toBe(50);
+  });
+
+  it('is null without decisions', () => {
+    expect(favorableRate({ total: 0, granted: 0, partial: 0, rejected: 0, remanded: 0, discontinued: 0 })).toBeNull();
+  });
+});
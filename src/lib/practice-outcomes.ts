@@ -0,0 +1,56 @@
+/**
+ * Presentation helpers for court outcome analytics.
+ *
+ * Counting is done in SQL (`get_practice_outcome_stats`,
+ * `get_similar_case_outcomes`); this module only turns the returned counts
+ * into shares for display, so every widget rounds the same way.
+ */
+
+export type PracticeOutcome = 'granted' | 'rejected' | 'partial' | 'remanded' | 'discontinued';
+
+export type PracticeDimension = 'court' | 'instance' | 'article' | 'year';
+
+export const PRACTICE_OUTCOMES: PracticeOutcome[] = ['granted', 'partial', 'rejected', 'remanded', 'discontinued'];
+
+export const PRACTICE_DIMENSIONS: PracticeDimension[] = ['court', 'instance', 'article', 'year'];
+
+/** Tailwind background per outcome, shared by bars and legends */
+export const OUTCOME_COLORS: Record<PracticeOutcome, string> = {
+  granted: 'bg-green-500',
+  partial: 'bg-lime-400',
+  rejected: 'bg-red-500',
+  remanded: 'bg-amber-400',
+  discontinued: 'bg-gray-400',
+};
+
+export type OutcomeCounts = { total: number } & Record<PracticeOutcome, number>;
+
+export interface OutcomeShare {
+  outcome: PracticeOutcome;
+  count: number;
+  /** Share of the total in percent, one decimal */
+  percent: number;
+}
+
+export function outcomeShares(counts: OutcomeCounts): OutcomeShare[] {
+  const total = Number(counts.total) || 0;
+  return PRACTICE_OUTCOMES.map(outcome => {
+    const count = Number(counts[outcome]) || 0;
+    return {
+      outcome,
+      count,
+      percent: total > 0 ? Math.round((count / total) * 1000) / 10 : 0,
+    };
+  });
+}
+
+/**
+ * Share of decisions that went (at least partly) the applicant's way:
+ * granted + partially granted. Null when there is nothing to compare.
+ */
+export function favorableRate(counts: OutcomeCounts): number | null {
+  const total = Number(counts.total) || 0;
+  if (total === 0) return null;
+  const favorable = (Number(counts.granted) || 0) + (Number(counts.partial) || 0);
+  return Math.round((favorable / total) * 1000) / 10;
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  costPerRequest,
+  isRuntimeModule,
+  missingPlaceholders,
+  ratingDelta,
+  trafficShares,
+  type VariantReportRow,
+} from './prompt-registry';
+
+const row = (over: Partial<VariantReportRow>): VariantReportRow => ({
+  variant_id: 'v1',
+  label: 'B',
+  status: 'active',
+  weight: 20,
+  since: '2026-03-13T09:00:00Z',
+  requests: 10,
+  tokens: 5000,
+  cost_usd: 0.5,
+  analyses: 8,
+  ratings: 4,
+  avg_rating: 4.25,
+  ...over,
+});
+
+describe('prompt registry', () => {
+  it('knows which rows the edge functions look up', () => {
+    expect(isRuntimeModule('legal-chat', 'main')).toBe(true);
+    expect(isRuntimeModule('ai-analyze', 'defense_analysis')).toBe(true);
+    expect(isRuntimeModule('ai-analyze', 'criminal_module:procedural')).toBe(true);
+    expect(isRuntimeModule('ai-analyze', 'criminal_module:')).toBe(false);
+    // Seeded reference copies use other keys
+    expect(isRuntimeModule('ai-analyze', 'defense')).toBe(false);
+    expect(isRuntimeModule('ocr-process', 'main')).toBe(false);
+  });
+
+  it('lists the placeholders a legal-chat text lacks', () => {
+    expect(missingPlaceholders('legal-chat', 'main', 'Use {CONTEXT} and {USER_MESSAGE}')).toEqual(['{PRACTICE_CONTEXT}']);
+    expect(missingPlaceholders('generate-complaint', 'system', 'Anything')).toEqual([]);
+  });
+
+  it('gives the base text what active weights leave', () => {
+    const shares = trafficShares([
+      { id: 'a', status: 'active', weight: 30 },
+      { id: 'b', status: 'active', weight: 20 },
+      { id: 'c', status: 'draft', weight: 50 },
+    ]);
+    expect(shares).toEqual({ base: 50, variants: { a: 30, b: 20 } });
+  });
+
+  it('scales weights past 100', () => {
+    const shares = trafficShares([
+      { id: 'a', status: 'active', weight: 100 },
+      { id: 'b', status: 'active', weight: 100 },
+    ]);
+    expect(shares).toEqual({ base: 0, variants: { a: 50, b: 50 } });
+  });
+
+  it('compares a variant with the base text', () => {
+    const base = row({ variant_id: null, status: null, weight: null, avg_rating: 3.5 });
+    expect(ratingDelta(row({}), base)).toBe(0.75);
+    expect(ratingDelta(row({ avg_rating: null }), base)).toBeNull();
+    expect(costPerRequest(row({}))).toBe(0.05);
+    expect(costPerRequest(row({ requests: 0 }))).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Client side of the runtime prompt registry (supabase/functions/_shared/
+ * prompt-registry.ts): which ai_prompts rows the edge functions actually
+ * look up, and how traffic splits over a prompt's variants.
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type PromptVariant = Database['public']['Tables']['ai_prompt_variants']['Row'];
+export type PromptVariantStatus = 'draft' | 'active' | 'retired';
+
+/** One row of get_prompt_variant_report; variant_id null is the base text */
+export interface VariantReportRow {
+  variant_id: string | null;
+  label: string;
+  status: PromptVariantStatus | null;
+  weight: number | null;
+  /** Start of the counted period */
+  since: string;
+  requests: number;
+  tokens: number;
+  cost_usd: number;
+  analyses: number;
+  ratings: number;
+  avg_rating: number | null;
+}
+
+/** module_type keys each function resolves; keep in sync with the resolvePrompt calls */
+export const RUNTIME_PROMPT_MODULES: Record<string, readonly string[]> = {
+  'ai-analyze': [
+    'advocate', 'prosecutor', 'judge', 'aggregator',
+    'defense_analysis', 'prosecution_analysis', 'judge_analysis',
+    'evidence_admissibility', 'charge_qualification', 'procedural_violations',
+    'substantive_law_violations', 'fair_trial_and_rights',
+    'precedent_citation', 'deadline_rules', 'legal_position_comparator',
+    'hallucination_audit', 'draft_deterministic', 'strategy_builder',
+    'evidence_weakness', 'risk_factors', 'law_update_summary', 'cross_exam',
+  ],
+  'multi-agent-analyze': [
+    'evidence_collector', 'evidence_admissibility', 'charge_qualification',
+    'procedural_violations', 'substantive_violations', 'defense_strategy',
+    'prosecution_weaknesses', 'rights_violations', 'aggregator',
+  ],
+  'generate-document': ['hy', 'ru', 'en'],
+  'generate-complaint': ['system'],
+  'legal-chat': ['main'],
+};
+
+/** Markers a function substitutes into the text; without them it keeps the code prompt */
+const REQUIRED_PLACEHOLDERS: Record<string, readonly string[]> = {
+  'legal-chat:main': ['{CONTEXT}', '{PRACTICE_CONTEXT}', '{USER_MESSAGE}'],
+};
+
+// ai-analyze criminal modules are keyed criminal_module:<module id>
+const CRIMINAL_MODULE_PREFIX = 'criminal_module:';
+
+/** True when an edge function looks this row up at runtime */
+export function isRuntimeModule(functionName: string, moduleType: string): boolean {
+  if (functionName === 'ai-analyze' && moduleType.startsWith(CRIMINAL_MODULE_PREFIX)) {
+    return moduleType.length > CRIMINAL_MODULE_PREFIX.length;
+  }
+  return RUNTIME_PROMPT_MODULES[functionName]?.includes(moduleType) ?? false;
+}
+
+/** Placeholders the text lacks; such a text is never served */
+export function missingPlaceholders(functionName: string, moduleType: string, text: string): string[] {
+  return (REQUIRED_PLACEHOLDERS[`${functionName}:${moduleType}`] ?? []).filter(p => !text.includes(p));
+}
+
+/**
+ * Percent of unpinned traffic per active variant, plus what the base text
+ * keeps. Weights adding up past 100 are scaled down, as the edge side does.
+ */
+export function trafficShares(
+  variants: Pick<PromptVariant, 'id' | 'status' | 'weight'>[],
+): { base: number; variants: Record<string, number> } {
+  const active = variants.filter(v => v.status === 'active');
+  const total = active.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+  const scale = total > 100 ? 100 / total : 1;
+  const shares: Record<string, number> = {};
+  for (const v of active) shares[v.id] = Math.max(0, v.weight) * scale;
+  return { base: Math.max(0, 100 - total), variants: shares };
+}
+
+/** Average rating of a variant minus the base text's, when both have ratings */
+export function ratingDelta(row: VariantReportRow, base: VariantReportRow | undefined): number | null {
+  if (!base || row.avg_rating === null || base.avg_rating === null) return null;
+  return Math.round((row.avg_rating - base.avg_rating) * 100) / 100;
+}
+
+/** Mean cost of one request, in USD */
+export function costPerRequest(row: VariantReportRow): number | null {
+  return row.requests > 0 ? row.cost_usd / row.requests : null;
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateStateDuty,
+  formatAmd,
+  formatStateDutyBreakdown,
+  parseClaimAmount,
+  stateDutyInstanceFor,
+} from "./state-duty-calculator";
+
+describe("calculateStateDuty", () => {
+  it("charges a percentage of the claim amount for property claims", () => {
+    const calc = calculateStateDuty({ claimType: "property", claimAmount: 1_500_000, instance: "first_instance" });
+    expect(calc.fee).toBe(30_000);
+    expect(calc.exempt).toBe(false);
+    expect(calc.basis).toEqual([{ law: 'RA Law "On State Duty"', article: "9" }]);
+  });
+
+  it("uses higher rates in higher instances and rounds to whole drams", () => {
+    expect(calculateStateDuty({ claimType: "property", claimAmount: 100_001, instance: "appeal" }).fee).toBe(3000);
+    expect(calculateStateDuty({ claimType: "property", claimAmount: 1_000_000, instance: "cassation" }).fee).toBe(40_000);
+  });
+
+  it("charges a multiple of the base duty for non-property claims", () => {
+    const calc = calculateStateDuty({ claimType: "non_property", claimAmount: 5_000_000, instance: "administrative" });
+    expect(calc.fee).toBe(4000);
+    expect(calc.rule).toEqual({ baseMultiple: 4, article: "9" });
+    expect(calculateStateDuty({ claimType: "property", claimAmount: 5_000_000, instance: "constitutional" }).fee).toBe(3000);
+  });
+
+  it("zeroes the fee for exemptions and cites the exemption article", () => {
+    const calc = calculateStateDuty({
+      claimType: "property",
+      claimAmount: 800_000,
+      instance: "first_instance",
+      exemptions: ["labor_wages", "labor_wages"],
+    });
+    expect(calc).toMatchObject({ fee: 0, exempt: true, rule: null, exemptions: ["labor_wages"] });
+    expect(calc.basis[0].article).toBe("22");
+  });
+});
+
+describe("stateDutyInstanceFor", () => {
+  it("derives the instance from the template", () => {
+    expect(stateDutyInstanceFor("civil_process", "civil_cassation_complaint")).toBe("cassation");
+    expect(stateDutyInstanceFor("civil_process", "appeal_complaint")).toBe("appeal");
+    expect(stateDutyInstanceFor("administrative_process", "statement_of_claim")).toBe("administrative");
+    expect(stateDutyInstanceFor("constitutional", "individual_complaint")).toBe("constitutional");
+    expect(stateDutyInstanceFor("civil_process", "statement_of_claim")).toBe("first_instance");
+  });
+});
+
+describe("parseClaimAmount / formatAmd", () => {
+  it("reads grouped amounts and formats them back", () => {
+    expect(parseClaimAmount("1 500 000")).toBe(1_500_000);
+    expect(parseClaimAmount("1,500,000.50 AMD")).toBe(1_500_000.5);
+    expect(parseClaimAmount("abc")).toBe(0);
+    expect(formatAmd(1_500_000)).toBe("1 500 000");
+    expect(formatAmd(999)).toBe("999");
+  });
+});
+
+describe("formatStateDutyBreakdown", () => {
+  it("shows the formula and the legal basis", () => {
+    const calc = calculateStateDuty({ claimType: "property", claimAmount: 1_500_000, instance: "first_instance" });
+    expect(formatStateDutyBreakdown(calc, "en")).toEqual([
+      "Claim type: Property",
+      "Instance: First instance",
+      "Claim amount: 1 500 000 AMD",
+      'Rate: 2% of the claim amount (RA Law "On State Duty", Art. 9)',
+      "1 500 000 \u00D7 2% = 30 000 AMD",
+      "State duty: 30 000 AMD",
+    ]);
+  });
+
+  it("lists exemption grounds in the document language", () => {
+    const calc = calculateStateDuty({ claimType: "non_property", claimAmount: 0, instance: "first_instance", exemptions: ["alimony"] });
+    const lines = formatStateDutyBreakdown(calc, "hy");
+    expect(lines).toHaveLength(4);
+    expect(lines[2]).toContain("22-\u0580\u0564 \u0570\u0578\u0564\u057E\u0561\u056E");
+    expect(lines[3]).toMatch(/: 0 \u0564\u0580\u0561\u0574$/);
+  });
+});
@@ -0,0 +1,269 @@
+/**
+ * Deterministic state duty (court fee) calculator (Republic of Armenia).
+ *
+ * Rates follow the RA Law "On State Duty": court duties are set in Art. 9
+ * either as a percentage of the claim amount (property claims) or as a
+ * multiple of the base duty (non-property claims and constitutional
+ * applications); full exemptions are listed in Art. 22. The law text itself
+ * lives in the knowledge base (category `state_duty_law`) and is looked up by
+ * the article numbers returned in `basis`.
+ *
+ * The generated claim quotes the breakdown produced here verbatim, so the
+ * model never does the arithmetic.
+ */
+
+export type StateDutyClaimType = 'property' | 'non_property';
+
+export type StateDutyInstance =
+  | 'first_instance'
+  | 'appeal'
+  | 'cassation'
+  | 'administrative'
+  | 'constitutional';
+
+export type StateDutyExemption =
+  | 'labor_wages'
+  | 'alimony'
+  | 'health_damage'
+  | 'disability'
+  | 'public_interest';
+
+export type StateDutyLanguage = 'hy' | 'ru' | 'en';
+
+export interface StateDutyInput {
+  claimType: StateDutyClaimType;
+  /** Claim amount in AMD; only used for property claims */
+  claimAmount: number;
+  instance: StateDutyInstance;
+  exemptions?: StateDutyExemption[];
+}
+
+export interface StateDutyRule {
+  /** Percentage of the claim amount */
+  percent?: number;
+  /** Fixed duty, in multiples of the base duty */
+  baseMultiple?: number;
+  /** Article of the Law "On State Duty" */
+  article: string;
+}
+
+export interface StateDutyBasis {
+  law: string;
+  article: string;
+}
+
+export interface StateDutyCalculation {
+  claimType: StateDutyClaimType;
+  claimAmount: number;
+  instance: StateDutyInstance;
+  /** Exemptions that were applied; empty when the duty is payable */
+  exemptions: StateDutyExemption[];
+  /** Rule the fee was computed with; null when exempt */
+  rule: StateDutyRule | null;
+  /** Payable duty in AMD, rounded to whole drams */
+  fee: number;
+  exempt: boolean;
+  basis: StateDutyBasis[];
+}
+
+interface LocalizedLabel {
+  id: string;
+  label_hy: string;
+  label_ru: string;
+  label_en: string;
+}
+
+export const STATE_DUTY_LAW = 'RA Law "On State Duty"';
+
+/** Base duty (AMD) that fixed rates are expressed in */
+export const STATE_DUTY_BASE_AMD = 1000;
+
+const RATES_ARTICLE = '9';
+const EXEMPTIONS_ARTICLE = '22';
+
+/**
+ * Court duty rates by instance and claim type (Art. 9).
+ */
+export const STATE_DUTY_RULES: Record<StateDutyInstance, Record<StateDutyClaimType, StateDutyRule>> = {
+  first_instance: {
+    property: { percent: 2, article: RATES_ARTICLE },
+    non_property: { baseMultiple: 3, article: RATES_ARTICLE },
+  },
+  appeal: {
+    property: { percent: 3, article: RATES_ARTICLE },
+    non_property: { baseMultiple: 5, article: RATES_ARTICLE },
+  },
+  cassation: {
+    property: { percent: 4, article: RATES_ARTICLE },
+    non_property: { baseMultiple: 10, article: RATES_ARTICLE },
+  },
+  administrative: {
+    property: { percent: 2, article: RATES_ARTICLE },
+    non_property: { baseMultiple: 4, article: RATES_ARTICLE },
+  },
+  constitutional: {
+    property: { baseMultiple: 3, article: RATES_ARTICLE },
+    non_property: { baseMultiple: 3, article: RATES_ARTICLE },
+  },
+};
+
+export const STATE_DUTY_CLAIM_TYPES: readonly LocalizedLabel[] = [
+  { id: 'property', label_hy: '\u0533\u0578\u0582\u0575\u0584\u0561\u0575\u056B\u0576', label_ru: '\u0418\u043C\u0443\u0449\u0435\u0441\u0442\u0432\u0435\u043D\u043D\u044B\u0439', label_en: 'Property' },
+  { id: 'non_property', label_hy: '\u0548\u0579 \u0563\u0578\u0582\u0575\u0584\u0561\u0575\u056B\u0576', label_ru: '\u041D\u0435\u0438\u043C\u0443\u0449\u0435\u0441\u0442\u0432\u0435\u043D\u043D\u044B\u0439', label_en: 'Non-property' },
+];
+
+export const STATE_DUTY_INSTANCES: readonly LocalizedLabel[] = [
+  { id: 'first_instance', label_hy: '\u0531\u057C\u0561\u057B\u056B\u0576 \u0561\u057F\u0575\u0561\u0576', label_ru: '\u041F\u0435\u0440\u0432\u0430\u044F \u0438\u043D\u0441\u0442\u0430\u043D\u0446\u0438\u044F', label_en: 'First instance' },
+  { id: 'appeal', label_hy: '\u054E\u0565\u0580\u0561\u0584\u0576\u0576\u056B\u0579', label_ru: '\u0410\u043F\u0435\u043B\u043B\u044F\u0446\u0438\u044F', label_en: 'Appeal' },
+  { id: 'cassation', label_hy: '\u054E\u0573\u057C\u0561\u0562\u0565\u056F', label_ru: '\u041A\u0430\u0441\u0441\u0430\u0446\u0438\u044F', label_en: 'Cassation' },
+  { id: 'administrative', label_hy: '\u054E\u0561\u0580\u0579\u0561\u056F\u0561\u0576 \u0564\u0561\u057F\u0561\u0580\u0561\u0576', label_ru: '\u0410\u0434\u043C\u0438\u043D\u0438\u0441\u0442\u0440\u0430\u0442\u0438\u0432\u043D\u044B\u0439 \u0441\u0443\u0434', label_en: 'Administrative court' },
+  { id: 'constitutional', label_hy: '\u054D\u0561\u0570\u0574\u0561\u0576\u0561\u0564\u0580\u0561\u056F\u0561\u0576 \u0564\u0561\u057F\u0561\u0580\u0561\u0576', label_ru: '\u041A\u043E\u043D\u0441\u0442\u0438\u0442\u0443\u0446\u0438\u043E\u043D\u043D\u044B\u0439 \u0441\u0443\u0434', label_en: 'Constitutional court' },
+];
+
+/** Full exemptions from court duty (Art. 22) */
+export const STATE_DUTY_EXEMPTIONS: readonly LocalizedLabel[] = [
+  { id: 'labor_wages', label_hy: '\u0531\u0577\u056D\u0561\u057F\u0561\u057E\u0561\u0580\u0571\u056B \u0562\u057C\u0576\u0561\u0563\u0561\u0576\u0571\u0578\u0582\u0574', label_ru: '\u0412\u0437\u044B\u0441\u043A\u0430\u043D\u0438\u0435 \u0437\u0430\u0440\u0430\u0431\u043E\u0442\u043D\u043E\u0439 \u043F\u043B\u0430\u0442\u044B', label_en: 'Recovery of wages' },
+  { id: 'alimony', label_hy: '\u0531\u056C\u056B\u0574\u0565\u0576\u057F\u056B \u0562\u057C\u0576\u0561\u0563\u0561\u0576\u0571\u0578\u0582\u0574', label_ru: '\u0412\u0437\u044B\u0441\u043A\u0430\u043D\u0438\u0435 \u0430\u043B\u0438\u043C\u0435\u043D\u0442\u043E\u0432', label_en: 'Recovery of alimony' },
+  { id: 'health_damage', label_hy: '\u0531\u057C\u0578\u0572\u057B\u0578\u0582\u0569\u0575\u0561\u0576\u0568 \u057A\u0561\u057F\u0573\u0561\u057C\u057E\u0561\u056E \u057E\u0576\u0561\u057D\u056B \u0570\u0561\u057F\u0578\u0582\u0581\u0578\u0582\u0574', label_ru: '\u0412\u043E\u0437\u043C\u0435\u0449\u0435\u043D\u0438\u0435 \u0432\u0440\u0435\u0434\u0430 \u0437\u0434\u043E\u0440\u043E\u0432\u044C\u044E', label_en: 'Compensation for harm to health' },
+  { id: 'disability', label_hy: 'I \u056F\u0561\u0574 II \u056D\u0574\u0562\u056B \u0570\u0561\u0577\u0574\u0561\u0576\u0564\u0561\u0574\u0578\u0582\u0569\u0575\u0578\u0582\u0576 \u0578\u0582\u0576\u0565\u0581\u0578\u0572 \u0561\u0576\u0571', label_ru: '\u041B\u0438\u0446\u043E \u0441 \u0438\u043D\u0432\u0430\u043B\u0438\u0434\u043D\u043E\u0441\u0442\u044C\u044E I \u0438\u043B\u0438 II \u0433\u0440\u0443\u043F\u043F\u044B', label_en: 'Person with group I or II disability' },
+  { id: 'public_interest', label_hy: '\u0540\u0561\u0576\u0580\u0561\u0575\u056B\u0576 \u0577\u0561\u0570\u056B \u057A\u0561\u0577\u057F\u057A\u0561\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576 (\u0564\u0561\u057F\u0561\u056D\u0561\u0566)', label_ru: '\u0417\u0430\u0449\u0438\u0442\u0430 \u043F\u0443\u0431\u043B\u0438\u0447\u043D\u044B\u0445 \u0438\u043D\u0442\u0435\u0440\u0435\u0441\u043E\u0432 (\u043F\u0440\u043E\u043A\u0443\u0440\u043E\u0440)', label_en: 'Protection of public interest (prosecutor)' },
+];
+
+export function getStateDutyLabel(items: readonly LocalizedLabel[], id: string, lang: StateDutyLanguage): string {
+  const item = items.find(i => i.id === id);
+  if (!item) return id;
+  return lang === 'hy' ? item.label_hy : lang === 'ru' ? item.label_ru : item.label_en;
+}
+
+/**
+ * Parses a user-entered amount ("1 500 000", "1,500,000.50") into AMD.
+ * Returns 0 for anything unparseable.
+ */
+export function parseClaimAmount(text: string): number {
+  const value = parseFloat(text.replace(/[\s,]/g, '').replace(/[^\d.]/g, ''));
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+/**
+ * Court instance a document is filed with, from its template category and key.
+ */
+export function stateDutyInstanceFor(category: string, templateKey: string): StateDutyInstance {
+  const key = templateKey.toLowerCase();
+  if (key.includes('cassation')) return 'cassation';
+  if (key.includes('appeal')) return 'appeal';
+  if (category === 'constitutional' || key.includes('constitutional')) return 'constitutional';
+  if (category === 'administrative_process' || key.includes('admin')) return 'administrative';
+  return 'first_instance';
+}
+
+export function calculateStateDuty(input: StateDutyInput): StateDutyCalculation {
+  const claimAmount = Math.max(0, input.claimAmount || 0);
+  const exemptions = [...new Set(input.exemptions ?? [])];
+
+  if (exemptions.length > 0) {
+    return {
+      claimType: input.claimType,
+      claimAmount,
+      instance: input.instance,
+      exemptions,
+      rule: null,
+      fee: 0,
+      exempt: true,
+      basis: [{ law: STATE_DUTY_LAW, article: EXEMPTIONS_ARTICLE }],
+    };
+  }
+
+  const rule = STATE_DUTY_RULES[input.instance][input.claimType];
+  const fee = rule.percent !== undefined
+    ? Math.round((claimAmount * rule.percent) / 100)
+    : (rule.baseMultiple ?? 0) * STATE_DUTY_BASE_AMD;
+
+  return {
+    claimType: input.claimType,
+    claimAmount,
+    instance: input.instance,
+    exemptions: [],
+    rule,
+    fee,
+    exempt: false,
+    basis: [{ law: STATE_DUTY_LAW, article: rule.article }],
+  };
+}
+
+/** "1500000" -> "1 500 000" */
+export function formatAmd(amount: number): string {
+  return String(Math.round(amount)).replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+}
+
+const BREAKDOWN_TEXT = {
+  hy: {
+    law: '\u00AB\u054A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584\u056B \u0574\u0561\u057D\u056B\u0576\u00BB \u0540\u0540 \u0585\u0580\u0565\u0576\u0584',
+    article: (n: string) => `${n}-\u0580\u0564 \u0570\u0578\u0564\u057E\u0561\u056E`,
+    amd: '\u0564\u0580\u0561\u0574',
+    claimType: '\u0540\u0561\u0575\u0581\u056B \u057F\u0565\u057D\u0561\u056F',
+    instance: '\u0531\u057F\u0575\u0561\u0576',
+    claimAmount: '\u0540\u0561\u0575\u0581\u0561\u0563\u056B\u0576',
+    rate: '\u0534\u0580\u0578\u0582\u0575\u0584\u0561\u0579\u0561\u0583',
+    ofClaim: '\u0570\u0561\u0575\u0581\u0561\u0563\u0576\u056B\u0581',
+    baseDuty: '\u0562\u0561\u0566\u0561\u0575\u056B\u0576 \u057F\u0578\u0582\u0580\u0584',
+    exemption: '\u0531\u0566\u0561\u057F\u057E\u0561\u056E \u0567 \u057A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584\u056B\u0581',
+    total: '\u054A\u0565\u057F\u0561\u056F\u0561\u0576 \u057F\u0578\u0582\u0580\u0584',
+  },
+  ru: {
+    law: '\u0417\u0430\u043A\u043E\u043D \u0420\u0410 \u00AB\u041E \u0433\u043E\u0441\u0443\u0434\u0430\u0440\u0441\u0442\u0432\u0435\u043D\u043D\u043E\u0439 \u043F\u043E\u0448\u043B\u0438\u043D\u0435\u00BB',
+    article: (n: string) => `\u0441\u0442\u0430\u0442\u044C\u044F ${n}`,
+    amd: '\u0434\u0440\u0430\u043C',
+    claimType: '\u0412\u0438\u0434 \u0438\u0441\u043A\u0430',
+    instance: '\u0418\u043D\u0441\u0442\u0430\u043D\u0446\u0438\u044F',
+    claimAmount: '\u0426\u0435\u043D\u0430 \u0438\u0441\u043A\u0430',
+    rate: '\u0421\u0442\u0430\u0432\u043A\u0430',
+    ofClaim: '\u043E\u0442 \u0446\u0435\u043D\u044B \u0438\u0441\u043A\u0430',
+    baseDuty: '\u0431\u0430\u0437\u043E\u0432\u0430\u044F \u043F\u043E\u0448\u043B\u0438\u043D\u0430',
+    exemption: '\u041E\u0441\u0432\u043E\u0431\u043E\u0436\u0434\u0435\u043D\u043E \u043E\u0442 \u0433\u043E\u0441\u0443\u0434\u0430\u0440\u0441\u0442\u0432\u0435\u043D\u043D\u043E\u0439 \u043F\u043E\u0448\u043B\u0438\u043D\u044B',
+    total: '\u0413\u043E\u0441\u0443\u0434\u0430\u0440\u0441\u0442\u0432\u0435\u043D\u043D\u0430\u044F \u043F\u043E\u0448\u043B\u0438\u043D\u0430',
+  },
+  en: {
+    law: 'RA Law "On State Duty"',
+    article: (n: string) => `Art. ${n}`,
+    amd: 'AMD',
+    claimType: 'Claim type',
+    instance: 'Instance',
+    claimAmount: 'Claim amount',
+    rate: 'Rate',
+    ofClaim: 'of the claim amount',
+    baseDuty: 'base duty',
+    exemption: 'Exempt from state duty',
+    total: 'State duty',
+  },
+};
+
+/**
+ * Human-readable calculation, one line per step, in the document language.
+ */
+export function formatStateDutyBreakdown(calc: StateDutyCalculation, lang: StateDutyLanguage): string[] {
+  const t = BREAKDOWN_TEXT[lang];
+  const cite = (article: string) => `${t.law}, ${t.article(article)}`;
+  const amd = (n: number) => `${formatAmd(n)} ${t.amd}`;
+
+  const lines = [
+    `${t.claimType}: ${getStateDutyLabel(STATE_DUTY_CLAIM_TYPES, calc.claimType, lang)}`,
+    `${t.instance}: ${getStateDutyLabel(STATE_DUTY_INSTANCES, calc.instance, lang)}`,
+  ];
+  if (calc.claimType === 'property' && calc.claimAmount > 0) {
+    lines.push(`${t.claimAmount}: ${amd(calc.claimAmount)}`);
+  }
+
+  if (calc.exempt) {
+    const reasons = calc.exemptions.map(e => getStateDutyLabel(STATE_DUTY_EXEMPTIONS, e, lang)).join('; ');
+    lines.push(`${t.exemption}: ${reasons} (${cite(calc.basis[0].article)})`);
+  } else if (calc.rule?.percent !== undefined) {
+    lines.push(`${t.rate}: ${calc.rule.percent}% ${t.ofClaim} (${cite(calc.rule.article)})`);
+    lines.push(`${formatAmd(calc.claimAmount)} \u00D7 ${calc.rule.percent}% = ${amd(calc.fee)}`);
+  } else if (calc.rule) {
+    lines.push(`${t.rate}: ${calc.rule.baseMultiple} \u00D7 ${t.baseDuty} (${cite(calc.rule.article)})`);
+    lines.push(`${calc.rule.baseMultiple} \u00D7 ${amd(STATE_DUTY_BASE_AMD)} = ${amd(calc.fee)}`);
+  }
+
+  lines.push(`${t.total}: ${amd(calc.fee)}`);
+  return lines;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import {
+  contradictionAnchors,
+  contradictionKey,
+  contradictionSource,
+  type TranscriptContradiction,
+} from './transcript-contradictions';
+
+const base: TranscriptContradiction = {
+  segment_id: 'seg-1',
+  start_ms: 65_000,
+  end_ms: 80_000,
+  transcript_quote: 'I left at nine, alone.',
+  prior_quote: 'I left at eleven together with Aram.',
+  explanation: 'Time and company differ.',
+  severity: 'high',
+  chunk_id: 'chunk-1',
+  source_type: 'volume',
+  file_id: 'file-1',
+  file_name: 'volume-2.pdf',
+  volume_id: 'vol-2',
+  volume_number: 2,
+  volume_title: 'Volume 2',
+  page_start: 14,
+  page_end: 15,
+  page_estimated: false,
+};
+
+describe('transcript contradictions', () => {
+  it('keys a row by statement and excerpt', () => {
+    expect(contradictionKey(base)).toBe('seg-1:chunk-1');
+  });
+
+  it('anchors the pages of a volume excerpt', () => {
+    expect(contradictionAnchors(base)).toEqual([
+      { volume_number: 2, page: 14 },
+      { volume_number: 2, page: 15 },
+    ]);
+    expect(contradictionAnchors({ ...base, page_end: 40 })).toHaveLength(5);
+  });
+
+  it('does not anchor estimated pages or files outside a volume', () => {
+    expect(contradictionAnchors({ ...base, page_estimated: true })).toEqual([]);
+    expect(contradictionAnchors({ ...base, volume_number: null, source_type: 'ocr' })).toEqual([]);
+  });
+
+  it('names the volume, else the file', () => {
+    expect(contradictionSource(base)).toBe('Volume 2');
+    expect(contradictionSource({ ...base, volume_title: null })).toBe('volume-2.pdf');
+  });
+});
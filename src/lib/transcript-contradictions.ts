@@ -0,0 +1,65 @@
+/**
+ * Client side of the transcript-contradictions edge function: what one
+ * speaker said at the hearing vs. their earlier statements in the case file.
+ *
+ * Timestamps and volume / page locators come from the transcript segment and
+ * the retrieved case-file chunk, not from the model.
+ */
+
+import type { PageAnchor } from '@/lib/page-anchors';
+
+export type ContradictionSeverity = 'high' | 'medium' | 'low';
+
+export interface TranscriptContradiction {
+  segment_id: string;
+  start_ms: number;
+  end_ms: number;
+  transcript_quote: string;
+  prior_quote: string;
+  explanation: string;
+  severity: ContradictionSeverity;
+  chunk_id: string;
+  source_type: 'ocr' | 'volume';
+  file_id: string | null;
+  file_name: string | null;
+  volume_id: string | null;
+  volume_number: number | null;
+  volume_title: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+}
+
+export interface ContradictionAnalysis {
+  contradictions: TranscriptContradiction[];
+  /** Statements of the speaker that were compared */
+  statements: number;
+  /** Case-file excerpts they were compared with */
+  excerpts: number;
+  /** False when no case file has been indexed for search yet */
+  indexed: boolean;
+}
+
+// An estimated range is wide; anchoring every page of it would mislead
+const MAX_ANCHOR_PAGES = 5;
+
+/** Stable key of a row: one statement against one excerpt */
+export function contradictionKey(c: Pick<TranscriptContradiction, 'segment_id' | 'chunk_id'>): string {
+  return `${c.segment_id}:${c.chunk_id}`;
+}
+
+/** Volume pages of the earlier statement; none for OCR files outside a volume */
+export function contradictionAnchors(c: TranscriptContradiction): PageAnchor[] {
+  if (c.volume_number === null || c.page_start === null || c.page_estimated) return [];
+  const last = Math.min(c.page_end ?? c.page_start, c.page_start + MAX_ANCHOR_PAGES - 1);
+  const anchors: PageAnchor[] = [];
+  for (let page = c.page_start; page <= last; page++) {
+    anchors.push({ volume_number: c.volume_number, page });
+  }
+  return anchors;
+}
+
+/** Document of the earlier statement: the volume title or the file name */
+export function contradictionSource(c: TranscriptContradiction): string | null {
+  return c.volume_title ?? c.file_name;
+}
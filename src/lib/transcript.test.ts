@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTimestamp,
+  isSegmentEdited,
+  parseSpeakerLabels,
+  parseTranscriptText,
+  speakerIds,
+  toSrt,
+  toVtt,
+  type TranscriptLine,
+} from './transcript';
+
+const line = (overrides: Partial<TranscriptLine>): TranscriptLine => ({
+  id: 'seg',
+  start_ms: 0,
+  end_ms: 0,
+  speaker: 'S1',
+  text: '',
+  confidence: null,
+  original_text: null,
+  original_speaker: null,
+  ...overrides,
+});
+
+describe('transcript', () => {
+  it('formats timestamps like the rendered transcript', () => {
+    expect(formatTimestamp(0)).toBe('0:00');
+    expect(formatTimestamp(65_400)).toBe('1:05');
+    expect(formatTimestamp(3_725_000)).toBe('1:02:05');
+  });
+
+  it('parses speaker labels and drops empty entries', () => {
+    expect(parseSpeakerLabels({
+      S1: { name: ' Judge Petrosyan ', role: 'judge', party_id: null },
+      S2: { name: '', role: 'pilot' },
+      S3: { name: 'Witness', role: 'witness', party_id: 'p1' },
+      S4: 'x',
+    })).toEqual({
+      S1: { name: 'Judge Petrosyan', role: 'judge', party_id: null },
+      S3: { name: 'Witness', role: 'witness', party_id: 'p1' },
+    });
+    expect(parseSpeakerLabels(null)).toEqual({});
+  });
+
+  it('parses legacy transcript text into segments', () => {
+    const { lines, labels } = parseTranscriptText([
+      '[0:00] Спикер 1: Добрый день.',
+      '[0:08] Speaker 2: Defense is ready,',
+      'your honour.',
+      '',
+      '[1:00:05] Судья: Recess.',
+    ].join('\n'));
+
+    expect(lines.map(l => [l.start_ms, l.end_ms, l.speaker, l.text])).toEqual([
+      [0, 8_000, 'S1', 'Добрый день.'],
+      [8_000, 3_605_000, 'S2', 'Defense is ready, your honour.'],
+      [3_605_000, 3_605_000, 'S3', 'Recess.'],
+    ]);
+    expect(labels).toEqual({ S3: { name: 'Судья', role: null, party_id: null } });
+    expect(speakerIds(lines)).toEqual(['S1', 'S2', 'S3']);
+  });
+
+  it('keeps untimed text as one speaker', () => {
+    const { lines } = parseTranscriptText('Plain dictation without labels.\nSecond sentence.');
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ start_ms: null, speaker: 'S1', text: 'Plain dictation without labels. Second sentence.' });
+  });
+
+  it('detects edited text or speaker', () => {
+    expect(isSegmentEdited(line({ text: 'a', original_text: 'a', original_speaker: 'S1' }))).toBe(false);
+    expect(isSegmentEdited(line({ text: 'b', original_text: 'a', original_speaker: 'S1' }))).toBe(true);
+    expect(isSegmentEdited(line({ text: 'a', original_text: 'a', speaker: 'S2', original_speaker: 'S1' }))).toBe(true);
+  });
+
+  it('exports SRT and WebVTT cues with speaker names', () => {
+    const lines = [
+      line({ start_ms: 0, end_ms: 7_500, speaker: 'S1', text: 'Court is in session.' }),
+      line({ start_ms: 3_723_004, end_ms: 3_723_004, speaker: 'S2', text: 'A < B & C' }),
+      line({ start_ms: null, end_ms: null, text: 'untimed' }),
+    ];
+    const name = (id: string) => (id === 'S1' ? 'Judge' : 'Speaker 2');
+
+    expect(toSrt(lines, name)).toBe(
+      '1\n00:00:00,000 --> 00:00:07,500\nJudge: Court is in session.\n\n' +
+      '2\n01:02:03,004 --> 01:02:04,004\nSpeaker 2: A < B & C\n',
+    );
+    expect(toVtt(lines, name)).toBe(
+      'WEBVTT\n\n00:00:00.000 --> 00:00:07.500\n<v Judge>Court is in session.\n\n' +
+      '01:02:03.004 --> 01:02:04.004\n<v Speaker 2>A &lt; B &amp; C\n',
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import type { Database, Json } from '@/integrations/supabase/types';
+
+/**
+ * Structured transcripts (transcript_segments): speaker names, timestamps and
+ * SRT / WebVTT export.
+ *
+ * Transcriptions stored before segments existed only have the rendered
+ * "[MM:SS] Speaker N: text" blob; parseTranscriptText() turns it back into
+ * read-only segments so they display and export the same way.
+ */
+
+export type TranscriptSegment = Database['public']['Tables']['transcript_segments']['Row'];
+
+/** What display and export need; legacy segments have no id and maybe no times */
+export interface TranscriptLine {
+  id: string | null;
+  start_ms: number | null;
+  end_ms: number | null;
+  /** "S1", "S2", … */
+  speaker: string;
+  text: string;
+  confidence: number | null;
+  /** Model output when the segment was corrected */
+  original_text: string | null;
+  original_speaker: string | null;
+}
+
+export const SPEAKER_ROLES = [
+  'judge',
+  'secretary',
+  'prosecutor',
+  'defense_counsel',
+  'representative',
+  'claimant',
+  'defendant',
+  'accused',
+  'victim',
+  'witness',
+  'expert',
+  'other',
+] as const;
+
+export type SpeakerRole = typeof SPEAKER_ROLES[number];
+
+export interface SpeakerLabel {
+  name: string;
+  role: SpeakerRole | null;
+  /** case_parties.id when the speaker is a registered party */
+  party_id: string | null;
+}
+
+/** audio_transcriptions.speaker_labels, keyed by speaker id */
+export type SpeakerLabels = Record<string, SpeakerLabel>;
+
+export function toSpeakerRole(value: unknown): SpeakerRole | null {
+  return (SPEAKER_ROLES as readonly string[]).includes(value as string) ? value as SpeakerRole : null;
+}
+
+/** Labels from the JSON column; entries without a name or role are dropped */
+export function parseSpeakerLabels(raw: Json | null | undefined): SpeakerLabels {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const labels: SpeakerLabels = {};
+  for (const [id, value] of Object.entries(raw)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
+    const name = typeof value.name === 'string' ? value.name.trim() : '';
+    const role = toSpeakerRole(value.role);
+    if (!name && !role) continue;
+    labels[id] = { name, role, party_id: typeof value.party_id === 'string' ? value.party_id : null };
+  }
+  return labels;
+}
+
+export function toTranscriptLine(segment: TranscriptSegment): TranscriptLine {
+  return {
+    id: segment.id,
+    start_ms: segment.start_ms,
+    end_ms: segment.end_ms,
+    speaker: segment.speaker,
+    text: segment.text,
+    confidence: segment.confidence,
+    original_text: segment.original_text,
+    original_speaker: segment.original_speaker,
+  };
+}
+
+export function isSegmentEdited(line: TranscriptLine): boolean {
+  return (line.original_text !== null && line.text !== line.original_text)
+    || (line.original_speaker !== null && line.speaker !== line.original_speaker);
+}
+
+/** Speaker ids in order of first appearance */
+export function speakerIds(lines: Pick<TranscriptLine, 'speaker'>[]): string[] {
+  return [...new Set(lines.map(l => l.speaker))];
+}
+
+/** Speaker number for "Speaker {{number}}" fallbacks */
+export function speakerNumber(id: string): number {
+  return parseInt(id.replace(/^S/, ''), 10) || 1;
+}
+
+/** "M:SS", or "H:MM:SS" from an hour on */
+export function formatTimestamp(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+function parseClock(value: string): number {
+  const parts = value.split(':').map(p => parseInt(p, 10));
+  const [h, m, s] = parts.length === 3 ? parts : [0, ...parts];
+  return ((h * 60 + m) * 60 + s) * 1000;
+}
+
+const GENERIC_SPEAKER_RE = /^(?:\u0441\u043f\u0438\u043a\u0435\u0440|speaker|\u0433\u043e\u0432\u043e\u0440\u044f\u0449\u0438\u0439|\u056d\u0578\u057d\u0578\u0572)\s*(\d+)$/i;
+const LINE_RE = /^(?:\[(\d+:\d{2}(?::\d{2})?)\]\s*)?(?:([^:\n]{1,40}?)\s*:\s+)?(.+)$/;
+
+/**
+ * Segments from a rendered transcript blob. "Speaker N" labels keep their
+ * number; a named label ("Судья:") gets the next free id and becomes its name.
+ */
+export function parseTranscriptText(text: string): { lines: TranscriptLine[]; labels: SpeakerLabels } {
+  const lines: TranscriptLine[] = [];
+  const labels: SpeakerLabels = {};
+  const named = new Map<string, string>();
+  let nextId = 1;
+
+  const idFor = (label: string | undefined): string => {
+    const generic = label?.match(GENERIC_SPEAKER_RE);
+    if (generic) {
+      nextId = Math.max(nextId, parseInt(generic[1], 10) + 1);
+      return `S${parseInt(generic[1], 10)}`;
+    }
+    const key = (label ?? '').trim();
+    if (!key) return lines[lines.length - 1]?.speaker ?? 'S1';
+    if (!named.has(key)) {
+      const id = `S${nextId++}`;
+      named.set(key, id);
+      labels[id] = { name: key, role: null, party_id: null };
+    }
+    return named.get(key)!;
+  };
+
+  for (const raw of (text || '').split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = line.match(LINE_RE);
+    if (!match) continue;
+    const [, clock, label, content] = match;
+    if (!clock && !label && lines.length > 0) {
+      lines[lines.length - 1].text += ` ${content.trim()}`;
+      continue;
+    }
+    lines.push({
+      id: null,
+      start_ms: clock ? parseClock(clock) : null,
+      end_ms: null,
+      speaker: idFor(label),
+      text: content.trim(),
+      confidence: null,
+      original_text: null,
+      original_speaker: null,
+    });
+  }
+
+  lines.forEach((line, i) => {
+    if (line.start_ms === null) return;
+    const next = lines.slice(i + 1).find(l => l.start_ms !== null)?.start_ms;
+    line.end_ms = Math.max(next ?? line.start_ms, line.start_ms);
+  });
+  return { lines, labels };
+}
+
+// ── Subtitle export ──────────────────────────────────────────────────────────
+
+function cueTime(ms: number, separator: ',' | '.'): string {
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  const h = Math.floor(ms / 3600000);
+  const m = Math.floor((ms % 3600000) / 60000);
+  const s = Math.floor((ms % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+// Zero-length cues are dropped by players; give them a short minimum
+const MIN_CUE_MS = 1000;
+
+function timedCues(lines: TranscriptLine[]): Array<{ start: number; end: number; line: TranscriptLine }> {
+  return lines
+    .filter(l => l.start_ms !== null)
+    .map(l => ({
+      start: l.start_ms!,
+      end: Math.max(l.end_ms ?? l.start_ms!, l.start_ms! + MIN_CUE_MS),
+      line: l,
+    }));
+}
+
+/** True when the lines carry timestamps, i.e. subtitles can be exported */
+export function hasTimestamps(lines: TranscriptLine[]): boolean {
+  return lines.some(l => l.start_ms !== null);
+}
+
+export function toSrt(lines: TranscriptLine[], speakerName: (id: string) => string): string {
+  return timedCues(lines)
+    .map((cue, i) => [
+      String(i + 1),
+      `${cueTime(cue.start, ',')} --> ${cueTime(cue.end, ',')}`,
+      `${speakerName(cue.line.speaker)}: ${cue.line.text}`,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function toVtt(lines: TranscriptLine[], speakerName: (id: string) => string): string {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const cues = timedCues(lines).map(cue => [
+    `${cueTime(cue.start, '.')} --> ${cueTime(cue.end, '.')}`,
+    `<v ${escape(speakerName(cue.line.speaker))}>${escape(cue.line.text)}`,
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
@@ -15,3 +15,63 @@ export function decodeUnicodeEscapes(input: string): string {
     String.fromCharCode(parseInt(hex, 16))
   );
 }
+
+// Multi-letter Latin renderings; single letters go through LATIN_LETTERS
+const LATIN_DIGRAPHS: Array<[string, string]> = [
+  ['\u0578\u0582', 'u'], // ու
+  ['\u0587', 'ev'], // և
+  ['\u056a', 'zh'], ['\u056d', 'kh'], ['\u056e', 'ts'], ['\u0571', 'dz'], ['\u0572', 'gh'],
+  ['\u0573', 'ch'], ['\u0577', 'sh'], ['\u0579', 'ch'], ['\u0581', 'ts'], // ժ խ ծ ձ ղ ճ շ չ ց
+  ['\u0436', 'zh'], ['\u0445', 'kh'], ['\u0446', 'ts'], ['\u0447', 'ch'], ['\u0448', 'sh'],
+  ['\u0449', 'shch'], ['\u044e', 'yu'], ['\u044f', 'ya'], // ж х ц ч ш щ ю я
+];
+
+// Armenian (ա-ֆ) and Cyrillic (а-я, ё) lowercase letters
+const LATIN_LETTERS: Record<string, string> = {
+  '\u0561': 'a', '\u0562': 'b', '\u0563': 'g', '\u0564': 'd', '\u0565': 'e', '\u0566': 'z',
+  '\u0567': 'e', '\u0568': 'y', '\u0569': 't', '\u056b': 'i', '\u056c': 'l', '\u056f': 'k',
+  '\u0570': 'h', '\u0574': 'm', '\u0575': 'y', '\u0576': 'n', '\u0578': 'o', '\u057a': 'p',
+  '\u057b': 'j', '\u057c': 'r', '\u057d': 's', '\u057e': 'v', '\u057f': 't', '\u0580': 'r',
+  '\u0582': 'v', '\u0583': 'p', '\u0584': 'k', '\u0585': 'o', '\u0586': 'f',
+  '\u0430': 'a', '\u0431': 'b', '\u0432': 'v', '\u0433': 'g', '\u0434': 'd', '\u0435': 'e',
+  '\u0451': 'e', '\u0437': 'z', '\u0438': 'i', '\u0439': 'y', '\u043a': 'k', '\u043b': 'l',
+  '\u043c': 'm', '\u043d': 'n', '\u043e': 'o', '\u043f': 'p', '\u0440': 'r', '\u0441': 's',
+  '\u0442': 't', '\u0443': 'u', '\u0444': 'f', '\u044a': '', '\u044b': 'y', '\u044c': '',
+  '\u044d': 'e',
+};
+
+/**
+ * Transliterate Armenian and Cyrillic text to Latin (lowercased).
+ * Latin and other characters pass through.
+ *
+ * Examples:
+ *   transliterateToLatin("Պետրոսյան") => "petrosyan"
+ *   transliterateToLatin("Петросян") => "petrosyan"
+ */
+export function transliterateToLatin(input: string): string {
+  if (!input) return input;
+  let text = input.toLowerCase();
+  for (const [from, to] of LATIN_DIGRAPHS) text = text.split(from).join(to);
+  return Array.from(text, (ch) => LATIN_LETTERS[ch] ?? ch).join('');
+}
+
+/**
+ * Script-independent key for comparing person and organization names, so
+ * that Armenian, Cyrillic and Latin spellings of one name meet. Mirrors the
+ * party_name_key() DB function (normalize_hy + the same transliteration).
+ *
+ * Examples:
+ *   nameMatchKey("Պետրոսյան Արամ") => "petrosian aram"
+ *   nameMatchKey("Petrosian, Aram") => "petrosian aram"
+ */
+export function nameMatchKey(name: string): string {
+  return transliterateToLatin(name)
+    .replace(/[^\p{L}\p{N}\s]+/gu, '')
+    .replace(/y/g, 'i')
+    .replace(/w/g, 'v')
+    .replace(/q/g, 'k')
+    .replace(/x/g, 'kh')
+    .replace(/(.)\1+/g, '$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -28,6 +28,7 @@ import { PracticeChunkManager } from "@/components/admin/PracticeChunkManager";
 import { ErrorLogs } from "@/components/admin/ErrorLogs";
 import { DictionaryImport } from "@/components/admin/DictionaryImport";
 import { AIProviderSwitch } from "@/components/admin/AIProviderSwitch";
+import { ModelPricingManager } from "@/components/admin/ModelPricingManager";
 import { AdminAIChatBot } from "@/components/admin/AdminAIChatBot";
 
 const AdminPanel = () => {
@@ -138,6 +139,7 @@ const AdminPanel = () => {
           <TabsContent value="analytics" className="space-y-6">
             <AIProviderSwitch />
             <UsageMonitor budgetLimit={10.0} compact={false} />
+            <ModelPricingManager />
           </TabsContent>
 
           {/* Prompts Tab */}
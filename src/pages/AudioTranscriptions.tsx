@@ -12,6 +12,7 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import { formatTimestamp, parseTranscriptText, speakerIds, speakerNumber } from '@/lib/transcript';
 import { 
   ArrowLeft, 
   Scale, 
@@ -37,16 +38,9 @@ const SUPPORTED_VIDEO_FORMATS = [
   'video/x-msvideo', 'video/x-matroska',
 ];
 const ALL_SUPPORTED_FORMATS = [...SUPPORTED_AUDIO_FORMATS, ...SUPPORTED_VIDEO_FORMATS];
-const MAX_FILE_SIZE = 100 * 1024 * 1024;
+const MAX_FILE_SIZE = 1024 * 1024 * 1024;
 
-// ── Dialogue parser ──────────────────────────────────────────────────
-
-interface DialogueLine {
-  timestamp: string | null;
-  speaker: string;
-  speakerIndex: number;
-  text: string;
-}
+// ── Dialogue view ────────────────────────────────────────────────────
 
 const SPEAKER_COLORS = [
   'bg-primary/10 border-primary/30 text-foreground',
@@ -64,38 +58,6 @@ const SPEAKER_BADGE_COLORS = [
   'bg-pink-600 text-white',
 ];
 
-function parseDialogue(text: string): DialogueLine[] {
-  if (!text) return [];
-  const lines = text.split('\n').filter(l => l.trim());
-  const speakerMap: Record<string, number> = {};
-  let speakerCount = 0;
-
-  return lines.map(line => {
-    const trimmed = line.trim();
-
-    // Match optional timestamp [MM:SS] or [H:MM:SS]
-    const tsMatch = trimmed.match(/^\[(\d+:\d+(?::\d+)?)\]\s*/);
-    const timestamp = tsMatch ? tsMatch[1] : null;
-    const rest = tsMatch ? trimmed.slice(tsMatch[0].length) : trimmed;
-
-    // Match speaker label (Russian / English / Armenian variants)
-    const speakerMatch = rest.match(/^((?:Спикер|Speaker|Speakers?|Председатель|Судья|Прокурор|Защитник|Адвокат)\s*\d*)\s*:\s*/i);
-    const speaker = speakerMatch ? speakerMatch[1].trim() : ('\u0421\u043f\u0438\u043a\u0435\u0440 1');
-    const content = speakerMatch ? rest.slice(speakerMatch[0].length) : rest;
-
-    if (!(speaker in speakerMap)) {
-      speakerMap[speaker] = speakerCount++;
-    }
-
-    return {
-      timestamp,
-      speaker,
-      speakerIndex: speakerMap[speaker],
-      text: content.trim(),
-    };
-  }).filter(l => l.text.length > 0);
-}
-
 // ── Component ────────────────────────────────────────────────────────
 
 const AudioTranscriptions = () => {
@@ -270,6 +232,18 @@ const AudioTranscriptions = () => {
 
       if (fnError) throw fnError;
 
+      // Long recordings are transcribed in the background; progress is in the case
+      if (result.queued) {
+        setTranscriptionResult(null);
+        toast({
+          title: t('audio:queued_title'),
+          description: t('audio:queued_description', { count: result.chunks_total }),
+        });
+        setSelectedFile(null);
+        if (fileInputRef.current) fileInputRef.current.value = '';
+        return;
+      }
+
       setTranscriptionResult({
         success: true,
         transcription: result.transcription,
@@ -303,9 +277,10 @@ const AudioTranscriptions = () => {
 
   // ── Render ───────────────────────────────────────────────────────
 
-  const dialogueLines = transcriptionResult?.transcription
-    ? parseDialogue(transcriptionResult.transcription)
-    : [];
+  const dialogue = parseTranscriptText(transcriptionResult?.transcription ?? '');
+  const dialogueSpeakers = speakerIds(dialogue.lines);
+  const speakerName = (id: string) =>
+    dialogue.labels[id]?.name || t('audio:speaker', { number: speakerNumber(id) });
 
   return (
     <div className="min-h-screen bg-background">
@@ -463,10 +438,11 @@ const AudioTranscriptions = () => {
                     {/* Dialogue view */}
                     <div className="rounded-lg border bg-muted/30 overflow-hidden">
                       <div className="max-h-96 overflow-y-auto p-3 space-y-2">
-                        {dialogueLines.length > 0 ? (
-                          dialogueLines.map((line, idx) => {
-                            const colorClass = SPEAKER_COLORS[line.speakerIndex % SPEAKER_COLORS.length];
-                            const badgeClass = SPEAKER_BADGE_COLORS[line.speakerIndex % SPEAKER_BADGE_COLORS.length];
+                        {dialogue.lines.length > 0 ? (
+                          dialogue.lines.map((line, idx) => {
+                            const speakerIndex = dialogueSpeakers.indexOf(line.speaker);
+                            const colorClass = SPEAKER_COLORS[speakerIndex % SPEAKER_COLORS.length];
+                            const badgeClass = SPEAKER_BADGE_COLORS[speakerIndex % SPEAKER_BADGE_COLORS.length];
                             return (
                               <div
                                 key={idx}
@@ -475,12 +451,12 @@ const AudioTranscriptions = () => {
                                 <div className="flex items-center gap-2 mb-1.5">
                                   <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${badgeClass} flex items-center gap-1`}>
                                     <User className="h-2.5 w-2.5" />
-                                    {line.speaker}
+                                    {speakerName(line.speaker)}
                                   </span>
-                                  {line.timestamp && (
+                                  {line.start_ms !== null && (
                                     <span className="flex items-center gap-1 text-xs text-muted-foreground">
                                       <Clock className="h-2.5 w-2.5" />
-                                      {line.timestamp}
+                                      {formatTimestamp(line.start_ms)}
                                     </span>
                                   )}
                                 </div>
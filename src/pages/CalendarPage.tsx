@@ -22,6 +22,7 @@ import {
 } from 'lucide-react';
 import type { Database } from '@/integrations/supabase/types';
 import { useCases } from '@/hooks/useCases';
+import type { PendingConflictCheck } from '@/hooks/useConflictCheck';
 
 type Case = Database['public']['Tables']['cases']['Row'];
 type CaseStatus = Database['public']['Enums']['case_status'];
@@ -187,8 +188,8 @@ const CalendarPage = () => {
     setDateSheetOpen(true);
   }, []);
 
-  const handleCreateCase = (data: Database['public']['Tables']['cases']['Insert']) => {
-    createCase.mutate(data, {
+  const handleCreateCase = (data: Database['public']['Tables']['cases']['Insert'], _files?: File[], conflictCheck?: PendingConflictCheck) => {
+    createCase.mutate({ ...data, conflictCheck }, {
       onSuccess: () => setCaseFormOpen(false),
     });
   };
@@ -15,10 +15,14 @@ import { CaseTimeline } from '@/components/cases/CaseTimeline';
 import { CaseFileUpload } from '@/components/cases/CaseFileUpload';
 import { CasePdfUpload } from '@/components/cases/CasePdfUpload';
 import { CaseComments } from '@/components/cases/CaseComments';
+import { CaseSearchPanel } from '@/components/cases/CaseSearchPanel';
 import { DocumentGeneratorDialog } from '@/components/documents/DocumentGeneratorDialog';
 import { CaseComplaintGenerator } from '@/components/cases/CaseComplaintGenerator';
 import { CaseReminders, CourtDateReminderSuggestion } from '@/components/reminders';
 import { MultiAgentPanel } from '@/components/agents/MultiAgentPanel';
+import { CaseClientPortalPanel } from '@/components/cases/CaseClientPortalPanel';
+import { SimilarCaseOutcomes } from '@/components/cases/SimilarCaseOutcomes';
+import { CasePartiesPanel } from '@/components/cases/CasePartiesPanel';
 
 import { ChatBubble } from '@/components/chat/ChatBubble';
 import { NotesBubble } from '@/components/notes/NotesBubble';
@@ -38,6 +42,8 @@ import {
   Music,
   Bell,
   Bot,
+  Search,
+  UserRound,
 } from 'lucide-react';
 import {
   AlertDialog,
@@ -68,7 +74,7 @@ const priorityColors: Record<string, string> = {
 const CaseDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { t, i18n } = useTranslation(['cases', 'common', 'ai', 'disclaimer', 'reminders']);
+  const { t, i18n } = useTranslation(['cases', 'common', 'ai', 'disclaimer', 'reminders', 'portal']);
   const { user, signOut, isClient, isAdmin, isLawyer, isAuditor } = useAuth();
   
   const { data: caseData, isLoading } = useCase(id);
@@ -177,6 +183,8 @@ const CaseDetail = () => {
   };
 
   const canEdit = isClient || isAdmin || isLawyer;
+  // Portal clients follow the case from /portal; the client tab is for the case team
+  const isPortalClient = !!caseData.lawyer_id && caseData.client_id === user?.id && caseData.lawyer_id !== user?.id;
 
   if (isLoading) {
     return (
@@ -285,6 +293,13 @@ const CaseDetail = () => {
                   >
                     {t('files')}
                   </TabsTrigger>
+                  <TabsTrigger 
+                    value="search"
+                    className="min-h-[44px] px-3 sm:px-4 rounded-lg text-mobile-sm sm:text-sm font-medium data-[state=active]:shadow-soft whitespace-nowrap"
+                  >
+                    <Search className="h-4 w-4 mr-1 sm:mr-2 shrink-0" />
+                    <span>{t('search_tab', 'Search')}</span>
+                  </TabsTrigger>
                   <TabsTrigger 
                     value="reminders"
                     className="min-h-[44px] px-3 sm:px-4 rounded-lg text-mobile-sm sm:text-sm font-medium data-[state=active]:shadow-soft whitespace-nowrap"
@@ -306,6 +321,15 @@ const CaseDetail = () => {
                     <Bot className="h-4 w-4 mr-1 sm:mr-2 shrink-0" />
                     <span>{t('ai:multi_agent_analysis', 'Multi-Agent')}</span>
                   </TabsTrigger>
+                  {!isPortalClient && (
+                    <TabsTrigger 
+                      value="client"
+                      className="min-h-[44px] px-3 sm:px-4 rounded-lg text-mobile-sm sm:text-sm font-medium data-[state=active]:shadow-soft whitespace-nowrap"
+                    >
+                      <UserRound className="h-4 w-4 mr-1 sm:mr-2 shrink-0" />
+                      <span>{t('portal:tab')}</span>
+                    </TabsTrigger>
+                  )}
                 </TabsList>
               </div>
 
@@ -322,14 +346,21 @@ const CaseDetail = () => {
                   </CardContent>
                 </Card>
 
+                {!isPortalClient && (
+                  <CasePartiesPanel caseId={caseData.id} caseNumber={caseData.case_number} />
+                )}
+
                 <CaseFactsEditor
                   caseId={caseData.id}
+                  caseNumber={caseData.case_number}
                   facts={caseData.facts}
                   legalQuestion={caseData.legal_question}
                   aiCreditsExhausted={aiCreditsExhausted}
                   onCreditsExhausted={() => setAiCreditsExhausted(true)}
                 />
 
+                <SimilarCaseOutcomes caseId={caseData.id} caseType={caseData.case_type} />
+
                 {caseData.notes && (
                   <Card className="mt-4 card-premium overflow-hidden">
                     <CardHeader className="p-4 sm:p-6">
@@ -373,6 +404,10 @@ const CaseDetail = () => {
                 </Card>
               </TabsContent>
 
+              <TabsContent value="search" className="mt-4 sm:mt-6">
+                <CaseSearchPanel caseId={caseData.id} />
+              </TabsContent>
+
               <TabsContent value="reminders" className="mt-4">
                 <CaseReminders caseId={caseData.id} courtDate={caseData.court_date} />
               </TabsContent>
@@ -399,6 +434,16 @@ const CaseDetail = () => {
                 />
               </TabsContent>
 
+              {!isPortalClient && (
+                <TabsContent value="client" className="mt-4">
+                  <CaseClientPortalPanel
+                    caseId={caseData.id}
+                    clientId={caseData.client_id}
+                    lawyerId={caseData.lawyer_id}
+                  />
+                </TabsContent>
+              )}
+
             </Tabs>
           </div>
 
@@ -0,0 +1,316 @@
+import { useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { usePortalCases, useSharedCaseFiles, useClientUploads, type PortalCase } from '@/hooks/useClientPortal';
+import { CaseMessagesThread } from '@/components/portal/CaseMessagesThread';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Scale,
+  ArrowLeft,
+  LogOut,
+  Loader2,
+  Briefcase,
+  CalendarDays,
+  FileText,
+  Upload,
+  MessageCircle,
+  User,
+} from 'lucide-react';
+
+const UPLOAD_STATUS_VARIANT: Record<string, 'default' | 'secondary' | 'destructive'> = {
+  pending: 'secondary',
+  accepted: 'default',
+  rejected: 'destructive',
+};
+
+function formatDate(value: string | null, withTime = false) {
+  if (!value) return null;
+  return format(new Date(value), withTime ? 'dd.MM.yyyy HH:mm' : 'dd.MM.yyyy');
+}
+
+function formatSize(bytes: number | null) {
+  if (!bytes) return '';
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function PortalCaseList({ cases }: { cases: PortalCase[] }) {
+  const { t } = useTranslation(['portal', 'cases']);
+  const navigate = useNavigate();
+
+  if (cases.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <Briefcase className="mx-auto mb-3 h-10 w-10 opacity-50" />
+          {t('no_cases')}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="grid gap-3 sm:grid-cols-2">
+      {cases.map(c => (
+        <Card
+          key={c.id}
+          className="cursor-pointer transition-shadow hover:shadow-md"
+          onClick={() => navigate(`/portal/cases/${c.id}`)}
+        >
+          <CardHeader className="pb-2">
+            <div className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <CardTitle className="text-base truncate">{c.title}</CardTitle>
+                <CardDescription>{c.case_number}</CardDescription>
+              </div>
+              <Badge variant="outline">{t(`cases:status_${c.status}`)}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <CalendarDays className="h-4 w-4" />
+              {c.court_date ? formatDate(c.court_date, true) : t('no_hearing')}
+            </div>
+            {c.lawyer_name && (
+              <div className="flex items-center gap-2 text-muted-foreground">
+                <User className="h-4 w-4" />
+                {c.lawyer_name}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2 pt-1">
+              <Badge variant="secondary">{t('files_count', { count: c.shared_files })}</Badge>
+              {c.unread_messages > 0 && (
+                <Badge>
+                  <MessageCircle className="mr-1 h-3 w-3" />
+                  {t('unread', { count: c.unread_messages })}
+                </Badge>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
+
+function PortalCaseView({ portalCase }: { portalCase: PortalCase }) {
+  const { t } = useTranslation(['portal', 'cases', 'common']);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [note, setNote] = useState('');
+
+  const { data: sharedFiles = [], isLoading: filesLoading, openFile } = useSharedCaseFiles(portalCase.id);
+  const { uploads, isLoading: uploadsLoading, upload } = useClientUploads(portalCase.id);
+
+  const hearingPassed = !!portalCase.court_date && new Date(portalCase.court_date) < new Date();
+
+  const handleFiles = (fileList: FileList | null) => {
+    if (!fileList) return;
+    Array.from(fileList).forEach(file => upload.mutate({ file, note }));
+    setNote('');
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-3">
+      <div className="space-y-4 lg:col-span-2">
+        <Card>
+          <CardHeader className="pb-3">
+            <div className="flex flex-wrap items-start justify-between gap-2">
+              <div className="min-w-0">
+                <CardTitle className="text-lg">{portalCase.title}</CardTitle>
+                <CardDescription>{portalCase.case_number}</CardDescription>
+              </div>
+              <Badge variant="outline">{t(`cases:status_${portalCase.status}`)}</Badge>
+            </div>
+          </CardHeader>
+          <CardContent className="grid gap-3 text-sm sm:grid-cols-2">
+            <div>
+              <div className="text-muted-foreground">{hearingPassed ? t('last_hearing') : t('next_hearing')}</div>
+              <div className="font-medium">
+                {portalCase.court_date ? formatDate(portalCase.court_date, true) : t('no_hearing')}
+              </div>
+              {portalCase.court_name && <div className="text-muted-foreground">{portalCase.court_name}</div>}
+            </div>
+            {portalCase.current_stage && (
+              <div>
+                <div className="text-muted-foreground">{t('cases:current_stage')}</div>
+                <div className="font-medium">{portalCase.current_stage}</div>
+              </div>
+            )}
+            {portalCase.lawyer_name && (
+              <div>
+                <div className="text-muted-foreground">{t('lawyer')}</div>
+                <div className="font-medium">{portalCase.lawyer_name}</div>
+              </div>
+            )}
+            <div>
+              <div className="text-muted-foreground">{t('updated')}</div>
+              <div className="font-medium">{formatDate(portalCase.updated_at, true)}</div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              {t('shared_documents')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {filesLoading ? (
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+            ) : sharedFiles.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{t('no_shared_documents')}</p>
+            ) : (
+              <div className="divide-y">
+                {sharedFiles.map(f => (
+                  <button
+                    key={f.id}
+                    type="button"
+                    onClick={() => openFile(f)}
+                    className="flex w-full items-center justify-between gap-3 py-2 text-left text-sm hover:text-primary"
+                  >
+                    <span className="truncate">{f.original_filename}</span>
+                    <span className="shrink-0 text-xs text-muted-foreground">
+                      {formatSize(f.file_size)} {formatDate(f.shared_at)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <CaseMessagesThread caseId={portalCase.id} counterpartLabel={portalCase.lawyer_name || t('lawyer')} />
+      </div>
+
+      <div className="space-y-4">
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              {t('upload_title')}
+            </CardTitle>
+            <CardDescription>{t('upload_hint')}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input placeholder={t('upload_note')} value={note} onChange={(e) => setNote(e.target.value)} />
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => handleFiles(e.target.files)}
+            />
+            <Button className="w-full" onClick={() => fileInputRef.current?.click()} disabled={upload.isPending}>
+              {upload.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              {t('upload_send')}
+            </Button>
+          </CardContent>
+        </Card>
+
+        {(uploadsLoading || uploads.length > 0) && (
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">{t('my_uploads')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {uploadsLoading ? (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              ) : (
+                <div className="space-y-3">
+                  {uploads.map(u => (
+                    <div key={u.id} className="space-y-1 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="truncate">{u.original_filename}</span>
+                        <Badge variant={UPLOAD_STATUS_VARIANT[u.status] ?? 'secondary'}>
+                          {t(`status_${u.status}`)}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground">{formatDate(u.created_at, true)}</div>
+                      {u.review_note && <p className="text-xs text-muted-foreground">{u.review_note}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function ClientPortal() {
+  const { t } = useTranslation(['portal', 'common']);
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+  const { data: cases = [], isLoading } = usePortalCases();
+
+  const selected = id ? cases.find(c => c.id === id) : undefined;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b bg-card">
+        <div className="container mx-auto flex h-14 sm:h-16 items-center justify-between px-3 sm:px-4">
+          <div className="flex items-center gap-2">
+            {id && (
+              <Button variant="ghost" size="icon" onClick={() => navigate('/portal')} aria-label={t('back_to_cases')}>
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            )}
+            <Scale className="h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+            <h1 className="text-lg sm:text-xl font-bold">{t('common:app_name')}</h1>
+          </div>
+          <div className="flex items-center gap-2 sm:gap-4">
+            <LanguageSwitcher />
+            <Button variant="ghost" size="icon" onClick={() => signOut()}>
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main id="main-content" className="container mx-auto px-4 py-6">
+        {!id && (
+          <div className="mb-6">
+            <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+              <Briefcase className="h-6 w-6 text-primary" />
+              {t('title')}
+            </h2>
+            <p className="text-sm text-muted-foreground mt-1">{t('subtitle')}</p>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : id ? (
+          selected ? (
+            <PortalCaseView portalCase={selected} />
+          ) : (
+            <Card>
+              <CardContent className="py-12 text-center text-muted-foreground">
+                <p className="mb-4">{t('no_cases')}</p>
+                <Button variant="outline" onClick={() => navigate('/portal')}>
+                  {t('back_to_cases')}
+                </Button>
+              </CardContent>
+            </Card>
+          )
+        ) : (
+          <PortalCaseList cases={cases} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import { CaseCard } from '@/components/cases/CaseCard';
 import { CaseForm } from '@/components/cases/CaseForm';
 import { UsageMonitor } from '@/components/UsageMonitor';
 import { TeamStats } from '@/components/team/TeamStats';
+import { AIQuotaManager } from '@/components/team/AIQuotaManager';
 import { LegalChatBot } from '@/components/chat/LegalChatBot';
 import { ChatBubble } from '@/components/chat/ChatBubble';
 import { TelegramUploads } from '@/components/profile/TelegramUploads';
@@ -16,6 +17,7 @@ import { NotesBubble } from '@/components/notes/NotesBubble';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useCases, type CaseFilters as CaseFiltersType } from '@/hooks/useCases';
+import type { PendingConflictCheck } from '@/hooks/useConflictCheck';
 import { useKnowledgeBase, type KBFilters as KBFiltersType } from '@/hooks/useKnowledgeBase';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
@@ -40,6 +42,8 @@ import {
   Gavel,
   StickyNote,
   BookOpenText,
+  Gauge,
+  PieChart,
 } from 'lucide-react';
 import { DocumentGeneratorDialog } from '@/components/documents/DocumentGeneratorDialog';
 import { ComplaintWizard } from '@/components/complaints/ComplaintWizard';
@@ -70,7 +74,7 @@ import {
 type Case = Database['public']['Tables']['cases']['Row'];
 
 const Dashboard = () => {
-  const { t } = useTranslation(['common', 'cases', 'dashboard', 'disclaimer', 'usage', 'kb', 'admin', 'dictionary']);
+  const { t } = useTranslation(['common', 'cases', 'dashboard', 'disclaimer', 'usage', 'kb', 'admin', 'dictionary', 'analytics']);
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user, signOut, isClient, isAdmin, isAuditor } = useAuth();
@@ -119,10 +123,11 @@ const Dashboard = () => {
     }
   };
 
-  const handleCreateCase = (data: Database['public']['Tables']['cases']['Insert'], files?: File[]) => {
+  const handleCreateCase = (data: Database['public']['Tables']['cases']['Insert'], files?: File[], conflictCheck?: PendingConflictCheck) => {
     const caseData = {
       ...data,
       client_id: user?.id,
+      conflictCheck,
     };
     createCase.mutate(caseData, {
       onSuccess: async (newCase) => {
@@ -251,6 +256,10 @@ const Dashboard = () => {
               <CalendarIcon className="h-4 w-4 sm:mr-2" />
               <span className="text-xs sm:text-sm mt-1 sm:mt-0">{t('calendar:calendar', 'Calendar')}</span>
             </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate('/analytics')} className="flex-col sm:flex-row h-auto py-2 sm:py-2 sm:h-9">
+              <PieChart className="h-4 w-4 sm:mr-2" />
+              <span className="text-xs sm:text-sm mt-1 sm:mt-0">{t('analytics:nav')}</span>
+            </Button>
             <Button variant="outline" size="sm" onClick={() => navigate('/transcriptions')} className="flex-col sm:flex-row h-auto py-2 sm:py-2 sm:h-9">
               <Mic className="h-4 w-4 sm:mr-2" />
               <span className="text-xs sm:text-sm mt-1 sm:mt-0">{t('audio:audio', 'Audio')}</span>
@@ -356,8 +365,9 @@ const Dashboard = () => {
                       {t('usage:monthly_usage')}
                     </SheetDescription>
                   </SheetHeader>
-                  <div className="mt-6">
+                  <div className="mt-6 space-y-6">
                     <UsageMonitor budgetLimit={5.0} showChart={true} showTopUsers={true} />
+                    <AIQuotaManager />
                   </div>
                 </SheetContent>
               </Sheet>
@@ -383,12 +393,20 @@ const Dashboard = () => {
               <FolderOpen className="h-4 w-4" />
               {t('admin:cases')}
             </TabsTrigger>
+            <TabsTrigger value="quotas" className="gap-2">
+              <Gauge className="h-4 w-4" />
+              {t('usage:quotas_title')}
+            </TabsTrigger>
             </TabsList>
 
             <TabsContent value="team">
               <TeamStats />
             </TabsContent>
 
+            <TabsContent value="quotas">
+              <AIQuotaManager />
+            </TabsContent>
+
             <TabsContent value="cases" className="space-y-6">
               {/* Filters */}
               <CaseFilters filters={filters} onFiltersChange={setFilters} />
@@ -4,6 +4,8 @@ import { useKBDocument } from '@/hooks/useKnowledgeBase';
 import { useAuth } from '@/hooks/useAuth';
 import { LanguageSwitcher } from '@/components/LanguageSwitcher';
 import { KBVersionHistory } from '@/components/kb/KBVersionHistory';
+import { KBVersionDiff } from '@/components/kb/KBVersionDiff';
+import { NormInterpretations } from '@/components/kb/NormInterpretations';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -18,7 +20,8 @@ import {
   Loader2,
   LogOut,
   History,
-  BookOpen
+  BookOpen,
+  GitCompare
 } from 'lucide-react';
 import type { Database } from '@/integrations/supabase/types';
 
@@ -45,7 +48,9 @@ const KBDocumentDetail = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const { t } = useTranslation(['kb', 'common', 'disclaimer']);
-  const { user, signOut, isAdmin } = useAuth();
+  const { user, signOut, isAdmin, isLawyer } = useAuth();
+  // kb_versions is readable by admins and lawyers only (RLS)
+  const canCompareVersions = isAdmin || isLawyer;
   
   const { data: document, isLoading } = useKBDocument(id);
 
@@ -131,6 +136,12 @@ const KBDocumentDetail = () => {
                     {t('common:history', 'History')}
                   </TabsTrigger>
                 )}
+                {canCompareVersions && (
+                  <TabsTrigger value="compare">
+                    <GitCompare className="mr-2 h-4 w-4" />
+                    {t('compare_versions', 'Compare versions')}
+                  </TabsTrigger>
+                )}
               </TabsList>
 
               <TabsContent value="content" className="mt-4">
@@ -157,6 +168,19 @@ const KBDocumentDetail = () => {
                   </Card>
                 </TabsContent>
               )}
+
+              {canCompareVersions && (
+                <TabsContent value="compare" className="mt-4">
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>{t('compare_versions', 'Compare versions')}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <KBVersionDiff kbId={document.id} current={document} />
+                    </CardContent>
+                  </Card>
+                </TabsContent>
+              )}
             </Tabs>
           </div>
 
@@ -207,6 +231,8 @@ const KBDocumentDetail = () => {
                 </div>
               </CardContent>
             </Card>
+
+            <NormInterpretations category={document.category} articleNumber={document.article_number} />
           </div>
         </div>
 
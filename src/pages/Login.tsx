@@ -31,6 +31,18 @@ const loginSchema = z.object({
 
 type LoginValues = z.infer<typeof loginSchema>;
 
+// Plain clients with cases run by a lawyer land in the portal instead of the dashboard
+async function landingPath(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return '/dashboard';
+
+  const { data: roles } = await supabase.rpc('get_user_roles', { _user_id: user.id });
+  if (!roles || roles.some(role => role !== 'client')) return '/dashboard';
+
+  const { data: portalCases } = await supabase.rpc('get_client_portal_cases');
+  return portalCases && portalCases.length > 0 ? '/portal' : '/dashboard';
+}
+
 const Login = () => {
   const { t } = useTranslation(['auth', 'common', 'disclaimer', 'errors']);
   const navigate = useNavigate();
@@ -87,7 +99,7 @@ const Login = () => {
         }
       }
       
-      navigate('/dashboard');
+      navigate(await landingPath());
     } catch (error) {
       const message = error instanceof Error ? error.message : '';
       const isConnectionIssue = /load failed|failed to fetch|network|timeout|connection terminated/i.test(message);
@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  usePracticeOutcomeStats,
+  useDimensionLabel,
+  type PracticeAnalyticsFilters,
+} from '@/hooks/usePracticeAnalytics';
+import { PRACTICE_DIMENSIONS, type PracticeDimension } from '@/lib/practice-outcomes';
+import type { Database } from '@/integrations/supabase/types';
+import { LanguageSwitcher } from '@/components/LanguageSwitcher';
+import { OutcomeStatsTable } from '@/components/analytics/OutcomeStatsTable';
+import { OutcomeLegend } from '@/components/analytics/OutcomeBar';
+import { PracticeDecisionsList } from '@/components/analytics/PracticeDecisionsList';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Scale, ArrowLeft, LogOut, BarChart3, X } from 'lucide-react';
+
+type Enums = Database['public']['Enums'];
+
+const CATEGORIES: Enums['practice_category'][] = ['criminal', 'civil', 'administrative', 'echr', 'constitutional', 'bankruptcy'];
+const COURT_TYPES: Enums['court_type'][] = ['first_instance', 'appeal', 'cassation', 'constitutional', 'echr'];
+
+function parseYear(value: string): number | undefined {
+  const year = parseInt(value, 10);
+  return Number.isFinite(year) && year > 1900 && year < 2100 ? year : undefined;
+}
+
+/** Narrows the page filters to a single cell of the chosen dimension */
+function drillDownFilters(
+  filters: PracticeAnalyticsFilters,
+  dimension: PracticeDimension,
+  key: string
+): PracticeAnalyticsFilters {
+  switch (dimension) {
+    case 'court':
+      return { ...filters, courtName: key };
+    case 'instance':
+      return { ...filters, courtType: key as Enums['court_type'] };
+    case 'article':
+      return { ...filters, article: key };
+    case 'year':
+      return { ...filters, yearFrom: Number(key), yearTo: Number(key) };
+  }
+}
+
+export default function PracticeAnalytics() {
+  const { t } = useTranslation(['analytics', 'kb', 'common']);
+  const navigate = useNavigate();
+  const { signOut } = useAuth();
+  const [searchParams] = useSearchParams();
+  const label = useDimensionLabel();
+
+  const [dimension, setDimension] = useState<PracticeDimension>(
+    searchParams.get('article') ? 'court' : 'instance'
+  );
+  const [category, setCategory] = useState<string>(searchParams.get('category') || 'all');
+  const [courtType, setCourtType] = useState<string>('all');
+  const [yearFrom, setYearFrom] = useState('');
+  const [yearTo, setYearTo] = useState('');
+  const [article, setArticle] = useState(searchParams.get('article') || '');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const filters = useMemo<PracticeAnalyticsFilters>(() => ({
+    category: category === 'all' ? undefined : (category as Enums['practice_category']),
+    courtType: courtType === 'all' ? undefined : (courtType as Enums['court_type']),
+    yearFrom: parseYear(yearFrom),
+    yearTo: parseYear(yearTo),
+    article: article.trim() || undefined,
+  }), [category, courtType, yearFrom, yearTo, article]);
+
+  const { data: rows = [], isLoading } = usePracticeOutcomeStats(dimension, filters);
+
+  const resetFilters = () => {
+    setCategory('all');
+    setCourtType('all');
+    setYearFrom('');
+    setYearTo('');
+    setArticle('');
+    setSelectedKey(null);
+  };
+
+  const selectDimension = (value: string) => {
+    setDimension(value as PracticeDimension);
+    setSelectedKey(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-10 border-b bg-card">
+        <div className="container mx-auto flex h-14 sm:h-16 items-center justify-between px-3 sm:px-4">
+          <div className="flex items-center gap-2">
+            <Button variant="ghost" size="icon" onClick={() => navigate('/dashboard')}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <Scale className="h-5 w-5 sm:h-6 sm:w-6 text-primary" />
+            <h1 className="text-lg sm:text-xl font-bold">{t('common:app_name')}</h1>
+          </div>
+          <div className="flex items-center gap-2 sm:gap-4">
+            <LanguageSwitcher />
+            <Button variant="ghost" size="icon" onClick={() => signOut()}>
+              <LogOut className="h-5 w-5" />
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main id="main-content" className="container mx-auto px-4 py-6 space-y-4">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold flex items-center gap-2">
+            <BarChart3 className="h-6 w-6 text-primary" />
+            {t('title')}
+          </h2>
+          <p className="text-sm text-muted-foreground mt-1">{t('subtitle')}</p>
+        </div>
+
+        {/* Filters */}
+        <div className="grid grid-cols-2 gap-2 sm:flex sm:flex-wrap sm:items-center">
+          <Select value={category} onValueChange={(v) => { setCategory(v); setSelectedKey(null); }}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('all_categories')}</SelectItem>
+              {CATEGORIES.map(c => (
+                <SelectItem key={c} value={c}>{t(`kb:lp_cat_${c}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={courtType} onValueChange={(v) => { setCourtType(v); setSelectedKey(null); }}>
+            <SelectTrigger className="sm:w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('all_instances')}</SelectItem>
+              {COURT_TYPES.map(c => (
+                <SelectItem key={c} value={c}>{t(`kb:lp_court_${c}`)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder={t('year_from')}
+            value={yearFrom}
+            onChange={(e) => { setYearFrom(e.target.value); setSelectedKey(null); }}
+            className="sm:w-32"
+          />
+          <Input
+            type="number"
+            inputMode="numeric"
+            placeholder={t('year_to')}
+            value={yearTo}
+            onChange={(e) => { setYearTo(e.target.value); setSelectedKey(null); }}
+            className="sm:w-32"
+          />
+          <Input
+            placeholder={t('article_filter')}
+            value={article}
+            onChange={(e) => { setArticle(e.target.value); setSelectedKey(null); }}
+            className="sm:w-32"
+          />
+          <Button variant="ghost" onClick={resetFilters}>
+            <X className="mr-2 h-4 w-4" />
+            {t('reset')}
+          </Button>
+        </div>
+
+        <div className="grid gap-4 lg:grid-cols-5">
+          <Card className="lg:col-span-3">
+            <CardHeader className="pb-3 space-y-3">
+              <Tabs value={dimension} onValueChange={selectDimension}>
+                <TabsList className="flex-wrap h-auto">
+                  {PRACTICE_DIMENSIONS.map(d => (
+                    <TabsTrigger key={d} value={d}>{t(`dimension_${d}`)}</TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <OutcomeLegend />
+            </CardHeader>
+            <CardContent>
+              <OutcomeStatsTable
+                dimension={dimension}
+                rows={rows}
+                isLoading={isLoading}
+                selectedKey={selectedKey}
+                onSelect={setSelectedKey}
+              />
+            </CardContent>
+          </Card>
+
+          <Card className="lg:col-span-2">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base">
+                {selectedKey === null
+                  ? t('dimension_' + dimension)
+                  : t('drill_down_title', { label: label(dimension, selectedKey) })}
+              </CardTitle>
+              {selectedKey === null && <CardDescription>{t('drill_down_hint')}</CardDescription>}
+            </CardHeader>
+            {selectedKey !== null && (
+              <CardContent>
+                <PracticeDecisionsList
+                  key={`${dimension}:${selectedKey}`}
+                  filters={drillDownFilters(filters, dimension, selectedKey)}
+                />
+              </CardContent>
+            )}
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
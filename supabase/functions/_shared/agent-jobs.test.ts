@@ -0,0 +1,68 @@
+// =============================================================================
+// Agent Jobs — Test Suite
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { buildEvidenceRows, buildFindingRows, retryDelaySeconds, type AgentJob } from "./agent-jobs.ts";
+
+const JOB: AgentJob = {
+  id: "job-1",
+  batch_id: "batch-1",
+  run_id: "run-1",
+  case_id: "case-1",
+  agent_type: "evidence_collector",
+  references_text: null,
+  attempts: 1,
+  max_attempts: 3,
+  created_by: "user-1",
+};
+
+// ---------------------------------------------------------------------------
+// retryDelaySeconds
+// ---------------------------------------------------------------------------
+
+Deno.test("retryDelaySeconds backs off exponentially on server errors", () => {
+  assertEquals(retryDelaySeconds(500, 1), 60);
+  assertEquals(retryDelaySeconds(502, 2), 120);
+  assertEquals(retryDelaySeconds(null, 3), 240);
+});
+
+Deno.test("retryDelaySeconds waits longer on rate limits and caps the delay", () => {
+  assertEquals(retryDelaySeconds(429, 1), 120);
+  assertEquals(retryDelaySeconds(429, 10), 900);
+});
+
+Deno.test("retryDelaySeconds gives up on quota and request errors", () => {
+  assertEquals(retryDelaySeconds(402, 1), null);
+  assertEquals(retryDelaySeconds(400, 1), null);
+  assertEquals(retryDelaySeconds(401, 1), null);
+});
+
+// ---------------------------------------------------------------------------
+// Result rows
+// ---------------------------------------------------------------------------
+
+Deno.test("buildFindingRows attaches the run and defaults missing lists", () => {
+  const [row] = buildFindingRows(JOB, [{
+    finding_type: "violation",
+    severity: "high",
+    title: "T",
+    description: "D",
+    legal_basis: "not a list",
+    page_anchors: [{ volume_number: 1, page: 4 }],
+  }]);
+  assertEquals(row.run_id, "run-1");
+  assertEquals(row.case_id, "case-1");
+  assertEquals(row.legal_basis, []);
+  assertEquals(row.evidence_refs, []);
+  assertEquals(row.page_anchors, [{ volume_number: 1, page: 4 }]);
+  assertEquals(row.recommendation, null);
+});
+
+Deno.test("buildEvidenceRows numbers items from 1 and marks them for review", () => {
+  const rows = buildEvidenceRows(JOB, [{ title: "A" }, { title: "B", evidence_type: "testimony" }]);
+  assertEquals(rows.map((r) => [r.evidence_number, r.evidence_type, r.admissibility_status]), [
+    [1, "document", "pending_review"],
+    [2, "testimony", "pending_review"],
+  ]);
+});
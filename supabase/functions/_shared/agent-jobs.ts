@@ -0,0 +1,142 @@
+// =============================================================================
+// AGENT JOBS — Server-side execution of queued multi-agent runs
+// Used by: multi-agent-worker
+// =============================================================================
+//
+// enqueue_agent_analysis() creates a batch of agent_analysis_jobs, one per
+// agent; multi-agent-worker claims the ready ones, calls multi-agent-analyze
+// for each and stores the result here — the same rows the browser used to
+// write itself (run fields, agent_findings, evidence_registry).
+//
+// Retry policy by multi-agent-analyze status:
+//   429, 5xx, network error   retry with exponential backoff
+//   402 (quota / credits)     fail — retrying cannot help until reset
+//   other 4xx                 fail — the request itself is wrong
+// =============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** Row returned by claim_agent_analysis_jobs() */
+export interface AgentJob {
+  id: string;
+  batch_id: string;
+  run_id: string;
+  case_id: string;
+  agent_type: string;
+  references_text: string | null;
+  attempts: number;
+  max_attempts: number;
+  created_by: string | null;
+}
+
+/** The part of a multi-agent-analyze response that gets stored */
+export interface AgentResult {
+  analysis?: string;
+  summary?: string;
+  findings?: Array<Record<string, unknown>>;
+  evidenceItems?: Array<Record<string, unknown>>;
+  sources?: unknown[];
+  tokensUsed?: number;
+}
+
+// ─── Retry policy ───────────────────────────────────────────────────────────
+
+const BASE_RETRY_SECONDS = 60;
+const MAX_RETRY_SECONDS = 15 * 60;
+
+/**
+ * Seconds until the next attempt, or null when the failure is permanent.
+ * `status` is the HTTP status of multi-agent-analyze (null: no response).
+ */
+export function retryDelaySeconds(status: number | null, attempt: number): number | null {
+  if (status !== null && status >= 400 && status < 500 && status !== 429) return null;
+  const factor = status === 429 ? 2 : 1;
+  const delay = BASE_RETRY_SECONDS * factor * 2 ** Math.max(0, attempt - 1);
+  return Math.min(delay, MAX_RETRY_SECONDS);
+}
+
+// ─── Result rows ────────────────────────────────────────────────────────────
+
+const list = (v: unknown): unknown[] => (Array.isArray(v) ? v : []);
+
+export function buildFindingRows(job: AgentJob, findings: Array<Record<string, unknown>>) {
+  return findings.map((f) => ({
+    run_id: job.run_id,
+    case_id: job.case_id,
+    finding_type: f.finding_type,
+    severity: f.severity,
+    title: f.title,
+    description: f.description,
+    legal_basis: list(f.legal_basis),
+    evidence_refs: list(f.evidence_refs),
+    page_references: list(f.page_references),
+    page_anchors: list(f.page_anchors),
+    recommendation: f.recommendation || null,
+  }));
+}
+
+export function buildEvidenceRows(job: AgentJob, items: Array<Record<string, unknown>>) {
+  return items.map((e, idx) => ({
+    case_id: job.case_id,
+    evidence_number: idx + 1,
+    evidence_type: e.evidence_type || "document",
+    title: e.title,
+    description: e.description,
+    page_reference: e.page_reference,
+    page_anchors: list(e.page_anchors),
+    source_document: e.source_document,
+    admissibility_status: "pending_review",
+    ai_analysis: e.ai_analysis,
+  }));
+}
+
+// ─── Store ──────────────────────────────────────────────────────────────────
+
+/**
+ * Stores a successful agent result and completes its run and job. Findings
+ * of an earlier attempt of the same run are replaced, so a retry after a
+ * partial write does not duplicate them.
+ */
+export async function saveAgentResult(
+  supabase: SupabaseClient,
+  job: AgentJob,
+  result: AgentResult,
+): Promise<void> {
+  const findings = list(result.findings) as Array<Record<string, unknown>>;
+
+  await supabase.from("agent_findings").delete().eq("run_id", job.run_id);
+  if (findings.length > 0) {
+    const { error } = await supabase.from("agent_findings").insert(buildFindingRows(job, findings));
+    if (error) throw new Error(`Saving findings failed: ${error.message}`);
+  }
+
+  const evidence = list(result.evidenceItems) as Array<Record<string, unknown>>;
+  if (job.agent_type === "evidence_collector" && evidence.length > 0) {
+    const { error } = await supabase.from("evidence_registry").insert(buildEvidenceRows(job, evidence));
+    // Numbers clash with an existing registry; keep it, as the browser flow did
+    if (error) console.warn(`[agent-jobs] evidence registry not saved for run ${job.run_id}: ${error.message}`);
+  }
+
+  const { error: runErr } = await supabase
+    .from("agent_analysis_runs")
+    .update({
+      status: "completed",
+      completed_at: new Date().toISOString(),
+      analysis_result: result.analysis ?? null,
+      summary: result.summary ?? null,
+      findings,
+      sources_used: list(result.sources),
+      tokens_used: result.tokensUsed ?? null,
+      error_message: null,
+    })
+    .eq("id", job.run_id);
+  if (runErr) throw new Error(`Updating run failed: ${runErr.message}`);
+
+  const { error: jobErr } = await supabase
+    .from("agent_analysis_jobs")
+    .update({ status: "completed", lease_expires_at: null, last_error: null })
+    .eq("id", job.id);
+  if (jobErr) throw new Error(`Completing job failed: ${jobErr.message}`);
+}
@@ -0,0 +1,61 @@
+// =============================================================================
+// AI Quotas — Test Suite
+// Run: deno test --allow-env --allow-net supabase/functions/_shared/ai-quota.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  QuotaExceededError,
+  currentPeriod,
+  evaluateQuotas,
+  quotaErrorBody,
+  type QuotaStatus,
+} from "./ai-quota.ts";
+
+const quota = (over: Partial<QuotaStatus>): QuotaStatus => ({
+  quota_id: "q1",
+  scope: "user",
+  user_id: "u1",
+  team_id: null,
+  team_leader_id: null,
+  function_name: null,
+  monthly_usd_limit: 10,
+  monthly_token_limit: null,
+  alert_threshold: 0.8,
+  last_alert_period: null,
+  usd_used: 0,
+  tokens_used: 0,
+  ...over,
+});
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+
+Deno.test("currentPeriod is the first day of the UTC month", () => {
+  assertEquals(currentPeriod(NOW), "2026-03-01");
+  assertEquals(currentPeriod(new Date("2026-12-31T23:59:59Z")), "2026-12-01");
+});
+
+Deno.test("evaluateQuotas blocks at the limit and prefers the team quota", () => {
+  const { exceeded } = evaluateQuotas([
+    quota({ quota_id: "user", usd_used: 12 }),
+    quota({ quota_id: "team", scope: "team", user_id: null, team_id: "t1", monthly_usd_limit: null, monthly_token_limit: 1000, tokens_used: 1000 }),
+  ], NOW);
+  assertEquals(exceeded?.quota.quota_id, "team");
+  assertEquals([exceeded?.limit_type, exceeded?.used, exceeded?.limit], ["tokens", 1000, 1000]);
+
+  assertEquals(evaluateQuotas([quota({ usd_used: 9.99 })], NOW).exceeded, null);
+});
+
+Deno.test("evaluateQuotas raises the threshold alert once per period", () => {
+  assertEquals(evaluateQuotas([quota({ usd_used: 7.9 })], NOW).alertsDue.length, 0);
+  assertEquals(evaluateQuotas([quota({ usd_used: 8 })], NOW).alertsDue.length, 1);
+  assertEquals(evaluateQuotas([quota({ usd_used: 8, last_alert_period: "2026-02-01" })], NOW).alertsDue.length, 1);
+  assertEquals(evaluateQuotas([quota({ usd_used: 9, last_alert_period: "2026-03-01" })], NOW).alertsDue.length, 0);
+});
+
+Deno.test("quotaErrorBody carries the code and a readable message", () => {
+  const q = quota({ function_name: "ai-analyze", usd_used: 10.5 });
+  const body = quotaErrorBody(new QuotaExceededError(evaluateQuotas([q], NOW).exceeded!));
+  assertEquals(body.code, "QUOTA_EXCEEDED");
+  assertEquals(body.error, "Your monthly AI quota for ai-analyze is used up ($10.50 of $10.00). Ask your team leader or an administrator to raise the limit.");
+});
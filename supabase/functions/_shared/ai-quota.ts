@@ -0,0 +1,291 @@
+// =============================================================================
+// AI QUOTAS — Monthly USD / token limits per user and per team
+// =============================================================================
+//
+// The AI router calls enforceQuota() before each model call and
+// recordUsage() after it. Limits live in public.ai_quotas (scope 'user' or
+// 'team', optionally per function); spend is summed from api_usage for the
+// current calendar month by check_ai_quota().
+//
+// Used by: _shared/openai-router.ts (callText, callJSON, callTranscription),
+//          ocr-process, audio-transcribe, legal-chat, kb-fetch-pdf-content
+//          (recordUsage only; cost comes from the pricing.ts registry)
+//
+// A quota DB failure never blocks an AI call: the check fails open with a
+// warning. Edge functions turn QuotaExceededError into a 402 via
+// quotaErrorResponse(); the frontend recognises code QUOTA_EXCEEDED.
+// =============================================================================
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { callInternalFunction } from "./edge-security.ts";
+import { warn } from "./safe-logger.ts";
+import { computeCost, type CostEstimate } from "./pricing.ts";
+import { promptColumns, type PromptRef } from "./prompt-registry.ts";
+
+export const QUOTA_EXCEEDED_CODE = "QUOTA_EXCEEDED";
+
+/** One row of check_ai_quota() */
+export interface QuotaStatus {
+  quota_id: string;
+  scope: "user" | "team";
+  user_id: string | null;
+  team_id: string | null;
+  team_leader_id: string | null;
+  function_name: string | null;
+  monthly_usd_limit: number | null;
+  monthly_token_limit: number | null;
+  alert_threshold: number;
+  last_alert_period: string | null;
+  usd_used: number;
+  tokens_used: number;
+}
+
+export type QuotaLimitType = "usd" | "tokens";
+
+export interface QuotaBreach {
+  quota: QuotaStatus;
+  limit_type: QuotaLimitType;
+  used: number;
+  limit: number;
+}
+
+export class QuotaExceededError extends Error {
+  readonly status = 402;
+  readonly code = QUOTA_EXCEEDED_CODE;
+
+  constructor(public readonly breach: QuotaBreach) {
+    super(quotaMessage(breach));
+    this.name = "QuotaExceededError";
+  }
+}
+
+export interface UsageRecord {
+  userId?: string | null;
+  functionName: string;
+  serviceType: "llm" | "ocr" | "audio";
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Defaults to input + output */
+  totalTokens?: number;
+  metadata?: Record<string, unknown>;
+  /** Registry prompt / variant the call was made with */
+  prompt?: PromptRef;
+}
+
+// ── Pure helpers ─────────────────────────────────────────────────────────────
+
+/** First day of the month (UTC) as YYYY-MM-DD, matching last_alert_period */
+export function currentPeriod(now: Date = new Date()): string {
+  const m = String(now.getUTCMonth() + 1).padStart(2, "0");
+  return `${now.getUTCFullYear()}-${m}-01`;
+}
+
+/** Highest used/limit ratio of a quota across its USD and token limits */
+export function quotaUsageRatio(q: QuotaStatus): { ratio: number; limit_type: QuotaLimitType } {
+  const usd = q.monthly_usd_limit != null
+    ? (q.monthly_usd_limit > 0 ? Number(q.usd_used) / q.monthly_usd_limit : Infinity)
+    : -1;
+  const tokens = q.monthly_token_limit != null
+    ? (q.monthly_token_limit > 0 ? Number(q.tokens_used) / q.monthly_token_limit : Infinity)
+    : -1;
+  return usd >= tokens ? { ratio: usd, limit_type: "usd" } : { ratio: tokens, limit_type: "tokens" };
+}
+
+/**
+ * First exhausted quota (team quotas before user quotas) and the quotas whose
+ * threshold alert has not been sent yet this period.
+ */
+export function evaluateQuotas(
+  rows: QuotaStatus[],
+  now: Date = new Date(),
+): { exceeded: QuotaBreach | null; alertsDue: QuotaStatus[] } {
+  const period = currentPeriod(now);
+  let exceeded: QuotaBreach | null = null;
+  const alertsDue: QuotaStatus[] = [];
+
+  const ordered = [...rows].sort((a, b) => (a.scope === b.scope ? 0 : a.scope === "team" ? -1 : 1));
+  for (const q of ordered) {
+    const { ratio, limit_type } = quotaUsageRatio(q);
+    if (ratio >= 1 && !exceeded) {
+      exceeded = {
+        quota: q,
+        limit_type,
+        used: Number(limit_type === "usd" ? q.usd_used : q.tokens_used),
+        limit: Number(limit_type === "usd" ? q.monthly_usd_limit : q.monthly_token_limit),
+      };
+    }
+    if (ratio >= Number(q.alert_threshold) && q.last_alert_period !== period) {
+      alertsDue.push(q);
+    }
+  }
+
+  return { exceeded, alertsDue };
+}
+
+function formatAmount(limitType: QuotaLimitType, value: number): string {
+  return limitType === "usd" ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString("en-US")} tokens`;
+}
+
+export function quotaMessage(b: QuotaBreach): string {
+  const whose = b.quota.scope === "team" ? "Your team's" : "Your";
+  const what = b.quota.function_name ? ` for ${b.quota.function_name}` : "";
+  return `${whose} monthly AI quota${what} is used up ` +
+    `(${formatAmount(b.limit_type, b.used)} of ${formatAmount(b.limit_type, b.limit)}). ` +
+    `Ask your team leader or an administrator to raise the limit.`;
+}
+
+/** 402 response body for an exhausted quota */
+export function quotaErrorBody(e: QuotaExceededError): Record<string, unknown> {
+  return {
+    error: e.message,
+    code: e.code,
+    scope: e.breach.quota.scope,
+    function_name: e.breach.quota.function_name,
+    limit_type: e.breach.limit_type,
+    used: e.breach.used,
+    limit: e.breach.limit,
+  };
+}
+
+export function quotaErrorResponse(e: QuotaExceededError, corsHeaders: Record<string, string>): Response {
+  return new Response(JSON.stringify(quotaErrorBody(e)), {
+    status: 402,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ── Database side ────────────────────────────────────────────────────────────
+
+let serviceClient: SupabaseClient | null | undefined;
+
+function getServiceClient(): SupabaseClient | null {
+  if (serviceClient === undefined) {
+    const url = Deno.env.get("SUPABASE_URL");
+    const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    serviceClient = url && key ? createClient(url, key) : null;
+  }
+  return serviceClient;
+}
+
+async function loadQuotas(
+  supabase: SupabaseClient,
+  userId: string,
+  functionName: string,
+): Promise<QuotaStatus[] | null> {
+  const { data, error } = await supabase.rpc("check_ai_quota", {
+    _user_id: userId,
+    _function_name: functionName,
+  });
+  if (error) {
+    warn("ai-quota", "Quota lookup failed, allowing call", { functionName, error: error.message });
+    return null;
+  }
+  return (data || []) as QuotaStatus[];
+}
+
+/** Throws QuotaExceededError when any quota covering this call is used up */
+export async function enforceQuota(userId: string | null | undefined, functionName: string): Promise<void> {
+  if (!userId) return;
+  const supabase = getServiceClient();
+  if (!supabase) return;
+
+  const rows = await loadQuotas(supabase, userId, functionName);
+  if (!rows || rows.length === 0) return;
+
+  const { exceeded } = evaluateQuotas(rows);
+  if (exceeded) throw new QuotaExceededError(exceeded);
+}
+
+/**
+ * Prices one model call, stores it in api_usage and sends any threshold
+ * alerts it triggers. Returns the cost estimate (also when not stored).
+ */
+export async function recordUsage(rec: UsageRecord): Promise<CostEstimate> {
+  const cost = await computeCost(rec.model, rec.inputTokens, rec.outputTokens);
+  const supabase = getServiceClient();
+  if (!supabase) return cost;
+
+  try {
+    const { error } = await supabase.from("api_usage").insert({
+      user_id: rec.userId ?? null,
+      service_type: rec.serviceType,
+      function_name: rec.functionName,
+      model_name: rec.model,
+      tokens_used: rec.totalTokens ?? rec.inputTokens + rec.outputTokens,
+      estimated_cost: cost.cost_usd,
+      pricing_id: cost.pricing_id,
+      ...(rec.prompt ? promptColumns(rec.prompt) : {}),
+      request_metadata: {
+        ...rec.metadata,
+        input_tokens: rec.inputTokens,
+        output_tokens: rec.outputTokens,
+        ...(cost.cost_unknown ? { cost_unknown: true } : {}),
+      },
+    });
+    if (error) {
+      warn("ai-quota", "Usage insert failed", { functionName: rec.functionName, error: error.message });
+      return cost;
+    }
+
+    if (!rec.userId) return cost;
+    const rows = await loadQuotas(supabase, rec.userId, rec.functionName);
+    if (!rows) return cost;
+    for (const q of evaluateQuotas(rows).alertsDue) {
+      await sendThresholdAlert(supabase, q, rec.userId);
+    }
+  } catch (e) {
+    warn("ai-quota", "Usage recording failed", { functionName: rec.functionName, error: String(e) });
+  }
+  return cost;
+}
+
+async function alertRecipients(supabase: SupabaseClient, q: QuotaStatus, callerId: string): Promise<string[]> {
+  if (q.scope === "team") return q.team_leader_id ? [q.team_leader_id] : [];
+
+  const userId = q.user_id ?? callerId;
+  const { data } = await supabase
+    .from("team_members")
+    .select("teams(leader_id)")
+    .eq("user_id", userId);
+  const leaders = (data || [])
+    .map((row) => (row.teams as { leader_id?: string } | null)?.leader_id)
+    .filter((id): id is string => !!id);
+  return leaders.length > 0 ? [...new Set(leaders)] : [userId];
+}
+
+async function sendThresholdAlert(supabase: SupabaseClient, q: QuotaStatus, callerId: string): Promise<void> {
+  const period = currentPeriod();
+
+  // Claim the alert for this period so concurrent calls send it only once
+  const { data: claimed } = await supabase
+    .from("ai_quotas")
+    .update({ last_alert_period: period })
+    .eq("id", q.quota_id)
+    .or(`last_alert_period.is.null,last_alert_period.lt.${period}`)
+    .select("id");
+  if (!claimed || claimed.length === 0) return;
+
+  const { ratio, limit_type } = quotaUsageRatio(q);
+  const used = Number(limit_type === "usd" ? q.usd_used : q.tokens_used);
+  const limit = Number(limit_type === "usd" ? q.monthly_usd_limit : q.monthly_token_limit);
+  const target = q.scope === "team" ? "команды" : "пользователя";
+  const message =
+    `⚠️ <b>Лимит AI ${target}: ${Math.min(Math.round(ratio * 100), 999)}%</b>\n\n` +
+    `${formatAmount(limit_type, used)} / ${formatAmount(limit_type, limit)}` +
+    (q.function_name ? `\n🔧 ${q.function_name}` : "");
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  for (const userId of await alertRecipients(supabase, q, callerId)) {
+    try {
+      await callInternalFunction(
+        `${supabaseUrl}/functions/v1/send-telegram-notification`,
+        { userId, message, parseMode: "HTML" },
+        { extraHeaders: { Authorization: `Bearer ${serviceKey}` }, timeoutMs: 15_000 },
+      );
+    } catch (e) {
+      warn("ai-quota", "Threshold alert failed", { quotaId: q.quota_id, error: String(e) });
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// =============================================================================
+// Armenian legal query corpus for morphological expansion
+// A small dictionary slice (as in armenian_dictionary.forms), short KB-style
+// passages and queries written in other inflected forms than the passages.
+// Used by armenian-morphology.test.ts to measure recall with and without the
+// lexicon.
+// =============================================================================
+
+import type { LexiconEntry } from "./armenian-morphology.ts";
+
+export const HY_LEGAL_LEXICON: LexiconEntry[] = [
+  // դատարան — court
+  { lemma: "\u0564\u0561\u057f\u0561\u0580\u0561\u0576", forms: ["\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u056b", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0568", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0576", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0578\u0582\u0574", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u056b\u0581", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0578\u057e", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0576\u0565\u0580", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0576\u0565\u0580\u0568", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0576\u0565\u0580\u056b", "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0576\u0565\u0580\u0578\u0582\u0574"] },
+  // որոշում — decision (stem changes in the genitive)
+  { lemma: "\u0578\u0580\u0578\u0577\u0578\u0582\u0574", forms: ["\u0578\u0580\u0578\u0577\u0574\u0561\u0576", "\u0578\u0580\u0578\u0577\u0574\u0561\u0576\u0568", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0568", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576", "\u0578\u0580\u0578\u0577\u0574\u0561\u0574\u0562", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u056b\u0581", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576\u0565\u0580", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576\u0565\u0580\u0568", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576\u0565\u0580\u056b"] },
+  // հայց — claim
+  { lemma: "\u0570\u0561\u0575\u0581", forms: ["\u0570\u0561\u0575\u0581\u056b", "\u0570\u0561\u0575\u0581\u0568", "\u0570\u0561\u0575\u0581\u0576", "\u0570\u0561\u0575\u0581\u0578\u057e", "\u0570\u0561\u0575\u0581\u056b\u0581", "\u0570\u0561\u0575\u0581\u0565\u0580", "\u0570\u0561\u0575\u0581\u0565\u0580\u0568", "\u0570\u0561\u0575\u0581\u0565\u0580\u056b"] },
+  // պայմանագիր — contract (պայմանագր- stem)
+  { lemma: "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u056b\u0580", forms: ["\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u056b", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u056b\u0580\u0568", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u057e", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u056b\u0581", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u0582\u0574", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0565\u0580", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0565\u0580\u0568", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0565\u0580\u056b"] },
+  // վնաս — damage
+  { lemma: "\u057e\u0576\u0561\u057d", forms: ["\u057e\u0576\u0561\u057d\u056b", "\u057e\u0576\u0561\u057d\u0568", "\u057e\u0576\u0561\u057d\u0576", "\u057e\u0576\u0561\u057d\u0578\u057e", "\u057e\u0576\u0561\u057d\u056b\u0581", "\u057e\u0576\u0561\u057d\u0576\u0565\u0580", "\u057e\u0576\u0561\u057d\u0576\u0565\u0580\u0568", "\u057e\u0576\u0561\u057d\u0576\u0565\u0580\u056b"] },
+  // աշխատող — employee
+  { lemma: "\u0561\u0577\u056d\u0561\u057f\u0578\u0572", forms: ["\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u056b", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u0568", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u056b\u0576", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u056b\u0581", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u0576\u0565\u0580", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u0576\u0565\u0580\u0568", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u0576\u0565\u0580\u056b", "\u0561\u0577\u056d\u0561\u057f\u0578\u0572\u0576\u0565\u0580\u056b\u0576"] },
+  // գործատու — employer
+  { lemma: "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582", forms: ["\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u056b", "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u0576", "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u056b\u0581", "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u0576\u0565\u0580", "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u0576\u0565\u0580\u0568", "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u0576\u0565\u0580\u056b"] },
+  // աշխատավարձ — salary
+  { lemma: "\u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571", forms: ["\u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571\u056b", "\u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571\u0568", "\u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571\u056b\u0581", "\u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571\u0578\u057e"] },
+  // ժառանգություն — inheritance (-ության / -ությամբ)
+  { lemma: "\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0578\u0582\u0576", forms: ["\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0561\u0576", "\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568", "\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u056b\u0581", "\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0561\u0574\u0562", "\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0576\u0565\u0580\u0568"] },
+  // սեփականություն — ownership
+  { lemma: "\u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576", forms: ["\u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0561\u0576", "\u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568", "\u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u056b\u0581", "\u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0561\u0574\u0562"] },
+  // բողոք — complaint / appeal
+  { lemma: "\u0562\u0578\u0572\u0578\u0584", forms: ["\u0562\u0578\u0572\u0578\u0584\u056b", "\u0562\u0578\u0572\u0578\u0584\u0568", "\u0562\u0578\u0572\u0578\u0584\u0576", "\u0562\u0578\u0572\u0578\u0584\u0578\u057e", "\u0562\u0578\u0572\u0578\u0584\u056b\u0581", "\u0562\u0578\u0572\u0578\u0584\u0576\u0565\u0580", "\u0562\u0578\u0572\u0578\u0584\u0576\u0565\u0580\u0568"] },
+  // ապացույց — evidence
+  { lemma: "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581", forms: ["\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u056b", "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0568", "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0578\u057e", "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0576\u0565\u0580", "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0576\u0565\u0580\u0568", "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0576\u0565\u0580\u056b"] },
+  // մեղադրյալ — accused
+  { lemma: "\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c", forms: ["\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u056b", "\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u0568", "\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u056b\u0576", "\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u056b\u0581", "\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u0576\u0565\u0580"] },
+  // կալանք — detention
+  { lemma: "\u056f\u0561\u056c\u0561\u0576\u0584", forms: ["\u056f\u0561\u056c\u0561\u0576\u0584\u056b", "\u056f\u0561\u056c\u0561\u0576\u0584\u0568", "\u056f\u0561\u056c\u0561\u0576\u0584\u056b\u0581", "\u056f\u0561\u056c\u0561\u0576\u0584\u0578\u057e"] },
+];
+
+export interface HyCorpusDocument {
+  id: string;
+  text: string;
+}
+
+export const HY_LEGAL_DOCUMENTS: HyCorpusDocument[] = [
+  { id: "appeal-court", text: "\u054e\u0565\u0580\u0561\u0584\u0576\u0576\u056b\u0579 \u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0568 \u0562\u0565\u056f\u0561\u0576\u0565\u0581 \u0561\u057c\u0561\u057b\u056b\u0576 \u0561\u057f\u0575\u0561\u0576\u056b \u0564\u0561\u057f\u0561\u0580\u0561\u0576\u056b \u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0568\u0589" },
+  { id: "salary", text: "\u0531\u0577\u056d\u0561\u057f\u0578\u0572\u056b\u0576 \u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571\u0568 \u0579\u057e\u0573\u0561\u0580\u0565\u056c\u0578\u0582 \u0570\u0561\u0574\u0561\u0580 \u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u056b\u0581 \u0562\u057c\u0576\u0561\u0563\u0561\u0576\u0571\u057e\u0565\u056c \u0567 \u057f\u0578\u0582\u0563\u0561\u0576\u0584\u0589" },
+  { id: "contract-damage", text: "\u054a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u057e \u0576\u0561\u056d\u0561\u057f\u0565\u057d\u057e\u0561\u056e \u057a\u0561\u0580\u057f\u0561\u057e\u0578\u0580\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0576\u0565\u0580\u0568 \u0579\u056f\u0561\u057f\u0561\u0580\u0565\u056c\u0578\u0582 \u0570\u0565\u057f\u0587\u0561\u0576\u0584\u0578\u057e \u057a\u0561\u057f\u0573\u0561\u057c\u057e\u0561\u056e \u057e\u0576\u0561\u057d\u0576\u0565\u0580\u0568 \u0565\u0576\u0569\u0561\u056f\u0561 \u0565\u0576 \u0570\u0561\u057f\u0578\u0582\u0581\u0574\u0561\u0576\u0589" },
+  { id: "inheritance", text: "\u053a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u056b\u0581 \u0570\u0580\u0561\u056a\u0561\u0580\u057e\u0565\u056c\u0578\u0582 \u0574\u0561\u057d\u056b\u0576 \u0564\u056b\u0574\u0578\u0582\u0574\u0568 \u0576\u0565\u0580\u056f\u0561\u0575\u0561\u0581\u057e\u0578\u0582\u0574 \u0567 \u0576\u0578\u057f\u0561\u0580\u056b\u0576\u0589" },
+  { id: "detention", text: "\u0544\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u056b \u0576\u056f\u0561\u057f\u0574\u0561\u0574\u0562 \u056f\u0561\u056c\u0561\u0576\u0584\u0568 \u0578\u0580\u057a\u0565\u057d \u056d\u0561\u0583\u0561\u0576\u0574\u0561\u0576 \u0574\u056b\u057b\u0578\u0581 \u056f\u056b\u0580\u0561\u057c\u0565\u056c\u0578\u0582 \u0574\u0561\u057d\u056b\u0576 \u0578\u0580\u0578\u0577\u0574\u0561\u0576 \u0564\u0565\u0574 \u0562\u0565\u0580\u057e\u0565\u056c \u0567 \u0562\u0578\u0572\u0578\u0584\u0589" },
+  { id: "ownership-claim", text: "\u0540\u0561\u0575\u0581\u057e\u0578\u0580\u0568 \u0570\u0561\u0575\u0581\u0578\u057e \u057a\u0561\u0570\u0561\u0576\u057b\u0565\u056c \u0567 \u0573\u0561\u0576\u0561\u0579\u0565\u056c \u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0561\u0576 \u056b\u0580\u0561\u057e\u0578\u0582\u0576\u0584\u0568\u0589" },
+  { id: "evidence", text: "\u0531\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0576\u0565\u0580\u056b \u0569\u0578\u0582\u0575\u056c\u0561\u057f\u0580\u0565\u056c\u056b\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568 \u0563\u0576\u0561\u0570\u0561\u057f\u0578\u0582\u0574 \u0567 \u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0568\u0589" },
+  { id: "cassation", text: "\u054e\u0573\u057c\u0561\u0562\u0565\u056f \u0562\u0578\u0572\u0578\u0584\u0576\u0565\u0580\u0568 \u0584\u0576\u0576\u057e\u0578\u0582\u0574 \u0565\u0576 \u0585\u0580\u0565\u0576\u0584\u0578\u057e \u057d\u0561\u0570\u0574\u0561\u0576\u057e\u0561\u056e \u056f\u0561\u0580\u0563\u0578\u057e\u0589" },
+];
+
+export interface HyCorpusQuery {
+  query: string;
+  /** Documents containing every query term in some form */
+  relevant: string[];
+}
+
+export const HY_LEGAL_QUERIES: HyCorpusQuery[] = [
+  { query: "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0576\u0565\u0580\u056b \u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576\u0565\u0580\u0568", relevant: ["appeal-court"] },
+  { query: "\u0563\u0578\u0580\u056e\u0561\u057f\u0578\u0582\u0576 \u0561\u0577\u056d\u0561\u057f\u0578\u0572\u0576\u0565\u0580\u056b\u0576 \u0561\u0577\u056d\u0561\u057f\u0561\u057e\u0561\u0580\u0571", relevant: ["salary"] },
+  { query: "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0565\u0580\u056b \u057e\u0576\u0561\u057d", relevant: ["contract-damage"] },
+  { query: "\u056a\u0561\u057c\u0561\u0576\u0563\u0578\u0582\u0569\u0575\u0561\u0576", relevant: ["inheritance"] },
+  { query: "\u0574\u0565\u0572\u0561\u0564\u0580\u0575\u0561\u056c\u0568 \u056f\u0561\u056c\u0561\u0576\u0584\u0578\u057e", relevant: ["detention"] },
+  { query: "\u0562\u0578\u0572\u0578\u0584\u0578\u057e \u0578\u0580\u0578\u0577\u0578\u0582\u0574", relevant: ["detention"] },
+  { query: "\u057d\u0565\u0583\u0561\u056f\u0561\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568 \u0570\u0561\u0575\u0581", relevant: ["ownership-claim"] },
+  { query: "\u0561\u057a\u0561\u0581\u0578\u0582\u0575\u0581\u0576\u0565\u0580\u0568 \u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0578\u0582\u0574", relevant: ["evidence"] },
+  { query: "\u0562\u0578\u0572\u0578\u0584\u056b", relevant: ["detention", "cassation"] },
+  // Same forms as the passage: matched with and without the lexicon
+  { query: "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0568 \u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0568", relevant: ["appeal-court"] },
+];
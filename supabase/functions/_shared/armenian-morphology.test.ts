@@ -0,0 +1,133 @@
+// =============================================================================
+// Armenian Morphology — Test Suite
+// Lexicon helpers and a recall comparison on the legal query corpus
+// (armenian-morphology-fixtures.ts): every query word must occur in a
+// document, matched by exact form vs. by lemma.
+// =============================================================================
+
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  buildLexicon,
+  expandQuery,
+  formsOf,
+  ilikePatterns,
+  lemmaText,
+  lemmasOf,
+  substringCover,
+  tokenize,
+  type Lexicon,
+} from "./armenian-morphology.ts";
+import { HY_LEGAL_DOCUMENTS, HY_LEGAL_LEXICON, HY_LEGAL_QUERIES } from "./armenian-morphology-fixtures.ts";
+
+const lexicon = buildLexicon(HY_LEGAL_LEXICON);
+
+// ---------------------------------------------------------------------------
+// Lexicon helpers
+// ---------------------------------------------------------------------------
+
+Deno.test("tokenize lowercases and drops in-word emphasis marks", () => {
+  assertEquals(tokenize("\u0534\u0561\u057f\u0561\u0580\u0561\u055b\u0576\u0568, \u00ab\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0568\u00bb\u0589"), ["\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0568", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0568"]);
+  assertEquals(tokenize("Article 5 (\u0540\u0540 \u0554\u053f)"), ["article", "5", "\u0570\u0570", "\u0584\u056f"]);
+});
+
+Deno.test("lemmasOf maps inflected forms, including changed stems", () => {
+  assertEquals(lemmasOf(lexicon, "\u054a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u057e"), ["\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u056b\u0580"]);
+  assertEquals(lemmasOf(lexicon, "\u0578\u0580\u0578\u0577\u0574\u0561\u0576"), ["\u0578\u0580\u0578\u0577\u0578\u0582\u0574"]);
+  assertEquals(lemmasOf(lexicon, "\u0561\u057f\u0575\u0561\u0576\u056b"), []);
+});
+
+Deno.test("formsOf puts the word first and lists the other forms of its lemma", () => {
+  const forms = formsOf(lexicon, "\u0570\u0561\u0575\u0581\u0578\u057e");
+  assertEquals(forms[0], "\u0570\u0561\u0575\u0581\u0578\u057e");
+  assert(forms.includes("\u0570\u0561\u0575\u0581"));
+  assert(forms.includes("\u0570\u0561\u0575\u0581\u0565\u0580\u056b"));
+  assertEquals(formsOf(lexicon, "\u0561\u057f\u0575\u0561\u0576\u056b"), ["\u0561\u057f\u0575\u0561\u0576\u056b"]);
+  assertEquals(formsOf(lexicon, "\u0570\u0561\u0575\u0581", 2).length, 3);
+});
+
+Deno.test("a form shared by two lemmas expands to both", () => {
+  const shared = buildLexicon([
+    { lemma: "\u057f\u0578\u0582\u0576", forms: ["\u057f\u0561\u0576"] },
+    { lemma: "\u057f\u0561\u056c", forms: ["\u057f\u0561\u0576"] },
+  ]);
+  assertEquals(lemmasOf(shared, "\u057f\u0561\u0576"), ["\u057f\u0561\u056c", "\u057f\u0578\u0582\u0576"]);
+  assertEquals(lemmaText(shared, "\u057f\u0561\u0576"), "\u057f\u0561\u056c \u057f\u0578\u0582\u0576");
+});
+
+Deno.test("lemmaText replaces known words and keeps unknown ones", () => {
+  assertEquals(
+    lemmaText(lexicon, "\u054e\u0565\u0580\u0561\u0584\u0576\u0576\u056b\u0579 \u0564\u0561\u057f\u0561\u0580\u0561\u0576\u0568 \u0562\u0565\u056f\u0561\u0576\u0565\u0581 \u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0568"),
+    "\u057e\u0565\u0580\u0561\u0584\u0576\u0576\u056b\u0579 \u0564\u0561\u057f\u0561\u0580\u0561\u0576 \u0562\u0565\u056f\u0561\u0576\u0565\u0581 \u0578\u0580\u0578\u0577\u0578\u0582\u0574",
+  );
+});
+
+Deno.test("expandQuery skips duplicates and one-letter words", () => {
+  const expanded = expandQuery(lexicon, "\u0570\u0561\u0575\u0581 \u0587 \u0570\u0561\u0575\u0581 \u0561\u057f\u0575\u0561\u0576");
+  assertEquals(expanded.map((t) => t.token), ["\u0570\u0561\u0575\u0581", "\u0561\u057f\u0575\u0561\u0576"]);
+  assertEquals(expanded[0].lemmas, ["\u0570\u0561\u0575\u0581"]);
+  assertEquals(expanded[1].lemmas, []);
+  assertEquals(expanded[1].forms, ["\u0561\u057f\u0575\u0561\u0576"]);
+});
+
+Deno.test("multi-word lemmas and forms are left out of the lexicon", () => {
+  const lex = buildLexicon([
+    { lemma: "\u0570\u0561\u0575\u0581\u0561\u0575\u056b\u0576 \u057e\u0561\u0572\u0565\u0574\u0578\u0582\u0569\u0575\u0578\u0582\u0576", forms: [] },
+    { lemma: "\u0570\u0561\u0575\u0581", forms: ["\u0570\u0561\u0575\u0581\u056b", "\u0570\u0561\u0575\u0581\u056b \u057a\u0561\u0570\u0561\u0576\u057b"] },
+  ]);
+  assertEquals(lex.lemmaToForms.has("\u0570\u0561\u0575\u0581\u0561\u0575\u056b\u0576 \u057e\u0561\u0572\u0565\u0574\u0578\u0582\u0569\u0575\u0578\u0582\u0576"), false);
+  assertEquals(lex.lemmaToForms.get("\u0570\u0561\u0575\u0581"), ["\u0570\u0561\u0575\u0581", "\u0570\u0561\u0575\u0581\u056b"]);
+});
+
+Deno.test("substringCover keeps the lemma and changed stems only", () => {
+  assertEquals(substringCover(formsOf(lexicon, "\u0564\u0561\u057f\u0561\u0580\u0561\u0576\u056b")), ["\u0564\u0561\u057f\u0561\u0580\u0561\u0576"]);
+  assertEquals(
+    substringCover(formsOf(lexicon, "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u057e")),
+    ["\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u056b\u0580", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u056b", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0565\u0580", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u057e", "\u057a\u0561\u0575\u0574\u0561\u0576\u0561\u0563\u0580\u0578\u0582\u0574"],
+  );
+});
+
+Deno.test("ilikePatterns expands single words and keeps phrases as they are", () => {
+  assertEquals(ilikePatterns(lexicon, "\u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576\u0565\u0580\u056b"), ["\u0578\u0580\u0578\u0577\u0574\u0561\u0576", "\u0578\u0580\u0578\u0577\u0578\u0582\u0574", "\u0578\u0580\u0578\u0577\u0574\u0561\u0574\u0562"]);
+  assertEquals(ilikePatterns(lexicon, "\u0540\u0561\u0575\u0581\u0561\u0575\u056b\u0576 \u057e\u0561\u0572\u0565\u0574\u0578\u0582\u0569\u0575\u0578\u0582\u0576"), ["\u0570\u0561\u0575\u0581\u0561\u0575\u056b\u0576 \u057e\u0561\u0572\u0565\u0574\u0578\u0582\u0569\u0575\u0578\u0582\u0576"]);
+});
+
+// ---------------------------------------------------------------------------
+// Recall on the legal query corpus
+// ---------------------------------------------------------------------------
+
+/** Documents containing every query word (exact form, or lemma when a lexicon is given) */
+function retrieve(query: string, lex: Lexicon | null): Set<string> {
+  const normalize = (text: string) => lex ? lemmaText(lex, text).split(" ") : tokenize(text);
+  const terms = new Set(normalize(query));
+  const out = new Set<string>();
+  for (const doc of HY_LEGAL_DOCUMENTS) {
+    const words = new Set(normalize(doc.text));
+    if ([...terms].every((t) => words.has(t))) out.add(doc.id);
+  }
+  return out;
+}
+
+function recall(lex: Lexicon | null): number {
+  let found = 0;
+  let total = 0;
+  for (const q of HY_LEGAL_QUERIES) {
+    const hits = retrieve(q.query, lex);
+    total += q.relevant.length;
+    found += q.relevant.filter((id) => hits.has(id)).length;
+  }
+  return found / total;
+}
+
+Deno.test("lemma matching recovers inflected mentions exact matching misses", () => {
+  const exact = recall(null);
+  const lemma = recall(lexicon);
+  console.log(`Recall on ${HY_LEGAL_QUERIES.length} queries: exact=${exact.toFixed(2)} lemma=${lemma.toFixed(2)}`);
+  assertEquals(lemma, 1);
+  assert(exact < 0.5, `exact-form recall ${exact} unexpectedly high: corpus no longer exercises inflection`);
+});
+
+Deno.test("lemma matching does not add documents missing a query term", () => {
+  for (const q of HY_LEGAL_QUERIES) {
+    assertEquals([...retrieve(q.query, lexicon)].sort(), [...q.relevant].sort(), q.query);
+  }
+});
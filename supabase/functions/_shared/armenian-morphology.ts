@@ -0,0 +1,161 @@
+// =============================================================================
+// ARMENIAN MORPHOLOGY — dictionary-based lemmatization and query expansion
+// Used by: kb-search-assistant (keyword fallback)
+// =============================================================================
+//
+// Armenian inflects by suffix (case endings, plural -ներ/-եր, definite -ը/-ն)
+// and sometimes changes the stem (պայմանագիր → պայմանագրով), so matching
+// surface forms misses most of a document's mentions of a term. The lexicon
+// comes from armenian_dictionary.forms via armenian_word_forms; no rule-based
+// stemming is done, an unknown word only matches itself.
+//
+// The SQL side (search_or_tsquery, hy_lemma_text, search_kb_lemma) implements
+// the same algorithm; keep tokenize() in step with hy_tokenize().
+// =============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+
+export interface LexiconEntry {
+  lemma: string;
+  forms: string[];
+}
+
+export interface Lexicon {
+  /** form → lemmas (a form may belong to several lemmas) */
+  formToLemmas: Map<string, string[]>;
+  /** lemma → all its forms, the lemma included */
+  lemmaToForms: Map<string, string[]>;
+}
+
+export interface ExpandedTerm {
+  token: string;
+  /** Empty when the word is not in the lexicon */
+  lemmas: string[];
+  /** The token first, then the other forms of its lemmas */
+  forms: string[];
+}
+
+// Emphasis, exclamation, question marks written inside the word (U+055B–U+055E)
+const IN_WORD_MARKS = /[\u055b-\u055e]/g;
+const WORD_SEPARATORS = /[^0-9a-z\u0561-\u0587\u0430-\u044f\u0451]+/;
+
+/** Lowercased words in text order (mirrors hy_tokenize) */
+export function tokenize(text: string): string[] {
+  return (text || "")
+    .toLowerCase()
+    .replace(IN_WORD_MARKS, "")
+    .split(WORD_SEPARATORS)
+    .filter((t) => t.length > 0);
+}
+
+/**
+ * Lexicon from dictionary entries, as armenian_dictionary_sync_forms builds
+ * armenian_word_forms: the lemma and each single-word form, 2+ characters.
+ */
+export function buildLexicon(entries: LexiconEntry[]): Lexicon {
+  const formToLemmas = new Map<string, string[]>();
+  const lemmaToForms = new Map<string, string[]>();
+
+  for (const entry of entries) {
+    const [lemma, ...extra] = tokenize(entry.lemma);
+    if (!lemma || extra.length > 0) continue;
+
+    const forms = new Set<string>([lemma]);
+    for (const form of entry.forms ?? []) {
+      const words = tokenize(form);
+      if (words.length === 1 && words[0].length >= 2) forms.add(words[0]);
+    }
+
+    const known = lemmaToForms.get(lemma) ?? [];
+    lemmaToForms.set(lemma, [...new Set([...known, ...forms])]);
+    for (const form of forms) {
+      const lemmas = formToLemmas.get(form) ?? [];
+      if (!lemmas.includes(lemma)) formToLemmas.set(form, [...lemmas, lemma].sort());
+    }
+  }
+
+  return { formToLemmas, lemmaToForms };
+}
+
+/** Lemmas of a word; empty when it is not in the lexicon */
+export function lemmasOf(lexicon: Lexicon, word: string): string[] {
+  const [token] = tokenize(word);
+  return token ? lexicon.formToLemmas.get(token) ?? [] : [];
+}
+
+/** The word followed by the other forms of all its lemmas (mirrors hy_word_forms) */
+export function formsOf(lexicon: Lexicon, word: string, max = 32): string[] {
+  const [token] = tokenize(word);
+  if (!token) return [];
+  const others = new Set<string>();
+  for (const lemma of lexicon.formToLemmas.get(token) ?? []) {
+    for (const form of lexicon.lemmaToForms.get(lemma) ?? []) {
+      if (form !== token) others.add(form);
+    }
+  }
+  return [token, ...[...others].sort().slice(0, Math.max(max, 0))];
+}
+
+/** Text with every known word replaced by its lemma(s) (mirrors hy_lemma_text) */
+export function lemmaText(lexicon: Lexicon, text: string): string {
+  return tokenize(text)
+    .map((t) => (lexicon.formToLemmas.get(t) ?? [t]).join(" "))
+    .join(" ");
+}
+
+/** Expansion of each distinct query word (2+ characters) */
+export function expandQuery(lexicon: Lexicon, query: string, maxFormsPerTerm = 32): ExpandedTerm[] {
+  const seen = new Set<string>();
+  const out: ExpandedTerm[] = [];
+  for (const token of tokenize(query)) {
+    if (token.length < 2 || seen.has(token)) continue;
+    seen.add(token);
+    out.push({
+      token,
+      lemmas: lexicon.formToLemmas.get(token) ?? [],
+      forms: formsOf(lexicon, token, maxFormsPerTerm),
+    });
+  }
+  return out;
+}
+
+/**
+ * Smallest set of substrings covering all forms, for ILIKE '%…%' matching:
+ * a form containing another kept form is redundant (the lemma "դատարան"
+ * already matches "դատարանի"), while a changed stem (պայմանագր-) is kept.
+ */
+export function substringCover(forms: string[]): string[] {
+  const kept: string[] = [];
+  for (const form of [...new Set(forms)].sort((a, b) => a.length - b.length || a.localeCompare(b))) {
+    if (!kept.some((k) => form.includes(k))) kept.push(form);
+  }
+  return kept;
+}
+
+/**
+ * ILIKE patterns for one keyword: the substring cover of its forms, or the
+ * keyword itself when it is a phrase or unknown.
+ */
+export function ilikePatterns(lexicon: Lexicon, keyword: string): string[] {
+  const words = tokenize(keyword);
+  if (words.length !== 1) return [keyword.toLowerCase().trim()].filter(Boolean);
+  return substringCover(formsOf(lexicon, words[0]));
+}
+
+/**
+ * Lexicon for the words of `terms` (hy_expand_terms). Never throws: on error
+ * an empty lexicon is returned and search falls back to exact forms.
+ */
+export async function loadLexicon(supabase: SupabaseClient, terms: string[]): Promise<Lexicon> {
+  const words = [...new Set(terms.flatMap(tokenize))].slice(0, 50);
+  if (words.length === 0) return buildLexicon([]);
+  const { data, error } = await supabase.rpc("hy_expand_terms", { _terms: words });
+  if (error) {
+    console.warn(`[armenian-morphology] hy_expand_terms failed: ${error.message}`);
+    return buildLexicon([]);
+  }
+  return buildLexicon(((data ?? []) as Array<{ lemma: string; forms: string[] | null }>).map((r) => ({
+    lemma: r.lemma,
+    forms: r.forms ?? [],
+  })));
+}
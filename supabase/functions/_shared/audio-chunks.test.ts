@@ -0,0 +1,136 @@
+// =============================================================================
+// Audio Chunks — Test Suite
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  buildChunkAudio,
+  byteOffsetAt,
+  findMp3Frame,
+  planAudioChunks,
+  probeAudio,
+  stitchChunkSegments,
+} from "./audio-chunks.ts";
+
+function wavHeader(sampleRate: number, channels: number, bits: number, dataSize: number): Uint8Array {
+  const b = new Uint8Array(44);
+  const v = new DataView(b.buffer);
+  const put = (at: number, s: string) => [...s].forEach((c, i) => (b[at + i] = c.charCodeAt(0)));
+  const blockAlign = (channels * bits) / 8;
+  put(0, "RIFF");
+  v.setUint32(4, 36 + dataSize, true);
+  put(8, "WAVE");
+  put(12, "fmt ");
+  v.setUint32(16, 16, true);
+  v.setUint16(20, 1, true);
+  v.setUint16(22, channels, true);
+  v.setUint32(24, sampleRate, true);
+  v.setUint32(28, sampleRate * blockAlign, true);
+  v.setUint16(32, blockAlign, true);
+  v.setUint16(34, bits, true);
+  put(36, "data");
+  v.setUint32(40, dataSize, true);
+  return b;
+}
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, stereo: 417-byte frames
+const FRAME = [0xff, 0xfb, 0x90, 0x00];
+const FRAME_LENGTH = 417;
+
+function mp3Frames(count: number, prefix: number[] = []): Uint8Array {
+  const b = new Uint8Array(prefix.length + count * FRAME_LENGTH);
+  b.set(prefix);
+  for (let i = 0; i < count; i++) b.set(FRAME, prefix.length + i * FRAME_LENGTH);
+  return b;
+}
+
+const segment = (start_ms: number, end_ms: number, speaker: string, text: string) =>
+  ({ seq: 0, start_ms, end_ms, speaker, text, confidence: null });
+
+Deno.test("WAV: duration from the header, parts on sample frames", () => {
+  // 25 minutes of 16 kHz mono 16-bit
+  const dataSize = 25 * 60 * 32000;
+  const probe = probeAudio(wavHeader(16000, 1, 16, dataSize), 44 + dataSize)!;
+  assertEquals([probe.format, probe.duration_ms, probe.data_start, probe.data_end], ["wav", 1_500_000, 44, 44 + dataSize]);
+
+  const plan = planAudioChunks(probe, { maxChunkBytes: 20 * 1024 * 1024 });
+  assertEquals(plan.map((c) => [c.start_ms, c.end_ms, c.byte_start, c.byte_end]), [
+    [0, 600_000, 44, 19_200_044],
+    [585_000, 1_185_000, 18_720_044, 37_920_044],
+    [1_170_000, 1_500_000, 37_440_044, 48_000_044],
+  ]);
+
+  const part = buildChunkAudio(probe, new Uint8Array(64_000));
+  const reprobed = probeAudio(part, part.length)!;
+  assertEquals([part.length, reprobed.duration_ms], [44 + 64_000, 2000]);
+});
+
+Deno.test("WAV: streamed size and audio too dense to split", () => {
+  const streamed = probeAudio(wavHeader(8000, 1, 16, 0xffffffff), 44 + 16_000 * 90)!;
+  assertEquals(streamed.duration_ms, 90_000);
+
+  // 96 kHz stereo 24-bit: a 12 MB part would hold about 22 seconds
+  const dense = probeAudio(wavHeader(96000, 2, 24, 576_000 * 600), 44 + 576_000 * 600)!;
+  assertEquals(planAudioChunks(dense), []);
+  assertEquals(byteOffsetAt(dense, 1001) % 6, 44 % 6);
+});
+
+Deno.test("MP3: CBR duration after an ID3 tag", () => {
+  const id3 = [0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0, 20, ...new Array(20).fill(0)];
+  const head = mp3Frames(10, id3);
+  const fileSize = 30 + 1000 * FRAME_LENGTH;
+  const probe = probeAudio(head, fileSize)!;
+  assertEquals([probe.format, probe.data_start, probe.duration_ms], ["mp3", 30, 26_063]);
+  assertEquals(byteOffsetAt(probe, probe.duration_ms / 2), 30 + 500 * FRAME_LENGTH);
+});
+
+Deno.test("MP3: Xing frame count and table of contents", () => {
+  const head = mp3Frames(4);
+  const x = 4 + 32;
+  head.set([0x58, 0x69, 0x6e, 0x67, 0, 0, 0, 0x05], x);
+  new DataView(head.buffer).setUint32(x + 8, 10_000);
+  // Second half of the recording is twice as dense as the first
+  const toc = Array.from({ length: 100 }, (_, k) => (k < 50 ? Math.round(k * 1.6) : 80 + Math.round((k - 50) * 3.52)));
+  head.set(toc, x + 12);
+
+  const probe = probeAudio(head, 4_000_000)!;
+  assertEquals(probe.duration_ms, 261_224);
+  assertEquals(byteOffsetAt(probe, probe.duration_ms / 2), Math.floor((80 / 256) * 4_000_000));
+});
+
+Deno.test("MP3: a part starts at the first frame of its range", () => {
+  const bytes = new Uint8Array([0x12, 0xff, 0x00, ...mp3Frames(3)]);
+  assertEquals(findMp3Frame(bytes), 3);
+  const probe = probeAudio(mp3Frames(3), 100_000)!;
+  assertEquals(buildChunkAudio(probe, bytes).subarray(0, 4), new Uint8Array(FRAME));
+});
+
+Deno.test("stitching shifts times, cuts the overlap and keeps speakers", () => {
+  const stitched = stitchChunkSegments([
+    {
+      start_ms: 45_000,
+      end_ms: 105_000,
+      segments: [
+        segment(0, 5_000, "S1", "ready."),
+        segment(5_000, 15_000, "S2", "Proceed, counsel."),
+        segment(15_000, 30_000, "S3", "Thank you."),
+      ],
+    },
+    {
+      start_ms: 0,
+      end_ms: 60_000,
+      segments: [
+        segment(0, 20_000, "S1", "Court is in session."),
+        segment(20_000, 50_000, "S2", "Defense is ready."),
+        segment(50_000, 60_000, "S1", "Proceed,"),
+      ],
+    },
+  ]);
+
+  assertEquals(stitched.map((s) => [s.seq, s.start_ms, s.end_ms, s.speaker, s.text]), [
+    [0, 0, 20_000, "S1", "Court is in session."],
+    [1, 20_000, 50_000, "S2", "Defense is ready."],
+    [2, 50_000, 60_000, "S1", "Proceed, counsel."],
+    [3, 60_000, 75_000, "S3", "Thank you."],
+  ]);
+});
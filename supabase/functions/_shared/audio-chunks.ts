@@ -0,0 +1,381 @@
+// =============================================================================
+// AUDIO CHUNKS — Splitting long recordings and stitching their transcripts
+// Used by: audio-transcribe, audio-transcribe-worker
+// =============================================================================
+//
+// Hearing recordings run for hours, far past what one model request takes.
+// Long files are cut into overlapping parts by byte range, without decoding:
+//
+//   WAV   PCM frames; every part gets its own RIFF header
+//   MP3   self-synchronising frames; a part starts at the first frame header
+//         in its range. Byte offsets follow the Xing table of contents for
+//         VBR files and are proportional to time otherwise.
+//
+// Other containers (M4A, OGG, WebM, video) cannot be cut this way and are
+// only transcribed in one request.
+//
+// Each part is transcribed on its own, with part-relative times and its own
+// speaker numbering. stitchChunkSegments() shifts the times, keeps every
+// segment once (the overlap is cut in the middle) and maps the speakers of a
+// part onto the speakers of the previous one by how long they talk at the
+// same time in the overlap. A voice that is silent in an overlap comes back
+// under a new speaker id; the speaker dialog can give both the same name.
+// =============================================================================
+
+import type { TranscriptSegment } from "./transcript-segments.ts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type ChunkableFormat = "wav" | "mp3";
+
+export interface AudioProbe {
+  format: ChunkableFormat;
+  mime_type: string;
+  duration_ms: number;
+  /** First byte of the audio data (after the RIFF header / ID3 tag) */
+  data_start: number;
+  /** End of the audio data (exclusive) */
+  data_end: number;
+  /** WAV: bytes per second and per sample frame */
+  byte_rate?: number;
+  block_align?: number;
+  /** WAV: body of the "fmt " chunk, copied into every part */
+  wav_fmt?: Uint8Array;
+  /** MP3: Xing table of contents, 100 byte positions in 1/256 of the data */
+  toc?: number[];
+}
+
+export interface AudioChunkPlan {
+  chunk_index: number;
+  start_ms: number;
+  end_ms: number;
+  /** Byte range of the file, end exclusive */
+  byte_start: number;
+  byte_end: number;
+}
+
+export interface ChunkPlanOptions {
+  maxChunkMs?: number;
+  overlapMs?: number;
+  /** Keeps a part below the single-request upload limit */
+  maxChunkBytes?: number;
+}
+
+/** A transcribed part; segment times are relative to the part */
+export interface TranscribedChunk {
+  start_ms: number;
+  end_ms: number;
+  segments: TranscriptSegment[];
+}
+
+export const PROBE_BYTES = 64 * 1024;
+export const CHUNK_MS = 10 * 60_000;
+export const CHUNK_OVERLAP_MS = 15_000;
+export const MAX_CHUNK_BYTES = 12 * 1024 * 1024;
+const MIN_CHUNK_MS = 60_000;
+
+// ─── Bytes ──────────────────────────────────────────────────────────────────
+
+function ascii(b: Uint8Array, at: number, length: number): string {
+  if (at < 0 || at + length > b.length) return "";
+  return String.fromCharCode(...b.subarray(at, at + length));
+}
+
+function writeAscii(b: Uint8Array, at: number, value: string) {
+  for (let i = 0; i < value.length; i++) b[at + i] = value.charCodeAt(i);
+}
+
+const view = (b: Uint8Array) => new DataView(b.buffer, b.byteOffset, b.byteLength);
+
+// ─── WAV ────────────────────────────────────────────────────────────────────
+
+function probeWav(head: Uint8Array, fileSize: number): AudioProbe | null {
+  if (ascii(head, 0, 4) !== "RIFF" || ascii(head, 8, 4) !== "WAVE") return null;
+  const v = view(head);
+  let fmt: Uint8Array | null = null;
+  let pos = 12;
+
+  while (pos + 8 <= head.length) {
+    const id = ascii(head, pos, 4);
+    const size = v.getUint32(pos + 4, true);
+    if (id === "fmt ") {
+      if (pos + 8 + size > head.length) return null;
+      fmt = head.slice(pos + 8, pos + 8 + size);
+    } else if (id === "data") {
+      if (!fmt || fmt.length < 16) return null;
+      const f = view(fmt);
+      const byteRate = f.getUint32(8, true);
+      const blockAlign = f.getUint16(12, true);
+      if (!byteRate || !blockAlign) return null;
+      const dataStart = pos + 8;
+      // Recorders that stream to disk leave the size at 0 or 0xFFFFFFFF
+      const dataEnd = size === 0 || size === 0xffffffff ? fileSize : Math.min(fileSize, dataStart + size);
+      return {
+        format: "wav",
+        mime_type: "audio/wav",
+        duration_ms: Math.floor(((dataEnd - dataStart) / byteRate) * 1000),
+        data_start: dataStart,
+        data_end: dataEnd,
+        byte_rate: byteRate,
+        block_align: blockAlign,
+        wav_fmt: fmt,
+      };
+    }
+    pos += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+function wavFile(fmt: Uint8Array, data: Uint8Array): Uint8Array {
+  const pad = fmt.length % 2;
+  const out = new Uint8Array(20 + fmt.length + pad + 8 + data.length);
+  const v = view(out);
+  writeAscii(out, 0, "RIFF");
+  v.setUint32(4, out.length - 8, true);
+  writeAscii(out, 8, "WAVE");
+  writeAscii(out, 12, "fmt ");
+  v.setUint32(16, fmt.length, true);
+  out.set(fmt, 20);
+  const p = 20 + fmt.length + pad;
+  writeAscii(out, p, "data");
+  v.setUint32(p + 4, data.length, true);
+  out.set(data, p + 8);
+  return out;
+}
+
+// ─── MP3 ────────────────────────────────────────────────────────────────────
+
+// kbps by bitrate index, Layer III
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+// By version bits: 3 = MPEG-1, 2 = MPEG-2, 0 = MPEG-2.5
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000],
+  2: [22050, 24000, 16000],
+  0: [11025, 12000, 8000],
+};
+
+interface Mp3Frame {
+  version: number;
+  sampleRate: number;
+  bitrate: number;
+  samples: number;
+  length: number;
+  mono: boolean;
+}
+
+function mp3FrameAt(b: Uint8Array, i: number): Mp3Frame | null {
+  if (i < 0 || i + 4 > b.length || b[i] !== 0xff || (b[i + 1] & 0xe0) !== 0xe0) return null;
+  const version = (b[i + 1] >> 3) & 3;
+  const layer = (b[i + 1] >> 1) & 3;
+  if (version === 1 || layer !== 1) return null;
+  const bitrateIndex = b[i + 2] >> 4;
+  const rateIndex = (b[i + 2] >> 2) & 3;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const bitrate = (version === 3 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][rateIndex];
+  const samples = version === 3 ? 1152 : 576;
+  const padding = (b[i + 2] >> 1) & 1;
+  return {
+    version,
+    sampleRate,
+    bitrate,
+    samples,
+    length: Math.floor(((samples / 8) * bitrate) / sampleRate) + padding,
+    mono: b[i + 3] >> 6 === 3,
+  };
+}
+
+/** First frame header at or after `from` that is followed by a matching one */
+export function findMp3Frame(b: Uint8Array, from = 0): number {
+  for (let i = Math.max(0, from); i + 4 <= b.length; i++) {
+    const frame = mp3FrameAt(b, i);
+    if (!frame) continue;
+    const next = i + frame.length;
+    if (next + 4 > b.length) return i;
+    const following = mp3FrameAt(b, next);
+    if (following && following.version === frame.version && following.sampleRate === frame.sampleRate) return i;
+  }
+  return -1;
+}
+
+/** Size of a leading ID3v2 tag (0 without one); the audio starts after it */
+export function id3TagSize(head: Uint8Array): number {
+  if (ascii(head, 0, 3) !== "ID3" || head.length < 10) return 0;
+  const size = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+  return 10 + size + (head[5] & 0x10 ? 10 : 0);
+}
+
+function probeMp3(head: Uint8Array, fileSize: number, offset: number): AudioProbe | null {
+  const i = findMp3Frame(head, offset === 0 ? id3TagSize(head) : 0);
+  if (i < 0) return null;
+  const frame = mp3FrameAt(head, i)!;
+  const dataStart = offset + i;
+  const dataEnd = fileSize;
+
+  // Xing / Info (LAME) or VBRI header in place of the first frame's audio
+  const sideInfo = frame.version === 3 ? (frame.mono ? 17 : 32) : (frame.mono ? 9 : 17);
+  const x = i + 4 + sideInfo;
+  let frames: number | null = null;
+  let toc: number[] | undefined;
+  const tag = ascii(head, x, 4);
+  if ((tag === "Xing" || tag === "Info") && x + 8 <= head.length) {
+    const v = view(head);
+    const flags = v.getUint32(x + 4);
+    let p = x + 8;
+    if (flags & 1 && p + 4 <= head.length) {
+      frames = v.getUint32(p);
+      p += 4;
+    }
+    if (flags & 2) p += 4;
+    if (flags & 4 && p + 100 <= head.length) toc = Array.from(head.subarray(p, p + 100));
+  } else if (ascii(head, i + 36, 4) === "VBRI" && i + 54 <= head.length) {
+    frames = view(head).getUint32(i + 50);
+  }
+
+  const duration_ms = frames
+    ? Math.round(((frames * frame.samples) / frame.sampleRate) * 1000)
+    : Math.round((((dataEnd - dataStart) * 8) / frame.bitrate) * 1000);
+
+  return { format: "mp3", mime_type: "audio/mpeg", duration_ms, data_start: dataStart, data_end: dataEnd, toc };
+}
+
+// ─── Probe + plan ───────────────────────────────────────────────────────────
+
+/**
+ * Format and duration from the first bytes of a file; null when it cannot be
+ * cut into parts. `head` starts at byte `offset` of the file (past a large
+ * ID3 tag, see id3TagSize()).
+ */
+export function probeAudio(head: Uint8Array, fileSize: number, offset = 0): AudioProbe | null {
+  const probe = (offset === 0 ? probeWav(head, fileSize) : null) ?? probeMp3(head, fileSize, offset);
+  return probe && probe.duration_ms > 0 ? probe : null;
+}
+
+/** File offset of the audio at `ms` (WAV: on a sample frame) */
+export function byteOffsetAt(probe: AudioProbe, ms: number): number {
+  const t = Math.min(Math.max(ms, 0), probe.duration_ms);
+  const size = probe.data_end - probe.data_start;
+  if (probe.format === "wav") {
+    const frames = Math.floor((t * probe.byte_rate!) / 1000 / probe.block_align!);
+    return probe.data_start + Math.min(frames * probe.block_align!, size);
+  }
+  const percent = (t / probe.duration_ms) * 100;
+  if (probe.toc && probe.toc.length === 100) {
+    const k = Math.min(Math.floor(percent), 99);
+    const a = probe.toc[k];
+    const b = k < 99 ? probe.toc[k + 1] : 256;
+    return probe.data_start + Math.floor(((a + (b - a) * (percent - k)) / 256) * size);
+  }
+  return probe.data_start + Math.floor((percent / 100) * size);
+}
+
+/**
+ * Overlapping parts covering the recording. A part is at most maxChunkMs
+ * long and maxChunkBytes large; empty when the audio is so dense that a part
+ * would be shorter than a minute.
+ */
+export function planAudioChunks(probe: AudioProbe, options: ChunkPlanOptions = {}): AudioChunkPlan[] {
+  const overlap = options.overlapMs ?? CHUNK_OVERLAP_MS;
+  const bytesPerMs = (probe.data_end - probe.data_start) / probe.duration_ms;
+  const chunkMs = Math.min(options.maxChunkMs ?? CHUNK_MS, Math.floor((options.maxChunkBytes ?? MAX_CHUNK_BYTES) / bytesPerMs));
+  if (chunkMs < MIN_CHUNK_MS || chunkMs <= overlap) return [];
+
+  const plan: AudioChunkPlan[] = [];
+  let start = 0;
+  for (;;) {
+    const end = Math.min(start + chunkMs, probe.duration_ms);
+    plan.push({
+      chunk_index: plan.length,
+      start_ms: start,
+      end_ms: end,
+      byte_start: byteOffsetAt(probe, start),
+      byte_end: end >= probe.duration_ms ? probe.data_end : byteOffsetAt(probe, end),
+    });
+    if (end >= probe.duration_ms) return plan;
+    start = end - overlap;
+  }
+}
+
+/** A playable file from the bytes of a planned part */
+export function buildChunkAudio(probe: AudioProbe, bytes: Uint8Array): Uint8Array {
+  if (probe.format === "wav") return wavFile(probe.wav_fmt!, bytes);
+  const i = findMp3Frame(bytes);
+  return i > 0 ? bytes.subarray(i) : bytes;
+}
+
+// ─── Stitching ──────────────────────────────────────────────────────────────
+
+type Placed = Omit<TranscriptSegment, "seq">;
+
+/**
+ * Local speaker → speaker of the previous part, greedily by the time both
+ * talk at once within [from, to).
+ */
+function matchSpeakers(prev: Placed[], cur: Placed[], from: number, to: number): Map<string, string> {
+  const votes = new Map<string, { local: string; global: string; ms: number }>();
+  for (const c of cur) {
+    for (const p of prev) {
+      const ms = Math.min(c.end_ms, p.end_ms, to) - Math.max(c.start_ms, p.start_ms, from);
+      if (ms <= 0) continue;
+      const key = `${c.speaker}>${p.speaker}`;
+      const vote = votes.get(key) ?? { local: c.speaker, global: p.speaker, ms: 0 };
+      vote.ms += ms;
+      votes.set(key, vote);
+    }
+  }
+
+  const mapping = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const vote of [...votes.values()].sort((a, b) => b.ms - a.ms)) {
+    if (mapping.has(vote.local) || taken.has(vote.global)) continue;
+    mapping.set(vote.local, vote.global);
+    taken.add(vote.global);
+  }
+  return mapping;
+}
+
+/** One transcript from the parts, in recording time with shared speaker ids */
+export function stitchChunkSegments(chunks: TranscribedChunk[]): TranscriptSegment[] {
+  const sorted = [...chunks].sort((a, b) => a.start_ms - b.start_ms);
+  const kept: Placed[] = [];
+  let prev: Placed[] = [];
+  let prevEnd = 0;
+  let nextSpeaker = 1;
+
+  sorted.forEach((chunk, i) => {
+    const length = chunk.end_ms - chunk.start_ms;
+    const placed = chunk.segments.map((s) => ({
+      ...s,
+      start_ms: chunk.start_ms + Math.min(s.start_ms, length),
+      end_ms: chunk.start_ms + Math.min(s.end_ms, length),
+    }));
+
+    const mapping = i === 0 ? new Map<string, string>() : matchSpeakers(prev, placed, chunk.start_ms, prevEnd);
+    for (const s of placed) {
+      if (!mapping.has(s.speaker)) mapping.set(s.speaker, `S${nextSpeaker++}`);
+    }
+    const global = placed.map((s) => ({ ...s, speaker: mapping.get(s.speaker)! }));
+
+    // A segment belongs to the part holding its midpoint, cut mid-overlap
+    const from = i === 0 ? -Infinity : (chunk.start_ms + prevEnd) / 2;
+    const next = sorted[i + 1];
+    const to = next ? (next.start_ms + chunk.end_ms) / 2 : Infinity;
+    kept.push(...global.filter((s) => {
+      const mid = (s.start_ms + s.end_ms) / 2;
+      return mid >= from && mid < to;
+    }));
+
+    prev = global;
+    prevEnd = chunk.end_ms;
+  });
+
+  const ids = new Map<string, string>();
+  return kept
+    .sort((a, b) => a.start_ms - b.start_ms)
+    .map((s, seq) => {
+      if (!ids.has(s.speaker)) ids.set(s.speaker, `S${ids.size + 1}`);
+      return { ...s, seq, speaker: ids.get(s.speaker)! };
+    });
+}
@@ -0,0 +1,154 @@
+// =============================================================================
+// AUDIO TRANSCRIBER — One audio file (or part of one) → diarized segments
+// Used by: audio-transcribe, audio-transcribe-worker
+// =============================================================================
+//
+// The audio goes to the model inline (base64 data URL) through the gateway
+// bypass; the reply is parsed by transcript-segments.ts. Segment times are
+// relative to the audio sent, so a part of a long recording gets part times.
+// =============================================================================
+
+import { callGatewayBypass } from "./gateway-bypass.ts";
+import { parseTranscriptSegments, type TranscriptSegment } from "./transcript-segments.ts";
+import { id3TagSize, probeAudio, PROBE_BYTES, type AudioProbe } from "./audio-chunks.ts";
+
+export const CONFIDENCE_THRESHOLD = 0.50;
+/** Stored when the model gave no confidence */
+export const DEFAULT_CONFIDENCE = 0.85;
+
+export interface TranscriptionUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface AudioTranscript {
+  /** Raw model reply, kept when it has no segments */
+  content: string;
+  segments: TranscriptSegment[];
+  usage: TranscriptionUsage | undefined;
+  model_used: string;
+  request_id: string;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg", wav: "audio/wav", m4a: "audio/mp4",
+  ogg: "audio/ogg", flac: "audio/flac", webm: "audio/webm",
+  mp4: "video/mp4", avi: "video/x-msvideo", mov: "video/quicktime",
+  mkv: "video/x-matroska",
+};
+
+export function audioMimeType(fileName: string | null | undefined): string {
+  const ext = fileName?.split(".").pop()?.toLowerCase() || "mp3";
+  return MIME_TYPES[ext] || "audio/mpeg";
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+// ─── Download ───────────────────────────────────────────────────────────────
+
+/** Bytes [start, end) of a remote file and the file size (Content-Range) */
+export async function fetchRange(
+  url: string,
+  start: number,
+  end: number,
+): Promise<{ bytes: Uint8Array; size: number | null }> {
+  const res = await fetch(url, { headers: { Range: `bytes=${start}-${end - 1}` } });
+  if (!res.ok) {
+    throw Object.assign(new Error(`Failed to fetch audio: ${res.status}`), { status: res.status });
+  }
+  const bytes = new Uint8Array(await res.arrayBuffer());
+  if (res.status !== 206) {
+    // Range ignored: the whole file came back
+    return { bytes: bytes.subarray(start, end), size: bytes.length };
+  }
+  const total = res.headers.get("content-range")?.match(/\/(\d+)$/);
+  return { bytes, size: total ? parseInt(total[1], 10) : null };
+}
+
+/** Probes a remote file from its first bytes; null when it cannot be cut */
+export async function probeRemoteAudio(url: string): Promise<AudioProbe | null> {
+  const { bytes: head, size } = await fetchRange(url, 0, PROBE_BYTES);
+  if (size === null) return null;
+  const skip = id3TagSize(head);
+  if (skip + 1024 <= head.length) return probeAudio(head, size);
+  // ID3 tag with cover art: read past it
+  const { bytes } = await fetchRange(url, skip, skip + PROBE_BYTES);
+  return probeAudio(bytes, size, skip);
+}
+
+// ─── Transcription ──────────────────────────────────────────────────────────
+
+const TRANSCRIPTION_PROMPT = `You are a professional transcription service specializing in Armenian and Russian legal proceedings.
+Transcribe the audio file as a dialogue split into speaker turns (diarization).
+
+IMPORTANT RULES:
+- One segment per speaker turn; split long monologues into segments of at most ~30 seconds
+- "start" and "end" are seconds from the beginning of the recording (numbers, e.g. 12.4)
+- "speaker" is a number: the same voice keeps the same number for the whole recording, starting from 1
+- "confidence" is your confidence in the segment text from 0 to 1 (lower it for unclear or overlapping speech)
+- Preserve all spoken words exactly as said
+- Include legal terminology correctly
+- If multiple languages are spoken, transcribe each in its original language
+- Output ONLY a JSON object, nothing else
+
+Example format:
+{"segments": [
+  {"start": 0, "end": 7.5, "speaker": 1, "text": "\u0414\u043e\u0431\u0440\u044b\u0439 \u0434\u0435\u043d\u044c, \u0441\u0443\u0434 \u0437\u0430\u0441\u0435\u0434\u0430\u043d\u0438\u0435 \u043d\u0430\u0447\u0438\u043d\u0430\u0435\u0442\u0441\u044f.", "confidence": 0.95},
+  {"start": 8, "end": 11.2, "speaker": 2, "text": "\u0412\u0430\u0448\u0430 \u0447\u0435\u0441\u0442\u044c, \u0437\u0430\u0449\u0438\u0442\u0430 \u0433\u043e\u0442\u043e\u0432\u0430.", "confidence": 0.9},
+  {"start": 12, "end": 14, "speaker": 1, "text": "\u0425\u043e\u0440\u043e\u0448\u043e, \u043f\u0440\u0438\u0441\u0442\u0443\u043f\u0430\u0435\u043c.", "confidence": 0.93}
+]}`;
+
+/** Sends the audio to the model (multimodal content requires the bypass) */
+export async function transcribeAudio(
+  bytes: Uint8Array,
+  mimeType: string,
+): Promise<AudioTranscript> {
+  const result = await callGatewayBypass(
+    [
+      {
+        role: "user",
+        content: [
+          { type: "text", text: TRANSCRIPTION_PROMPT },
+          { type: "image_url", image_url: { url: `data:${mimeType};base64,${toBase64(bytes)}` } },
+        ],
+      },
+    ],
+    {
+      functionName: "audio-transcribe",
+      bypassReason: "multimodal",
+      extraBody: { response_format: { type: "json_object" } },
+      timeoutMs: 120000,
+    },
+  );
+
+  const choices = result.data.choices as Array<{ message?: { content?: string } }> | undefined;
+  const content = choices?.[0]?.message?.content?.trim() || "";
+  return {
+    content,
+    segments: parseTranscriptSegments(content),
+    usage: result.data.usage as TranscriptionUsage | undefined,
+    model_used: result.model_used,
+    request_id: result.request_id,
+  };
+}
+
+/** "armenian", "russian", "mixed" or "unknown" by script share */
+export function detectTranscriptLanguage(text: string): string {
+  const armenianChars = (text.match(/[\u0531-\u058F]/g) || []).length;
+  const russianChars = (text.match(/[\u0400-\u04FF]/g) || []).length;
+  const totalChars = text.length || 1;
+
+  if (armenianChars / totalChars > 0.3) {
+    return russianChars / totalChars > 0.2 ? "mixed" : "armenian";
+  }
+  if (russianChars / totalChars > 0.3) return "russian";
+  return "unknown";
+}
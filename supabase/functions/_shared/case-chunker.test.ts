@@ -0,0 +1,71 @@
+// =============================================================================
+// Case Chunker — Test Suite
+// All Armenian text represented as Unicode escapes per project standards.
+// Run: deno test supabase/functions/_shared/case-chunker.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  chunkCaseSource,
+  findPageMarkers,
+  findTimestamps,
+  pageLocator,
+  selectChunkMode,
+  timeLocator,
+} from "./case-chunker.ts";
+
+const para = (n: number) => `Paragraph ${n}. ${"lorem ipsum dolor sit amet ".repeat(40)}\n\n`;
+
+Deno.test("findPageMarkers reads Page / \u0537\u057B / Стр. headers", () => {
+  const text = "intro\nPage 2\nfoo\n\u0537\u057B 3\nbar\n\u0421\u0442\u0440. 4\nbaz";
+  assertEquals(findPageMarkers(text).map((m) => m.value), [2, 3, 4]);
+  const marks = findPageMarkers(text);
+  // Text before the first header belongs to the previous page
+  assertEquals(pageLocator(marks, text.length, null, 0, 3), { page_start: 1, page_end: 1, page_estimated: false });
+  assertEquals(pageLocator(marks, text.length, null, text.indexOf("foo"), text.indexOf("\u0421")).page_end, 3);
+});
+
+Deno.test("findPageMarkers falls back to form feeds", () => {
+  const marks = findPageMarkers("one\ftwo\fthree");
+  assertEquals(marks.map((m) => [m.offset, m.value]), [[0, 1], [4, 2], [8, 3]]);
+});
+
+Deno.test("pageLocator estimates from page_count without markers", () => {
+  assertEquals(pageLocator([], 1000, 10, 0, 100), { page_start: 1, page_end: 1, page_estimated: true });
+  assertEquals(pageLocator([], 1000, 10, 450, 1000), { page_start: 5, page_end: 10, page_estimated: true });
+  assertEquals(pageLocator([], 1000, null, 0, 100), { page_start: null, page_end: null, page_estimated: false });
+});
+
+Deno.test("findTimestamps and timeLocator map chunks to recording time", () => {
+  const text = "[00:05] A: hi\n[01:10] B: yes\n[1:02:03] A: end";
+  const marks = findTimestamps(text);
+  assertEquals(marks.map((m) => m.value), [5, 70, 3723]);
+  const second = text.indexOf("[01:10]");
+  assertEquals(timeLocator(marks, 4000, 0, second), { time_start_seconds: 5, time_end_seconds: 70 });
+  assertEquals(timeLocator(marks, 4000, second, text.length), { time_start_seconds: 70, time_end_seconds: 4000 });
+  assertEquals(timeLocator([], 4000, 0, 10), { time_start_seconds: null, time_end_seconds: null });
+});
+
+Deno.test("selectChunkMode: transcripts and long volumes use fixed_window", () => {
+  const ruling = "\u054E\u0543\u054B\u054C\n" + para(1);
+  assertEquals(selectChunkMode({ source_type: "ocr", text: ruling }), "court_decision");
+  assertEquals(selectChunkMode({ source_type: "transcript", text: ruling }), "fixed_window");
+  assertEquals(selectChunkMode({ source_type: "volume", text: ruling + para(2).repeat(120) }), "fixed_window");
+  assertEquals(selectChunkMode({ source_type: "volume", text: para(1) }), "fixed_window");
+});
+
+Deno.test("chunkCaseSource keeps raw-slice offsets and attaches page locators", () => {
+  const text = Array.from({ length: 12 }, (_, i) => para(i)).join("");
+  const { mode, chunks, source_hash } = chunkCaseSource({ source_type: "volume", text, page_count: 6 });
+  assertEquals(mode, "fixed_window");
+  assertEquals(chunks.length > 1, true);
+  assertEquals(source_hash.length, 32);
+  for (const c of chunks) {
+    assertEquals(text.slice(c.char_start, c.char_end), c.chunk_text);
+    assertEquals(c.page_estimated, true);
+    assertEquals(c.time_start_seconds, null);
+  }
+  assertEquals(chunks[0].page_start, 1);
+  assertEquals(chunks[chunks.length - 1].page_end, 6);
+  assertEquals(chunkCaseSource({ source_type: "ocr", text: "  " }).chunks, []);
+});
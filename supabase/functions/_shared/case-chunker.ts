@@ -0,0 +1,215 @@
+// =============================================================================
+// CASE CHUNKER — Per-case chunking of OCR text, transcripts and volumes
+// Used by: case-search
+// =============================================================================
+//
+// Wraps the shared legal chunker for a case's own material and attaches a
+// locator to every chunk so search hits can point back into the source:
+//
+//   volume / ocr  — page_start..page_end. Taken from page markers in the text
+//                   (form feed, "Page N", "Страница N", "\u0537\u057B N") when
+//                   present, otherwise estimated from the char offset and the
+//                   known page count (page_estimated = true).
+//   transcript    — time_start_seconds..time_end_seconds from the
+//                   "[MM:SS]" / "[H:MM:SS]" line prefixes written by
+//                   audio-transcribe.
+//
+// Modes:
+//   court_decision — a single judgment / ruling: section-aware chunking
+//   fixed_window   — everything else (multi-document volumes, transcripts):
+//                    paragraph-grouped windows of ~4800 chars
+//
+// IMPORTANT: No Armenian glyphs — all Unicode escapes \uXXXX.
+// =============================================================================
+
+import { chunkByDocType, inferDocTypeFromText, sha256Hex, type ChunkType } from "./chunker.ts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type CaseSourceType = "ocr" | "transcript" | "volume";
+
+export type CaseChunkMode = "court_decision" | "fixed_window";
+
+export interface CaseSourceInput {
+  source_type: CaseSourceType;
+  text: string;
+  title?: string;
+  /** Known page count (case_volumes.page_count) for page estimation */
+  page_count?: number | null;
+  /** Recording length (audio_transcriptions.duration_seconds) */
+  duration_seconds?: number | null;
+}
+
+export interface CaseChunk {
+  chunk_index: number;
+  chunk_type: ChunkType;
+  chunk_text: string;
+  char_start: number;
+  char_end: number;
+  label: string | null;
+  chunk_hash: string;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+  time_start_seconds: number | null;
+  time_end_seconds: number | null;
+}
+
+export interface CaseChunkResult {
+  mode: CaseChunkMode;
+  /** Hash of the whole source text; unchanged sources are not re-indexed */
+  source_hash: string;
+  chunks: CaseChunk[];
+  warnings?: string[];
+}
+
+interface Marker {
+  offset: number;
+  value: number;
+}
+
+// A single ruling rarely exceeds this; longer court-looking texts are
+// multi-document volumes and go through fixed_window.
+const MAX_DECISION_CHARS = 120_000;
+
+// ─── Mode selection ─────────────────────────────────────────────────────────
+
+export function selectChunkMode(input: CaseSourceInput): CaseChunkMode {
+  if (input.source_type === "transcript") return "fixed_window";
+  if (input.text.length > MAX_DECISION_CHARS) return "fixed_window";
+  return inferDocTypeFromText(input.text) === "court_decision" ? "court_decision" : "fixed_window";
+}
+
+// ─── Page markers ───────────────────────────────────────────────────────────
+
+// "Page 12", "--- Page 12 ---", "Стр. 12", "Страница 12", "\u0537\u057B 12" at line start
+const PAGE_MARKER_RE =
+  /^[ \t-]*(?:page|\u0441\u0442\u0440\u0430\u043D\u0438\u0446\u0430|\u0441\u0442\u0440\.|\u0567\u057B)\s*(\d{1,4})(?!\d)/gimu;
+
+/** Offsets where each page starts, from explicit markers or form feeds */
+export function findPageMarkers(text: string): Marker[] {
+  const markers: Marker[] = [];
+  for (const m of text.matchAll(PAGE_MARKER_RE)) {
+    markers.push({ offset: m.index!, value: parseInt(m[1], 10) });
+  }
+  if (markers.length > 0) return markers;
+
+  if (text.includes("\f")) {
+    markers.push({ offset: 0, value: 1 });
+    let page = 1;
+    for (let i = text.indexOf("\f"); i !== -1; i = text.indexOf("\f", i + 1)) {
+      markers.push({ offset: i + 1, value: ++page });
+    }
+  }
+  return markers;
+}
+
+/** Value of the last marker at or before offset, else the first marker */
+function markerAt(markers: Marker[], offset: number): number {
+  let value = markers[0].value;
+  for (const m of markers) {
+    if (m.offset > offset) break;
+    value = m.value;
+  }
+  return value;
+}
+
+export function pageLocator(
+  markers: Marker[],
+  textLength: number,
+  pageCount: number | null | undefined,
+  charStart: number,
+  charEnd: number,
+): { page_start: number | null; page_end: number | null; page_estimated: boolean } {
+  if (markers.length > 0) {
+    // Markers are page headers: text before the first one is the page before it
+    const pageAt = (offset: number) =>
+      offset < markers[0].offset ? Math.max(1, markers[0].value - 1) : markerAt(markers, offset);
+    return {
+      page_start: pageAt(charStart),
+      page_end: pageAt(Math.max(charStart, charEnd - 1)),
+      page_estimated: false,
+    };
+  }
+  if (!pageCount || pageCount < 1 || textLength === 0) {
+    return { page_start: null, page_end: null, page_estimated: false };
+  }
+  const estimate = (offset: number) =>
+    Math.min(pageCount, Math.floor((offset / textLength) * pageCount) + 1);
+  return {
+    page_start: estimate(charStart),
+    page_end: estimate(Math.max(charStart, charEnd - 1)),
+    page_estimated: true,
+  };
+}
+
+// ─── Timestamps ─────────────────────────────────────────────────────────────
+
+const TIMESTAMP_RE = /^\[(?:(\d{1,2}):)?(\d{1,3}):(\d{2})\]/gm;
+
+/** Line-start "[MM:SS]" / "[H:MM:SS]" prefixes as second offsets */
+export function findTimestamps(text: string): Marker[] {
+  const markers: Marker[] = [];
+  for (const m of text.matchAll(TIMESTAMP_RE)) {
+    const hours = m[1] ? parseInt(m[1], 10) : 0;
+    markers.push({
+      offset: m.index!,
+      value: hours * 3600 + parseInt(m[2], 10) * 60 + parseInt(m[3], 10),
+    });
+  }
+  return markers;
+}
+
+export function timeLocator(
+  markers: Marker[],
+  durationSeconds: number | null | undefined,
+  charStart: number,
+  charEnd: number,
+): { time_start_seconds: number | null; time_end_seconds: number | null } {
+  if (markers.length === 0) return { time_start_seconds: null, time_end_seconds: null };
+  const next = markers.find((m) => m.offset >= charEnd);
+  const duration = durationSeconds != null ? Math.round(durationSeconds) : null;
+  const lastInside = [...markers].reverse().find((m) => m.offset < charEnd);
+  return {
+    time_start_seconds: markerAt(markers, charStart),
+    time_end_seconds: next?.value ?? duration ?? lastInside?.value ?? null,
+  };
+}
+
+// ─── Main ───────────────────────────────────────────────────────────────────
+
+export function chunkCaseSource(input: CaseSourceInput): CaseChunkResult {
+  const text = input.text ?? "";
+  const source_hash = sha256Hex(text);
+  const mode = selectChunkMode({ ...input, text });
+  if (text.trim().length === 0) return { mode, source_hash, chunks: [] };
+
+  const result = chunkByDocType(
+    { doc_type: mode === "court_decision" ? "court_decision" : "other", content_text: text, title: input.title },
+    mode === "court_decision" ? "court_decision" : "other",
+  );
+
+  const isTranscript = input.source_type === "transcript";
+  const pages = isTranscript ? [] : findPageMarkers(text);
+  const times = isTranscript ? findTimestamps(text) : [];
+
+  const chunks = result.chunks.map((c, i): CaseChunk => {
+    const page = isTranscript
+      ? { page_start: null, page_end: null, page_estimated: false }
+      : pageLocator(pages, text.length, input.page_count, c.char_start, c.char_end);
+    const time = timeLocator(times, input.duration_seconds, c.char_start, c.char_end);
+    return {
+      chunk_index: i,
+      chunk_type: c.chunk_type,
+      chunk_text: c.chunk_text,
+      char_start: c.char_start,
+      char_end: c.char_end,
+      label: c.label,
+      chunk_hash: c.chunk_hash,
+      ...page,
+      ...time,
+    };
+  });
+
+  return { mode, source_hash, chunks, warnings: result.warnings };
+}
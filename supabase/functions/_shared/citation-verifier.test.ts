@@ -0,0 +1,211 @@
+// =============================================================================
+// Citation Verifier \u2014 Test Suite
+// All Armenian text represented as Unicode escapes per project standards.
+// Run: deno test supabase/functions/_shared/citation-verifier.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  extractCaseNumbers,
+  formatNormRef,
+  hasPart,
+  hasPoint,
+  isInForce,
+  judgeArticle,
+  verifyCitations,
+  withCitationVerificationEvent,
+} from "./citation-verifier.ts";
+import type { NormRef } from "./norm-ref.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+
+// "\u0570\u0578\u0564\u057e\u0561\u056e" = "hodvac" (article), "\u0574\u0561\u057d" = "mas" (part)
+const ART = "\u0570\u0578\u0564\u057e\u0561\u056e";
+const PART = "\u0574\u0561\u057d";
+// "\u0540\u0555-528-\u0546" = HO-528-N (act number); "\u0563\u0578\u0580\u056e \u0569\u056b\u057e" = "gorc tiv" (case no.)
+const ACT = "\u0540\u0555-528-\u0546";
+
+const ref = (article: string, part: string | null = null, point: string | null = null, act_number: string | null = null): NormRef =>
+  ({ article, part, point, act_number } as NormRef);
+
+const doc = (over: Record<string, unknown> = {}) => ({
+  kb_id: "kb-1",
+  title: `Code ${ACT}`,
+  text: "1. First part text\n2. Second part text\n1) point one\n",
+  is_active: true,
+  effective_from: null as string | null,
+  effective_to: null as string | null,
+  ...over,
+});
+
+// ---------------------------------------------------------------------------
+// Pure helpers
+// ---------------------------------------------------------------------------
+
+Deno.test("extractCaseNumbers finds one number per line and dedupes", () => {
+  const text = "See no. 12345/20.\nAlso \u0563\u0578\u0580\u056e \u0569\u056b\u057e \u0535\u0531\u0554\u0534/0123/01/20; and no. 12345/20 again";
+  assertEquals(extractCaseNumbers(text), ["12345/20", "\u0535\u0531\u0554\u0534/0123/01/20"]);
+  assertEquals(extractCaseNumbers(""), []);
+});
+
+Deno.test("formatNormRef renders all parts", () => {
+  assertEquals(formatNormRef(ref("391", "2", "3", ACT)), `Art. 391, part 2, point 3 (${ACT})`);
+  assertEquals(formatNormRef(ref("55")), "Art. 55");
+});
+
+Deno.test("isInForce uses inclusive bounds", () => {
+  const d = doc({ effective_from: "2020-01-01", effective_to: "2024-12-31" });
+  assertEquals(isInForce(d, "2020-01-01"), true);
+  assertEquals(isInForce(d, "2024-12-31"), true);
+  assertEquals(isInForce(d, "2025-01-01"), false);
+  assertEquals(isInForce(d, "2019-12-31"), false);
+  assertEquals(isInForce(doc({ is_active: false }), "2022-01-01"), false);
+});
+
+Deno.test("hasPart / hasPoint match numbered lines", () => {
+  const text = "1. First\n2) Second\n3) point three ";
+  assertEquals(hasPart(text, "1"), true);
+  assertEquals(hasPart(text, "2"), true);
+  assertEquals(hasPart(text, "4"), false);
+  assertEquals(hasPoint(text, "3"), true);
+  assertEquals(hasPoint(text, "5"), false);
+});
+
+// ---------------------------------------------------------------------------
+// judgeArticle
+// ---------------------------------------------------------------------------
+
+Deno.test("judgeArticle verifies an in-force article", () => {
+  const r = judgeArticle(ref("391", "2"), [doc()], null, "2026-01-01");
+  assertEquals(r.verdict, "verified");
+  assertEquals(r.kb_id, "kb-1");
+});
+
+Deno.test("judgeArticle reports missing article / part / point / act", () => {
+  assertEquals(judgeArticle(ref("391"), [], null, "2026-01-01").reason, "article_not_found");
+  assertEquals(judgeArticle(ref("391", "7"), [doc()], null, "2026-01-01").reason, "part_not_found");
+  assertEquals(judgeArticle(ref("391", null, "9"), [doc()], null, "2026-01-01").reason, "point_not_found");
+  const otherAct = "\u0540\u0555-1-\u0546";
+  assertEquals(
+    judgeArticle(ref("391", null, null, otherAct), [doc()], new Set(), "2026-01-01").reason,
+    "act_not_found",
+  );
+});
+
+Deno.test("judgeArticle marks repealed when no version is in force", () => {
+  const old = doc({ effective_to: "2021-06-30" });
+  assertEquals(judgeArticle(ref("391"), [old], null, "2026-01-01").verdict, "repealed");
+  assertEquals(judgeArticle(ref("391"), [old], null, "2021-01-01").verdict, "verified");
+});
+
+Deno.test("judgeArticle prefers the in-force version", () => {
+  const old = doc({ kb_id: "kb-old", effective_to: "2021-06-30" });
+  const cur = doc({ kb_id: "kb-new", effective_from: "2021-07-01" });
+  const r = judgeArticle(ref("391"), [old, cur], null, "2026-01-01");
+  assertEquals(r.verdict, "verified");
+  assertEquals(r.kb_id, "kb-new");
+});
+
+// ---------------------------------------------------------------------------
+// verifyCitations with a fake client
+// ---------------------------------------------------------------------------
+
+type Row = Record<string, unknown>;
+
+interface FakeQuery {
+  _rows?: Row[];
+  select: () => FakeQuery;
+  eq: () => FakeQuery;
+  or: () => FakeQuery;
+  limit: () => FakeQuery;
+  in: (col: string, vals: unknown[]) => FakeQuery;
+  then: (resolve: (r: { data: Row[] | null; error: { message: string } | null }) => void) => void;
+}
+
+/** Minimal thenable query builder: only .in() filters, everything else is a no-op */
+function fakeClient(tables: Record<string, Row[]>, failOn?: string): SupabaseClient {
+  const client = {
+    from(table: string) {
+      const rows = tables[table] ?? [];
+      const q: FakeQuery = {
+        select: () => q,
+        eq: () => q,
+        or: () => q,
+        limit: () => q,
+        in: (col, vals) => {
+          q._rows = rows.filter((r) => vals.includes(r[col]));
+          return q;
+        },
+        then: (resolve) =>
+          resolve(failOn === table
+            ? { data: null, error: { message: "boom" } }
+            : { data: q._rows ?? rows, error: null }),
+      };
+      return q;
+    },
+  };
+  return client as unknown as SupabaseClient;
+}
+
+Deno.test("verifyCitations returns empty report for text without citations", async () => {
+  const r = await verifyCitations(fakeClient({}), "No references here.", { referenceDate: "2026-01-01" });
+  assertEquals(r.checked, 0);
+  assertEquals(r.reference_date, "2026-01-01");
+});
+
+Deno.test("verifyCitations resolves articles and cases", async () => {
+  const client = fakeClient({
+    knowledge_base: [{
+      id: "kb-1", title: "Code", article_number: "391", content_text: "1. a\n2. b\n",
+      is_active: true, effective_from: null, effective_to: null,
+    }],
+    knowledge_base_chunks: [],
+    legal_practice_kb: [{ id: "p-1", title: "Decision", case_number_anonymized: null, echr_case_id: "12345/20" }],
+  });
+  const text = `${ART} 391 ${PART} 2 and\n${ART} 999\nSee no. 12345/20\nSee no. 99999/21`;
+  const r = await verifyCitations(client, text, { referenceDate: "2026-01-01" });
+  assertEquals(r.checked, 4);
+  assertEquals(r.verified, 2);
+  assertEquals(r.not_found, 2);
+  assertEquals(r.error, undefined);
+});
+
+Deno.test("verifyCitations never throws on query errors", async () => {
+  const r = await verifyCitations(fakeClient({}, "knowledge_base"), `${ART} 391`, { referenceDate: "2026-01-01" });
+  assertEquals(r.checked, 1);
+  assertEquals(r.not_found, 1);
+  assertEquals(typeof r.error, "string");
+});
+
+// ---------------------------------------------------------------------------
+// SSE pass-through
+// ---------------------------------------------------------------------------
+
+Deno.test("withCitationVerificationEvent appends report before [DONE]", async () => {
+  const sse = [
+    `data: ${JSON.stringify({ choices: [{ delta: { content: `${ART} 3` } }] })}\n\n`,
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "91" } }] })}\n\n`,
+    "data: [DONE]\n\n",
+  ];
+  const enc = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      // Split mid-line to exercise buffering
+      const all = sse.join("");
+      c.enqueue(enc.encode(all.slice(0, 20)));
+      c.enqueue(enc.encode(all.slice(20)));
+      c.close();
+    },
+  });
+
+  const out = await new Response(
+    withCitationVerificationEvent(body, fakeClient({ knowledge_base: [], knowledge_base_chunks: [] }), { referenceDate: "2026-01-01" }),
+  ).text();
+
+  const events = out.split("\n").filter((l) => l.startsWith("data: ")).map((l) => l.slice(6));
+  assertEquals(events.length, 4);
+  assertEquals(events[3], "[DONE]");
+  const report = JSON.parse(events[2]).citation_verification;
+  assertEquals(report.checked, 1);
+  assertEquals(report.citations[0].norm_ref.article, "391");
+  assertEquals(report.not_found, 1);
+});
@@ -0,0 +1,466 @@
+// =============================================================================
+// CITATION VERIFIER — Post-generation check of article and case references
+// Used by: ai-analyze, generate-document, generate-complaint, legal-chat
+// =============================================================================
+//
+// Runs the deterministic NormRef extractor over model output and resolves each
+// {act_number, article, part, point} against knowledge_base /
+// knowledge_base_chunks, and each case number (extractCaseNumber) against
+// legal_practice_kb. Every citation gets a verdict:
+//
+//   verified  — found in the KB and in force on the reference date
+//   not_found — no matching act / article / part / point / decision
+//   repealed  — article found, but only in versions not in force on the
+//               reference date (is_active=false or outside effective_from..to)
+//
+// Never throws: query failures are reported in `error` and the affected
+// citations stay "not_found".
+// =============================================================================
+
+import { extractNormRefs, type NormRef } from "./norm-ref.ts";
+import { extractCaseNumber } from "./chunker.ts";
+import { warn } from "./safe-logger.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type CitationVerdict = "verified" | "not_found" | "repealed";
+
+export type ArticleNotFoundReason =
+  | "act_not_found"
+  | "article_not_found"
+  | "part_not_found"
+  | "point_not_found";
+
+export interface ArticleCitationCheck {
+  type: "article";
+  /** Human-readable reference, e.g. "Art. 391, part 2 (HO-528-N)" */
+  value: string;
+  norm_ref: NormRef;
+  verdict: CitationVerdict;
+  kb_id: string | null;
+  kb_title: string | null;
+  reason?: ArticleNotFoundReason;
+}
+
+export interface CaseCitationCheck {
+  type: "case";
+  value: string;
+  verdict: Exclude<CitationVerdict, "repealed">;
+  practice_id: string | null;
+  practice_title: string | null;
+}
+
+export type CitationCheck = ArticleCitationCheck | CaseCitationCheck;
+
+export interface CitationVerificationReport {
+  /** Date (YYYY-MM-DD) against which "in force" was evaluated */
+  reference_date: string;
+  checked: number;
+  verified: number;
+  not_found: number;
+  repealed: number;
+  /** True if more citations were found than MAX_CITATIONS */
+  truncated: boolean;
+  citations: CitationCheck[];
+  error?: string;
+}
+
+export interface VerifyCitationsOptions {
+  /** Reference date for the "in force" check (defaults to today) */
+  referenceDate?: string | null;
+  /** Function name for logging */
+  fn?: string;
+}
+
+/** Hard cap on citations resolved per output (bounds DB load) */
+export const MAX_CITATIONS = 40;
+
+/** Hard cap on distinct act numbers looked up per output */
+const MAX_ACTS = 10;
+
+// \u0540\u0578\u0564\u057e\u0561\u056e = "Article" (chunk label prefix set by chunker.ts)
+const ARTICLE_LABEL = "\u0540\u0578\u0564\u057e\u0561\u056e";
+
+// ─── Extraction ─────────────────────────────────────────────────────────────
+
+/**
+ * Extract distinct case numbers from free text.
+ * extractCaseNumber returns the first match only, so it is applied per line.
+ */
+export function extractCaseNumbers(text: string): string[] {
+  if (!text) return [];
+  const found = new Set<string>();
+  for (const line of text.split(/[\n;]/)) {
+    const num = extractCaseNumber(line);
+    if (num) found.add(num);
+  }
+  return [...found];
+}
+
+/** Human-readable label for a NormRef */
+export function formatNormRef(ref: NormRef): string {
+  let out = `Art. ${ref.article}`;
+  if (ref.part) out += `, part ${ref.part}`;
+  if (ref.point) out += `, point ${ref.point}`;
+  if (ref.act_number) out += ` (${ref.act_number})`;
+  return out;
+}
+
+// ─── Matching helpers ───────────────────────────────────────────────────────
+
+interface ArticleCandidate {
+  kb_id: string;
+  title: string;
+  /** Text of the article (whole doc for per-article rows, joined chunks otherwise) */
+  text: string;
+  is_active: boolean;
+  effective_from: string | null;
+  effective_to: string | null;
+}
+
+/** Same semantics as search_knowledge_base: bounds are inclusive, NULL = open */
+export function isInForce(
+  doc: Pick<ArticleCandidate, "is_active" | "effective_from" | "effective_to">,
+  referenceDate: string,
+): boolean {
+  if (!doc.is_active) return false;
+  if (doc.effective_from && doc.effective_from.substring(0, 10) > referenceDate) return false;
+  if (doc.effective_to && doc.effective_to.substring(0, 10) < referenceDate) return false;
+  return true;
+}
+
+/** Part lines are numbered "1." / "1)" at line start (see PART_LINE_RE in chunker.ts) */
+export function hasPart(text: string, part: string): boolean {
+  return new RegExp(`(^|\\n)\\s*${part}\\s*[.)]\\s`).test(text);
+}
+
+/** Points are numbered "1)" inside a part */
+export function hasPoint(text: string, point: string): boolean {
+  return new RegExp(`(^|\\n|\\s)${point}\\)\\s`).test(text);
+}
+
+function labelMatchesArticle(label: string | null, article: string): boolean {
+  if (!label) return false;
+  return label === `${ARTICLE_LABEL} ${article}` || label.startsWith(`${ARTICLE_LABEL} ${article},`);
+}
+
+/**
+ * Decide the verdict for one NormRef given its candidate documents.
+ * Pure — exported for tests.
+ */
+export function judgeArticle(
+  ref: NormRef,
+  candidates: ArticleCandidate[],
+  actDocIds: Set<string> | null,
+  referenceDate: string,
+): Omit<ArticleCitationCheck, "type" | "value" | "norm_ref"> {
+  const miss = (reason: ArticleNotFoundReason) => ({
+    verdict: "not_found" as const, kb_id: null, kb_title: null, reason,
+  });
+
+  if (candidates.length === 0) return miss("article_not_found");
+
+  let pool = candidates;
+  if (ref.act_number) {
+    const act = ref.act_number;
+    pool = pool.filter((c) =>
+      (actDocIds?.has(c.kb_id) ?? false) || c.title.includes(act) || c.text.includes(act)
+    );
+    if (pool.length === 0) return miss("act_not_found");
+  }
+
+  if (ref.part) {
+    const part = ref.part;
+    pool = pool.filter((c) => hasPart(c.text, part));
+    if (pool.length === 0) return miss("part_not_found");
+  }
+
+  if (ref.point) {
+    const point = ref.point;
+    pool = pool.filter((c) => hasPoint(c.text, point));
+    if (pool.length === 0) return miss("point_not_found");
+  }
+
+  const inForce = pool.find((c) => isInForce(c, referenceDate));
+  if (inForce) {
+    return { verdict: "verified", kb_id: inForce.kb_id, kb_title: inForce.title };
+  }
+  return { verdict: "repealed", kb_id: pool[0].kb_id, kb_title: pool[0].title };
+}
+
+// ─── DB resolution ──────────────────────────────────────────────────────────
+
+async function loadArticleCandidates(
+  supabase: SupabaseClient,
+  articles: string[],
+): Promise<Map<string, ArticleCandidate[]>> {
+  const byArticle = new Map<string, ArticleCandidate[]>();
+  const push = (article: string, c: ArticleCandidate) => {
+    const list = byArticle.get(article) ?? [];
+    if (!list.some((x) => x.kb_id === c.kb_id)) list.push(c);
+    byArticle.set(article, list);
+  };
+
+  // 1) Per-article KB rows (knowledge_base.article_number)
+  const { data: docs, error: docsErr } = await supabase
+    .from("knowledge_base")
+    .select("id, title, content_text, article_number, is_active, effective_from, effective_to")
+    .in("article_number", articles)
+    .limit(200);
+  if (docsErr) throw new Error(`knowledge_base lookup failed: ${docsErr.message}`);
+
+  for (const d of docs ?? []) {
+    push(d.article_number, {
+      kb_id: d.id, title: d.title, text: d.content_text || "",
+      is_active: d.is_active, effective_from: d.effective_from, effective_to: d.effective_to,
+    });
+  }
+
+  // 2) Whole-code KB rows, split into article chunks (knowledge_base_chunks.label)
+  const labelFilters = articles
+    .map((a) => `label.eq."${ARTICLE_LABEL} ${a}",label.like."${ARTICLE_LABEL} ${a},*"`)
+    .join(",");
+  const { data: chunks, error: chunksErr } = await supabase
+    .from("knowledge_base_chunks")
+    .select("kb_id, label, chunk_text")
+    .eq("is_active", true)
+    .or(labelFilters)
+    .limit(500);
+  if (chunksErr) throw new Error(`knowledge_base_chunks lookup failed: ${chunksErr.message}`);
+
+  if (chunks && chunks.length > 0) {
+    const parentIds = [...new Set((chunks as Array<{ kb_id: string }>).map((c) => c.kb_id))];
+    const { data: parents, error: parentsErr } = await supabase
+      .from("knowledge_base")
+      .select("id, title, is_active, effective_from, effective_to")
+      .in("id", parentIds);
+    if (parentsErr) throw new Error(`knowledge_base parent lookup failed: ${parentsErr.message}`);
+    const parentById = new Map((parents ?? []).map((p: { id: string }) => [p.id, p]));
+
+    for (const article of articles) {
+      // Join all chunks of this article per parent doc
+      const textByDoc = new Map<string, string>();
+      for (const c of chunks as Array<{ kb_id: string; label: string | null; chunk_text: string }>) {
+        if (!labelMatchesArticle(c.label, article)) continue;
+        textByDoc.set(c.kb_id, (textByDoc.get(c.kb_id) ?? "") + "\n" + c.chunk_text);
+      }
+      for (const [kbId, text] of textByDoc) {
+        const p = parentById.get(kbId) as
+          | { id: string; title: string; is_active: boolean; effective_from: string | null; effective_to: string | null }
+          | undefined;
+        if (!p) continue;
+        push(article, {
+          kb_id: p.id, title: p.title, text,
+          is_active: p.is_active, effective_from: p.effective_from, effective_to: p.effective_to,
+        });
+      }
+    }
+  }
+
+  return byArticle;
+}
+
+/** kb ids of documents that mention each act number (title or text) */
+async function loadActDocIds(
+  supabase: SupabaseClient,
+  actNumbers: string[],
+): Promise<Map<string, Set<string>>> {
+  const out = new Map<string, Set<string>>();
+  await Promise.all(actNumbers.slice(0, MAX_ACTS).map(async (act) => {
+    const { data, error } = await supabase
+      .from("knowledge_base")
+      .select("id")
+      .or(`title.ilike."%${act}%",content_text.ilike."%${act}%"`)
+      .limit(50);
+    if (error) throw new Error(`act lookup failed: ${error.message}`);
+    out.set(act, new Set((data ?? []).map((r: { id: string }) => r.id)));
+  }));
+  return out;
+}
+
+async function resolveCases(
+  supabase: SupabaseClient,
+  caseNumbers: string[],
+): Promise<CaseCitationCheck[]> {
+  const [byNumber, byEchr] = await Promise.all([
+    supabase
+      .from("legal_practice_kb")
+      .select("id, title, case_number_anonymized")
+      .eq("is_active", true)
+      .in("case_number_anonymized", caseNumbers),
+    supabase
+      .from("legal_practice_kb")
+      .select("id, title, echr_case_id")
+      .eq("is_active", true)
+      .in("echr_case_id", caseNumbers),
+  ]);
+  if (byNumber.error) throw new Error(`legal_practice_kb lookup failed: ${byNumber.error.message}`);
+  if (byEchr.error) throw new Error(`legal_practice_kb ECHR lookup failed: ${byEchr.error.message}`);
+
+  const found = new Map<string, { id: string; title: string }>();
+  for (const r of byNumber.data ?? []) found.set(r.case_number_anonymized, r);
+  for (const r of byEchr.data ?? []) if (!found.has(r.echr_case_id)) found.set(r.echr_case_id, r);
+
+  return caseNumbers.map((num) => {
+    const hit = found.get(num);
+    return {
+      type: "case" as const,
+      value: num,
+      verdict: hit ? "verified" as const : "not_found" as const,
+      practice_id: hit?.id ?? null,
+      practice_title: hit?.title ?? null,
+    };
+  });
+}
+
+// ─── Main entry ─────────────────────────────────────────────────────────────
+
+function summarize(
+  referenceDate: string,
+  citations: CitationCheck[],
+  truncated: boolean,
+  error?: string,
+): CitationVerificationReport {
+  return {
+    reference_date: referenceDate,
+    checked: citations.length,
+    verified: citations.filter((c) => c.verdict === "verified").length,
+    not_found: citations.filter((c) => c.verdict === "not_found").length,
+    repealed: citations.filter((c) => c.verdict === "repealed").length,
+    truncated,
+    citations,
+    ...(error ? { error } : {}),
+  };
+}
+
+/**
+ * Verify every article and case citation in a model output.
+ */
+export async function verifyCitations(
+  supabase: SupabaseClient,
+  text: string,
+  opts: VerifyCitationsOptions = {},
+): Promise<CitationVerificationReport> {
+  const referenceDate = (opts.referenceDate || new Date().toISOString()).substring(0, 10);
+  const fn = opts.fn ?? "citation-verifier";
+
+  const allRefs = extractNormRefs(text || "");
+  const allCases = extractCaseNumbers(text || "");
+  const truncated = allRefs.length + allCases.length > MAX_CITATIONS;
+  const refs = allRefs.slice(0, MAX_CITATIONS);
+  const caseNumbers = allCases.slice(0, Math.max(0, MAX_CITATIONS - refs.length));
+
+  const articleChecks: ArticleCitationCheck[] = refs.map((ref) => ({
+    type: "article", value: formatNormRef(ref), norm_ref: ref,
+    verdict: "not_found", kb_id: null, kb_title: null, reason: "article_not_found",
+  }));
+  let caseChecks: CaseCitationCheck[] = caseNumbers.map((num) => ({
+    type: "case", value: num, verdict: "not_found", practice_id: null, practice_title: null,
+  }));
+
+  if (refs.length === 0 && caseNumbers.length === 0) {
+    return summarize(referenceDate, [], false);
+  }
+
+  try {
+    if (refs.length > 0) {
+      const articles = [...new Set(refs.map((r) => r.article))];
+      const actNumbers = [...new Set(refs.map((r) => r.act_number).filter((a): a is string => !!a))];
+      const [candidates, actDocs] = await Promise.all([
+        loadArticleCandidates(supabase, articles),
+        actNumbers.length > 0 ? loadActDocIds(supabase, actNumbers) : Promise.resolve(new Map<string, Set<string>>()),
+      ]);
+      articleChecks.forEach((check) => {
+        const ref = check.norm_ref;
+        const judged = judgeArticle(
+          ref,
+          candidates.get(ref.article) ?? [],
+          ref.act_number ? actDocs.get(ref.act_number) ?? null : null,
+          referenceDate,
+        );
+        check.verdict = judged.verdict;
+        check.kb_id = judged.kb_id;
+        check.kb_title = judged.kb_title;
+        if (judged.reason) check.reason = judged.reason;
+        else delete check.reason;
+      });
+    }
+
+    if (caseNumbers.length > 0) {
+      caseChecks = await resolveCases(supabase, caseNumbers);
+    }
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    warn(fn, "Citation verification query failed", { error: message });
+    return summarize(referenceDate, [...articleChecks, ...caseChecks], truncated, message);
+  }
+
+  const report = summarize(referenceDate, [...articleChecks, ...caseChecks], truncated);
+  if (report.not_found > 0 || report.repealed > 0) {
+    warn(fn, "Unverified citations in output", {
+      checked: report.checked, not_found: report.not_found, repealed: report.repealed,
+    });
+  }
+  return report;
+}
+
+// ─── SSE pass-through ───────────────────────────────────────────────────────
+
+/**
+ * Wrap an OpenAI-style SSE body: pass every chunk through unchanged while
+ * accumulating `choices[0].delta.content`, then emit one extra event
+ *   data: {"citation_verification": <report>}
+ * right before `data: [DONE]` (or at end of stream if [DONE] never arrives).
+ */
+export function withCitationVerificationEvent(
+  body: ReadableStream<Uint8Array>,
+  supabase: SupabaseClient,
+  opts: VerifyCitationsOptions = {},
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+  let fullText = "";
+  let emitted = false;
+
+  const emitReport = async (controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (emitted) return;
+    emitted = true;
+    const report = await verifyCitations(supabase, fullText, opts);
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify({ citation_verification: report })}\n\n`));
+  };
+
+  const handleLine = async (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    const trimmed = line.replace(/\r$/, "");
+    if (trimmed.startsWith("data: ")) {
+      const payload = trimmed.slice(6).trim();
+      if (payload === "[DONE]") {
+        await emitReport(controller);
+      } else {
+        try {
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (typeof delta === "string") fullText += delta;
+        } catch { /* partial or non-JSON line — pass through */ }
+      }
+    }
+    controller.enqueue(encoder.encode(line + "\n"));
+  };
+
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      let idx: number;
+      while ((idx = buffer.indexOf("\n")) !== -1) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 1);
+        await handleLine(line, controller);
+      }
+    },
+    async flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) await handleLine(buffer, controller);
+      await emitReport(controller);
+    },
+  }));
+}
@@ -10,8 +10,12 @@
  *
  *   const vectors = await generateEmbeddings(["text 1", "text 2"]);
  *   const single  = await generateEmbedding("text 1");
+ *
+ * Honours LLM_CASSETTE_MODE (see llm-cassette.ts) for offline eval runs.
  */
 
+import { withCassette } from "./llm-cassette.ts";
+
 const DEFAULT_MODEL = "text-embedding-3-large";
 const MAX_BATCH_SIZE = 100;
 const FUNCTION_URL_ENV = "SUPABASE_URL"; // injected by Supabase runtime
@@ -35,7 +39,12 @@ export async function generateEmbeddings(
   const allVectors: number[][] = [];
   for (let i = 0; i < texts.length; i += MAX_BATCH_SIZE) {
     const batch = texts.slice(i, i + MAX_BATCH_SIZE);
-    const vectors = await callEmbeddingsFunction(batch, model, dimensions);
+    const vectors = await withCassette(
+      "embeddings",
+      "embeddings-generate",
+      { texts: batch, model, dimensions },
+      () => callEmbeddingsFunction(batch, model, dimensions),
+    );
     allVectors.push(...vectors);
   }
   return allVectors;
@@ -2,7 +2,8 @@
 // RAG Evaluation Test Harness
 // Tests vector-search endpoint against 20 golden queries.
 // Assertions: JSON validity, citation presence, no hallucinated norms
-// Metrics:    retrieval hit rate, grounded rate, temporal compliance
+// Metrics:    retrieval hit rate, grounded rate, temporal compliance,
+//             per-stage ablation of the hybrid pipeline (grounded rate, MRR)
 // =============================================================================
 
 import "https://deno.land/std@0.224.0/dotenv/load.ts";
@@ -54,11 +55,15 @@ interface EvalResult {
 // Helpers
 // ---------------------------------------------------------------------------
 
-async function runSearch(fixture: GoldenFixture): Promise<{ response: Response; latencyMs: number }> {
+async function runSearch(
+  fixture: GoldenFixture,
+  overrides: Record<string, unknown> = {},
+): Promise<{ response: Response; latencyMs: number }> {
   const body: Record<string, unknown> = {
     query: fixture.query,
     tables: fixture.tables,
     limit: 10,
+    ...overrides,
   };
   if (fixture.category) body.category = fixture.category;
   if (fixture.referenceDate) body.reference_date = fixture.referenceDate;
@@ -375,3 +380,76 @@ Deno.test("eval: empty query returns 400", async () => {
   const data = JSON.parse(text);
   assert("error" in data, "Error response should have error key");
 });
+
+// ---------------------------------------------------------------------------
+// Stage ablation: hybrid fusion vs single retrieval stages
+// ---------------------------------------------------------------------------
+
+interface AblationConfig {
+  label: string;
+  body: Record<string, unknown>;
+}
+
+const ABLATION_CONFIGS: AblationConfig[] = [
+  { label: "bm25 only", body: { stages: ["bm25"], rerank: false } },
+  { label: "lemma only", body: { stages: ["lemma"], rerank: false } },
+  { label: "trigram only", body: { stages: ["trigram"], rerank: false } },
+  { label: "vector only", body: { stages: ["vector"], rerank: false } },
+  { label: "hybrid (RRF)", body: { rerank: false } },
+  { label: "hybrid + rerank", body: { rerank: true } },
+];
+
+/** 1 / rank of the first result matching an expected norm pattern (0 = none) */
+function reciprocalRank(fixture: GoldenFixture, data: SearchResult): number {
+  const ranked = [...(data.kb || []), ...(data.practice || [])];
+  const idx = ranked.findIndex((r) =>
+    fixture.expectedNormPatterns.some((p) => p.test(`${r.title} ${r.content_text}`))
+  );
+  return idx < 0 ? 0 : 1 / (idx + 1);
+}
+
+async function evaluateConfig(
+  config: AblationConfig,
+  fixtures: GoldenFixture[],
+): Promise<{ groundedRate: number; mrr: number }> {
+  let grounded = 0;
+  let rrSum = 0;
+  for (const f of fixtures) {
+    const { response } = await runSearch(f, config.body);
+    const text = await response.text();
+    if (response.ok) {
+      const rr = reciprocalRank(f, JSON.parse(text));
+      if (rr > 0) grounded++;
+      rrSum += rr;
+    }
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  return { groundedRate: grounded / fixtures.length, mrr: rrSum / fixtures.length };
+}
+
+Deno.test("eval: hybrid fusion grounds at least as well as keyword-only retrieval", async () => {
+  const fixtures = GOLDEN_FIXTURES.filter((f) => f.expectedNormPatterns.length > 0);
+  if (fixtures.length === 0) return;
+
+  const rows: Array<{ label: string; groundedRate: number; mrr: number }> = [];
+  for (const config of ABLATION_CONFIGS) {
+    rows.push({ label: config.label, ...(await evaluateConfig(config, fixtures)) });
+  }
+
+  console.log([
+    "-".repeat(72),
+    "  STAGE ABLATION (" + fixtures.length + " fixtures with expected norms)",
+    "-".repeat(72),
+    ...rows.map((r) =>
+      `${r.label.padEnd(18)} grounded=${(r.groundedRate * 100).toFixed(1).padStart(5)}%  MRR=${r.mrr.toFixed(3)}`
+    ),
+  ].join("\n"));
+
+  // bm25 over tsv is the old keyword path; fusion must not lose what it finds
+  const bm25 = rows.find((r) => r.label === "bm25 only")!;
+  const hybrid = rows.find((r) => r.label === "hybrid (RRF)")!;
+  assert(
+    hybrid.groundedRate >= bm25.groundedRate,
+    `Hybrid grounded rate ${hybrid.groundedRate} below bm25-only ${bm25.groundedRate}`,
+  );
+});
@@ -100,10 +100,11 @@ Deno.test("MODEL_MAP covers all expected functions", () => {
     "generate-document",
     "extract-case-fields",
     "kb-search-assistant",
+    "transcript-contradictions",
     "audio-transcribe",
     "echr-translate",
     "legal-practice-enrich",
-    "vector-search-rerank",
+    "rag-rerank",
     "ocr-process",
     "kb-scrape-batch",
     "kb-fetch-pdf-content",
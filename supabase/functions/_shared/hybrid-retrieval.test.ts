@@ -0,0 +1,89 @@
+// =============================================================================
+// Hybrid Retrieval — Test Suite
+// Pure fusion / rerank helpers; the stage RPCs are covered by eval-rag.test.ts.
+// =============================================================================
+
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  applyRerankScores,
+  legacyRetrievalMode,
+  parseRerankScores,
+  reciprocalRankFusion,
+  RRF_K,
+} from "./hybrid-retrieval.ts";
+
+const hits = (...ids: string[]) => ids.map((id, i) => ({ id, score: 1 - i / 10 }));
+
+// ---------------------------------------------------------------------------
+// reciprocalRankFusion
+// ---------------------------------------------------------------------------
+
+Deno.test("RRF favours documents that several stages agree on", () => {
+  const fused = reciprocalRankFusion({
+    bm25: hits("a", "b", "c"),
+    vector: hits("c", "d", "b"),
+  });
+  // b: 1/62 + 1/63, c: 1/63 + 1/61 — both beat a single first place
+  assertEquals(fused.map((h) => h.id), ["c", "b", "a", "d"]);
+  assertEquals(fused[0].ranks, { bm25: 3, vector: 1 });
+  assertEquals(fused[0].scores, { bm25: 0.8, vector: 1 });
+});
+
+Deno.test("RRF score is the weighted sum of 1/(k + rank)", () => {
+  const fused = reciprocalRankFusion(
+    { bm25: hits("a"), trigram: hits("a") },
+    { bm25: 1, trigram: 0.5, vector: 1 },
+  );
+  const expected = 1 / (RRF_K + 1) + 0.5 / (RRF_K + 1);
+  assert(Math.abs(fused[0].rrf - expected) < 1e-12);
+});
+
+Deno.test("RRF ignores duplicate ids within one stage and empty stages", () => {
+  const fused = reciprocalRankFusion({ bm25: hits("a", "a", "b"), trigram: [], vector: undefined });
+  assertEquals(fused.map((h) => [h.id, h.ranks.bm25]), [["a", 1], ["b", 2]]);
+});
+
+Deno.test("RRF breaks ties by best single-stage rank, then first appearance", () => {
+  const fused = reciprocalRankFusion({ bm25: hits("a", "b"), vector: hits("b", "a") });
+  // Equal rrf and equal best rank: a appeared first
+  assertEquals(fused.map((h) => h.id), ["a", "b"]);
+});
+
+Deno.test("RRF accepts caller-defined lists (e.g. a chunk ranking)", () => {
+  const fused = reciprocalRankFusion<"chunks" | "bm25">(
+    { chunks: hits("x", "y"), bm25: hits("y") },
+    { chunks: 1 },
+  );
+  assertEquals(fused.map((h) => h.id), ["y", "x"]);
+  assertEquals(fused[0].ranks, { chunks: 2, bm25: 1 });
+});
+
+// ---------------------------------------------------------------------------
+// Rerank
+// ---------------------------------------------------------------------------
+
+Deno.test("parseRerankScores maps indices to ids and scales to 0-1", () => {
+  const scores = parseRerankScores(
+    { scores: [{ idx: 1, score: 9 }, { idx: 0, score: "4" }, { idx: 7, score: 10 }, { idx: 2, score: null }, { score: 3 }] },
+    ["a", "b", "c"],
+  );
+  assertEquals([...scores.entries()], [["b", 0.9], ["a", 0.4]]);
+});
+
+Deno.test("parseRerankScores tolerates malformed output", () => {
+  assertEquals(parseRerankScores(null, ["a"]).size, 0);
+  assertEquals(parseRerankScores({ scores: "none" }, ["a"]).size, 0);
+  assertEquals(parseRerankScores({ scores: [{ idx: 0, score: 42 }] }, ["a"]).get("a"), 1);
+});
+
+Deno.test("applyRerankScores orders by score, keeps RRF order for ties and unscored", () => {
+  const items = [{ id: "a" }, { id: "b" }, { id: "c" }, { id: "d" }];
+  const ordered = applyRerankScores(items, new Map([["c", 0.9], ["a", 0.5], ["b", 0.5]]));
+  assertEquals(ordered.map((i) => i.id), ["c", "a", "b", "d"]);
+});
+
+Deno.test("legacyRetrievalMode keeps the values existing consumers accept", () => {
+  assertEquals(legacyRetrievalMode(3, { requested: true, applied: true, candidates: 15 }), "keyword+rerank");
+  assertEquals(legacyRetrievalMode(3, { requested: true, applied: false, candidates: 15 }), "keyword_only");
+  assertEquals(legacyRetrievalMode(0, { requested: false, applied: false, candidates: 0 }), "rpc_fallback");
+});
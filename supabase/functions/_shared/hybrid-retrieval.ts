@@ -0,0 +1,450 @@
+// =============================================================================
+// HYBRID RETRIEVAL — BM25 + trigram + vector stages fused with RRF
+// Used by: rag-search (searchKB, searchPractice), vector-search, kb-unified-search
+// =============================================================================
+//
+// One pipeline per index (knowledge_base or legal_practice_kb), never across
+// them — the INDEX SEPARATION RULE in rag-search.ts still holds:
+//
+//   1. Stages run in parallel, each producing its own ranked id list:
+//        bm25     search_kb_bm25 / search_practice_bm25 (ts_rank_cd over tsv,
+//                 query words expanded to all dictionary forms)
+//        lemma    search_kb_lemma (KB only: chunks indexed by Armenian lemma)
+//        trigram  search_kb_trigram / search_practice_trigram (pg_trgm)
+//        vector   match_knowledge_base / match_legal_practice (768-d)
+//   2. Reciprocal rank fusion: rrf(d) = Σ weight_s / (RRF_K + rank_s(d)).
+//      Ranks, not raw scores, are fused, so ts_rank_cd, word similarity and
+//      cosine similarity never have to share a scale.
+//   3. Optional pointwise rerank of the fused top-N through callJSON
+//      ("rag-rerank"): the model scores every candidate 0-10 against the
+//      query, like a cross-encoder would; ties keep their RRF order.
+//
+// A failing stage contributes an empty list and is reported in `stages`;
+// a failing rerank leaves the RRF order. Every result carries the score and
+// rank of each stage in `retrieval_scores` for debugging.
+// =============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import type {
+  KBSearchResult,
+  PracticeSearchResult,
+  RetrievalScores,
+  RetrievalStage,
+  StageReport,
+} from "./rag-types.ts";
+import { generateEmbedding, vectorToString } from "./embeddings.ts";
+import { callJSON } from "./openai-router.ts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type { RetrievalScores, RetrievalStage, StageReport };
+
+export type RetrievalIndex = "kb" | "practice";
+
+export const RETRIEVAL_STAGES: RetrievalStage[] = ["bm25", "lemma", "trigram", "vector"];
+
+/** Stages each index supports; others are skipped, not reported as failed */
+export const INDEX_STAGES: Record<RetrievalIndex, RetrievalStage[]> = {
+  kb: RETRIEVAL_STAGES,
+  practice: ["bm25", "trigram", "vector"],
+};
+
+export interface RankedHit {
+  id: string;
+  score: number;
+}
+
+export interface FusedHit<K extends string = RetrievalStage> {
+  id: string;
+  /** Reciprocal rank fusion score */
+  rrf: number;
+  /** 1-based rank per list that returned the document */
+  ranks: Partial<Record<K, number>>;
+  /** Raw score per list that returned the document */
+  scores: Partial<Record<K, number>>;
+}
+
+export interface RerankReport {
+  requested: boolean;
+  applied: boolean;
+  candidates: number;
+  latency_ms?: number;
+  error?: string;
+}
+
+export type HybridKBResult = KBSearchResult & {
+  effective_from?: string | null;
+  effective_to?: string | null;
+  retrieval_scores: RetrievalScores;
+};
+
+export type HybridPracticeResult = PracticeSearchResult & { retrieval_scores: RetrievalScores };
+
+export interface HybridSearchOptions {
+  /** Supabase client (service_role, or a user client for RLS-scoped reads) */
+  supabase: SupabaseClient;
+  query: string;
+  /** Max results (default: 10) */
+  limit?: number;
+  /** kb_category (KB) or practice_category (practice) filter */
+  category?: string | null;
+  /** KB only: legislation in force on this date (YYYY-MM-DD) */
+  referenceDate?: string | null;
+  /** Stages to run (default: all) */
+  stages?: RetrievalStage[];
+  /** Per-stage candidate count (default: 30) */
+  candidateLimit?: number;
+  /** Precomputed query embedding (see embedQuery); undefined = embed here, null = skip vector stage */
+  queryVector?: string | null;
+  /** Run the LLM rerank stage (default: false) */
+  rerank?: boolean;
+  /** Fused candidates passed to the reranker (default: max(limit * 2, 15)) */
+  rerankTopN?: number;
+  /** Caller whose quotas apply to the rerank call */
+  userId?: string | null;
+  requestId?: string;
+}
+
+export interface HybridSearchResult<T> {
+  results: T[];
+  stages: StageReport[];
+  rerank: RerankReport;
+  /** Set when the fused candidates could not be loaded */
+  error?: string;
+}
+
+// ─── Configuration ──────────────────────────────────────────────────────────
+
+/** Standard RRF constant (Cormack et al.): damps the weight of top ranks */
+export const RRF_K = 60;
+
+/** Trigram only matches titles/summaries, so it votes at half weight */
+export const DEFAULT_STAGE_WEIGHTS: Record<RetrievalStage, number> = {
+  bm25: 1,
+  lemma: 1,
+  trigram: 0.5,
+  vector: 1,
+};
+
+const DEFAULT_CANDIDATE_LIMIT = 30;
+const VECTOR_MATCH_THRESHOLD = 0.3;
+const EMBEDDING_DIMENSIONS = 768;
+const RERANK_SNIPPET_CHARS = 600;
+const RERANK_TIMEOUT_MS = 20000;
+
+const KB_SELECT_COLUMNS =
+  "id, title, content_text, category, source_name, version_date, effective_from, effective_to";
+
+export const PRACTICE_SELECT_COLUMNS =
+  "id, title, content_text, practice_category, court_type, outcome, legal_reasoning_summary, applied_articles, key_violations, decision_date, case_number_anonymized, court_name, key_paragraphs";
+
+// ─── Fusion ─────────────────────────────────────────────────────────────────
+
+/**
+ * Reciprocal rank fusion of ranked lists (one per stage; callers may add their
+ * own lists, e.g. a chunk ranking). Lists without a weight count at 1. Ties
+ * are broken by the best single-list rank, then by first appearance.
+ */
+export function reciprocalRankFusion<K extends string = RetrievalStage>(
+  lists: Partial<Record<K, RankedHit[]>>,
+  weights: Partial<Record<K, number>> = DEFAULT_STAGE_WEIGHTS as Partial<Record<K, number>>,
+  k = RRF_K,
+): FusedHit<K>[] {
+  const fused = new Map<string, FusedHit<K> & { order: number }>();
+  let order = 0;
+
+  for (const stage of Object.keys(lists) as K[]) {
+    const hits = lists[stage];
+    if (!hits?.length) continue;
+    const weight = weights[stage] ?? 1;
+    const seen = new Set<string>();
+    let rank = 0;
+    for (const hit of hits) {
+      if (!hit.id || seen.has(hit.id)) continue;
+      seen.add(hit.id);
+      rank++;
+      let entry = fused.get(hit.id);
+      if (!entry) {
+        entry = { id: hit.id, rrf: 0, ranks: {}, scores: {}, order: order++ };
+        fused.set(hit.id, entry);
+      }
+      entry.rrf += weight / (k + rank);
+      entry.ranks[stage] = rank;
+      entry.scores[stage] = hit.score;
+    }
+  }
+
+  const bestRank = (h: FusedHit<K>) => Math.min(...(Object.values(h.ranks) as number[]));
+  return [...fused.values()]
+    .sort((a, b) => b.rrf - a.rrf || bestRank(a) - bestRank(b) || a.order - b.order)
+    .map(({ order: _order, ...hit }) => hit);
+}
+
+/**
+ * Reorder by rerank score (desc); unscored candidates follow in their original
+ * order. The sort is stable, so equal scores keep the RRF order.
+ */
+export function applyRerankScores<T extends { id: string }>(items: T[], rerankScores: Map<string, number>): T[] {
+  const scored = items.filter((i) => rerankScores.has(i.id));
+  const unscored = items.filter((i) => !rerankScores.has(i.id));
+  scored.sort((a, b) => rerankScores.get(b.id)! - rerankScores.get(a.id)!);
+  return [...scored, ...unscored];
+}
+
+/** Validate the rerank model output: {scores: [{idx, score 0-10}]} → id → 0-1 */
+export function parseRerankScores(json: unknown, candidateIds: string[]): Map<string, number> {
+  const out = new Map<string, number>();
+  const scores = (json as { scores?: unknown } | null)?.scores;
+  if (!Array.isArray(scores)) return out;
+  for (const entry of scores) {
+    const e = entry as { idx?: unknown; score?: unknown } | null;
+    const idx = Number(e?.idx ?? NaN);
+    const score = Number(e?.score ?? NaN);
+    if (!Number.isInteger(idx) || idx < 0 || idx >= candidateIds.length) continue;
+    if (!Number.isFinite(score)) continue;
+    const id = candidateIds[idx];
+    if (!out.has(id)) out.set(id, Math.min(Math.max(score, 0), 10) / 10);
+  }
+  return out;
+}
+
+/** Legacy retrieval_mode value kept in responses for existing consumers */
+export function legacyRetrievalMode(
+  resultCount: number,
+  rerank: RerankReport,
+): "keyword+rerank" | "keyword_only" | "rpc_fallback" {
+  if (rerank.applied) return "keyword+rerank";
+  return resultCount > 0 ? "keyword_only" : "rpc_fallback";
+}
+
+// ─── Stages ─────────────────────────────────────────────────────────────────
+
+/** Query embedding in the format the match_* RPCs expect; null if the embeddings service fails */
+export async function embedQuery(query: string): Promise<string | null> {
+  try {
+    return vectorToString(await generateEmbedding(query, undefined, EMBEDDING_DIMENSIONS));
+  } catch (e) {
+    console.warn(`[hybrid-retrieval] Query embedding failed: ${e instanceof Error ? e.message : String(e)}`);
+    return null;
+  }
+}
+
+async function runStage(
+  supabase: SupabaseClient,
+  index: RetrievalIndex,
+  stage: RetrievalStage,
+  opts: HybridSearchOptions,
+  limit: number,
+  queryVector: string | null,
+): Promise<RankedHit[]> {
+  const category = opts.category || null;
+  const referenceDate = opts.referenceDate || null;
+
+  let rpc: string;
+  let params: Record<string, unknown>;
+  if (stage === "vector") {
+    if (!queryVector) throw new Error("no query embedding");
+    rpc = index === "kb" ? "match_knowledge_base" : "match_legal_practice";
+    params = { query_embedding: queryVector, match_count: limit, match_threshold: VECTOR_MATCH_THRESHOLD };
+    if (index === "practice") params.category_filter = category;
+  } else {
+    rpc = `search_${index}_${stage}`;
+    params = index === "kb"
+      ? { _query: opts.query, _limit: limit, _reference_date: referenceDate, _category: category }
+      : { _query: opts.query, _limit: limit, _category: category };
+  }
+
+  const { data, error } = await supabase.rpc(rpc, params);
+  if (error) throw new Error(`${rpc}: ${error.message}`);
+  return ((data ?? []) as Array<{ id: string; score?: number; similarity?: number }>).map((r) => ({
+    id: r.id,
+    score: Number(r.score ?? r.similarity ?? 0),
+  }));
+}
+
+/**
+ * Run the candidate stages for one index. Never throws: a failed stage is an
+ * empty list plus an error in its report.
+ */
+export async function fetchStageRankings(
+  index: RetrievalIndex,
+  opts: HybridSearchOptions,
+): Promise<{ lists: Partial<Record<RetrievalStage, RankedHit[]>>; stages: StageReport[] }> {
+  const stages = (opts.stages?.length ? opts.stages : RETRIEVAL_STAGES)
+    .filter((s) => INDEX_STAGES[index].includes(s));
+  const limit = opts.candidateLimit ?? DEFAULT_CANDIDATE_LIMIT;
+  const queryVector = !stages.includes("vector")
+    ? null
+    : opts.queryVector === undefined ? await embedQuery(opts.query) : opts.queryVector;
+
+  const settled = await Promise.all(stages.map(async (stage) => {
+    const started = Date.now();
+    try {
+      const hits = await runStage(opts.supabase, index, stage, opts, limit, queryVector);
+      return { stage, hits, report: { stage, ok: true, count: hits.length, latency_ms: Date.now() - started } };
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      return { stage, hits: [] as RankedHit[], report: { stage, ok: false, count: 0, latency_ms: Date.now() - started, error } };
+    }
+  }));
+
+  const lists: Partial<Record<RetrievalStage, RankedHit[]>> = {};
+  for (const s of settled) lists[s.stage] = s.hits;
+  return { lists, stages: settled.map((s) => s.report) };
+}
+
+// ─── Hydration ──────────────────────────────────────────────────────────────
+
+function toRetrievalScores(hit: FusedHit, rerank: number | null): RetrievalScores {
+  return {
+    bm25: hit.scores.bm25 ?? null,
+    lemma: hit.scores.lemma ?? null,
+    trigram: hit.scores.trigram ?? null,
+    vector: hit.scores.vector ?? null,
+    rrf: hit.rrf,
+    rerank,
+    ranks: hit.ranks,
+  };
+}
+
+/** Load full rows for fused ids, preserving fused order */
+async function hydrate(
+  supabase: SupabaseClient,
+  index: RetrievalIndex,
+  hits: FusedHit[],
+  referenceDate: string | null,
+): Promise<Array<HybridKBResult | HybridPracticeResult>> {
+  if (hits.length === 0) return [];
+  const { data, error } = await supabase
+    .from(index === "kb" ? "knowledge_base" : "legal_practice_kb")
+    .select(index === "kb" ? KB_SELECT_COLUMNS : PRACTICE_SELECT_COLUMNS)
+    .in("id", hits.map((h) => h.id))
+    .eq("is_active", true);
+  if (error) throw new Error(`Hydration failed: ${error.message}`);
+
+  const rows = new Map<string, Record<string, unknown>>(
+    ((data ?? []) as Array<Record<string, unknown>>).map((r) => [r.id as string, r]),
+  );
+
+  const out: Array<HybridKBResult | HybridPracticeResult> = [];
+  for (const hit of hits) {
+    const row = rows.get(hit.id);
+    if (!row) continue;
+    const base = {
+      similarity: hit.scores.vector,
+      score: hit.rrf,
+      retrieval_scores: toRetrievalScores(hit, null),
+    };
+    if (index === "kb") {
+      // The vector stage has no temporal filter; apply it here for all stages
+      const from = row.effective_from as string | null;
+      const to = row.effective_to as string | null;
+      if (referenceDate && ((from && from > referenceDate) || (to && to < referenceDate))) continue;
+      out.push({ ...row, ...base } as HybridKBResult);
+    } else {
+      out.push({ ...row, ...base, case_number: row.case_number_anonymized as string | undefined } as HybridPracticeResult);
+    }
+  }
+  return out;
+}
+
+// ─── Rerank ─────────────────────────────────────────────────────────────────
+
+const RERANK_SCHEMA = { scores: [] };
+
+async function rerankCandidates(
+  query: string,
+  candidates: Array<HybridKBResult | HybridPracticeResult>,
+  opts: HybridSearchOptions,
+): Promise<Map<string, number>> {
+  const items = candidates.map((c, idx) => {
+    const practice = c as HybridPracticeResult;
+    const text = practice.legal_reasoning_summary || c.content_text || "";
+    return `[${idx}] ${c.title}\n${text.replace(/\s+/g, " ").substring(0, RERANK_SNIPPET_CHARS)}`;
+  });
+
+  const result = await callJSON<{ scores: Array<{ idx: number; score: number }> }>(
+    "rag-rerank",
+    [
+      {
+        role: "system",
+        content:
+          "You judge how relevant each candidate legal document is to a search query. " +
+          "Score every candidate independently from 0 (unrelated) to 10 (directly answers the query), " +
+          "considering legal terminology, cited articles and the legal issue, not just shared words. " +
+          'Return {"scores": [{"idx": <candidate index>, "score": <0-10>}]} with one entry per candidate.',
+      },
+      {
+        role: "user",
+        content: `Query: ${query}\n\nCandidates:\n\n${items.join("\n\n")}`,
+      },
+    ],
+    RERANK_SCHEMA,
+    {
+      timeoutMs: RERANK_TIMEOUT_MS,
+      userId: opts.userId ?? null,
+      usageMetadata: { request_id: opts.requestId ?? null, candidates: candidates.length },
+    },
+  );
+
+  return parseRerankScores(result.json, candidates.map((c) => c.id));
+}
+
+// ─── Pipeline ───────────────────────────────────────────────────────────────
+
+/**
+ * Full pipeline for one index: stages → RRF → hydrate → optional rerank.
+ * Never throws: stage and rerank failures degrade, a hydration failure
+ * returns no results with `error` set.
+ */
+export async function hybridSearch(index: "kb", opts: HybridSearchOptions): Promise<HybridSearchResult<HybridKBResult>>;
+export async function hybridSearch(index: "practice", opts: HybridSearchOptions): Promise<HybridSearchResult<HybridPracticeResult>>;
+export async function hybridSearch(
+  index: RetrievalIndex,
+  opts: HybridSearchOptions,
+): Promise<HybridSearchResult<HybridKBResult | HybridPracticeResult>> {
+  const limit = Math.max(opts.limit ?? 10, 1);
+  const { lists, stages } = await fetchStageRankings(index, opts);
+  const fused = reciprocalRankFusion(lists);
+
+  const rerankTopN = opts.rerank ? Math.max(opts.rerankTopN ?? limit * 2, 15, limit) : limit;
+  const rerank: RerankReport = { requested: !!opts.rerank, applied: false, candidates: 0 };
+
+  // Over-fetch a little: hydration drops inactive rows and out-of-date legislation
+  let candidates: Array<HybridKBResult | HybridPracticeResult>;
+  try {
+    candidates = await hydrate(
+      opts.supabase,
+      index,
+      fused.slice(0, rerankTopN + 5),
+      index === "kb" ? opts.referenceDate || null : null,
+    );
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    console.warn(`[hybrid-retrieval] ${index}: ${error}`);
+    return { results: [], stages, rerank, error };
+  }
+  const pool = candidates.slice(0, rerankTopN);
+
+  let ordered = pool;
+  if (opts.rerank && pool.length > 1) {
+    const started = Date.now();
+    rerank.candidates = pool.length;
+    try {
+      const scores = await rerankCandidates(opts.query, pool, opts);
+      if (scores.size > 0) {
+        ordered = applyRerankScores(pool, scores);
+        for (const item of ordered) item.retrieval_scores.rerank = scores.get(item.id) ?? null;
+        rerank.applied = true;
+      } else {
+        rerank.error = "Rerank returned no usable scores";
+      }
+    } catch (e) {
+      rerank.error = e instanceof Error ? e.message : String(e);
+      console.warn(`[hybrid-retrieval] Rerank failed, keeping RRF order: ${rerank.error}`);
+    }
+    rerank.latency_ms = Date.now() - started;
+  }
+
+  return { results: ordered.slice(0, limit), stages, rerank };
+}
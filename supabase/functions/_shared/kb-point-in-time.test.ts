@@ -0,0 +1,72 @@
+// =============================================================================
+// KB Point-in-Time \u2014 Test Suite
+// All Armenian text represented as Unicode escapes per project standards.
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  articleFromLabel,
+  extractArticleText,
+  pickVersionAsOf,
+  type KBVersionRow,
+} from "./kb-point-in-time.ts";
+
+// "\u0540\u0578\u0564\u057e\u0561\u056e" = "hodvac" (Article), "\u0574\u0561\u057d" = "mas" (part)
+const ART = "\u0540\u0578\u0564\u057e\u0561\u056e";
+const PART = "\u0574\u0561\u057d";
+
+const v = (version_number: number, version_date: string | null, content_text = `text v${version_number}`): KBVersionRow => ({
+  kb_id: "kb-1",
+  version_number,
+  version_date,
+  title: "Criminal Code",
+  content_text,
+  article_number: null,
+});
+
+// ---------------------------------------------------------------------------
+// pickVersionAsOf
+// ---------------------------------------------------------------------------
+
+Deno.test("picks the latest version dated on or before asOfDate", () => {
+  const versions = [v(1, "2003-08-01"), v(2, "2015-01-01"), v(3, "2022-07-01")];
+  assertEquals(pickVersionAsOf(versions, "2014-12-31", 3)?.version_number, 1);
+  assertEquals(pickVersionAsOf(versions, "2015-01-01", 3)?.version_number, 2);
+  const cur = pickVersionAsOf(versions, "2026-01-01", 3);
+  assertEquals(cur?.version_number, 3);
+  assertEquals(cur?.is_current, true);
+  assertEquals(pickVersionAsOf(versions, "2016-05-05", 3)?.is_current, false);
+});
+
+Deno.test("breaks same-date ties by version number", () => {
+  const versions = [v(1, "2020-01-01"), v(2, "2020-01-01")];
+  assertEquals(pickVersionAsOf(versions, "2021-01-01", 2)?.version_number, 2);
+});
+
+Deno.test("returns null before the first dated version", () => {
+  assertEquals(pickVersionAsOf([v(1, "2020-01-01")], "2019-12-31", 1), null);
+});
+
+Deno.test("falls back to undated versions", () => {
+  const picked = pickVersionAsOf([v(1, null), v(2, "2030-01-01")], "2026-01-01", 2);
+  assertEquals(picked?.version_number, 1);
+  assertEquals(picked?.dated, false);
+});
+
+// ---------------------------------------------------------------------------
+// Article extraction
+// ---------------------------------------------------------------------------
+
+Deno.test("extractArticleText cuts one article out of a code", () => {
+  const code = `Preamble\n${ART} 1. Scope\nscope text\n${ART} 2\u0589 Terms\nterms text\n${ART} 3. Other\nother`;
+  assertEquals(extractArticleText(code, "2"), `${ART} 2\u0589 Terms\nterms text`);
+  assertEquals(extractArticleText(code, "3"), `${ART} 3. Other\nother`);
+  assertEquals(extractArticleText(code, "9"), null);
+});
+
+Deno.test("articleFromLabel reads chunk labels", () => {
+  assertEquals(articleFromLabel(`${ART} 12`), "12");
+  assertEquals(articleFromLabel(`${ART} 104.1, ${PART} 3`), "104.1");
+  assertEquals(articleFromLabel("Preamble"), null);
+  assertEquals(articleFromLabel(null), null);
+});
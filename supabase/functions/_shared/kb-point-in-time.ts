@@ -0,0 +1,148 @@
+// =============================================================================
+// KB POINT-IN-TIME — Resolve the legislation text in force on a given date
+// Used by: rag-search (searchKB asOfDate), kb-unified-search
+// =============================================================================
+//
+// knowledge_base holds the current text; kb_versions holds every previous text
+// (written by the track_kb_version trigger on update) together with the
+// version_date it carried. The text in force on D is the version with the
+// greatest version_date <= D (ties: highest version_number).
+//
+// Undated versions are only used when no dated version qualifies. If every
+// dated version starts after D and there is no undated one, the document was
+// not yet in force and resolves to null.
+// =============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface KBVersionRow {
+  kb_id: string;
+  version_number: number;
+  version_date: string | null;
+  title: string;
+  content_text: string;
+  article_number: string | null;
+}
+
+export interface KBTextAsOf extends KBVersionRow {
+  /** True if the resolved text is the current knowledge_base row */
+  is_current: boolean;
+  /** False when the choice fell back to an undated version */
+  dated: boolean;
+}
+
+// ─── Pure resolution ────────────────────────────────────────────────────────
+
+/**
+ * Pick the version in force on `asOfDate` (YYYY-MM-DD) among all versions of
+ * one document. `currentVersionNumber` identifies the knowledge_base row.
+ */
+export function pickVersionAsOf(
+  versions: KBVersionRow[],
+  asOfDate: string,
+  currentVersionNumber: number,
+): KBTextAsOf | null {
+  const asOf = asOfDate.substring(0, 10);
+  const byRecency = (a: KBVersionRow, b: KBVersionRow) => b.version_number - a.version_number;
+
+  const dated = versions
+    .filter((v) => v.version_date && v.version_date.substring(0, 10) <= asOf)
+    .sort((a, b) => {
+      const d = b.version_date!.localeCompare(a.version_date!);
+      return d !== 0 ? d : byRecency(a, b);
+    });
+  if (dated.length > 0) {
+    return { ...dated[0], is_current: dated[0].version_number === currentVersionNumber, dated: true };
+  }
+
+  const undated = versions.filter((v) => !v.version_date).sort(byRecency);
+  if (undated.length > 0) {
+    return { ...undated[0], is_current: undated[0].version_number === currentVersionNumber, dated: false };
+  }
+
+  return null;
+}
+
+// \u0540\u0578\u0564\u057e\u0561\u056e N. / \u0540\u0578\u0564\u057e\u0561\u056e N\u0589 (same header shapes as chunker.ts)
+const ARTICLE_HEADER_RE = /\u0540\u0578\u0564\u057e\u0561\u056e\s+(\d+(?:[.-]\d+)*)\s*[.\u0589]/g;
+
+/**
+ * Cut the text of one article out of a whole-code document:
+ * from its "\u0540\u0578\u0564\u057e\u0561\u056e N." header up to the next article header.
+ * Returns null if the header is not present.
+ */
+export function extractArticleText(content: string, article: string): string | null {
+  const headers = [...content.matchAll(ARTICLE_HEADER_RE)];
+  const idx = headers.findIndex((m) => m[1] === article);
+  if (idx === -1) return null;
+  const start = headers[idx].index!;
+  const end = idx + 1 < headers.length ? headers[idx + 1].index! : content.length;
+  return content.substring(start, end).trim();
+}
+
+/** Article number from a chunk label ("\u0540\u0578\u0564\u057e\u0561\u056e 12" / "\u0540\u0578\u0564\u057e\u0561\u056e 12, \u0574\u0561\u057d 3") */
+export function articleFromLabel(label: string | null | undefined): string | null {
+  if (!label) return null;
+  const m = label.match(/^\u0540\u0578\u0564\u057e\u0561\u056e\s+(\d+(?:[.-]\d+)*)/);
+  return m ? m[1] : null;
+}
+
+// ─── DB resolution ──────────────────────────────────────────────────────────
+
+/**
+ * Resolve the text in force on `asOfDate` for a set of KB documents.
+ * Documents missing from the result were not yet in force on that date.
+ * kb_versions is RLS-restricted to admins/lawyers: with a user-scoped client
+ * other users only see the current row, which then wins by default.
+ */
+export async function fetchKBTextAsOf(
+  supabase: SupabaseClient,
+  kbIds: string[],
+  asOfDate: string,
+): Promise<Map<string, KBTextAsOf>> {
+  const out = new Map<string, KBTextAsOf>();
+  if (kbIds.length === 0) return out;
+
+  const [currentRes, historyRes] = await Promise.all([
+    supabase
+      .from("knowledge_base")
+      .select("id, title, content_text, article_number, version_date, current_version")
+      .in("id", kbIds),
+    supabase
+      .from("kb_versions")
+      .select("kb_id, version_number, version_date, title, content_text, article_number")
+      .in("kb_id", kbIds),
+  ]);
+  if (currentRes.error) throw new Error(`knowledge_base lookup failed: ${currentRes.error.message}`);
+  if (historyRes.error) {
+    console.warn(`[kb-point-in-time] kb_versions lookup failed: ${historyRes.error.message}`);
+  }
+
+  const versionsByKb = new Map<string, KBVersionRow[]>();
+  for (const v of (historyRes.data ?? []) as KBVersionRow[]) {
+    const list = versionsByKb.get(v.kb_id) ?? [];
+    list.push(v);
+    versionsByKb.set(v.kb_id, list);
+  }
+
+  for (const doc of currentRes.data ?? []) {
+    const currentNumber = doc.current_version ?? 1;
+    const versions: KBVersionRow[] = [
+      ...(versionsByKb.get(doc.id) ?? []),
+      {
+        kb_id: doc.id,
+        version_number: currentNumber,
+        version_date: doc.version_date,
+        title: doc.title,
+        content_text: doc.content_text,
+        article_number: doc.article_number,
+      },
+    ];
+    const picked = pickVersionAsOf(versions, asOfDate, currentNumber);
+    if (picked) out.set(doc.id, picked);
+  }
+
+  return out;
+}
@@ -0,0 +1,62 @@
+// =============================================================================
+// LLM Cassette — Test Suite
+// Run: deno test --allow-env --allow-read --allow-write supabase/functions/_shared/llm-cassette.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { CassetteMissError, requestHash, stableStringify, withCassette } from "./llm-cassette.ts";
+
+Deno.test("stableStringify sorts keys at every level and drops undefined", () => {
+  assertEquals(
+    stableStringify({ b: 1, a: { d: [2, { z: 1, y: 2 }], c: undefined } }),
+    '{"a":{"d":[2,{"y":2,"z":1}]},"b":1}',
+  );
+});
+
+Deno.test("requestHash ignores key order but not content", async () => {
+  const a = await requestHash("chat", "legal-chat", { model: "m", messages: [{ role: "user", content: "x" }] });
+  const b = await requestHash("chat", "legal-chat", { messages: [{ content: "x", role: "user" }], model: "m" });
+  const c = await requestHash("chat", "legal-chat", { model: "m", messages: [{ role: "user", content: "y" }] });
+  const d = await requestHash("embeddings", "legal-chat", { model: "m", messages: [{ role: "user", content: "x" }] });
+  assertEquals(a, b);
+  assertEquals(a === c, false);
+  assertEquals(a === d, false);
+  assertEquals(a.length, 64);
+});
+
+Deno.test("withCassette records, then replays without the live call", async () => {
+  const dir = await Deno.makeTempDir();
+  Deno.env.set("LLM_CASSETTE_DIR", dir);
+  try {
+    let liveCalls = 0;
+    const live = () => {
+      liveCalls++;
+      return Promise.resolve({ text: "recorded" });
+    };
+
+    Deno.env.set("LLM_CASSETTE_MODE", "record");
+    assertEquals(await withCassette("chat", "ai-analyze", { q: 1 }, live), { text: "recorded" });
+
+    Deno.env.set("LLM_CASSETTE_MODE", "replay");
+    assertEquals(await withCassette("chat", "ai-analyze", { q: 1 }, live), { text: "recorded" });
+    assertEquals(liveCalls, 1);
+
+    let missed = false;
+    try {
+      await withCassette("chat", "ai-analyze", { q: 2 }, live);
+    } catch (e) {
+      missed = e instanceof CassetteMissError;
+    }
+    assertEquals(missed, true);
+    assertEquals(liveCalls, 1);
+  } finally {
+    Deno.env.delete("LLM_CASSETTE_MODE");
+    Deno.env.delete("LLM_CASSETTE_DIR");
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("withCassette is a plain call when the mode is unset", async () => {
+  Deno.env.delete("LLM_CASSETTE_MODE");
+  assertEquals(await withCassette("chat", "ai-analyze", {}, () => Promise.resolve(42)), 42);
+});
@@ -0,0 +1,103 @@
+// =============================================================================
+// LLM CASSETTE — Record/replay of model responses for offline eval runs
+// Used by: openai-router.ts (chat completions), embeddings.ts (embeddings)
+// =============================================================================
+//
+// LLM_CASSETTE_MODE=record  — call the model, save the response
+// LLM_CASSETTE_MODE=replay  — serve saved responses; a missing one is an error
+// unset / anything else      — live calls, no file access (production)
+//
+// Responses are keyed by a SHA-256 of the request (kind, function name and
+// the request body with object keys sorted), and stored one file per call:
+//   $LLM_CASSETTE_DIR/<function>/<hash>.json
+//
+// Request ids, timestamps and retries are not part of the key, so a replay
+// is exact as long as the prompt and its inputs (case data, RAG hits) are.
+// =============================================================================
+
+export type CassetteMode = "off" | "record" | "replay";
+export type CassetteKind = "chat" | "embeddings";
+
+export interface CassetteEntry<T = unknown> {
+  kind: CassetteKind;
+  function_name: string;
+  request_hash: string;
+  recorded_at: string;
+  response: T;
+}
+
+const DEFAULT_DIR = "./supabase/functions/eval-runner/fixtures/cassettes";
+
+export class CassetteMissError extends Error {
+  constructor(public readonly path: string, public readonly functionName: string) {
+    super(`[llm-cassette] No recorded response for ${functionName} (${path}). Re-record with LLM_CASSETTE_MODE=record.`);
+    this.name = "CassetteMissError";
+  }
+}
+
+export function cassetteMode(): CassetteMode {
+  const mode = Deno.env.get("LLM_CASSETTE_MODE");
+  return mode === "record" || mode === "replay" ? mode : "off";
+}
+
+function cassetteDir(): string {
+  return (Deno.env.get("LLM_CASSETTE_DIR") || DEFAULT_DIR).replace(/\/+$/, "");
+}
+
+/** JSON with object keys sorted at every level, so equal requests hash equally */
+export function stableStringify(value: unknown): string {
+  if (value === null || typeof value !== "object") return JSON.stringify(value) ?? "null";
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj).filter((k) => obj[k] !== undefined).sort();
+  return `{${keys.map((k) => `${JSON.stringify(k)}:${stableStringify(obj[k])}`).join(",")}}`;
+}
+
+export async function requestHash(kind: CassetteKind, functionName: string, request: unknown): Promise<string> {
+  const data = new TextEncoder().encode(stableStringify({ kind, function_name: functionName, request }));
+  const buf = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(buf)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function cassettePath(functionName: string, hash: string): string {
+  const safeName = functionName.replace(/[^a-zA-Z0-9_-]/g, "_");
+  return `${cassetteDir()}/${safeName}/${hash}.json`;
+}
+
+/**
+ * Run `live` through the cassette. In "off" mode this is a plain call.
+ */
+export async function withCassette<T>(
+  kind: CassetteKind,
+  functionName: string,
+  request: unknown,
+  live: () => Promise<T>,
+): Promise<T> {
+  const mode = cassetteMode();
+  if (mode === "off") return live();
+
+  const hash = await requestHash(kind, functionName, request);
+  const path = cassettePath(functionName, hash);
+
+  if (mode === "replay") {
+    let raw: string;
+    try {
+      raw = await Deno.readTextFile(path);
+    } catch {
+      throw new CassetteMissError(path, functionName);
+    }
+    return (JSON.parse(raw) as CassetteEntry<T>).response;
+  }
+
+  const response = await live();
+  const entry: CassetteEntry<T> = {
+    kind,
+    function_name: functionName,
+    request_hash: hash,
+    recorded_at: new Date().toISOString(),
+    response,
+  };
+  await Deno.mkdir(path.substring(0, path.lastIndexOf("/")), { recursive: true });
+  await Deno.writeTextFile(path, JSON.stringify(entry, null, 2) + "\n");
+  return response;
+}
@@ -13,6 +13,12 @@
  *   OPENAI_TIMEOUT_MS      — optional, default 60000
  *   OPENAI_AUDIO_TIMEOUT_MS — optional, default 120000
  *   OPENAI_MAX_RETRIES     — optional, default 2
+ *   LLM_CASSETTE_MODE      — optional, record | replay (offline evals, see llm-cassette.ts)
+ *   LLM_CASSETTE_DIR       — optional, where cassette files live
+ *
+ * Pass options.userId on user-initiated calls: the caller's monthly quotas
+ * (ai-quota.ts) are checked before the call and the call is recorded in
+ * api_usage after it. An exhausted quota throws QuotaExceededError (402).
  */
 
 // ── Model map ────────────────────────────────────────────────────────────────
@@ -91,6 +97,13 @@ export const MODEL_MAP: Record<string, ModelConfig> = {
     json_mode: true,
     description: "KB keywords JSON (Gemini Pro)",
   },
+  "transcript-contradictions": {
+    model: "google/gemini-2.5-pro",
+    temperature: 0.1,
+    max_tokens: 8000,
+    json_mode: true,
+    description: "Testimony contradictions JSON (Gemini Pro)",
+  },
 
   // ── Cheap utilities (Gemini Flash) ────────────────────────────────────────
   "audio-transcribe": {
@@ -111,11 +124,12 @@ export const MODEL_MAP: Record<string, ModelConfig> = {
     max_tokens: 16000,
     description: "Enrich practice (Gemini Flash)",
   },
-  "vector-search-rerank": {
-    model: "google/gemini-2.5-flash-lite",
+  "rag-rerank": {
+    model: "google/gemini-2.5-flash",
     temperature: 0.1,
-    max_tokens: 1000,
-    description: "Rerank (Flash-lite)",
+    max_tokens: 2000,
+    json_mode: true,
+    description: "Hybrid retrieval rerank JSON (Gemini Flash)",
   },
 
   // ── Bypass-only utilities (still in MODEL_MAP to prevent model drift) ─────
@@ -238,10 +252,12 @@ const STRICT_JSON_ROLES = new Set([
   "ai-analyze:law_update_summary",
 ]);
 
-/** Functions that use callJSON with Gemini Pro (tool_calling or schema extraction) */
+/** Functions that use callJSON with Gemini (tool_calling or schema extraction) */
 const STRICT_JSON_FUNCTIONS = new Set([
   "extract-case-fields",
   "kb-search-assistant",
+  "rag-rerank",
+  "transcript-contradictions",
 ]);
 
 /** Combined set of all roleLabels/functionNames allowed to use callJSON */
@@ -357,7 +373,7 @@ const LEGAL_REASONING_FNS = new Set([
   "generate-document",
 ]);
 
-const JSON_FNS = new Set(["extract-case-fields", "kb-search-assistant"]);
+const JSON_FNS = new Set(["extract-case-fields", "kb-search-assistant", "rag-rerank"]);
 
 export const LEGAL_SAFETY_HEADER = `RULES:
 - Do not invent laws, articles, case numbers, or quotations.
@@ -397,6 +413,12 @@ export interface RouterMessage {
 export interface RouterCallOptions {
   /** Override timeout in ms (falls back to env var or default) */
   timeoutMs?: number;
+  /** Caller whose quotas apply; usage is recorded without a user when omitted */
+  userId?: string | null;
+  /** Extra request_metadata stored with the api_usage row */
+  usageMetadata?: Record<string, unknown>;
+  /** Registry prompt / variant of the system message (_shared/prompt-registry.ts) */
+  prompt?: PromptRef;
 }
 
 export interface TextResult {
@@ -408,6 +430,14 @@ export interface TextResult {
   governance: GovernanceMeta;
 }
 
+export interface StreamCallOptions extends RouterCallOptions {
+  role?: string;
+  /** Receives each content delta as it arrives */
+  onDelta: (text: string) => void;
+  /** Aborts the upstream request (client cancelled or disconnected) */
+  signal?: AbortSignal;
+}
+
 export interface JSONResult<T = unknown> {
   json: T;
   model_used: string;
@@ -422,6 +452,11 @@ export interface JSONResult<T = unknown> {
 const AI_GATEWAY = "https://ai.gateway.lovable.dev/v1/chat/completions";
 
 import { getAIProvider, resolveEndpoint } from "./ai-provider.ts";
+import { withCassette } from "./llm-cassette.ts";
+import { enforceQuota, recordUsage } from "./ai-quota.ts";
+import type { PromptRef } from "./prompt-registry.ts";
+import { readSSEData } from "./sse.ts";
+import { estimateTokens } from "./token-budget.ts";
 
 function getApiKey(): string {
   const key = Deno.env.get("LOVABLE_API_KEY");
@@ -452,11 +487,26 @@ async function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/**
+ * Gateway call, recorded or replayed when LLM_CASSETTE_MODE is set.
+ * The cassette key is the request body (model, params, messages).
+ */
+function fetchWithRetry(
+  functionName: string,
+  requestId: string,
+  body: Record<string, unknown>,
+  timeoutMs: number
+): Promise<{ data: Record<string, unknown>; latency_ms: number }> {
+  return withCassette("chat", functionName, body, () =>
+    fetchLiveWithRetry(functionName, requestId, body, timeoutMs)
+  );
+}
+
 /**
  * Core fetch with retries + exponential backoff + jitter.
  * Logs metadata only — never logs user content.
  */
-async function fetchWithRetry(
+async function fetchLiveWithRetry(
   functionName: string,
   requestId: string,
   body: Record<string, unknown>,
@@ -582,6 +632,30 @@ async function fetchWithRetry(
   throw lastError ?? new Error("[openai-router] Max retries exceeded");
 }
 
+// ── Usage metering ───────────────────────────────────────────────────────────
+
+async function meterUsage(
+  functionName: string,
+  serviceType: "llm" | "audio",
+  cfg: ModelConfig,
+  roleLabel: string,
+  requestId: string,
+  usage: TextResult["usage"],
+  options: RouterCallOptions,
+): Promise<void> {
+  await recordUsage({
+    userId: options.userId,
+    functionName,
+    serviceType,
+    model: cfg.model,
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    totalTokens: usage?.total_tokens,
+    metadata: { ...options.usageMetadata, role: roleLabel, request_id: requestId },
+    prompt: options.prompt,
+  });
+}
+
 // ── Public API ───────────────────────────────────────────────────────────────
 
 /**
@@ -636,6 +710,8 @@ export async function callText(
 
   const body = buildRequestBody(cfg, safeMessages);
 
+  await enforceQuota(options.userId, functionName);
+
   const { data, latency_ms } = await fetchWithRetry(
     functionName,
     requestId,
@@ -646,10 +722,141 @@ export async function callText(
   const choices = data.choices as Array<{ message: { content: string } }>;
   const text = choices?.[0]?.message?.content ?? "";
   const usage = data.usage as TextResult["usage"];
+  await meterUsage(functionName, "llm", cfg, roleLabel, requestId, usage, options);
 
   return { text, model_used: cfg.model, latency_ms, request_id: requestId, usage, governance };
 }
 
+/**
+ * callTextStream — callText with the completion streamed through onDelta.
+ * Same model resolution, safety header, quota check and metering as callText.
+ * No retries and no cassettes: the timeout covers the wait for response
+ * headers, after which the stream runs until it ends or options.signal fires.
+ * Usage comes from the final chunk when the provider sends it, otherwise it is
+ * estimated (usage_estimated in the api_usage metadata).
+ */
+export async function callTextStream(
+  functionName: string,
+  messages: RouterMessage[],
+  options: StreamCallOptions
+): Promise<TextResult> {
+  const roleLabel = options.role ? `${functionName}:${options.role}` : functionName;
+
+  if (STRICT_JSON_ROLES.has(roleLabel)) {
+    throw new Error(
+      `[openai-router] GOVERNANCE VIOLATION: "${roleLabel}" is a strict JSON role and MUST use callJSON, not callTextStream.`
+    );
+  }
+
+  const cfg = getModelConfig(functionName, options.role);
+  const governance = buildGovernanceMeta(cfg, roleLabel);
+  const requestId = newRequestId();
+  const safeMessages = prependSafetyHeader(functionName, messages);
+  const timeoutMs = options.timeoutMs ?? defaultTimeout(false);
+
+  await enforceQuota(options.userId, functionName);
+
+  const provider = await getAIProvider();
+  const endpoint = resolveEndpoint(provider, cfg.model);
+  const body = {
+    ...buildRequestBody(cfg, safeMessages),
+    model: endpoint.modelForApi,
+    stream: true,
+    stream_options: { include_usage: true },
+  };
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (options.signal?.aborted) controller.abort();
+  options.signal?.addEventListener("abort", onAbort);
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  const t0 = Date.now();
+  let text = "";
+  let usage: TextResult["usage"];
+  try {
+    const response = await fetch(endpoint.url, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${endpoint.apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+    clearTimeout(timer);
+
+    console.log(
+      JSON.stringify({
+        request_id: requestId,
+        function_name: functionName,
+        model_used: cfg.model,
+        status: response.status,
+        latency_ms: Date.now() - t0,
+        stream: true,
+      })
+    );
+
+    if (!response.ok || !response.body) {
+      if (response.status === 429) {
+        throw Object.assign(new Error("Rate limit exceeded. Please try again later."), { status: 429 });
+      }
+      if (response.status === 402) {
+        throw Object.assign(
+          new Error("AI credits exhausted. Please top up your Lovable Cloud balance."),
+          { status: 402 }
+        );
+      }
+      const errText = await response.text().catch(() => "");
+      throw new Error(`AI Gateway error ${response.status}: ${errText.substring(0, 200)}`);
+    }
+
+    for await (const payload of readSSEData(response.body)) {
+      let chunk: { choices?: Array<{ delta?: { content?: string } }>; usage?: TextResult["usage"] };
+      try {
+        chunk = JSON.parse(payload);
+      } catch {
+        continue;
+      }
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta === "string" && delta) {
+        text += delta;
+        options.onDelta(delta);
+      }
+      if (chunk.usage) usage = chunk.usage;
+    }
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+
+    // Metered even when cancelled: the tokens generated so far are billed
+    const metered = usage ?? {
+      prompt_tokens: safeMessages.reduce(
+        (sum, m) => sum + estimateTokens(typeof m.content === "string" ? m.content : JSON.stringify(m.content)),
+        0
+      ),
+      completion_tokens: estimateTokens(text),
+      total_tokens: 0,
+    };
+    if (!usage) metered.total_tokens = metered.prompt_tokens + metered.completion_tokens;
+    if (text || usage) {
+      await meterUsage(functionName, "llm", cfg, roleLabel, requestId, metered, {
+        ...options,
+        usageMetadata: { ...options.usageMetadata, stream: true, ...(usage ? {} : { usage_estimated: true }) },
+      });
+    }
+  }
+
+  return {
+    text,
+    model_used: cfg.model,
+    latency_ms: Date.now() - t0,
+    request_id: requestId,
+    usage,
+    governance,
+  };
+}
+
 /**
  * callJSON — JSON extraction with one auto-repair attempt + schema key validation.
  *
@@ -685,6 +892,8 @@ export async function callJSON<T = Record<string, unknown>>(
 
   const body = buildRequestBody(cfg, safeMessages);
 
+  await enforceQuota(options.userId, functionName);
+
   const { data, latency_ms } = await fetchWithRetry(
     functionName,
     requestId,
@@ -695,6 +904,7 @@ export async function callJSON<T = Record<string, unknown>>(
   const choices = data.choices as Array<{ message: { content: string } }>;
   let raw = choices?.[0]?.message?.content ?? "";
   const usage = data.usage as JSONResult["usage"];
+  await meterUsage(functionName, "llm", cfg, roleLabel, requestId, usage, options);
 
   // Strip markdown code fences
   const fenceMatch = raw.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -750,6 +960,8 @@ export async function callTranscription(
   // Use shared buildRequestBody — governance already blocks openai/*
   const body = buildRequestBody(cfg, messages);
 
+  await enforceQuota(options.userId, functionName);
+
   const { data, latency_ms } = await fetchWithRetry(
     functionName,
     requestId,
@@ -760,6 +972,7 @@ export async function callTranscription(
   const choices = data.choices as Array<{ message: { content: string } }>;
   const text = choices?.[0]?.message?.content ?? "";
   const usage = data.usage as TextResult["usage"];
+  await meterUsage(functionName, "audio", cfg, functionName, requestId, usage, options);
 
   return { text, model_used: cfg.model, latency_ms, request_id: requestId, usage, governance };
 }
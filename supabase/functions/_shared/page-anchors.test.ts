@@ -0,0 +1,78 @@
+// =============================================================================
+// Page Anchors — Test Suite
+// Run: deno test supabase/functions/_shared/page-anchors.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  checkPageAnchors,
+  formatVolumePages,
+  normalizePageAnchors,
+  splitOcrPages,
+} from "./page-anchors.ts";
+
+Deno.test("splitOcrPages splits on --- Page N --- headers", () => {
+  const text = "title line\n--- Page 1 ---\nfirst\n--- Page 2 ---\nsecond\n---page 3---\nthird";
+  assertEquals(splitOcrPages(text), [
+    { page_number: 1, text: "title line\nfirst" },
+    { page_number: 2, text: "second" },
+    { page_number: 3, text: "third" },
+  ]);
+});
+
+Deno.test("splitOcrPages merges repeated headers and ignores text without headers", () => {
+  assertEquals(splitOcrPages("no pages here"), []);
+  assertEquals(
+    splitOcrPages("--- Page 2 ---\nb\n--- Page 1 ---\na\n--- Page 2 ---\nc"),
+    [{ page_number: 1, text: "a" }, { page_number: 2, text: "b\nc" }],
+  );
+});
+
+Deno.test("normalizePageAnchors accepts numeric strings and drops junk", () => {
+  assertEquals(
+    normalizePageAnchors([
+      { volume_number: "2", page: "15" },
+      { volume_number: 2, page: 15 },
+      { volume: 1, page_number: 3 },
+      { volume_number: 1 },
+      "vol 1 p 3",
+    ]),
+    [{ volume_number: 2, page: 15 }, { volume_number: 1, page: 3 }],
+  );
+  assertEquals(normalizePageAnchors(undefined), []);
+});
+
+Deno.test("checkPageAnchors rejects nonexistent volumes and pages", () => {
+  const volumes = [
+    { volume_number: 1, page_count: 40 },
+    { volume_number: 2, page_count: null },
+  ];
+  const result = checkPageAnchors(
+    [
+      { title: "ok", page_anchors: [{ volume_number: 1, page: 40 }] },
+      { title: "past end", page_anchors: [{ volume_number: 1, page: 12 }, { volume_number: 1, page: 41 }] },
+      { title: "no volume", page_anchors: [{ volume_number: 3, page: 1 }] },
+      { title: "unknown count", page_anchors: [{ volume_number: 2, page: 900 }] },
+      { title: "no anchors" },
+    ],
+    volumes,
+  );
+  assertEquals(result.kept.map((k) => k.title), ["ok", "unknown count", "no anchors"]);
+  assertEquals(result.rejected.map((r) => [r.title, r.invalid_anchors]), [
+    ["past end", [{ volume_number: 1, page: 41 }]],
+    ["no volume", [{ volume_number: 3, page: 1 }]],
+  ]);
+  assertEquals(result.unanchored, 1);
+  assertEquals(result.kept[2].page_anchors, []);
+});
+
+Deno.test("formatVolumePages labels pages and respects the budget", () => {
+  const pages = [
+    { page_number: 1, text: "a".repeat(100) },
+    { page_number: 2, text: "b".repeat(100) },
+  ];
+  const full = formatVolumePages(4, pages, 10_000);
+  assertEquals(full.startsWith("[VOLUME 4, PAGE 1]\n"), true);
+  assertEquals(full.includes("[VOLUME 4, PAGE 2]\n"), true);
+  assertEquals(formatVolumePages(4, pages, 150).includes("PAGE 2"), false);
+});
@@ -0,0 +1,146 @@
+// =============================================================================
+// PAGE ANCHORS — Per-page OCR text and {volume_number, page} citations
+// Used by: ocr-process (page split), multi-agent-analyze (context + validation)
+// =============================================================================
+//
+// ocr-process asks the model to open every page with a "--- Page N ---" line.
+// splitOcrPages() turns that into one row per page (case_volume_pages), and
+// multi-agent-analyze re-labels the pages as "[VOLUME v, PAGE p]" in the agent
+// context so findings can cite exact {volume_number, page} anchors.
+//
+// A finding or evidence item citing a volume that does not exist, or a page
+// beyond the volume's page count, is rejected before it is stored.
+// =============================================================================
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface PageAnchor {
+  volume_number: number;
+  page: number;
+}
+
+export interface OcrPage {
+  page_number: number;
+  text: string;
+}
+
+/** What is known about a volume's extent */
+export interface VolumePageInfo {
+  volume_number: number;
+  /** null when the page count is unknown — pages cannot be range-checked */
+  page_count: number | null;
+}
+
+export interface RejectedItem {
+  title: string;
+  page_anchors: PageAnchor[];
+  invalid_anchors: PageAnchor[];
+}
+
+export interface AnchorCheck<T> {
+  kept: T[];
+  rejected: RejectedItem[];
+  /** Kept items without any anchor */
+  unanchored: number;
+}
+
+// ─── Page split ─────────────────────────────────────────────────────────────
+
+const PAGE_HEADER_RE = /^-{2,}\s*page\s+(\d{1,4})\s*-{2,}[ \t]*$/gim;
+
+/**
+ * Split OCR text on "--- Page N ---" header lines. Text before the first
+ * header is folded into that page. Returns [] when there are no headers.
+ */
+export function splitOcrPages(text: string): OcrPage[] {
+  const headers = [...text.matchAll(PAGE_HEADER_RE)];
+  if (headers.length === 0) return [];
+
+  const preamble = text.slice(0, headers[0].index!).trim();
+  const byPage = new Map<number, string>();
+  headers.forEach((h, i) => {
+    const end = i + 1 < headers.length ? headers[i + 1].index! : text.length;
+    let body = text.slice(h.index! + h[0].length, end).trim();
+    if (i === 0 && preamble) body = `${preamble}\n${body}`;
+    const page = parseInt(h[1], 10);
+    // Repeated headers for the same page (model restarts) are concatenated
+    byPage.set(page, byPage.has(page) ? `${byPage.get(page)}\n${body}` : body);
+  });
+
+  return [...byPage.entries()]
+    .filter(([page]) => page > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([page_number, body]) => ({ page_number, text: body }));
+}
+
+// ─── Anchors ────────────────────────────────────────────────────────────────
+
+/** Lenient parse of model output: [{volume_number, page}] with numeric strings allowed */
+export function normalizePageAnchors(raw: unknown): PageAnchor[] {
+  if (!Array.isArray(raw)) return [];
+  const out: PageAnchor[] = [];
+  const seen = new Set<string>();
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const rec = item as Record<string, unknown>;
+    const volume = Number(rec.volume_number ?? rec.volume);
+    const page = Number(rec.page ?? rec.page_number);
+    if (!Number.isInteger(volume) || !Number.isInteger(page)) continue;
+    const key = `${volume}:${page}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    out.push({ volume_number: volume, page });
+  }
+  return out;
+}
+
+export function isAnchorValid(anchor: PageAnchor, volumes: VolumePageInfo[]): boolean {
+  const volume = volumes.find((v) => v.volume_number === anchor.volume_number);
+  if (!volume || anchor.page < 1) return false;
+  return volume.page_count == null || anchor.page <= volume.page_count;
+}
+
+/**
+ * Drop items that cite a page that does not exist. Items keep their
+ * normalized anchors in `page_anchors`.
+ */
+export function checkPageAnchors<T extends { title?: unknown; page_anchors?: unknown }>(
+  items: T[],
+  volumes: VolumePageInfo[],
+): AnchorCheck<T & { page_anchors: PageAnchor[] }> {
+  const kept: Array<T & { page_anchors: PageAnchor[] }> = [];
+  const rejected: RejectedItem[] = [];
+  let unanchored = 0;
+
+  for (const item of items) {
+    const anchors = normalizePageAnchors(item.page_anchors);
+    const invalid = anchors.filter((a) => !isAnchorValid(a, volumes));
+    if (invalid.length > 0) {
+      rejected.push({ title: String(item.title ?? ""), page_anchors: anchors, invalid_anchors: invalid });
+      continue;
+    }
+    if (anchors.length === 0) unanchored++;
+    kept.push({ ...item, page_anchors: anchors });
+  }
+
+  return { kept, rejected, unanchored };
+}
+
+// ─── Agent context ──────────────────────────────────────────────────────────
+
+/** Page-labelled volume text for the agent prompt, capped at maxChars */
+export function formatVolumePages(volumeNumber: number, pages: OcrPage[], maxChars: number): string {
+  const parts: string[] = [];
+  let used = 0;
+  for (const p of pages) {
+    const block = `[VOLUME ${volumeNumber}, PAGE ${p.page_number}]\n${p.text}`;
+    if (used + block.length > maxChars) {
+      const room = maxChars - used;
+      if (room > 200) parts.push(block.substring(0, room));
+      break;
+    }
+    parts.push(block);
+    used += block.length + 2;
+  }
+  return parts.join("\n\n");
+}
@@ -0,0 +1,110 @@
+// =============================================================================
+// Practice Graph — Test Suite
+// All Armenian text represented as Unicode escapes per project standards.
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  extractPracticeGraphEdges,
+  normalizeActKey,
+  normalizeArticle,
+  normalizeCaseRef,
+} from "./practice-graph.ts";
+
+// ---------------------------------------------------------------------------
+// Normalisation
+// ---------------------------------------------------------------------------
+
+Deno.test("normalizeActKey recognises codes, names and abbreviations", () => {
+  assertEquals(normalizeActKey("criminal_code"), "criminal_code");
+  assertEquals(normalizeActKey("\u0540\u0540 \u0584\u0580\u0565\u0561\u056f\u0561\u0576 \u0564\u0561\u057f\u0561\u057e\u0561\u0580\u0578\u0582\u0569\u0575\u0561\u0576 \u0585\u0580\u0565\u0576\u057d\u0563\u056b\u0580\u0584"), "criminal_procedure_code");
+  assertEquals(normalizeActKey("\u0540\u0540 \u0584\u0580\u0565\u0561\u056f\u0561\u0576 \u0585\u0580\u0565\u0576\u057d\u0563\u056b\u0580\u0584"), "criminal_code");
+  assertEquals(normalizeActKey("\u0554\u0534\u0555"), "criminal_procedure_code");
+  assertEquals(normalizeActKey("\u0554\u0555"), "criminal_code");
+  assertEquals(normalizeActKey("\u0413\u0440\u0430\u0436\u0434\u0430\u043d\u0441\u043a\u0438\u0439 \u043a\u043e\u0434\u0435\u043a\u0441 \u0420\u0410"), "civil_code");
+  assertEquals(normalizeActKey("European Convention on Human Rights"), "echr");
+  assertEquals(normalizeActKey("\u0540\u0555-528-\u0546"), null);
+  assertEquals(normalizeActKey(""), null);
+});
+
+Deno.test("normalizeCaseRef unifies dashes and drops whitespace", () => {
+  assertEquals(normalizeCaseRef(" \u0535\u0534/0123/01/19 "), "\u0535\u0534/0123/01/19");
+  assertEquals(normalizeCaseRef("\u2116 \u0535\u0531\u0554\u0534\u20130001\u201301\u201320"), "\u0535\u0531\u0554\u0534-0001-01-20");
+  assertEquals(normalizeCaseRef("  "), null);
+});
+
+Deno.test("normalizeArticle keeps the leading number", () => {
+  assertEquals(normalizeArticle("104"), "104");
+  assertEquals(normalizeArticle("104.1-\u056b\u0576"), "104.1");
+  assertEquals(normalizeArticle(6), "6");
+  assertEquals(normalizeArticle("P1-1"), "P1-1");
+  assertEquals(normalizeArticle(""), null);
+});
+
+// ---------------------------------------------------------------------------
+// Edge extraction
+// ---------------------------------------------------------------------------
+
+Deno.test("reads both applied_articles shapes", () => {
+  const legacy = extractPracticeGraphEdges({
+    id: "d1",
+    applied_articles: [{ code: "criminal_code", articles: ["104", "105"] }],
+  });
+  assertEquals(legacy.map((e) => [e.relation, e.act_key, e.article]), [
+    ["applies", "criminal_code", "104"],
+    ["applies", "criminal_code", "105"],
+  ]);
+
+  const enriched = extractPracticeGraphEdges({
+    id: "d2",
+    applied_articles: {
+      sources: [{ act: "\u0540\u0540 \u0584\u0561\u0572\u0561\u0584\u0561\u0581\u056b\u0561\u056f\u0561\u0576 \u0585\u0580\u0565\u0576\u057d\u0563\u056b\u0580\u0584", articles: [{ article: "1087.1", part: "2", point: "" }] }],
+    },
+  });
+  assertEquals(enriched.length, 1);
+  assertEquals(enriched[0].act_key, "civil_code");
+  assertEquals(enriched[0].article, "1087.1");
+  assertEquals(enriched[0].part, "2");
+  assertEquals(enriched[0].point, null);
+});
+
+Deno.test("interpreted norms become interprets edges; ECHR system wins over the name", () => {
+  const edges = extractPracticeGraphEdges({
+    id: "d1",
+    interpreted_norms: {
+      norms_cited: [
+        { system: "RA", instrument: "\u0554\u0534\u0555", article: "358", part: "1", point: null },
+        { system: "ECHR", instrument: "Protocol No. 1", article: "1" },
+        { system: "RA", instrument: "\u0554\u0534\u0555", article: null },
+      ],
+    },
+  });
+  assertEquals(edges.map((e) => [e.relation, e.act_key, e.article, e.part]), [
+    ["interprets", "criminal_procedure_code", "358", "1"],
+    ["interprets", "echr", "1", null],
+  ]);
+});
+
+Deno.test("related cases become citations, skipping self-references and duplicates", () => {
+  const edges = extractPracticeGraphEdges({
+    id: "d1",
+    case_number_anonymized: "\u0535\u0534/0001/01/20",
+    related_cases: ["\u0535\u0534/0123/01/19", "\u0535\u0534 / 0123 / 01 / 19", "\u0535\u0534/0001/01/20", ""],
+  });
+  assertEquals(edges.length, 1);
+  assertEquals(edges[0].relation, "cites");
+  assertEquals(edges[0].target_ref, "\u0535\u0534/0123/01/19");
+  assertEquals(edges[0].target_ref_key, "\u0535\u0534/0123/01/19");
+});
+
+Deno.test("norm references in the text become mentions without an act key", () => {
+  const edges = extractPracticeGraphEdges({
+    id: "d1",
+    content_text: "\u0534\u0561\u057f\u0561\u0580\u0561\u0576\u0568 \u056f\u056b\u0580\u0561\u057c\u0565\u056c \u0567 \u0570\u0578\u0564\u057e\u0561\u056e 391-\u056b 2-\u0580\u0564 \u0574\u0561\u057d\u0568\u0589",
+  });
+  const mentions = edges.filter((e) => e.relation === "mentions");
+  assertEquals(mentions.length > 0, true);
+  assertEquals(mentions[0].article, "391");
+  assertEquals(mentions[0].act_key, null);
+  assertEquals(mentions[0].origin, "norm_ref");
+});
@@ -0,0 +1,295 @@
+// =============================================================================
+// PRACTICE GRAPH — Citation/interpretation edges between decisions and norms
+// Used by: practice-graph-sync, practice-ai-enrich-worker, legal-practice-enrich,
+//          rag-search (via the stored edges)
+// =============================================================================
+//
+// Every active legal_practice_kb row is turned into edges of
+// legal_practice_graph_edges:
+//
+//   interprets  decision -> norm      interpreted_norms.norms_cited
+//   applies     decision -> norm      applied_articles (both stored shapes)
+//   mentions    decision -> norm      NormRef extraction over content_text
+//   cites       decision -> decision  related_cases
+//
+// Norm targets carry an act_key (a kb_category code such as "criminal_code")
+// only when the act is recognisable; otherwise act_key is null and the raw
+// act name stays in act_raw. Citation targets are stored as a normalised
+// reference and resolved to a decision id in SQL (resolve_practice_citations),
+// so a citation to a decision imported later links up once that decision syncs.
+// =============================================================================
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { extractNormRefs } from "./norm-ref.ts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type PracticeGraphRelation = "interprets" | "applies" | "mentions" | "cites";
+
+export type PracticeGraphOrigin = "interpreted_norms" | "applied_articles" | "norm_ref" | "related_cases";
+
+export interface PracticeGraphEdge {
+  relation: PracticeGraphRelation;
+  origin: PracticeGraphOrigin;
+  act_key: string | null;
+  act_raw: string | null;
+  article: string | null;
+  part: string | null;
+  point: string | null;
+  target_ref: string | null;
+  target_ref_key: string | null;
+}
+
+export interface PracticeGraphSource {
+  id: string;
+  case_number_anonymized?: string | null;
+  echr_case_id?: string | null;
+  applied_articles?: unknown;
+  interpreted_norms?: unknown;
+  related_cases?: string[] | null;
+  content_text?: string | null;
+}
+
+/** Upper bound on text-extracted norm mentions per decision */
+export const MAX_MENTION_EDGES = 100;
+
+// ─── Normalisation ──────────────────────────────────────────────────────────
+
+const KNOWN_ACT_KEYS = new Set([
+  "constitution",
+  "civil_code",
+  "criminal_code",
+  "labor_code",
+  "family_code",
+  "administrative_code",
+  "tax_code",
+  "criminal_procedure_code",
+  "civil_procedure_code",
+  "administrative_procedure_code",
+  "administrative_violations_code",
+  "land_code",
+  "judicial_code",
+  "echr",
+]);
+
+// Order matters: procedure codes before the substantive codes they contain.
+const ACT_PATTERNS: Array<[RegExp, string]> = [
+  [/\u0535\u053F\u0544\u053B\u053F|ECHR|\u0415\u041A\u041F\u0427|\u053F\u0578\u0576\u057E\u0565\u0576\u0581\u056B|\u041A\u043E\u043D\u0432\u0435\u043D\u0446\u0438|Convention/i, "echr"],
+  [/\u054D\u0561\u0570\u0574\u0561\u0576\u0561\u0564\u0580|\u041A\u043E\u043D\u0441\u0442\u0438\u0442\u0443\u0446\u0438|Constitution/i, "constitution"],
+  [/(^|[^\p{L}])\u0554\u0534\u0555([^\p{L}]|$)|\u0584\u0580\u0565\u0561\u056F\u0561\u0576 \u0564\u0561\u057F\u0561\u057E\u0561\u0580\u0578\u0582\u0569\u0575\u0561\u0576|\u0443\u0433\u043E\u043B\u043E\u0432\u043D\u043E-\u043F\u0440\u043E\u0446\u0435\u0441\u0441\u0443\u0430\u043B\u044C\u043D|criminal procedure/iu, "criminal_procedure_code"],
+  [/\u0584\u0561\u0572\u0561\u0584\u0561\u0581\u056B\u0561\u056F\u0561\u0576 \u0564\u0561\u057F\u0561\u057E\u0561\u0580\u0578\u0582\u0569\u0575\u0561\u0576|\u0433\u0440\u0430\u0436\u0434\u0430\u043D\u0441\u043A\S* \u043F\u0440\u043E\u0446\u0435\u0441\u0441\u0443\u0430\u043B\u044C\u043D|civil procedure/iu, "civil_procedure_code"],
+  [/(^|[^\p{L}])\u054E\u0534\u0555([^\p{L}]|$)|\u057E\u0561\u0580\u0579\u0561\u056F\u0561\u0576 \u0564\u0561\u057F\u0561\u057E\u0561\u0580\u0578\u0582\u0569\u0575\u0561\u0576|\u0430\u0434\u043C\u0438\u043D\u0438\u0441\u0442\u0440\u0430\u0442\u0438\u0432\u043D\u043E-\u043F\u0440\u043E\u0446\u0435\u0441\u0441\u0443\u0430\u043B\u044C\u043D|\u0430\u0434\u043C\u0438\u043D\u0438\u0441\u0442\u0440\u0430\u0442\u0438\u0432\u043D\u043E\u0433\u043E \u0441\u0443\u0434\u043E\u043F\u0440\u043E\u0438\u0437\u0432\u043E\u0434\u0441\u0442\u0432\u0430|administrative procedure/iu, "administrative_procedure_code"],
+  [/\u057E\u0561\u0580\u0579\u0561\u056F\u0561\u0576 \u056B\u0580\u0561\u057E\u0561\u056D\u0561\u056D\u057F\u0578\u0582\u0574\u0576\u0565\u0580\u056B|\u0430\u0434\u043C\u0438\u043D\u0438\u0441\u0442\u0440\u0430\u0442\u0438\u0432\u043D\u044B\u0445 \u043F\u0440\u0430\u0432\u043E\u043D\u0430\u0440\u0443\u0448\u0435\u043D\u0438|administrative offen[cs]es|administrative violations/i, "administrative_violations_code"],
+  [/(^|[^\p{L}])\u0554\u0555([^\p{L}]|$)|\u0584\u0580\u0565\u0561\u056F\u0561\u0576 \u0585\u0580\u0565\u0576\u057D\u0563|\u0443\u0433\u043E\u043B\u043E\u0432\u043D\S* \u043A\u043E\u0434\u0435\u043A\u0441|criminal code/iu, "criminal_code"],
+  [/\u0584\u0561\u0572\u0561\u0584\u0561\u0581\u056B\u0561\u056F\u0561\u0576 \u0585\u0580\u0565\u0576\u057D\u0563|\u0433\u0440\u0430\u0436\u0434\u0430\u043D\u0441\u043A\S* \u043A\u043E\u0434\u0435\u043A\u0441|civil code/i, "civil_code"],
+  [/\u0561\u0577\u056D\u0561\u057F\u0561\u0576\u0584\u0561\u0575\u056B\u0576|\u0442\u0440\u0443\u0434\u043E\u0432\S* \u043A\u043E\u0434\u0435\u043A\u0441|labou?r code/i, "labor_code"],
+  [/\u0568\u0576\u057F\u0561\u0576\u0565\u056F\u0561\u0576|\u0441\u0435\u043C\u0435\u0439\u043D\S* \u043A\u043E\u0434\u0435\u043A\u0441|family code/i, "family_code"],
+  [/\u0570\u0561\u0580\u056F\u0561\u0575\u056B\u0576|\u043D\u0430\u043B\u043E\u0433\u043E\u0432\S* \u043A\u043E\u0434\u0435\u043A\u0441|tax code/i, "tax_code"],
+  [/\u0570\u0578\u0572\u0561\u0575\u056B\u0576|\u0437\u0435\u043C\u0435\u043B\u044C\u043D\S* \u043A\u043E\u0434\u0435\u043A\u0441|land code/i, "land_code"],
+  [/\u0564\u0561\u057F\u0561\u056F\u0561\u0576 \u0585\u0580\u0565\u0576\u057D\u0563|\u0441\u0443\u0434\u0435\u0431\u043D\S* \u043A\u043E\u0434\u0435\u043A\u0441|judicial code/i, "judicial_code"],
+];
+
+/** Map a free-form act name or code to a kb_category code, or null */
+export function normalizeActKey(raw: string | null | undefined): string | null {
+  const value = (raw ?? "").trim();
+  if (!value) return null;
+  if (KNOWN_ACT_KEYS.has(value.toLowerCase())) return value.toLowerCase();
+  for (const [re, key] of ACT_PATTERNS) {
+    if (re.test(value)) return key;
+  }
+  return null;
+}
+
+/**
+ * Case reference key used to resolve citations: dashes unified, whitespace
+ * and "№" removed. Must match practice_case_ref_key() in SQL.
+ */
+export function normalizeCaseRef(raw: string | null | undefined): string | null {
+  const key = (raw ?? "").replace(/[\u2013\u2014\u2011\u2212]/g, "-").replace(/[\s\u2116]+/g, "");
+  return key || null;
+}
+
+/** Leading article number ("104", "104.1"); short non-numeric labels (e.g. "P1-1") kept as is */
+export function normalizeArticle(raw: unknown): string | null {
+  if (raw === null || raw === undefined) return null;
+  const value = String(raw).trim();
+  if (!value) return null;
+  const m = value.match(/^(\d+(?:\.\d+)?)/);
+  if (m) return m[1];
+  return value.length <= 12 ? value : null;
+}
+
+function cleanPart(raw: unknown): string | null {
+  if (raw === null || raw === undefined) return null;
+  const value = String(raw).trim();
+  const m = value.match(/\d+/);
+  return m ? m[0] : null;
+}
+
+// ─── Extraction ─────────────────────────────────────────────────────────────
+
+function normEdge(
+  relation: PracticeGraphRelation,
+  origin: PracticeGraphOrigin,
+  act: string | null,
+  article: unknown,
+  part: unknown = null,
+  point: unknown = null,
+  actKey: string | null = normalizeActKey(act),
+): PracticeGraphEdge | null {
+  const art = normalizeArticle(article);
+  if (!art) return null;
+  return {
+    relation,
+    origin,
+    act_key: actKey,
+    act_raw: act?.trim() || null,
+    article: art,
+    part: cleanPart(part),
+    point: cleanPart(point),
+    target_ref: null,
+    target_ref_key: null,
+  };
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as Record<string, unknown> : null;
+}
+
+/** applied_articles: [{code, articles: ["104"]}] or {sources: [{act, articles: [{article, part, point}]}]} */
+function appliedArticleEdges(applied: unknown): PracticeGraphEdge[] {
+  const sources = Array.isArray(applied) ? applied : asArray(asRecord(applied)?.sources);
+  const edges: PracticeGraphEdge[] = [];
+  for (const source of sources) {
+    const src = asRecord(source);
+    if (!src) continue;
+    const act = String(src.code ?? src.act ?? "") || null;
+    for (const item of asArray(src.articles)) {
+      const obj = asRecord(item);
+      const edge = obj
+        ? normEdge("applies", "applied_articles", act, obj.article, obj.part, obj.point)
+        : normEdge("applies", "applied_articles", act, item);
+      if (edge) edges.push(edge);
+    }
+  }
+  return edges;
+}
+
+/** interpreted_norms: {norms_cited: [{system, instrument, article, part, point}]} or the bare array */
+function interpretedNormEdges(interpreted: unknown): PracticeGraphEdge[] {
+  const norms = Array.isArray(interpreted) ? interpreted : asArray(asRecord(interpreted)?.norms_cited);
+  const edges: PracticeGraphEdge[] = [];
+  for (const norm of norms) {
+    const n = asRecord(norm);
+    if (!n) continue;
+    const act = String(n.instrument ?? n.act ?? n.code ?? "") || null;
+    const actKey = n.system === "ECHR" ? "echr" : normalizeActKey(act);
+    const edge = normEdge("interprets", "interpreted_norms", act, n.article, n.part, n.point, actKey);
+    if (edge) edges.push(edge);
+  }
+  return edges;
+}
+
+function mentionEdges(text: string | null | undefined): PracticeGraphEdge[] {
+  if (!text) return [];
+  return extractNormRefs(text)
+    .slice(0, MAX_MENTION_EDGES)
+    .map((ref) => normEdge("mentions", "norm_ref", ref.act_number, ref.article, ref.part, ref.point, null))
+    .filter((e): e is PracticeGraphEdge => e !== null);
+}
+
+function citationEdges(doc: PracticeGraphSource): PracticeGraphEdge[] {
+  const ownKeys = new Set(
+    [doc.case_number_anonymized, doc.echr_case_id].map(normalizeCaseRef).filter(Boolean),
+  );
+  const edges: PracticeGraphEdge[] = [];
+  for (const ref of doc.related_cases ?? []) {
+    const raw = typeof ref === "string" ? ref.trim() : "";
+    const key = normalizeCaseRef(raw);
+    if (!key || ownKeys.has(key)) continue;
+    edges.push({
+      relation: "cites",
+      origin: "related_cases",
+      act_key: null,
+      act_raw: null,
+      article: null,
+      part: null,
+      point: null,
+      target_ref: raw,
+      target_ref_key: key,
+    });
+  }
+  return edges;
+}
+
+function edgeKey(e: PracticeGraphEdge): string {
+  return [e.relation, e.act_key ?? "", e.article ?? "", e.part ?? "", e.point ?? "", e.target_ref_key ?? ""].join("|");
+}
+
+/**
+ * All edges of one decision, deduplicated on the same key as the unique index
+ * (first occurrence wins: interpreted norms, applied articles, mentions, citations).
+ */
+export function extractPracticeGraphEdges(doc: PracticeGraphSource): PracticeGraphEdge[] {
+  const all = [
+    ...interpretedNormEdges(doc.interpreted_norms),
+    ...appliedArticleEdges(doc.applied_articles),
+    ...mentionEdges(doc.content_text),
+    ...citationEdges(doc),
+  ];
+  const seen = new Set<string>();
+  return all.filter((e) => {
+    const key = edgeKey(e);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// ─── Persistence ────────────────────────────────────────────────────────────
+
+const INSERT_BATCH_SIZE = 500;
+
+export interface PracticeGraphSyncResult {
+  doc_id: string;
+  edges: number;
+  /** Outgoing citations that point at a known decision after resolution */
+  resolved_citations: number;
+}
+
+/**
+ * Rebuild the edges of one decision (delete + insert) and resolve citations in
+ * both directions. Needs a service_role client.
+ */
+export async function syncPracticeGraph(supabase: SupabaseClient, docId: string): Promise<PracticeGraphSyncResult> {
+  const { data: doc, error } = await supabase
+    .from("legal_practice_kb")
+    .select("id, case_number_anonymized, echr_case_id, applied_articles, interpreted_norms, related_cases, content_text")
+    .eq("id", docId)
+    .maybeSingle();
+  if (error) throw new Error(`Load failed: ${error.message}`);
+
+  const { error: deleteError } = await supabase
+    .from("legal_practice_graph_edges")
+    .delete()
+    .eq("source_id", docId);
+  if (deleteError) throw new Error(`Delete failed: ${deleteError.message}`);
+
+  if (!doc) return { doc_id: docId, edges: 0, resolved_citations: 0 };
+
+  const edges = extractPracticeGraphEdges(doc as PracticeGraphSource);
+  for (let i = 0; i < edges.length; i += INSERT_BATCH_SIZE) {
+    const rows = edges.slice(i, i + INSERT_BATCH_SIZE).map((e) => ({ ...e, source_id: docId }));
+    const { error: insertError } = await supabase.from("legal_practice_graph_edges").insert(rows);
+    if (insertError) throw new Error(`Insert failed: ${insertError.message}`);
+  }
+
+  const { data: resolved, error: resolveError } = await supabase.rpc("resolve_practice_citations", { _kb_id: docId });
+  if (resolveError) throw new Error(`Resolve failed: ${resolveError.message}`);
+
+  return { doc_id: docId, edges: edges.length, resolved_citations: Number(resolved) || 0 };
+}
@@ -0,0 +1,43 @@
+// =============================================================================
+// Model Pricing — Test Suite
+// Run: deno test --allow-env --allow-net supabase/functions/_shared/pricing.test.ts
+// =============================================================================
+
+import { assertAlmostEquals, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { costFromPrice, priceAt, type PriceRow } from "./pricing.ts";
+
+const row = (id: string, model_name: string, effective_from: string, input_per_1k = 0.001, output_per_1k = 0.002): PriceRow => ({
+  id,
+  model_name,
+  input_per_1k,
+  output_per_1k,
+  effective_from,
+});
+
+const ROWS: PriceRow[] = [
+  row("flash-v1", "vendor/flash", "2026-01-01T00:00:00Z", 0.0001, 0.0004),
+  row("flash-v2", "vendor/flash", "2026-03-01T00:00:00Z", 0.0002, 0.0008),
+  row("flash-lite", "vendor/flash-lite", "2026-01-01T00:00:00Z", 0.00005, 0.0002),
+  row("big", "big-model", "2026-01-01T00:00:00Z", 0.005, 0.015),
+];
+
+Deno.test("priceAt picks the period in force at call time", () => {
+  assertEquals(priceAt(ROWS, "vendor/flash", new Date("2026-02-15T00:00:00Z"))?.id, "flash-v1");
+  assertEquals(priceAt(ROWS, "vendor/flash", new Date("2026-03-01T00:00:00Z"))?.id, "flash-v2");
+  assertEquals(priceAt(ROWS, "vendor/flash", new Date("2025-12-31T00:00:00Z")), null);
+});
+
+Deno.test("priceAt matches without provider prefix and by longest prefix", () => {
+  const at = new Date("2026-02-01T00:00:00Z");
+  assertEquals(priceAt(ROWS, "flash", at)?.id, "flash-v1");
+  assertEquals(priceAt(ROWS, "other/big-model", at)?.id, "big");
+  assertEquals(priceAt(ROWS, "vendor/flash-lite-2026-01-15", at)?.id, "flash-lite");
+  assertEquals(priceAt(ROWS, "unknown-model", at), null);
+  assertEquals(priceAt(ROWS, "", at), null);
+});
+
+Deno.test("costFromPrice prices input and output tokens per 1K", () => {
+  const price = row("p", "m", "2026-01-01T00:00:00Z", 0.001, 0.002);
+  assertAlmostEquals(costFromPrice(price, 2000, 500), 0.003);
+  assertEquals(costFromPrice(price, 0, 0), 0);
+});
@@ -0,0 +1,102 @@
+// =============================================================================
+// MODEL PRICING — Versioned USD price registry (public.model_pricing)
+// =============================================================================
+//
+// One row per model and price period; a row applies from effective_from until
+// the next row for the same model. Every api_usage cost is computed here with
+// the period in force at call time, and the row keeps its pricing_id, so later
+// price changes never rewrite past costs. Admins edit periods in the admin
+// panel (ModelPricingManager).
+//
+// Used by: ai-quota.ts (recordUsage), i.e. openai-router, ocr-process,
+//          audio-transcribe, legal-chat, kb-fetch-pdf-content
+//
+// Cached for 60s per isolate. If the registry cannot be read, or a model has
+// no price, the cost is 0 and cost_unknown is set.
+// =============================================================================
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { warn } from "./safe-logger.ts";
+
+export interface PriceRow {
+  id: string;
+  model_name: string;
+  input_per_1k: number;
+  output_per_1k: number;
+  effective_from: string;
+}
+
+export interface CostEstimate {
+  cost_usd: number;
+  cost_unknown: boolean;
+  pricing_id: string | null;
+}
+
+const CACHE_TTL_MS = 60_000;
+let cachedRows: PriceRow[] | null = null;
+let cacheTimestamp = 0;
+
+/** "google/gemini-2.5-flash" -> "gemini-2.5-flash" */
+function bareModel(model: string): string {
+  return model.slice(model.lastIndexOf("/") + 1).toLowerCase();
+}
+
+/**
+ * Price period for `model` in force at `at`. Matches the registry name
+ * exactly, then without the provider prefix, then by the longest registry
+ * name the model starts with (dated snapshots like "gpt-5-2025-08-07").
+ */
+export function priceAt(rows: PriceRow[], model: string, at: Date = new Date()): PriceRow | null {
+  if (!model) return null;
+  const wanted = bareModel(model);
+  const atMs = at.getTime();
+
+  const candidates = rows.filter((r) => Date.parse(r.effective_from) <= atMs);
+  const exact = candidates.filter((r) => r.model_name === model);
+  const bare = exact.length > 0 ? exact : candidates.filter((r) => bareModel(r.model_name) === wanted);
+  let pool = bare;
+  if (pool.length === 0) {
+    const prefixed = candidates.filter((r) => wanted.startsWith(bareModel(r.model_name)));
+    const longest = Math.max(0, ...prefixed.map((r) => bareModel(r.model_name).length));
+    pool = prefixed.filter((r) => bareModel(r.model_name).length === longest);
+  }
+  if (pool.length === 0) return null;
+
+  return pool.reduce((latest, r) => (Date.parse(r.effective_from) > Date.parse(latest.effective_from) ? r : latest));
+}
+
+export function costFromPrice(price: PriceRow, inputTokens: number, outputTokens: number): number {
+  return (inputTokens / 1000) * Number(price.input_per_1k) + (outputTokens / 1000) * Number(price.output_per_1k);
+}
+
+export async function loadPricing(): Promise<PriceRow[]> {
+  const now = Date.now();
+  if (cachedRows && now - cacheTimestamp < CACHE_TTL_MS) return cachedRows;
+
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !key) return cachedRows ?? [];
+
+  const { data, error } = await createClient(url, key)
+    .from("model_pricing")
+    .select("id, model_name, input_per_1k, output_per_1k, effective_from");
+  if (error) {
+    warn("pricing", "Could not read model_pricing", { error: error.message });
+    return cachedRows ?? [];
+  }
+
+  cachedRows = (data || []) as PriceRow[];
+  cacheTimestamp = now;
+  return cachedRows;
+}
+
+export async function computeCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  at: Date = new Date(),
+): Promise<CostEstimate> {
+  const price = priceAt(await loadPricing(), model, at);
+  if (!price) return { cost_usd: 0, cost_unknown: true, pricing_id: null };
+  return { cost_usd: costFromPrice(price, inputTokens, outputTokens), cost_unknown: false, pricing_id: price.id };
+}
@@ -0,0 +1,113 @@
+// =============================================================================
+// Prompt Registry — Test Suite
+// Run: deno test --allow-env --allow-net supabase/functions/_shared/prompt-registry.test.ts
+// =============================================================================
+
+import { assert, assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  choosePrompt,
+  hashBucket,
+  needsTeams,
+  pickVariant,
+  type RegistryPrompt,
+  type RegistryVariant,
+} from "./prompt-registry.ts";
+
+const variant = (over: Partial<RegistryVariant>): RegistryVariant => ({
+  id: "v1",
+  prompt_text: "Variant text",
+  weight: 0,
+  status: "active",
+  pinned_user_ids: [],
+  pinned_team_ids: [],
+  created_at: "2026-03-13T09:00:00Z",
+  ...over,
+});
+
+const prompt = (variants: RegistryVariant[], text = "Base text"): RegistryPrompt => ({
+  id: "p1",
+  module_type: "main",
+  prompt_text: text,
+  ai_prompt_variants: variants,
+});
+
+Deno.test("hashBucket: stable and within 0..99", () => {
+  assertEquals(hashBucket("user-1:p1"), hashBucket("user-1:p1"));
+  for (const key of ["", "a", "user-2:p1", "user-3:p9"]) {
+    const b = hashBucket(key);
+    assert(b >= 0 && b < 100 && Number.isInteger(b));
+  }
+});
+
+Deno.test("choosePrompt: code prompt without a live registry row", () => {
+  assertEquals(choosePrompt(undefined, "Code text", "user-1", []), {
+    text: "Code text",
+    promptId: null,
+    variantId: null,
+    source: "code",
+  });
+});
+
+Deno.test("choosePrompt: base text when no variant is active", () => {
+  const p = prompt([variant({ status: "draft", weight: 100 }), variant({ id: "v2", status: "retired", weight: 100 })]);
+  assertEquals(choosePrompt(p, "Code text", "user-1", []), {
+    text: "Base text",
+    promptId: "p1",
+    variantId: null,
+    source: "registry",
+  });
+});
+
+Deno.test("pickVariant: user pin wins over team pin and weights", () => {
+  const p = prompt([
+    variant({ id: "v-weight", weight: 100 }),
+    variant({ id: "v-team", pinned_team_ids: ["team-1"] }),
+    variant({ id: "v-user", pinned_user_ids: ["user-1"] }),
+  ]);
+  assertEquals(pickVariant(p, "user-1", ["team-1"])?.id, "v-user");
+  assertEquals(pickVariant(p, "user-2", ["team-1"])?.id, "v-team");
+  assertEquals(pickVariant(p, "user-2", [])?.id, "v-weight");
+});
+
+Deno.test("pickVariant: weights split users, the rest gets the base text", () => {
+  const p = prompt([variant({ id: "v-a", weight: 30 })]);
+  let onVariant = 0;
+  for (let i = 0; i < 1000; i++) {
+    const userId = `user-${i}`;
+    const picked = pickVariant(p, userId, []);
+    // Same user, same text
+    assertEquals(pickVariant(p, userId, [])?.id, picked?.id);
+    if (picked) onVariant++;
+  }
+  assert(onVariant > 220 && onVariant < 380, `variant share ${onVariant}/1000`);
+});
+
+Deno.test("pickVariant: weights above 100 are scaled, zero weights never drawn", () => {
+  const p = prompt([
+    variant({ id: "v-a", weight: 100, created_at: "2026-03-13T09:00:00Z" }),
+    variant({ id: "v-b", weight: 100, created_at: "2026-03-13T10:00:00Z" }),
+    variant({ id: "v-c", weight: 0, created_at: "2026-03-13T11:00:00Z" }),
+  ]);
+  const seen = new Set<string | undefined>();
+  for (let i = 0; i < 200; i++) seen.add(pickVariant(p, `user-${i}`, [])?.id);
+  assertEquals([...seen].sort(), ["v-a", "v-b"]);
+});
+
+Deno.test("choosePrompt: texts missing a placeholder are skipped", () => {
+  const p = prompt([variant({ id: "v-a", weight: 100, prompt_text: "No markers" })], "Base {CONTEXT}");
+  assertEquals(choosePrompt(p, "Code {CONTEXT}", "user-1", [], ["{CONTEXT}"]).source, "registry");
+
+  const broken = prompt([], "Base without markers");
+  assertEquals(choosePrompt(broken, "Code {CONTEXT}", "user-1", [], ["{CONTEXT}"]), {
+    text: "Code {CONTEXT}",
+    promptId: null,
+    variantId: null,
+    source: "code",
+  });
+});
+
+Deno.test("needsTeams: only active team pins need a lookup", () => {
+  assertEquals(needsTeams(undefined), false);
+  assertEquals(needsTeams(prompt([variant({ pinned_team_ids: ["t1"], status: "draft" })])), false);
+  assertEquals(needsTeams(prompt([variant({ pinned_team_ids: ["t1"] })])), true);
+});
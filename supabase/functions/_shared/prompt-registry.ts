@@ -0,0 +1,225 @@
+// =============================================================================
+// PROMPT REGISTRY — System prompts served from ai_prompts at runtime
+// =============================================================================
+//
+// Edge functions ask resolvePrompt() for the system prompt of a function /
+// module and pass the prompt in code as the fallback. A registry row replaces
+// it once an admin switches the row live (ai_prompts.runtime_enabled) in the
+// Prompt Manager; its active ai_prompt_variants then take a share of the
+// traffic:
+//
+//   1. a variant pinning the user, then one pinning a team of the user
+//   2. otherwise a bucket 0..99 from a hash of user + prompt, so a user keeps
+//      seeing the same text, walked over the active variants' weights; the
+//      base text gets what the weights leave (none when they add up to 100+)
+//
+// The returned ref goes to the router (RouterCallOptions.prompt → api_usage)
+// and, in ai-analyze, to the ai_analysis row. Registry rows are cached per
+// isolate for a minute; a lookup failure falls back to the code prompt.
+//
+// Used by: ai-analyze, multi-agent-analyze, generate-document,
+//          generate-complaint, legal-chat
+// =============================================================================
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { warn } from "./safe-logger.ts";
+
+const CACHE_TTL_MS = 60_000;
+
+/** Which registry text produced a response; both null for the code prompt */
+export interface PromptRef {
+  promptId: string | null;
+  variantId: string | null;
+}
+
+export interface ResolvedPrompt extends PromptRef {
+  text: string;
+  source: "code" | "registry" | "variant";
+}
+
+export interface RegistryVariant {
+  id: string;
+  prompt_text: string;
+  weight: number;
+  status: string;
+  pinned_user_ids: string[];
+  pinned_team_ids: string[];
+  created_at: string;
+}
+
+export interface RegistryPrompt {
+  id: string;
+  module_type: string;
+  prompt_text: string;
+  ai_prompt_variants: RegistryVariant[];
+}
+
+export interface ResolveOptions {
+  userId?: string | null;
+  /**
+   * Markers the caller substitutes (e.g. "{CONTEXT}"); a registry text
+   * missing one is skipped, since the request would silently lose its data
+   */
+  placeholders?: string[];
+}
+
+// ── Pure helpers ─────────────────────────────────────────────────────────────
+
+/** 32-bit FNV-1a; stable across isolates, unlike Math.random */
+export function hashBucket(key: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) % 100;
+}
+
+function hasPlaceholders(text: string, placeholders: string[] | undefined): boolean {
+  return !placeholders || placeholders.every((p) => text.includes(p));
+}
+
+/**
+ * The variant a user gets, or null for the base text. Without a user the
+ * bucket is random, so anonymous calls still spread over the variants.
+ */
+export function pickVariant(
+  prompt: RegistryPrompt,
+  userId: string | null | undefined,
+  teamIds: string[],
+  placeholders?: string[],
+): RegistryVariant | null {
+  const active = prompt.ai_prompt_variants
+    .filter((v) => v.status === "active" && v.prompt_text.trim() && hasPlaceholders(v.prompt_text, placeholders))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+  if (active.length === 0) return null;
+
+  if (userId) {
+    const pinned = active.find((v) => v.pinned_user_ids.includes(userId));
+    if (pinned) return pinned;
+  }
+  if (teamIds.length > 0) {
+    const pinned = active.find((v) => v.pinned_team_ids.some((t) => teamIds.includes(t)));
+    if (pinned) return pinned;
+  }
+
+  const total = active.reduce((sum, v) => sum + Math.max(0, v.weight), 0);
+  if (total === 0) return null;
+  // Weights past 100 are scaled down instead of starving later variants
+  const scale = total > 100 ? 100 / total : 1;
+  const bucket = userId ? hashBucket(`${userId}:${prompt.id}`) : Math.floor(Math.random() * 100);
+
+  let upper = 0;
+  for (const v of active) {
+    upper += Math.max(0, v.weight) * scale;
+    if (bucket < upper) return v;
+  }
+  return null;
+}
+
+/** The text to serve for one registry row (or the code prompt without one) */
+export function choosePrompt(
+  prompt: RegistryPrompt | undefined,
+  fallback: string,
+  userId: string | null | undefined,
+  teamIds: string[],
+  placeholders?: string[],
+): ResolvedPrompt {
+  if (!prompt) return { text: fallback, promptId: null, variantId: null, source: "code" };
+
+  const variant = pickVariant(prompt, userId, teamIds, placeholders);
+  if (variant) {
+    return { text: variant.prompt_text, promptId: prompt.id, variantId: variant.id, source: "variant" };
+  }
+  if (!prompt.prompt_text.trim() || !hasPlaceholders(prompt.prompt_text, placeholders)) {
+    return { text: fallback, promptId: null, variantId: null, source: "code" };
+  }
+  return { text: prompt.prompt_text, promptId: prompt.id, variantId: null, source: "registry" };
+}
+
+/** True when some active variant is pinned to a team, so team ids are needed */
+export function needsTeams(prompt: RegistryPrompt | undefined): boolean {
+  return !!prompt?.ai_prompt_variants.some((v) => v.status === "active" && v.pinned_team_ids.length > 0);
+}
+
+// ── Database side ────────────────────────────────────────────────────────────
+
+let serviceClient: SupabaseClient | null | undefined;
+
+function getServiceClient(): SupabaseClient | null {
+  if (serviceClient === undefined) {
+    const url = Deno.env.get("SUPABASE_URL");
+    const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    serviceClient = url && key ? createClient(url, key) : null;
+  }
+  return serviceClient;
+}
+
+const promptCache = new Map<string, { at: number; prompts: Map<string, RegistryPrompt> }>();
+const teamCache = new Map<string, { at: number; teamIds: string[] }>();
+
+async function loadFunctionPrompts(
+  supabase: SupabaseClient,
+  functionName: string,
+): Promise<Map<string, RegistryPrompt> | null> {
+  const cached = promptCache.get(functionName);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.prompts;
+
+  const { data, error } = await supabase
+    .from("ai_prompts")
+    .select("id, module_type, prompt_text, ai_prompt_variants(id, prompt_text, weight, status, pinned_user_ids, pinned_team_ids, created_at)")
+    .eq("function_name", functionName)
+    .eq("is_active", true)
+    .eq("runtime_enabled", true);
+  if (error) {
+    warn("prompt-registry", "Prompt lookup failed, using code prompt", { functionName, error: error.message });
+    return null;
+  }
+
+  const prompts = new Map(((data || []) as RegistryPrompt[]).map((p) => [p.module_type, p]));
+  promptCache.set(functionName, { at: Date.now(), prompts });
+  return prompts;
+}
+
+async function loadTeamIds(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const cached = teamCache.get(userId);
+  if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.teamIds;
+
+  const { data, error } = await supabase.from("team_members").select("team_id").eq("user_id", userId);
+  if (error) {
+    warn("prompt-registry", "Team lookup failed, ignoring team pins", { error: error.message });
+    return [];
+  }
+  const teamIds = (data || []).map((row: { team_id: string }) => row.team_id);
+  teamCache.set(userId, { at: Date.now(), teamIds });
+  return teamIds;
+}
+
+/**
+ * System prompt for functionName / moduleType: the live registry row (or one
+ * of its variants) when there is one, else `fallback`. Never throws.
+ */
+export async function resolvePrompt(
+  functionName: string,
+  moduleType: string,
+  fallback: string,
+  options: ResolveOptions = {},
+): Promise<ResolvedPrompt> {
+  const supabase = getServiceClient();
+  if (!supabase) return choosePrompt(undefined, fallback, null, []);
+
+  try {
+    const prompts = await loadFunctionPrompts(supabase, functionName);
+    const prompt = prompts?.get(moduleType);
+    const teamIds = options.userId && needsTeams(prompt) ? await loadTeamIds(supabase, options.userId) : [];
+    return choosePrompt(prompt, fallback, options.userId, teamIds, options.placeholders);
+  } catch (e) {
+    warn("prompt-registry", "Prompt resolution failed, using code prompt", { functionName, moduleType, error: String(e) });
+    return choosePrompt(undefined, fallback, null, []);
+  }
+}
+
+/** ai_analysis / api_usage columns for a resolved prompt */
+export function promptColumns(ref: PromptRef): { prompt_id: string | null; prompt_variant_id: string | null } {
+  return { prompt_id: ref.promptId, prompt_variant_id: ref.variantId };
+}
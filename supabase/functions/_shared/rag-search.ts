@@ -1,7 +1,7 @@
 // =============================================================================
 // UNIFIED RAG SEARCH — Single module for all KB + Practice hybrid search
 // Used by: ai-analyze, legal-chat, multi-agent-analyze, generate-complaint,
-//          generate-document, vector-search
+//          generate-document
 // =============================================================================
 //
 // INDEX SEPARATION RULE (MANDATORY):
@@ -12,19 +12,29 @@
 // NEVER embed entire documents for generation — use precedent_units only.
 // When Practice results contain key_paragraphs (precedent_units), prefer them
 // over full content_text for AI prompt injection.
+//
+// Retrieval itself (stages, fusion, rerank) lives in hybrid-retrieval.ts; this
+// module adds point-in-time text, citation-graph expansion and formatting.
 // =============================================================================
 
-import type { KBSearchResult, PracticeSearchResult, VectorSearchResponse } from "./rag-types.ts";
-import { callInternalFunction } from "./edge-security.ts";
+import type { KBSearchResult, PracticeSearchResult, StageReport } from "./rag-types.ts";
+import { fetchKBTextAsOf } from "./kb-point-in-time.ts";
+import {
+  hybridSearch,
+  embedQuery,
+  legacyRetrievalMode,
+  PRACTICE_SELECT_COLUMNS,
+  type RerankReport,
+} from "./hybrid-retrieval.ts";
 
 // ─── Configuration ──────────────────────────────────────────────────────────
 
 export interface RAGSearchOptions {
   /** Supabase client (service_role) */
   supabase: SupabaseClient;
-  /** Supabase URL for vector-search edge function calls */
+  /** @deprecated Retrieval runs in-process (hybrid-retrieval.ts); kept for existing callers */
   supabaseUrl: string;
-  /** Service role key for auth */
+  /** @deprecated See supabaseUrl */
   supabaseKey: string;
   /** The user query to search */
   query: string;
@@ -34,6 +44,12 @@ export interface RAGSearchOptions {
   category?: string | null;
   /** Incoming x-request-id to propagate through internal calls */
   requestId?: string;
+  /** Precomputed query embedding shared across searches (see embedQuery) */
+  queryVector?: string | null;
+  /** Run the LLM rerank stage (default: true) */
+  rerank?: boolean;
+  /** Caller whose quotas apply to the rerank call */
+  userId?: string | null;
 }
 
 export interface RAGKBOptions extends RAGSearchOptions {
@@ -41,6 +57,12 @@ export interface RAGKBOptions extends RAGSearchOptions {
   limit?: number;
   /** Max content chars per result (default: 4000) */
   snippetLength?: number;
+  /**
+   * Point-in-time date (YYYY-MM-DD): return the text version in force on this
+   * date (from kb_versions) instead of the current text. Also used as
+   * referenceDate when none is given.
+   */
+  asOfDate?: string | null;
 }
 
 export interface RAGPracticeOptions extends RAGSearchOptions {
@@ -63,6 +85,8 @@ export interface RAGResult<T> {
   semantic_ok?: boolean;
   /** @deprecated Use rerank_error */
   semantic_error?: string;
+  /** Per-stage outcome of the hybrid pipeline */
+  stages?: StageReport[];
 }
 
 // deno-lint-ignore no-explicit-any
@@ -88,178 +112,77 @@ export function sanitizeForPostgrest(input: string): string {
     .substring(0, 200);
 }
 
-// ─── Vector Search Helper ───────────────────────────────────────────────────
-
-/** Result from callVectorSearch including telemetry */
-interface VectorSearchCallResult extends VectorSearchResponse {
-  _failed: boolean;
-  _error?: string;
-}
-
-/** Call the vector-search edge function — surfaces errors explicitly */
-async function callVectorSearch(
-  supabaseUrl: string,
-  query: string,
-  tables: "kb" | "practice" | "both",
-  opts: { limit?: number; category?: string | null; referenceDate?: string | null; requestId?: string } = {}
-): Promise<VectorSearchCallResult> {
-  try {
-    // Internal calls authenticate via x-internal-key only (set by callInternalFunction).
-    // Authorization header is intentionally omitted: vector-search creates its
-    // own service_role client server-side, so forwarding a service-role key over
-    // HTTP would be an unnecessary secret exposure.
-    const response = await callInternalFunction(
-      `${supabaseUrl}/functions/v1/vector-search`,
-      {
-        query,
-        tables,
-        category: opts.category || undefined,
-        limit: opts.limit || 10,
-        threshold: 0.3,
-        reference_date: opts.referenceDate || undefined,
-      },
-      {
-        requestId: opts.requestId,
-      },
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => "unknown");
-      const msg = `vector-search returned ${response.status}: ${errorText.substring(0, 200)}`;
-      console.warn(`[rag-search] ${msg}`);
-      return { kb: [], practice: [], _failed: true, _error: msg };
-    }
-
-    const data = await response.json();
-    return {
-      kb: data.kb || [],
-      practice: data.practice || [],
-      retrieval_mode: data.retrieval_mode,
-      rerank_ok: data.rerank_ok ?? data.semantic_ok,
-      rerank_error: data.rerank_error ?? data.semantic_error,
-      semantic_ok: data.semantic_ok,
-      semantic_error: data.semantic_error,
-      request_id: data.request_id,
-      _failed: false,
-    };
-  } catch (fetchErr) {
-    const msg = `vector-search fetch failed: ${fetchErr instanceof Error ? fetchErr.message : String(fetchErr)}`;
-    console.error(`[rag-search] ${msg}`);
-    return { kb: [], practice: [], _failed: true, _error: msg };
+// ─── Telemetry ──────────────────────────────────────────────────────────────
+
+/** RAGResult telemetry fields from a hybrid run (legacy names kept for consumers) */
+function hybridTelemetry(
+  fn: string,
+  resultCount: number,
+  hybrid: { stages: StageReport[]; rerank: RerankReport; error?: string },
+): Pick<RAGResult<unknown>, "retrieval_mode" | "rerank_ok" | "rerank_error" | "semantic_ok" | "semantic_error" | "stages"> {
+  const failed = hybrid.stages.filter((s) => !s.ok);
+  if (failed.length > 0) {
+    console.warn(`[rag-search/${fn}] Stages failed: ${failed.map((s) => `${s.stage}: ${s.error}`).join("; ")}`);
   }
-}
-
-// ─── Keyword Relevance Scoring ──────────────────────────────────────────────
-
-interface ScoredItem {
-  id: string;
-  title: string;
-  score: number;
-  [key: string]: unknown;
-}
-
-/** Score items by keyword overlap: title=3, reasoning/summary=2, content=1 */
-function scoreByKeywords<T extends { id: string; title: string; content_text?: string; legal_reasoning_summary?: string }>(
-  items: T[],
-  keywords: string[]
-): (T & { score: number })[] {
-  return items.map((r) => {
-    let score = 0;
-    const titleLower = (r.title || "").toLowerCase();
-    const contentLower = (r.content_text || "").toLowerCase();
-    const reasoningLower = (r.legal_reasoning_summary || "").toLowerCase();
-    for (const kw of keywords) {
-      const kwLower = kw.toLowerCase();
-      if (titleLower.includes(kwLower)) score += 3;
-      if (reasoningLower.includes(kwLower)) score += 2;
-      if (contentLower.includes(kwLower)) score += 1;
-    }
-    return { ...r, score };
-  });
-}
-
-// ─── Deduplication ──────────────────────────────────────────────────────────
-
-/** Merge arrays of items by id, preserving insertion order (first wins) */
-function dedup<T extends { id: string }>(
-  ...arrays: T[][]
-): T[] {
-  const seen = new Set<string>();
-  const out: T[] = [];
-  for (const arr of arrays) {
-    for (const item of arr) {
-      if (!seen.has(item.id)) {
-        seen.add(item.id);
-        out.push(item);
-      }
-    }
-  }
-  return out;
+  const error = [hybrid.error, hybrid.rerank.error].filter(Boolean).join("; ") || undefined;
+  return {
+    retrieval_mode: legacyRetrievalMode(resultCount, hybrid.rerank),
+    rerank_ok: !error,
+    rerank_error: error,
+    semantic_ok: !error,
+    semantic_error: error,
+    stages: hybrid.stages,
+  };
 }
 
 // ─── Knowledge Base Search ──────────────────────────────────────────────────
 
 /**
- * Hybrid KB search: vector + keyword ILIKE + FTS RPC fallback.
- * Returns deduplicated, scored, trimmed results.
+ * Hybrid KB search (see hybrid-retrieval.ts): BM25 + trigram + vector fused
+ * with RRF, optional LLM rerank. Returns scored, trimmed results.
  */
 export async function searchKB(opts: RAGKBOptions): Promise<RAGResult<KBSearchResult>> {
-  const { supabase, supabaseUrl, supabaseKey, query, referenceDate } = opts;
+  const { supabase, query, asOfDate } = opts;
+  const referenceDate = opts.referenceDate ?? asOfDate ?? null;
   const limit = opts.limit ?? 8;
   const snippetLen = opts.snippetLength ?? 4000;
-  const keywords = extractKeywords(query);
-  const safeKeywords = keywords.map(sanitizeForPostgrest).filter((k) => k.length > 0);
 
-  // Phase 1: Parallel vector + keyword search
-  const vectorPromise = callVectorSearch(supabaseUrl, query, "kb", {
-    limit: 10,
+  // Phase 1–2: hybrid retrieval + rerank
+  const hybrid = await hybridSearch("kb", {
+    supabase,
+    query,
+    limit,
     referenceDate,
+    queryVector: opts.queryVector,
+    rerank: opts.rerank ?? true,
+    userId: opts.userId,
     requestId: opts.requestId,
   });
-
-  const keywordPromise = (async (): Promise<KBSearchResult[]> => {
-    if (safeKeywords.length === 0) return [];
-    const orConditions = safeKeywords
-      .map((k) => `title.ilike.%${k}%,content_text.ilike.%${k}%`)
-      .join(",");
-    const { data, error } = await supabase
-      .from("knowledge_base")
-      .select("id, title, content_text, category, source_name")
-      .eq("is_active", true)
-      .or(orConditions)
-      .limit(50);
-    return !error && data ? data : [];
-  })();
-
-  const [vectorResults, keywordResults] = await Promise.all([vectorPromise, keywordPromise]);
-
-  // Vector results get semantic-based rank
-  const vectorItems = (vectorResults.kb || []).map((r: KBSearchResult) => ({
-    ...r,
-    score: (r.similarity || 0) * 10,
-  }));
-
-  // Keyword results get keyword-relevance score
-  const scoredKeyword = scoreByKeywords(keywordResults, keywords);
-
-  // Merge: vector first (semantic), then keyword
-  let merged = dedup(vectorItems, scoredKeyword);
-
-  // Phase 2: FTS RPC fallback if nothing found
-  if (merged.length === 0) {
-    const rpcParams: Record<string, unknown> = { search_query: query, result_limit: 20 };
-    if (referenceDate) rpcParams.reference_date = referenceDate;
-    const { data, error } = await supabase.rpc("search_knowledge_base", rpcParams);
-    if (!error && data) {
-      merged = (data as KBSearchResult[]).filter((r) => (r.rank ?? 0) > 0.001);
+  let sorted: KBSearchResult[] = hybrid.results;
+
+  // Phase 3: point-in-time — swap in the version in force on asOfDate
+  if (asOfDate && sorted.length > 0) {
+    try {
+      const asOf = await fetchKBTextAsOf(supabase, sorted.map((r) => r.id), asOfDate);
+      sorted = sorted
+        .filter((r) => asOf.has(r.id))
+        .map((r) => {
+          const v = asOf.get(r.id)!;
+          return {
+            ...r,
+            title: v.title,
+            content_text: v.content_text,
+            version_date: v.version_date ?? undefined,
+            as_of_date: asOfDate,
+            as_of_version_number: v.version_number,
+            as_of_is_current: v.is_current,
+          };
+        });
+    } catch (e) {
+      console.warn(`[rag-search/searchKB] Point-in-time resolution failed, using current text: ${e instanceof Error ? e.message : String(e)}`);
     }
   }
 
-  // Sort by score descending, trim
-  const sorted = merged
-    .sort((a, b) => (b.score ?? b.rank ?? 0) - (a.score ?? a.rank ?? 0))
-    .slice(0, limit);
-
   // Trim content
   const trimmed = sorted.map((r) => ({
     ...r,
@@ -272,127 +195,94 @@ export async function searchKB(opts: RAGKBOptions): Promise<RAGResult<KBSearchRe
     source_name: r.source_name || "RA Legal Database",
   }));
 
-  // Propagate telemetry from vector-search
-  const rerankOk = !vectorResults._failed && vectorResults.rerank_ok !== false;
-  const retrievalMode = vectorResults._failed
-    ? (merged.length > 0 ? "keyword_only" as const : "rpc_fallback" as const)
-    : (vectorResults.retrieval_mode || "keyword_only" as const);
-
-  if (vectorResults._failed) {
-    console.warn(`[rag-search/searchKB] Rerank retrieval failed: ${vectorResults._error}`);
-  }
-
   return {
     results: trimmed,
     sources,
-    retrieval_mode: retrievalMode,
-    rerank_ok: rerankOk,
-    rerank_error: vectorResults._error || vectorResults.rerank_error,
-    semantic_ok: rerankOk,
-    semantic_error: vectorResults._error || vectorResults.rerank_error,
+    ...hybridTelemetry("searchKB", trimmed.length, hybrid),
   };
 }
 
 // ─── Legal Practice Search ──────────────────────────────────────────────────
 
 /**
- * Hybrid practice search: vector + keyword ILIKE + FTS RPC fallback.
- * Returns deduplicated, scored, trimmed results.
+ * Hybrid practice search (see hybrid-retrieval.ts): BM25 + trigram + vector
+ * fused with RRF, optional LLM rerank. Returns scored results.
  */
 export async function searchPractice(opts: RAGPracticeOptions): Promise<RAGResult<PracticeSearchResult>> {
-  const { supabase, supabaseUrl, supabaseKey, query, category } = opts;
+  const { supabase, query, category } = opts;
   const limit = opts.limit ?? 5;
-  const keywords = extractKeywords(query, 8);
-  const safeKeywords = keywords.map(sanitizeForPostgrest).filter((k) => k.length > 0);
 
-  // Phase 1: Parallel vector + keyword
-  const vectorPromise = callVectorSearch(supabaseUrl, query, "practice", {
-    limit: 10,
+  const hybrid = await hybridSearch("practice", {
+    supabase,
+    query,
+    limit,
     category,
+    queryVector: opts.queryVector,
+    rerank: opts.rerank ?? true,
+    userId: opts.userId,
     requestId: opts.requestId,
   });
 
-  const keywordPromise = (async (): Promise<PracticeSearchResult[]> => {
-    if (safeKeywords.length === 0) return [];
-    const orConditions = safeKeywords
-      .map((k) => `title.ilike.%${k}%,legal_reasoning_summary.ilike.%${k}%`)
-      .join(",");
-    let q = supabase
-      .from("legal_practice_kb")
-      .select("id, title, content_text, practice_category, court_type, outcome, legal_reasoning_summary, applied_articles, key_violations, decision_date, case_number_anonymized, court_name, key_paragraphs")
-      .eq("is_active", true)
-      .or(orConditions)
-      .limit(30);
-    if (category) q = q.eq("practice_category", category);
-    const { data, error } = await q;
-    return !error && data ? data : [];
-  })();
-
-  const [vectorResults, keywordResults] = await Promise.all([vectorPromise, keywordPromise]);
-
-  // Normalize vector results (content_snippet → content_text)
-  const vectorItems = (vectorResults.practice || []).map((r: PracticeSearchResult) => ({
-    ...r,
-    content_text: r.content_text || r.content_snippet || "",
-    score: (r.similarity || 0) * 10,
-  }));
-
-  // Normalize DB field names to PracticeSearchResult shape
-  const normalizedKeyword = keywordResults.map((r: Record<string, unknown>) => ({
-    ...r,
-    case_number: r.case_number_anonymized as string | undefined,
-  })) as PracticeSearchResult[];
-
-  const scoredKeyword = scoreByKeywords(
-    normalizedKeyword as Array<PracticeSearchResult & { legal_reasoning_summary?: string }>,
-    keywords
-  );
-
-  let merged = dedup(vectorItems, scoredKeyword);
-
-  // Phase 2: FTS RPC fallback
-  if (merged.length === 0) {
-    const rpcParams: Record<string, unknown> = {
-      search_query: query,
-      result_limit: 10,
-    };
-    if (category) rpcParams.category = category;
-    const { data, error } = await supabase.rpc("search_legal_practice", rpcParams);
-    if (!error && data) {
-      merged = data as PracticeSearchResult[];
-    }
-  }
-
-  // Sort and trim
-  const sorted = merged
-    .sort((a, b) => (b.score ?? b.rank ?? b.relevance_rank ?? 0) - (a.score ?? a.rank ?? a.relevance_rank ?? 0))
-    .slice(0, limit);
-
-  const sources = sorted.map((r) => ({
+  const sources = hybrid.results.map((r) => ({
     title: r.title,
     category: r.practice_category,
   }));
 
-  const rerankOk = !vectorResults._failed && vectorResults.rerank_ok !== false;
-  const retrievalMode = vectorResults._failed
-    ? (merged.length > 0 ? "keyword_only" as const : "rpc_fallback" as const)
-    : (vectorResults.retrieval_mode || "keyword_only" as const);
-
-  if (vectorResults._failed) {
-    console.warn(`[rag-search/searchPractice] Rerank retrieval failed: ${vectorResults._error}`);
-  }
-
   return {
-    results: sorted,
+    results: hybrid.results,
     sources,
-    retrieval_mode: retrievalMode,
-    rerank_ok: rerankOk,
-    rerank_error: vectorResults._error || vectorResults.rerank_error,
-    semantic_ok: rerankOk,
-    semantic_error: vectorResults._error || vectorResults.rerank_error,
+    ...hybridTelemetry("searchPractice", hybrid.results.length, hybrid),
   };
 }
 
+/**
+ * Citation-graph expansion: decisions cited by, citing, or interpreting the
+ * same norms as the seed results (get_practice_graph_neighbors). Never throws —
+ * the graph is an extra signal, not a retrieval path of its own.
+ */
+export async function searchPracticeGraph(
+  supabase: SupabaseClient,
+  seeds: PracticeSearchResult[],
+  opts: { limit: number; category?: string | null },
+): Promise<PracticeSearchResult[]> {
+  const seedIds = seeds.map((r) => r.id).filter(Boolean);
+  if (seedIds.length === 0 || opts.limit <= 0) return [];
+
+  try {
+    const { data: neighbors, error } = await supabase.rpc("get_practice_graph_neighbors", {
+      _seed_ids: seedIds,
+      _category: opts.category || null,
+      _limit: opts.limit,
+    });
+    if (error || !neighbors?.length) {
+      if (error) console.warn(`[rag-search/searchPracticeGraph] ${error.message}`);
+      return [];
+    }
+
+    const byId = new Map<string, { score: number; via: string }>(
+      (neighbors as Array<{ id: string; score: number; via: string }>).map((n) => [n.id, n]),
+    );
+    const { data: rows, error: rowsError } = await supabase
+      .from("legal_practice_kb")
+      .select(PRACTICE_SELECT_COLUMNS)
+      .in("id", [...byId.keys()])
+      .eq("is_active", true);
+    if (rowsError || !rows) return [];
+
+    return (rows as Array<Record<string, unknown>>)
+      .map((r) => ({
+        ...r,
+        case_number: r.case_number_anonymized as string | undefined,
+        score: byId.get(r.id as string)?.score,
+        graph_via: byId.get(r.id as string)?.via,
+      }) as PracticeSearchResult)
+      .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+  } catch (e) {
+    console.warn("[rag-search/searchPracticeGraph] failed:", e);
+    return [];
+  }
+}
+
 // ─── Formatters ─────────────────────────────────────────────────────────────
 
 /** Format KB results into context string for AI prompt */
@@ -401,7 +291,7 @@ export function formatKBContext(results: KBSearchResult[], snippetLength = 4000)
   return results
     .map(
       (r, i) =>
-        `[${i + 1}] ${r.title} (${r.category}, ${r.source_name || "N/A"}):\n${(r.content_text || "").substring(0, snippetLength)}`
+        `[${i + 1}] ${r.title} (${r.category}, ${r.source_name || "N/A"})${r.as_of_date ? ` [TEXT AS OF ${r.as_of_date}, v${r.as_of_version_number}${r.as_of_is_current ? "" : ", superseded"}]` : ""}:\n${(r.content_text || "").substring(0, snippetLength)}`
     )
     .join("\n\n---\n\n");
 }
@@ -442,6 +332,7 @@ export function formatPracticeContext(results: PracticeSearchResult[], _fullText
       if (r.decision_date) lines.push(`Date: ${r.decision_date}`);
       if (r.case_number) lines.push(`CaseNo: ${r.case_number}`);
       lines.push(`ID: ${r.id || "unknown"}`);
+      if (r.graph_via) lines.push(`GraphLink: ${r.graph_via}`);
       if (excerpt) {
         lines.push("Excerpt:");
         lines.push(excerpt);
@@ -489,23 +380,37 @@ export interface DualRAGResult {
  * returns formatted context strings ready for AI prompt injection.
  */
 export async function dualSearch(opts: RAGSearchOptions & {
+  /** Point-in-time date for KB text (see RAGKBOptions.asOfDate) */
+  asOfDate?: string | null;
   kbLimit?: number;
   practiceLimit?: number;
   kbSnippetLength?: number;
   fullPracticeText?: boolean;
+  /** Extra practice results from the citation graph of the top hits (default: 0 = off) */
+  graphLimit?: number;
 }): Promise<DualRAGResult> {
+  // One embedding for both indexes
+  const queryVector = opts.queryVector !== undefined ? opts.queryVector : await embedQuery(opts.query);
   const [kb, practice] = await Promise.all([
     searchKB({
       ...opts,
+      queryVector,
       limit: opts.kbLimit ?? 8,
       snippetLength: opts.kbSnippetLength ?? 4000,
     }),
     searchPractice({
       ...opts,
+      queryVector,
       limit: opts.practiceLimit ?? 5,
     }),
   ]);
 
+  const graphResults = await searchPracticeGraph(opts.supabase, practice.results, {
+    limit: opts.graphLimit ?? 0,
+    category: opts.category,
+  });
+  const practiceResults = [...practice.results, ...graphResults];
+
   // Aggregate telemetry
   const rerankOk = (kb.rerank_ok !== false) && (practice.rerank_ok !== false);
   const errors = [kb.rerank_error, practice.rerank_error].filter(Boolean).join("; ");
@@ -534,9 +439,14 @@ export async function dualSearch(opts: RAGSearchOptions & {
       semantic_error: sanitizedError,
       kb_results_count: kb.results.length,
       practice_results_count: practice.results.length,
+      graph_results_count: graphResults.length,
       kb_retrieval_mode: kb.retrieval_mode || null,
       practice_retrieval_mode: practice.retrieval_mode || null,
       vector_search_failed: !!(kb.rerank_error || practice.rerank_error),
+      stage_counts: {
+        kb: Object.fromEntries((kb.stages ?? []).map((s) => [s.stage, s.ok ? s.count : null])),
+        practice: Object.fromEntries((practice.stages ?? []).map((s) => [s.stage, s.ok ? s.count : null])),
+      },
     };
     opts.supabase.rpc("log_api_usage", {
       _service_type: "rag_retrieval",
@@ -553,10 +463,14 @@ export async function dualSearch(opts: RAGSearchOptions & {
 
   return {
     kbContext: formatKBContext(kb.results, opts.kbSnippetLength ?? 4000),
-    practiceContext: formatPracticeContext(practice.results, opts.fullPracticeText ?? true),
+    practiceContext: formatPracticeContext(practiceResults, opts.fullPracticeText ?? true),
     kbResults: kb.results,
-    practiceResults: practice.results,
-    sources: [...kb.sources, ...practice.sources],
+    practiceResults,
+    sources: [
+      ...kb.sources,
+      ...practice.sources,
+      ...graphResults.map((r) => ({ title: r.title, category: r.practice_category })),
+    ],
     retrieval_mode: retrievalMode,
     rerank_ok: rerankOk,
     rerank_error: errors || undefined,
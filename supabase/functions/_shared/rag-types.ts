@@ -2,6 +2,31 @@
 // SHARED RAG TYPES — Single source of truth for search result shapes
 // =============================================================================
 
+/** Candidate stage of the hybrid retrieval pipeline (hybrid-retrieval.ts) */
+export type RetrievalStage = "bm25" | "lemma" | "trigram" | "vector";
+
+/** Per-stage scores of a hybrid retrieval result, for debugging */
+export interface RetrievalScores {
+  bm25: number | null;
+  lemma: number | null;
+  trigram: number | null;
+  vector: number | null;
+  rrf: number;
+  /** 0-1 relevance from the LLM rerank, null when not reranked */
+  rerank: number | null;
+  /** 1-based rank per stage that returned the document */
+  ranks: Partial<Record<RetrievalStage, number>>;
+}
+
+/** Outcome of one retrieval stage */
+export interface StageReport {
+  stage: RetrievalStage;
+  ok: boolean;
+  count: number;
+  latency_ms: number;
+  error?: string;
+}
+
 /** Knowledge-base document returned by vector-search / search_knowledge_base RPC */
 export interface KBSearchResult {
   id: string;
@@ -13,6 +38,14 @@ export interface KBSearchResult {
   similarity?: number;
   rank?: number;
   score?: number;
+  /** Set when searched with asOfDate: the date the text was resolved for */
+  as_of_date?: string;
+  /** kb_versions.version_number (or knowledge_base.current_version) of the returned text */
+  as_of_version_number?: number;
+  /** False if the returned text has since been superseded */
+  as_of_is_current?: boolean;
+  /** Set by hybrid retrieval */
+  retrieval_scores?: RetrievalScores;
 }
 
 /** Legal-practice document returned by vector-search / search_legal_practice RPC */
@@ -40,6 +73,10 @@ export interface PracticeSearchResult {
   relevance_rank?: number;
   relevance_score?: number;
   score?: number;
+  /** Set when the result was added through the citation graph (see get_practice_graph_neighbors) */
+  graph_via?: string;
+  /** Set by hybrid retrieval */
+  retrieval_scores?: RetrievalScores;
 }
 
 /** Shape returned by the vector-search edge function */
@@ -56,6 +93,8 @@ export interface VectorSearchResponse {
   semantic_ok?: boolean;
   /** @deprecated Use rerank_error */
   semantic_error?: string;
+  /** Per-index stage outcomes of the hybrid pipeline */
+  stages?: { kb?: StageReport[]; practice?: StageReport[] };
   /** Request tracing ID */
   request_id?: string;
 }
@@ -0,0 +1,112 @@
+// =============================================================================
+// SSE — Test Suite
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { readSSEData, withEventStream } from "./sse.ts";
+
+const CORS = { "Access-Control-Allow-Origin": "*" };
+
+function bodyOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(c) {
+      for (const chunk of chunks) c.enqueue(encoder.encode(chunk));
+      c.close();
+    },
+  });
+}
+
+async function collect(body: ReadableStream<Uint8Array>): Promise<string[]> {
+  const out: string[] = [];
+  for await (const payload of readSSEData(body)) out.push(payload);
+  return out;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+}
+
+function request(stream: boolean): Request {
+  return new Request("http://localhost/fn", {
+    method: "POST",
+    headers: stream ? { Accept: "text/event-stream" } : {},
+  });
+}
+
+// ---------------------------------------------------------------------------
+// readSSEData
+// ---------------------------------------------------------------------------
+
+Deno.test("readSSEData joins lines split across chunks and stops at [DONE]", async () => {
+  const payloads = await collect(bodyOf(
+    'data: {"a":',
+    '1}\r\n\r\n: keep-alive\n\ndata: {"b":2}\n\n',
+    "data: [DONE]\n\ndata: {\"c\":3}\n\n",
+  ));
+  assertEquals(payloads, ['{"a":1}', '{"b":2}']);
+});
+
+Deno.test("readSSEData flushes a final line without a trailing newline", async () => {
+  assertEquals(await collect(bodyOf("event: x\ndata: last")), ["last"]);
+});
+
+// ---------------------------------------------------------------------------
+// withEventStream
+// ---------------------------------------------------------------------------
+
+Deno.test("withEventStream passes the handler response through without Accept header", async () => {
+  let sawSink = true;
+  const res = await withEventStream(request(false), CORS, (sink) => {
+    sawSink = sink !== null;
+    return Promise.resolve(jsonResponse({ ok: true }));
+  });
+  assertEquals(sawSink, false);
+  assertEquals(await res.json(), { ok: true });
+});
+
+Deno.test("withEventStream keeps JSON and status when the handler never streams", async () => {
+  const res = await withEventStream(request(true), CORS, () => Promise.resolve(jsonResponse({ error: "Unauthorized" }, 401)));
+  assertEquals(res.status, 401);
+  assertEquals(res.headers.get("Content-Type"), "application/json");
+});
+
+Deno.test("withEventStream sends deltas, then the final body and [DONE]", async () => {
+  const res = await withEventStream(request(true), CORS, (sink) => {
+    sink!.delta("Hel");
+    sink!.delta("");
+    sink!.delta("lo");
+    return Promise.resolve(jsonResponse({ content: "Hello", id: "d1" }));
+  });
+  assertEquals(res.headers.get("Content-Type"), "text/event-stream");
+  const events = (await collect(res.body!)).map((p) => JSON.parse(p));
+  assertEquals(events, [
+    { type: "delta", text: "Hel" },
+    { type: "delta", text: "lo" },
+    { type: "final", data: { content: "Hello", id: "d1" } },
+  ]);
+});
+
+Deno.test("withEventStream turns a late error response into an error event", async () => {
+  const res = await withEventStream(request(true), CORS, (sink) => {
+    sink!.delta("partial");
+    return Promise.resolve(jsonResponse({ error: "Rate limit exceeded", code: "X" }, 429));
+  });
+  const events = (await collect(res.body!)).map((p) => JSON.parse(p));
+  assertEquals(events[1], { type: "error", status: 429, error: "Rate limit exceeded", code: "X" });
+});
+
+Deno.test("withEventStream aborts the sink signal when the client cancels", async () => {
+  let signal: AbortSignal | null = null;
+  let release: () => void = () => {};
+  const done = new Promise<void>((r) => (release = r));
+  const res = await withEventStream(request(true), CORS, async (sink) => {
+    signal = sink!.signal;
+    sink!.delta("x");
+    await done;
+    return jsonResponse({ error: "Cancelled" }, 499);
+  });
+  await res.body!.cancel();
+  assertEquals(signal!.aborted, true);
+  release();
+});
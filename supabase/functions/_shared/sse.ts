@@ -0,0 +1,166 @@
+// =============================================================================
+// SSE — Server-sent events for streaming edge functions
+// Used by: openai-router (callTextStream), ai-analyze, generate-document
+// =============================================================================
+//
+// Wire format of a streamed response, one JSON object per `data:` line:
+//
+//   data: {"type":"delta","text":"..."}        partial model output
+//   data: {"type":"final","data":{...}}        the body the JSON response would have
+//   data: {"type":"error","status":429,...}    error body + the HTTP status it would have
+//   data: [DONE]
+//
+// A client opts in with `Accept: text/event-stream`. The handler answers with
+// plain JSON until it emits its first delta, so auth, validation and quota
+// errors keep their HTTP status and roles that do not stream are unaffected.
+// =============================================================================
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export type StreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "final"; data: unknown }
+  | ({ type: "error"; status: number; error: string } & Record<string, unknown>);
+
+/** Handed to the handler when the client asked for a stream */
+export interface StreamSink {
+  /** Send a chunk of model output; the first call switches the response to SSE */
+  delta(text: string): void;
+  /** Aborted when the client disconnects or cancels the stream */
+  signal: AbortSignal;
+}
+
+// ─── Encoding / decoding ────────────────────────────────────────────────────
+
+const encoder = new TextEncoder();
+
+export function encodeStreamEvent(event: StreamEvent | "[DONE]"): Uint8Array {
+  return encoder.encode(`data: ${event === "[DONE]" ? event : JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Payloads of the `data:` lines of an SSE body, up to `[DONE]`. Comments,
+ * blank lines and other fields are skipped.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = done ? "" : lines.pop() ?? "";
+      for (const raw of lines) {
+        const line = raw.replace(/\r$/, "");
+        if (!line.startsWith("data:")) continue;
+        const payload = line.slice(5).trim();
+        if (payload === "[DONE]") return;
+        if (payload) yield payload;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// ─── Responses ──────────────────────────────────────────────────────────────
+
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.get("Accept") ?? "").includes("text/event-stream");
+}
+
+/**
+ * Run a handler that may stream. Without `Accept: text/event-stream` the
+ * handler gets no sink and its Response is returned as is. Otherwise the
+ * response turns into an SSE stream at the first delta; the handler's final
+ * JSON Response is then sent as a `final` (2xx) or `error` event. A handler
+ * that never emits a delta answers with its Response unchanged.
+ */
+export function withEventStream(
+  req: Request,
+  corsHeaders: Record<string, string>,
+  handler: (sink: StreamSink | null) => Promise<Response>,
+): Promise<Response> {
+  if (!wantsEventStream(req)) return handler(null);
+
+  return new Promise<Response>((resolve) => {
+    const abort = new AbortController();
+    req.signal?.addEventListener("abort", () => abort.abort());
+
+    let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+    let closed = false;
+
+    const send = (event: StreamEvent | "[DONE]") => {
+      if (!controller || closed) return;
+      try {
+        controller.enqueue(encodeStreamEvent(event));
+      } catch {
+        closed = true;
+      }
+    };
+
+    const close = () => {
+      send("[DONE]");
+      if (controller && !closed) {
+        closed = true;
+        try {
+          controller.close();
+        } catch { /* already cancelled */ }
+      }
+    };
+
+    const open = () => {
+      if (controller) return;
+      const stream = new ReadableStream<Uint8Array>({
+        start(c) {
+          controller = c;
+        },
+        cancel() {
+          closed = true;
+          abort.abort();
+        },
+      });
+      resolve(new Response(stream, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+        },
+      }));
+    };
+
+    const sink: StreamSink = {
+      delta(text: string) {
+        if (!text) return;
+        open();
+        send({ type: "delta", text });
+      },
+      signal: abort.signal,
+    };
+
+    handler(sink).then(
+      async (res) => {
+        if (!controller) return resolve(res);
+        const body = await res.json().catch(() => ({ error: "Invalid response" }));
+        send(res.ok
+          ? { type: "final", data: body }
+          : { ...body, type: "error", status: res.status, error: String(body?.error ?? res.statusText) });
+        close();
+      },
+      (e) => {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        if (!controller) {
+          return resolve(new Response(
+            JSON.stringify({ error: message }),
+            { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+          ));
+        }
+        send({ type: "error", status: 500, error: message });
+        close();
+      },
+    );
+  });
+}
@@ -0,0 +1,94 @@
+// =============================================================================
+// Transcript Contradictions — Test Suite
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  formatContradictionInput,
+  normalizeContradictions,
+  rankExcerpts,
+  selectQueryStatements,
+  type ExcerptHit,
+  type PriorExcerpt,
+  type SpeakerStatement,
+} from "./transcript-contradictions.ts";
+
+const statements: SpeakerStatement[] = [
+  { segment_id: "a", start_ms: 65_000, end_ms: 80_000, text: "I left the shop at about nine in the evening, alone." },
+  { segment_id: "b", start_ms: 120_000, end_ms: 130_000, text: "Yes." },
+  { segment_id: "c", start_ms: 3_725_000, end_ms: 3_740_000, text: "I never saw the defendant's car that night, I am sure of it." },
+];
+
+const excerpt = (ref: string, volume: number | null, page: number | null): PriorExcerpt => ({
+  ref,
+  chunk_id: `chunk-${ref}`,
+  source_type: volume === null ? "ocr" : "volume",
+  file_id: null,
+  file_name: volume === null ? "statement.pdf" : null,
+  volume_id: volume === null ? null : `vol-${volume}`,
+  volume_number: volume,
+  volume_title: volume === null ? null : `Volume ${volume}`,
+  page_start: page,
+  page_end: page === null ? null : page + 1,
+  page_estimated: false,
+  text: "Interrogation record. I left at eleven together with Aram.",
+});
+
+const hit = (id: string, source_type: ExcerptHit["source_type"], similarity: number, keyword_match = false): ExcerptHit => ({
+  id,
+  source_type,
+  file_id: null,
+  volume_id: null,
+  label: null,
+  chunk_text: id,
+  page_start: null,
+  page_end: null,
+  page_estimated: false,
+  similarity,
+  keyword_match,
+});
+
+Deno.test("queries are the longest distinct statements", () => {
+  const queries = selectQueryStatements([...statements, { ...statements[0], segment_id: "d" }], 5);
+  assertEquals(queries, [statements[2].text, statements[0].text]);
+});
+
+Deno.test("excerpts skip the hearing, merge queries and favour name matches", () => {
+  const ranked = rankExcerpts([
+    [hit("v1", "volume", 0.6), hit("t1", "transcript", 0.9)],
+    [hit("o1", "ocr", 0.5, true), hit("v1", "volume", 0.7), hit("v2", "volume", 0.3)],
+  ], 2);
+  assertEquals(ranked.map((h) => [h.id, h.similarity]), [["v1", 0.7], ["o1", 0.5]]);
+});
+
+Deno.test("input numbers statements and locates excerpts", () => {
+  const input = formatContradictionInput(statements, [excerpt("E1", 2, 14), excerpt("E2", null, null)]);
+  assertEquals(input.included, 3);
+  assertEquals(input.statements.split("\n")[0], "[T1 1:05] I left the shop at about nine in the evening, alone.");
+  assertEquals(input.statements.split("\n")[2].startsWith("[T3 1:02:05]"), true);
+  assertEquals(input.excerpts.split("\n\n").map((b) => b.split("\n")[0]), [
+    "[E1] VOLUME 2, PAGE 14-15, Volume 2",
+    "[E2] statement.pdf",
+  ]);
+});
+
+Deno.test("locators come from the references, unknown references are dropped", () => {
+  const excerpts = [excerpt("E1", 2, 14), excerpt("E2", null, null)];
+  const result = normalizeContradictions({
+    contradictions: [
+      { statement_ref: "T3", excerpt_ref: "E1", prior_quote: "I saw his car by the gate.", severity: "high", transcript_quote: "I never saw the car" },
+      { statement_ref: "T1", excerpt_ref: "e1", prior_quote: "I left at eleven together with Aram.", severity: "critical" },
+      { statement_ref: "T1", excerpt_ref: "E1", prior_quote: "Duplicate pair" },
+      { statement_ref: "T9", excerpt_ref: "E1", prior_quote: "No such statement" },
+      { statement_ref: "T2", excerpt_ref: "E7", prior_quote: "No such excerpt" },
+      { statement_ref: "T2", excerpt_ref: "E2", prior_quote: "" },
+    ],
+  }, statements, excerpts);
+
+  assertEquals(result.map((c) => [c.segment_id, c.start_ms, c.chunk_id, c.volume_number, c.page_start, c.severity]), [
+    ["a", 65_000, "chunk-E1", 2, 14, "medium"],
+    ["c", 3_725_000, "chunk-E1", 2, 14, "high"],
+  ]);
+  assertEquals(result[0].transcript_quote, statements[0].text);
+  assertEquals(normalizeContradictions({ contradictions: "none" }, statements, excerpts), []);
+});
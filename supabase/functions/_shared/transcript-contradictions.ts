@@ -0,0 +1,281 @@
+// =============================================================================
+// TRANSCRIPT CONTRADICTIONS — Hearing testimony vs. earlier statements
+// Used by: transcript-contradictions
+// =============================================================================
+//
+// One speaker's turns from transcript_segments are compared with excerpts of
+// the case volumes and OCR results retrieved from the case-search index
+// (case_chunks). The model only returns references ("T3", "E2") to the
+// statements and excerpts it was given; timestamps and volume / page
+// locators are taken from those, never from the model output, so a
+// contradiction cannot cite a page the excerpt does not come from.
+// =============================================================================
+
+import { transcriptTimestamp } from "./transcript-segments.ts";
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+/** One turn of the selected speaker */
+export interface SpeakerStatement {
+  segment_id: string;
+  start_ms: number;
+  end_ms: number;
+  text: string;
+}
+
+/** Row returned by search_case_chunks() */
+export interface ExcerptHit {
+  id: string;
+  source_type: "ocr" | "transcript" | "volume";
+  file_id: string | null;
+  volume_id: string | null;
+  label: string | null;
+  chunk_text: string;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+  similarity: number;
+  keyword_match: boolean;
+}
+
+/** A retrieved earlier statement, with the locator shown to the model */
+export interface PriorExcerpt {
+  ref: string;
+  chunk_id: string;
+  source_type: "ocr" | "volume";
+  file_id: string | null;
+  file_name: string | null;
+  volume_id: string | null;
+  volume_number: number | null;
+  volume_title: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+  text: string;
+}
+
+export type ContradictionSeverity = "high" | "medium" | "low";
+
+export interface Contradiction {
+  segment_id: string;
+  start_ms: number;
+  end_ms: number;
+  transcript_quote: string;
+  prior_quote: string;
+  explanation: string;
+  severity: ContradictionSeverity;
+  chunk_id: string;
+  source_type: "ocr" | "volume";
+  file_id: string | null;
+  file_name: string | null;
+  volume_id: string | null;
+  volume_number: number | null;
+  volume_title: string | null;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+}
+
+// ─── Limits ─────────────────────────────────────────────────────────────────
+
+const MIN_QUERY_CHARS = 40;
+const MAX_QUERY_CHARS = 500;
+const MAX_EXCERPT_CHARS = 2_500;
+const MAX_STATEMENT_CHARS = 40_000;
+// A name found literally outranks a merely similar passage
+const KEYWORD_BONUS = 0.15;
+
+// ─── Prompt ─────────────────────────────────────────────────────────────────
+
+export const CONTRADICTIONS_PROMPT = `You are a Senior Trial Impeachment Analyst specializing in the legal system of the Republic of Armenia.
+
+JURISDICTION: Republic of Armenia ONLY.
+ALLOWED SOURCES: Only the hearing statements and case-file excerpts provided by the user. No external knowledge.
+
+## OBJECTIVE
+
+Compare what one person said at a court hearing (statements T1, T2, ...) with that person's earlier statements in the case file (excerpts E1, E2, ...: interrogation records, explanations, confrontations, written statements) and list every contradiction.
+
+## WHAT COUNTS AS A CONTRADICTION
+
+- The same fact is described differently: time, place, sequence of events, participants, amounts, distances, objects
+- A fact is asserted at the hearing and denied earlier, or the reverse
+- The person now claims not to remember something described in detail earlier
+- A new material detail appears at the hearing that is absent from a detailed earlier account of the same episode
+
+## STRICT RULES
+
+- Only use excerpts that record statements of THIS person; ignore excerpts where someone else speaks about them
+- Quote both sides verbatim and briefly (one or two sentences each)
+- Do NOT report differences in wording that do not change the meaning
+- Do NOT invent statements, excerpts or references; use only the T and E references given
+- If there are no contradictions, return an empty list
+- Write quotes in the language of the source; write explanations in the language of the materials
+
+## SEVERITY
+
+- high: contradicts a fact material to the charge or claim
+- medium: contradicts a circumstantial detail that affects credibility
+- low: a minor inconsistency
+
+## OUTPUT
+
+Return VALID JSON ONLY. No markdown, no commentary outside JSON.`;
+
+export const CONTRADICTIONS_SCHEMA = {
+  contradictions: [
+    {
+      statement_ref: "T1",
+      excerpt_ref: "E1",
+      transcript_quote: "",
+      prior_quote: "",
+      explanation: "",
+      severity: "medium",
+    },
+  ],
+};
+
+// ─── Retrieval ──────────────────────────────────────────────────────────────
+
+/** The longest distinct statements, trimmed, as search queries */
+export function selectQueryStatements(statements: SpeakerStatement[], max: number): string[] {
+  const seen = new Set<string>();
+  return statements
+    .map((s) => s.text.replace(/\s+/g, " ").trim())
+    .filter((text) => text.length >= MIN_QUERY_CHARS)
+    .sort((a, b) => b.length - a.length)
+    .filter((text) => {
+      const key = text.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, max)
+    .map((text) => text.substring(0, MAX_QUERY_CHARS));
+}
+
+/**
+ * Merges the hits of several queries into the best `max` case-file excerpts.
+ * Transcript chunks are skipped: the hearing itself is not a prior statement.
+ */
+export function rankExcerpts(hitLists: ExcerptHit[][], max: number): ExcerptHit[] {
+  const best = new Map<string, { hit: ExcerptHit; score: number }>();
+  for (const hits of hitLists) {
+    for (const hit of hits) {
+      if (hit.source_type === "transcript") continue;
+      const score = hit.similarity + (hit.keyword_match ? KEYWORD_BONUS : 0);
+      const prev = best.get(hit.id);
+      if (!prev || score > prev.score) best.set(hit.id, { hit, score });
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, max)
+    .map((b) => b.hit);
+}
+
+// ─── Message ────────────────────────────────────────────────────────────────
+
+function excerptLocator(e: PriorExcerpt): string {
+  const parts: string[] = [];
+  if (e.volume_number !== null) parts.push(`VOLUME ${e.volume_number}`);
+  if (e.page_start !== null) {
+    const pages = e.page_end !== null && e.page_end !== e.page_start ? `${e.page_start}-${e.page_end}` : `${e.page_start}`;
+    parts.push(`PAGE ${pages}${e.page_estimated ? " (approx.)" : ""}`);
+  }
+  const name = e.volume_title ?? e.file_name;
+  if (name) parts.push(name);
+  return parts.join(", ");
+}
+
+/**
+ * Numbered statements and excerpts for the user message. Statements past the
+ * character budget are left out; returns how many were included.
+ */
+export function formatContradictionInput(
+  statements: SpeakerStatement[],
+  excerpts: PriorExcerpt[],
+): { statements: string; excerpts: string; included: number } {
+  const lines: string[] = [];
+  let chars = 0;
+  for (let i = 0; i < statements.length; i++) {
+    const line = `[T${i + 1} ${transcriptTimestamp(statements[i].start_ms)}] ${statements[i].text.replace(/\s+/g, " ").trim()}`;
+    if (chars + line.length > MAX_STATEMENT_CHARS && lines.length > 0) break;
+    lines.push(line);
+    chars += line.length;
+  }
+  const blocks = excerpts.map((e) => {
+    const text = e.text.replace(/\s+/g, " ").trim();
+    const body = text.length > MAX_EXCERPT_CHARS ? `${text.substring(0, MAX_EXCERPT_CHARS)}\u2026` : text;
+    return `[${e.ref}] ${excerptLocator(e)}\n${body}`;
+  });
+  return { statements: lines.join("\n"), excerpts: blocks.join("\n\n"), included: lines.length };
+}
+
+// ─── Result ─────────────────────────────────────────────────────────────────
+
+function refIndex(value: unknown, prefix: string): number | null {
+  const s = typeof value === "number" ? String(value) : typeof value === "string" ? value.trim().toUpperCase() : "";
+  const m = s.match(new RegExp(`^${prefix}?(\\d+)$`));
+  return m ? parseInt(m[1], 10) - 1 : null;
+}
+
+function text(value: unknown): string {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim() : "";
+}
+
+function toSeverity(value: unknown): ContradictionSeverity {
+  return value === "high" || value === "low" ? value : "medium";
+}
+
+/**
+ * Model output → contradictions in hearing order. Items citing a statement or
+ * excerpt that was not given, or without the earlier quote, are dropped;
+ * repeated statement / excerpt pairs are kept once.
+ */
+export function normalizeContradictions(
+  raw: unknown,
+  statements: SpeakerStatement[],
+  excerpts: PriorExcerpt[],
+): Contradiction[] {
+  const items = (raw as { contradictions?: unknown })?.contradictions;
+  if (!Array.isArray(items)) return [];
+
+  const seen = new Set<string>();
+  const out: Contradiction[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    const r = item as Record<string, unknown>;
+    const si = refIndex(r.statement_ref, "T");
+    const ei = refIndex(r.excerpt_ref, "E");
+    const statement = si !== null ? statements[si] : undefined;
+    const excerpt = ei !== null ? excerpts[ei] : undefined;
+    const priorQuote = text(r.prior_quote);
+    if (!statement || !excerpt || !priorQuote) continue;
+
+    const key = `${si}:${ei}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    out.push({
+      segment_id: statement.segment_id,
+      start_ms: statement.start_ms,
+      end_ms: statement.end_ms,
+      transcript_quote: text(r.transcript_quote) || statement.text,
+      prior_quote: priorQuote,
+      explanation: text(r.explanation),
+      severity: toSeverity(r.severity),
+      chunk_id: excerpt.chunk_id,
+      source_type: excerpt.source_type,
+      file_id: excerpt.file_id,
+      file_name: excerpt.file_name,
+      volume_id: excerpt.volume_id,
+      volume_number: excerpt.volume_number,
+      volume_title: excerpt.volume_title,
+      page_start: excerpt.page_start,
+      page_end: excerpt.page_end,
+      page_estimated: excerpt.page_estimated,
+    });
+  }
+  return out.sort((a, b) => a.start_ms - b.start_ms);
+}
@@ -0,0 +1,84 @@
+// =============================================================================
+// Transcript Segments — Test Suite
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  parseTimeMs,
+  parseTranscriptSegments,
+  renderTranscriptText,
+  summarizeSegments,
+  transcriptTimestamp,
+} from "./transcript-segments.ts";
+
+Deno.test("parseTimeMs reads seconds and clock times", () => {
+  assertEquals(parseTimeMs(12.5), 12500);
+  assertEquals(parseTimeMs("7"), 7000);
+  assertEquals(parseTimeMs("1:05"), 65000);
+  assertEquals(parseTimeMs("[1:02:03]"), 3723000);
+  assertEquals(parseTimeMs("00:04,5"), 4500);
+  assertEquals(parseTimeMs(-1), null);
+  assertEquals(parseTimeMs("soon"), null);
+});
+
+Deno.test("JSON segments are sorted, renumbered by first speaker and cleaned", () => {
+  const content = "```json\n" + JSON.stringify({
+    segments: [
+      { start: 8, end: 12, speaker: 1, text: "Defense is ready.", confidence: 0.9 },
+      { start: 0, end: 8, speaker: "Speaker 2", text: " Good afternoon. ", confidence: 95 },
+      { start: 12, speaker: 2, text: "Proceed.", confidence: "x" },
+      { start: 20, end: 25, speaker: 3, text: "" },
+      { end: 30, speaker: 3, text: "no start" },
+    ],
+  }) + "\n```";
+
+  assertEquals(parseTranscriptSegments(content), [
+    { seq: 0, start_ms: 0, end_ms: 8000, speaker: "S1", text: "Good afternoon.", confidence: 0.95 },
+    { seq: 1, start_ms: 8000, end_ms: 12000, speaker: "S2", text: "Defense is ready.", confidence: 0.9 },
+    { seq: 2, start_ms: 12000, end_ms: 12000, speaker: "S1", text: "Proceed.", confidence: null },
+  ]);
+});
+
+Deno.test("legacy [MM:SS] lines end where the next segment starts", () => {
+  const content = [
+    "[0:00] Спикер 1: Добрый день.",
+    "[0:08] Спикер 2: Защита готова,",
+    "ваша честь.",
+    "[1:00:05] Спикер 1: Перерыв.",
+  ].join("\n");
+
+  const segments = parseTranscriptSegments(content);
+  assertEquals(segments.map((s) => [s.start_ms, s.end_ms, s.speaker]), [
+    [0, 8000, "S1"],
+    [8000, 3605000, "S2"],
+    [3605000, 3605000, "S1"],
+  ]);
+  assertEquals(segments[1].text, "Защита готова, ваша честь.");
+});
+
+Deno.test("unstructured text yields no segments", () => {
+  assertEquals(parseTranscriptSegments("Just a paragraph of text."), []);
+  assertEquals(parseTranscriptSegments('{"segments": "none"}'), []);
+});
+
+Deno.test("renderTranscriptText uses speaker names and case-chunker timestamps", () => {
+  const segments = parseTranscriptSegments(JSON.stringify([
+    { start: 0, end: 5, speaker: 1, text: "Opening." },
+    { start: 3725, end: 3730, speaker: 2, text: "Objection." },
+  ]));
+  assertEquals(
+    renderTranscriptText(segments, { S1: { name: "Judge Petrosyan", role: "judge" }, S2: { name: " " } }),
+    "[0:00] Judge Petrosyan: Opening.\n[1:02:05] Speaker 2: Objection.",
+  );
+  assertEquals(transcriptTimestamp(59999), "0:59");
+});
+
+Deno.test("summarizeSegments weights confidence by segment length", () => {
+  const segments = parseTranscriptSegments(JSON.stringify([
+    { start: 0, end: 30, speaker: 1, text: "a", confidence: 0.9 },
+    { start: 30, end: 40, speaker: 2, text: "b", confidence: 0.5 },
+    { start: 40, end: 61.4, speaker: 1, text: "c" },
+  ]));
+  assertEquals(summarizeSegments(segments), { speakers_count: 2, duration_seconds: 61, confidence: 0.8 });
+  assertEquals(summarizeSegments([]), { speakers_count: 0, duration_seconds: 0, confidence: null });
+});
@@ -0,0 +1,182 @@
+// =============================================================================
+// TRANSCRIPT SEGMENTS — Diarized, timestamped transcript from the model output
+// Used by: audio-transcribe
+// =============================================================================
+//
+// The model is asked for JSON segments ({ start, end, speaker, text,
+// confidence }, times in seconds). Older prompts and some model replies still
+// come back as "[MM:SS] Спикер N: text" lines; those are parsed too, with each
+// segment ending where the next one starts.
+//
+// Speakers are renumbered by first appearance ("S1" speaks first), the ids
+// transcript_segments.speaker and speaker_labels use.
+// renderTranscriptText() mirrors render_transcript_text() in SQL.
+// =============================================================================
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface TranscriptSegment {
+  seq: number;
+  start_ms: number;
+  end_ms: number;
+  /** "S1", "S2", … */
+  speaker: string;
+  text: string;
+  /** 0..1, null when the model gave none */
+  confidence: number | null;
+}
+
+/** audio_transcriptions.speaker_labels */
+export type SpeakerLabels = Record<string, { name?: string | null; role?: string | null; party_id?: string | null }>;
+
+export interface TranscriptSummary {
+  speakers_count: number;
+  duration_seconds: number;
+  /** Duration-weighted mean of the segment confidences; null when none has one */
+  confidence: number | null;
+}
+
+interface RawSegment {
+  start_ms: number;
+  end_ms: number | null;
+  speaker: string;
+  text: string;
+  confidence: number | null;
+}
+
+// ─── Parsing ────────────────────────────────────────────────────────────────
+
+/** Seconds (number or numeric string) or "[H:]MM:SS[.s]" → milliseconds */
+export function parseTimeMs(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) && value >= 0 ? Math.round(value * 1000) : null;
+  if (typeof value !== "string") return null;
+  const s = value.trim().replace(/^\[|\]$/g, "");
+  if (/^\d+(\.\d+)?$/.test(s)) return Math.round(parseFloat(s) * 1000);
+  const m = s.match(/^(?:(\d+):)?(\d{1,3}):(\d{2}(?:[.,]\d+)?)$/);
+  if (!m) return null;
+  const seconds = (m[1] ? parseInt(m[1], 10) * 3600 : 0) + parseInt(m[2], 10) * 60 + parseFloat(m[3].replace(",", "."));
+  return Math.round(seconds * 1000);
+}
+
+function speakerKey(value: unknown): string {
+  const digits = String(value ?? "").match(/\d+/);
+  return digits ? String(parseInt(digits[0], 10)) : String(value ?? "").trim().toLowerCase() || "1";
+}
+
+function parseConfidence(value: unknown): number | null {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  if (typeof n !== "number" || !Number.isFinite(n)) return null;
+  return Math.min(1, Math.max(0, n > 1 ? n / 100 : n));
+}
+
+function jsonSegments(content: string): RawSegment[] | null {
+  const cleaned = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(cleaned);
+  } catch {
+    return null;
+  }
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { segments?: unknown })?.segments;
+  if (!Array.isArray(items)) return null;
+
+  const out: RawSegment[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== "object") continue;
+    const r = item as Record<string, unknown>;
+    const text = typeof r.text === "string" ? r.text.trim() : "";
+    const start = parseTimeMs(r.start);
+    if (!text || start === null) continue;
+    out.push({
+      start_ms: start,
+      end_ms: parseTimeMs(r.end),
+      speaker: speakerKey(r.speaker),
+      text,
+      confidence: parseConfidence(r.confidence),
+    });
+  }
+  return out;
+}
+
+const LINE_RE = /^\[(\d+:\d{2}(?::\d{2})?)\]\s*(?:([^:\n]{1,40}?)\s*:\s*)?(.*)$/;
+
+function lineSegments(content: string): RawSegment[] {
+  const out: RawSegment[] = [];
+  for (const line of content.split("\n")) {
+    const m = line.trim().match(LINE_RE);
+    if (m) {
+      const text = m[3].trim();
+      if (text) out.push({ start_ms: parseTimeMs(m[1]) ?? 0, end_ms: null, speaker: speakerKey(m[2]), text, confidence: null });
+    } else if (line.trim() && out.length > 0) {
+      // Continuation of the previous turn
+      out[out.length - 1].text += ` ${line.trim()}`;
+    }
+  }
+  return out;
+}
+
+/**
+ * Segments from the model reply: JSON first, then "[MM:SS] Speaker N:" lines.
+ * Empty when neither yields a segment.
+ */
+export function parseTranscriptSegments(content: string): TranscriptSegment[] {
+  const raw = jsonSegments(content) ?? lineSegments(content);
+  const sorted = raw
+    .map((s, i) => ({ s, i }))
+    .sort((a, b) => a.s.start_ms - b.s.start_ms || a.i - b.i)
+    .map(({ s }) => s);
+
+  const ids = new Map<string, string>();
+  return sorted.map((s, i) => {
+    if (!ids.has(s.speaker)) ids.set(s.speaker, `S${ids.size + 1}`);
+    const next = sorted[i + 1]?.start_ms;
+    const end = s.end_ms !== null && s.end_ms >= s.start_ms ? s.end_ms : Math.max(next ?? s.start_ms, s.start_ms);
+    return {
+      seq: i,
+      start_ms: s.start_ms,
+      end_ms: end,
+      speaker: ids.get(s.speaker)!,
+      text: s.text,
+      confidence: s.confidence,
+    };
+  });
+}
+
+// ─── Rendering ──────────────────────────────────────────────────────────────
+
+/** "M:SS", or "H:MM:SS" from an hour on (the prefixes case-chunker reads) */
+export function transcriptTimestamp(ms: number): string {
+  const total = Math.floor(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/** One "[M:SS] Name: text" line per segment (mirrors render_transcript_text) */
+export function renderTranscriptText(segments: TranscriptSegment[], labels: SpeakerLabels = {}): string {
+  return segments
+    .map((s) => {
+      const name = labels[s.speaker]?.name?.trim() || `Speaker ${s.speaker.slice(1)}`;
+      return `[${transcriptTimestamp(s.start_ms)}] ${name}: ${s.text}`;
+    })
+    .join("\n");
+}
+
+export function summarizeSegments(segments: TranscriptSegment[]): TranscriptSummary {
+  let weighted = 0;
+  let weight = 0;
+  for (const s of segments) {
+    if (s.confidence === null) continue;
+    const w = Math.max(s.end_ms - s.start_ms, 1);
+    weighted += s.confidence * w;
+    weight += w;
+  }
+  return {
+    speakers_count: new Set(segments.map((s) => s.speaker)).size,
+    duration_seconds: Math.round(Math.max(0, ...segments.map((s) => s.end_ms)) / 1000),
+    confidence: weight > 0 ? Math.round((weighted / weight) * 100) / 100 : null,
+  };
+}
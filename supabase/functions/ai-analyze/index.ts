@@ -25,6 +25,10 @@ import { LEGAL_DETERMINISTIC, buildModelParams } from "../_shared/model-config.t
 import { redactPII } from "../_shared/pii-redactor.ts";
 import { dualSearch, formatKBContext, formatPracticeContext as formatPracticeCtx, temporalDisclaimer } from "../_shared/rag-search.ts";
 import { parseReferencesText, buildUserSourcesBlock } from "../_shared/reference-sources.ts";
+import { verifyCitations } from "../_shared/citation-verifier.ts";
+import { QuotaExceededError, quotaErrorResponse } from "../_shared/ai-quota.ts";
+import { promptColumns, resolvePrompt } from "../_shared/prompt-registry.ts";
+import { withEventStream, type StreamSink } from "../_shared/sse.ts";
 
 /** Parse JSON from GPT-5 text response (best-effort, returns null on failure) */
 function tryParseJson(text: string): unknown | null {
@@ -142,12 +146,17 @@ interface AnalysisRequest {
 // formatPracticeResults and formatPracticeContext moved to _shared/rag-search.ts
 
 
-serve(async (req) => {
+serve((req) => {
   // === CORS via centralized handler ===
   const corsResult = handleCors(req);
   if (corsResult.errorResponse) return corsResult.errorResponse;
   const corsHeaders = corsResult.corsHeaders!;
 
+  // Free-text roles stream over SSE when asked to (Accept: text/event-stream)
+  return withEventStream(req, corsHeaders, (stream) => analyze(req, corsHeaders, stream));
+});
+
+async function analyze(req: Request, corsHeaders: Record<string, string>, stream: StreamSink | null): Promise<Response> {
   try {
     // === AUTH GUARD (Audit Fix: Stage 5 — Critical) ===
     const authHeader = req.headers.get("Authorization");
@@ -238,6 +247,8 @@ serve(async (req) => {
         practiceLimit: 5,
         kbSnippetLength: 4000,
         fullPracticeText: true,
+        graphLimit: 2,
+        userId: user.id,
       });
 
       if (rag.kbResults.length > 0) {
@@ -653,6 +664,16 @@ Please provide your professional legal analysis from your designated role perspe
       systemPrompt = SYSTEM_PROMPTS[role as keyof typeof SYSTEM_PROMPTS];
     }
 
+    // A live Prompt Manager row (or one of its variants) overrides the prompt above
+    const resolvedPrompt = await resolvePrompt(
+      "ai-analyze",
+      role === "criminal_module" && moduleId ? `criminal_module:${moduleId}` : role,
+      systemPrompt,
+      { userId: user.id },
+    );
+    systemPrompt = resolvedPrompt.text;
+    const promptRef = promptColumns(resolvedPrompt);
+
     // Build message content with vision support for images
     let messageContent: string | Array<{ type: string; text?: string; image_url?: { url: string } }>;
 
@@ -691,7 +712,7 @@ Please provide your professional legal analysis from your designated role perspe
     }
 
     // Route via centralized OpenAI router (supports multimodal content arrays)
-    const { callText, callJSON } = await import("../_shared/openai-router.ts");
+    const { callText, callTextStream, callJSON } = await import("../_shared/openai-router.ts");
 
     let aiResponseText: string;
     let structuredJson: unknown = null;
@@ -702,27 +723,28 @@ Please provide your professional legal analysis from your designated role perspe
         { role: "system" as const, content: systemPrompt },
         { role: "user" as const, content: messageContent as string | unknown[] },
       ];
+      const metering = { userId: user.id, usageMetadata: { caseId: caseId || null }, prompt: resolvedPrompt };
 
       if (role === "precedent_citation") {
-        const result = await callJSON("ai-analyze", routerMessages, PRECEDENT_CITATION_SCHEMA, { role });
+        const result = await callJSON("ai-analyze", routerMessages, PRECEDENT_CITATION_SCHEMA, { role, ...metering });
         structuredJson = result.json;
         modelUsed = result.model_used;
         aiResponseText = JSON.stringify(result.json, null, 2);
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "precedent_citation", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "deadline_rules") {
-        const result = await callJSON("ai-analyze", routerMessages, DEADLINE_RULES_SCHEMA, { role });
+        const result = await callJSON("ai-analyze", routerMessages, DEADLINE_RULES_SCHEMA, { role, ...metering });
         structuredJson = result.json;
         modelUsed = result.model_used;
         aiResponseText = JSON.stringify(result.json, null, 2);
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "deadline_rules", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "legal_position_comparator") {
-        const result = await callText("ai-analyze", routerMessages, { role });
+        const result = await callText("ai-analyze", routerMessages, { role, ...metering });
         structuredJson = tryParseJson(result.text);
         modelUsed = result.model_used;
         aiResponseText = structuredJson ? JSON.stringify(structuredJson, null, 2) : result.text;
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "legal_position_comparator", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "hallucination_audit") {
-        const result = await callText("ai-analyze", routerMessages, { role });
+        const result = await callText("ai-analyze", routerMessages, { role, ...metering });
         structuredJson = tryParseJson(result.text);
         modelUsed = result.model_used;
         aiResponseText = structuredJson ? JSON.stringify(structuredJson, null, 2) : result.text;
@@ -741,47 +763,58 @@ Please provide your professional legal analysis from your designated role perspe
             { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } },
           );
         }
-        const result = await callText("ai-analyze", routerMessages, { role });
+        const result = stream
+          ? await callTextStream("ai-analyze", routerMessages, { role, ...metering, onDelta: stream.delta, signal: stream.signal })
+          : await callText("ai-analyze", routerMessages, { role, ...metering });
         aiResponseText = result.text;
         modelUsed = result.model_used;
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "draft_deterministic", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "strategy_builder") {
-        const result = await callText("ai-analyze", routerMessages, { role });
+        const result = await callText("ai-analyze", routerMessages, { role, ...metering });
         structuredJson = tryParseJson(result.text);
         modelUsed = result.model_used;
         aiResponseText = structuredJson ? JSON.stringify(structuredJson, null, 2) : result.text;
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "strategy_builder", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "evidence_weakness") {
-        const result = await callText("ai-analyze", routerMessages, { role });
+        const result = await callText("ai-analyze", routerMessages, { role, ...metering });
         structuredJson = tryParseJson(result.text);
         modelUsed = result.model_used;
         aiResponseText = structuredJson ? JSON.stringify(structuredJson, null, 2) : result.text;
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "evidence_weakness", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "risk_factors") {
-        const result = await callText("ai-analyze", routerMessages, { role });
+        const result = await callText("ai-analyze", routerMessages, { role, ...metering });
         structuredJson = tryParseJson(result.text);
         modelUsed = result.model_used;
         aiResponseText = structuredJson ? JSON.stringify(structuredJson, null, 2) : result.text;
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "risk_factors", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "law_update_summary") {
-        const result = await callJSON("ai-analyze", routerMessages, LAW_UPDATE_SUMMARY_SCHEMA, { role });
+        const result = await callJSON("ai-analyze", routerMessages, LAW_UPDATE_SUMMARY_SCHEMA, { role, ...metering });
         structuredJson = result.json;
         modelUsed = result.model_used;
         aiResponseText = JSON.stringify(result.json, null, 2);
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "law_update_summary", model: modelUsed, latency_ms: result.latency_ms }));
       } else if (role === "cross_exam") {
-        const result = await callJSON("ai-analyze", routerMessages, CROSS_EXAM_SCHEMA, { role });
+        const result = await callJSON("ai-analyze", routerMessages, CROSS_EXAM_SCHEMA, { role, ...metering });
         structuredJson = result.json;
         modelUsed = result.model_used;
         aiResponseText = JSON.stringify(result.json, null, 2);
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", mode: "cross_exam", model: modelUsed, latency_ms: result.latency_ms }));
       } else {
-        const result = await callText("ai-analyze", routerMessages);
+        const result = stream
+          ? await callTextStream("ai-analyze", routerMessages, { ...metering, onDelta: stream.delta, signal: stream.signal })
+          : await callText("ai-analyze", routerMessages, metering);
         aiResponseText = result.text;
         modelUsed = result.model_used;
         console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "ai-analyze", model: modelUsed, latency_ms: result.latency_ms }));
       }
     } catch (routerErr) {
+      if (routerErr instanceof QuotaExceededError) {
+        return quotaErrorResponse(routerErr, corsHeaders);
+      }
+      // Client cancelled the stream: nothing to save or report
+      if (stream?.signal.aborted) {
+        return new Response(JSON.stringify({ error: "Cancelled" }), { status: 499, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+      }
       const status = (routerErr as { status?: number })?.status;
       if (status === 429) {
         await supabase.rpc("log_error", { _error_type: "llm", _error_message: "Rate limit exceeded", _error_details: { status: 429, role }, _case_id: caseId || null });
@@ -805,6 +838,7 @@ Please provide your professional legal analysis from your designated role perspe
           response_text: aiResponseText,
           sources_used: sourcesUsed.length > 0 ? sourcesUsed : null,
           created_by: user.id,
+          ...promptRef,
         });
       }
 
@@ -825,6 +859,8 @@ Please provide your professional legal analysis from your designated role perspe
         structCitationsVerified = structMissingIds.length === 0;
       }
 
+      const structCitationVerification = await verifyCitations(supabase, aiResponseText, { referenceDate, fn: "ai-analyze" });
+
       return new Response(
         JSON.stringify({
           role,
@@ -837,6 +873,7 @@ Please provide your professional legal analysis from your designated role perspe
             ...(structMissingIds.length > 0 ? { missing_ids: structMissingIds } : {}),
             cited_ids_count: structCitedIds.length,
           },
+          citation_verification: structCitationVerification,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } },
       );
@@ -844,17 +881,22 @@ Please provide your professional legal analysis from your designated role perspe
 
     // For draft_deterministic — plain text document, no disclaimer needed
     if (role === "draft_deterministic") {
+      let draftAnalysisId: string | null = null;
       if (caseId) {
-        await supabase.from("ai_analysis").insert({
+        const { data: saved } = await supabase.from("ai_analysis").insert({
           case_id: caseId,
           role,
           prompt_used: redactPII(userMessage.substring(0, 2000)),
           response_text: aiResponseText,
           sources_used: sourcesUsed.length > 0 ? sourcesUsed : null,
           created_by: user.id,
-        });
+          ...promptRef,
+        }).select("id").maybeSingle();
+        draftAnalysisId = saved?.id ?? null;
       }
 
+      const draftCitationVerification = await verifyCitations(supabase, aiResponseText, { referenceDate, fn: "ai-analyze" });
+
       return new Response(
         JSON.stringify({
           role,
@@ -862,6 +904,8 @@ Please provide your professional legal analysis from your designated role perspe
           draft_text: aiResponseText,
           sources: sourcesUsed,
           model_used: modelUsed,
+          analysis_id: draftAnalysisId,
+          citation_verification: draftCitationVerification,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } },
       );
@@ -952,6 +996,7 @@ Please provide your professional legal analysis from your designated role perspe
     analysisText += DISCLAIMER_HY;
 
     // Save to database if caseId provided
+    let analysisId: string | null = null;
     if (caseId) {
       const userId = user.id;
 
@@ -968,28 +1013,18 @@ Please provide your professional legal analysis from your designated role perspe
         roleToStore = role;
       }
 
-      await supabase.from("ai_analysis").insert({
+      const { data: saved } = await supabase.from("ai_analysis").insert({
         case_id: caseId,
         role: roleToStore,
         prompt_used: redactPII(userMessage.substring(0, 2000)),
         response_text: analysisText,
         sources_used: sourcesUsed.length > 0 ? sourcesUsed : null,
         created_by: userId,
-      });
+        ...promptRef,
+      }).select("id").maybeSingle();
+      analysisId = saved?.id ?? null;
     }
 
-    // Log API usage for cost tracking
-    const tokensUsed = aiResponse.usage?.total_tokens || 0;
-    const estimatedCost = tokensUsed * 0.000001;
-
-    await supabase.rpc("log_api_usage", {
-      _service_type: "llm",
-      _model_name: modelUsed,
-      _tokens_used: tokensUsed,
-      _estimated_cost: estimatedCost,
-      _metadata: { role, caseId: caseId || null },
-    });
-
     // === FIX 2 v1.1 (P0/P1): Contract-based Citation Guard ===
     // Extract IDs only after citation markers (ID: / ID： / ID՝), not all UUIDs in text
     const MAX_CITED_IDS = 50;
@@ -1052,6 +1087,9 @@ Please provide your professional legal analysis from your designated role perspe
       }
     }
 
+    // Citation Verifier: resolve article / case references against KB and practice
+    const citationVerification = await verifyCitations(supabase, analysisText, { referenceDate, fn: "ai-analyze" });
+
     return new Response(
       JSON.stringify({
         role,
@@ -1059,12 +1097,14 @@ Please provide your professional legal analysis from your designated role perspe
         analysis: analysisText,
         sources: sourcesUsed,
         model_used: modelUsed,
+        analysis_id: analysisId,
         validation: {
           citations_verified: citationsVerified,
           ...(missingIds.length > 0 ? { missing_ids: missingIds } : {}),
           cited_ids_count: allCitedIds.length,
           reason: citationReason,
         },
+        citation_verification: citationVerification,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -1082,4 +1122,4 @@ Please provide your professional legal analysis from your designated role perspe
       },
     );
   }
-});
+}
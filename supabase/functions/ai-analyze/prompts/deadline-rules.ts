@@ -39,6 +39,8 @@ OUTPUT JSON SCHEMA:
       "triggering_event": "string — what event starts the countdown",
       "required_dates_to_compute": ["string — list of dates needed for calculation"],
       "deadline_rule_text": "string — the actual rule text (e.g., '30 calendar days from...')",
+      "term_length": "number | null — integer length of the term (e.g., 30), null if the rule has no fixed term",
+      "term_unit": "string — calendar_days/working_days/months/years, empty string if no fixed term",
       "risk_note": "string — consequences of missing this deadline"
     }
   ],
@@ -52,10 +54,11 @@ RULES:
 2. If the article is not found in the provided RAG context, prefix with "UNVERIFIED: " and add to unverified_references.
 3. required_dates_to_compute should list concrete date names the frontend needs to compute the actual deadline.
 4. deadline_rule_text should describe the rule in natural language (e.g., "15 working days from the date of notification").
-5. risk_note should describe what happens if the deadline is missed (e.g., "appeal right is forfeited").
-6. critical_risk_alert should only be filled if there is an urgent timing concern based on provided facts.
-7. missing_information should list any key facts not provided that would affect deadline identification.
-8. Do NOT include any text outside the JSON object.`;
+5. term_length and term_unit MUST match deadline_rule_text exactly; the due date is computed in code from these fields and the triggering event date.
+6. risk_note should describe what happens if the deadline is missed (e.g., "appeal right is forfeited").
+7. critical_risk_alert should only be filled if there is an urgent timing concern based on provided facts.
+8. missing_information should list any key facts not provided that would affect deadline identification.
+9. Do NOT include any text outside the JSON object.`;
 
 export const DEADLINE_RULES_SCHEMA = {
   identified_deadlines: [],
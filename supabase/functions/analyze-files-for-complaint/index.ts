@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { FILE_ANALYSIS, buildModelParams } from "../_shared/model-config.ts";
 import { handleCors } from "../_shared/edge-security.ts";
+import { QuotaExceededError, quotaErrorResponse } from "../_shared/ai-quota.ts";
 
 interface AnalyzeRequest {
   files: Array<{
@@ -142,10 +143,13 @@ serve(async (req) => {
 
     let analysis: string;
     try {
-      const result = await callText("analyze-files-for-complaint", messages as import("../_shared/openai-router.ts").RouterMessage[]);
+      const result = await callText("analyze-files-for-complaint", messages as import("../_shared/openai-router.ts").RouterMessage[], { userId: user.id });
       analysis = result.text;
       console.log("Analysis complete, length:", analysis.length, "model:", result.model_used);
     } catch (routerErr) {
+      if (routerErr instanceof QuotaExceededError) {
+        return quotaErrorResponse(routerErr, corsHeaders);
+      }
       const status = (routerErr as { status?: number })?.status;
       if (status === 429) {
         return new Response(
@@ -0,0 +1,268 @@
+/**
+ * audio-transcribe-worker
+ *
+ * Cron-triggered (every minute) executor for long recordings that
+ * audio-transcribe split into parts. Each invocation:
+ *   1. Hands back stale work (fail_stale_audio_transcriptions).
+ *   2. Claims parts (claim_audio_transcription_chunks: FOR UPDATE SKIP
+ *      LOCKED, 5 min lease), downloads the byte range of each part from
+ *      storage and transcribes the parts in parallel.
+ *   3. Stitches recordings whose parts are all done into transcript_segments
+ *      (claim_audio_transcription_stitches, _shared/audio-chunks.ts).
+ *   4. Claims again while time is left.
+ *
+ * Failed parts are retried with the multi-agent backoff policy; a part that
+ * runs out of attempts, or whose uploader's AI quota is used up, fails its
+ * recording.
+ *
+ * Auth: x-internal-key (INTERNAL_INGEST_KEY or CRON_WORKER_KEY).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { handleCors, validateInternalRequest } from "../_shared/edge-security.ts";
+import { enforceQuota, recordUsage } from "../_shared/ai-quota.ts";
+import { retryDelaySeconds } from "../_shared/agent-jobs.ts";
+import { buildChunkAudio, stitchChunkSegments, type AudioProbe } from "../_shared/audio-chunks.ts";
+import {
+  CONFIDENCE_THRESHOLD,
+  DEFAULT_CONFIDENCE,
+  detectTranscriptLanguage,
+  fetchRange,
+  probeRemoteAudio,
+  transcribeAudio,
+} from "../_shared/audio-transcriber.ts";
+import {
+  renderTranscriptText,
+  summarizeSegments,
+  type TranscriptSegment,
+} from "../_shared/transcript-segments.ts";
+
+// Two parts in memory at once, each also held as base64 in the request body
+const CLAIM_LIMIT = 2;
+const LEASE_MINUTES = 5;
+// Stop claiming after this; a part takes up to two minutes
+const CLAIM_BUDGET_MS = 60_000;
+const STITCH_LIMIT = 2;
+const STITCH_STALE_MINUTES = 10;
+const INSERT_BATCH = 500;
+
+/** Row returned by claim_audio_transcription_chunks() */
+interface AudioChunkJob {
+  id: string;
+  transcription_id: string;
+  chunk_index: number;
+  start_ms: number;
+  end_ms: number;
+  byte_start: number;
+  byte_end: number;
+  attempts: number;
+}
+
+interface ChunkSource {
+  url: string;
+  probe: AudioProbe;
+  userId: string | null;
+  fileName: string;
+}
+
+serve(async (req) => {
+  const cors = handleCors(req);
+  if (cors.errorResponse) return cors.errorResponse;
+  const corsHeaders = cors.corsHeaders!;
+
+  const authErr = validateInternalRequest(req, corsHeaders);
+  if (authErr) return authErr;
+
+  const startTime = Date.now();
+
+  try {
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: staleCount, error: staleErr } = await supabase.rpc("fail_stale_audio_transcriptions", {
+      p_stitch_minutes: STITCH_STALE_MINUTES,
+    });
+    if (staleErr) console.error(`[audio-transcribe-worker] stale sweep error: ${staleErr.message}`);
+
+    // Parts of one recording share the signed URL and the probe
+    const sources = new Map<string, Promise<ChunkSource>>();
+    const loadSource = async (transcriptionId: string): Promise<ChunkSource> => {
+      const { data, error } = await supabase
+        .from("audio_transcriptions")
+        .select("created_by, case_files!inner(storage_path, original_filename)")
+        .eq("id", transcriptionId)
+        .single();
+      if (error || !data) throw new Error(`Transcription not found: ${error?.message ?? transcriptionId}`);
+
+      const file = data.case_files as { storage_path: string; original_filename: string };
+      const { data: signed } = await supabase.storage
+        .from("case-files")
+        .createSignedUrl(file.storage_path, 3600);
+      if (!signed?.signedUrl) throw new Error("Failed to get signed URL");
+
+      const probe = await probeRemoteAudio(signed.signedUrl);
+      // The file was probed when it was queued; a 400 makes this permanent
+      if (!probe) throw Object.assign(new Error("Audio format cannot be split"), { status: 400 });
+      return { url: signed.signedUrl, probe, userId: data.created_by, fileName: file.original_filename };
+    };
+    const sourceFor = (transcriptionId: string) => {
+      if (!sources.has(transcriptionId)) {
+        const pending = loadSource(transcriptionId);
+        pending.catch(() => sources.delete(transcriptionId));
+        sources.set(transcriptionId, pending);
+      }
+      return sources.get(transcriptionId)!;
+    };
+
+    let completed = 0;
+    let retried = 0;
+    let failed = 0;
+    const errors: string[] = [];
+
+    const processChunk = async (chunk: AudioChunkJob) => {
+      try {
+        const source = await sourceFor(chunk.transcription_id);
+        // The uploader may run out of quota while the parts are queued; the
+        // error's 402 makes the part fail without a retry
+        await enforceQuota(source.userId, "audio-transcribe");
+        const { bytes } = await fetchRange(source.url, chunk.byte_start, chunk.byte_end);
+        const result = await transcribeAudio(buildChunkAudio(source.probe, bytes), source.probe.mime_type);
+        if (!result.content) throw new Error("Empty transcription result");
+
+        const { error: completeErr } = await supabase.rpc("complete_audio_transcription_chunk", {
+          p_chunk_id: chunk.id,
+          p_segments: result.segments,
+        });
+        if (completeErr) throw new Error(`Saving part failed: ${completeErr.message}`);
+        completed++;
+
+        await recordUsage({
+          userId: source.userId,
+          functionName: "audio-transcribe",
+          serviceType: "audio",
+          model: result.model_used,
+          inputTokens: result.usage?.prompt_tokens || 0,
+          outputTokens: result.usage?.completion_tokens || 0,
+          totalTokens: result.usage?.total_tokens,
+          metadata: {
+            fileName: source.fileName,
+            transcriptionId: chunk.transcription_id,
+            chunkIndex: chunk.chunk_index,
+            request_id: result.request_id,
+          },
+        });
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        const status = (e as { status?: number })?.status ?? null;
+        errors.push(`${chunk.transcription_id}#${chunk.chunk_index}: ${message}`);
+        const { data: outcome, error: failErr } = await supabase.rpc("fail_audio_transcription_chunk", {
+          p_chunk_id: chunk.id,
+          p_error: message,
+          p_retry_seconds: retryDelaySeconds(status, chunk.attempts),
+        });
+        if (failErr) console.error(`[audio-transcribe-worker] fail_audio_transcription_chunk error: ${failErr.message}`);
+        if (outcome === "retry") retried++;
+        else failed++;
+      }
+    };
+
+    // transcription_text is rendered from the inserted segments by trigger
+    const stitch = async (transcriptionId: string) => {
+      try {
+        const { data: chunks, error } = await supabase
+          .from("audio_transcription_chunks")
+          .select("start_ms, end_ms, segments")
+          .eq("transcription_id", transcriptionId)
+          .order("chunk_index", { ascending: true });
+        if (error) throw new Error(`Loading parts failed: ${error.message}`);
+
+        const segments = stitchChunkSegments((chunks ?? []).map((c) => ({
+          start_ms: c.start_ms,
+          end_ms: c.end_ms,
+          segments: (c.segments ?? []) as TranscriptSegment[],
+        })));
+        if (segments.length === 0) throw new Error("Empty transcription result");
+
+        // A stitch handed back after a crash may have inserted some already
+        await supabase.from("transcript_segments").delete().eq("transcription_id", transcriptionId);
+        for (let i = 0; i < segments.length; i += INSERT_BATCH) {
+          const { error: insertErr } = await supabase
+            .from("transcript_segments")
+            .insert(segments.slice(i, i + INSERT_BATCH).map((s) => ({ ...s, transcription_id: transcriptionId })));
+          if (insertErr) throw new Error(`Saving segments failed: ${insertErr.message}`);
+        }
+
+        const summary = summarizeSegments(segments);
+        const confidence = summary.confidence ?? DEFAULT_CONFIDENCE;
+        const { error: updateErr } = await supabase
+          .from("audio_transcriptions")
+          .update({
+            status: "completed",
+            confidence,
+            language: detectTranscriptLanguage(renderTranscriptText(segments)),
+            duration_seconds: summary.duration_seconds,
+            needs_review: confidence < CONFIDENCE_THRESHOLD,
+            error_message: null,
+          })
+          .eq("id", transcriptionId);
+        if (updateErr) throw new Error(`Completing transcription failed: ${updateErr.message}`);
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        errors.push(`${transcriptionId}: ${message}`);
+        await supabase
+          .from("audio_transcriptions")
+          .update({ status: "failed", error_message: message })
+          .eq("id", transcriptionId);
+      }
+    };
+
+    let claimed = 0;
+    let stitched = 0;
+    while (Date.now() - startTime < CLAIM_BUDGET_MS) {
+      const { data: rows, error: claimErr } = await supabase.rpc("claim_audio_transcription_chunks", {
+        p_limit: CLAIM_LIMIT,
+        p_lease_minutes: LEASE_MINUTES,
+      });
+      if (claimErr) throw new Error(`claim error: ${claimErr.message}`);
+
+      const chunks = (rows || []) as AudioChunkJob[];
+      claimed += chunks.length;
+      await Promise.all(chunks.map(processChunk));
+
+      const { data: ready, error: stitchErr } = await supabase.rpc("claim_audio_transcription_stitches", {
+        p_limit: STITCH_LIMIT,
+      });
+      if (stitchErr) console.error(`[audio-transcribe-worker] stitch claim error: ${stitchErr.message}`);
+      const ids = (ready || []) as string[];
+      for (const id of ids) await stitch(id);
+      stitched += ids.length;
+
+      if (chunks.length === 0 && ids.length === 0) break;
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[audio-transcribe-worker] stale=${staleCount ?? 0} claimed=${claimed} ok=${completed} retry=${retried} failed=${failed} stitched=${stitched} duration=${duration}ms`,
+    );
+
+    return new Response(JSON.stringify({
+      stale: staleCount ?? 0,
+      claimed,
+      completed,
+      retried,
+      failed,
+      stitched,
+      duration_ms: duration,
+      errors: errors.length > 0 ? errors : undefined,
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    console.error("[audio-transcribe-worker] error:", msg);
+    return new Response(JSON.stringify({ error: msg }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
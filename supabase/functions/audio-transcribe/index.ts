@@ -1,7 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
-
-const CONFIDENCE_THRESHOLD = 0.50;
+import { enforceQuota, QuotaExceededError, quotaErrorResponse, recordUsage } from "../_shared/ai-quota.ts";
+import { renderTranscriptText, summarizeSegments } from "../_shared/transcript-segments.ts";
+import { CHUNK_MS, planAudioChunks, type AudioChunkPlan } from "../_shared/audio-chunks.ts";
+import {
+  audioMimeType,
+  CONFIDENCE_THRESHOLD,
+  DEFAULT_CONFIDENCE,
+  detectTranscriptLanguage,
+  probeRemoteAudio,
+  transcribeAudio,
+} from "../_shared/audio-transcriber.ts";
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+// Single-request limit; longer MP3 / WAV recordings are split into parts
 const MAX_FILE_SIZE_MB = 25;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 
@@ -10,6 +23,48 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+/**
+ * Creates the transcription in 'processing' with one job per part and answers
+ * 202; audio-transcribe-worker transcribes and stitches the parts.
+ */
+async function queueChunks(
+  supabase: SupabaseClient,
+  { fileId, userId, durationMs, plan }: { fileId: string; userId: string; durationMs: number; plan: AudioChunkPlan[] },
+): Promise<Response> {
+  const { data: transcription, error } = await supabase
+    .from("audio_transcriptions")
+    .insert({
+      file_id: fileId,
+      transcription_text: "",
+      status: "processing",
+      chunks_total: plan.length,
+      duration_seconds: Math.round(durationMs / 1000),
+      needs_review: false,
+      speaker_labels: {},
+      created_by: userId,
+    })
+    .select()
+    .single();
+  if (error) throw new Error(`Failed to queue transcription: ${error.message}`);
+
+  const { error: chunksError } = await supabase
+    .from("audio_transcription_chunks")
+    .insert(plan.map((c) => ({ ...c, transcription_id: transcription.id })));
+  if (chunksError) {
+    await supabase.from("audio_transcriptions").delete().eq("id", transcription.id);
+    throw new Error(`Failed to queue transcription: ${chunksError.message}`);
+  }
+
+  console.log(`Queued ${plan.length} parts for transcription ${transcription.id}`);
+  return new Response(JSON.stringify({
+    success: true,
+    queued: true,
+    transcription_id: transcription.id,
+    chunks_total: plan.length,
+    duration_seconds: transcription.duration_seconds,
+  }), { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -60,9 +115,22 @@ serve(async (req) => {
     const fileSize = contentLength ? parseInt(contentLength, 10) : 0;
     console.log(`File size: ${(fileSize / 1024 / 1024).toFixed(2)} MB`);
 
+    // The multimodal bypass skips the router, so the quota is checked here,
+    // before a long recording is queued as well
+    await enforceQuota(authUser.id, "audio-transcribe");
+
+    // Long MP3 / WAV recordings go to the queue, one job per part
+    const probe = fileId ? await probeRemoteAudio(audioUrl) : null;
+    const plan = probe && (fileSize > MAX_FILE_SIZE_BYTES || probe.duration_ms > CHUNK_MS)
+      ? planAudioChunks(probe)
+      : [];
+    if (plan.length > 1) {
+      return await queueChunks(supabase, { fileId, userId: authUser.id, durationMs: probe!.duration_ms, plan });
+    }
+
     if (fileSize > MAX_FILE_SIZE_BYTES) {
       return new Response(JSON.stringify({
-        error: `File size (${(fileSize / 1024 / 1024).toFixed(1)} MB) exceeds limit (${MAX_FILE_SIZE_MB} MB).`,
+        error: `File size (${(fileSize / 1024 / 1024).toFixed(1)} MB) exceeds limit (${MAX_FILE_SIZE_MB} MB). Longer recordings must be MP3 or WAV.`,
         error_code: "file_too_large",
       }), { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } });
     }
@@ -75,95 +143,22 @@ serve(async (req) => {
     const audioBuffer = await audioResponse.arrayBuffer();
     console.log(`Downloaded ${(audioBuffer.byteLength / 1024 / 1024).toFixed(2)} MB`);
 
-    // Convert to base64
-    const uint8Array = new Uint8Array(audioBuffer);
-    let binary = '';
-    const chunkSize = 8192;
-    for (let i = 0; i < uint8Array.length; i += chunkSize) {
-      binary += String.fromCharCode(...uint8Array.subarray(i, i + chunkSize));
-    }
-    const base64Audio = btoa(binary);
-
-    // Determine MIME type
-    const ext = fileName?.split(".").pop()?.toLowerCase() || "mp3";
-    const mimeMap: Record<string, string> = {
-      mp3: "audio/mpeg", wav: "audio/wav", m4a: "audio/mp4",
-      ogg: "audio/ogg", flac: "audio/flac", webm: "audio/webm",
-      mp4: "video/mp4", avi: "video/x-msvideo", mov: "video/quicktime",
-      mkv: "video/x-matroska",
-    };
-    const mimeType = mimeMap[ext] || "audio/mpeg";
-
-    // Call via centralized gateway-bypass (multimodal content requires bypass)
-    const { callGatewayBypass } = await import("../_shared/gateway-bypass.ts");
     console.log("Sending to AI via centralized gateway-bypass (multimodal)...");
+    const result = await transcribeAudio(new Uint8Array(audioBuffer), audioMimeType(fileName));
 
-    const bypassResult = await callGatewayBypass(
-      [
-        {
-          role: "user",
-          content: [
-            {
-              type: "text",
-              text: `You are a professional transcription service specializing in Armenian and Russian legal proceedings.
-Transcribe the audio file as a dialogue with speaker labels and timestamps.
-
-IMPORTANT RULES:
-- Add a timestamp [MM:SS] at the beginning of EACH speaker turn (e.g. [0:00], [0:15], [1:32])
-- Identify different speakers and label them as "\u0421\u043F\u0438\u043A\u0435\u0440 1:", "\u0421\u043F\u0438\u043A\u0435\u0440 2:", "\u0421\u043F\u0438\u043A\u0435\u0440 3:" etc.
-- Each new speaker turn starts on a new line
-- Format: [MM:SS] \u0421\u043F\u0438\u043A\u0435\u0440 N: text
-- If only one speaker, still use "\u0421\u043F\u0438\u043A\u0435\u0440 1:"
-- Preserve all spoken words exactly as said
-- Include legal terminology correctly
-- If multiple languages are spoken, transcribe each in its original language
-- Output ONLY the dialogue transcription, nothing else
-
-Example format:
-[0:00] \u0421\u043F\u0438\u043A\u0435\u0440 1: \u0414\u043E\u0431\u0440\u044B\u0439 \u0434\u0435\u043D\u044C, \u0441\u0443\u0434 \u0437\u0430\u0441\u0435\u0434\u0430\u043D\u0438\u0435 \u043D\u0430\u0447\u0438\u043D\u0430\u0435\u0442\u0441\u044F.
-[0:08] \u0421\u043F\u0438\u043A\u0435\u0440 2: \u0412\u0430\u0448\u0430 \u0447\u0435\u0441\u0442\u044C, \u0437\u0430\u0449\u0438\u0442\u0430 \u0433\u043E\u0442\u043E\u0432\u0430.
-[0:12] \u0421\u043F\u0438\u043A\u0435\u0440 1: \u0425\u043E\u0440\u043E\u0448\u043E, \u043F\u0440\u0438\u0441\u0442\u0443\u043F\u0430\u0435\u043C.`,
-            },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:${mimeType};base64,${base64Audio}`,
-              },
-            },
-          ],
-        },
-      ],
-      {
-        functionName: "audio-transcribe",
-        bypassReason: "multimodal",
-        timeoutMs: 120000,
-      }
-    );
-
-    const geminiResult = bypassResult.data;
-    console.log("AI response received");
-
-    const choices = geminiResult.choices as Array<{ message?: { content?: string } }> | undefined;
-    const transcription = choices?.[0]?.message?.content?.trim() || "";
+    // A reply that is neither JSON nor "[MM:SS] Speaker:" lines is kept as plain text
+    const segments = result.segments;
+    const summary = summarizeSegments(segments);
+    const transcription = segments.length > 0 ? renderTranscriptText(segments) : result.content;
 
     if (!transcription) {
       throw new Error("Empty transcription result from Gemini");
     }
 
-    // Detect language from content
-    const armenianChars = (transcription.match(/[\u0531-\u058F]/g) || []).length;
-    const russianChars = (transcription.match(/[\u0400-\u04FF]/g) || []).length;
-    const totalChars = transcription.length;
-
-    let language_detected = "unknown";
-    if (armenianChars / totalChars > 0.3) {
-      language_detected = russianChars / totalChars > 0.2 ? "mixed" : "armenian";
-    } else if (russianChars / totalChars > 0.3) {
-      language_detected = "russian";
-    }
+    const language_detected = detectTranscriptLanguage(transcription);
 
     const word_count = transcription.split(/\s+/).filter(Boolean).length;
-    const confidence_score = 0.85;
+    const confidence_score = summary.confidence ?? DEFAULT_CONFIDENCE;
 
     const needsReview = confidence_score < CONFIDENCE_THRESHOLD;
 
@@ -181,10 +176,11 @@ Example format:
           transcription_text: transcription,
           confidence: confidence_score,
           language: language_detected,
-          duration_seconds: 0,
+          duration_seconds: summary.duration_seconds,
           needs_review: needsReview,
           reviewed_by: null,
-          speaker_labels: null,
+          speaker_labels: {},
+          created_by: authUser.id,
         })
         .select()
         .single();
@@ -193,28 +189,37 @@ Example format:
         console.error("Failed to save transcription:", insertError);
       } else {
         transcriptionRecord = data;
+        if (segments.length > 0) {
+          const { error: segmentsError } = await supabase
+            .from("transcript_segments")
+            .insert(segments.map((s) => ({ ...s, transcription_id: data.id })));
+          if (segmentsError) console.error("Failed to save transcript segments:", segmentsError);
+        }
       }
     }
 
-    try {
-      await supabase.rpc("log_api_usage", {
-        _service_type: "audio",
-        _model_name: bypassResult.model_used,
-        _tokens_used: 0,
-        _estimated_cost: 0,
-        _metadata: { fileName, fileId: fileId || null, fileSizeMB: (fileSize / 1024 / 1024).toFixed(2), request_id: bypassResult.request_id }
-      });
-    } catch (_) { /* non-critical */ }
+    const usage = result.usage;
+    await recordUsage({
+      userId: authUser.id,
+      functionName: "audio-transcribe",
+      serviceType: "audio",
+      model: result.model_used,
+      inputTokens: usage?.prompt_tokens || 0,
+      outputTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens,
+      metadata: { fileName, fileId: fileId || null, fileSizeMB: (fileSize / 1024 / 1024).toFixed(2), request_id: result.request_id },
+    });
 
     return new Response(JSON.stringify({
       success: true,
       transcription_id: transcriptionRecord?.id,
       transcription,
+      segments,
       language_detected,
-      speakers_count: 1,
+      speakers_count: summary.speakers_count,
       confidence_score,
       confidence_reason,
-      duration_seconds: 0,
+      duration_seconds: summary.duration_seconds,
       warnings: [],
       word_count,
       needs_review: needsReview,
@@ -222,6 +227,9 @@ Example format:
     }), { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } });
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
     console.error("audio-transcribe error:", error);
     return new Response(JSON.stringify({
       error: error instanceof Error ? error.message : "Transcription failed",
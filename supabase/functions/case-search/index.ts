@@ -0,0 +1,415 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { log, warn, err } from "../_shared/safe-logger.ts";
+import { chunkCaseSource, type CaseSourceType } from "../_shared/case-chunker.ts";
+import { sha256Hex } from "../_shared/chunker.ts";
+import { generateEmbedding, generateEmbeddings, vectorToString } from "../_shared/embeddings.ts";
+
+/**
+ * Search inside one case: OCR results, audio transcriptions and volume text.
+ *
+ * Actions (POST { action, caseId, ... }):
+ *   status — how many sources are indexed / pending
+ *   index  — chunk + embed pending sources within a time budget; the client
+ *            repeats the call until pending = 0
+ *   search — { query, limit? } → hits with volume/page and timestamp locators
+ */
+
+// ─── CORS ────────────────────────────────────────────────────────────────────
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers":
+    "authorization, x-client-info, apikey, content-type, " +
+    "x-supabase-client-platform, x-supabase-client-platform-version, " +
+    "x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// ─── Limits ──────────────────────────────────────────────────────────────────
+// Must match case_chunks.embedding vector(768)
+const EMBEDDING_DIMENSIONS = 768;
+const INDEX_TIME_BUDGET_MS = 45_000;
+const INSERT_BATCH = 200;
+const MAX_HITS = 50;
+const SNIPPET_CHARS = 320;
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+interface CaseSource {
+  source_type: CaseSourceType;
+  source_id: string;
+  file_id: string | null;
+  volume_id: string | null;
+  title: string;
+  text: string;
+  page_count: number | null;
+  duration_seconds: number | null;
+}
+
+interface ChunkHitRow {
+  id: string;
+  source_type: CaseSourceType;
+  source_id: string;
+  file_id: string | null;
+  volume_id: string | null;
+  chunk_index: number;
+  label: string | null;
+  chunk_text: string;
+  page_start: number | null;
+  page_end: number | null;
+  page_estimated: boolean;
+  time_start_seconds: number | null;
+  time_end_seconds: number | null;
+  similarity: number;
+  keyword_match: boolean;
+}
+
+function jsonRes(body: Record<string, unknown>, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ─── Sources ─────────────────────────────────────────────────────────────────
+
+/**
+ * All indexable text of a case. A volume's OCR text supersedes the
+ * ocr_results row of the same file, so the file is not indexed twice.
+ */
+async function loadSources(supabase: SupabaseClient, caseId: string): Promise<CaseSource[]> {
+  const sources: CaseSource[] = [];
+
+  const { data: volumes, error: volErr } = await supabase
+    .from("case_volumes")
+    .select("id, volume_number, title, file_id, page_count, ocr_text")
+    .eq("case_id", caseId)
+    .not("ocr_text", "is", null)
+    .order("volume_number");
+  if (volErr) throw new Error(`case_volumes: ${volErr.message}`);
+
+  const volumeFileIds = new Set<string>();
+  for (const v of volumes ?? []) {
+    if (v.file_id) volumeFileIds.add(v.file_id);
+    sources.push({
+      source_type: "volume",
+      source_id: v.id,
+      file_id: v.file_id,
+      volume_id: v.id,
+      title: v.title,
+      text: v.ocr_text ?? "",
+      page_count: v.page_count,
+      duration_seconds: null,
+    });
+  }
+
+  const { data: files, error: filesErr } = await supabase
+    .from("case_files")
+    .select("id, original_filename")
+    .eq("case_id", caseId)
+    .is("deleted_at", null);
+  if (filesErr) throw new Error(`case_files: ${filesErr.message}`);
+  if (!files?.length) return sources;
+
+  const fileIds = files.map((f) => f.id);
+  const fileNames = new Map(files.map((f) => [f.id, f.original_filename as string]));
+
+  const [{ data: ocr, error: ocrErr }, { data: audio, error: audioErr }] = await Promise.all([
+    supabase.from("ocr_results").select("id, file_id, extracted_text").in("file_id", fileIds),
+    supabase.from("audio_transcriptions").select("id, file_id, transcription_text, duration_seconds").in("file_id", fileIds),
+  ]);
+  if (ocrErr) throw new Error(`ocr_results: ${ocrErr.message}`);
+  if (audioErr) throw new Error(`audio_transcriptions: ${audioErr.message}`);
+
+  for (const r of ocr ?? []) {
+    if (volumeFileIds.has(r.file_id)) continue;
+    sources.push({
+      source_type: "ocr",
+      source_id: r.id,
+      file_id: r.file_id,
+      volume_id: null,
+      title: fileNames.get(r.file_id) ?? "",
+      text: r.extracted_text ?? "",
+      page_count: null,
+      duration_seconds: null,
+    });
+  }
+
+  for (const r of audio ?? []) {
+    sources.push({
+      source_type: "transcript",
+      source_id: r.id,
+      file_id: r.file_id,
+      volume_id: null,
+      title: fileNames.get(r.file_id) ?? "",
+      text: r.transcription_text ?? "",
+      page_count: null,
+      duration_seconds: r.duration_seconds,
+    });
+  }
+
+  return sources.filter((s) => s.text.trim().length > 0);
+}
+
+/** source_id → source_hash of what is currently indexed */
+async function loadIndexedHashes(supabase: SupabaseClient, caseId: string): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from("case_chunks")
+    .select("source_id, source_hash")
+    .eq("case_id", caseId)
+    .eq("chunk_index", 0);
+  if (error) throw new Error(`case_chunks: ${error.message}`);
+  return new Map((data ?? []).map((r) => [r.source_id as string, r.source_hash as string]));
+}
+
+function pendingSources(sources: CaseSource[], indexed: Map<string, string>): CaseSource[] {
+  return sources.filter((s) => indexed.get(s.source_id) !== sha256Hex(s.text));
+}
+
+// ─── Indexing ────────────────────────────────────────────────────────────────
+
+async function indexSource(supabase: SupabaseClient, caseId: string, source: CaseSource): Promise<number> {
+  const result = chunkCaseSource({
+    source_type: source.source_type,
+    text: source.text,
+    title: source.title,
+    page_count: source.page_count,
+    duration_seconds: source.duration_seconds,
+  });
+
+  // Embed first: a failure leaves the previous index of this source intact
+  const vectors = await generateEmbeddings(
+    result.chunks.map((c) => c.chunk_text),
+    undefined,
+    EMBEDDING_DIMENSIONS,
+  );
+
+  const { error: delErr } = await supabase
+    .from("case_chunks")
+    .delete()
+    .eq("source_type", source.source_type)
+    .eq("source_id", source.source_id);
+  if (delErr) throw new Error(`delete: ${delErr.message}`);
+
+  const rows = result.chunks.map((c, i) => ({
+    case_id: caseId,
+    source_type: source.source_type,
+    source_id: source.source_id,
+    file_id: source.file_id,
+    volume_id: source.volume_id,
+    chunk_index: c.chunk_index,
+    chunk_type: c.chunk_type,
+    chunk_mode: result.mode,
+    chunk_text: c.chunk_text,
+    char_start: c.char_start,
+    char_end: c.char_end,
+    label: c.label,
+    page_start: c.page_start,
+    page_end: c.page_end,
+    page_estimated: c.page_estimated,
+    time_start_seconds: c.time_start_seconds,
+    time_end_seconds: c.time_end_seconds,
+    chunk_hash: c.chunk_hash,
+    source_hash: result.source_hash,
+    embedding: vectors[i] ? vectorToString(vectors[i]) : null,
+  }));
+
+  for (let i = 0; i < rows.length; i += INSERT_BATCH) {
+    const { error: insErr } = await supabase.from("case_chunks").insert(rows.slice(i, i + INSERT_BATCH));
+    if (insErr) throw new Error(`insert: ${insErr.message}`);
+  }
+  return rows.length;
+}
+
+// ─── Search ──────────────────────────────────────────────────────────────────
+
+/** Window of the chunk around the first literal match, else its start */
+function makeSnippet(text: string, query: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const at = flat.toLowerCase().indexOf(query.toLowerCase());
+  const start = at > SNIPPET_CHARS / 3 ? at - Math.floor(SNIPPET_CHARS / 3) : 0;
+  const slice = flat.substring(start, start + SNIPPET_CHARS);
+  return `${start > 0 ? "\u2026" : ""}${slice}${start + SNIPPET_CHARS < flat.length ? "\u2026" : ""}`;
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────────────
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 204, headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return jsonRes({ error: "Method not allowed" }, 405);
+  }
+
+  const requestId = crypto.randomUUID().slice(0, 8);
+
+  try {
+    const authHeader = req.headers.get("Authorization") ?? "";
+    if (!authHeader.startsWith("Bearer ")) {
+      return jsonRes({ error: "Unauthorized" }, 401);
+    }
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } },
+    );
+    const { data: userData, error: userErr } = await userClient.auth.getUser();
+    const userId = userData?.user?.id;
+    if (userErr || !userId) {
+      return jsonRes({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json();
+    const action: string = body.action ?? "search";
+    const caseId: string = body.caseId;
+    if (!caseId || typeof caseId !== "string") {
+      return jsonRes({ error: "caseId is required" }, 400);
+    }
+
+    const { data: canAccess, error: accessErr } = await userClient.rpc("is_case_staff", {
+      _user_id: userId,
+      _case_id: caseId,
+    });
+    if (accessErr || !canAccess) {
+      return jsonRes({ error: "Case not found" }, 404);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    // ── status / index ──
+    if (action === "status" || action === "index") {
+      const sources = await loadSources(supabase, caseId);
+      const indexed = await loadIndexedHashes(supabase, caseId);
+
+      // Drop chunks of sources that were deleted since the last run
+      const live = new Set(sources.map((s) => s.source_id));
+      const stale = [...indexed.keys()].filter((id) => !live.has(id));
+      if (action === "index" && stale.length > 0) {
+        const { error: staleErr } = await supabase.from("case_chunks").delete().in("source_id", stale);
+        if (staleErr) warn("case-search", "Stale chunk cleanup failed", { requestId, error: staleErr.message });
+      }
+
+      let pending = pendingSources(sources, indexed);
+      if (action === "status") {
+        return jsonRes({ sources: sources.length, indexed: sources.length - pending.length, pending: pending.length }, 200);
+      }
+
+      const startedAt = Date.now();
+      const done = new Set<string>();
+      const failed: string[] = [];
+      let chunkCount = 0;
+      for (const source of pending) {
+        if (Date.now() - startedAt > INDEX_TIME_BUDGET_MS) break;
+        try {
+          chunkCount += await indexSource(supabase, caseId, source);
+          done.add(source.source_id);
+        } catch (e) {
+          failed.push(source.source_id);
+          err("case-search", "Indexing source failed", {
+            requestId,
+            source_type: source.source_type,
+            source_id: source.source_id,
+            error: e instanceof Error ? e.message : String(e),
+          });
+        }
+      }
+      pending = pending.filter((s) => !done.has(s.source_id));
+
+      log("case-search", "Index run complete", {
+        requestId,
+        indexed_sources: done.size,
+        chunks: chunkCount,
+        pending: pending.length,
+        failed: failed.length,
+        ms: Date.now() - startedAt,
+      });
+
+      return jsonRes({
+        sources: sources.length,
+        indexed: sources.length - pending.length,
+        // Failed sources stay pending but must not make the client loop forever
+        pending: pending.length - failed.length,
+        failed: failed.length,
+        chunks: chunkCount,
+      }, 200);
+    }
+
+    // ── search ──
+    if (action !== "search") {
+      return jsonRes({ error: `Unknown action: ${action}` }, 400);
+    }
+    const query = typeof body.query === "string" ? body.query.replace(/\s+/g, " ").trim().substring(0, 500) : "";
+    if (query.length < 2) {
+      return jsonRes({ error: "Query too short" }, 400);
+    }
+    const limit = Math.min(Math.max(Number(body.limit) || 20, 1), MAX_HITS);
+
+    // Keyword-only when the embeddings service is unavailable
+    let queryVector: string | null = null;
+    try {
+      queryVector = vectorToString(await generateEmbedding(query, undefined, EMBEDDING_DIMENSIONS));
+    } catch (e) {
+      warn("case-search", "Query embedding failed, keyword only", {
+        requestId,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+
+    const { data: rows, error: searchErr } = await userClient.rpc("search_case_chunks", {
+      p_case_id: caseId,
+      query_embedding: queryVector,
+      query_text: query,
+      match_count: limit,
+    });
+    if (searchErr) throw new Error(`search_case_chunks: ${searchErr.message}`);
+    const hits = (rows ?? []) as ChunkHitRow[];
+
+    const fileIds = [...new Set(hits.map((h) => h.file_id).filter((id): id is string => !!id))];
+    const volumeIds = [...new Set(hits.map((h) => h.volume_id).filter((id): id is string => !!id))];
+    const [{ data: files }, { data: volumes }] = await Promise.all([
+      fileIds.length
+        ? supabase.from("case_files").select("id, original_filename").in("id", fileIds)
+        : Promise.resolve({ data: [] as { id: string; original_filename: string }[] }),
+      volumeIds.length
+        ? supabase.from("case_volumes").select("id, volume_number, title").in("id", volumeIds)
+        : Promise.resolve({ data: [] as { id: string; volume_number: number; title: string }[] }),
+    ]);
+    const fileNames = new Map((files ?? []).map((f) => [f.id, f.original_filename]));
+    const volumeInfo = new Map((volumes ?? []).map((v) => [v.id, v]));
+
+    log("case-search", "Search complete", {
+      requestId,
+      hits: hits.length,
+      semantic: queryVector !== null,
+    });
+
+    return jsonRes({
+      semantic: queryVector !== null,
+      hits: hits.map((h) => {
+        const volume = h.volume_id ? volumeInfo.get(h.volume_id) : undefined;
+        return {
+          id: h.id,
+          source_type: h.source_type,
+          file_id: h.file_id,
+          file_name: h.file_id ? fileNames.get(h.file_id) ?? null : null,
+          volume_id: h.volume_id,
+          volume_number: volume?.volume_number ?? null,
+          volume_title: volume?.title ?? null,
+          label: h.label,
+          snippet: makeSnippet(h.chunk_text, query),
+          page_start: h.page_start,
+          page_end: h.page_end,
+          page_estimated: h.page_estimated,
+          time_start_seconds: h.time_start_seconds,
+          time_end_seconds: h.time_end_seconds,
+          similarity: h.similarity,
+          keyword_match: h.keyword_match,
+        };
+      }),
+    }, 200);
+  } catch (error) {
+    err("case-search", "Request failed", { requestId, error: error instanceof Error ? error.message : String(error) });
+    return jsonRes({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
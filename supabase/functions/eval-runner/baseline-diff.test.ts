@@ -0,0 +1,60 @@
+// =============================================================================
+// Eval Baseline Diff — Test Suite
+// Run: deno test supabase/functions/eval-runner/baseline-diff.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { diffAgainstBaseline, hasRegressions, type CaseOutcome } from "./baseline-diff.ts";
+
+const outcome = (name: string, status: string, invs: Array<[string, boolean]>, id?: string): CaseOutcome => ({
+  case_id: id,
+  case_name: name,
+  status,
+  invariants: invs.map(([type, passed]) => ({ type, passed, message: `${type} ${passed}` })),
+});
+
+Deno.test("diffAgainstBaseline reports regressions and fixes per invariant", () => {
+  const baseline = [
+    outcome("a", "pass", [["citations_present", true], ["language_match", true]]),
+    outcome("b", "fail", [["cited_ids_exist", false]]),
+  ];
+  const current = [
+    outcome("a", "fail", [["citations_present", false], ["language_match", true]]),
+    outcome("b", "pass", [["cited_ids_exist", true]]),
+  ];
+  const diff = diffAgainstBaseline(baseline, current);
+  assertEquals(diff.regressions.map((r) => [r.case_name, r.invariant, r.baseline]), [["a", "citations_present", true]]);
+  assertEquals(diff.fixes.map((f) => [f.case_name, f.invariant]), [["b", "cited_ids_exist"]]);
+  assertEquals(diff.unchanged_cases, 0);
+  assertEquals(hasRegressions(diff), true);
+});
+
+Deno.test("a case that now errors regresses on its pseudo-invariant; known failures do not", () => {
+  const baseline = [
+    outcome("a", "pass", [["agent_schema_valid", true]]),
+    outcome("b", "fail", [["no_fabricated_sources", false]]),
+  ];
+  const current = [
+    outcome("a", "skipped", [["execution", false]]),
+    outcome("b", "fail", [["no_fabricated_sources", false]]),
+  ];
+  const diff = diffAgainstBaseline(baseline, current);
+  assertEquals(diff.regressions.map((r) => [r.invariant, r.baseline]), [["execution", null]]);
+  assertEquals(diff.fixes, []);
+  assertEquals(diff.unchanged_cases, 1);
+});
+
+Deno.test("cases match by id when every case has one, else by name", () => {
+  const byId = diffAgainstBaseline(
+    [outcome("old name", "pass", [["x", true]], "1")],
+    [outcome("new name", "pass", [["x", true]], "1")],
+  );
+  assertEquals([byId.new_cases, byId.missing_cases, byId.unchanged_cases], [[], [], 1]);
+
+  const byName = diffAgainstBaseline(
+    [outcome("a", "pass", [["x", true]], "1"), outcome("gone", "pass", [])],
+    [outcome("a", "pass", [["x", true]], "2"), outcome("added", "fail", [["x", false]])],
+  );
+  assertEquals([byName.new_cases, byName.missing_cases, byName.unchanged_cases], [["added"], ["gone"], 1]);
+  assertEquals(hasRegressions(byName), false);
+});
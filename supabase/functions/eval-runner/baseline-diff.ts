@@ -0,0 +1,100 @@
+/**
+ * eval-runner/baseline-diff.ts — Invariant pass/fail diff between two runs
+ *
+ * Cases are matched by case_id, falling back to the case name (report files
+ * from another database have different ids). A regression is any failing
+ * invariant in the current run that did not fail in the baseline, including
+ * the pseudo-invariants function_call / execution of a case that errored.
+ */
+
+export interface CaseOutcome {
+  case_id?: string | null;
+  case_name: string;
+  status: string;
+  invariants: Array<{ type: string; passed: boolean; message?: string }>;
+}
+
+export interface InvariantChange {
+  case_name: string;
+  invariant: string;
+  /** null when the invariant was not evaluated in that run */
+  baseline: boolean | null;
+  current: boolean | null;
+  message?: string;
+}
+
+export interface BaselineDiff {
+  regressions: InvariantChange[];
+  fixes: InvariantChange[];
+  /** Cases only in the current run */
+  new_cases: string[];
+  /** Cases only in the baseline run */
+  missing_cases: string[];
+  unchanged_cases: number;
+}
+
+function caseKey(c: CaseOutcome, byId: boolean): string {
+  return byId && c.case_id ? `id:${c.case_id}` : `name:${c.case_name}`;
+}
+
+/** type -> passed; a type evaluated twice counts as failed if either failed */
+function invariantMap(c: CaseOutcome): Map<string, { passed: boolean; message?: string }> {
+  const map = new Map<string, { passed: boolean; message?: string }>();
+  for (const inv of c.invariants || []) {
+    const prev = map.get(inv.type);
+    if (!prev || (prev.passed && !inv.passed)) map.set(inv.type, { passed: inv.passed, message: inv.message });
+  }
+  return map;
+}
+
+export function diffAgainstBaseline(baseline: CaseOutcome[], current: CaseOutcome[]): BaselineDiff {
+  const byId = baseline.every((c) => c.case_id) && current.every((c) => c.case_id);
+  const baseByKey = new Map(baseline.map((c) => [caseKey(c, byId), c]));
+  const seen = new Set<string>();
+
+  const diff: BaselineDiff = { regressions: [], fixes: [], new_cases: [], missing_cases: [], unchanged_cases: 0 };
+
+  for (const cur of current) {
+    const key = caseKey(cur, byId);
+    const base = baseByKey.get(key);
+    if (!base) {
+      diff.new_cases.push(cur.case_name);
+      continue;
+    }
+    seen.add(key);
+
+    const baseInv = invariantMap(base);
+    const curInv = invariantMap(cur);
+    let changed = false;
+
+    for (const [type, { passed, message }] of curInv) {
+      const before = baseInv.get(type)?.passed ?? null;
+      if (!passed && before !== false) {
+        diff.regressions.push({ case_name: cur.case_name, invariant: type, baseline: before, current: false, message });
+        changed = true;
+      } else if (passed && before === false) {
+        diff.fixes.push({ case_name: cur.case_name, invariant: type, baseline: false, current: true });
+        changed = true;
+      }
+    }
+    // A baseline failure that is no longer evaluated is not a fix unless the case now passes
+    for (const [type, { passed }] of baseInv) {
+      if (!passed && !curInv.has(type) && cur.status === "pass") {
+        diff.fixes.push({ case_name: cur.case_name, invariant: type, baseline: false, current: null });
+        changed = true;
+      }
+    }
+
+    if (!changed) diff.unchanged_cases++;
+  }
+
+  for (const base of baseline) {
+    if (!seen.has(caseKey(base, byId))) diff.missing_cases.push(base.case_name);
+  }
+
+  return diff;
+}
+
+export function hasRegressions(diff: BaselineDiff): boolean {
+  return diff.regressions.length > 0;
+}
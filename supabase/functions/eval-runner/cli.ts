@@ -0,0 +1,115 @@
+/**
+ * eval-runner/cli.ts — Offline regression run of an eval suite
+ *
+ * Runs a suite against a local stack (local Postgres + functions serving
+ * recorded model responses) and diffs invariant results against a baseline.
+ * Exits 1 on any regression, so CI can gate prompt edits before deploy.
+ *
+ *   supabase start && supabase db reset
+ *   supabase functions serve --env-file supabase/functions/eval-runner/replay.env
+ *   deno run -A supabase/functions/eval-runner/cli.ts --suite <suite_id> \
+ *     --baseline eval-baseline.json --out eval-report.json
+ *
+ * Flags:
+ *   --suite <uuid>      eval_suites.id (required)
+ *   --baseline <ref>    eval_runs.id, or a report file written by --out
+ *   --out <path>        write the run and its baseline diff as JSON
+ *   --update-baseline   overwrite the --baseline file with this run
+ *
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, INTERNAL_INGEST_KEY.
+ * See docs/EVAL_OFFLINE_REGRESSION.md for recording fixtures.
+ */
+
+import { parseArgs } from "https://deno.land/std@0.224.0/cli/parse_args.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { runSuite, loadRunOutcomes, type SuiteRunResult } from "./runner.ts";
+import { diffAgainstBaseline, hasRegressions, type BaselineDiff, type CaseOutcome } from "./baseline-diff.ts";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface Report {
+  suite_id: string;
+  generated_at: string;
+  run: SuiteRunResult;
+  baseline?: string;
+  baseline_diff?: BaselineDiff;
+}
+
+async function loadBaseline(
+  supabase: ReturnType<typeof createClient>,
+  ref: string,
+): Promise<CaseOutcome[] | null> {
+  if (UUID_RE.test(ref)) return loadRunOutcomes(supabase, ref);
+  try {
+    const report = JSON.parse(await Deno.readTextFile(ref)) as Report;
+    return report.run.results;
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+function printDiff(diff: BaselineDiff): void {
+  for (const r of diff.regressions) {
+    const before = r.baseline === null ? "n/a" : "pass";
+    console.log(`  REGRESSION  ${r.case_name} :: ${r.invariant} (${before} -> fail)${r.message ? ` — ${r.message}` : ""}`);
+  }
+  for (const f of diff.fixes) {
+    console.log(`  FIXED       ${f.case_name} :: ${f.invariant}`);
+  }
+  for (const name of diff.new_cases) console.log(`  NEW         ${name}`);
+  for (const name of diff.missing_cases) console.log(`  MISSING     ${name}`);
+  console.log(
+    `  ${diff.regressions.length} regression(s), ${diff.fixes.length} fix(es), ${diff.unchanged_cases} unchanged case(s)`,
+  );
+}
+
+async function main(): Promise<number> {
+  const args = parseArgs(Deno.args, {
+    string: ["suite", "baseline", "out"],
+    boolean: ["update-baseline"],
+  });
+
+  if (!args.suite) {
+    console.error("Usage: cli.ts --suite <suite_id> [--baseline <run_id|report.json>] [--out <report.json>] [--update-baseline]");
+    return 2;
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceKey) {
+    console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required (local stack: `supabase status`)");
+    return 2;
+  }
+  const supabase = createClient(supabaseUrl, serviceKey);
+
+  const baseline = args.baseline ? await loadBaseline(supabase, args.baseline) : null;
+  if (args.baseline && !baseline) {
+    console.log(`Baseline ${args.baseline} not found — this run has nothing to compare against.`);
+  }
+
+  const run = await runSuite(supabase, supabaseUrl, args.suite, {
+    metadata: { mode: "offline_cli", baseline: args.baseline ?? null },
+  });
+  console.log(`Run ${run.run_id}: ${run.passed} passed, ${run.failed} failed, ${run.skipped} skipped of ${run.total}`);
+
+  const report: Report = { suite_id: args.suite, generated_at: new Date().toISOString(), run };
+  if (baseline) {
+    report.baseline = args.baseline;
+    report.baseline_diff = diffAgainstBaseline(baseline, run.results);
+    console.log(`Diff against ${args.baseline}:`);
+    printDiff(report.baseline_diff);
+  }
+
+  if (args.out) await Deno.writeTextFile(args.out, JSON.stringify(report, null, 2) + "\n");
+  if (args["update-baseline"] && args.baseline && !UUID_RE.test(args.baseline)) {
+    await Deno.writeTextFile(args.baseline, JSON.stringify(report, null, 2) + "\n");
+    console.log(`Baseline ${args.baseline} updated.`);
+  }
+
+  return report.baseline_diff && hasRegressions(report.baseline_diff) ? 1 : 0;
+}
+
+if (import.meta.main) {
+  Deno.exit(await main());
+}
@@ -0,0 +1,203 @@
+/**
+ * eval-runner/runner.ts — Suite execution
+ *
+ * Calls each active case's target function, checks its invariants and stores
+ * eval_runs / eval_run_results. Shared by the HTTP handler (index.ts) and the
+ * offline CLI (cli.ts), which points it at a local stack whose functions
+ * replay recorded model responses.
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { callInternalFunction } from "../_shared/edge-security.ts";
+import { log } from "../_shared/safe-logger.ts";
+import { runInvariants, type InvariantResult } from "./invariants.ts";
+import type { CaseOutcome } from "./baseline-diff.ts";
+
+export interface CaseRunResult extends CaseOutcome {
+  case_id: string;
+  latency_ms: number;
+  temporal_metadata_source?: string;
+}
+
+export interface SuiteRunResult {
+  run_id: string;
+  passed: number;
+  failed: number;
+  skipped: number;
+  total: number;
+  results: CaseRunResult[];
+}
+
+export class SuiteRunError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "SuiteRunError";
+  }
+}
+
+export async function runSuite(
+  supabase: SupabaseClient,
+  supabaseUrl: string,
+  suiteId: string,
+  options: { metadata?: Record<string, unknown> } = {},
+): Promise<SuiteRunResult> {
+  const { data: cases, error: casesErr } = await supabase
+    .from("eval_cases")
+    .select("*")
+    .eq("suite_id", suiteId)
+    .eq("is_active", true)
+    .order("created_at");
+
+  if (casesErr) throw new SuiteRunError(`Failed to fetch cases: ${casesErr.message}`, 500);
+  if (!cases || cases.length === 0) throw new SuiteRunError("No active eval cases in suite", 404);
+
+  const { data: run, error: runErr } = await supabase
+    .from("eval_runs")
+    .insert({
+      suite_id: suiteId,
+      status: "running",
+      total_cases: cases.length,
+      started_at: new Date().toISOString(),
+      metadata: options.metadata ?? {},
+    })
+    .select()
+    .single();
+
+  if (runErr) throw new SuiteRunError(`Failed to create run: ${runErr.message}`, 500);
+
+  log("eval-runner", "Starting eval run v2.1", { run_id: run.id, total_cases: cases.length });
+
+  let passed = 0;
+  let failed = 0;
+  let skipped = 0;
+  const results: CaseRunResult[] = [];
+
+  for (const evalCase of cases) {
+    const t0 = Date.now();
+    try {
+      const targetUrl = `${supabaseUrl}/functions/v1/${evalCase.target_function}`;
+      const response = await callInternalFunction(targetUrl, evalCase.input_payload, {
+        timeoutMs: 60_000,
+      });
+
+      const latencyMs = Date.now() - t0;
+      const responseBody = await response.json() as Record<string, unknown>;
+
+      if (!response.ok) {
+        failed++;
+        const result: CaseRunResult = {
+          case_id: evalCase.id,
+          case_name: evalCase.name,
+          status: "fail",
+          invariants: [{
+            type: "function_call",
+            passed: false,
+            message: `Edge function returned ${response.status}: ${JSON.stringify(responseBody).substring(0, 500)}`,
+          }],
+          latency_ms: latencyMs,
+        };
+        results.push(result);
+
+        await supabase.from("eval_run_results").insert({
+          run_id: run.id,
+          case_id: evalCase.id,
+          status: "fail",
+          raw_response: responseBody,
+          invariant_results: result.invariants,
+          latency_ms: latencyMs,
+          error_message: `HTTP ${response.status}`,
+          temporal_metadata_source: null,
+        });
+        continue;
+      }
+
+      const { invariants, temporalMetadataSource } = await runInvariants(responseBody, evalCase, supabase);
+
+      const allPassed = invariants.every(i => i.passed);
+      const caseStatus = allPassed ? "pass" : "fail";
+      if (allPassed) passed++;
+      else failed++;
+
+      const temporalViolations = invariants
+        .filter(i => i.type === "temporal_in_range" && !i.passed)
+        .map(i => i.details);
+
+      results.push({
+        case_id: evalCase.id,
+        case_name: evalCase.name,
+        status: caseStatus,
+        invariants,
+        latency_ms: latencyMs,
+        temporal_metadata_source: temporalMetadataSource,
+      });
+
+      await supabase.from("eval_run_results").insert({
+        run_id: run.id,
+        case_id: evalCase.id,
+        status: caseStatus,
+        raw_response: responseBody,
+        invariant_results: invariants,
+        temporal_violations: temporalViolations.length > 0 ? temporalViolations : null,
+        temporal_metadata_source: temporalMetadataSource || null,
+        latency_ms: latencyMs,
+      });
+    } catch (caseErr) {
+      const latencyMs = Date.now() - t0;
+      skipped++;
+      const errorMsg = caseErr instanceof Error ? caseErr.message : String(caseErr);
+      results.push({
+        case_id: evalCase.id,
+        case_name: evalCase.name,
+        status: "skipped",
+        invariants: [{ type: "execution", passed: false, message: `Error: ${errorMsg}` }],
+        latency_ms: latencyMs,
+      });
+
+      await supabase.from("eval_run_results").insert({
+        run_id: run.id,
+        case_id: evalCase.id,
+        status: "skipped",
+        error_message: errorMsg,
+        latency_ms: latencyMs,
+        temporal_metadata_source: null,
+      });
+    }
+  }
+
+  await supabase.from("eval_runs").update({
+    status: failed > 0 ? "failed" : "passed",
+    passed,
+    failed,
+    skipped,
+    completed_at: new Date().toISOString(),
+  }).eq("id", run.id);
+
+  log("eval-runner", "Eval run v2.1 complete", { run_id: run.id, passed, failed, skipped });
+
+  return { run_id: run.id, passed, failed, skipped, total: cases.length, results };
+}
+
+/** Stored outcomes of an earlier run, for use as a baseline */
+export async function loadRunOutcomes(supabase: SupabaseClient, runId: string): Promise<CaseOutcome[]> {
+  const { data, error } = await supabase
+    .from("eval_run_results")
+    .select("case_id, status, invariant_results, error_message, eval_cases(name)")
+    .eq("run_id", runId);
+
+  if (error) throw new SuiteRunError(`Failed to load baseline run: ${error.message}`, 500);
+  if (!data || data.length === 0) throw new SuiteRunError(`Baseline run ${runId} has no results`, 404);
+
+  return data.map((row) => {
+    const evalCase = row.eval_cases as { name?: string } | null;
+    const invariants = (row.invariant_results || []) as InvariantResult[];
+    return {
+      case_id: row.case_id,
+      case_name: evalCase?.name || row.case_id,
+      status: row.status,
+      // Skipped rows store only error_message; restore the execution pseudo-invariant
+      invariants: invariants.length === 0 && row.status === "skipped"
+        ? [{ type: "execution", passed: false, message: row.error_message || "" }]
+        : invariants,
+    };
+  });
+}
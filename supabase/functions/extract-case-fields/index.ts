@@ -53,6 +53,32 @@ CRITICAL RULES:
 - Extract ALL available information — be thorough, not brief
 - If PDF/image contains legal documents — read and extract every legally relevant detail`;
 
+// Procedural roles of extracted parties (match party_role_group() / party_side() in the DB)
+const PARTY_ROLES = [
+  "claimant", "defendant", "accused", "victim", "applicant", "respondent",
+  "witness", "representative", "third_party", "other",
+] as const;
+
+interface ExtractedParty {
+  name: string;
+  role: string;
+}
+
+function normalizeParties(raw: unknown): ExtractedParty[] {
+  if (!Array.isArray(raw)) return [];
+  const seen = new Set<string>();
+  const out: ExtractedParty[] = [];
+  for (const p of raw) {
+    const name = typeof p?.name === "string" ? p.name.trim() : "";
+    if (name.length < 3) continue;
+    const key = name.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const role = (PARTY_ROLES as readonly string[]).includes(p?.role) ? p.role : "other";
+    out.push({ name, role });
+  }
+  return out.slice(0, 50);
+}
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -275,7 +301,7 @@ serve(async (req) => {
               type: "function",
               function: {
                 name: "extract_case_fields",
-                description: "Extract case number, description, facts and legal question from provided materials",
+                description: "Extract case number, description, facts, legal question and parties from provided materials",
                 parameters: {
                   type: "object",
                   properties: {
@@ -294,6 +320,21 @@ serve(async (req) => {
                     legal_question: {
                       type: "string",
                       description: "DEEP criminal law analysis in Armenian: (1) exact RA Criminal Code qualification (article/part/subpart); (2) corpus delicti elements to prove; (3) aggravating/mitigating circumstances; (4) evidence admissibility issues; (5) fair trial concerns per RA CPC; (6) list of required investigative actions not yet performed; (7) key defense/prosecution questions; (8) potential procedural violations. Professional legal language required."
+                    },
+                    parties: {
+                      type: "array",
+                      description: "Every person and organization named in the materials as a party or participant. Full name exactly as written, in nominative case. Do not include judges, investigators or court staff.",
+                      items: {
+                        type: "object",
+                        properties: {
+                          name: { type: "string" },
+                          role: {
+                            type: "string",
+                            enum: [...PARTY_ROLES],
+                          },
+                        },
+                        required: ["name", "role"],
+                      },
                     }
                   },
                   required: ["case_number", "description", "facts", "legal_question"]
@@ -342,13 +383,30 @@ serve(async (req) => {
 
     console.log("Case updated successfully");
 
+    // Index the parties for conflict checks; a re-run replaces the earlier extraction
+    const parties = normalizeParties(extractedFields.parties);
+    const { error: delPartiesErr } = await supabase
+      .from("case_party_names")
+      .delete()
+      .eq("case_id", caseId)
+      .eq("source", "extracted");
+    if (delPartiesErr) {
+      console.warn(`Failed to clear extracted parties: ${delPartiesErr.message}`);
+    } else if (parties.length > 0) {
+      const { error: partiesErr } = await supabase
+        .from("case_party_names")
+        .insert(parties.map((p) => ({ ...p, case_id: caseId, source: "extracted" })));
+      if (partiesErr) console.warn(`Failed to save parties: ${partiesErr.message}`);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
         case_number: extractedFields.case_number || null,
         description: extractedFields.description || null,
         facts: extractedFields.facts,
-        legal_question: extractedFields.legal_question
+        legal_question: extractedFields.legal_question,
+        parties,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
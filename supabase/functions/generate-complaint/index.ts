@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { callText } from "../_shared/openai-router.ts";
+import { QuotaExceededError, quotaErrorResponse } from "../_shared/ai-quota.ts";
+import { resolvePrompt } from "../_shared/prompt-registry.ts";
 
 import { SYSTEM_PROMPT, COURT_INSTRUCTIONS, LANGUAGE_INSTRUCTIONS } from "./prompts/index.ts";
 import { validateRequest } from "./validators.ts";
@@ -9,6 +11,7 @@ import { parseReferencesText, buildUserSourcesBlock } from "../_shared/reference
 import { buildSearchQuery, mapCourtTypeToPracticeCategory } from "./rag-search.ts";
 import { redactForLog } from "../_shared/pii-redactor.ts";
 import { log, err } from "../_shared/safe-logger.ts";
+import { verifyCitations } from "../_shared/citation-verifier.ts";
 
 // =============================================================================
 // CORS HEADERS (wildcard for browser compatibility)
@@ -132,6 +135,7 @@ serve(async (req) => {
         kbLimit: 8,
         practiceLimit: 5,
         fullPracticeText: false,
+        userId: user.id,
       });
       
       kbContext = rag.kbContext;
@@ -253,14 +257,16 @@ ${userSourcesBlock ? "When user-selected sources are provided, you MUST cite the
 
     log("generate-complaint", "Generating complaint", { courtType: request.courtType, language: request.language, textLen: request.extractedText.length });
 
+    const systemPrompt = await resolvePrompt("generate-complaint", "system", SYSTEM_PROMPT, { userId: user.id });
+
     // Use centralized OpenAI router — no direct fetch calls allowed
     const routerResult = await callText(
       "generate-complaint",
       [
-        { role: "system", content: SYSTEM_PROMPT },
+        { role: "system", content: systemPrompt.text },
         { role: "user", content: userPrompt },
       ],
-      { timeoutMs: 120000 }
+      { timeoutMs: 120000, userId: user.id, prompt: systemPrompt }
     );
     let generatedContent = routerResult.text;
 
@@ -312,6 +318,12 @@ ${userSourcesBlock ? "When user-selected sources are provided, you MUST cite the
     }
     // === END PRECEDENT GUARD VALIDATOR ===
 
+    // === CITATION VERIFIER: article / case references vs KB on referenceDate ===
+    const citationVerification = await verifyCitations(userClient, generatedContent, {
+      referenceDate,
+      fn: "generate-complaint",
+    });
+
     return new Response(
       JSON.stringify({ 
         content: generatedContent,
@@ -329,11 +341,15 @@ ${userSourcesBlock ? "When user-selected sources are provided, you MUST cite the
         })),
         precedentCount: retrievedPrecedents.length,
         citedPrecedentIds: citedIds,
+        citation_verification: citationVerification,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
     err("generate-complaint", "Unhandled error", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -1,6 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { log, err } from "../_shared/safe-logger.ts";
+import { verifyCitations } from "../_shared/citation-verifier.ts";
+import { QuotaExceededError, quotaErrorResponse } from "../_shared/ai-quota.ts";
+import { resolvePrompt } from "../_shared/prompt-registry.ts";
+import { withEventStream, type StreamSink } from "../_shared/sse.ts";
 import { sandboxUserInput, secureSandbox, logInjectionAttempt, ANTI_INJECTION_RULES } from "../_shared/prompt-armor.ts";
 import { applyBudgets, logTokenUsage, type RankedContent } from "../_shared/token-budget.ts";
 import { DOCUMENT_GENERATION, buildModelParams } from "../_shared/model-config.ts";
@@ -11,7 +15,9 @@ import {
   buildRecipientInfo,
   buildSenderInfo,
   buildContextText,
+  buildPartiesInfo,
   getLanguageNote,
+  buildCourtFeeInfo,
 } from "./validators.ts";
 import { 
   composePrompt, 
@@ -28,12 +34,17 @@ import { parseReferencesText, buildUserSourcesBlock } from "../_shared/reference
 // =============================================================================
 import { handleCors } from "../_shared/edge-security.ts";
 
-serve(async (req) => {
+serve((req) => {
   // === CORS via centralized handler ===
   const corsResult = handleCors(req);
   if (corsResult.errorResponse) return corsResult.errorResponse;
   const corsHeaders = corsResult.corsHeaders!;
 
+  // Streams the document text over SSE when asked to (Accept: text/event-stream)
+  return withEventStream(req, corsHeaders, (stream) => generateDocument(req, corsHeaders, stream));
+});
+
+async function generateDocument(req: Request, corsHeaders: Record<string, string>, stream: StreamSink | null): Promise<Response> {
   try {
     // === AUTH GUARD (Audit Fix: Stage 2/5 — Critical) ===
     const authHeader = req.headers.get("Authorization");
@@ -114,6 +125,24 @@ serve(async (req) => {
     const contextText = buildContextText(request);
     const recipientInfo = buildRecipientInfo(request);
     const senderInfo = buildSenderInfo(request);
+    const courtFeeInfo = buildCourtFeeInfo(request);
+
+    // Structured parties of the case (RLS: case staff only)
+    let partiesInfo = "";
+    const partiesCaseId = bodyCaseId ?? (typeof request.caseData?.id === "string" ? request.caseData.id : null);
+    if (partiesCaseId) {
+      const { data: partyRows, error: partiesError } = await authClient
+        .from("case_parties")
+        .select("kind, name, role, is_client, address, phone, email, representative_name, representative_basis, passport_masked, tax_id_masked")
+        .eq("case_id", partiesCaseId)
+        .order("is_client", { ascending: false })
+        .order("created_at", { ascending: true });
+      if (partiesError) {
+        err("generate-document", "Parties lookup failed", partiesError);
+      } else {
+        partiesInfo = buildPartiesInfo(partyRows ?? []);
+      }
+    }
 
     // ==========================================================================
     // RAG: Search Knowledge Base and Legal Practice
@@ -138,6 +167,7 @@ serve(async (req) => {
         kbLimit: 8,
         practiceLimit: 5,
         fullPracticeText: false,
+        userId: user.id,
       });
       
       kbContext = rag.kbContext;
@@ -182,10 +212,15 @@ ${recipientInfo}
 APPLICANT/SENDER INFORMATION:
 ${senderInfo}
 
-CONTEXT AND FACTS:
+${partiesInfo ? `PARTIES (from the case registry; use these names, roles and details instead of guessing them from the facts):
+${secureSandbox("CASE_PARTIES", partiesInfo, "generate-document").output}
+
+` : ''}CONTEXT AND FACTS:
 ${secureSandbox("CONTEXT_AND_FACTS", contextText, "generate-document").output}
 
-${request.additionalFields ? `ADDITIONAL INFORMATION:\n${JSON.stringify(request.additionalFields, null, 2)}` : ''}
+${request.additionalFields ? `ADDITIONAL INFORMATION:\n${JSON.stringify(request.additionalFields, (key, value) => key === 'courtFeeCalculation' ? undefined : value, 2)}` : ''}
+
+${courtFeeInfo}
 
 ${kbContext ? `---
 RELEVANT LEGAL SOURCES FROM KNOWLEDGE BASE:
@@ -214,6 +249,13 @@ Use the legal sources and court practice above to strengthen legal argumentation
     // ==========================================================================
     let systemPrompt: string;
     let userPrompt: string;
+    // Master prompt of the language; a live Prompt Manager row overrides it
+    const masterPrompt = await resolvePrompt(
+      "generate-document",
+      language,
+      SYSTEM_PROMPTS[language] || SYSTEM_PROMPTS.hy,
+      { userId: user.id },
+    );
 
     if (request.role) {
       // Use new layered prompt composition
@@ -222,7 +264,8 @@ Use the legal sources and court practice above to strengthen legal argumentation
         role: request.role,
         jurisdiction,
         documentPrompt,
-        userContext: userContextBlock
+        userContext: userContextBlock,
+        masterPrompt: masterPrompt.text,
       });
 
       // Validate composed prompt
@@ -243,26 +286,39 @@ Use the legal sources and court practice above to strengthen legal argumentation
       log("generate-document", "Role-aware generation", { role: request.role, jurisdiction });
     } else {
       // Legacy mode: use original system prompt without role layer
-      systemPrompt = SYSTEM_PROMPTS[language] || SYSTEM_PROMPTS.hy;
+      systemPrompt = masterPrompt.text;
       userPrompt = userContextBlock;
     }
 
     log("generate-document", "Generating", { promptLen: userPrompt.length, sysLen: systemPrompt.length });
 
     // Route via centralized OpenAI router
-    const { callText } = await import("../_shared/openai-router.ts");
+    const { callText, callTextStream } = await import("../_shared/openai-router.ts");
 
     let generatedContent: string;
     let modelUsed: string;
     try {
-      const result = await callText("generate-document", [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ]);
+      const messages = [
+        { role: "system" as const, content: systemPrompt },
+        { role: "user" as const, content: userPrompt },
+      ];
+      const result = stream
+        ? await callTextStream("generate-document", messages, { userId: user.id, prompt: masterPrompt, onDelta: stream.delta, signal: stream.signal })
+        : await callText("generate-document", messages, { userId: user.id, prompt: masterPrompt });
       generatedContent = result.text;
       modelUsed = result.model_used;
       log("generate-document", "Document generated", { len: generatedContent.length, model: modelUsed });
     } catch (routerErr) {
+      if (routerErr instanceof QuotaExceededError) {
+        return quotaErrorResponse(routerErr, corsHeaders);
+      }
+      // Client cancelled the stream
+      if (stream?.signal.aborted) {
+        return new Response(
+          JSON.stringify({ error: "Cancelled" }),
+          { status: 499, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
       const status = (routerErr as { status?: number })?.status;
       if (status === 429) {
         return new Response(
@@ -280,6 +336,12 @@ Use the legal sources and court practice above to strengthen legal argumentation
       throw routerErr;
     }
 
+    // Citation Verifier: article / case references vs KB on referenceDate
+    const citationVerification = await verifyCitations(authClient, generatedContent, {
+      referenceDate,
+      fn: "generate-document",
+    });
+
     return new Response(
       JSON.stringify({ 
         content: generatedContent,
@@ -287,6 +349,7 @@ Use the legal sources and court practice above to strengthen legal argumentation
         role: request.role || 'default',
         jurisdiction,
         model_used: modelUsed,
+        citation_verification: citationVerification,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -298,4 +361,4 @@ Use the legal sources and court practice above to strengthen legal argumentation
       { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   }
-});
+}
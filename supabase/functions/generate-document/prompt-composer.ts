@@ -123,6 +123,8 @@ export interface PromptCompositionParams {
   jurisdiction?: string;
   documentPrompt: string;
   userContext: string;
+  /** Replaces the master prompt of the language (prompt registry) */
+  masterPrompt?: string;
 }
 
 export interface ComposedPrompt {
@@ -153,7 +155,7 @@ export function composePrompt(params: PromptCompositionParams): ComposedPrompt {
   const validationErrors: string[] = [];
   
   // Layer 1: Master System Prompt (NEVER removed)
-  const masterPrompt = SYSTEM_PROMPTS[language] || SYSTEM_PROMPTS.hy;
+  const masterPrompt = params.masterPrompt ?? (SYSTEM_PROMPTS[language] || SYSTEM_PROMPTS.hy);
   
   // Layer 2: Role Prompt (optional, adds legal strategy)
   let rolePromptSection = '';
@@ -11,6 +11,7 @@ export interface GenerateDocumentRequest {
   subcategory?: string;
   role?: LegalRole; // NEW: Role-based document generation
   caseData?: {
+    id?: string;
     title?: string;
     case_number?: string;
     case_type?: string;
@@ -154,6 +155,76 @@ Notes: ${cd.notes || 'Not provided'}`;
   return contextText;
 }
 
+/** case_parties row as selected for the prompt; identifiers stay masked */
+export interface CasePartyRow {
+  kind: string;
+  name: string;
+  role: string;
+  is_client: boolean;
+  address: string | null;
+  phone: string | null;
+  email: string | null;
+  representative_name: string | null;
+  representative_basis: string | null;
+  passport_masked: string | null;
+  tax_id_masked: string | null;
+}
+
+/**
+ * Parties block from the case registry. Passport and tax numbers are never
+ * sent to the model: a party that has them gets a placeholder the lawyer
+ * fills in after generation.
+ */
+export function buildPartiesInfo(parties: CasePartyRow[]): string {
+  if (parties.length === 0) return '';
+
+  const lines = parties.map((p, i) => {
+    const parts = [
+      `${i + 1}. ${p.name} (${p.kind === 'organization' ? 'organization' : 'natural person'}; role: ${p.role}${p.is_client ? '; our client' : ''})`,
+    ];
+    if (p.address) parts.push(`   Address: ${p.address}`);
+    const contact = [p.phone, p.email].filter(Boolean).join(', ');
+    if (contact) parts.push(`   Contact: ${contact}`);
+    if (p.representative_name) {
+      parts.push(`   Representative: ${p.representative_name}${p.representative_basis ? ` (basis: ${p.representative_basis})` : ''}`);
+    }
+    if (p.passport_masked) {
+      parts.push(`   ${p.kind === 'organization' ? 'State registration number' : 'Passport'}: [______]`);
+    }
+    if (p.tax_id_masked) parts.push('   Tax ID: [______]');
+    return parts.join('\n');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * State duty calculation from the client-side calculator. The figures are
+ * deterministic and must be reproduced, not recomputed, by the model.
+ */
+export function buildCourtFeeInfo(request: GenerateDocumentRequest): string {
+  const calc = request.additionalFields?.courtFeeCalculation as
+    | { breakdown?: unknown; legalBasis?: unknown }
+    | null
+    | undefined;
+  if (!calc || !Array.isArray(calc.breakdown) || calc.breakdown.length === 0) {
+    return '';
+  }
+
+  const breakdown = calc.breakdown.filter((l): l is string => typeof l === 'string');
+  const legalBasis = Array.isArray(calc.legalBasis)
+    ? calc.legalBasis.filter((l): l is string => typeof l === 'string')
+    : [];
+
+  let block = `STATE DUTY (COURT FEE) CALCULATION:
+${breakdown.join('\n')}`;
+  if (legalBasis.length > 0) {
+    block += `\n\nLEGAL BASIS (RA Law "On State Duty", from the knowledge base):\n${legalBasis.join('\n')}`;
+  }
+  block += `\n\nInclude this calculation in the document (in the section on the claim amount and state duty or in the list of attachments confirming payment) exactly as given. Do not recalculate or change the amounts.`;
+  return block;
+}
+
 export function getLanguageNote(language: string): string {
   switch (language) {
     case 'hy':
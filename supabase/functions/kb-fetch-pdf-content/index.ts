@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { handleCors } from "../_shared/edge-security.ts";
 import { callGatewayBypass } from "../_shared/gateway-bypass.ts";
+import { recordUsage } from "../_shared/ai-quota.ts";
 
 const OCR_PROMPT = `You are an expert OCR specialist for Armenian legal documents (Republic of Armenia). Your task is to extract ALL visible text from the provided PDF/images with maximum fidelity, preserving evidentiary integrity.
 
@@ -275,7 +276,8 @@ serve(async (req) => {
           const prefix = textDecoder.decode(pdfBytes.subarray(0, 20));
           
           let extractedText: string;
-          let tokensUsed = 0;
+          let usage: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number } | undefined;
+          let modelUsed = "";
           
           if (prefix.startsWith('__FIRECRAWL_TEXT__')) {
             // Firecrawl already extracted text — use directly
@@ -318,8 +320,8 @@ serve(async (req) => {
             );
 
             extractedText = (aiBypass.data?.choices as Array<{ message?: { content?: string } }>)?.[0]?.message?.content || "";
-            const usage = aiBypass.data?.usage as { total_tokens?: number } | undefined;
-            tokensUsed = usage?.total_tokens || 0;
+            usage = aiBypass.data?.usage as typeof usage;
+            modelUsed = aiBypass.model_used;
           }
           
           if (!extractedText || extractedText.length < 50) {
@@ -343,13 +345,16 @@ serve(async (req) => {
           console.log(`Updated KB ${record.id}: ${wordCount} words extracted`);
 
           // Log API usage
-          if (tokensUsed > 0) {
-            await supabase.rpc("log_api_usage", {
-              _service_type: "kb_pdf_extraction",
-              _model_name: "google/gemini-2.5-flash",
-              _tokens_used: tokensUsed,
-              _estimated_cost: tokensUsed * 0.0000005,
-              _metadata: { kb_id: record.id, word_count: wordCount }
+          if (usage?.total_tokens) {
+            await recordUsage({
+              userId: user.id,
+              functionName: "kb-fetch-pdf-content",
+              serviceType: "ocr",
+              model: modelUsed,
+              inputTokens: usage.prompt_tokens || 0,
+              outputTokens: usage.completion_tokens || 0,
+              totalTokens: usage.total_tokens,
+              metadata: { kb_id: record.id, word_count: wordCount },
             });
           }
 
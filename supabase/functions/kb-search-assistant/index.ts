@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { KEYWORD_EXTRACTION, buildModelParams } from "../_shared/model-config.ts";
 import { handleCors } from "../_shared/edge-security.ts";
+import { loadLexicon, ilikePatterns } from "../_shared/armenian-morphology.ts";
 
 // ... keep existing code (interfaces KBSearchResult, SearchOutput)
 
@@ -58,7 +59,7 @@ serve(async (req) => {
       const kbResult = await callText("kb-search-assistant", [
         { role: "system", content: SEARCH_ASSISTANT_SYSTEM_PROMPT },
         { role: "user", content: query },
-      ]);
+      ], { userId: user.id, usageMetadata: { query_length: query.length } });
       const aiResponse = { ok: true, json: async () => ({ choices: [{ message: { content: kbResult.text } }] }) };
 
       if (aiResponse.ok) {
@@ -93,8 +94,14 @@ serve(async (req) => {
     let searchResults: KBSearchResult[] = [];
     
     if (keywords.length > 0) {
+      // Each keyword matches any form of its lemma; the cover keeps the
+      // pattern list short (the lemma already matches most suffixed forms)
+      const lexicon = await loadLexicon(supabase, keywords);
+      const keywordTerms = keywords.map((k: string) => ilikePatterns(lexicon, k));
+
       // Build OR conditions for each keyword
-      const orConditions = keywords
+      const orConditions = [...new Set(keywordTerms.flat())]
+        .slice(0, 40)
         .map((k: string) => `title.ilike.%${k}%,content_text.ilike.%${k}%`)
         .join(",");
 
@@ -112,10 +119,9 @@ serve(async (req) => {
           const titleLower = (r.title || "").toLowerCase();
           const contentLower = (r.content_text || "").toLowerCase();
 
-          for (const kw of keywords) {
-            const kwLower = kw.toLowerCase();
-            if (titleLower.includes(kwLower)) score += 3;
-            if (contentLower.includes(kwLower)) score += 1;
+          for (const terms of keywordTerms) {
+            if (terms.some((t) => titleLower.includes(t))) score += 3;
+            if (terms.some((t) => contentLower.includes(t))) score += 1;
           }
           return { ...r, rank: score / (keywords.length * 4) };
         }).sort((a, b) => b.rank - a.rank);
@@ -147,21 +153,6 @@ serve(async (req) => {
       totalFound: searchResults.length,
     };
 
-    // Log API usage
-    try {
-      const { getModelConfig: _getModelConfig } = await import("../_shared/openai-router.ts");
-      const kbCfg = _getModelConfig("kb-search-assistant");
-      await supabase.rpc("log_api_usage", {
-        _service_type: "kb_search_assistant",
-        _model_name: kbCfg.model,
-        _tokens_used: null,
-        _estimated_cost: 0.0005,
-        _metadata: { query_length: query.length, keywords_count: keywords.length, results_count: output.results.length }
-      });
-    } catch (logErr) {
-      console.error("Failed to log API usage:", logErr);
-    }
-
     console.log(`KB Search completed: ${output.results.length} results found`);
 
     return new Response(
@@ -1,6 +1,15 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { log, warn, err } from "../_shared/safe-logger.ts";
+import { isValidInternalCall } from "../_shared/edge-security.ts";
+import { fetchKBTextAsOf, extractArticleText, articleFromLabel, type KBTextAsOf } from "../_shared/kb-point-in-time.ts";
+import {
+  fetchStageRankings,
+  reciprocalRankFusion,
+  DEFAULT_STAGE_WEIGHTS,
+  type RankedHit,
+  type RetrievalStage,
+} from "../_shared/hybrid-retrieval.ts";
 
 // ─── CORS ────────────────────────────────────────────────────────────────────
 const corsHeaders: Record<string, string> = {
@@ -18,6 +27,7 @@ const MAX_KB_CHUNKS = 50;
 const MAX_PRACTICE_DOCS = 20;
 const MAX_CHUNKS_PER_DOC = 6;
 const MAX_PREVIEW_CHARS = 500;
+const MAX_ARTICLE_CHARS = 8000;
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -25,14 +35,18 @@ interface SearchRequest {
   query: string;
   category?: string | null;
   kbCategory?: string | null;
+  /** YYYY-MM-DD: return KB article text in force on this date */
+  asOfDate?: string | null;
 }
 
 interface MergedItem {
   source: "kb" | "practice";
   id: string;
   title: string;
+  /** rrf_score relative to the best merged item (0-1) */
   normalized_score: number;
   raw_score: number;
+  rrf_score: number;
   preview: string;
   meta: Record<string, unknown>;
 }
@@ -63,11 +77,25 @@ function jsonRes(body: Record<string, unknown>, status: number): Response {
   });
 }
 
-// ─── Score normalization ─────────────────────────────────────────────────────
-function normalizeScores(scores: number[]): number[] {
-  const max = Math.max(...scores, 0);
-  if (max === 0) return scores.map(() => 0);
-  return scores.map((s) => s / max);
+// ─── Rank fusion ─────────────────────────────────────────────────────────────
+// The chunk ranking is fused with the document-level keyword stages of the
+// hybrid pipeline. RRF works on ranks, so KB and practice scores end up on one
+// scale without max-normalising each side. The vector stage is left out to
+// keep an embedding call off this interactive path.
+const FUSION_STAGES: RetrievalStage[] = ["bm25", "lemma", "trigram"];
+const FUSION_WEIGHTS = { chunks: 1, ...DEFAULT_STAGE_WEIGHTS };
+
+function fuseWithChunkRanking(
+  docs: Array<{ id: string; max_score: number }>,
+  stageLists: Partial<Record<RetrievalStage, RankedHit[]>>,
+): Map<string, number> {
+  const fused = reciprocalRankFusion<"chunks" | RetrievalStage>(
+    { chunks: docs.map((d) => ({ id: d.id, score: Number(d.max_score) || 0 })), ...stageLists },
+    FUSION_WEIGHTS,
+  );
+  // Only documents with chunks can be shown; stage-only hits are dropped
+  const known = new Set(docs.map((d) => d.id));
+  return new Map(fused.filter((h) => known.has(h.id)).map((h) => [h.id, h.rrf]));
 }
 
 // ─── Handler ─────────────────────────────────────────────────────────────────
@@ -80,21 +108,27 @@ serve(async (req) => {
   const requestId = crypto.randomUUID().slice(0, 8);
 
   try {
-    // Auth
+    // Auth: internal callers (telegram-webhook) search with the service role,
+    // browser callers with their own JWT
+    const internal = isValidInternalCall(req);
     const authHeader = req.headers.get("Authorization") ?? "";
-    if (!authHeader.startsWith("Bearer ")) {
+    if (!internal && !authHeader.startsWith("Bearer ")) {
       return jsonRes({ error: "Unauthorized" }, 401);
     }
 
-    const sb = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: authHeader } } },
-    );
-
-    const { data: userData, error: userErr } = await sb.auth.getUser();
-    if (userErr || !userData?.user?.id) {
-      return jsonRes({ error: "Unauthorized" }, 401);
+    const sb = internal
+      ? createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!)
+      : createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } },
+      );
+
+    if (!internal) {
+      const { data: userData, error: userErr } = await sb.auth.getUser();
+      if (userErr || !userData?.user?.id) {
+        return jsonRes({ error: "Unauthorized" }, 401);
+      }
     }
 
     if (req.method !== "POST") {
@@ -114,8 +148,12 @@ serve(async (req) => {
 
     const practiceCategory = body.category ?? null;
     const kbCategory = body.kbCategory ?? null;
+    const asOfDate = body.asOfDate ?? null;
+    if (asOfDate !== null && (typeof asOfDate !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(asOfDate))) {
+      return jsonRes({ error: "asOfDate must be YYYY-MM-DD" }, 400);
+    }
 
-    log("kb-unified-search", "Start", { requestId, qLen: query.length });
+    log("kb-unified-search", "Start", { requestId, qLen: query.length, asOfDate });
 
     // ─── Parallel RPC calls ──────────────────────────────────────────
     const [kbResult, practiceChunksResult] = await Promise.allSettled([
@@ -204,6 +242,25 @@ serve(async (req) => {
       }
     }
 
+    // ─── Document-level keyword stages for fusion ────────────────────
+    const [kbStages, practiceStages] = await Promise.all([
+      kbDocs.length > 0
+        ? fetchStageRankings("kb", { supabase: sb, query, category: kbCategory, referenceDate: asOfDate, stages: FUSION_STAGES })
+        : null,
+      practiceDocs.length > 0
+        ? fetchStageRankings("practice", { supabase: sb, query, category: practiceCategory, stages: FUSION_STAGES })
+        : null,
+    ]);
+    for (const report of [...(kbStages?.stages ?? []), ...(practiceStages?.stages ?? [])]) {
+      if (!report.ok) warn("kb-unified-search", "Fusion stage failed", { requestId, stage: report.stage, error: report.error });
+    }
+    const kbRrf = fuseWithChunkRanking(kbDocs, kbStages?.lists ?? {});
+    const practiceRrf = fuseWithChunkRanking(practiceDocs, practiceStages?.lists ?? {});
+    const byRrf = (rrf: Map<string, number>) => (a: { id: string }, b: { id: string }) =>
+      (rrf.get(b.id) ?? 0) - (rrf.get(a.id) ?? 0);
+    kbDocs.sort(byRrf(kbRrf));
+    practiceDocs.sort(byRrf(practiceRrf));
+
     // ─── Fetch true total chunk counts via RPC (from chunks table) ───
     const practiceDocIds = practiceDocs.map((d) => d.id);
     const trueTotalChunks = new Map<string, number>();
@@ -273,35 +330,71 @@ serve(async (req) => {
       };
     });
 
+    // ─── Point-in-time: resolve KB text in force on asOfDate ──────────
+    let kbAsOf: Map<string, KBTextAsOf> | null = null;
+    if (asOfDate && kbDocs.length > 0) {
+      try {
+        kbAsOf = await fetchKBTextAsOf(sb, kbDocs.map((d) => d.id), asOfDate);
+        // Documents with no version on asOfDate were not yet in force
+        kbDocs = kbDocs.filter((d) => kbAsOf!.has(d.id));
+      } catch (e) {
+        warn("kb-unified-search", "Point-in-time resolution failed", { requestId, error: String(e) });
+      }
+    }
+
+    /** Article text of a chunk as of asOfDate (null = use the current excerpt) */
+    const articleTextAsOf = (doc: KBDoc, label: string | null): string | null => {
+      const v = kbAsOf?.get(doc.id);
+      if (!v) return null;
+      // Per-article documents: the whole version is the article
+      if (doc.article_number) return v.content_text;
+      const article = articleFromLabel(label);
+      return article ? extractArticleText(v.content_text, article) : null;
+    };
+
     // ─── Build KB response items ─────────────────────────────────────
-    const kbItems = kbDocs.map((doc) => ({
-      ...doc,
-      chunks: (kbChunksByDoc.get(doc.id) || []).map((c) => ({
-        doc_id: c.doc_id,
-        chunk_index: c.chunk_index,
-        chunk_type: c.chunk_type,
-        label: c.label,
-        char_start: c.char_start,
-        excerpt: c.excerpt.substring(0, MAX_PREVIEW_CHARS),
-        score: c.score,
-      })),
-    }));
-
-    // ─── Build merged array with normalized scores ───────────────────
+    const kbItems = kbDocs.map((doc) => {
+      const v = kbAsOf?.get(doc.id);
+      return {
+        ...doc,
+        ...(v
+          ? {
+            as_of: {
+              date: asOfDate,
+              version_number: v.version_number,
+              version_date: v.version_date,
+              is_current: v.is_current,
+            },
+          }
+          : {}),
+        chunks: (kbChunksByDoc.get(doc.id) || []).map((c) => {
+          const asOfText = articleTextAsOf(doc, c.label);
+          return {
+            doc_id: c.doc_id,
+            chunk_index: c.chunk_index,
+            chunk_type: c.chunk_type,
+            label: c.label,
+            char_start: c.char_start,
+            excerpt: (asOfText ?? c.excerpt).substring(0, MAX_PREVIEW_CHARS),
+            score: c.score,
+            ...(asOfText !== null ? { article_text: asOfText.substring(0, MAX_ARTICLE_CHARS) } : {}),
+          };
+        }),
+      };
+    });
+
+    // ─── Build merged array with fused scores ────────────────────────
     const merged: MergedItem[] = [];
 
-    // KB items
-    const kbRawScores = kbItems.map((d) => Number(d.max_score) || 0);
-    const kbNorm = normalizeScores(kbRawScores);
-    for (let i = 0; i < kbItems.length; i++) {
-      const d = kbItems[i];
+    for (const d of kbItems) {
       const bestChunk = d.chunks[0];
       merged.push({
         source: "kb",
         id: d.id,
         title: d.title,
-        normalized_score: kbNorm[i],
-        raw_score: kbRawScores[i],
+        normalized_score: 0,
+        raw_score: Number(d.max_score) || 0,
+        rrf_score: kbRrf.get(d.id) ?? 0,
         preview: bestChunk ? bestChunk.excerpt.substring(0, MAX_PREVIEW_CHARS) : "",
         meta: {
           category: d.category,
@@ -311,11 +404,7 @@ serve(async (req) => {
       });
     }
 
-    // Practice items
-    const practiceRawScores = practiceItems.map((d) => d.max_score);
-    const practiceNorm = normalizeScores(practiceRawScores);
-    for (let i = 0; i < practiceItems.length; i++) {
-      const d = practiceItems[i];
+    for (const d of practiceItems) {
       const preview = d.top_chunks.length > 0
         ? d.top_chunks[0].text.substring(0, MAX_PREVIEW_CHARS)
         : "";
@@ -323,8 +412,9 @@ serve(async (req) => {
         source: "practice",
         id: d.id,
         title: d.title,
-        normalized_score: practiceNorm[i],
-        raw_score: practiceRawScores[i],
+        normalized_score: 0,
+        raw_score: d.max_score,
+        rrf_score: practiceRrf.get(d.id) ?? 0,
         preview,
         meta: {
           practice_category: d.practice_category,
@@ -334,6 +424,9 @@ serve(async (req) => {
       });
     }
 
+    const maxRrf = Math.max(...merged.map((m) => m.rrf_score), 0);
+    for (const m of merged) m.normalized_score = maxRrf > 0 ? m.rrf_score / maxRrf : 0;
+
     // Stable sort: normalized desc, raw desc, practice before kb, title asc
     merged.sort((a, b) => {
       if (b.normalized_score !== a.normalized_score) return b.normalized_score - a.normalized_score;
@@ -353,7 +446,12 @@ serve(async (req) => {
       JSON.stringify({
         requestId,
         query,
-        kb: { documents: kbItems, chunks: kbChunks.slice(0, MAX_KB_CHUNKS) },
+        ...(asOfDate ? { asOfDate } : {}),
+        kb: {
+          documents: kbItems,
+          // As-of responses must not leak current full_text for superseded versions
+          chunks: kbAsOf ? kbItems.flatMap((d) => d.chunks) : kbChunks.slice(0, MAX_KB_CHUNKS),
+        },
         practice: practiceItems,
         merged,
       }),
@@ -1,14 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { sandboxUserInput, secureSandbox, logInjectionAttempt, sanitizeUserInput, ANTI_INJECTION_RULES } from "../_shared/prompt-armor.ts";
-import { applyBudgets, logTokenUsage, type RankedContent } from "../_shared/token-budget.ts";
+import { applyBudgets, estimateTokens, logTokenUsage, type RankedContent } from "../_shared/token-budget.ts";
 import { LEGAL_CHAT, buildModelParams } from "../_shared/model-config.ts";
 import { redactForLog } from "../_shared/pii-redactor.ts";
 import { log, warn, err } from "../_shared/safe-logger.ts";
 import { searchKB, searchPractice, formatKBContext, formatPracticeContext as formatPracticeCtx, temporalDisclaimer } from "../_shared/rag-search.ts";
+import { embedQuery } from "../_shared/hybrid-retrieval.ts";
 import type { KBSearchResult, PracticeSearchResult } from "../_shared/rag-types.ts";
 import { handleCors } from "../_shared/edge-security.ts";
 import { parseReferencesText, buildUserSourcesBlock } from "../_shared/reference-sources.ts";
+import { withCitationVerificationEvent } from "../_shared/citation-verifier.ts";
+import { enforceQuota, QuotaExceededError, quotaErrorResponse, recordUsage } from "../_shared/ai-quota.ts";
+import { resolvePrompt } from "../_shared/prompt-registry.ts";
 
 // Types now imported from _shared/rag-types.ts
 type LegalPracticeResult = PracticeSearchResult;
@@ -217,21 +221,24 @@ serve(async (req) => {
 
   try {
     // === AUTH GUARD (Prevent Anonymous Access) ===
-    const authHeader = req.headers.get("Authorization") ?? "";
-    if (!authHeader.startsWith("Bearer ")) {
-      return new Response(JSON.stringify({ error: "Unauthorized" }), {
-        status: 401,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
+    // Internal callers (telegram-webhook) act for the linked user in x-user-id
+    let authUserId: string | null = null;
+    if (cors.mode === "internal") {
+      authUserId = req.headers.get("x-user-id");
+    } else {
+      const authHeader = req.headers.get("Authorization") ?? "";
+      if (authHeader.startsWith("Bearer ")) {
+        const token = authHeader.replace("Bearer ", "");
+        const sb = createClient(
+          Deno.env.get("SUPABASE_URL")!,
+          Deno.env.get("SUPABASE_ANON_KEY")!,
+          { global: { headers: { Authorization: authHeader } } }
+        );
+        const { data: { user }, error: authError } = await sb.auth.getUser(token);
+        if (!authError && user) authUserId = user.id;
+      }
     }
-    const token = authHeader.replace("Bearer ", "");
-    const sb = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: authHeader } } }
-    );
-    const { data: { user }, error: authError } = await sb.auth.getUser(token);
-    if (authError || !user) {
+    if (!authUserId) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
         status: 401,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -268,21 +275,26 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // FIX C: Reuse user.id from auth guard above (removed duplicate authHeader/getUser)
-    const userId = user.id;
+    // FIX C: Reuse user id from auth guard above (removed duplicate authHeader/getUser)
+    const userId = authUserId;
 
     log(FN, "Chat request", { userId, messageLen: message.length });
 
+    // The streaming bypass skips the router, so the quota is checked here
+    await enforceQuota(userId, "legal-chat");
+
     // Search knowledge base + legal practice (RAG) — via shared module
     const referenceDate: string | null = (caseDate && typeof caseDate === "string") ? caseDate : null;
     const dateAssumed = !referenceDate;
     let kbContext = "";
     let practiceContext = "";
+    // One query embedding for both searches
+    const queryVector = await embedQuery(message);
 
     try {
       const kbResult = await searchKB({
         supabase, supabaseUrl, supabaseKey: supabaseServiceKey,
-        query: message, referenceDate, limit: 8, snippetLength: 4000,
+        query: message, referenceDate, limit: 8, snippetLength: 4000, queryVector, userId,
       });
 
       if (kbResult.results.length > 0) {
@@ -299,7 +311,7 @@ serve(async (req) => {
     try {
       const practiceResult = await searchPractice({
         supabase, supabaseUrl, supabaseKey: supabaseServiceKey,
-        query: message, limit: 5,
+        query: message, limit: 5, queryVector, userId,
       });
 
       if (practiceResult.results.length > 0) {
@@ -338,7 +350,11 @@ serve(async (req) => {
       log(FN, "User sources parsed", { count: capped.length, total: refs.length });
     }
 
-    let systemPromptWithContext = LEGAL_AI_SYSTEM_PROMPT
+    const chatPrompt = await resolvePrompt("legal-chat", "main", LEGAL_AI_SYSTEM_PROMPT, {
+      userId,
+      placeholders: ["{CONTEXT}", "{PRACTICE_CONTEXT}", "{USER_MESSAGE}"],
+    });
+    let systemPromptWithContext = chatPrompt.text
       .replace("{CONTEXT}", budgeted.ragLegislation || "\u0533\u056B\u057F\u0565\u056C\u056B\u0584\u0576\u0565\u0580\u056B \u0562\u0561\u0566\u0561\u0575\u0578\u0582\u0574 \u0570\u0561\u0574\u0561\u057A\u0561\u057F\u0561\u057D\u056D\u0561\u0576 \u057F\u0565\u0572\u0565\u056F\u0561\u057F\u057E\u0578\u0582\u0569\u0575\u0578\u0582\u0576 \u0579\u056B \u0563\u057F\u0576\u057E\u0565\u056C\u0589")
       .replace("{PRACTICE_CONTEXT}", budgeted.ragPractice || "\u0534\u0561\u057F\u0561\u056F\u0561\u0576 \u057A\u0580\u0561\u056F\u057F\u056B\u056F\u0561\u0575\u056B \u0570\u0561\u0574\u0561\u057A\u0561\u057F\u0561\u057D\u056D\u0561\u0576 \u0578\u0580\u0578\u0577\u0578\u0582\u0574\u0576\u0565\u0580 \u0579\u0565\u0576 \u0563\u057F\u0576\u057E\u0565\u056C\u0589")
       .replace("{USER_MESSAGE}", secureSandbox("USER_MESSAGE", messageScan.sanitizedText, "legal-chat").output);
@@ -405,25 +421,31 @@ serve(async (req) => {
       );
     }
 
-    // Log API usage
-    try {
-      await supabase.rpc("log_api_usage", {
-        _service_type: "legal_chat",
-        _model_name: streamResult.model_used,
-        _tokens_used: null,
-        _estimated_cost: 0.003,
-        _metadata: { message_length: message.length, has_context: !!kbContext, has_practice: !!practiceContext, request_id: streamResult.request_id }
-      });
-    } catch (logErr) {
-      err(FN, "Failed to log API usage", logErr);
-    }
+    // Log API usage. The stream carries no usage block, so input tokens are
+    // estimated from the prompt and the completion is not counted.
+    await recordUsage({
+      userId,
+      functionName: "legal-chat",
+      serviceType: "llm",
+      model: streamResult.model_used,
+      inputTokens: messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      outputTokens: 0,
+      metadata: { message_length: message.length, has_context: !!kbContext, has_practice: !!practiceContext, request_id: streamResult.request_id, usage_estimated: true },
+      prompt: chatPrompt,
+    });
 
-    // Return streaming response
-    return new Response(response.body, {
+    // Return streaming response; a citation_verification event is appended before [DONE]
+    const body = response.body
+      ? withCitationVerificationEvent(response.body, supabase, { referenceDate, fn: FN })
+      : response.body;
+    return new Response(body, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
     err(FN, "Unhandled error", error);
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { syncPracticeGraph } from "../_shared/practice-graph.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -537,6 +538,12 @@ serve(async (req) => {
           .update(cleanPayload)
           .eq("id", singleDocId);
         if (updateErr) throw updateErr;
+
+        try {
+          await syncPracticeGraph(adminDb, singleDocId);
+        } catch (graphErr) {
+          console.warn(`Graph sync failed for ${singleDocId}: ${graphErr instanceof Error ? graphErr.message : graphErr}`);
+        }
       }
 
       return new Response(JSON.stringify({
@@ -616,6 +623,11 @@ serve(async (req) => {
           } else {
             enriched++;
             console.log(`Enriched doc ${doc.id}: ${Object.keys(cleanPayload).join(", ")}`);
+            try {
+              await syncPracticeGraph(adminDb, doc.id);
+            } catch (graphErr) {
+              console.warn(`Graph sync failed for ${doc.id}: ${graphErr instanceof Error ? graphErr.message : graphErr}`);
+            }
           }
         } else {
           console.log(`No enrichment data for doc ${doc.id}`);
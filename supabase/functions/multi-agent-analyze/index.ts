@@ -3,9 +3,13 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { MULTI_AGENT_ANALYSIS, buildModelParams } from "../_shared/model-config.ts";
 import { redactForLog } from "../_shared/pii-redactor.ts";
 import { searchKB, searchPractice, formatKBContext, formatPracticeContext as formatPracticeCtx } from "../_shared/rag-search.ts";
+import { embedQuery } from "../_shared/hybrid-retrieval.ts";
 import { parseReferencesText, buildUserSourcesBlock } from "../_shared/reference-sources.ts";
 
-import { handleCors } from "../_shared/edge-security.ts";
+import { handleCors, isValidInternalCall } from "../_shared/edge-security.ts";
+import { checkPageAnchors, formatVolumePages, type OcrPage, type VolumePageInfo } from "../_shared/page-anchors.ts";
+import { QuotaExceededError, quotaErrorResponse } from "../_shared/ai-quota.ts";
+import { resolvePrompt } from "../_shared/prompt-registry.ts";
 
 
 // ==============================
@@ -58,7 +62,15 @@ You do NOT perform tasks outside this scope.
 - Do not add extra keys beyond the schema.
 - Never invent: laws, article numbers, case numbers, quotes, dates, entities.
 - If a legal reference cannot be verified via RAG -> do NOT cite it. Put the issue into warnings/data_gaps.
-- For missing information: use null (for scalar fields) and [] (for arrays) and record in data_gaps.`;
+- For missing information: use null (for scalar fields) and [] (for arrays) and record in data_gaps.
+
+## PAGE ANCHORS (NON-NEGOTIABLE)
+
+- Case volume text is labelled per page as "[VOLUME v, PAGE p]".
+- Every object in "findings" and "evidenceItems" MUST carry "page_anchors": [{"volume_number": v, "page": p}] listing the pages it relies on.
+- Take v and p ONLY from those labels. Never estimate, extrapolate or invent a page.
+- If the item rests on no labelled page (e.g., user facts only) -> "page_anchors": [].
+- Items citing a volume or page that does not exist are discarded automatically.`;
 
 // Helper to avoid human error when composing prompts
 const buildPrompt = (agentName: string, role: string, body: string) =>
@@ -109,6 +121,7 @@ Return strictly valid JSON only:
       "title": "Evidence title/name",
       "description": "Concise factual description of content",
       "page_reference": "Volume/page reference as in materials (e.g., '\u054f\u0578\u0574 1, \u0567\u057b 15\u201320')",
+      "page_anchors": [{"volume_number": 1, "page": 15}],
       "source_document": "Origin (e.g., 'Investigator protocol', 'Witness statement', 'Court file')",
       "related_articles": [],
       "ai_analysis": "Neutral relevance note tied to the case facts (no admissibility/weight)"
@@ -663,14 +676,21 @@ serve(async (req) => {
 
   try {
     // === AUTH GUARD (Prevent Anonymous Access) ===
-    const authHeader = req.headers.get("Authorization") ?? "";
-    const sb = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: authHeader } } }
-    );
-    const { data: { user }, error: authError } = await sb.auth.getUser();
-    if (authError || !user) {
+    // Internal callers (multi-agent-worker) act for the user in x-user-id
+    let userId: string | null = null;
+    if (isValidInternalCall(req)) {
+      userId = req.headers.get("x-user-id");
+    } else {
+      const authHeader = req.headers.get("Authorization") ?? "";
+      const sb = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } }
+      );
+      const { data: { user }, error: authError } = await sb.auth.getUser();
+      if (!authError && user) userId = user.id;
+    }
+    if (!userId) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
         status: 401,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -716,6 +736,29 @@ serve(async (req) => {
       .eq("case_id", caseId)
       .order("volume_number");
 
+    // Per-page OCR text of the volumes (from ocr-process), for page anchors
+    const { data: volumePages } = await supabase
+      .from("case_volume_pages")
+      .select("volume_id, page_number, ocr_text")
+      .eq("case_id", caseId)
+      .order("page_number");
+
+    const pagesByVolume = new Map<string, OcrPage[]>();
+    for (const p of volumePages || []) {
+      const list = pagesByVolume.get(p.volume_id) || [];
+      list.push({ page_number: p.page_number, text: p.ocr_text });
+      pagesByVolume.set(p.volume_id, list);
+    }
+
+    // A volume's extent is its recorded page count or its last stored page,
+    // whichever is larger; unknown when neither exists
+    const volumeInfo: VolumePageInfo[] = (volumes || []).map((vol) => {
+      const pages = pagesByVolume.get(vol.id);
+      const lastPage = pages && pages.length > 0 ? pages[pages.length - 1].page_number : 0;
+      const pageCount = Math.max(vol.page_count || 0, lastPage);
+      return { volume_number: vol.volume_number, page_count: pageCount > 0 ? pageCount : null };
+    });
+
     // Load existing evidence (for non-collector agents)
     const { data: evidenceItems } = await supabase
       .from("evidence_registry")
@@ -751,7 +794,10 @@ serve(async (req) => {
       contextParts.push("\n\u054f\u0548\u0544\u0535\u0550:");
       for (const vol of volumes) {
         contextParts.push(`\n--- \u054f\u0548\u0544 ${vol.volume_number}: ${vol.title} ---`);
-        if (vol.ocr_text) {
+        const pages = pagesByVolume.get(vol.id);
+        if (pages && pages.length > 0) {
+          contextParts.push(formatVolumePages(vol.volume_number, pages, 15000));
+        } else if (vol.ocr_text) {
           // Limit OCR text to prevent token overflow
           const ocrText = vol.ocr_text.substring(0, 15000);
           contextParts.push(ocrText);
@@ -789,15 +835,17 @@ serve(async (req) => {
       const referenceDate = caseData.court_date || null;
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      // One query embedding for both searches
+      const queryVector = await embedQuery(searchQuery);
 
       const [kbResult, practiceResult] = await Promise.all([
         searchKB({
           supabase, supabaseUrl, supabaseKey: supabaseServiceKey,
-          query: searchQuery, referenceDate, limit: 3, snippetLength: 2000,
+          query: searchQuery, referenceDate, limit: 3, snippetLength: 2000, queryVector, userId,
         }),
         searchPractice({
           supabase, supabaseUrl, supabaseKey: supabaseServiceKey,
-          query: searchQuery, referenceDate, limit: 3,
+          query: searchQuery, referenceDate, limit: 3, queryVector, userId,
         }),
       ]);
 
@@ -829,7 +877,13 @@ serve(async (req) => {
     }
 
     const userMessage = contextParts.join("\n") + (userSourcesBlock ? "\n" + userSourcesBlock : "");
-    const systemPrompt = (AGENT_PROMPTS[agentType] || AGENT_PROMPTS.evidence_collector) +
+    const agentPrompt = await resolvePrompt(
+      "multi-agent-analyze",
+      agentType,
+      AGENT_PROMPTS[agentType] || AGENT_PROMPTS.evidence_collector,
+      { userId },
+    );
+    const systemPrompt = agentPrompt.text +
       (userSourcesBlock ? "\n\nWhen user-selected sources are provided, you MUST cite them by docId and chunkIndex in your analysis. These sources are mandatory references.\n" : "");
 
     // Route via centralized OpenAI router
@@ -842,12 +896,15 @@ serve(async (req) => {
       const result = await callText("multi-agent-analyze", [
         { role: "system", content: systemPrompt },
         { role: "user", content: userMessage },
-      ]);
+      ], { userId, usageMetadata: { agentType, caseId, runId }, prompt: agentPrompt });
       content = result.text;
       tokensUsed = result.usage?.total_tokens ?? 0;
       modelUsed = result.model_used;
       console.log(JSON.stringify({ ts: new Date().toISOString(), lvl: "info", fn: "multi-agent", model: modelUsed, latency_ms: result.latency_ms }));
     } catch (routerErr) {
+      if (routerErr instanceof QuotaExceededError) {
+        return quotaErrorResponse(routerErr, corsHeaders);
+      }
       const status = (routerErr as { status?: number })?.status;
       if (status === 429) {
         return new Response(JSON.stringify({ error: "Rate limit exceeded" }), { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } });
@@ -876,14 +933,25 @@ serve(async (req) => {
       parsedResult.analysis = content;
     }
 
-    // Log usage
-    await supabase.rpc("log_api_usage", {
-      _service_type: "multi_agent",
-      _model_name: modelUsed,
-      _tokens_used: tokensUsed,
-      _estimated_cost: tokensUsed * 0.000001,
-      _metadata: { agentType, caseId, runId }
-    });
+    // === Page anchor guard: drop items citing nonexistent volume pages ===
+    const findingsCheck = checkPageAnchors(
+      (Array.isArray(parsedResult.findings) ? parsedResult.findings : []) as Array<Record<string, unknown>>,
+      volumeInfo,
+    );
+    const evidenceCheck = checkPageAnchors(
+      (Array.isArray(parsedResult.evidenceItems) ? parsedResult.evidenceItems : []) as Array<Record<string, unknown>>,
+      volumeInfo,
+    );
+    parsedResult.findings = findingsCheck.kept;
+    parsedResult.evidenceItems = evidenceCheck.kept;
+    const rejectedAnchors = [...findingsCheck.rejected, ...evidenceCheck.rejected];
+    if (rejectedAnchors.length > 0) {
+      console.warn(JSON.stringify({
+        ts: new Date().toISOString(), lvl: "warn", fn: "multi-agent",
+        msg: "PAGE_ANCHOR_GUARD: items citing nonexistent pages dropped",
+        agentType, rejected: rejectedAnchors.length,
+      }));
+    }
 
     // === FIX 2 v1.1 (P0/P1): Contract-based Citation Guard ===
     const MAX_CITED_IDS = 50;
@@ -955,6 +1023,11 @@ serve(async (req) => {
         cited_ids_count: allCitedIds.length,
         reason: citationReason,
       },
+      page_anchor_check: {
+        kept: findingsCheck.kept.length + evidenceCheck.kept.length,
+        unanchored: findingsCheck.unanchored + evidenceCheck.unanchored,
+        rejected: rejectedAnchors,
+      },
     }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -0,0 +1,140 @@
+/**
+ * multi-agent-worker
+ *
+ * Cron-triggered (every minute) executor for queued multi-agent runs
+ * (enqueue_agent_analysis). Each invocation:
+ *   1. Fails stale runs (fail_stale_agent_runs).
+ *   2. Claims ready jobs (claim_agent_analysis_jobs: dependencies completed,
+ *      FOR UPDATE SKIP LOCKED, 10 min lease).
+ *   3. Calls multi-agent-analyze for each job on behalf of the user who
+ *      enqueued it and stores the result (_shared/agent-jobs.ts).
+ *   4. Claims again while time is left, so a batch moves on to the next
+ *      stage without waiting for the next cron tick.
+ *
+ * Auth: x-internal-key (INTERNAL_INGEST_KEY or CRON_WORKER_KEY).
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { handleCors, validateInternalRequest, callInternalFunction } from "../_shared/edge-security.ts";
+import { retryDelaySeconds, saveAgentResult, type AgentJob, type AgentResult } from "../_shared/agent-jobs.ts";
+
+const CLAIM_LIMIT = 4;
+const LEASE_MINUTES = 10;
+// Stop claiming after this; a claimed agent call can take a couple of minutes
+const CLAIM_BUDGET_MS = 60_000;
+const STALE_MINUTES = 30;
+const AGENT_TIMEOUT_MS = 240_000;
+
+class AgentCallError extends Error {
+  constructor(message: string, readonly status: number | null) {
+    super(message);
+  }
+}
+
+serve(async (req) => {
+  const cors = handleCors(req);
+  if (cors.errorResponse) return cors.errorResponse;
+  const corsHeaders = cors.corsHeaders!;
+
+  const authErr = validateInternalRequest(req, corsHeaders);
+  if (authErr) return authErr;
+
+  const startTime = Date.now();
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: staleCount, error: staleErr } = await supabase.rpc("fail_stale_agent_runs", {
+      p_stale_minutes: STALE_MINUTES,
+    });
+    if (staleErr) console.error(`[multi-agent-worker] stale sweep error: ${staleErr.message}`);
+
+    const callAgent = async (job: AgentJob): Promise<AgentResult> => {
+      let res: Response;
+      try {
+        res = await callInternalFunction(
+          `${supabaseUrl}/functions/v1/multi-agent-analyze`,
+          {
+            caseId: job.case_id,
+            agentType: job.agent_type,
+            runId: job.run_id,
+            ...(job.references_text ? { referencesText: job.references_text } : {}),
+          },
+          { userId: job.created_by ?? undefined, timeoutMs: AGENT_TIMEOUT_MS },
+        );
+      } catch (e) {
+        throw new AgentCallError(e instanceof Error ? e.message : "Network error", null);
+      }
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new AgentCallError(String(data?.error ?? `HTTP ${res.status}`), res.status);
+      }
+      return data as AgentResult;
+    };
+
+    let completed = 0;
+    let retried = 0;
+    let failed = 0;
+    const errors: string[] = [];
+
+    const processJob = async (job: AgentJob) => {
+      try {
+        const result = await callAgent(job);
+        await saveAgentResult(supabase, job, result);
+        completed++;
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        const status = e instanceof AgentCallError ? e.status : null;
+        errors.push(`${job.agent_type}: ${message}`);
+        const { data: outcome, error: failErr } = await supabase.rpc("fail_agent_analysis_job", {
+          p_job_id: job.id,
+          p_error: message,
+          p_retry_seconds: retryDelaySeconds(status, job.attempts),
+        });
+        if (failErr) console.error(`[multi-agent-worker] fail_agent_analysis_job error: ${failErr.message}`);
+        if (outcome === "retry") retried++;
+        else failed++;
+      }
+    };
+
+    let claimed = 0;
+    while (Date.now() - startTime < CLAIM_BUDGET_MS) {
+      const { data: rows, error: claimErr } = await supabase.rpc("claim_agent_analysis_jobs", {
+        p_limit: CLAIM_LIMIT,
+        p_lease_minutes: LEASE_MINUTES,
+      });
+      if (claimErr) throw new Error(`claim error: ${claimErr.message}`);
+
+      const jobs = (rows || []) as AgentJob[];
+      if (jobs.length === 0) break;
+      claimed += jobs.length;
+      await Promise.all(jobs.map(processJob));
+    }
+
+    const duration = Date.now() - startTime;
+    console.log(
+      `[multi-agent-worker] stale=${staleCount ?? 0} claimed=${claimed} ok=${completed} retry=${retried} failed=${failed} duration=${duration}ms`,
+    );
+
+    return new Response(JSON.stringify({
+      stale_failed: staleCount ?? 0,
+      claimed,
+      completed,
+      retried,
+      failed,
+      duration_ms: duration,
+      errors: errors.length > 0 ? errors : undefined,
+    }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    console.error("[multi-agent-worker] error:", msg);
+    return new Response(JSON.stringify({ error: msg }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
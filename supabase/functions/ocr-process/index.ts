@@ -3,6 +3,9 @@ import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { OCR_EXTRACTION, buildModelParams } from "../_shared/model-config.ts";
 import { redactForLog } from "../_shared/pii-redactor.ts";
 import { parseDocx } from "../_shared/docx-parser.ts";
+import { isValidInternalCall } from "../_shared/edge-security.ts";
+import { splitOcrPages } from "../_shared/page-anchors.ts";
+import { enforceQuota, QuotaExceededError, quotaErrorResponse, recordUsage } from "../_shared/ai-quota.ts";
 
 // ─── Constants ──────────────────────────────────────────────────────────────
 
@@ -10,26 +13,6 @@ const CONFIDENCE_THRESHOLD = 0.70;
 const MAX_FILE_SIZE = 15 * 1024 * 1024; // 15 MB
 const ALLOWED_EXTENSIONS = new Set(["pdf", "jpg", "jpeg", "png", "tiff", "tif", "webp", "docx", "txt"]);
 
-// ─── Pricing map (per 1K tokens) ────────────────────────────────────────────
-const MODEL_PRICING: Record<string, { input_per_1k: number; output_per_1k: number }> = {
-  "google/gemini-2.5-flash":      { input_per_1k: 0.000075, output_per_1k: 0.0003 },
-  "google/gemini-2.5-flash-lite": { input_per_1k: 0.000025, output_per_1k: 0.0001 },
-  "google/gemini-2.5-pro":        { input_per_1k: 0.00125,  output_per_1k: 0.01 },
-  "google/gemini-3-flash-preview":{ input_per_1k: 0.0001,   output_per_1k: 0.0004 },
-  "google/gemini-3-pro-preview":  { input_per_1k: 0.0015,   output_per_1k: 0.01 },
-  "openai/gpt-5":                 { input_per_1k: 0.005,    output_per_1k: 0.015 },
-  "openai/gpt-5-mini":            { input_per_1k: 0.0004,   output_per_1k: 0.0016 },
-};
-
-function computeCost(model: string, inputTokens: number, outputTokens: number): { cost_usd: number; cost_unknown: boolean } {
-  const pricing = MODEL_PRICING[model];
-  if (!pricing) return { cost_usd: 0, cost_unknown: true };
-  return {
-    cost_usd: (inputTokens / 1000) * pricing.input_per_1k + (outputTokens / 1000) * pricing.output_per_1k,
-    cost_unknown: false,
-  };
-}
-
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
@@ -42,6 +25,8 @@ interface OcrResponse {
   ok: boolean;
   text: string;
   pages?: number;
+  /** Rows written to case_volume_pages (volumeId requests only) */
+  pages_stored?: number;
   language?: string;
   warnings?: string[];
   pipeline?: string;
@@ -86,7 +71,7 @@ CRITICAL INSTRUCTIONS:
 4) Preserve exact legal terminology and article references (e.g., ՀՀ ՔԿ 123-րդ հdelays).
 5) Maintain document structure: paragraphs, numbered lists, tables.
 6) If confidence is low for any section, add a warning.
-7) For PDF documents, estimate the page count in your response.
+7) For multi-page documents, start every page with its own line "--- Page N ---" (N = 1, 2, 3...) in extracted_text, and set "pages" to the number of pages.
 
 JSON schema:
 {
@@ -115,14 +100,21 @@ serve(async (req) => {
 
   try {
     // === AUTH GUARD ===
-    const authHeader = req.headers.get("Authorization") ?? "";
-    const sb = createClient(
-      Deno.env.get("SUPABASE_URL")!,
-      Deno.env.get("SUPABASE_ANON_KEY")!,
-      { global: { headers: { Authorization: authHeader } } }
-    );
-    const { data: { user }, error: authError } = await sb.auth.getUser();
-    if (authError || !user) {
+    // Internal callers (telegram-webhook) act for the user in x-user-id
+    let authUserId: string | null = null;
+    if (isValidInternalCall(req)) {
+      authUserId = req.headers.get("x-user-id");
+    } else {
+      const authHeader = req.headers.get("Authorization") ?? "";
+      const sb = createClient(
+        Deno.env.get("SUPABASE_URL")!,
+        Deno.env.get("SUPABASE_ANON_KEY")!,
+        { global: { headers: { Authorization: authHeader } } }
+      );
+      const { data: { user }, error: authError } = await sb.auth.getUser();
+      if (!authError && user) authUserId = user.id;
+    }
+    if (!authUserId) {
       return errorResponse("Unauthorized", 401, requestId);
     }
 
@@ -130,6 +122,8 @@ serve(async (req) => {
     const fileUrl = body.fileUrl || body.imageUrl;
     const fileName: string = body.fileName || 'document';
     const { caseId, fileId } = body;
+    // Case volume being OCR'd — its per-page text goes to case_volume_pages
+    const volumeId: string | undefined = body.volumeId;
 
     // === INPUT VALIDATION ===
     if (!fileUrl || typeof fileUrl !== "string") {
@@ -155,7 +149,7 @@ serve(async (req) => {
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const userId = user.id;
+    const userId = authUserId;
 
     console.log(`[ocr-process] requestId=${requestId} file=${fileName} ext=${fileExt}`);
 
@@ -322,6 +316,8 @@ serve(async (req) => {
     }
 
     // ─── Call AI ────────────────────────────────────────────────────────
+    // The multimodal bypass skips the router, so the quota is checked here
+    await enforceQuota(userId, "ocr-process");
     const { callGatewayBypass } = await import("../_shared/gateway-bypass.ts");
     const bypassResult = await callGatewayBypass(messages, {
       functionName: "ocr-process",
@@ -360,7 +356,9 @@ serve(async (req) => {
     const confidence_reason = (ocrResult.confidence_reason as string) || "";
     const warnings = (ocrResult.warnings as string[]) || [];
     const word_count = (ocrResult.word_count as number) || extracted_text.split(/\s+/).length;
-    const pages = (ocrResult.pages as number) || undefined;
+    const ocrPages = splitOcrPages(extracted_text);
+    // Page headers are authoritative over the model's own page estimate
+    const pages = ocrPages.length > 0 ? ocrPages[ocrPages.length - 1].page_number : (ocrResult.pages as number) || undefined;
     const needsReview = confidence_score < CONFIDENCE_THRESHOLD;
 
     // ─── Extract usage from AI response ─────────────────────────────────
@@ -370,7 +368,6 @@ serve(async (req) => {
     const outputTokens = aiUsage?.completion_tokens || 0;
     const totalTokens = aiUsage?.total_tokens || (inputTokens + outputTokens);
     const modelName = (aiData.model as string) || "google/gemini-2.5-flash";
-    const { cost_usd: costUsd, cost_unknown: costUnknown } = computeCost(modelName, inputTokens, outputTokens);
 
     // ─── Determine pipeline ─────────────────────────────────────────────
     let pipeline: string;
@@ -392,22 +389,27 @@ serve(async (req) => {
       ocrRecordId = record?.id || null;
     }
 
-    // ─── Log usage ──────────────────────────────────────────────────────
-    await supabase.rpc("log_api_usage", {
-      _service_type: "ocr",
-      _model_name: modelName,
-      _tokens_used: totalTokens,
-      _estimated_cost: costUsd,
-      _metadata: {
+    let pagesStored: number | undefined;
+    if (volumeId && ocrPages.length > 0) {
+      pagesStored = await replaceVolumePages(supabase, volumeId, userId, ocrPages);
+    }
+
+    // ─── Log usage (priced from the model_pricing registry) ─────────────
+    const { cost_usd: costUsd } = await recordUsage({
+      userId,
+      functionName: "ocr-process",
+      serviceType: "ocr",
+      model: modelName,
+      inputTokens,
+      outputTokens,
+      totalTokens,
+      metadata: {
         pipeline,
         request_id: requestId,
-        input_tokens: inputTokens,
-        output_tokens: outputTokens,
         confidence: confidence_score,
         pages: pages || null,
         usage_missing: usageMissing,
-        cost_unknown: costUnknown,
-      }
+      },
     });
 
     console.log(`[ocr-process] requestId=${requestId} pipeline=${pipeline} done: ${word_count} words, confidence=${confidence_score}, tokens=${totalTokens}`);
@@ -417,6 +419,7 @@ serve(async (req) => {
       ok: true,
       text: extracted_text,
       pages,
+      pages_stored: pagesStored,
       language: languages_detected?.join(", ") || "unknown",
       warnings,
       pipeline,
@@ -440,6 +443,9 @@ serve(async (req) => {
     }, 200, requestId);
 
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
     const errMsg = error instanceof Error ? error.message : "OCR processing failed";
     console.error(`[ocr-process] requestId=${requestId} error:`, errMsg);
 
@@ -503,3 +509,51 @@ async function upsertOcrResult(
     return data;
   }
 }
+
+
+/**
+ * Replace a volume's per-page OCR text. Returns the number of rows stored,
+ * or undefined when the volume is missing or not accessible to the caller.
+ */
+async function replaceVolumePages(
+  supabase: ReturnType<typeof createClient>,
+  volumeId: string,
+  userId: string,
+  pages: Array<{ page_number: number; text: string }>,
+): Promise<number | undefined> {
+  const { data: volume } = await supabase
+    .from("case_volumes")
+    .select("id, case_id")
+    .eq("id", volumeId)
+    .maybeSingle();
+  if (!volume) return undefined;
+
+  const { data: canAccess } = await supabase.rpc("is_case_staff", {
+    _user_id: userId,
+    _case_id: volume.case_id,
+  });
+  if (!canAccess) {
+    console.warn(`[ocr-process] volume ${volumeId} not accessible, pages not stored`);
+    return undefined;
+  }
+
+  const { error: delError } = await supabase.from("case_volume_pages").delete().eq("volume_id", volumeId);
+  if (delError) {
+    console.error("[ocr-process] Failed to clear volume pages:", delError);
+    return undefined;
+  }
+
+  const { error } = await supabase.from("case_volume_pages").insert(
+    pages.map((p) => ({
+      volume_id: volumeId,
+      case_id: volume.case_id,
+      page_number: p.page_number,
+      ocr_text: p.text,
+    })),
+  );
+  if (error) {
+    console.error("[ocr-process] Failed to store volume pages:", error);
+    return undefined;
+  }
+  return pages.length;
+}
\ No newline at end of file
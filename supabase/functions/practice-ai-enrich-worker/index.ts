@@ -11,6 +11,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
 import { handleCors, validateInternalRequest } from "../_shared/edge-security.ts";
+import { syncPracticeGraph } from "../_shared/practice-graph.ts";
 
 const DEFAULT_BATCH = 5;
 const MAX_TEXT_CHARS = 80000;
@@ -255,6 +256,14 @@ serve(async (req) => {
             .update(cleanPayload)
             .eq("id", job.document_id);
           if (updateErr) throw new Error(`Update failed: ${updateErr.message}`);
+
+          // Graph edges come from the enriched fields; a failure here must not fail the job
+          try {
+            const graph = await syncPracticeGraph(supabase, job.document_id);
+            console.log(`[enrich-worker] graph doc=${job.document_id} edges=${graph.edges} cites_resolved=${graph.resolved_citations}`);
+          } catch (graphErr) {
+            console.warn(`[enrich-worker] graph sync failed doc=${job.document_id}: ${graphErr instanceof Error ? graphErr.message : graphErr}`);
+          }
         }
 
         await supabase.from("practice_chunk_jobs").update({
@@ -0,0 +1,150 @@
+/**
+ * practice-graph-sync — rebuilds citation graph edges of legal practice decisions.
+ *
+ * Actions:
+ *   sync      { doc_id } | { doc_ids }     rebuild edges of the given decisions
+ *   backfill  { offset?, limit? }          rebuild a page of active decisions
+ *
+ * Auth: admin JWT (getClaims + has_role) or x-internal-key.
+ */
+
+import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { isValidInternalCall } from "../_shared/edge-security.ts";
+import { syncPracticeGraph, type PracticeGraphSyncResult } from "../_shared/practice-graph.ts";
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-internal-key, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+type SyncBody = {
+  action?: "sync" | "backfill";
+  doc_id?: string;
+  doc_ids?: string[];
+  offset?: number;
+  limit?: number;
+};
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY")!;
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const MAX_DOCS_PER_CALL = 50;
+
+function json(status: number, data: unknown) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: { ...corsHeaders, "content-type": "application/json; charset=utf-8" },
+  });
+}
+
+function getBearerToken(req: Request): string | null {
+  const h = req.headers.get("authorization") || req.headers.get("Authorization");
+  if (!h) return null;
+  const m = h.match(/^Bearer\s+(.+)$/i);
+  return m?.[1] ?? null;
+}
+
+async function requireAdmin(req: Request) {
+  const token = getBearerToken(req);
+  if (!token) throw { status: 401, code: "UNAUTHORIZED", message: "Missing Bearer token" };
+
+  const supabaseAuth = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  });
+
+  const { data: claimsData, error: claimsErr } = await supabaseAuth.auth.getClaims(token);
+  if (claimsErr || !claimsData?.claims) {
+    throw { status: 401, code: "UNAUTHORIZED", message: "Invalid token" };
+  }
+
+  const userId = claimsData.claims.sub as string;
+  const role = (claimsData.claims.app_metadata as Record<string, unknown> | undefined)?.role;
+  if (role === "admin") return { userId };
+
+  const { data: isAdmin } = await supabaseAuth.rpc("has_role", { _user_id: userId, _role: "admin" });
+  if (isAdmin) return { userId };
+
+  throw { status: 403, code: "FORBIDDEN", message: "Admin only" };
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== "POST") return json(405, { error: "METHOD_NOT_ALLOWED" });
+
+    if (!isValidInternalCall(req)) {
+      await requireAdmin(req);
+    }
+
+    const body = (await req.json().catch(() => ({}))) as SyncBody;
+    const action = body.action || "sync";
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    let docIds: string[];
+    let nextOffset: number | null = null;
+
+    if (action === "sync") {
+      docIds = [
+        ...(typeof body.doc_id === "string" ? [body.doc_id] : []),
+        ...(Array.isArray(body.doc_ids) ? body.doc_ids : []),
+      ].filter((x) => typeof x === "string" && x.trim()).map((x) => x.trim());
+      docIds = [...new Set(docIds)];
+
+      if (docIds.length === 0) {
+        return json(400, { error: "BAD_REQUEST", message: "doc_id or doc_ids required" });
+      }
+      if (docIds.length > MAX_DOCS_PER_CALL) {
+        return json(400, { error: "BAD_REQUEST", message: `At most ${MAX_DOCS_PER_CALL} documents per call` });
+      }
+    } else if (action === "backfill") {
+      const offset = Math.max(typeof body.offset === "number" ? Math.floor(body.offset) : 0, 0);
+      const limit = Math.min(Math.max(typeof body.limit === "number" ? Math.floor(body.limit) : 20, 1), MAX_DOCS_PER_CALL);
+
+      const { data, error } = await supabase
+        .from("legal_practice_kb")
+        .select("id")
+        .eq("is_active", true)
+        .order("created_at", { ascending: true })
+        .order("id", { ascending: true })
+        .range(offset, offset + limit - 1);
+      if (error) throw { status: 500, code: "DB_ERROR", message: error.message };
+
+      docIds = (data || []).map((r: { id: string }) => r.id);
+      nextOffset = docIds.length === limit ? offset + limit : null;
+    } else {
+      return json(400, { error: "BAD_REQUEST", message: `Unknown action: ${action}` });
+    }
+
+    const results: Array<PracticeGraphSyncResult | { doc_id: string; error: string }> = [];
+    for (const id of docIds) {
+      try {
+        results.push(await syncPracticeGraph(supabase, id));
+      } catch (e) {
+        console.error(`[practice-graph-sync] ${id}: ${e instanceof Error ? e.message : String(e)}`);
+        results.push({ doc_id: id, error: e instanceof Error ? e.message : String(e) });
+      }
+    }
+
+    const failed = results.filter((r) => "error" in r).length;
+    return json(200, {
+      action,
+      processed: results.length,
+      failed,
+      edges: results.reduce((s, r) => s + ("edges" in r ? r.edges : 0), 0),
+      next_offset: nextOffset,
+      results,
+    });
+  } catch (e) {
+    const edgeErr = e as { status?: number; code?: string; message?: string } | undefined;
+    const status = typeof edgeErr?.status === "number" ? edgeErr.status : 500;
+    return json(status, {
+      error: edgeErr?.code ?? "INTERNAL_ERROR",
+      message: edgeErr?.message ?? String(e),
+    });
+  }
+});
@@ -0,0 +1,107 @@
+// =============================================================================
+// Telegram Bot Commands — Test Suite
+// Run: deno test supabase/functions/telegram-webhook/commands.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  escapeHtml,
+  formatAskAnswer,
+  formatCaseList,
+  formatCitationSummary,
+  formatKBHits,
+  MAX_ANSWER_CHARS,
+  parseCommand,
+  pickNextHearing,
+  readChatStream,
+  resolveLang,
+  t,
+} from "./commands.ts";
+import type { CitationVerificationReport } from "../_shared/citation-verifier.ts";
+
+const report = (over: Partial<CitationVerificationReport> = {}): CitationVerificationReport => ({
+  reference_date: "2026-01-01",
+  checked: 3,
+  verified: 1,
+  not_found: 1,
+  repealed: 1,
+  truncated: false,
+  citations: [],
+  ...over,
+});
+
+Deno.test("parseCommand splits command, bot suffix and args", () => {
+  assertEquals(parseCommand("/cases"), { command: "/cases", args: "" });
+  assertEquals(parseCommand("/case@LegalBot  12/345 "), { command: "/case", args: "12/345" });
+  assertEquals(parseCommand("/ASK what\nnext?"), { command: "/ask", args: "what\nnext?" });
+  assertEquals(parseCommand("hello"), null);
+});
+
+Deno.test("resolveLang prefers profile setting, then Telegram, then hy", () => {
+  assertEquals(resolveLang("en", "ru"), "en");
+  assertEquals(resolveLang(undefined, "ru-RU"), "ru");
+  assertEquals(resolveLang("de", "fr"), "hy");
+  assertEquals(resolveLang(null, undefined), "hy");
+});
+
+Deno.test("t fills placeholders and escapeHtml protects markup", () => {
+  assertEquals(t("en", "caseNotFound", { number: "42" }), "❌ No case found with number 42.");
+  assertEquals(escapeHtml("a < b & c > d"), "a &lt; b &amp; c &gt; d");
+});
+
+Deno.test("formatCaseList escapes titles and localizes status", () => {
+  const out = formatCaseList([{ case_number: "1/2", title: "<script>", status: "in_progress" }], "en");
+  assertEquals(out.includes("&lt;script&gt;"), true);
+  assertEquals(out.includes("In progress"), true);
+  assertEquals(formatCaseList([], "ru"), t("ru", "casesEmpty"));
+});
+
+Deno.test("pickNextHearing takes the earliest upcoming hearing", () => {
+  const now = new Date("2026-03-01T00:00:00Z");
+  const reminders = [
+    { title: "Hearing", event_datetime: "2026-04-10T09:00:00Z", reminder_type: "court_hearing" },
+    { title: "Deadline", event_datetime: "2026-03-05T09:00:00Z", reminder_type: "deadline" },
+  ];
+  assertEquals(pickNextHearing("2026-03-20T10:00:00Z", reminders, now), "2026-03-20T10:00:00Z");
+  assertEquals(pickNextHearing("2026-01-20T10:00:00Z", reminders, now), "2026-04-10T09:00:00Z");
+  assertEquals(pickNextHearing(null, [], now), null);
+});
+
+Deno.test("formatKBHits numbers hits and labels the source", () => {
+  const out = formatKBHits("q", [
+    { source: "kb", title: "Code", preview: "text" },
+    { source: "practice", title: "Ruling", preview: "" },
+  ], "en");
+  assertEquals(out.includes("1. <b>Code</b>\n<i>Legislation</i>\ntext"), true);
+  assertEquals(out.includes("2. <b>Ruling</b>\n<i>Court practice</i>"), true);
+  assertEquals(formatKBHits("x<y", [], "en"), "📚 Nothing found for «x&lt;y».");
+});
+
+Deno.test("formatAskAnswer truncates and appends the citation summary", () => {
+  const out = formatAskAnswer("a".repeat(MAX_ANSWER_CHARS + 10), report(), "en");
+  assertEquals(out.includes(t("en", "askTruncated")), true);
+  assertEquals(out.endsWith(formatCitationSummary(report(), "en")), true);
+  assertEquals(formatCitationSummary(report({ checked: 0 }), "en"), "");
+  assertEquals(formatAskAnswer("ok", null, "en"), "ok");
+});
+
+Deno.test("readChatStream collects deltas and the verification event", async () => {
+  const sse = [
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "Hel" } }] })}\n\n`,
+    `data: ${JSON.stringify({ choices: [{ delta: { content: "lo" } }] })}\n\n`,
+    `data: ${JSON.stringify({ citation_verification: report() })}\n\n`,
+    "data: [DONE]\n\n",
+  ].join("");
+  const enc = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(c) {
+      // Split mid-line to exercise buffering
+      c.enqueue(enc.encode(sse.slice(0, 25)));
+      c.enqueue(enc.encode(sse.slice(25)));
+      c.close();
+    },
+  });
+  const { text, citationVerification } = await readChatStream(body);
+  assertEquals(text, "Hello");
+  assertEquals(citationVerification?.checked, 3);
+});
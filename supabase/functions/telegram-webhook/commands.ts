@@ -0,0 +1,347 @@
+// =============================================================================
+// TELEGRAM BOT COMMANDS — Templates and formatting for linked-user commands
+// Used by: telegram-webhook (/cases, /case, /kb, /ask, upload-to-case replies)
+// =============================================================================
+//
+// Replies are HTML (parse_mode=HTML): every value coming from the database or
+// the model is passed through escapeHtml before it is placed in a template.
+// Templates follow the hy/ru/en layout of process-reminder-notifications.
+// =============================================================================
+
+import type { CitationVerificationReport } from "../_shared/citation-verifier.ts";
+
+export type Lang = "hy" | "ru" | "en";
+
+/** Telegram rejects messages above 4096 characters */
+export const TELEGRAM_MAX_MESSAGE = 4096;
+/** Raw answer budget for /ask, leaving room for escaping and the citation footer */
+export const MAX_ANSWER_CHARS = 3300;
+
+// ─── Templates ──────────────────────────────────────────────────────────────
+
+export const templates = {
+  hy: {
+    notLinked: "\u274c \u0540\u0561\u0577\u056b\u057e\u0568 \u056f\u0561\u057a\u057e\u0561\u056e \u0579\u0567\u0589\n\n\u053f\u0561\u057a\u0565\u056c\u0578\u0582 \u0570\u0561\u0574\u0561\u0580\u055d\n1. \u054d\u057f\u0561\u0581\u0565\u0584 \u056f\u0578\u0564\u0568 \u0570\u0561\u057e\u0565\u056c\u057e\u0561\u056e\u056b \u057a\u0580\u0578\u0586\u056b\u056c\u056b \u056f\u0561\u0580\u0563\u0561\u057e\u0578\u0580\u0578\u0582\u0574\u0576\u0565\u0580\u056b\u0581\n2. \u0548\u0582\u0572\u0561\u0580\u056f\u0565\u0584\u055d /verify XXXXXX",
+    casesHeader: "\ud83d\udcc2 <b>\u0541\u0565\u0580 \u057e\u0565\u0580\u057b\u056b\u0576 \u0563\u0578\u0580\u056e\u0565\u0580\u0568</b>",
+    casesEmpty: "\ud83d\udcc2 \u0534\u0578\u0582\u0584 \u0564\u0565\u057c \u0563\u0578\u0580\u056e\u0565\u0580 \u0579\u0578\u0582\u0576\u0565\u0584\u0589",
+    casesFooter: "\u0544\u0561\u0576\u0580\u0561\u0574\u0561\u057d\u0576\u0565\u0580\u056b \u0570\u0561\u0574\u0561\u0580\u055d /case &lt;\u0563\u0578\u0580\u056e\u056b \u0570\u0561\u0574\u0561\u0580&gt;",
+    caseUsage: "\u0555\u0563\u057f\u0561\u0563\u0578\u0580\u056e\u0565\u0584\u055d /case &lt;\u0563\u0578\u0580\u056e\u056b \u0570\u0561\u0574\u0561\u0580&gt;",
+    caseNotFound: "\u274c {number} \u0570\u0561\u0574\u0561\u0580\u0578\u057e \u0563\u0578\u0580\u056e \u0579\u056b \u0563\u057f\u0576\u057e\u0565\u056c\u0589",
+    status: "\u053f\u0561\u0580\u0563\u0561\u057e\u056b\u0573\u0561\u056f",
+    court: "\u0534\u0561\u057f\u0561\u0580\u0561\u0576",
+    nextHearing: "\u0540\u0561\u057b\u0578\u0580\u0564 \u0576\u056b\u057d\u057f",
+    noHearing: "\u0576\u0577\u0561\u0576\u0561\u056f\u057e\u0561\u056e \u0579\u0567",
+    reminders: "\u0532\u0561\u0581 \u0570\u056b\u0577\u0565\u0581\u0578\u0582\u0574\u0576\u0565\u0580",
+    noReminders: "\u0532\u0561\u0581 \u0570\u056b\u0577\u0565\u0581\u0578\u0582\u0574\u0576\u0565\u0580 \u0579\u056f\u0561\u0576",
+    kbUsage: "\u0555\u0563\u057f\u0561\u0563\u0578\u0580\u056e\u0565\u0584\u055d /kb &lt;\u0570\u0561\u0580\u0581\u0578\u0582\u0574&gt;",
+    kbHeader: "\ud83d\udcda <b>\u0548\u0580\u0578\u0576\u0574\u0561\u0576 \u0561\u0580\u0564\u0575\u0578\u0582\u0576\u0584\u0576\u0565\u0580\u055d</b> {query}",
+    kbEmpty: "\ud83d\udcda \u00ab{query}\u00bb \u0570\u0561\u0580\u0581\u0574\u0561\u0574\u0562 \u0578\u0579\u056b\u0576\u0579 \u0579\u056b \u0563\u057f\u0576\u057e\u0565\u056c\u0589",
+    kbLegislation: "\u0555\u0580\u0565\u0576\u057d\u0564\u0580\u0578\u0582\u0569\u0575\u0578\u0582\u0576",
+    kbPractice: "\u0534\u0561\u057f\u0561\u056f\u0561\u0576 \u057a\u0580\u0561\u056f\u057f\u056b\u056f\u0561",
+    askUsage: "\u0555\u0563\u057f\u0561\u0563\u0578\u0580\u056e\u0565\u0584\u055d /ask &lt;\u0570\u0561\u0580\u0581&gt;",
+    askPending: "\u23f3 \u0548\u0580\u0578\u0576\u0578\u0582\u0574 \u0565\u0574 \u0585\u0580\u0565\u0576\u057d\u0564\u0580\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u0568 \u0587 \u0564\u0561\u057f\u0561\u056f\u0561\u0576 \u057a\u0580\u0561\u056f\u057f\u056b\u056f\u0561\u0576...",
+    askTruncated: "\u2026 <i>(\u057a\u0561\u057f\u0561\u057d\u056d\u0561\u0576\u0568 \u056f\u0580\u0573\u0561\u057f\u057e\u0561\u056e \u0567)</i>",
+    citations: "\ud83d\udd0e <b>\u0540\u0572\u0578\u0582\u0574\u0576\u0565\u0580\u055d</b> \u057d\u057f\u0578\u0582\u0563\u057e\u0561\u056e {verified}/{checked}",
+    citationsNotFound: "\u0579\u056b \u0563\u057f\u0576\u057e\u0565\u056c\u055d {count}",
+    citationsRepealed: "\u0578\u0582\u056a\u0568 \u056f\u0578\u0580\u0581\u0580\u0561\u056e\u055d {count}",
+    failed: "\u274c \u0549\u0570\u0561\u057b\u0578\u0572\u057e\u0565\u0581 \u056f\u0561\u057f\u0561\u0580\u0565\u056c \u0570\u0561\u0580\u0581\u0578\u0582\u0574\u0568\u0589 \u0553\u0578\u0580\u0571\u0565\u0584 \u0561\u057e\u0565\u056c\u056b \u0578\u0582\u0577\u0589",
+    uploadSaved: "\u2705 <b>\u0556\u0561\u0575\u056c\u0568 \u0562\u0565\u057c\u0576\u057e\u0561\u056e \u0567</b>\n\n\ud83d\udcc4 {filename}",
+    uploadAvailable: "\u0556\u0561\u0575\u056c\u0568 \u0570\u0561\u057d\u0561\u0576\u0565\u056c\u056b \u0567 \u0541\u0565\u0580 \u0561\u0576\u0571\u0576\u0561\u056f\u0561\u0576 \u0567\u057b\u0578\u0582\u0574\u0589",
+    attachPrompt: "\ud83d\udcce \u0538\u0576\u057f\u0580\u0565\u0584 \u0563\u0578\u0580\u056e\u0568, \u0578\u0580\u056b\u0576 \u057a\u0565\u057f\u0584 \u0567 \u056f\u0581\u0565\u056c \u0586\u0561\u0575\u056c\u0568\u055d",
+    attachSkip: "\u0532\u0561\u0581 \u0569\u0578\u0572\u0576\u0565\u056c",
+    attached: "\u2705 \u00ab{filename}\u00bb \u0586\u0561\u0575\u056c\u0568 \u056f\u0581\u057e\u0561\u056e \u0567 <b>{number}</b> \u0563\u0578\u0580\u056e\u056b\u0576\u0589",
+    attachSkipped: "\u0556\u0561\u0575\u056c\u0568 \u0574\u0576\u0578\u0582\u0574 \u0567 Telegram-\u056b\u0581 \u0562\u0565\u057c\u0576\u057e\u0561\u056e \u0586\u0561\u0575\u056c\u0565\u0580\u0578\u0582\u0574\u0589",
+    attachFailed: "\u274c \u0549\u0570\u0561\u057b\u0578\u0572\u057e\u0565\u0581 \u0586\u0561\u0575\u056c\u0568 \u056f\u0581\u0565\u056c \u0563\u0578\u0580\u056e\u056b\u0576\u0589",
+    uploadNotFound: "\u274c \u0556\u0561\u0575\u056c\u0568 \u0579\u056b \u0563\u057f\u0576\u057e\u0565\u056c\u0589",
+    ocrStarted: "\ud83d\udd0d \u054f\u0565\u0584\u057d\u057f\u056b \u0573\u0561\u0576\u0561\u0579\u0578\u0582\u0574\u0568 \u057d\u056f\u057d\u057e\u0561\u056e \u0567...",
+    ocrDone: "\ud83d\udcdd <b>OCR-\u0576 \u0561\u057e\u0561\u0580\u057f\u057e\u0561\u056e \u0567</b>\u055d {words} \u0562\u0561\u057c, \u057e\u057d\u057f\u0561\u0570\u0578\u0582\u0569\u0575\u0578\u0582\u0576 {confidence}%",
+    ocrReview: "\u26a0\ufe0f \u0551\u0561\u056e\u0580 \u057e\u057d\u057f\u0561\u0570\u0578\u0582\u0569\u0575\u0578\u0582\u0576\u2024 \u056d\u0578\u0580\u0570\u0578\u0582\u0580\u0564 \u0567 \u057f\u0580\u057e\u0578\u0582\u0574 \u057d\u057f\u0578\u0582\u0563\u0565\u056c \u0571\u0565\u057c\u0584\u0578\u057e\u0589",
+    ocrFailed: "\u274c OCR-\u0568 \u0571\u0561\u056d\u0578\u0572\u057e\u0565\u0581\u055d {reason}",
+    commands: "<b>\u0533\u0578\u0580\u056e\u0565\u0580 \u0587 \u0578\u0580\u0578\u0576\u0578\u0582\u0574\u055d</b>\n/cases \u2014 \u057e\u0565\u0580\u057b\u056b\u0576 \u0563\u0578\u0580\u056e\u0565\u0580\u0568\n/case &lt;\u0570\u0561\u0574\u0561\u0580&gt; \u2014 \u0563\u0578\u0580\u056e\u056b \u056f\u0561\u0580\u0563\u0561\u057e\u056b\u0573\u0561\u056f\u0568, \u0576\u056b\u057d\u057f\u0568 \u0587 \u0570\u056b\u0577\u0565\u0581\u0578\u0582\u0574\u0576\u0565\u0580\u0568\n/kb &lt;\u0570\u0561\u0580\u0581\u0578\u0582\u0574&gt; \u2014 \u0578\u0580\u0578\u0576\u0578\u0582\u0574 \u0563\u056b\u057f\u0565\u056c\u056b\u0584\u0576\u0565\u0580\u056b \u0562\u0561\u0566\u0561\u0575\u0578\u0582\u0574\n/ask &lt;\u0570\u0561\u0580\u0581&gt; \u2014 \u056b\u0580\u0561\u057e\u0561\u056f\u0561\u0576 \u0570\u0561\u0580\u0581",
+  },
+  ru: {
+    notLinked: "❌ Аккаунт не привязан.\n\nДля привязки:\n1. Получите код в настройках профиля приложения\n2. Отправьте: /verify XXXXXX",
+    casesHeader: "📂 <b>Ваши последние дела</b>",
+    casesEmpty: "📂 У вас пока нет дел.",
+    casesFooter: "Подробнее: /case &lt;номер дела&gt;",
+    caseUsage: "Используйте: /case &lt;номер дела&gt;",
+    caseNotFound: "❌ Дело с номером {number} не найдено.",
+    status: "Статус",
+    court: "Суд",
+    nextHearing: "Следующее заседание",
+    noHearing: "не назначено",
+    reminders: "Открытые напоминания",
+    noReminders: "Открытых напоминаний нет",
+    kbUsage: "Используйте: /kb &lt;запрос&gt;",
+    kbHeader: "📚 <b>Результаты поиска:</b> {query}",
+    kbEmpty: "📚 По запросу «{query}» ничего не найдено.",
+    kbLegislation: "Законодательство",
+    kbPractice: "Судебная практика",
+    askUsage: "Используйте: /ask &lt;вопрос&gt;",
+    askPending: "⏳ Ищу в законодательстве и судебной практике...",
+    askTruncated: "… <i>(ответ сокращён)</i>",
+    citations: "🔎 <b>Ссылки:</b> проверено {verified}/{checked}",
+    citationsNotFound: "не найдено: {count}",
+    citationsRepealed: "утратили силу: {count}",
+    failed: "❌ Не удалось выполнить запрос. Попробуйте позже.",
+    uploadSaved: "✅ <b>Файл загружен</b>\n\n📄 {filename}",
+    uploadAvailable: "Файл доступен в вашем личном кабинете.",
+    attachPrompt: "📎 Выберите дело, к которому прикрепить файл:",
+    attachSkip: "Пропустить",
+    attached: "✅ Файл «{filename}» прикреплён к делу <b>{number}</b>.",
+    attachSkipped: "Файл остаётся в загрузках Telegram.",
+    attachFailed: "❌ Не удалось прикрепить файл к делу.",
+    uploadNotFound: "❌ Файл не найден.",
+    ocrStarted: "🔍 Запущено распознавание текста...",
+    ocrDone: "📝 <b>OCR завершён</b>: {words} слов, уверенность {confidence}%",
+    ocrReview: "⚠️ Низкая уверенность — рекомендуется ручная проверка.",
+    ocrFailed: "❌ Ошибка OCR: {reason}",
+    commands: "<b>Дела и поиск:</b>\n/cases — последние дела\n/case &lt;номер&gt; — статус дела, заседание и напоминания\n/kb &lt;запрос&gt; — поиск по базе знаний\n/ask &lt;вопрос&gt; — юридический вопрос",
+  },
+  en: {
+    notLinked: "❌ Account is not linked.\n\nTo link it:\n1. Get a code in the app's profile settings\n2. Send: /verify XXXXXX",
+    casesHeader: "📂 <b>Your recent cases</b>",
+    casesEmpty: "📂 You have no cases yet.",
+    casesFooter: "Details: /case &lt;case number&gt;",
+    caseUsage: "Usage: /case &lt;case number&gt;",
+    caseNotFound: "❌ No case found with number {number}.",
+    status: "Status",
+    court: "Court",
+    nextHearing: "Next hearing",
+    noHearing: "not scheduled",
+    reminders: "Open reminders",
+    noReminders: "No open reminders",
+    kbUsage: "Usage: /kb &lt;query&gt;",
+    kbHeader: "📚 <b>Search results:</b> {query}",
+    kbEmpty: "📚 Nothing found for «{query}».",
+    kbLegislation: "Legislation",
+    kbPractice: "Court practice",
+    askUsage: "Usage: /ask &lt;question&gt;",
+    askPending: "⏳ Searching legislation and court practice...",
+    askTruncated: "… <i>(answer shortened)</i>",
+    citations: "🔎 <b>Citations:</b> {verified}/{checked} verified",
+    citationsNotFound: "not found: {count}",
+    citationsRepealed: "repealed: {count}",
+    failed: "❌ The request failed. Please try again later.",
+    uploadSaved: "✅ <b>File uploaded</b>\n\n📄 {filename}",
+    uploadAvailable: "The file is available in your account.",
+    attachPrompt: "📎 Choose a case to attach the file to:",
+    attachSkip: "Skip",
+    attached: "✅ File «{filename}» attached to case <b>{number}</b>.",
+    attachSkipped: "The file stays in your Telegram uploads.",
+    attachFailed: "❌ Could not attach the file to the case.",
+    uploadNotFound: "❌ File not found.",
+    ocrStarted: "🔍 Text recognition started...",
+    ocrDone: "📝 <b>OCR finished</b>: {words} words, confidence {confidence}%",
+    ocrReview: "⚠️ Low confidence — manual review recommended.",
+    ocrFailed: "❌ OCR failed: {reason}",
+    commands: "<b>Cases and search:</b>\n/cases — recent cases\n/case &lt;number&gt; — case status, hearing and reminders\n/kb &lt;query&gt; — search the knowledge base\n/ask &lt;question&gt; — legal question",
+  },
+};
+
+export type TemplateKey = keyof typeof templates.en;
+
+const caseStatusLabels: Record<Lang, Record<string, string>> = {
+  hy: { open: "\u0532\u0561\u0581", in_progress: "\u0538\u0576\u0569\u0561\u0581\u0584\u0578\u0582\u0574", pending: "\u054d\u057a\u0561\u057d\u0574\u0561\u0576 \u0574\u0565\u057b", closed: "\u0553\u0561\u056f\u057e\u0561\u056e", archived: "\u0531\u0580\u056d\u056b\u057e\u0561\u0581\u057e\u0561\u056e" },
+  ru: { open: "Открыто", in_progress: "В работе", pending: "Ожидание", closed: "Закрыто", archived: "В архиве" },
+  en: { open: "Open", in_progress: "In progress", pending: "Pending", closed: "Closed", archived: "Archived" },
+};
+
+// ─── Helpers ────────────────────────────────────────────────────────────────
+
+/**
+ * Reply language: explicit notification_preferences.language first,
+ * then the Telegram client language, then Armenian.
+ */
+export function resolveLang(preferred: unknown, telegramLanguageCode?: string | null): Lang {
+  for (const candidate of [preferred, telegramLanguageCode]) {
+    if (typeof candidate !== "string") continue;
+    const code = candidate.toLowerCase().substring(0, 2);
+    if (code === "hy" || code === "ru" || code === "en") return code;
+  }
+  return "hy";
+}
+
+export function t(lang: Lang, key: TemplateKey, vars: Record<string, string | number> = {}): string {
+  let text = templates[lang][key] ?? templates.en[key];
+  for (const [name, value] of Object.entries(vars)) {
+    text = text.replace(`{${name}}`, String(value));
+  }
+  return text;
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Split "/case@MyBot 123/45" into { command: "/case", args: "123/45" }.
+ * Returns null for text that is not a command.
+ */
+export function parseCommand(text: string): { command: string; args: string } | null {
+  const m = text.trim().match(/^(\/[a-z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/i);
+  if (!m) return null;
+  return { command: m[1].toLowerCase(), args: (m[2] ?? "").trim() };
+}
+
+export function formatDateTime(isoDate: string, lang: Lang): string {
+  const date = new Date(isoDate);
+  const options: Intl.DateTimeFormatOptions = {
+    day: "2-digit",
+    month: "long",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  };
+  const locale = lang === "hy" ? "hy-AM" : lang === "ru" ? "ru-RU" : "en-US";
+  return date.toLocaleDateString(locale, options);
+}
+
+// ─── Formatters ─────────────────────────────────────────────────────────────
+
+export interface CaseSummary {
+  case_number: string;
+  title: string;
+  status: string;
+  court_name?: string | null;
+  court_date?: string | null;
+}
+
+export interface ReminderSummary {
+  title: string;
+  event_datetime: string;
+  reminder_type: string;
+}
+
+export function caseStatusLabel(status: string, lang: Lang): string {
+  return caseStatusLabels[lang][status] ?? status;
+}
+
+export function formatCaseList(cases: CaseSummary[], lang: Lang): string {
+  if (cases.length === 0) return t(lang, "casesEmpty");
+  const lines = cases.map((c) =>
+    `• <code>${escapeHtml(c.case_number)}</code> — ${escapeHtml(c.title)} (${caseStatusLabel(c.status, lang)})`
+  );
+  return `${t(lang, "casesHeader")}\n\n${lines.join("\n")}\n\n${t(lang, "casesFooter")}`;
+}
+
+export function formatCaseDetails(
+  c: CaseSummary,
+  nextHearing: string | null,
+  reminders: ReminderSummary[],
+  lang: Lang,
+): string {
+  const lines = [
+    `📁 <b>${escapeHtml(c.case_number)}</b>`,
+    escapeHtml(c.title),
+    "",
+    `📌 ${t(lang, "status")}: ${caseStatusLabel(c.status, lang)}`,
+  ];
+  if (c.court_name) lines.push(`🏛 ${t(lang, "court")}: ${escapeHtml(c.court_name)}`);
+  lines.push(`⚖️ ${t(lang, "nextHearing")}: ${nextHearing ? formatDateTime(nextHearing, lang) : t(lang, "noHearing")}`);
+  lines.push("");
+  if (reminders.length === 0) {
+    lines.push(`🔔 ${t(lang, "noReminders")}`);
+  } else {
+    lines.push(`🔔 <b>${t(lang, "reminders")}:</b>`);
+    for (const r of reminders) {
+      lines.push(`• ${formatDateTime(r.event_datetime, lang)} — ${escapeHtml(r.title)}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Earliest upcoming hearing: an active court_hearing reminder or the case court_date */
+export function pickNextHearing(
+  courtDate: string | null | undefined,
+  reminders: ReminderSummary[],
+  now: Date,
+): string | null {
+  const candidates = reminders
+    .filter((r) => r.reminder_type === "court_hearing")
+    .map((r) => r.event_datetime);
+  if (courtDate) candidates.push(courtDate);
+  const upcoming = candidates
+    .filter((d) => new Date(d).getTime() >= now.getTime())
+    .sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  return upcoming[0] ?? null;
+}
+
+export interface SearchHit {
+  source: "kb" | "practice";
+  title: string;
+  preview: string;
+}
+
+export function formatKBHits(query: string, hits: SearchHit[], lang: Lang, limit = 5): string {
+  if (hits.length === 0) return t(lang, "kbEmpty", { query: escapeHtml(query) });
+  const blocks = hits.slice(0, limit).map((h, i) => {
+    const source = h.source === "kb" ? t(lang, "kbLegislation") : t(lang, "kbPractice");
+    const preview = h.preview.replace(/\s+/g, " ").trim().substring(0, 300);
+    return `${i + 1}. <b>${escapeHtml(h.title)}</b>\n<i>${source}</i>${preview ? `\n${escapeHtml(preview)}` : ""}`;
+  });
+  return `${t(lang, "kbHeader", { query: escapeHtml(query) })}\n\n${blocks.join("\n\n")}`;
+}
+
+export function formatCitationSummary(report: CitationVerificationReport | null, lang: Lang): string {
+  if (!report || report.checked === 0) return "";
+  const parts = [t(lang, "citations", { verified: report.verified, checked: report.checked })];
+  if (report.not_found > 0) parts.push(t(lang, "citationsNotFound", { count: report.not_found }));
+  if (report.repealed > 0) parts.push(t(lang, "citationsRepealed", { count: report.repealed }));
+  return parts.join(" · ");
+}
+
+export function formatAskAnswer(answer: string, report: CitationVerificationReport | null, lang: Lang): string {
+  const trimmed = answer.trim();
+  let body = escapeHtml(trimmed.substring(0, MAX_ANSWER_CHARS));
+  if (trimmed.length > MAX_ANSWER_CHARS) body += `\n${t(lang, "askTruncated")}`;
+  const summary = formatCitationSummary(report, lang);
+  const text = summary ? `${body}\n\n${summary}` : body;
+  return text.substring(0, TELEGRAM_MAX_MESSAGE);
+}
+
+// ─── legal-chat stream ──────────────────────────────────────────────────────
+
+/**
+ * Collect a legal-chat SSE stream: the concatenated delta content and the
+ * citation_verification event appended before [DONE].
+ */
+export async function readChatStream(
+  body: ReadableStream<Uint8Array>,
+): Promise<{ text: string; citationVerification: CitationVerificationReport | null }> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let text = "";
+  let citationVerification: CitationVerificationReport | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const data = line.slice(6).trim();
+    if (!data || data === "[DONE]") return;
+    try {
+      const parsed = JSON.parse(data);
+      if (parsed.citation_verification) {
+        citationVerification = parsed.citation_verification as CitationVerificationReport;
+        return;
+      }
+      const delta = parsed.choices?.[0]?.delta?.content;
+      if (typeof delta === "string") text += delta;
+    } catch {
+      // Partial or non-JSON keep-alive lines are ignored
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      handleLine(buffer.slice(0, newline).replace(/\r$/, ""));
+      buffer = buffer.slice(newline + 1);
+    }
+  }
+  if (buffer) handleLine(buffer);
+
+  return { text, citationVerification };
+}
@@ -1,15 +1,50 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { callInternalFunction } from "../_shared/edge-security.ts";
+import { log, err } from "../_shared/safe-logger.ts";
+import {
+  type CaseSummary,
+  type Lang,
+  type ReminderSummary,
+  type SearchHit,
+  escapeHtml,
+  formatAskAnswer,
+  formatCaseDetails,
+  formatCaseList,
+  formatKBHits,
+  parseCommand,
+  pickNextHearing,
+  readChatStream,
+  resolveLang,
+  t,
+  templates,
+} from "./commands.ts";
+import {
+  type CaseOption,
+  type InlineKeyboardMarkup,
+  type OcrResult,
+  buildCaseKeyboard,
+  caseFileStoragePath,
+  formatOcrStatus,
+  parseCallbackData,
+  parseCaseTag,
+} from "./uploads.ts";
 
 interface TelegramUpdate {
   message?: {
     chat: { id: number };
-    from?: { id: number; first_name?: string; username?: string };
+    from?: { id: number; first_name?: string; username?: string; language_code?: string };
     text?: string;
     photo?: Array<{ file_id: string; file_size?: number; width: number; height: number }>;
     document?: { file_id: string; file_name?: string; mime_type?: string; file_size?: number };
     caption?: string;
   };
+  callback_query?: {
+    id: string;
+    from: { id: number; language_code?: string };
+    message?: { message_id: number; chat: { id: number } };
+    data?: string;
+  };
 }
 
 /**
@@ -59,6 +94,15 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     const update: TelegramUpdate = await req.json();
+
+    // Inline keyboard: attach an upload to a case
+    if (update.callback_query) {
+      await handleUploadCallback(supabase, TELEGRAM_BOT_TOKEN, update.callback_query);
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     const message = update.message;
 
     if (!message) {
@@ -77,7 +121,8 @@ serve(async (req) => {
         chatId, 
         message.photo, 
         message.document, 
-        message.caption
+        message.caption,
+        message.from?.language_code
       );
       return new Response(JSON.stringify({ ok: true }), {
         headers: { "Content-Type": "application/json" },
@@ -111,7 +156,9 @@ serve(async (req) => {
 /start \u2014 \u0581\u0578\u0582\u0581\u0561\u0564\u0580\u0565\u056c Chat ID-\u0576
 /verify XXXXXX \u2014 \u056f\u0561\u057a\u0565\u056c \u0570\u0561\u0577\u056b\u057e\u0568
 /status \u2014 \u057d\u057f\u0578\u0582\u0563\u0565\u056c \u056f\u0561\u057a\u056b \u057e\u056b\u0573\u0561\u056f\u0568
-/help \u2014 \u0585\u0563\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576 \u0587 \u0586\u0561\u0575\u056c\u0565\u0580\u056b \u0562\u0565\u057c\u0576\u0578\u0582\u0574`;
+/help \u2014 \u0585\u0563\u0576\u0578\u0582\u0569\u0575\u0578\u0582\u0576 \u0587 \u0586\u0561\u0575\u056c\u0565\u0580\u056b \u0562\u0565\u057c\u0576\u0578\u0582\u0574
+
+${templates.hy.commands}`;
 
       await sendTelegramMessage(TELEGRAM_BOT_TOKEN, chatId, welcomeMessage);
       return new Response(JSON.stringify({ ok: true }), {
@@ -132,7 +179,9 @@ serve(async (req) => {
 📷 Фотографии (JPG, PNG)
 📄 Документы (PDF, DOCX, и др.)
 
-Максимальный размер: 20 МБ`;
+Максимальный размер: 20 МБ
+
+${templates.ru.commands}`;
 
       await sendTelegramMessage(TELEGRAM_BOT_TOKEN, chatId, helpMessage);
       return new Response(JSON.stringify({ ok: true }), {
@@ -254,6 +303,22 @@ serve(async (req) => {
       });
     }
 
+    // Commands for linked users: /cases, /case, /kb, /ask
+    const parsed = parseCommand(text);
+    if (parsed && LINKED_COMMANDS.has(parsed.command)) {
+      await handleLinkedCommand(
+        supabase,
+        TELEGRAM_BOT_TOKEN,
+        chatId,
+        parsed.command,
+        parsed.args,
+        message.from?.language_code,
+      );
+      return new Response(JSON.stringify({ ok: true }), {
+        headers: { "Content-Type": "application/json" },
+      });
+    }
+
     // Unknown command
     await sendTelegramMessage(TELEGRAM_BOT_TOKEN, chatId, 
       "Используйте /start для начала, /help для помощи, или отправьте файл для загрузки."
@@ -277,15 +342,12 @@ async function handleFileUpload(
   chatId: number,
   photo: Array<{ file_id: string; file_size?: number; width: number; height: number }> | undefined,
   document: { file_id: string; file_name?: string; mime_type?: string; file_size?: number } | undefined,
-  caption: string | undefined
+  caption: string | undefined,
+  telegramLanguageCode: string | undefined
 ): Promise<void> {
-  const { data: profile, error: profileError } = await supabase
-    .from("profiles")
-    .select("id, full_name, email")
-    .eq("telegram_chat_id", chatId.toString())
-    .single();
+  const { profile, lang } = await getLinkedProfile(supabase, chatId, telegramLanguageCode);
 
-  if (profileError || !profile) {
+  if (!profile) {
     await sendTelegramMessage(botToken, chatId, 
       `❌ Аккаунт не привязан.\n\nДля привязки:\n1. Получите код в настройках профиля приложения\n2. Отправьте: /verify XXXXXX`
     );
@@ -317,6 +379,7 @@ async function handleFileUpload(
     return;
   }
 
+  let upload: TelegramUploadRow;
   try {
     const fileInfoResponse = await fetch(
       `https://api.telegram.org/bot${botToken}/getFile?file_id=${fileId}`
@@ -351,7 +414,7 @@ async function handleFileUpload(
 
     if (uploadError) throw uploadError;
 
-    const { error: dbError } = await supabase
+    const { data: inserted, error: dbError } = await supabase
       .from("telegram_uploads")
       .insert({
         user_id: profile.id,
@@ -362,33 +425,439 @@ async function handleFileUpload(
         file_type: mimeType,
         file_size: fileSize,
         caption: caption,
-      });
+      })
+      .select(TELEGRAM_UPLOAD_COLUMNS)
+      .single();
 
-    if (dbError) {
+    if (dbError || !inserted) {
       await supabase.storage.from("telegram-uploads").remove([storagePath]);
-      throw dbError;
+      throw dbError ?? new Error("telegram_uploads insert returned no row");
     }
-
-    await sendTelegramMessage(botToken, chatId, 
-      `✅ <b>Файл загружен</b>\n\n📄 ${originalFilename}\n${caption ? `📝 ${caption}` : ""}\n\nФайл доступен в вашем личном кабинете.`
-    );
+    upload = inserted as TelegramUploadRow;
 
   } catch (error) {
     console.error("File upload error:", error);
     await sendTelegramMessage(botToken, chatId, 
       "❌ Ошибка при загрузке файла. Попробуйте позже."
     );
+    return;
+  }
+
+  const saved = `${t(lang, "uploadSaved", { filename: escapeHtml(originalFilename) })}${caption ? `\n📝 ${escapeHtml(caption)}` : ""}`;
+
+  // "#<case_number>" caption: attach right away
+  const caseTag = parseCaseTag(caption);
+  if (caseTag) {
+    const target = await findAccessibleCase(supabase, profile.id, caseTag);
+    if (target) {
+      await sendTelegramMessage(botToken, chatId, saved);
+      await attachUploadToCase(supabase, botToken, chatId, profile, upload, target);
+      return;
+    }
+    await sendTelegramMessage(botToken, chatId, t(lang, "caseNotFound", { number: escapeHtml(caseTag.substring(0, 100)) }));
+  }
+
+  const recent = await fetchRecentCases(supabase, profile.id, MAX_KEYBOARD_CASES);
+  if (recent.length === 0) {
+    await sendTelegramMessage(botToken, chatId, `${saved}\n\n${t(lang, "uploadAvailable")}`);
+    return;
+  }
+  await sendTelegramMessage(
+    botToken,
+    chatId,
+    `${saved}\n\n${t(lang, "attachPrompt")}`,
+    buildCaseKeyboard(upload.id, recent, lang),
+  );
+}
+
+const FN = "telegram-webhook";
+
+const LINKED_COMMANDS = new Set(["/cases", "/case", "/kb", "/ask"]);
+const MAX_LIST_CASES = 10;
+const MAX_CASE_REMINDERS = 5;
+const MAX_KEYBOARD_CASES = 6;
+const TELEGRAM_UPLOAD_COLUMNS = "id, original_filename, storage_path, file_type, file_size, caption";
+
+interface LinkedProfile {
+  id: string;
+  lang: Lang;
+  autoOcr: boolean;
+}
+
+interface TelegramUploadRow {
+  id: string;
+  original_filename: string;
+  storage_path: string;
+  file_type: string | null;
+  file_size: number | null;
+  caption: string | null;
+}
+
+type CaseRow = CaseSummary & { id: string };
+
+/** Profile linked to this chat; the reply language is resolved either way */
+async function getLinkedProfile(
+  supabase: ReturnType<typeof createClient>,
+  chatId: number,
+  telegramLanguageCode: string | undefined,
+): Promise<{ profile: LinkedProfile | null; lang: Lang }> {
+  const { data } = await supabase
+    .from("profiles")
+    .select("id, notification_preferences")
+    .eq("telegram_chat_id", chatId.toString())
+    .single();
+
+  const prefs = data?.notification_preferences as { language?: string; telegram_auto_ocr?: boolean } | null;
+  const lang = resolveLang(prefs?.language, telegramLanguageCode);
+  if (!data) return { profile: null, lang };
+  return { profile: { id: data.id, lang, autoOcr: prefs?.telegram_auto_ocr !== false }, lang };
+}
+
+async function fetchRecentCases(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  limit: number,
+): Promise<CaseRow[]> {
+  const { data, error } = await supabase
+    .from("cases")
+    .select("id, case_number, title, status")
+    // Cases the user runs or opened for themselves; never as a portal client
+    .or(`lawyer_id.eq.${userId},and(client_id.eq.${userId},lawyer_id.is.null)`)
+    .is("deleted_at", null)
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data ?? []) as CaseRow[];
+}
+
+/**
+ * Case by number or id the user works on as staff (service-role reads bypass
+ * RLS). Portal clients get null: their files go through client_uploads.
+ */
+async function findAccessibleCase(
+  supabase: ReturnType<typeof createClient>,
+  userId: string,
+  caseNumber: string,
+  byId = false,
+): Promise<CaseRow | null> {
+  const { data: candidates, error } = await supabase
+    .from("cases")
+    .select("id, case_number, title, status, court_name, court_date")
+    .eq(byId ? "id" : "case_number", caseNumber)
+    .is("deleted_at", null)
+    .limit(5);
+  if (error) throw error;
+
+  for (const c of (candidates ?? []) as CaseRow[]) {
+    const { data: allowed } = await supabase.rpc("is_case_staff", { _user_id: userId, _case_id: c.id });
+    if (allowed) return c;
+  }
+  return null;
+}
+
+async function handleLinkedCommand(
+  supabase: ReturnType<typeof createClient>,
+  botToken: string,
+  chatId: number,
+  command: string,
+  args: string,
+  telegramLanguageCode: string | undefined,
+): Promise<void> {
+  const { profile, lang } = await getLinkedProfile(supabase, chatId, telegramLanguageCode);
+
+  if (!profile) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "notLinked"));
+    return;
+  }
+
+  try {
+    switch (command) {
+      case "/cases":
+        await handleCasesCommand(supabase, botToken, chatId, profile.id, lang);
+        break;
+      case "/case":
+        await handleCaseCommand(supabase, botToken, chatId, profile.id, args, lang);
+        break;
+      case "/kb":
+        await handleKBCommand(botToken, chatId, profile.id, args, lang);
+        break;
+      case "/ask":
+        await handleAskCommand(botToken, chatId, profile.id, args, lang);
+        break;
+    }
+  } catch (error) {
+    err(FN, "Command failed", error, { command });
+    await sendTelegramMessage(botToken, chatId, t(lang, "failed"));
+  }
+}
+
+async function handleCasesCommand(
+  supabase: ReturnType<typeof createClient>,
+  botToken: string,
+  chatId: number,
+  userId: string,
+  lang: Lang,
+): Promise<void> {
+  const cases = await fetchRecentCases(supabase, userId, MAX_LIST_CASES);
+  await sendTelegramMessage(botToken, chatId, formatCaseList(cases, lang));
+}
+
+async function handleCaseCommand(
+  supabase: ReturnType<typeof createClient>,
+  botToken: string,
+  chatId: number,
+  userId: string,
+  caseNumber: string,
+  lang: Lang,
+): Promise<void> {
+  if (!caseNumber) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "caseUsage"));
+    return;
+  }
+
+  const found = await findAccessibleCase(supabase, userId, caseNumber);
+  if (!found) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "caseNotFound", { number: escapeHtml(caseNumber.substring(0, 100)) }));
+    return;
+  }
+
+  const { data: reminders, error: remindersError } = await supabase
+    .from("reminders")
+    .select("title, event_datetime, reminder_type")
+    .eq("case_id", found.id)
+    .eq("user_id", userId)
+    .eq("status", "active")
+    .gte("event_datetime", new Date().toISOString())
+    .order("event_datetime", { ascending: true })
+    .limit(MAX_CASE_REMINDERS);
+  if (remindersError) throw remindersError;
+
+  const open = (reminders ?? []) as ReminderSummary[];
+  const nextHearing = pickNextHearing(found.court_date, open, new Date());
+  await sendTelegramMessage(botToken, chatId, formatCaseDetails(found, nextHearing, open, lang));
+}
+
+async function handleKBCommand(
+  botToken: string,
+  chatId: number,
+  userId: string,
+  query: string,
+  lang: Lang,
+): Promise<void> {
+  if (query.length < 2) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "kbUsage"));
+    return;
+  }
+
+  const res = await callInternalFunction(
+    `${Deno.env.get("SUPABASE_URL")}/functions/v1/kb-unified-search`,
+    { query },
+    { userId },
+  );
+  if (!res.ok) throw new Error(`kb-unified-search returned ${res.status}`);
+
+  const data = await res.json() as { merged?: SearchHit[] };
+  log(FN, "KB command", { userId, hits: data.merged?.length ?? 0 });
+  await sendTelegramMessage(botToken, chatId, formatKBHits(query, data.merged ?? [], lang));
+}
+
+async function handleAskCommand(
+  botToken: string,
+  chatId: number,
+  userId: string,
+  question: string,
+  lang: Lang,
+): Promise<void> {
+  if (!question) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "askUsage"));
+    return;
+  }
+
+  await sendTelegramMessage(botToken, chatId, t(lang, "askPending"));
+
+  const res = await callInternalFunction(
+    `${Deno.env.get("SUPABASE_URL")}/functions/v1/legal-chat`,
+    { message: question },
+    { userId, timeoutMs: 90_000 },
+  );
+  if (res.status === 402) {
+    // AI quota used up: the body carries the message with the amounts
+    const body = await res.json().catch(() => ({}));
+    await sendTelegramMessage(botToken, chatId, typeof body.error === "string" ? body.error : t(lang, "failed"));
+    return;
+  }
+  if (!res.ok || !res.body) throw new Error(`legal-chat returned ${res.status}`);
+
+  const { text: answer, citationVerification } = await readChatStream(res.body);
+  if (!answer.trim()) throw new Error("legal-chat returned an empty answer");
+
+  log(FN, "Ask command", { userId, answerLen: answer.length, citations: citationVerification?.checked ?? 0 });
+  await sendTelegramMessage(botToken, chatId, formatAskAnswer(answer, citationVerification, lang));
+}
+
+async function handleUploadCallback(
+  supabase: ReturnType<typeof createClient>,
+  botToken: string,
+  query: NonNullable<TelegramUpdate["callback_query"]>,
+): Promise<void> {
+  // Stop the button spinner first; the work below can take a while
+  await callTelegramApi(botToken, "answerCallbackQuery", { callback_query_id: query.id });
+
+  const parsed = parseCallbackData(query.data);
+  const chatId = query.message?.chat.id ?? query.from.id;
+  if (!parsed) return;
+
+  const { profile, lang } = await getLinkedProfile(supabase, chatId, query.from.language_code);
+  if (!profile) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "notLinked"));
+    return;
+  }
+
+  const { data: upload } = await supabase
+    .from("telegram_uploads")
+    .select(TELEGRAM_UPLOAD_COLUMNS)
+    .eq("id", parsed.uploadId)
+    .eq("user_id", profile.id)
+    .maybeSingle();
+  if (!upload) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "uploadNotFound"));
+    return;
+  }
+
+  // The keyboard is single-use
+  if (query.message) {
+    await callTelegramApi(botToken, "editMessageReplyMarkup", {
+      chat_id: chatId,
+      message_id: query.message.message_id,
+      reply_markup: { inline_keyboard: [] },
+    });
+  }
+
+  if (parsed.action === "skip") {
+    await sendTelegramMessage(botToken, chatId, t(lang, "attachSkipped"));
+    return;
+  }
+
+  const target = await findAccessibleCase(supabase, profile.id, parsed.caseId, true);
+  if (!target) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "attachFailed"));
+    return;
+  }
+  await attachUploadToCase(supabase, botToken, chatId, profile, upload as TelegramUploadRow, target);
+}
+
+/**
+ * Copy a Telegram upload into case-files storage, register it in case_files
+ * and, if the user keeps auto-OCR on, run ocr-process and report the result.
+ */
+async function attachUploadToCase(
+  supabase: ReturnType<typeof createClient>,
+  botToken: string,
+  chatId: number,
+  profile: LinkedProfile,
+  upload: TelegramUploadRow,
+  target: CaseOption,
+): Promise<void> {
+  const lang = profile.lang;
+
+  // The writes below run as service role, past the portal client policies
+  const { data: isStaff } = await supabase.rpc("is_case_staff", { _user_id: profile.id, _case_id: target.id });
+  if (!isStaff) {
+    await sendTelegramMessage(botToken, chatId, t(lang, "attachFailed"));
+    return;
+  }
+
+  const storagePath = caseFileStoragePath(target.id, upload.original_filename);
+  let caseFileId: string;
+
+  try {
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from("telegram-uploads")
+      .download(upload.storage_path);
+    if (downloadError || !blob) throw downloadError ?? new Error("Empty download");
+
+    const { error: uploadError } = await supabase.storage
+      .from("case-files")
+      .upload(storagePath, blob, {
+        contentType: upload.file_type ?? "application/octet-stream",
+        upsert: false,
+      });
+    if (uploadError) throw uploadError;
+
+    const { data: caseFile, error: insertError } = await supabase
+      .from("case_files")
+      .insert({
+        case_id: target.id,
+        filename: upload.original_filename,
+        original_filename: upload.original_filename,
+        storage_path: storagePath,
+        file_type: upload.file_type,
+        file_size: upload.file_size,
+        uploaded_by: profile.id,
+        notes: upload.caption,
+      })
+      .select("id")
+      .single();
+    if (insertError || !caseFile) {
+      await supabase.storage.from("case-files").remove([storagePath]);
+      throw insertError ?? new Error("case_files insert returned no row");
+    }
+    caseFileId = caseFile.id;
+  } catch (error) {
+    err(FN, "Attach to case failed", error, { caseId: target.id });
+    await sendTelegramMessage(botToken, chatId, t(lang, "attachFailed"));
+    return;
+  }
+
+  log(FN, "Upload attached to case", { caseId: target.id, fileId: caseFileId });
+  await sendTelegramMessage(botToken, chatId, t(lang, "attached", {
+    filename: escapeHtml(upload.original_filename),
+    number: escapeHtml(target.case_number),
+  }));
+
+  if (!profile.autoOcr) return;
+
+  await sendTelegramMessage(botToken, chatId, t(lang, "ocrStarted"));
+  let result: OcrResult;
+  try {
+    const res = await callInternalFunction(
+      `${Deno.env.get("SUPABASE_URL")}/functions/v1/ocr-process`,
+      {
+        // Storage object URL: ocr-process downloads it with the service role
+        fileUrl: `${Deno.env.get("SUPABASE_URL")}/storage/v1/object/case-files/${storagePath}`,
+        fileName: upload.original_filename,
+        fileId: caseFileId,
+        caseId: target.id,
+      },
+      { userId: profile.id, timeoutMs: 120_000 },
+    );
+    result = await res.json() as OcrResult;
+  } catch (error) {
+    err(FN, "OCR call failed", error, { fileId: caseFileId });
+    result = { ok: false, warnings: [error instanceof Error ? error.message : "OCR call failed"] };
   }
+  await sendTelegramMessage(botToken, chatId, formatOcrStatus(result, lang));
 }
 
-async function sendTelegramMessage(token: string, chatId: number, text: string): Promise<void> {
-  await fetch(`https://api.telegram.org/bot${token}/sendMessage`, {
+async function callTelegramApi(token: string, method: string, payload: Record<string, unknown>): Promise<void> {
+  await fetch(`https://api.telegram.org/bot${token}/${method}`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({
-      chat_id: chatId,
-      text,
-      parse_mode: "HTML",
-    }),
+    body: JSON.stringify(payload),
+  });
+}
+
+async function sendTelegramMessage(
+  token: string,
+  chatId: number,
+  text: string,
+  replyMarkup?: InlineKeyboardMarkup,
+): Promise<void> {
+  await callTelegramApi(token, "sendMessage", {
+    chat_id: chatId,
+    text,
+    parse_mode: "HTML",
+    ...(replyMarkup ? { reply_markup: replyMarkup } : {}),
   });
 }
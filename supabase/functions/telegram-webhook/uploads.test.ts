@@ -0,0 +1,69 @@
+// =============================================================================
+// Telegram Upload → Case — Test Suite
+// All Armenian text represented as Unicode escapes per project standards.
+// Run: deno test supabase/functions/telegram-webhook/uploads.test.ts
+// =============================================================================
+
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  buildCaseKeyboard,
+  caseFileStoragePath,
+  decodeId,
+  encodeId,
+  formatOcrStatus,
+  parseCallbackData,
+  parseCaseTag,
+} from "./uploads.ts";
+import { t } from "./commands.ts";
+
+const UPLOAD = "0f8fad5b-d9cb-469f-a165-70867728950e";
+const CASE = "7c9e6679-7425-40de-944b-e07fc1f90ae7";
+
+Deno.test("encodeId / decodeId round-trip in 22 characters", () => {
+  const short = encodeId(UPLOAD);
+  assertEquals(short.length, 22);
+  assertEquals(decodeId(short), UPLOAD);
+  assertEquals(decodeId("too-short"), null);
+});
+
+Deno.test("buildCaseKeyboard fits Telegram's 64-byte callback_data", () => {
+  const kb = buildCaseKeyboard(UPLOAD, [{ id: CASE, case_number: "1/2", title: "x".repeat(100) }], "en");
+  assertEquals(kb.inline_keyboard.length, 2);
+  const [attach] = kb.inline_keyboard[0];
+  assertEquals(attach.callback_data.length <= 64, true);
+  assertEquals(attach.text.length, 60);
+  assertEquals(kb.inline_keyboard[1][0].text, t("en", "attachSkip"));
+});
+
+Deno.test("parseCallbackData decodes attach and skip actions", () => {
+  const kb = buildCaseKeyboard(UPLOAD, [{ id: CASE, case_number: "1/2", title: "T" }], "en");
+  assertEquals(parseCallbackData(kb.inline_keyboard[0][0].callback_data), { action: "attach", uploadId: UPLOAD, caseId: CASE });
+  assertEquals(parseCallbackData(kb.inline_keyboard[1][0].callback_data), { action: "skip", uploadId: UPLOAD });
+  assertEquals(parseCallbackData("a:bogus"), null);
+  assertEquals(parseCallbackData(undefined), null);
+});
+
+Deno.test("parseCaseTag reads a #<case_number> caption tag", () => {
+  assertEquals(parseCaseTag("#\u0535\u0531\u0554\u0534/0123/01/20 scan"), "\u0535\u0531\u0554\u0534/0123/01/20");
+  assertEquals(parseCaseTag("contract page 2 #12/34"), "12/34");
+  assertEquals(parseCaseTag("no tag"), null);
+  assertEquals(parseCaseTag(undefined), null);
+});
+
+Deno.test("caseFileStoragePath follows the case-<id>/<uuid>.<ext> layout", () => {
+  const path = caseFileStoragePath(CASE, "Scan.PDF");
+  assertEquals(path.startsWith(`case-${CASE}/`), true);
+  assertEquals(path.endsWith(".pdf"), true);
+});
+
+Deno.test("formatOcrStatus reports words, confidence and review flag", () => {
+  assertEquals(
+    formatOcrStatus({ ok: true, word_count: 120, confidence_score: 0.934 }, "en"),
+    t("en", "ocrDone", { words: 120, confidence: 93 }),
+  );
+  assertEquals(
+    formatOcrStatus({ ok: true, word_count: 5, confidence_score: 0.5, needs_review: true }, "en").endsWith(t("en", "ocrReview")),
+    true,
+  );
+  assertEquals(formatOcrStatus({ ok: false, warnings: ["<bad>"] }, "en"), "❌ OCR failed: &lt;bad&gt;");
+});
@@ -0,0 +1,120 @@
+// =============================================================================
+// TELEGRAM UPLOAD → CASE — Inline keyboard, caption tags and OCR status
+// Used by: telegram-webhook (file uploads, callback queries)
+// =============================================================================
+//
+// Telegram limits callback_data to 64 bytes, so upload and case ids travel as
+// 22-character base64url encodings of their UUID bytes:
+//   "a:<upload>:<case>"  attach the upload to the case
+//   "x:<upload>"         leave the upload in telegram_uploads
+// =============================================================================
+
+import { escapeHtml, type Lang, t } from "./commands.ts";
+
+export interface InlineKeyboardButton {
+  text: string;
+  callback_data: string;
+}
+
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
+}
+
+export type UploadCallback =
+  | { action: "attach"; uploadId: string; caseId: string }
+  | { action: "skip"; uploadId: string };
+
+export interface CaseOption {
+  id: string;
+  case_number: string;
+  title: string;
+}
+
+export interface OcrResult {
+  ok: boolean;
+  word_count?: number;
+  confidence_score?: number;
+  needs_review?: boolean;
+  warnings?: string[];
+}
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BUTTON_LABEL_MAX = 60;
+
+// ─── Compact ids ────────────────────────────────────────────────────────────
+
+export function encodeId(uuid: string): string {
+  if (!UUID_RE.test(uuid)) throw new Error(`Not a UUID: ${uuid}`);
+  const hex = uuid.replace(/-/g, "");
+  let binary = "";
+  for (let i = 0; i < hex.length; i += 2) binary += String.fromCharCode(parseInt(hex.substring(i, i + 2), 16));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function decodeId(short: string): string | null {
+  if (!/^[A-Za-z0-9_-]{22}$/.test(short)) return null;
+  let binary: string;
+  try {
+    binary = atob(short.replace(/-/g, "+").replace(/_/g, "/") + "==");
+  } catch {
+    return null;
+  }
+  const hex = [...binary].map((c) => c.charCodeAt(0).toString(16).padStart(2, "0")).join("");
+  return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-${hex.substring(12, 16)}-${hex.substring(16, 20)}-${hex.substring(20)}`;
+}
+
+// ─── Callback data ──────────────────────────────────────────────────────────
+
+export function parseCallbackData(data: string | undefined): UploadCallback | null {
+  if (!data) return null;
+  const [action, upload, kase] = data.split(":");
+  const uploadId = upload ? decodeId(upload) : null;
+  if (!uploadId) return null;
+  if (action === "x") return { action: "skip", uploadId };
+  if (action === "a") {
+    const caseId = kase ? decodeId(kase) : null;
+    return caseId ? { action: "attach", uploadId, caseId } : null;
+  }
+  return null;
+}
+
+/** One button per case plus a skip button */
+export function buildCaseKeyboard(uploadId: string, cases: CaseOption[], lang: Lang): InlineKeyboardMarkup {
+  const upload = encodeId(uploadId);
+  const rows = cases.map((c) => {
+    const label = `${c.case_number} \u2014 ${c.title}`;
+    return [{
+      text: label.length > BUTTON_LABEL_MAX ? `${label.substring(0, BUTTON_LABEL_MAX - 1)}\u2026` : label,
+      callback_data: `a:${upload}:${encodeId(c.id)}`,
+    }];
+  });
+  rows.push([{ text: t(lang, "attachSkip"), callback_data: `x:${upload}` }]);
+  return { inline_keyboard: rows };
+}
+
+// ─── Caption tag ────────────────────────────────────────────────────────────
+
+/** Case number from a "#<case_number>" caption tag */
+export function parseCaseTag(caption: string | undefined): string | null {
+  const m = caption?.match(/(?:^|\s)#(\S+)/);
+  return m ? m[1] : null;
+}
+
+// ─── Storage ────────────────────────────────────────────────────────────────
+
+/** case-files object path, same layout as CasePdfUpload */
+export function caseFileStoragePath(caseId: string, originalFilename: string): string {
+  const ext = originalFilename.includes(".") ? originalFilename.split(".").pop()!.toLowerCase() : "bin";
+  return `case-${caseId}/${crypto.randomUUID()}.${ext}`;
+}
+
+// ─── OCR status ─────────────────────────────────────────────────────────────
+
+export function formatOcrStatus(result: OcrResult, lang: Lang): string {
+  if (!result.ok) {
+    return t(lang, "ocrFailed", { reason: escapeHtml(result.warnings?.[0] ?? "unknown error") });
+  }
+  const confidence = Math.round((result.confidence_score ?? 0) * 100);
+  const done = t(lang, "ocrDone", { words: result.word_count ?? 0, confidence });
+  return result.needs_review ? `${done}\n${t(lang, "ocrReview")}` : done;
+}
@@ -0,0 +1,235 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.91.1";
+import { handleCors } from "../_shared/edge-security.ts";
+import { log, warn, err } from "../_shared/safe-logger.ts";
+import { callJSON } from "../_shared/openai-router.ts";
+import { QuotaExceededError, quotaErrorResponse } from "../_shared/ai-quota.ts";
+import { sandboxUserInput } from "../_shared/prompt-armor.ts";
+import { generateEmbeddings, vectorToString } from "../_shared/embeddings.ts";
+import type { SpeakerLabels } from "../_shared/transcript-segments.ts";
+import {
+  CONTRADICTIONS_PROMPT,
+  CONTRADICTIONS_SCHEMA,
+  formatContradictionInput,
+  normalizeContradictions,
+  rankExcerpts,
+  selectQueryStatements,
+  type ExcerptHit,
+  type PriorExcerpt,
+  type SpeakerStatement,
+} from "../_shared/transcript-contradictions.ts";
+
+/**
+ * Contradictions between one speaker's testimony at a hearing and that
+ * person's earlier statements in the case volumes / OCR results.
+ *
+ * POST { transcriptionId, speaker } → { contradictions, statements, excerpts, indexed }
+ *
+ * Earlier statements are retrieved from the case-search index, by the
+ * speaker's name (when the speaker is labelled) and by their longest turns;
+ * indexed = false when no case file has been indexed yet.
+ */
+
+// Must match case_chunks.embedding vector(768)
+const EMBEDDING_DIMENSIONS = 768;
+const MAX_QUERIES = 6;
+const HITS_PER_QUERY = 30;
+const MAX_EXCERPTS = 14;
+const AI_TIMEOUT_MS = 150_000;
+
+serve(async (req) => {
+  const cors = handleCors(req);
+  if (cors.errorResponse) return cors.errorResponse;
+  const corsHeaders = cors.corsHeaders!;
+
+  const jsonRes = (body: Record<string, unknown>, status: number) =>
+    new Response(JSON.stringify(body), {
+      status,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+
+  const requestId = crypto.randomUUID().slice(0, 8);
+
+  try {
+    const authHeader = req.headers.get("Authorization") ?? "";
+    if (!authHeader.startsWith("Bearer ")) {
+      return jsonRes({ error: "Unauthorized" }, 401);
+    }
+    const userClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_ANON_KEY")!,
+      { global: { headers: { Authorization: authHeader } } },
+    );
+    const { data: userData, error: userErr } = await userClient.auth.getUser();
+    const userId = userData?.user?.id;
+    if (userErr || !userId) {
+      return jsonRes({ error: "Unauthorized" }, 401);
+    }
+
+    const body = await req.json();
+    const transcriptionId: string = body.transcriptionId;
+    const speaker: string = body.speaker;
+    if (!transcriptionId || typeof transcriptionId !== "string") {
+      return jsonRes({ error: "transcriptionId is required" }, 400);
+    }
+    if (typeof speaker !== "string" || !/^S[0-9]+$/.test(speaker)) {
+      return jsonRes({ error: "speaker is required" }, 400);
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: transcription } = await supabase
+      .from("audio_transcriptions")
+      .select("id, speaker_labels, case_files!inner(case_id)")
+      .eq("id", transcriptionId)
+      .maybeSingle();
+    const caseId = (transcription?.case_files as { case_id: string } | undefined)?.case_id;
+    if (!transcription || !caseId) {
+      return jsonRes({ error: "Transcription not found" }, 404);
+    }
+
+    const { data: canAccess, error: accessErr } = await userClient.rpc("is_case_staff", {
+      _user_id: userId,
+      _case_id: caseId,
+    });
+    if (accessErr || !canAccess) {
+      return jsonRes({ error: "Transcription not found" }, 404);
+    }
+
+    const { data: segments, error: segErr } = await supabase
+      .from("transcript_segments")
+      .select("id, start_ms, end_ms, text")
+      .eq("transcription_id", transcriptionId)
+      .eq("speaker", speaker)
+      .order("seq", { ascending: true });
+    if (segErr) throw new Error(`transcript_segments: ${segErr.message}`);
+
+    const statements: SpeakerStatement[] = (segments ?? [])
+      .filter((s) => s.text.trim().length > 0)
+      .map((s) => ({ segment_id: s.id, start_ms: s.start_ms, end_ms: s.end_ms, text: s.text }));
+    if (statements.length === 0) {
+      return jsonRes({ error: "The speaker has no statements in this transcript" }, 400);
+    }
+
+    const label = (transcription.speaker_labels as SpeakerLabels | null)?.[speaker];
+    const name = label?.name?.trim() || null;
+
+    // ── Retrieval ──
+    const queries = selectQueryStatements(statements, MAX_QUERIES);
+    let vectors: (string | null)[] = queries.map(() => null);
+    try {
+      vectors = (await generateEmbeddings(queries, undefined, EMBEDDING_DIMENSIONS)).map(vectorToString);
+    } catch (e) {
+      warn("transcript-contradictions", "Query embedding failed, keyword only", {
+        requestId,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+
+    // A name is looked up literally; an embedding of it says little
+    const searches = [
+      ...(name ? [{ text: name, vector: null }] : []),
+      ...queries.map((text, i) => ({ text, vector: vectors[i] ?? null })),
+    ];
+    const hitLists = await Promise.all(searches.map(async (q) => {
+      const { data, error } = await userClient.rpc("search_case_chunks", {
+        p_case_id: caseId,
+        query_embedding: q.vector,
+        query_text: q.text,
+        match_count: HITS_PER_QUERY,
+      });
+      if (error) throw new Error(`search_case_chunks: ${error.message}`);
+      return (data ?? []) as ExcerptHit[];
+    }));
+    const hits = rankExcerpts(hitLists, MAX_EXCERPTS);
+
+    if (hits.length === 0) {
+      const { count } = await supabase
+        .from("case_chunks")
+        .select("id", { count: "exact", head: true })
+        .eq("case_id", caseId)
+        .neq("source_type", "transcript");
+      return jsonRes({ contradictions: [], statements: statements.length, excerpts: 0, indexed: !!count }, 200);
+    }
+
+    const fileIds = [...new Set(hits.map((h) => h.file_id).filter((id): id is string => !!id))];
+    const volumeIds = [...new Set(hits.map((h) => h.volume_id).filter((id): id is string => !!id))];
+    const [{ data: files }, { data: volumes }] = await Promise.all([
+      fileIds.length
+        ? supabase.from("case_files").select("id, original_filename").in("id", fileIds)
+        : Promise.resolve({ data: [] as { id: string; original_filename: string }[] }),
+      volumeIds.length
+        ? supabase.from("case_volumes").select("id, volume_number, title").in("id", volumeIds)
+        : Promise.resolve({ data: [] as { id: string; volume_number: number; title: string }[] }),
+    ]);
+    const fileNames = new Map((files ?? []).map((f) => [f.id, f.original_filename as string]));
+    const volumeInfo = new Map((volumes ?? []).map((v) => [v.id, v]));
+
+    const excerpts: PriorExcerpt[] = hits.map((h, i) => {
+      const volume = h.volume_id ? volumeInfo.get(h.volume_id) : undefined;
+      return {
+        ref: `E${i + 1}`,
+        chunk_id: h.id,
+        source_type: h.source_type === "volume" ? "volume" : "ocr",
+        file_id: h.file_id,
+        file_name: h.file_id ? fileNames.get(h.file_id) ?? null : null,
+        volume_id: h.volume_id,
+        volume_number: volume?.volume_number ?? null,
+        volume_title: volume?.title ?? null,
+        page_start: h.page_start,
+        page_end: h.page_end,
+        page_estimated: h.page_estimated,
+        text: h.chunk_text,
+      };
+    });
+
+    // ── Comparison ──
+    const input = formatContradictionInput(statements, excerpts);
+    const person = [name ?? `Speaker ${speaker.substring(1)}`, label?.role].filter(Boolean).join(", ");
+    const userMessage = `## Person: ${person}
+
+### Statements at the hearing:
+${sandboxUserInput("HEARING_STATEMENTS", input.statements)}
+
+### Excerpts from the case file:
+${sandboxUserInput("CASE_FILE_EXCERPTS", input.excerpts)}
+
+List the contradictions between this person's statements at the hearing and their earlier statements in the excerpts.`;
+
+    const result = await callJSON("transcript-contradictions", [
+      { role: "system", content: CONTRADICTIONS_PROMPT },
+      { role: "user", content: userMessage },
+    ], CONTRADICTIONS_SCHEMA, {
+      timeoutMs: AI_TIMEOUT_MS,
+      userId,
+      usageMetadata: { caseId, transcriptionId },
+    });
+
+    const contradictions = normalizeContradictions(result.json, statements.slice(0, input.included), excerpts);
+
+    log("transcript-contradictions", "Analysis complete", {
+      requestId,
+      statements: input.included,
+      excerpts: excerpts.length,
+      contradictions: contradictions.length,
+      ms: result.latency_ms,
+    });
+
+    return jsonRes({
+      contradictions,
+      statements: input.included,
+      excerpts: excerpts.length,
+      indexed: true,
+      model_used: result.model_used,
+    }, 200);
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaErrorResponse(error, corsHeaders);
+    }
+    err("transcript-contradictions", "Request failed", {
+      requestId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return jsonRes({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
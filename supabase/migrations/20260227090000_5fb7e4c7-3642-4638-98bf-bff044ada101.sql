@@ -0,0 +1,166 @@
+-- ============================================================
+-- case_chunks: Per-case semantic index of the case's own material
+-- ============================================================
+-- Problem: Only knowledge_base and legal_practice_kb are embedded.
+-- OCR results, audio transcriptions and case volume text can only be
+-- read end to end, which makes a multi-volume criminal file unusable.
+--
+-- Solution: Chunk each source with the shared chunker, embed the
+-- chunks, and keep a locator per chunk (volume page range or
+-- transcript time range). Built and queried by the case-search
+-- edge function.
+-- ============================================================
+
+CREATE TABLE public.case_chunks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  source_type text NOT NULL CHECK (source_type IN ('ocr', 'transcript', 'volume')),
+  -- ocr_results.id / audio_transcriptions.id / case_volumes.id
+  source_id uuid NOT NULL,
+  file_id uuid REFERENCES public.case_files(id) ON DELETE CASCADE,
+  volume_id uuid REFERENCES public.case_volumes(id) ON DELETE CASCADE,
+  chunk_index integer NOT NULL DEFAULT 0,
+  chunk_type text NOT NULL DEFAULT 'full_text',
+  chunk_mode text NOT NULL DEFAULT 'fixed_window' CHECK (chunk_mode IN ('fixed_window', 'court_decision')),
+  chunk_text text NOT NULL,
+  char_start integer NOT NULL DEFAULT 0,
+  char_end integer NOT NULL DEFAULT 0,
+  label text,
+  page_start integer,
+  page_end integer,
+  page_estimated boolean NOT NULL DEFAULT false,
+  time_start_seconds integer,
+  time_end_seconds integer,
+  chunk_hash text,
+  -- Hash of the whole source text, to skip unchanged sources on re-index
+  source_hash text NOT NULL,
+  embedding vector(768),
+  fts tsvector GENERATED ALWAYS AS (to_tsvector('simple', chunk_text)) STORED,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT unique_case_source_chunk UNIQUE (source_type, source_id, chunk_index)
+);
+
+ALTER TABLE public.case_chunks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case participants can read case chunks"
+  ON public.case_chunks
+  FOR SELECT
+  TO authenticated
+  USING (public.user_can_access_case_as(auth.uid(), case_id));
+
+-- Writes only through the case-search edge function
+CREATE POLICY "Service role full access"
+  ON public.case_chunks
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- ─── INDEXES ────────────────────────────────────────────────────────
+-- No HNSW index: every query is scoped to one case (a few thousand
+-- chunks at most), where an exact scan beats a post-filtered ANN scan.
+
+CREATE INDEX idx_case_chunks_case_id
+  ON public.case_chunks (case_id, source_type);
+
+CREATE INDEX idx_case_chunks_source
+  ON public.case_chunks (source_id);
+
+CREATE INDEX idx_case_chunks_fts
+  ON public.case_chunks
+  USING gin (fts);
+
+-- ─── SEARCH RPC ─────────────────────────────────────────────────────
+-- Semantic hits above the threshold plus keyword hits, one case only.
+-- Either argument may be NULL (keyword-only when embeddings fail).
+
+CREATE OR REPLACE FUNCTION public.search_case_chunks(
+  p_case_id uuid,
+  query_embedding vector(768) DEFAULT NULL,
+  query_text text DEFAULT NULL,
+  match_count integer DEFAULT 20,
+  match_threshold double precision DEFAULT 0.25
+)
+RETURNS TABLE(
+  id uuid,
+  source_type text,
+  source_id uuid,
+  file_id uuid,
+  volume_id uuid,
+  chunk_index integer,
+  label text,
+  chunk_text text,
+  page_start integer,
+  page_end integer,
+  page_estimated boolean,
+  time_start_seconds integer,
+  time_end_seconds integer,
+  similarity double precision,
+  keyword_match boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  q text := NULLIF(btrim(COALESCE(query_text, '')), '');
+  lim integer := LEAST(GREATEST(COALESCE(match_count, 20), 1), 50);
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF auth.uid() IS NOT NULL AND NOT public.user_can_access_case_as(auth.uid(), p_case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  WITH semantic AS (
+    SELECT cc.id AS chunk_id, (1 - (cc.embedding <=> query_embedding))::float AS sim
+    FROM public.case_chunks cc
+    WHERE query_embedding IS NOT NULL
+      AND cc.case_id = p_case_id
+      AND cc.embedding IS NOT NULL
+    ORDER BY cc.embedding <=> query_embedding
+    LIMIT lim * 2
+  ),
+  keyword AS (
+    SELECT cc.id AS chunk_id
+    FROM public.case_chunks cc
+    WHERE q IS NOT NULL
+      AND length(q) >= 2
+      AND cc.case_id = p_case_id
+      AND (
+        cc.fts @@ plainto_tsquery('simple', q)
+        OR position(lower(q) IN lower(cc.chunk_text)) > 0
+      )
+    LIMIT lim * 2
+  )
+  SELECT
+    cc.id,
+    cc.source_type,
+    cc.source_id,
+    cc.file_id,
+    cc.volume_id,
+    cc.chunk_index,
+    cc.label,
+    cc.chunk_text,
+    cc.page_start,
+    cc.page_end,
+    cc.page_estimated,
+    cc.time_start_seconds,
+    cc.time_end_seconds,
+    COALESCE(s.sim, 0)::float AS similarity,
+    (k.chunk_id IS NOT NULL) AS keyword_match
+  FROM public.case_chunks cc
+  LEFT JOIN semantic s ON s.chunk_id = cc.id
+  LEFT JOIN keyword k ON k.chunk_id = cc.id
+  WHERE cc.case_id = p_case_id
+    AND ((s.chunk_id IS NOT NULL AND s.sim > match_threshold) OR k.chunk_id IS NOT NULL)
+  ORDER BY COALESCE(s.sim, 0) + CASE WHEN k.chunk_id IS NOT NULL THEN 0.1 ELSE 0 END DESC
+  LIMIT lim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_case_chunks(uuid, vector, text, integer, double precision) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.search_case_chunks(uuid, vector, text, integer, double precision) TO service_role;
@@ -0,0 +1,47 @@
+-- ============================================================
+-- Page-anchored evidence citations
+-- ============================================================
+-- Problem: Volume OCR is stored as one text blob, so multi-agent
+-- findings can only cite pages as free text ("p. 15-17") that
+-- nobody can verify or open.
+--
+-- Solution: ocr-process stores each volume page separately
+-- (case_volume_pages). Agents cite {volume_number, page} pairs,
+-- which multi-agent-analyze checks against the volume before the
+-- finding or evidence item is saved to page_anchors.
+-- ============================================================
+
+CREATE TABLE public.case_volume_pages (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  volume_id uuid NOT NULL REFERENCES public.case_volumes(id) ON DELETE CASCADE,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  page_number integer NOT NULL CHECK (page_number > 0),
+  ocr_text text NOT NULL DEFAULT '',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT unique_volume_page UNIQUE (volume_id, page_number)
+);
+
+CREATE INDEX idx_case_volume_pages_case
+  ON public.case_volume_pages (case_id);
+
+ALTER TABLE public.case_volume_pages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view pages of accessible volumes"
+  ON public.case_volume_pages
+  FOR SELECT
+  USING (public.user_can_access_case(case_id));
+
+-- Writes only through ocr-process
+CREATE POLICY "Service role full access"
+  ON public.case_volume_pages
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- [{"volume_number": 2, "page": 15}, ...]
+ALTER TABLE public.agent_findings
+  ADD COLUMN page_anchors jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.evidence_registry
+  ADD COLUMN page_anchors jsonb NOT NULL DEFAULT '[]'::jsonb;
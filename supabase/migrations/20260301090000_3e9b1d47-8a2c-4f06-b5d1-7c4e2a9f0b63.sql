@@ -0,0 +1,203 @@
+-- ============================================================
+-- Monthly AI spend quotas per user and per team
+-- ============================================================
+-- Problem: api_usage only records spend (and edge functions using
+-- the service client record it with user_id NULL), so one user or
+-- one team can burn through the gateway balance unnoticed.
+--
+-- Solution: ai_quotas holds monthly USD / token limits for a user
+-- or a whole team, optionally for a single edge function. The AI
+-- router records every call in api_usage with the caller's id and
+-- checks check_ai_quota() before the next one. Team leaders set
+-- limits for their team and its members; a Telegram alert goes
+-- out once per month when a quota passes alert_threshold.
+-- ============================================================
+
+ALTER TABLE public.api_usage
+  ADD COLUMN function_name text;
+
+CREATE INDEX idx_api_usage_user_created
+  ON public.api_usage (user_id, created_at DESC);
+
+CREATE TABLE public.ai_quotas (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope text NOT NULL CHECK (scope IN ('user', 'team')),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE,
+  team_id uuid REFERENCES public.teams(id) ON DELETE CASCADE,
+  -- NULL = all AI functions together
+  function_name text,
+  monthly_usd_limit numeric(10, 2) CHECK (monthly_usd_limit >= 0),
+  monthly_token_limit bigint CHECK (monthly_token_limit >= 0),
+  alert_threshold numeric(3, 2) NOT NULL DEFAULT 0.80
+    CHECK (alert_threshold > 0 AND alert_threshold <= 1),
+  -- First day of the month the threshold alert was last sent for
+  last_alert_period date,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT ai_quotas_target CHECK (
+    (scope = 'user' AND user_id IS NOT NULL AND team_id IS NULL)
+    OR (scope = 'team' AND team_id IS NOT NULL AND user_id IS NULL)
+  ),
+  CONSTRAINT ai_quotas_has_limit CHECK (
+    monthly_usd_limit IS NOT NULL OR monthly_token_limit IS NOT NULL
+  )
+);
+
+CREATE UNIQUE INDEX idx_ai_quotas_unique_target
+  ON public.ai_quotas (scope, COALESCE(user_id, team_id), COALESCE(function_name, '*'));
+
+CREATE TRIGGER update_ai_quotas_updated_at
+  BEFORE UPDATE ON public.ai_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ai_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage all quotas"
+  ON public.ai_quotas
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Team leaders can manage their team quotas"
+  ON public.ai_quotas
+  FOR ALL
+  USING (
+    (scope = 'team' AND public.is_team_leader(auth.uid(), team_id))
+    OR (scope = 'user' AND user_id IN (SELECT public.get_team_member_ids(auth.uid())))
+  )
+  WITH CHECK (
+    (scope = 'team' AND public.is_team_leader(auth.uid(), team_id))
+    OR (scope = 'user' AND user_id IN (SELECT public.get_team_member_ids(auth.uid())))
+  );
+
+CREATE POLICY "Users can view quotas that apply to them"
+  ON public.ai_quotas
+  FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR team_id IN (SELECT tm.team_id FROM public.team_members tm WHERE tm.user_id = auth.uid())
+  );
+
+CREATE POLICY "Service role full access"
+  ON public.ai_quotas
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Spend counted against one quota in the current calendar month (UTC).
+-- A team quota covers its members and its leader.
+CREATE OR REPLACE FUNCTION public.ai_quota_spend(_quota_id uuid)
+RETURNS TABLE (usd_used numeric, tokens_used bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    COALESCE(SUM(u.estimated_cost), 0)::numeric,
+    COALESCE(SUM(u.tokens_used), 0)::bigint
+  FROM public.ai_quotas q
+  JOIN public.api_usage u
+    ON u.created_at >= date_trunc('month', now())
+   AND (q.function_name IS NULL OR u.function_name = q.function_name)
+   AND u.user_id IN (
+     SELECT q.user_id WHERE q.scope = 'user'
+     UNION
+     SELECT tm.user_id FROM public.team_members tm WHERE q.scope = 'team' AND tm.team_id = q.team_id
+     UNION
+     SELECT t.leader_id FROM public.teams t WHERE q.scope = 'team' AND t.id = q.team_id
+   )
+  WHERE q.id = _quota_id
+$$;
+
+REVOKE ALL ON FUNCTION public.ai_quota_spend(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_quota_spend(uuid) TO service_role;
+
+-- Quotas that apply to a call of _function_name by _user_id, with spend.
+-- Called by the AI router (service role) before every model call.
+CREATE OR REPLACE FUNCTION public.check_ai_quota(_user_id uuid, _function_name text)
+RETURNS TABLE (
+  quota_id uuid,
+  scope text,
+  user_id uuid,
+  team_id uuid,
+  team_leader_id uuid,
+  function_name text,
+  monthly_usd_limit numeric,
+  monthly_token_limit bigint,
+  alert_threshold numeric,
+  last_alert_period date,
+  usd_used numeric,
+  tokens_used bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT q.id, q.scope, q.user_id, q.team_id, t.leader_id, q.function_name,
+         q.monthly_usd_limit, q.monthly_token_limit, q.alert_threshold, q.last_alert_period,
+         s.usd_used, s.tokens_used
+  FROM public.ai_quotas q
+  LEFT JOIN public.teams t ON t.id = q.team_id
+  CROSS JOIN LATERAL public.ai_quota_spend(q.id) s
+  WHERE (q.function_name IS NULL OR q.function_name = _function_name)
+    AND (
+      q.user_id = _user_id
+      OR q.team_id IN (
+        SELECT tm.team_id FROM public.team_members tm WHERE tm.user_id = _user_id
+        UNION
+        SELECT t2.id FROM public.teams t2 WHERE t2.leader_id = _user_id
+      )
+    )
+$$;
+
+REVOKE ALL ON FUNCTION public.check_ai_quota(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_ai_quota(uuid, text) TO service_role;
+
+-- Quota admin screen: every quota of a team and of its members, with spend
+CREATE OR REPLACE FUNCTION public.get_team_ai_quotas(_team_id uuid)
+RETURNS TABLE (
+  quota_id uuid,
+  scope text,
+  user_id uuid,
+  function_name text,
+  monthly_usd_limit numeric,
+  monthly_token_limit bigint,
+  alert_threshold numeric,
+  usd_used numeric,
+  tokens_used bigint
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_team_leader(auth.uid(), _team_id)
+     AND NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT q.id, q.scope, q.user_id, q.function_name,
+         q.monthly_usd_limit, q.monthly_token_limit, q.alert_threshold,
+         s.usd_used, s.tokens_used
+  FROM public.ai_quotas q
+  CROSS JOIN LATERAL public.ai_quota_spend(q.id) s
+  WHERE q.team_id = _team_id
+     OR q.user_id IN (
+       SELECT tm.user_id FROM public.team_members tm WHERE tm.team_id = _team_id
+     )
+  ORDER BY q.scope DESC, q.user_id, q.function_name NULLS FIRST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_ai_quotas(uuid) TO authenticated, service_role;
@@ -0,0 +1,115 @@
+-- ============================================================
+-- Versioned model pricing registry
+-- ============================================================
+-- Problem: ocr-process, the AI router and several functions each
+-- priced model calls with their own constants (or a flat guess),
+-- so api_usage costs, UsageMonitor and TeamStats disagreed, and a
+-- price change in code silently changed how new rows compared to
+-- old ones.
+--
+-- Solution: model_pricing holds one row per model and price
+-- period; a row applies from effective_from until the next row
+-- for the same model. Edge functions price each call with the
+-- period in force at call time and keep its id in
+-- api_usage.pricing_id. Periods that have started are immutable,
+-- so past costs never change; admins schedule new ones.
+-- ============================================================
+
+CREATE TABLE public.model_pricing (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  model_name text NOT NULL,
+  -- USD per 1K tokens
+  input_per_1k numeric(12, 8) NOT NULL CHECK (input_per_1k >= 0),
+  output_per_1k numeric(12, 8) NOT NULL CHECK (output_per_1k >= 0),
+  effective_from timestamptz NOT NULL DEFAULT now(),
+  note text,
+  created_by uuid,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT unique_model_price_period UNIQUE (model_name, effective_from)
+);
+
+ALTER TABLE public.model_pricing ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view pricing"
+  ON public.model_pricing
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can add price periods"
+  ON public.model_pricing
+  FOR INSERT
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- Only periods that have not started yet may change
+CREATE POLICY "Admins can edit future price periods"
+  ON public.model_pricing
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'admin'::app_role) AND effective_from > now())
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role) AND effective_from > now());
+
+CREATE POLICY "Admins can delete future price periods"
+  ON public.model_pricing
+  FOR DELETE
+  USING (public.has_role(auth.uid(), 'admin'::app_role) AND effective_from > now());
+
+CREATE POLICY "Service role full access"
+  ON public.model_pricing
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Prices previously hardcoded in ocr-process / openai-router
+INSERT INTO public.model_pricing (model_name, input_per_1k, output_per_1k, effective_from, note) VALUES
+  ('google/gemini-2.5-flash',       0.000075, 0.0003,  '2026-01-01T00:00:00Z', 'initial'),
+  ('google/gemini-2.5-flash-lite',  0.000025, 0.0001,  '2026-01-01T00:00:00Z', 'initial'),
+  ('google/gemini-2.5-pro',         0.00125,  0.01,    '2026-01-01T00:00:00Z', 'initial'),
+  ('google/gemini-3-flash-preview', 0.0001,   0.0004,  '2026-01-01T00:00:00Z', 'initial'),
+  ('google/gemini-3-pro-preview',   0.0015,   0.01,    '2026-01-01T00:00:00Z', 'initial'),
+  ('openai/gpt-5',                  0.005,    0.015,   '2026-01-01T00:00:00Z', 'initial'),
+  ('openai/gpt-5-mini',             0.0004,   0.0016,  '2026-01-01T00:00:00Z', 'initial');
+
+ALTER TABLE public.api_usage
+  ADD COLUMN pricing_id uuid REFERENCES public.model_pricing(id) ON DELETE SET NULL;
+
+-- TeamStats: this month's AI spend per member, summed the same way as
+-- UsageMonitor (api_usage.estimated_cost)
+CREATE OR REPLACE FUNCTION public.get_team_ai_usage(_team_id uuid)
+RETURNS TABLE (
+  user_id uuid,
+  total_requests bigint,
+  total_tokens bigint,
+  total_cost numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF auth.uid() IS NOT NULL
+     AND NOT public.is_team_leader(auth.uid(), _team_id)
+     AND NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  SELECT u.user_id,
+         COUNT(*)::bigint,
+         COALESCE(SUM(u.tokens_used), 0)::bigint,
+         COALESCE(SUM(u.estimated_cost), 0)::numeric
+  FROM public.api_usage u
+  WHERE u.created_at >= date_trunc('month', now())
+    AND u.user_id IN (
+      SELECT tm.user_id FROM public.team_members tm WHERE tm.team_id = _team_id
+    )
+  GROUP BY u.user_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_team_ai_usage(uuid) TO authenticated, service_role;
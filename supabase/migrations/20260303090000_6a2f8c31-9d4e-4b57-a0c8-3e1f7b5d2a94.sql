@@ -0,0 +1,617 @@
+-- ============================================================
+-- Client portal: read-only case view and document exchange
+-- ============================================================
+-- Problem: the client role has no UI of its own, and the case
+-- policies written for "participants" match on client_id, so a
+-- client could read everything on the case, including AI analyses
+-- and internal comments.
+--
+-- Solution: a portal client is the client of a case that is run by
+-- someone else (lawyer_id set and different from client_id). Cases
+-- a user opened for themselves (client_id = creator, lawyer_id NULL)
+-- keep working as before. Portal clients
+--   - see their cases only through get_client_portal_cases()
+--     (status, court date, lawyer; no facts, notes or strategy);
+--   - see case files only once the lawyer shared them;
+--   - upload into the quarantined client-uploads bucket, which the
+--     lawyer reviews before anything reaches case_files;
+--   - message the lawyer in case_client_messages, kept apart from
+--     the internal case_comments.
+-- RESTRICTIVE policies shut portal clients out of every internal
+-- table, so permissive policies that match on client_id no longer
+-- leak anything.
+-- ============================================================
+
+-- 1. Helpers
+CREATE OR REPLACE FUNCTION public.is_case_portal_client(_user_id uuid, _case_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cases c
+    WHERE c.id = _case_id
+      AND c.client_id = _user_id
+      AND c.lawyer_id IS NOT NULL
+      AND c.lawyer_id <> _user_id
+  )
+  AND NOT public.has_role(_user_id, 'admin'::app_role);
+$$;
+
+-- Lawyer, team leader or admin on the case; never its portal client
+CREATE OR REPLACE FUNCTION public.is_case_staff(_user_id uuid, _case_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.user_can_access_case_as(_user_id, _case_id)
+    AND NOT public.is_case_portal_client(_user_id, _case_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_file_portal_client(_user_id uuid, _file_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.case_files cf
+    WHERE cf.id = _file_id
+      AND public.is_case_portal_client(_user_id, cf.case_id)
+  );
+$$;
+
+-- case-files objects are stored as <caseId>/<file> or legacy case-<caseId>/<file>
+CREATE OR REPLACE FUNCTION public.is_object_portal_client(_user_id uuid, _object_name text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.cases c
+    WHERE c.id::text = replace(split_part(_object_name, '/', 1), 'case-', '')
+      AND public.is_case_portal_client(_user_id, c.id)
+  );
+$$;
+
+-- 2. Sharing case files with the client
+ALTER TABLE public.case_files
+  ADD COLUMN shared_with_client boolean NOT NULL DEFAULT false,
+  ADD COLUMN shared_at timestamptz;
+
+CREATE POLICY "Portal clients can view shared files"
+  ON public.case_files
+  FOR SELECT
+  TO authenticated
+  USING (
+    deleted_at IS NULL
+    AND shared_with_client
+    AND public.is_case_portal_client(auth.uid(), case_id)
+  );
+
+CREATE POLICY "Portal clients only see shared files"
+  ON public.case_files
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (shared_with_client OR NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot add case files"
+  ON public.case_files
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot change case files"
+  ON public.case_files
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients only download shared files"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id <> 'case-files'
+    OR NOT public.is_object_portal_client(auth.uid(), name)
+    OR EXISTS (
+      SELECT 1
+      FROM public.case_files cf
+      WHERE cf.storage_path = name
+        AND cf.shared_with_client
+        AND cf.deleted_at IS NULL
+    )
+  );
+
+CREATE POLICY "Portal clients cannot write case files storage"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id <> 'case-files' OR NOT public.is_object_portal_client(auth.uid(), name));
+
+CREATE POLICY "Portal clients cannot update case files storage"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id <> 'case-files' OR NOT public.is_object_portal_client(auth.uid(), name));
+
+CREATE POLICY "Portal clients cannot delete case files storage"
+  ON storage.objects
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id <> 'case-files' OR NOT public.is_object_portal_client(auth.uid(), name));
+
+-- 3. Internal case data is never visible to portal clients
+CREATE POLICY "Portal clients use get_client_portal_cases"
+  ON public.cases
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), id));
+
+CREATE POLICY "Portal clients cannot access AI analysis"
+  ON public.ai_analysis
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access agent runs"
+  ON public.agent_analysis_runs
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access agent findings"
+  ON public.agent_findings
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access aggregated reports"
+  ON public.aggregated_reports
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access evidence registry"
+  ON public.evidence_registry
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access case comments"
+  ON public.case_comments
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access case volumes"
+  ON public.case_volumes
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access volume pages"
+  ON public.case_volume_pages
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access generated documents"
+  ON public.generated_documents
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients cannot access OCR results"
+  ON public.ocr_results
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_file_portal_client(auth.uid(), file_id))
+  WITH CHECK (NOT public.is_file_portal_client(auth.uid(), file_id));
+
+CREATE POLICY "Portal clients cannot access transcriptions"
+  ON public.audio_transcriptions
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_file_portal_client(auth.uid(), file_id))
+  WITH CHECK (NOT public.is_file_portal_client(auth.uid(), file_id));
+
+-- The per-case search index holds the full OCR, volume and transcript text
+CREATE POLICY "Portal clients cannot access case chunks"
+  ON public.case_chunks
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (NOT public.is_case_portal_client(auth.uid(), case_id))
+  WITH CHECK (NOT public.is_case_portal_client(auth.uid(), case_id));
+
+-- 4. Quarantined client uploads
+CREATE TABLE public.client_uploads (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- <caseId>/<clientId>/<uuid>.<ext> in the client-uploads bucket
+  storage_path text NOT NULL UNIQUE,
+  original_filename text NOT NULL,
+  file_type text,
+  file_size bigint,
+  note text CHECK (char_length(note) <= 2000),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  review_note text,
+  -- Set once the lawyer accepts the upload into the case
+  case_file_id uuid REFERENCES public.case_files(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_client_uploads_case_status
+  ON public.client_uploads (case_id, status, created_at DESC);
+
+ALTER TABLE public.client_uploads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Clients and case staff can view client uploads"
+  ON public.client_uploads
+  FOR SELECT
+  TO authenticated
+  USING (client_id = auth.uid() OR public.is_case_staff(auth.uid(), case_id));
+
+CREATE POLICY "Portal clients can upload to their cases"
+  ON public.client_uploads
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    client_id = auth.uid()
+    AND status = 'pending'
+    AND reviewed_by IS NULL
+    AND case_file_id IS NULL
+    AND public.is_case_portal_client(auth.uid(), case_id)
+  );
+
+CREATE POLICY "Case staff can review client uploads"
+  ON public.client_uploads
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), case_id))
+  WITH CHECK (public.is_case_staff(auth.uid(), case_id));
+
+CREATE POLICY "Clients can withdraw pending uploads"
+  ON public.client_uploads
+  FOR DELETE
+  TO authenticated
+  USING (client_id = auth.uid() AND status = 'pending');
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'client-uploads',
+  'client-uploads',
+  false,
+  52428800, -- 50MB limit
+  ARRAY['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'image/jpeg', 'image/png', 'image/tiff', 'audio/mpeg', 'audio/wav', 'audio/mp4', 'audio/ogg']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Objects follow their client_uploads row: the row is inserted first,
+-- so the client can only write paths it registered itself.
+CREATE POLICY "Clients can upload registered quarantine files"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'client-uploads'
+    AND EXISTS (
+      SELECT 1
+      FROM public.client_uploads u
+      WHERE u.storage_path = name
+        AND u.client_id = auth.uid()
+        AND u.status = 'pending'
+    )
+  );
+
+CREATE POLICY "Clients and case staff can read quarantine files"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'client-uploads'
+    AND EXISTS (SELECT 1 FROM public.client_uploads u WHERE u.storage_path = name)
+  );
+
+CREATE POLICY "Case staff and uploaders can delete quarantine files"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'client-uploads'
+    AND EXISTS (
+      SELECT 1
+      FROM public.client_uploads u
+      WHERE u.storage_path = name
+        AND (
+          public.is_case_staff(auth.uid(), u.case_id)
+          OR (u.client_id = auth.uid() AND u.status = 'pending')
+        )
+    )
+  );
+
+-- 5. Client <-> lawyer messages, separate from internal case_comments
+CREATE TABLE public.case_client_messages (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (char_length(btrim(body)) BETWEEN 1 AND 5000),
+  read_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_client_messages_case_created
+  ON public.case_client_messages (case_id, created_at);
+
+ALTER TABLE public.case_client_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case participants can view client messages"
+  ON public.case_client_messages
+  FOR SELECT
+  TO authenticated
+  USING (public.user_can_access_case_as(auth.uid(), case_id));
+
+CREATE POLICY "Case participants can send client messages"
+  ON public.case_client_messages
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND read_at IS NULL
+    AND public.user_can_access_case_as(auth.uid(), case_id)
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.case_client_messages;
+
+-- 6. RPCs
+-- Case search runs SECURITY DEFINER past the case_chunks policies, so it
+-- checks for staff itself
+CREATE OR REPLACE FUNCTION public.search_case_chunks(
+  p_case_id uuid,
+  query_embedding vector(768) DEFAULT NULL,
+  query_text text DEFAULT NULL,
+  match_count integer DEFAULT 20,
+  match_threshold double precision DEFAULT 0.25
+)
+RETURNS TABLE(
+  id uuid,
+  source_type text,
+  source_id uuid,
+  file_id uuid,
+  volume_id uuid,
+  chunk_index integer,
+  label text,
+  chunk_text text,
+  page_start integer,
+  page_end integer,
+  page_estimated boolean,
+  time_start_seconds integer,
+  time_end_seconds integer,
+  similarity double precision,
+  keyword_match boolean
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  q text := NULLIF(btrim(COALESCE(query_text, '')), '');
+  lim integer := LEAST(GREATEST(COALESCE(match_count, 20), 1), 50);
+BEGIN
+  IF auth.uid() IS NULL AND COALESCE(auth.role(), '') <> 'service_role' THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF auth.uid() IS NOT NULL AND NOT public.is_case_staff(auth.uid(), p_case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  RETURN QUERY
+  WITH semantic AS (
+    SELECT cc.id AS chunk_id, (1 - (cc.embedding <=> query_embedding))::float AS sim
+    FROM public.case_chunks cc
+    WHERE query_embedding IS NOT NULL
+      AND cc.case_id = p_case_id
+      AND cc.embedding IS NOT NULL
+    ORDER BY cc.embedding <=> query_embedding
+    LIMIT lim * 2
+  ),
+  keyword AS (
+    SELECT cc.id AS chunk_id
+    FROM public.case_chunks cc
+    WHERE q IS NOT NULL
+      AND length(q) >= 2
+      AND cc.case_id = p_case_id
+      AND (
+        cc.fts @@ plainto_tsquery('simple', q)
+        OR position(lower(q) IN lower(cc.chunk_text)) > 0
+      )
+    LIMIT lim * 2
+  )
+  SELECT
+    cc.id,
+    cc.source_type,
+    cc.source_id,
+    cc.file_id,
+    cc.volume_id,
+    cc.chunk_index,
+    cc.label,
+    cc.chunk_text,
+    cc.page_start,
+    cc.page_end,
+    cc.page_estimated,
+    cc.time_start_seconds,
+    cc.time_end_seconds,
+    COALESCE(s.sim, 0)::float AS similarity,
+    (k.chunk_id IS NOT NULL) AS keyword_match
+  FROM public.case_chunks cc
+  LEFT JOIN semantic s ON s.chunk_id = cc.id
+  LEFT JOIN keyword k ON k.chunk_id = cc.id
+  WHERE cc.case_id = p_case_id
+    AND ((s.chunk_id IS NOT NULL AND s.sim > match_threshold) OR k.chunk_id IS NOT NULL)
+  ORDER BY COALESCE(s.sim, 0) + CASE WHEN k.chunk_id IS NOT NULL THEN 0.1 ELSE 0 END DESC
+  LIMIT lim;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_client_portal_cases()
+RETURNS TABLE (
+  id uuid,
+  case_number text,
+  title text,
+  status case_status,
+  current_stage text,
+  court_name text,
+  court_date timestamptz,
+  lawyer_name text,
+  updated_at timestamptz,
+  shared_files bigint,
+  unread_messages bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    c.case_number,
+    c.title,
+    c.status,
+    c.current_stage,
+    c.court_name,
+    c.court_date,
+    COALESCE(p.full_name, p.username),
+    c.updated_at,
+    (SELECT count(*) FROM public.case_files cf
+      WHERE cf.case_id = c.id AND cf.shared_with_client AND cf.deleted_at IS NULL),
+    (SELECT count(*) FROM public.case_client_messages m
+      WHERE m.case_id = c.id AND m.sender_id <> auth.uid() AND m.read_at IS NULL)
+  FROM public.cases c
+  LEFT JOIN public.profiles p ON p.id = c.lawyer_id
+  WHERE c.client_id = auth.uid()
+    AND c.deleted_at IS NULL
+    AND public.is_case_portal_client(auth.uid(), c.id)
+  ORDER BY c.court_date ASC NULLS LAST, c.updated_at DESC;
+$$;
+
+-- Assign (or with an empty username, remove) the portal client of a case.
+-- The caller becomes the case lawyer if the case has none yet.
+CREATE OR REPLACE FUNCTION public.set_case_client(_case_id uuid, _username text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _client_id uuid;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.is_case_staff(auth.uid(), _case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF COALESCE(btrim(_username), '') = '' THEN
+    UPDATE public.cases
+    SET client_id = NULL,
+        lawyer_id = COALESCE(lawyer_id, auth.uid())
+    WHERE id = _case_id;
+    RETURN NULL;
+  END IF;
+
+  SELECT p.id INTO _client_id
+  FROM public.profiles p
+  WHERE lower(p.username) = lower(btrim(_username))
+     OR lower(p.email) = lower(btrim(_username))
+  LIMIT 1;
+
+  IF _client_id IS NULL THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  IF NOT public.has_role(_client_id, 'client'::app_role) THEN
+    RAISE EXCEPTION 'User is not a client';
+  END IF;
+
+  IF _client_id = auth.uid()
+     OR EXISTS (SELECT 1 FROM public.cases WHERE id = _case_id AND lawyer_id = _client_id) THEN
+    RAISE EXCEPTION 'The case lawyer cannot be its client';
+  END IF;
+
+  UPDATE public.cases
+  SET client_id = _client_id,
+      lawyer_id = COALESCE(lawyer_id, auth.uid())
+  WHERE id = _case_id;
+
+  RETURN _client_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.mark_case_messages_read(_case_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.user_can_access_case_as(auth.uid(), _case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  UPDATE public.case_client_messages
+  SET read_at = now()
+  WHERE case_id = _case_id
+    AND sender_id <> auth.uid()
+    AND read_at IS NULL;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_client_portal_cases() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_case_client(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.mark_case_messages_read(uuid) TO authenticated;
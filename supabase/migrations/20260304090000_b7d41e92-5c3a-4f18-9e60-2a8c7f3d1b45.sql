@@ -0,0 +1,308 @@
+-- =============================================================================
+-- PRACTICE OUTCOME ANALYTICS
+-- Outcome rates over legal_practice_kb by court, instance, applied article and
+-- year, plus drill-down and "similar cases" lookups. All aggregation happens
+-- here; the client only renders counts.
+-- =============================================================================
+
+-- -----------------------------------------------------------------------------
+-- Views (security_invoker: the KB read policy still applies)
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE VIEW public.legal_practice_outcomes
+WITH (security_invoker = true)
+AS
+SELECT
+  lpk.id,
+  lpk.title,
+  NULLIF(btrim(lpk.court_name), '') AS court_name,
+  lpk.court_type,
+  lpk.practice_category,
+  lpk.outcome,
+  lpk.decision_date,
+  EXTRACT(YEAR FROM lpk.decision_date)::int AS decision_year,
+  lpk.case_number_anonymized
+FROM public.legal_practice_kb lpk
+WHERE lpk.is_active = true;
+
+-- applied_articles comes in two shapes:
+--   legacy:   [{"code": "criminal_code", "articles": ["104", "105"]}]
+--   enriched: {"sources": [{"act": "...", "articles": [{"article": "104", "part": "1"}]}]}
+-- Both are flattened to one row per (decision, act, article number).
+CREATE OR REPLACE VIEW public.legal_practice_article_refs
+WITH (security_invoker = true)
+AS
+WITH raw AS (
+  SELECT lpk.id AS kb_id, src->>'code' AS act, art
+  FROM public.legal_practice_kb lpk
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(lpk.applied_articles) = 'array' THEN lpk.applied_articles ELSE '[]'::jsonb END
+  ) AS src
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(src->'articles') = 'array' THEN src->'articles' ELSE '[]'::jsonb END
+  ) AS art
+  WHERE lpk.is_active = true
+
+  UNION ALL
+
+  SELECT lpk.id AS kb_id, src->>'act' AS act, art
+  FROM public.legal_practice_kb lpk
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(lpk.applied_articles->'sources') = 'array' THEN lpk.applied_articles->'sources' ELSE '[]'::jsonb END
+  ) AS src
+  CROSS JOIN LATERAL jsonb_array_elements(
+    CASE WHEN jsonb_typeof(src->'articles') = 'array' THEN src->'articles' ELSE '[]'::jsonb END
+  ) AS art
+  WHERE lpk.is_active = true
+)
+SELECT DISTINCT
+  kb_id,
+  NULLIF(btrim(act), '') AS act,
+  substring(
+    CASE jsonb_typeof(art) WHEN 'object' THEN art->>'article' ELSE art#>>'{}' END
+    FROM '^\s*(\d+(?:\.\d+)?)'
+  ) AS article
+FROM raw
+WHERE substring(
+  CASE jsonb_typeof(art) WHEN 'object' THEN art->>'article' ELSE art#>>'{}' END
+  FROM '^\s*(\d+(?:\.\d+)?)'
+) IS NOT NULL;
+
+GRANT SELECT ON public.legal_practice_outcomes TO authenticated;
+GRANT SELECT ON public.legal_practice_article_refs TO authenticated;
+
+-- -----------------------------------------------------------------------------
+-- Shared filter: every analytics RPC narrows the same way.
+-- _court_name = '' selects decisions without a court name.
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.practice_outcome_scope(
+  _category practice_category DEFAULT NULL,
+  _court_type court_type DEFAULT NULL,
+  _court_name text DEFAULT NULL,
+  _year_from int DEFAULT NULL,
+  _year_to int DEFAULT NULL,
+  _article text DEFAULT NULL
+)
+RETURNS SETOF public.legal_practice_outcomes
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT o.*
+  FROM public.legal_practice_outcomes o
+  WHERE (_category IS NULL OR o.practice_category = _category)
+    AND (_court_type IS NULL OR o.court_type = _court_type)
+    AND (_court_name IS NULL OR COALESCE(o.court_name, '') = _court_name)
+    AND (_year_from IS NULL OR o.decision_year >= _year_from)
+    AND (_year_to IS NULL OR o.decision_year <= _year_to)
+    AND (
+      _article IS NULL
+      OR EXISTS (
+        SELECT 1 FROM public.legal_practice_article_refs r
+        WHERE r.kb_id = o.id AND r.article = _article
+      )
+    );
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Outcome counts grouped by one dimension: court | instance | article | year
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.get_practice_outcome_stats(
+  _dimension text,
+  _category practice_category DEFAULT NULL,
+  _court_type court_type DEFAULT NULL,
+  _court_name text DEFAULT NULL,
+  _year_from int DEFAULT NULL,
+  _year_to int DEFAULT NULL,
+  _article text DEFAULT NULL,
+  _min_total int DEFAULT 1,
+  _limit int DEFAULT 50
+)
+RETURNS TABLE (
+  group_key text,
+  total bigint,
+  granted bigint,
+  rejected bigint,
+  partial bigint,
+  remanded bigint,
+  discontinued bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF _dimension NOT IN ('court', 'instance', 'article', 'year') THEN
+    RAISE EXCEPTION 'Unknown dimension: %', _dimension;
+  END IF;
+
+  RETURN QUERY
+  WITH scoped AS (
+    SELECT * FROM public.practice_outcome_scope(_category, _court_type, _court_name, _year_from, _year_to, _article)
+  ),
+  keyed AS (
+    SELECT s.id, s.outcome,
+      CASE _dimension
+        WHEN 'court' THEN COALESCE(s.court_name, '')
+        WHEN 'instance' THEN s.court_type::text
+        WHEN 'year' THEN s.decision_year::text
+      END AS k
+    FROM scoped s
+    WHERE _dimension <> 'article'
+    UNION ALL
+    SELECT DISTINCT s.id, s.outcome, r.article AS k
+    FROM scoped s
+    JOIN public.legal_practice_article_refs r ON r.kb_id = s.id
+    WHERE _dimension = 'article'
+  )
+  SELECT
+    k.k,
+    count(*),
+    count(*) FILTER (WHERE k.outcome = 'granted'),
+    count(*) FILTER (WHERE k.outcome = 'rejected'),
+    count(*) FILTER (WHERE k.outcome = 'partial'),
+    count(*) FILTER (WHERE k.outcome = 'remanded'),
+    count(*) FILTER (WHERE k.outcome = 'discontinued')
+  FROM keyed k
+  WHERE _dimension <> 'year' OR k.k IS NOT NULL
+  GROUP BY k.k
+  HAVING count(*) >= GREATEST(COALESCE(_min_total, 1), 1)
+  ORDER BY
+    CASE WHEN _dimension = 'year' THEN k.k END DESC,
+    count(*) DESC,
+    k.k
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 50), 1), 500);
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Drill-down: the decisions behind a cell
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.list_practice_decisions(
+  _category practice_category DEFAULT NULL,
+  _court_type court_type DEFAULT NULL,
+  _court_name text DEFAULT NULL,
+  _year_from int DEFAULT NULL,
+  _year_to int DEFAULT NULL,
+  _article text DEFAULT NULL,
+  _outcome case_outcome DEFAULT NULL,
+  _limit int DEFAULT 50,
+  _offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  court_name text,
+  court_type court_type,
+  practice_category practice_category,
+  outcome case_outcome,
+  decision_date date,
+  case_number_anonymized text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id, s.title, s.court_name, s.court_type, s.practice_category, s.outcome,
+         s.decision_date, s.case_number_anonymized
+  FROM public.practice_outcome_scope(_category, _court_type, _court_name, _year_from, _year_to, _article) s
+  WHERE _outcome IS NULL OR s.outcome = _outcome
+  ORDER BY s.decision_date DESC NULLS LAST, s.title
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 50), 1), 200)
+  OFFSET GREATEST(COALESCE(_offset, 0), 0);
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Similar cases' outcomes for a user case
+-- Articles are taken from the case text unless passed explicitly. One row per
+-- article plus a NULL-article row that counts each decision once.
+-- -----------------------------------------------------------------------------
+
+-- "հոդված 104", "հոդվածի 104", "հոդվ. 104", "104-րդ հոդված", "ст. 104", "статья 104"
+CREATE OR REPLACE FUNCTION public.extract_article_numbers(_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT m[1]), '{}')
+  FROM (
+    SELECT regexp_matches(COALESCE(_text, ''), '[Հհ]ոդվ(?:ած[^\s\d]*|\.)\s*(\d+(?:\.\d+)?)', 'g') AS m
+    UNION ALL
+    SELECT regexp_matches(COALESCE(_text, ''), '(\d+(?:\.\d+)?)\s*-?\s*(?:րդ|ին)?\s+[Հհ]ոդված', 'g')
+    UNION ALL
+    SELECT regexp_matches(COALESCE(_text, ''), '(?:[Сс]т\.|[Сс]тать[а-я]*)\s*(\d+(?:\.\d+)?)', 'g')
+  ) found;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_similar_case_outcomes(
+  _case_id uuid,
+  _articles text[] DEFAULT NULL
+)
+RETURNS TABLE (
+  article text,
+  total bigint,
+  granted bigint,
+  rejected bigint,
+  partial bigint,
+  remanded bigint,
+  discontinued bigint
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  _case RECORD;
+  _wanted text[];
+BEGIN
+  -- Read through RLS: no access to the case, no statistics
+  SELECT c.case_type, c.facts, c.legal_question, c.description
+  INTO _case
+  FROM public.cases c
+  WHERE c.id = _case_id AND c.deleted_at IS NULL;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  _wanted := COALESCE(
+    _articles,
+    public.extract_article_numbers(concat_ws(E'\n', _case.facts, _case.legal_question, _case.description))
+  );
+
+  IF cardinality(_wanted) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    r.article,
+    count(DISTINCT o.id),
+    count(DISTINCT o.id) FILTER (WHERE o.outcome = 'granted'),
+    count(DISTINCT o.id) FILTER (WHERE o.outcome = 'rejected'),
+    count(DISTINCT o.id) FILTER (WHERE o.outcome = 'partial'),
+    count(DISTINCT o.id) FILTER (WHERE o.outcome = 'remanded'),
+    count(DISTINCT o.id) FILTER (WHERE o.outcome = 'discontinued')
+  FROM public.legal_practice_outcomes o
+  JOIN public.legal_practice_article_refs r ON r.kb_id = o.id
+  WHERE r.article = ANY (_wanted)
+    AND (_case.case_type IS NULL OR o.practice_category::text = _case.case_type::text)
+  GROUP BY GROUPING SETS ((r.article), ())
+  ORDER BY r.article NULLS FIRST;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.practice_outcome_scope(practice_category, court_type, text, int, int, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_practice_outcome_stats(text, practice_category, court_type, text, int, int, text, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.list_practice_decisions(practice_category, court_type, text, int, int, text, case_outcome, int, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.extract_article_numbers(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_similar_case_outcomes(uuid, text[]) TO authenticated;
+
+-- Outcome/decision-date filters on the KB
+CREATE INDEX IF NOT EXISTS idx_legal_practice_kb_outcome_analytics
+  ON public.legal_practice_kb (practice_category, court_type, outcome)
+  WHERE is_active = true;
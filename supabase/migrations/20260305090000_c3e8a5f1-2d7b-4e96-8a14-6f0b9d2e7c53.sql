@@ -0,0 +1,312 @@
+-- =============================================================================
+-- PRACTICE CITATION GRAPH
+-- Edges from decisions to the norms they interpret/apply/mention and to the
+-- decisions they cite. Edges are extracted in the edge layer
+-- (_shared/practice-graph.ts); this migration stores, resolves and queries them.
+-- =============================================================================
+
+CREATE TABLE public.legal_practice_graph_edges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  source_id UUID NOT NULL REFERENCES public.legal_practice_kb(id) ON DELETE CASCADE,
+  relation TEXT NOT NULL CHECK (relation IN ('interprets', 'applies', 'mentions', 'cites')),
+  origin TEXT NOT NULL CHECK (origin IN ('interpreted_norms', 'applied_articles', 'norm_ref', 'related_cases')),
+
+  -- Norm target (interprets/applies/mentions)
+  act_key TEXT,
+  act_raw TEXT,
+  article TEXT,
+  part TEXT,
+  point TEXT,
+
+  -- Decision target (cites); target_id stays NULL until the cited decision is in the KB
+  target_id UUID REFERENCES public.legal_practice_kb(id) ON DELETE SET NULL,
+  target_ref TEXT,
+  target_ref_key TEXT,
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+
+  CHECK (
+    (relation = 'cites' AND target_ref_key IS NOT NULL)
+    OR (relation <> 'cites' AND article IS NOT NULL)
+  )
+);
+
+CREATE UNIQUE INDEX idx_lp_graph_edges_unique
+  ON public.legal_practice_graph_edges (
+    source_id, relation,
+    COALESCE(act_key, ''), COALESCE(article, ''), COALESCE(part, ''), COALESCE(point, ''),
+    COALESCE(target_ref_key, '')
+  );
+
+CREATE INDEX idx_lp_graph_edges_norm
+  ON public.legal_practice_graph_edges (article, act_key)
+  WHERE relation <> 'cites';
+
+CREATE INDEX idx_lp_graph_edges_target
+  ON public.legal_practice_graph_edges (target_id)
+  WHERE target_id IS NOT NULL;
+
+CREATE INDEX idx_lp_graph_edges_target_ref_key
+  ON public.legal_practice_graph_edges (target_ref_key)
+  WHERE relation = 'cites';
+
+ALTER TABLE public.legal_practice_graph_edges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read practice graph"
+  ON public.legal_practice_graph_edges
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.legal_practice_kb lpk
+    WHERE lpk.id = source_id AND lpk.is_active = true
+  ));
+
+CREATE POLICY "Admins can manage practice graph"
+  ON public.legal_practice_graph_edges
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'));
+
+-- -----------------------------------------------------------------------------
+-- Citation resolution
+-- Must match normalizeCaseRef() in _shared/practice-graph.ts: dashes unified,
+-- whitespace and "№" removed, case preserved.
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.practice_case_ref_key(_ref text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(regexp_replace(translate(COALESCE(_ref, ''), '–—‑−', '----'), '[[:space:]№]+', '', 'g'), '');
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_legal_practice_kb_case_ref_key
+  ON public.legal_practice_kb (public.practice_case_ref_key(case_number_anonymized))
+  WHERE case_number_anonymized IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_legal_practice_kb_echr_ref_key
+  ON public.legal_practice_kb (public.practice_case_ref_key(echr_case_id))
+  WHERE echr_case_id IS NOT NULL;
+
+-- Links the outgoing citations of _kb_id and the dangling citations that point
+-- at _kb_id. Returns the number of outgoing citations that are resolved.
+CREATE OR REPLACE FUNCTION public.resolve_practice_citations(_kb_id uuid)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _resolved int;
+BEGIN
+  UPDATE public.legal_practice_graph_edges e
+  SET target_id = (
+    SELECT lpk.id
+    FROM public.legal_practice_kb lpk
+    WHERE lpk.id <> e.source_id
+      AND (
+        public.practice_case_ref_key(lpk.case_number_anonymized) = e.target_ref_key
+        OR public.practice_case_ref_key(lpk.echr_case_id) = e.target_ref_key
+      )
+    ORDER BY lpk.is_active DESC, lpk.decision_date DESC NULLS LAST
+    LIMIT 1
+  )
+  WHERE e.source_id = _kb_id
+    AND e.relation = 'cites';
+
+  UPDATE public.legal_practice_graph_edges e
+  SET target_id = _kb_id
+  FROM public.legal_practice_kb lpk
+  WHERE lpk.id = _kb_id
+    AND e.relation = 'cites'
+    AND e.target_id IS NULL
+    AND e.source_id <> _kb_id
+    AND e.target_ref_key IN (
+      public.practice_case_ref_key(lpk.case_number_anonymized),
+      public.practice_case_ref_key(lpk.echr_case_id)
+    );
+
+  SELECT count(*) INTO _resolved
+  FROM public.legal_practice_graph_edges e
+  WHERE e.source_id = _kb_id AND e.relation = 'cites' AND e.target_id IS NOT NULL;
+
+  RETURN _resolved;
+END;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Queries (SECURITY INVOKER: the KB read policy applies to the decisions)
+-- -----------------------------------------------------------------------------
+
+-- "All decisions interpreting Art. X (part Y) of act Z"
+CREATE OR REPLACE FUNCTION public.get_decisions_by_norm(
+  _article text,
+  _part text DEFAULT NULL,
+  _act_key text DEFAULT NULL,
+  _relations text[] DEFAULT ARRAY['interprets', 'applies'],
+  _limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  court_name text,
+  court_type court_type,
+  practice_category practice_category,
+  outcome case_outcome,
+  decision_date date,
+  case_number_anonymized text,
+  relations text[],
+  parts text[]
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    lpk.id, lpk.title, lpk.court_name, lpk.court_type, lpk.practice_category, lpk.outcome,
+    lpk.decision_date, lpk.case_number_anonymized,
+    array_agg(DISTINCT e.relation) AS relations,
+    COALESCE(array_agg(DISTINCT e.part) FILTER (WHERE e.part IS NOT NULL), '{}') AS parts
+  FROM public.legal_practice_graph_edges e
+  JOIN public.legal_practice_kb lpk ON lpk.id = e.source_id AND lpk.is_active = true
+  WHERE e.relation = ANY (COALESCE(_relations, ARRAY['interprets', 'applies', 'mentions']))
+    AND e.relation <> 'cites'
+    AND e.article = _article
+    AND (_part IS NULL OR e.part = _part)
+    AND (_act_key IS NULL OR e.act_key = _act_key)
+  GROUP BY lpk.id
+  ORDER BY
+    bool_or(e.relation = 'interprets') DESC,
+    bool_or(e.relation = 'applies') DESC,
+    lpk.decision_date DESC NULLS LAST,
+    lpk.title
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 50), 1), 200);
+$$;
+
+-- "Decisions citing this one"
+CREATE OR REPLACE FUNCTION public.get_citing_decisions(
+  _kb_id uuid,
+  _limit int DEFAULT 50
+)
+RETURNS TABLE (
+  id uuid,
+  title text,
+  court_name text,
+  court_type court_type,
+  outcome case_outcome,
+  decision_date date,
+  case_number_anonymized text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT DISTINCT ON (lpk.decision_date, lpk.id)
+    lpk.id, lpk.title, lpk.court_name, lpk.court_type, lpk.outcome,
+    lpk.decision_date, lpk.case_number_anonymized
+  FROM public.legal_practice_graph_edges e
+  JOIN public.legal_practice_kb lpk ON lpk.id = e.source_id AND lpk.is_active = true
+  WHERE e.relation = 'cites'
+    AND e.target_id = _kb_id
+  ORDER BY lpk.decision_date DESC NULLS LAST, lpk.id
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 50), 1), 200);
+$$;
+
+-- Decisions cited by _kb_id; unresolved references come back with id = NULL
+CREATE OR REPLACE FUNCTION public.get_cited_decisions(_kb_id uuid)
+RETURNS TABLE (
+  target_ref text,
+  id uuid,
+  title text,
+  court_name text,
+  court_type court_type,
+  outcome case_outcome,
+  decision_date date
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    e.target_ref,
+    lpk.id, lpk.title, lpk.court_name, lpk.court_type, lpk.outcome, lpk.decision_date
+  FROM public.legal_practice_graph_edges e
+  LEFT JOIN public.legal_practice_kb lpk ON lpk.id = e.target_id AND lpk.is_active = true
+  WHERE e.source_id = _kb_id
+    AND e.relation = 'cites'
+  ORDER BY lpk.id IS NULL, lpk.decision_date DESC NULLS LAST, e.target_ref;
+$$;
+
+-- -----------------------------------------------------------------------------
+-- Retrieval signal: decisions connected to the seed results.
+--   cited by a seed          2.0
+--   citing a seed            1.5
+--   shared interpreted norm  1.0 per norm
+--   shared applied norm      0.5 per norm
+-- `via` is the strongest relation that connected the decision.
+-- -----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.get_practice_graph_neighbors(
+  _seed_ids uuid[],
+  _exclude_ids uuid[] DEFAULT '{}',
+  _category practice_category DEFAULT NULL,
+  _limit int DEFAULT 3
+)
+RETURNS TABLE (
+  id uuid,
+  score double precision,
+  via text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH links AS (
+    SELECT e.target_id AS id, 2.0::double precision AS w, 'cited_by_result'::text AS via
+    FROM public.legal_practice_graph_edges e
+    WHERE e.source_id = ANY (_seed_ids) AND e.relation = 'cites' AND e.target_id IS NOT NULL
+
+    UNION ALL
+
+    SELECT e.source_id, 1.5, 'cites_result'
+    FROM public.legal_practice_graph_edges e
+    WHERE e.target_id = ANY (_seed_ids) AND e.relation = 'cites'
+
+    UNION ALL
+
+    SELECT other.source_id,
+      CASE WHEN seed.relation = 'interprets' AND other.relation = 'interprets' THEN 1.0 ELSE 0.5 END,
+      CASE WHEN seed.relation = 'interprets' AND other.relation = 'interprets' THEN 'shared_interpretation' ELSE 'shared_norm' END
+    FROM public.legal_practice_graph_edges seed
+    JOIN public.legal_practice_graph_edges other
+      ON other.article = seed.article
+     AND other.act_key IS NOT DISTINCT FROM seed.act_key
+     AND other.relation IN ('interprets', 'applies')
+     AND other.source_id <> seed.source_id
+    WHERE seed.source_id = ANY (_seed_ids)
+      AND seed.relation IN ('interprets', 'applies')
+  ),
+  scored AS (
+    SELECT l.id, sum(l.w) AS score, (array_agg(l.via ORDER BY l.w DESC))[1] AS via
+    FROM links l
+    WHERE l.id <> ALL (_seed_ids)
+      AND l.id <> ALL (COALESCE(_exclude_ids, '{}'))
+    GROUP BY l.id
+  )
+  SELECT s.id, s.score, s.via
+  FROM scored s
+  JOIN public.legal_practice_kb lpk ON lpk.id = s.id AND lpk.is_active = true
+  WHERE _category IS NULL OR lpk.practice_category = _category
+  ORDER BY s.score DESC, lpk.decision_date DESC NULLS LAST
+  LIMIT LEAST(GREATEST(COALESCE(_limit, 3), 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.practice_case_ref_key(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_decisions_by_norm(text, text, text, text[], int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_citing_decisions(uuid, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_cited_decisions(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_practice_graph_neighbors(uuid[], uuid[], practice_category, int) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.resolve_practice_citations(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_practice_citations(uuid) TO service_role;
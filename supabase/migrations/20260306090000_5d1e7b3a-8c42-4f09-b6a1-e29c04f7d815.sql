@@ -0,0 +1,216 @@
+-- =============================================================================
+-- HYBRID RETRIEVAL STAGES
+-- Candidate generators fused in the edge layer (_shared/hybrid-retrieval.ts)
+-- with reciprocal rank fusion. Each stage returns (id, score) only; rows are
+-- hydrated once, after fusion.
+--   bm25     ts_rank_cd over the trigger-maintained tsv columns
+--   trigram  pg_trgm word similarity on titles / reasoning summaries
+-- The vector stage reuses match_knowledge_base / match_legal_practice.
+--
+-- Rows written before the tsv triggers existed have no tsv and are missed by
+-- the bm25 stage. They are not filled here (one UPDATE over both tables would
+-- hold its locks for the length of the migration): after deploying, run
+--   CALL public.backfill_search_tsv();  outside a transaction.
+-- =============================================================================
+
+-- ─── 1. Indexes + tsv backfill ───────────────────────────────────────────────
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_tsv
+  ON public.knowledge_base USING gin (tsv);
+
+CREATE INDEX IF NOT EXISTS idx_legal_practice_kb_tsv
+  ON public.legal_practice_kb USING gin (tsv);
+
+CREATE INDEX IF NOT EXISTS idx_knowledge_base_title_trgm
+  ON public.knowledge_base USING gin (title gin_trgm_ops);
+
+-- Touches up to _batch rows without tsv in each table (the tsv triggers
+-- recompute it); returns the number of rows updated, 0 when done
+CREATE OR REPLACE FUNCTION public.fill_missing_search_tsv(_batch int DEFAULT 500)
+RETURNS int
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _kb int;
+  _practice int;
+BEGIN
+  UPDATE public.knowledge_base SET tsv = NULL
+  WHERE id IN (
+    SELECT id FROM public.knowledge_base WHERE tsv IS NULL
+    LIMIT LEAST(GREATEST(_batch, 1), 5000)
+  );
+  GET DIAGNOSTICS _kb = ROW_COUNT;
+
+  UPDATE public.legal_practice_kb SET tsv = NULL
+  WHERE id IN (
+    SELECT id FROM public.legal_practice_kb WHERE tsv IS NULL
+    LIMIT LEAST(GREATEST(_batch, 1), 5000)
+  );
+  GET DIAGNOSTICS _practice = ROW_COUNT;
+
+  RETURN _kb + _practice;
+END;
+$$;
+
+-- All rows without tsv, one committed fill_missing_search_tsv() batch at a
+-- time. COMMIT rules out SECURITY DEFINER and a SET search_path clause, and
+-- needs a plain CALL outside a transaction block
+CREATE OR REPLACE PROCEDURE public.backfill_search_tsv(_batch int DEFAULT 500)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  LOOP
+    EXIT WHEN public.fill_missing_search_tsv(_batch) = 0;
+    COMMIT;
+  END LOOP;
+END;
+$$;
+
+-- ─── 2. Query helper ─────────────────────────────────────────────────────────
+
+-- OR of the query lexemes: documents matching only part of a long natural
+-- language query still rank, and ts_rank_cd rewards the ones matching more.
+CREATE OR REPLACE FUNCTION public.search_or_tsquery(_query text)
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  q tsquery;
+  lex text;
+BEGIN
+  FOR lex IN
+    SELECT l
+    FROM unnest(tsvector_to_array(to_tsvector('simple', substring(COALESCE(_query, '') FROM 1 FOR 500)))) AS l
+    WHERE length(l) >= 2
+    LIMIT 24
+  LOOP
+    q := CASE WHEN q IS NULL THEN plainto_tsquery('simple', lex) ELSE q || plainto_tsquery('simple', lex) END;
+  END LOOP;
+  RETURN q;
+END;
+$$;
+
+-- ─── 3. BM25-style stages ────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.search_kb_bm25(
+  _query text,
+  _limit int DEFAULT 30,
+  _reference_date date DEFAULT NULL,
+  _category text DEFAULT NULL
+)
+RETURNS TABLE(id uuid, score real)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (SELECT public.search_or_tsquery(_query) AS tsq)
+  SELECT kb.id,
+         -- normalization 1: divide by 1 + log(document length)
+         ts_rank_cd(kb.tsv, q.tsq, 1)::real AS score
+  FROM public.knowledge_base kb, q
+  WHERE q.tsq IS NOT NULL
+    AND kb.is_active = true
+    AND kb.tsv @@ q.tsq
+    AND (_category IS NULL OR kb.category::text = _category)
+    AND (_reference_date IS NULL OR kb.effective_from IS NULL OR kb.effective_from <= _reference_date)
+    AND (_reference_date IS NULL OR kb.effective_to IS NULL OR kb.effective_to >= _reference_date)
+  ORDER BY score DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_practice_bm25(
+  _query text,
+  _limit int DEFAULT 30,
+  _category text DEFAULT NULL
+)
+RETURNS TABLE(id uuid, score real)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (SELECT public.search_or_tsquery(_query) AS tsq)
+  SELECT lp.id,
+         ts_rank_cd(lp.tsv, q.tsq, 1)::real AS score
+  FROM public.legal_practice_kb lp, q
+  WHERE q.tsq IS NOT NULL
+    AND lp.is_active = true
+    AND lp.tsv @@ q.tsq
+    AND (_category IS NULL OR lp.practice_category::text = _category)
+  ORDER BY score DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+-- ─── 4. Trigram stages ───────────────────────────────────────────────────────
+-- <% (word similarity) tolerates inflection and typos that exact lexemes miss.
+
+CREATE OR REPLACE FUNCTION public.search_kb_trigram(
+  _query text,
+  _limit int DEFAULT 30,
+  _reference_date date DEFAULT NULL,
+  _category text DEFAULT NULL
+)
+RETURNS TABLE(id uuid, score real)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT kb.id,
+         word_similarity(substring(_query FROM 1 FOR 200), kb.title)::real AS score
+  FROM public.knowledge_base kb
+  WHERE kb.is_active = true
+    AND substring(_query FROM 1 FOR 200) <% kb.title
+    AND (_category IS NULL OR kb.category::text = _category)
+    AND (_reference_date IS NULL OR kb.effective_from IS NULL OR kb.effective_from <= _reference_date)
+    AND (_reference_date IS NULL OR kb.effective_to IS NULL OR kb.effective_to >= _reference_date)
+  ORDER BY score DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_practice_trigram(
+  _query text,
+  _limit int DEFAULT 30,
+  _category text DEFAULT NULL
+)
+RETURNS TABLE(id uuid, score real)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.id,
+         GREATEST(
+           word_similarity(substring(_query FROM 1 FOR 200), lp.title),
+           COALESCE(word_similarity(substring(_query FROM 1 FOR 200), lp.legal_reasoning_summary), 0) * 0.8
+         )::real AS score
+  FROM public.legal_practice_kb lp
+  WHERE lp.is_active = true
+    AND (
+      substring(_query FROM 1 FOR 200) <% lp.title
+      OR substring(_query FROM 1 FOR 200) <% lp.legal_reasoning_summary
+    )
+    AND (_category IS NULL OR lp.practice_category::text = _category)
+  ORDER BY score DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+-- ─── 5. Grants ───────────────────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION public.search_kb_bm25(text, int, date, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.search_practice_bm25(text, int, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.search_kb_trigram(text, int, date, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.search_practice_trigram(text, int, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.fill_missing_search_tsv(int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON PROCEDURE public.backfill_search_tsv(int) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.search_or_tsquery(text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.search_kb_bm25(text, int, date, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.search_practice_bm25(text, int, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.search_kb_trigram(text, int, date, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.search_practice_trigram(text, int, text) TO authenticated, service_role;
@@ -0,0 +1,360 @@
+-- =============================================================================
+-- MULTI-AGENT JOB QUEUE
+-- A full multi-agent run is enqueued as one batch of jobs (one per agent,
+-- aggregator last) and executed server-side by the multi-agent-worker edge
+-- function, so a run no longer depends on the browser tab that started it.
+--
+--   evidence_collector ──► 7 analysis agents ──► aggregator
+--
+-- Jobs are claimed with leases (FOR UPDATE SKIP LOCKED); a job becomes
+-- claimable once every job in depends_on has completed. agent_analysis_runs
+-- stays the user-facing record and is published over realtime.
+-- =============================================================================
+
+-- ─── 1. Runs: batch link + realtime ──────────────────────────────────────────
+
+ALTER TABLE public.agent_analysis_runs
+  ADD COLUMN IF NOT EXISTS batch_id uuid;
+
+CREATE INDEX IF NOT EXISTS idx_agent_runs_batch
+  ON public.agent_analysis_runs(batch_id)
+  WHERE batch_id IS NOT NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.agent_analysis_runs;
+
+-- ─── 2. Jobs ─────────────────────────────────────────────────────────────────
+
+CREATE TABLE public.agent_analysis_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  batch_id uuid NOT NULL,
+  run_id uuid NOT NULL REFERENCES public.agent_analysis_runs(id) ON DELETE CASCADE,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  agent_type public.agent_type NOT NULL,
+  depends_on uuid[] NOT NULL DEFAULT '{}',
+  references_text text,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 3,
+  next_run_at timestamptz NOT NULL DEFAULT now(),
+  lease_expires_at timestamptz,
+  worker_id text,
+  last_error text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_agent_jobs_batch ON public.agent_analysis_jobs(batch_id);
+CREATE INDEX idx_agent_jobs_claimable
+  ON public.agent_analysis_jobs(next_run_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE TRIGGER update_agent_jobs_updated_at
+  BEFORE UPDATE ON public.agent_analysis_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Written only by the RPCs below and the worker (service role)
+ALTER TABLE public.agent_analysis_jobs ENABLE ROW LEVEL SECURITY;
+
+-- ─── 3. Enqueue ──────────────────────────────────────────────────────────────
+
+-- Creates a pending run + job per agent and returns the batch id. One active
+-- batch per case: a second request while one is queued or running is refused.
+CREATE OR REPLACE FUNCTION public.enqueue_agent_analysis(
+  p_case_id uuid,
+  p_references_text text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id uuid := auth.uid();
+  _batch_id uuid := gen_random_uuid();
+  _refs text := NULLIF(btrim(COALESCE(p_references_text, '')), '');
+  _agent public.agent_type;
+  _run_id uuid;
+  _collector_job uuid;
+  _job_id uuid;
+  _agent_jobs uuid[] := '{}';
+BEGIN
+  IF _user_id IS NULL OR NOT public.is_case_staff(_user_id, p_case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.agent_analysis_jobs
+    WHERE case_id = p_case_id AND status IN ('pending', 'processing')
+  ) THEN
+    RAISE EXCEPTION 'Analysis already in progress for this case';
+  END IF;
+
+  INSERT INTO public.agent_analysis_runs (case_id, agent_type, status, batch_id, created_by)
+  VALUES (p_case_id, 'evidence_collector', 'pending', _batch_id, _user_id)
+  RETURNING id INTO _run_id;
+
+  INSERT INTO public.agent_analysis_jobs (batch_id, run_id, case_id, agent_type, references_text, created_by)
+  VALUES (_batch_id, _run_id, p_case_id, 'evidence_collector', _refs, _user_id)
+  RETURNING id INTO _collector_job;
+
+  -- The analysis agents read the evidence registry filled by the collector
+  FOREACH _agent IN ARRAY ARRAY[
+    'evidence_admissibility', 'charge_qualification', 'procedural_violations',
+    'substantive_violations', 'defense_strategy', 'prosecution_weaknesses',
+    'rights_violations'
+  ]::public.agent_type[]
+  LOOP
+    INSERT INTO public.agent_analysis_runs (case_id, agent_type, status, batch_id, created_by)
+    VALUES (p_case_id, _agent, 'pending', _batch_id, _user_id)
+    RETURNING id INTO _run_id;
+
+    INSERT INTO public.agent_analysis_jobs (batch_id, run_id, case_id, agent_type, depends_on, references_text, created_by)
+    VALUES (_batch_id, _run_id, p_case_id, _agent, ARRAY[_collector_job], _refs, _user_id)
+    RETURNING id INTO _job_id;
+
+    _agent_jobs := _agent_jobs || _job_id;
+  END LOOP;
+
+  INSERT INTO public.agent_analysis_runs (case_id, agent_type, status, batch_id, created_by)
+  VALUES (p_case_id, 'aggregator', 'pending', _batch_id, _user_id)
+  RETURNING id INTO _run_id;
+
+  INSERT INTO public.agent_analysis_jobs (batch_id, run_id, case_id, agent_type, depends_on, references_text, created_by)
+  VALUES (_batch_id, _run_id, p_case_id, 'aggregator', _collector_job || _agent_jobs, _refs, _user_id);
+
+  RETURN _batch_id;
+END;
+$$;
+
+-- ─── 4. Claim ────────────────────────────────────────────────────────────────
+
+-- Pending jobs whose dependencies all completed, plus jobs whose lease expired
+-- (worker died mid-call). attempts is counted at claim time so a job that
+-- keeps killing its worker still runs out of attempts.
+CREATE OR REPLACE FUNCTION public.claim_agent_analysis_jobs(
+  p_limit int DEFAULT 3,
+  p_lease_minutes int DEFAULT 10
+)
+RETURNS SETOF public.agent_analysis_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    SELECT j.id
+    FROM public.agent_analysis_jobs j
+    WHERE (
+        (j.status = 'pending' AND j.next_run_at <= now())
+        OR (j.status = 'processing' AND j.lease_expires_at < now())
+      )
+      AND j.attempts < j.max_attempts
+      AND NOT EXISTS (
+        SELECT 1 FROM public.agent_analysis_jobs d
+        WHERE d.id = ANY (j.depends_on) AND d.status <> 'completed'
+      )
+    ORDER BY j.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  updated AS (
+    UPDATE public.agent_analysis_jobs j
+    SET
+      status = 'processing',
+      attempts = j.attempts + 1,
+      lease_expires_at = now() + (p_lease_minutes || ' minutes')::interval,
+      worker_id = gen_random_uuid()::text
+    FROM claimed c
+    WHERE j.id = c.id
+    RETURNING j.*
+  ),
+  runs AS (
+    UPDATE public.agent_analysis_runs r
+    SET status = 'running',
+        started_at = COALESCE(r.started_at, now()),
+        error_message = NULL
+    FROM updated u
+    WHERE r.id = u.run_id
+  )
+  SELECT * FROM updated;
+END;
+$$;
+
+-- ─── 5. Failure + retries ────────────────────────────────────────────────────
+
+-- Records a failed attempt. Retries after p_retry_seconds while attempts
+-- remain (and p_retry_seconds is not NULL); otherwise fails the run and
+-- cancels every job of the batch that depends on it, directly or not.
+CREATE OR REPLACE FUNCTION public.fail_agent_analysis_job(
+  p_job_id uuid,
+  p_error text,
+  p_retry_seconds int DEFAULT 60
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job public.agent_analysis_jobs;
+  _error text := left(COALESCE(p_error, 'Unknown error'), 500);
+BEGIN
+  SELECT * INTO _job FROM public.agent_analysis_jobs WHERE id = p_job_id FOR UPDATE;
+  IF NOT FOUND OR _job.status NOT IN ('pending', 'processing') THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_retry_seconds IS NOT NULL AND _job.attempts < _job.max_attempts THEN
+    UPDATE public.agent_analysis_jobs
+    SET status = 'pending',
+        next_run_at = now() + (p_retry_seconds || ' seconds')::interval,
+        lease_expires_at = NULL,
+        worker_id = NULL,
+        last_error = _error
+    WHERE id = p_job_id;
+
+    UPDATE public.agent_analysis_runs SET status = 'pending' WHERE id = _job.run_id;
+    RETURN 'retry';
+  END IF;
+
+  UPDATE public.agent_analysis_jobs
+  SET status = 'failed', lease_expires_at = NULL, last_error = _error
+  WHERE id = p_job_id;
+
+  UPDATE public.agent_analysis_runs
+  SET status = 'failed', error_message = _error, completed_at = now()
+  WHERE id = _job.run_id;
+
+  WITH RECURSIVE dependents AS (
+    SELECT j.id, j.run_id
+    FROM public.agent_analysis_jobs j
+    WHERE j.batch_id = _job.batch_id AND _job.id = ANY (j.depends_on)
+    UNION
+    SELECT j.id, j.run_id
+    FROM public.agent_analysis_jobs j
+    JOIN dependents d ON d.id = ANY (j.depends_on)
+    WHERE j.batch_id = _job.batch_id
+  ),
+  cancelled AS (
+    UPDATE public.agent_analysis_jobs j
+    SET status = 'cancelled', last_error = 'Dependency failed: ' || _job.agent_type
+    FROM dependents d
+    WHERE j.id = d.id AND j.status = 'pending'
+    RETURNING j.run_id
+  )
+  UPDATE public.agent_analysis_runs r
+  SET status = 'failed',
+      error_message = 'Dependency failed: ' || _job.agent_type,
+      completed_at = now()
+  FROM cancelled c
+  WHERE r.id = c.run_id;
+
+  RETURN 'failed';
+END;
+$$;
+
+-- ─── 6. Stale runs ───────────────────────────────────────────────────────────
+
+-- 1) Jobs whose lease expired with no attempts left are failed for good.
+-- 2) Runs stuck in pending/running without a live job (e.g. started by the
+--    browser before this queue existed and abandoned) are failed after
+--    p_stale_minutes without an update.
+CREATE OR REPLACE FUNCTION public.fail_stale_agent_runs(p_stale_minutes int DEFAULT 30)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _job_id uuid;
+  _count integer := 0;
+  _runs integer;
+BEGIN
+  FOR _job_id IN
+    SELECT id FROM public.agent_analysis_jobs
+    WHERE status = 'processing'
+      AND lease_expires_at < now()
+      AND attempts >= max_attempts
+  LOOP
+    PERFORM public.fail_agent_analysis_job(_job_id, 'Worker lease expired', NULL);
+    _count := _count + 1;
+  END LOOP;
+
+  UPDATE public.agent_analysis_runs r
+  SET status = 'failed',
+      error_message = 'Run abandoned (no progress for ' || p_stale_minutes || ' minutes)',
+      completed_at = now()
+  WHERE r.status IN ('pending', 'running')
+    AND r.updated_at < now() - (p_stale_minutes || ' minutes')::interval
+    AND NOT EXISTS (
+      SELECT 1 FROM public.agent_analysis_jobs j
+      WHERE j.run_id = r.id AND j.status IN ('pending', 'processing')
+    );
+  GET DIAGNOSTICS _runs = ROW_COUNT;
+
+  RETURN _count + _runs;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_agent_analysis(uuid, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.claim_agent_analysis_jobs(int, int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fail_agent_analysis_job(uuid, text, int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fail_stale_agent_runs(int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.enqueue_agent_analysis(uuid, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.claim_agent_analysis_jobs(int, int) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_agent_analysis_job(uuid, text, int) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_stale_agent_runs(int) TO service_role;
+
+-- ─── 7. Cron ─────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.invoke_multi_agent_worker()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _key text;
+BEGIN
+  SELECT decrypted_secret INTO _key
+  FROM vault.decrypted_secrets
+  WHERE name = 'cron_worker_key'
+  LIMIT 1;
+
+  IF _key IS NULL OR _key = '' THEN
+    RAISE WARNING 'cron_worker_key not found in vault, skipping multi-agent worker call';
+    RETURN;
+  END IF;
+
+  -- Nothing to do: skip the HTTP call
+  IF NOT EXISTS (
+    SELECT 1 FROM public.agent_analysis_jobs WHERE status IN ('pending', 'processing')
+  ) AND NOT EXISTS (
+    SELECT 1 FROM public.agent_analysis_runs WHERE status IN ('pending', 'running')
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://ekvhhsemntnylaivqufs.supabase.co/functions/v1/multi-agent-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-internal-key', _key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+SELECT cron.unschedule('invoke-multi-agent-worker') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'invoke-multi-agent-worker'
+);
+
+SELECT cron.schedule(
+  'invoke-multi-agent-worker',
+  '* * * * *',
+  'SELECT public.invoke_multi_agent_worker()'
+);
@@ -0,0 +1,295 @@
+-- =============================================================================
+-- CONFLICT-OF-INTEREST CHECK
+-- Party names of a new or edited case are matched against the parties of all
+-- other cases of the firm, across Armenian / Cyrillic / Latin spellings.
+--
+--   party_name_key()        script-independent name key (normalize_hy +
+--                           transliteration; mirrored by nameMatchKey() in
+--                           src/lib/unicode-utils.ts)
+--   party_side()            client / opponent / other, relative to the
+--                           represented side of the case (cases.party_role)
+--   case_party_names        known parties per case, with their procedural role
+--   check_case_conflicts()  matches candidates against case_party_names and,
+--                           for cases without that party indexed, against the
+--                           case title / description / facts
+--
+-- Checks and override reasons are written to audit_logs by the client
+-- (log_audit, action 'conflict_check').
+-- =============================================================================
+
+-- ─── 1. Name key ─────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.party_name_key(input text)
+RETURNS text
+LANGUAGE plpgsql
+IMMUTABLE
+STRICT
+SET search_path = public
+AS $$
+DECLARE
+  s text := public.normalize_hy(input);
+  pair text[];
+BEGIN
+  FOREACH pair SLICE 1 IN ARRAY ARRAY[
+    ['ու', 'u'], ['և', 'ev'],
+    ['ժ', 'zh'], ['խ', 'kh'], ['ծ', 'ts'], ['ձ', 'dz'], ['ղ', 'gh'],
+    ['ճ', 'ch'], ['շ', 'sh'], ['չ', 'ch'], ['ց', 'ts'],
+    ['ж', 'zh'], ['х', 'kh'], ['ц', 'ts'], ['ч', 'ch'], ['ш', 'sh'],
+    ['щ', 'shch'], ['ю', 'yu'], ['я', 'ya']
+  ]
+  LOOP
+    s := replace(s, pair[1], pair[2]);
+  END LOOP;
+
+  -- Single letters; ъ and ь have no counterpart and are dropped
+  s := translate(
+    s,
+    'աբգդեզէըթիլկհմյնոպջռսվտրւփքօֆабвгдеёзийклмнопрстуфыэъь',
+    'abgdezeytilkhmynopjrsvtrvpkofabvgdeeziyklmnoprstufye'
+  );
+
+  -- Spelling variants: Petrosyan / Petrosian, Khachatryan / Xachatryan
+  s := regexp_replace(s, '[^[:alnum:][:space:]]+', '', 'g');
+  s := translate(s, 'ywq', 'ivk');
+  s := replace(s, 'x', 'kh');
+  s := regexp_replace(s, '(.)\1+', '\1', 'g');
+  RETURN btrim(regexp_replace(s, '\s+', ' ', 'g'));
+END;
+$$;
+
+-- ─── 2. Sides ────────────────────────────────────────────────────────────────
+
+-- 'A': claimant side, 'B': defending side, NULL: neither
+CREATE OR REPLACE FUNCTION public.party_role_group(_role text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _role IN ('claimant', 'plaintiff', 'applicant', 'petitioner', 'victim', 'appellant', 'prosecutor') THEN 'A'
+    WHEN _role IN ('defendant', 'accused', 'respondent', 'appellee', 'defense', 'administrative_body', 'government') THEN 'B'
+  END;
+$$;
+
+-- Side of a party in a case: 'client' when on the represented side,
+-- 'opponent' when on the other, 'other' for witnesses etc. NULL when the
+-- party's role or the represented side is unknown.
+CREATE OR REPLACE FUNCTION public.party_side(_role text, _case_party_role text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _role IS NULL THEN NULL
+    WHEN public.party_role_group(_role) IS NULL THEN 'other'
+    WHEN public.party_role_group(_case_party_role) IS NULL THEN NULL
+    WHEN public.party_role_group(_role) = public.party_role_group(_case_party_role) THEN 'client'
+    ELSE 'opponent'
+  END;
+$$;
+
+-- ─── 3. Known parties per case ───────────────────────────────────────────────
+
+CREATE TABLE public.case_party_names (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  name_key text NOT NULL DEFAULT '',
+  role text,
+  source text NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('extracted', 'text', 'manual')),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_party_names_case ON public.case_party_names(case_id);
+CREATE INDEX idx_case_party_names_key_trgm
+  ON public.case_party_names USING gin (name_key gin_trgm_ops);
+
+CREATE OR REPLACE FUNCTION public.case_party_names_set_key()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.name_key := COALESCE(public.party_name_key(NEW.name), '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_case_party_names_key
+  BEFORE INSERT OR UPDATE OF name ON public.case_party_names
+  FOR EACH ROW EXECUTE FUNCTION public.case_party_names_set_key();
+
+ALTER TABLE public.case_party_names ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case staff can view party names"
+  ON public.case_party_names FOR SELECT
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), case_id));
+
+-- Replaces the parties of one source for a case (the client indexes names
+-- found in description / facts; extract-case-fields writes 'extracted' with
+-- the service role)
+CREATE OR REPLACE FUNCTION public.set_case_party_names(
+  p_case_id uuid,
+  p_source text,
+  p_parties jsonb
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _count integer;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.is_case_staff(auth.uid(), p_case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  DELETE FROM public.case_party_names WHERE case_id = p_case_id AND source = p_source;
+
+  INSERT INTO public.case_party_names (case_id, name, role, source, created_by)
+  SELECT p_case_id, btrim(p->>'name'), NULLIF(p->>'role', ''), p_source, auth.uid()
+  FROM jsonb_array_elements(COALESCE(p_parties, '[]'::jsonb)) AS p
+  WHERE length(btrim(COALESCE(p->>'name', ''))) >= 3;
+  GET DIAGNOSTICS _count = ROW_COUNT;
+
+  RETURN _count;
+END;
+$$;
+
+-- ─── 4. Check ────────────────────────────────────────────────────────────────
+
+-- p_parties: [{ "name": "...", "role": "victim" | null }, ...]
+-- p_party_role: represented side of the case being checked (falls back to
+-- the stored one when p_case_id is given). relation per match:
+--   conflict    one case has the party as client, the other as opponent
+--   same_side   same side in both (e.g. a returning client)
+--   review      a side is unknown, or the party is a witness / third party
+-- Cases the caller cannot open come back as the relation only: no case id,
+-- number, title or matched name, and accessible = false ("another lawyer's
+-- case").
+CREATE OR REPLACE FUNCTION public.check_case_conflicts(
+  p_parties jsonb,
+  p_party_role text DEFAULT NULL,
+  p_case_id uuid DEFAULT NULL
+)
+RETURNS TABLE(
+  party_name text,
+  party_side text,
+  matched_name text,
+  matched_role text,
+  matched_side text,
+  relation text,
+  match_source text,
+  case_id uuid,
+  case_number text,
+  case_title text,
+  accessible boolean,
+  score real
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _uid uuid := auth.uid();
+  _role text := p_party_role;
+BEGIN
+  IF _uid IS NULL OR NOT (public.has_role(_uid, 'lawyer') OR public.has_role(_uid, 'admin')) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  IF _role IS NULL AND p_case_id IS NOT NULL THEN
+    SELECT c.party_role INTO _role FROM public.cases c WHERE c.id = p_case_id;
+  END IF;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT DISTINCT ON (k.key)
+      btrim(p->>'name') AS name,
+      NULLIF(p->>'role', '') AS role,
+      k.key
+    FROM jsonb_array_elements(COALESCE(p_parties, '[]'::jsonb)) AS p
+    CROSS JOIN LATERAL (SELECT public.party_name_key(btrim(p->>'name')) AS key) k
+    WHERE length(COALESCE(k.key, '')) >= 6
+    ORDER BY k.key, (p->>'role') IS NULL
+  ),
+  other_cases AS (
+    SELECT c.id, c.case_number, c.title, c.party_role,
+           public.party_name_key(concat_ws(' ', c.title, c.description, c.facts)) AS text_key
+    FROM public.cases c
+    WHERE c.deleted_at IS NULL
+      AND (p_case_id IS NULL OR c.id <> p_case_id)
+  ),
+  indexed AS (
+    SELECT DISTINCT ON (cand.key, oc.id)
+      cand.name, cand.role, cand.key,
+      pn.name AS m_name, pn.role AS m_role, oc.id AS c_id,
+      similarity(pn.name_key, cand.key) AS sim
+    FROM candidates cand
+    JOIN public.case_party_names pn
+      ON pn.name_key % cand.key OR pn.name_key = cand.key
+    JOIN other_cases oc ON oc.id = pn.case_id
+    WHERE similarity(pn.name_key, cand.key) >= 0.55
+    ORDER BY cand.key, oc.id, similarity(pn.name_key, cand.key) DESC
+  ),
+  mentioned AS (
+    SELECT cand.name, cand.role, cand.key,
+           NULL::text AS m_name, NULL::text AS m_role, oc.id AS c_id,
+           word_similarity(cand.key, oc.text_key) AS sim
+    FROM candidates cand
+    JOIN other_cases oc ON word_similarity(cand.key, oc.text_key) >= 0.8
+    WHERE NOT EXISTS (
+      SELECT 1 FROM indexed i WHERE i.key = cand.key AND i.c_id = oc.id
+    )
+  ),
+  matches AS (
+    SELECT m.*, 'party'::text AS src FROM indexed m
+    UNION ALL
+    SELECT m.*, 'text'::text AS src FROM mentioned m
+  ),
+  sided AS (
+    SELECT m.*, oc.case_number AS c_number, oc.title AS c_title,
+           public.party_side(m.role, _role) AS side,
+           public.party_side(m.m_role, oc.party_role) AS m_side,
+           public.user_can_access_case_as(_uid, m.c_id) AS can_open
+    FROM matches m
+    JOIN other_cases oc ON oc.id = m.c_id
+  )
+  SELECT
+    s.name,
+    s.side,
+    CASE WHEN s.can_open THEN s.m_name END,
+    s.m_role,
+    s.m_side,
+    CASE
+      WHEN s.side IN ('client', 'opponent') AND s.m_side IN ('client', 'opponent')
+      THEN CASE WHEN s.side = s.m_side THEN 'same_side' ELSE 'conflict' END
+      ELSE 'review'
+    END,
+    s.src,
+    CASE WHEN s.can_open THEN s.c_id END,
+    CASE WHEN s.can_open THEN s.c_number END,
+    CASE WHEN s.can_open THEN s.c_title END,
+    s.can_open,
+    s.sim::real
+  FROM sided s
+  ORDER BY (s.side IS DISTINCT FROM s.m_side AND s.side IN ('client', 'opponent')
+            AND s.m_side IN ('client', 'opponent')) DESC,
+           s.sim DESC
+  LIMIT 100;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.set_case_party_names(uuid, text, jsonb) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.check_case_conflicts(jsonb, text, uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.party_name_key(text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.party_side(text, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.set_case_party_names(uuid, text, jsonb) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.check_case_conflicts(jsonb, text, uuid) TO authenticated;
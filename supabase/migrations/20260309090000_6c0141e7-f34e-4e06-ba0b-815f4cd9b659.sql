@@ -0,0 +1,250 @@
+-- =============================================================================
+-- CASE PARTIES REGISTRY
+-- Structured parties per case (person / organization, procedural role,
+-- contacts, representative). Replaces parties kept as free text in
+-- description / facts and typed again in every generated document.
+--
+--   case_parties            one row per party; passport and tax id are not
+--                           stored here, only their masked form
+--   set_case_party_pii()    encrypts passport / tax id via store_encrypted_pii
+--                           (encrypted_pii, field 'case_party:<id>:<field>')
+--   get_case_party_pii()    decrypts them for case staff; every read is
+--                           written to audit_logs
+--
+-- Each party is mirrored into case_party_names (source 'registry'), so the
+-- conflict check sees registered parties without a separate lookup.
+-- =============================================================================
+
+-- ─── 1. Table ────────────────────────────────────────────────────────────────
+
+CREATE TABLE public.case_parties (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  kind text NOT NULL DEFAULT 'person' CHECK (kind IN ('person', 'organization')),
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  role text NOT NULL DEFAULT 'other' CHECK (role IN (
+    'claimant', 'defendant', 'accused', 'victim', 'applicant', 'respondent',
+    'third_party', 'witness', 'administrative_body', 'government', 'prosecutor', 'other'
+  )),
+  -- The firm's client in this case
+  is_client boolean NOT NULL DEFAULT false,
+  address text,
+  phone text,
+  email text,
+  representative_name text,
+  -- Basis of representation, e.g. power of attorney number and date
+  representative_basis text,
+  passport_masked text,
+  tax_id_masked text,
+  -- encrypted_pii rows are keyed by user; the user who stored them
+  pii_owner uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  notes text,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'extracted')),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_case_parties_case ON public.case_parties(case_id);
+
+CREATE TRIGGER update_case_parties_updated_at
+  BEFORE UPDATE ON public.case_parties
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.case_parties ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Case staff can view parties"
+  ON public.case_parties FOR SELECT
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), case_id));
+
+CREATE POLICY "Case staff can add parties"
+  ON public.case_parties FOR INSERT
+  TO authenticated
+  WITH CHECK (public.is_case_staff(auth.uid(), case_id) AND created_by = auth.uid());
+
+CREATE POLICY "Case staff can update parties"
+  ON public.case_parties FOR UPDATE
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), case_id))
+  WITH CHECK (public.is_case_staff(auth.uid(), case_id));
+
+CREATE POLICY "Case staff can delete parties"
+  ON public.case_parties FOR DELETE
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), case_id));
+
+-- Masked values and the key owner are set by set_case_party_pii() only
+CREATE OR REPLACE FUNCTION public.case_parties_protect_pii_columns()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.case_party_pii', true) IS DISTINCT FROM 'on' THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.passport_masked := NULL;
+      NEW.tax_id_masked := NULL;
+      NEW.pii_owner := NULL;
+    ELSE
+      NEW.passport_masked := OLD.passport_masked;
+      NEW.tax_id_masked := OLD.tax_id_masked;
+      NEW.pii_owner := OLD.pii_owner;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_case_parties_protect_pii
+  BEFORE INSERT OR UPDATE ON public.case_parties
+  FOR EACH ROW EXECUTE FUNCTION public.case_parties_protect_pii_columns();
+
+-- ─── 2. Conflict-check index ─────────────────────────────────────────────────
+
+ALTER TABLE public.case_party_names
+  ADD COLUMN party_id uuid REFERENCES public.case_parties(id) ON DELETE CASCADE;
+
+ALTER TABLE public.case_party_names DROP CONSTRAINT IF EXISTS case_party_names_source_check;
+ALTER TABLE public.case_party_names ADD CONSTRAINT case_party_names_source_check
+  CHECK (source IN ('extracted', 'text', 'manual', 'registry'));
+
+CREATE UNIQUE INDEX idx_case_party_names_party ON public.case_party_names(party_id)
+  WHERE party_id IS NOT NULL;
+
+CREATE POLICY "Case staff can dismiss extracted party names"
+  ON public.case_party_names FOR DELETE
+  TO authenticated
+  USING (source = 'extracted' AND public.is_case_staff(auth.uid(), case_id));
+
+CREATE OR REPLACE FUNCTION public.case_parties_sync_names()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.case_party_names (case_id, name, role, source, party_id, created_by)
+  VALUES (NEW.case_id, NEW.name, NEW.role, 'registry', NEW.id, NEW.created_by)
+  ON CONFLICT (party_id) WHERE party_id IS NOT NULL
+  DO UPDATE SET name = EXCLUDED.name, role = EXCLUDED.role;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_case_parties_sync_names
+  AFTER INSERT OR UPDATE OF name, role ON public.case_parties
+  FOR EACH ROW EXECUTE FUNCTION public.case_parties_sync_names();
+
+-- ─── 3. Identification numbers ───────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.mask_pii(_value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _value IS NULL OR btrim(_value) = '' THEN NULL
+    WHEN length(btrim(_value)) <= 4 THEN '****'
+    ELSE repeat('*', length(btrim(_value)) - 4) || right(btrim(_value), 4)
+  END;
+$$;
+
+-- NULL leaves a field unchanged, '' removes it
+CREATE OR REPLACE FUNCTION public.set_case_party_pii(
+  p_party_id uuid,
+  p_passport text DEFAULT NULL,
+  p_tax_id text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _party public.case_parties%ROWTYPE;
+  _owner uuid;
+  _field text;
+  _value text;
+BEGIN
+  SELECT * INTO _party FROM public.case_parties WHERE id = p_party_id;
+  IF NOT FOUND OR auth.uid() IS NULL OR NOT public.is_case_staff(auth.uid(), _party.case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  _owner := COALESCE(_party.pii_owner, auth.uid());
+
+  FOREACH _field IN ARRAY ARRAY['passport', 'tax_id'] LOOP
+    _value := CASE _field WHEN 'passport' THEN p_passport ELSE p_tax_id END;
+    CONTINUE WHEN _value IS NULL;
+
+    IF btrim(_value) = '' THEN
+      DELETE FROM public.encrypted_pii
+      WHERE user_id = _owner AND field_name = 'case_party:' || p_party_id || ':' || _field;
+    ELSIF NOT public.store_encrypted_pii(_owner, 'case_party:' || p_party_id || ':' || _field, btrim(_value)) THEN
+      RAISE EXCEPTION 'PII encryption failed';
+    END IF;
+  END LOOP;
+
+  PERFORM set_config('app.case_party_pii', 'on', true);
+  UPDATE public.case_parties
+  SET pii_owner = _owner,
+      passport_masked = CASE WHEN p_passport IS NULL THEN passport_masked ELSE public.mask_pii(p_passport) END,
+      tax_id_masked = CASE WHEN p_tax_id IS NULL THEN tax_id_masked ELSE public.mask_pii(p_tax_id) END
+  WHERE id = p_party_id;
+  PERFORM set_config('app.case_party_pii', 'off', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_case_party_pii(p_party_id uuid)
+RETURNS TABLE(passport text, tax_id text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _party public.case_parties%ROWTYPE;
+BEGIN
+  SELECT * INTO _party FROM public.case_parties WHERE id = p_party_id;
+  IF NOT FOUND OR auth.uid() IS NULL OR NOT public.is_case_staff(auth.uid(), _party.case_id) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  PERFORM public.log_audit('pii_view', 'case_parties', p_party_id,
+    jsonb_build_object('case_id', _party.case_id));
+
+  IF _party.pii_owner IS NULL THEN
+    RETURN QUERY SELECT NULL::text, NULL::text;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT
+    public.retrieve_decrypted_pii(_party.pii_owner, 'case_party:' || p_party_id || ':passport'),
+    public.retrieve_decrypted_pii(_party.pii_owner, 'case_party:' || p_party_id || ':tax_id');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.case_parties_delete_pii()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.pii_owner IS NOT NULL THEN
+    DELETE FROM public.encrypted_pii
+    WHERE user_id = OLD.pii_owner AND field_name LIKE 'case_party:' || OLD.id || ':%';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER trg_case_parties_delete_pii
+  AFTER DELETE ON public.case_parties
+  FOR EACH ROW EXECUTE FUNCTION public.case_parties_delete_pii();
+
+REVOKE ALL ON FUNCTION public.set_case_party_pii(uuid, text, text) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.get_case_party_pii(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_case_party_pii(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_case_party_pii(uuid) TO authenticated;
@@ -0,0 +1,346 @@
+-- =============================================================================
+-- ARMENIAN MORPHOLOGY FOR KEYWORD SEARCH
+-- armenian_dictionary (lemma + inflected forms) was only used by the
+-- DictionarySearch page; keyword retrieval matched exact surface forms, so
+-- "պայմանագրով" never found "պայմանագիրը".
+--
+--   armenian_word_forms    form → lemma pairs derived from the dictionary,
+--                          kept in sync by a trigger
+--   search_or_tsquery()    now ORs every lexeme with all forms of its lemmas;
+--                          search_kb_bm25 / search_practice_bm25 get the
+--                          expansion without changes
+--   knowledge_base_chunks  lemma_tsv: chunk text with every known word
+--                          replaced by its lemma(s), searched by the new
+--                          search_kb_lemma stage of the hybrid pipeline
+--
+-- The same algorithm is mirrored in _shared/armenian-morphology.ts.
+-- lemma_tsv is computed when a chunk is written. Existing chunks are not
+-- touched here (one UPDATE over the whole KB would hold its locks for the
+-- length of the migration): after deploying, and after a large dictionary
+-- import, run  CALL public.backfill_kb_chunk_lemmas();  outside a
+-- transaction. Until then the lemma stage finds nothing in the unindexed
+-- chunks; the other retrieval stages are unaffected.
+-- =============================================================================
+
+-- ─── 1. Form index ───────────────────────────────────────────────────────────
+
+CREATE TABLE public.armenian_word_forms (
+  form_norm text NOT NULL,
+  lemma_norm text NOT NULL,
+  PRIMARY KEY (form_norm, lemma_norm)
+);
+
+CREATE INDEX idx_armenian_word_forms_lemma ON public.armenian_word_forms(lemma_norm);
+
+ALTER TABLE public.armenian_word_forms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone authenticated can read word forms"
+  ON public.armenian_word_forms FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+-- The lemma and each single-word form; multi-word lemmas (phrases) can never
+-- match one token and are skipped
+CREATE OR REPLACE FUNCTION public.armenian_dictionary_sync_forms()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    DELETE FROM public.armenian_word_forms WHERE lemma_norm = OLD.lemma_norm;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.lemma_norm !~ '\s' THEN
+    INSERT INTO public.armenian_word_forms (form_norm, lemma_norm)
+    SELECT DISTINCT f, NEW.lemma_norm
+    FROM (
+      SELECT NEW.lemma_norm AS f
+      UNION ALL
+      SELECT public.normalize_hy(v)
+      FROM jsonb_array_elements_text(
+        CASE WHEN jsonb_typeof(NEW.forms) = 'array' THEN NEW.forms ELSE '[]'::jsonb END
+      ) AS v
+    ) forms
+    WHERE f IS NOT NULL AND length(f) >= 2 AND f !~ '\s'
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_armenian_dictionary_sync_forms
+  AFTER INSERT OR UPDATE OF lemma, lemma_norm, forms OR DELETE ON public.armenian_dictionary
+  FOR EACH ROW EXECUTE FUNCTION public.armenian_dictionary_sync_forms();
+
+INSERT INTO public.armenian_word_forms (form_norm, lemma_norm)
+SELECT DISTINCT f, d.lemma_norm
+FROM public.armenian_dictionary d
+CROSS JOIN LATERAL (
+  SELECT d.lemma_norm AS f
+  UNION ALL
+  SELECT public.normalize_hy(v)
+  FROM jsonb_array_elements_text(
+    CASE WHEN jsonb_typeof(d.forms) = 'array' THEN d.forms ELSE '[]'::jsonb END
+  ) AS v
+) forms
+WHERE d.lemma_norm !~ '\s' AND f IS NOT NULL AND length(f) >= 2 AND f !~ '\s'
+ON CONFLICT DO NOTHING;
+
+-- ─── 2. Lemmatizer / expander ────────────────────────────────────────────────
+
+-- Lowercased words in text order; Armenian emphasis / question / exclamation
+-- marks sit inside words and are dropped first
+CREATE OR REPLACE FUNCTION public.hy_tokenize(_text text)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(t ORDER BY n), '{}')
+  FROM regexp_split_to_table(
+    regexp_replace(lower(COALESCE(_text, '')), '[\u055b-\u055e]', '', 'g'),
+    '[^0-9a-z\u0561-\u0587\u0430-\u044f\u0451]+'
+  ) WITH ORDINALITY AS s(t, n)
+  WHERE t <> '';
+$$;
+
+CREATE OR REPLACE FUNCTION public.hy_word_lemmas(_word text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(array_agg(lemma_norm ORDER BY lemma_norm), '{}')
+  FROM public.armenian_word_forms
+  WHERE form_norm = _word;
+$$;
+
+-- The word itself followed by the other forms of all its lemmas
+CREATE OR REPLACE FUNCTION public.hy_word_forms(_word text, _max int DEFAULT 32)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ARRAY[_word] || ARRAY(
+    SELECT DISTINCT f.form_norm
+    FROM public.armenian_word_forms w
+    JOIN public.armenian_word_forms f ON f.lemma_norm = w.lemma_norm
+    WHERE w.form_norm = _word AND f.form_norm <> _word
+    ORDER BY f.form_norm
+    LIMIT GREATEST(_max, 0)
+  );
+$$;
+
+-- Text with every dictionary word replaced by its lemma(s); unknown words
+-- are kept as they are
+CREATE OR REPLACE FUNCTION public.hy_lemma_text(_text text)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(string_agg(COALESCE(l.lemmas, t.w), ' ' ORDER BY t.n), '')
+  FROM unnest(public.hy_tokenize(_text)) WITH ORDINALITY AS t(w, n)
+  LEFT JOIN LATERAL (
+    SELECT string_agg(wf.lemma_norm, ' ' ORDER BY wf.lemma_norm) AS lemmas
+    FROM public.armenian_word_forms wf
+    WHERE wf.form_norm = t.w
+  ) l ON true;
+$$;
+
+-- Lemmas and all forms for the given words (TS side: loadLexicon)
+CREATE OR REPLACE FUNCTION public.hy_expand_terms(_terms text[])
+RETURNS TABLE(lemma text, forms text[])
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT f.lemma_norm, array_agg(f.form_norm ORDER BY f.form_norm)
+  FROM public.armenian_word_forms f
+  WHERE f.lemma_norm IN (
+    SELECT w.lemma_norm
+    FROM public.armenian_word_forms w
+    WHERE w.form_norm IN (
+      SELECT DISTINCT unnest(public.hy_tokenize(array_to_string(_terms[1:50], ' ')))
+    )
+  )
+  GROUP BY f.lemma_norm;
+$$;
+
+-- ─── 3. Query expansion ──────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.or_tsquery(_lexemes text[])
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  q tsquery;
+  lex text;
+BEGIN
+  FOREACH lex IN ARRAY COALESCE(_lexemes, '{}') LOOP
+    q := CASE WHEN q IS NULL THEN plainto_tsquery('simple', lex) ELSE q || plainto_tsquery('simple', lex) END;
+  END LOOP;
+  RETURN q;
+END;
+$$;
+
+-- Same lexemes as before, each ORed with the other forms of its lemmas.
+-- Reads armenian_word_forms, so no longer IMMUTABLE.
+CREATE OR REPLACE FUNCTION public.search_or_tsquery(_query text)
+RETURNS tsquery
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT public.or_tsquery(ARRAY(
+    SELECT DISTINCT f
+    FROM (
+      SELECT l
+      FROM unnest(tsvector_to_array(to_tsvector('simple', substring(COALESCE(_query, '') FROM 1 FOR 500)))) AS l
+      WHERE length(l) >= 2
+      LIMIT 24
+    ) lexemes,
+    unnest(public.hy_word_forms(lexemes.l, 16)) AS f
+  ));
+$$;
+
+-- Lemmas of the query words (unknown words as they are), for lemma_tsv
+CREATE OR REPLACE FUNCTION public.hy_query_lemmas(_query text)
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT ARRAY(
+    SELECT DISTINCT lemma
+    FROM (
+      SELECT DISTINCT w
+      FROM unnest(public.hy_tokenize(substring(COALESCE(_query, '') FROM 1 FOR 500))) AS w
+      WHERE length(w) >= 2
+      LIMIT 24
+    ) words,
+    unnest(CASE
+      WHEN cardinality(public.hy_word_lemmas(words.w)) > 0 THEN public.hy_word_lemmas(words.w)
+      ELSE ARRAY[words.w]
+    END) AS lemma
+  );
+$$;
+
+-- ─── 4. Lemma index of KB chunks ─────────────────────────────────────────────
+
+ALTER TABLE public.knowledge_base_chunks ADD COLUMN IF NOT EXISTS lemma_tsv tsvector;
+
+CREATE OR REPLACE FUNCTION public.kb_chunks_set_lemma_tsv()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.lemma_tsv := to_tsvector('simple', public.hy_lemma_text(NEW.chunk_text));
+  RETURN NEW;
+END;
+$$;
+
+-- Also on UPDATE OF lemma_tsv, so SET lemma_tsv = NULL recomputes it
+DROP TRIGGER IF EXISTS knowledge_base_chunks_set_lemma_tsv ON public.knowledge_base_chunks;
+CREATE TRIGGER knowledge_base_chunks_set_lemma_tsv
+  BEFORE INSERT OR UPDATE OF chunk_text, lemma_tsv ON public.knowledge_base_chunks
+  FOR EACH ROW EXECUTE FUNCTION public.kb_chunks_set_lemma_tsv();
+
+CREATE INDEX IF NOT EXISTS idx_kb_chunks_lemma_tsv
+  ON public.knowledge_base_chunks USING gin (lemma_tsv);
+
+-- Recomputes one batch of chunks after _after_id (keyset order); returns the
+-- last id processed, NULL when done
+CREATE OR REPLACE FUNCTION public.reindex_kb_chunk_lemmas(_after_id uuid DEFAULT NULL, _batch int DEFAULT 500)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _last uuid;
+BEGIN
+  WITH batch AS (
+    SELECT id FROM public.knowledge_base_chunks
+    WHERE _after_id IS NULL OR id > _after_id
+    ORDER BY id
+    LIMIT LEAST(GREATEST(_batch, 1), 5000)
+  ), updated AS (
+    UPDATE public.knowledge_base_chunks c SET lemma_tsv = NULL
+    FROM batch WHERE c.id = batch.id
+    RETURNING c.id
+  )
+  SELECT id INTO _last FROM updated ORDER BY id DESC LIMIT 1;
+  RETURN _last;
+END;
+$$;
+
+-- Every chunk, one committed reindex_kb_chunk_lemmas() batch at a time.
+-- COMMIT rules out SECURITY DEFINER and a SET search_path clause, and needs
+-- a plain CALL outside a transaction block
+CREATE OR REPLACE PROCEDURE public.backfill_kb_chunk_lemmas(_batch int DEFAULT 500)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _last uuid;
+BEGIN
+  LOOP
+    _last := public.reindex_kb_chunk_lemmas(_last, _batch);
+    COMMIT;
+    EXIT WHEN _last IS NULL;
+  END LOOP;
+END;
+$$;
+
+-- ─── 5. Lemma stage ──────────────────────────────────────────────────────────
+
+-- Best-matching chunk per document
+CREATE OR REPLACE FUNCTION public.search_kb_lemma(
+  _query text,
+  _limit int DEFAULT 30,
+  _reference_date date DEFAULT NULL,
+  _category text DEFAULT NULL
+)
+RETURNS TABLE(id uuid, score real)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH q AS (SELECT public.or_tsquery(public.hy_query_lemmas(_query)) AS tsq),
+  chunk_hits AS (
+    SELECT c.kb_id, ts_rank_cd(c.lemma_tsv, q.tsq, 1)::real AS score
+    FROM public.knowledge_base_chunks c, q
+    WHERE q.tsq IS NOT NULL
+      AND c.is_active = true
+      AND c.lemma_tsv @@ q.tsq
+    ORDER BY score DESC
+    LIMIT 500
+  )
+  SELECT kb.id, max(h.score) AS score
+  FROM chunk_hits h
+  JOIN public.knowledge_base kb ON kb.id = h.kb_id
+  WHERE kb.is_active = true
+    AND (_category IS NULL OR kb.category::text = _category)
+    AND (_reference_date IS NULL OR kb.effective_from IS NULL OR kb.effective_from <= _reference_date)
+    AND (_reference_date IS NULL OR kb.effective_to IS NULL OR kb.effective_to >= _reference_date)
+  GROUP BY kb.id
+  ORDER BY score DESC
+  LIMIT LEAST(GREATEST(_limit, 1), 100);
+$$;
+
+-- ─── 6. Grants ───────────────────────────────────────────────────────────────
+
+REVOKE ALL ON FUNCTION public.search_kb_lemma(text, int, date, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.reindex_kb_chunk_lemmas(uuid, int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON PROCEDURE public.backfill_kb_chunk_lemmas(int) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.hy_expand_terms(text[]) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.search_kb_lemma(text, int, date, text) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.reindex_kb_chunk_lemmas(uuid, int) TO service_role;
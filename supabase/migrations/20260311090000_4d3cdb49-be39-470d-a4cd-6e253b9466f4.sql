@@ -0,0 +1,226 @@
+-- =============================================================================
+-- STRUCTURED TRANSCRIPTS
+-- audio-transcribe used to store one "[MM:SS] Спикер N: …" text blob; the
+-- transcript is now kept as timestamped segments with diarized speakers.
+--
+--   transcript_segments       one row per speaker turn: start / end (ms),
+--                             speaker id ('S1', 'S2', …), text, confidence;
+--                             text and speaker are editable, the model output
+--                             stays in original_text / original_speaker
+--   audio_transcriptions
+--     .speaker_labels         { "S1": { "name", "role", "party_id" }, … }:
+--                             speakers renamed to the people in the hearing
+--     .transcription_text     rendered from the segments and labels, so OCR
+--                             search, case chunking and AI analysis keep
+--                             reading one text with "[MM:SS] Name:" prefixes
+--
+-- Transcriptions created before this migration have no segments; their text
+-- is left as it is and the UI falls back to parsing it.
+-- =============================================================================
+
+-- ─── 1. Segments ─────────────────────────────────────────────────────────────
+
+CREATE TABLE public.transcript_segments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id uuid NOT NULL REFERENCES public.audio_transcriptions(id) ON DELETE CASCADE,
+  seq integer NOT NULL CHECK (seq >= 0),
+  start_ms integer NOT NULL CHECK (start_ms >= 0),
+  end_ms integer NOT NULL,
+  speaker text NOT NULL CHECK (speaker ~ '^S[0-9]+$'),
+  text text NOT NULL,
+  confidence real CHECK (confidence BETWEEN 0 AND 1),
+  -- Model output, kept when a lawyer corrects the segment
+  original_text text NOT NULL,
+  original_speaker text NOT NULL,
+  edited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  edited_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_ms >= start_ms),
+  UNIQUE (transcription_id, seq)
+);
+
+-- original_* are written once; timing and order come from the recording
+CREATE OR REPLACE FUNCTION public.transcript_segments_protect_original()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.original_text := NEW.text;
+    NEW.original_speaker := NEW.speaker;
+    NEW.edited_by := NULL;
+    NEW.edited_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.transcription_id := OLD.transcription_id;
+  NEW.seq := OLD.seq;
+  NEW.start_ms := OLD.start_ms;
+  NEW.end_ms := OLD.end_ms;
+  NEW.original_text := OLD.original_text;
+  NEW.original_speaker := OLD.original_speaker;
+  IF NEW.text IS DISTINCT FROM OLD.text OR NEW.speaker IS DISTINCT FROM OLD.speaker THEN
+    NEW.edited_by := auth.uid();
+    NEW.edited_at := now();
+  ELSE
+    NEW.edited_by := OLD.edited_by;
+    NEW.edited_at := OLD.edited_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_transcript_segments_protect_original
+  BEFORE INSERT OR UPDATE ON public.transcript_segments
+  FOR EACH ROW EXECUTE FUNCTION public.transcript_segments_protect_original();
+
+-- ─── 2. Access ───────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.transcription_case_id(_transcription_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cf.case_id
+  FROM public.audio_transcriptions t
+  JOIN public.case_files cf ON cf.id = t.file_id
+  WHERE t.id = _transcription_id;
+$$;
+
+ALTER TABLE public.transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- Whoever can read the transcription (lawyer, team leader, auditor, admin)
+CREATE POLICY "Users can view segments of visible transcriptions"
+  ON public.transcript_segments FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.audio_transcriptions t WHERE t.id = transcription_id
+  ));
+
+CREATE POLICY "Case staff can edit segments"
+  ON public.transcript_segments FOR UPDATE
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), public.transcription_case_id(transcription_id)))
+  WITH CHECK (public.is_case_staff(auth.uid(), public.transcription_case_id(transcription_id)));
+
+-- Speaker names, review status and the text of unsegmented transcriptions.
+-- WITH CHECK resolves the case from the new file_id (transcription_case_id
+-- reads the stored row); the column grants in section 4 keep file_id,
+-- created_by and status out of reach anyway
+CREATE POLICY "Case staff can update transcriptions"
+  ON public.audio_transcriptions FOR UPDATE
+  TO authenticated
+  USING (public.is_case_staff(auth.uid(), public.transcription_case_id(id)))
+  WITH CHECK (public.is_case_staff(auth.uid(), (
+    SELECT cf.case_id FROM public.case_files cf WHERE cf.id = audio_transcriptions.file_id
+  )));
+
+-- A reviewer can only sign a review as themselves
+CREATE OR REPLACE FUNCTION public.audio_transcriptions_set_reviewer()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+    NEW.reviewed_by := auth.uid();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_audio_transcriptions_set_reviewer
+  BEFORE UPDATE OF reviewed_by ON public.audio_transcriptions
+  FOR EACH ROW EXECUTE FUNCTION public.audio_transcriptions_set_reviewer();
+
+-- ─── 3. Rendered text ────────────────────────────────────────────────────────
+
+-- "[M:SS]" below an hour, "[H:MM:SS]" above (the prefixes case-chunker reads)
+CREATE OR REPLACE FUNCTION public.transcript_timestamp(_ms integer)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN _ms >= 3600000 THEN format('%s:%s:%s',
+      _ms / 3600000, lpad(((_ms / 60000) % 60)::text, 2, '0'), lpad(((_ms / 1000) % 60)::text, 2, '0'))
+    ELSE format('%s:%s', _ms / 60000, lpad(((_ms / 1000) % 60)::text, 2, '0'))
+  END;
+$$;
+
+-- NULL when the transcription has no segments
+CREATE OR REPLACE FUNCTION public.render_transcript_text(_transcription_id uuid, _labels jsonb)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT string_agg(
+    format('[%s] %s: %s',
+      public.transcript_timestamp(s.start_ms),
+      COALESCE(NULLIF(btrim(_labels -> s.speaker ->> 'name'), ''), 'Speaker ' || substr(s.speaker, 2)),
+      s.text),
+    E'\n' ORDER BY s.seq)
+  FROM public.transcript_segments s
+  WHERE s.transcription_id = _transcription_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.audio_transcriptions_render_labels()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.transcription_text := COALESCE(
+    public.render_transcript_text(NEW.id, NEW.speaker_labels),
+    NEW.transcription_text
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER trg_audio_transcriptions_render_labels
+  BEFORE UPDATE OF speaker_labels ON public.audio_transcriptions
+  FOR EACH ROW EXECUTE FUNCTION public.audio_transcriptions_render_labels();
+
+-- Statement-level, so inserting a whole transcript renders it once
+CREATE OR REPLACE FUNCTION public.transcript_segments_render_text()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.audio_transcriptions t
+  SET transcription_text = COALESCE(public.render_transcript_text(t.id, t.speaker_labels), t.transcription_text)
+  WHERE t.id IN (SELECT DISTINCT transcription_id FROM changed);
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER trg_transcript_segments_render_insert
+  AFTER INSERT ON public.transcript_segments
+  REFERENCING NEW TABLE AS changed
+  FOR EACH STATEMENT EXECUTE FUNCTION public.transcript_segments_render_text();
+
+CREATE TRIGGER trg_transcript_segments_render_update
+  AFTER UPDATE ON public.transcript_segments
+  REFERENCING NEW TABLE AS changed
+  FOR EACH STATEMENT EXECUTE FUNCTION public.transcript_segments_render_text();
+
+-- ─── 4. Grants ───────────────────────────────────────────────────────────────
+
+-- Only what the transcript editor and review dialog write
+REVOKE UPDATE ON public.audio_transcriptions FROM anon, authenticated;
+GRANT UPDATE (transcription_text, speaker_labels, needs_review, reviewed_by, reviewed_at)
+  ON public.audio_transcriptions TO authenticated;
+
+REVOKE ALL ON FUNCTION public.transcription_case_id(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.transcription_case_id(uuid) TO authenticated, service_role;
+
+REVOKE ALL ON FUNCTION public.render_transcript_text(uuid, jsonb) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.render_transcript_text(uuid, jsonb) TO authenticated, service_role;
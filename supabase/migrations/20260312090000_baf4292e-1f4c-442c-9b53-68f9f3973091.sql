@@ -0,0 +1,333 @@
+-- =============================================================================
+-- LONG-AUDIO TRANSCRIPTION QUEUE
+-- Hearing recordings run for hours; one model request cannot take them.
+-- audio-transcribe cuts a long MP3 / WAV into overlapping parts
+-- (_shared/audio-chunks.ts) and queues one job per part:
+--
+--   audio_transcriptions          status processing → stitching → completed
+--                                 (or failed), chunks_completed / chunks_total
+--                                 for progress, published over realtime
+--   audio_transcription_chunks    one leased job per part; the worker stores
+--                                 its segments (part-relative times)
+--
+-- audio-transcribe-worker claims parts (FOR UPDATE SKIP LOCKED), transcribes
+-- them in parallel with retries, and once every part of a recording is done
+-- claims the recording for stitching into transcript_segments.
+-- =============================================================================
+
+-- ─── 1. Transcriptions: status + progress ────────────────────────────────────
+
+ALTER TABLE public.audio_transcriptions
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'completed'
+    CHECK (status IN ('processing', 'stitching', 'completed', 'failed')),
+  ADD COLUMN IF NOT EXISTS chunks_total integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS chunks_completed integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS error_message text,
+  ADD COLUMN IF NOT EXISTS created_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE TRIGGER update_audio_transcriptions_updated_at
+  BEFORE UPDATE ON public.audio_transcriptions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.audio_transcriptions;
+
+-- A four-hour 16 kHz WAV is about 460 MB
+UPDATE storage.buckets
+SET file_size_limit = 1073741824 -- 1GB limit
+WHERE id = 'case-files';
+
+-- ─── 2. Parts ────────────────────────────────────────────────────────────────
+
+CREATE TABLE public.audio_transcription_chunks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transcription_id uuid NOT NULL REFERENCES public.audio_transcriptions(id) ON DELETE CASCADE,
+  chunk_index integer NOT NULL,
+  start_ms integer NOT NULL,
+  end_ms integer NOT NULL,
+  byte_start bigint NOT NULL,
+  byte_end bigint NOT NULL,
+  segments jsonb,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'failed', 'cancelled')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 4,
+  next_run_at timestamptz NOT NULL DEFAULT now(),
+  lease_expires_at timestamptz,
+  worker_id text,
+  last_error text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (transcription_id, chunk_index),
+  CHECK (end_ms > start_ms AND byte_end > byte_start)
+);
+
+CREATE INDEX idx_audio_chunks_claimable
+  ON public.audio_transcription_chunks(next_run_at)
+  WHERE status IN ('pending', 'processing');
+
+CREATE TRIGGER update_audio_chunks_updated_at
+  BEFORE UPDATE ON public.audio_transcription_chunks
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Written only by audio-transcribe, the RPCs below and the worker (service role)
+ALTER TABLE public.audio_transcription_chunks ENABLE ROW LEVEL SECURITY;
+
+-- ─── 3. Claim ────────────────────────────────────────────────────────────────
+
+-- Pending parts of recordings still processing, plus parts whose lease
+-- expired (worker died mid-call). attempts is counted at claim time.
+CREATE OR REPLACE FUNCTION public.claim_audio_transcription_chunks(
+  p_limit int DEFAULT 3,
+  p_lease_minutes int DEFAULT 5
+)
+RETURNS SETOF public.audio_transcription_chunks
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    SELECT c.id
+    FROM public.audio_transcription_chunks c
+    JOIN public.audio_transcriptions t ON t.id = c.transcription_id
+    WHERE (
+        (c.status = 'pending' AND c.next_run_at <= now())
+        OR (c.status = 'processing' AND c.lease_expires_at < now())
+      )
+      AND c.attempts < c.max_attempts
+      AND t.status = 'processing'
+    ORDER BY t.created_at ASC, c.chunk_index ASC
+    LIMIT p_limit
+    FOR UPDATE OF c SKIP LOCKED
+  )
+  UPDATE public.audio_transcription_chunks c
+  SET
+    status = 'processing',
+    attempts = c.attempts + 1,
+    lease_expires_at = now() + (p_lease_minutes || ' minutes')::interval,
+    worker_id = gen_random_uuid()::text
+  FROM claimed
+  WHERE c.id = claimed.id
+  RETURNING c.*;
+END;
+$$;
+
+-- ─── 4. Completion ───────────────────────────────────────────────────────────
+
+-- Stores the segments of a part and recounts the progress. FALSE when the
+-- part is no longer processing (cancelled, or completed by another worker).
+CREATE OR REPLACE FUNCTION public.complete_audio_transcription_chunk(
+  p_chunk_id uuid,
+  p_segments jsonb
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _transcription_id uuid;
+BEGIN
+  UPDATE public.audio_transcription_chunks
+  SET status = 'completed',
+      segments = COALESCE(p_segments, '[]'::jsonb),
+      lease_expires_at = NULL,
+      last_error = NULL
+  WHERE id = p_chunk_id AND status = 'processing'
+  RETURNING transcription_id INTO _transcription_id;
+
+  IF _transcription_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.audio_transcriptions t
+  SET chunks_completed = (
+    SELECT count(*) FROM public.audio_transcription_chunks c
+    WHERE c.transcription_id = t.id AND c.status = 'completed'
+  )
+  WHERE t.id = _transcription_id;
+
+  RETURN true;
+END;
+$$;
+
+-- Recordings whose parts are all transcribed, moved to 'stitching' so only
+-- one worker stitches each.
+CREATE OR REPLACE FUNCTION public.claim_audio_transcription_stitches(p_limit int DEFAULT 2)
+RETURNS SETOF uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH ready AS (
+    SELECT t.id
+    FROM public.audio_transcriptions t
+    WHERE t.status = 'processing'
+      AND t.chunks_total > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM public.audio_transcription_chunks c
+        WHERE c.transcription_id = t.id AND c.status <> 'completed'
+      )
+    ORDER BY t.created_at ASC
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.audio_transcriptions t
+  SET status = 'stitching'
+  FROM ready
+  WHERE t.id = ready.id
+  RETURNING t.id;
+END;
+$$;
+
+-- ─── 5. Failure + retries ────────────────────────────────────────────────────
+
+-- Records a failed attempt. Retries after p_retry_seconds while attempts
+-- remain (and p_retry_seconds is not NULL); otherwise a recording with a
+-- missing part cannot be stitched: it fails and its other parts are cancelled.
+CREATE OR REPLACE FUNCTION public.fail_audio_transcription_chunk(
+  p_chunk_id uuid,
+  p_error text,
+  p_retry_seconds int DEFAULT 60
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _chunk public.audio_transcription_chunks;
+  _error text := left(COALESCE(p_error, 'Unknown error'), 500);
+BEGIN
+  SELECT * INTO _chunk FROM public.audio_transcription_chunks WHERE id = p_chunk_id FOR UPDATE;
+  IF NOT FOUND OR _chunk.status NOT IN ('pending', 'processing') THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_retry_seconds IS NOT NULL AND _chunk.attempts < _chunk.max_attempts THEN
+    UPDATE public.audio_transcription_chunks
+    SET status = 'pending',
+        next_run_at = now() + (p_retry_seconds || ' seconds')::interval,
+        lease_expires_at = NULL,
+        worker_id = NULL,
+        last_error = _error
+    WHERE id = p_chunk_id;
+    RETURN 'retry';
+  END IF;
+
+  UPDATE public.audio_transcription_chunks
+  SET status = 'failed', lease_expires_at = NULL, last_error = _error
+  WHERE id = p_chunk_id;
+
+  UPDATE public.audio_transcription_chunks
+  SET status = 'cancelled', lease_expires_at = NULL
+  WHERE transcription_id = _chunk.transcription_id AND status IN ('pending', 'processing');
+
+  UPDATE public.audio_transcriptions
+  SET status = 'failed',
+      error_message = format('Part %s failed: %s', _chunk.chunk_index + 1, _error)
+  WHERE id = _chunk.transcription_id;
+
+  RETURN 'failed';
+END;
+$$;
+
+-- ─── 6. Stale work ───────────────────────────────────────────────────────────
+
+-- 1) Parts whose lease expired with no attempts left fail their recording.
+-- 2) A stitch that did not finish within p_stitch_minutes (worker died) is
+--    handed back, to be claimed again.
+CREATE OR REPLACE FUNCTION public.fail_stale_audio_transcriptions(p_stitch_minutes int DEFAULT 10)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _chunk_id uuid;
+  _count integer := 0;
+  _stitches integer;
+BEGIN
+  FOR _chunk_id IN
+    SELECT id FROM public.audio_transcription_chunks
+    WHERE status = 'processing'
+      AND lease_expires_at < now()
+      AND attempts >= max_attempts
+  LOOP
+    PERFORM public.fail_audio_transcription_chunk(_chunk_id, 'Worker lease expired', NULL);
+    _count := _count + 1;
+  END LOOP;
+
+  UPDATE public.audio_transcriptions
+  SET status = 'processing'
+  WHERE status = 'stitching'
+    AND updated_at < now() - (p_stitch_minutes || ' minutes')::interval;
+  GET DIAGNOSTICS _stitches = ROW_COUNT;
+
+  RETURN _count + _stitches;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_audio_transcription_chunks(int, int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.complete_audio_transcription_chunk(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_audio_transcription_stitches(int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fail_audio_transcription_chunk(uuid, text, int) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fail_stale_audio_transcriptions(int) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_audio_transcription_chunks(int, int) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_audio_transcription_chunk(uuid, jsonb) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_audio_transcription_stitches(int) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_audio_transcription_chunk(uuid, text, int) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_stale_audio_transcriptions(int) TO service_role;
+
+-- ─── 7. Cron ─────────────────────────────────────────────────────────────────
+
+CREATE OR REPLACE FUNCTION public.invoke_audio_transcribe_worker()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  _key text;
+BEGIN
+  SELECT decrypted_secret INTO _key
+  FROM vault.decrypted_secrets
+  WHERE name = 'cron_worker_key'
+  LIMIT 1;
+
+  IF _key IS NULL OR _key = '' THEN
+    RAISE WARNING 'cron_worker_key not found in vault, skipping audio transcribe worker call';
+    RETURN;
+  END IF;
+
+  -- Nothing to do: skip the HTTP call
+  IF NOT EXISTS (
+    SELECT 1 FROM public.audio_transcriptions WHERE status IN ('processing', 'stitching')
+  ) THEN
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://ekvhhsemntnylaivqufs.supabase.co/functions/v1/audio-transcribe-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'x-internal-key', _key
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+SELECT cron.unschedule('invoke-audio-transcribe-worker') WHERE EXISTS (
+  SELECT 1 FROM cron.job WHERE jobname = 'invoke-audio-transcribe-worker'
+);
+
+SELECT cron.schedule(
+  'invoke-audio-transcribe-worker',
+  '* * * * *',
+  'SELECT public.invoke_audio_transcribe_worker()'
+);
@@ -0,0 +1,290 @@
+-- =============================================================================
+-- RUNTIME PROMPT REGISTRY
+-- ai_prompts rows edited in the admin Prompt Manager are served to the edge
+-- functions (_shared/prompt-registry.ts) once they are switched live:
+--
+--   ai_prompts.runtime_enabled   the row replaces the prompt in code for its
+--                                function / module; off by default so rows
+--                                imported as reference copies change nothing
+--   ai_prompt_variants           alternative texts of a prompt, served to a
+--                                share of the traffic (weight, percent) or to
+--                                pinned users / teams; the base text gets the
+--                                remaining share
+--
+-- The prompt and variant that produced a response are recorded on api_usage
+-- and ai_analysis; ratings (user_feedback) inherit them from the analysis.
+-- get_prompt_variant_report compares the variants, promote / rollback change
+-- the base text through the existing version history.
+-- =============================================================================
+
+-- ─── 1. Live switch ──────────────────────────────────────────────────────────
+
+ALTER TABLE public.ai_prompts
+  ADD COLUMN IF NOT EXISTS runtime_enabled boolean NOT NULL DEFAULT false;
+
+-- ─── 2. Variants ─────────────────────────────────────────────────────────────
+
+CREATE TABLE public.ai_prompt_variants (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  prompt_id uuid NOT NULL REFERENCES public.ai_prompts(id) ON DELETE CASCADE,
+  label text NOT NULL CHECK (length(btrim(label)) > 0),
+  prompt_text text NOT NULL,
+  weight integer NOT NULL DEFAULT 0 CHECK (weight BETWEEN 0 AND 100),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'active', 'retired')),
+  pinned_user_ids uuid[] NOT NULL DEFAULT '{}',
+  pinned_team_ids uuid[] NOT NULL DEFAULT '{}',
+  promoted_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_prompt_variants_prompt ON public.ai_prompt_variants(prompt_id);
+
+CREATE TRIGGER update_ai_prompt_variants_updated_at
+  BEFORE UPDATE ON public.ai_prompt_variants
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.ai_prompt_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage prompt variants" ON public.ai_prompt_variants
+  FOR ALL
+  USING (public.has_role(auth.uid(), 'admin'::app_role))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'::app_role));
+
+-- ─── 3. Attribution ──────────────────────────────────────────────────────────
+
+-- prompt_variant_id NULL with a prompt_id: the base text of the registry row
+ALTER TABLE public.api_usage
+  ADD COLUMN IF NOT EXISTS prompt_id uuid REFERENCES public.ai_prompts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS prompt_variant_id uuid REFERENCES public.ai_prompt_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_analysis
+  ADD COLUMN IF NOT EXISTS prompt_id uuid REFERENCES public.ai_prompts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS prompt_variant_id uuid REFERENCES public.ai_prompt_variants(id) ON DELETE SET NULL;
+
+ALTER TABLE public.user_feedback
+  ADD COLUMN IF NOT EXISTS prompt_id uuid REFERENCES public.ai_prompts(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS prompt_variant_id uuid REFERENCES public.ai_prompt_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_api_usage_prompt ON public.api_usage(prompt_id) WHERE prompt_id IS NOT NULL;
+CREATE INDEX idx_ai_analysis_prompt ON public.ai_analysis(prompt_id) WHERE prompt_id IS NOT NULL;
+CREATE INDEX idx_user_feedback_prompt ON public.user_feedback(prompt_id) WHERE prompt_id IS NOT NULL;
+
+-- A rating is about the analysis it was given for
+CREATE OR REPLACE FUNCTION public.set_feedback_prompt_variant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.analysis_id IS NOT NULL THEN
+    SELECT a.prompt_id, a.prompt_variant_id
+    INTO NEW.prompt_id, NEW.prompt_variant_id
+    FROM public.ai_analysis a
+    WHERE a.id = NEW.analysis_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_user_feedback_prompt_variant
+  BEFORE INSERT ON public.user_feedback
+  FOR EACH ROW EXECUTE FUNCTION public.set_feedback_prompt_variant();
+
+-- ─── 4. Comparison report ────────────────────────────────────────────────────
+
+-- One row per variant plus the base text (variant_id NULL). The base text is
+-- counted only since it last changed; a variant's text is fixed once active.
+CREATE OR REPLACE FUNCTION public.get_prompt_variant_report(p_prompt_id uuid)
+RETURNS TABLE (
+  variant_id uuid,
+  label text,
+  status text,
+  weight integer,
+  since timestamptz,
+  requests bigint,
+  tokens bigint,
+  cost_usd numeric,
+  analyses bigint,
+  ratings bigint,
+  avg_rating numeric
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_base_since timestamptz;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT COALESCE(MAX(pv.changed_at), p.created_at)
+  INTO v_base_since
+  FROM public.ai_prompts p
+  LEFT JOIN public.ai_prompt_versions pv ON pv.prompt_id = p.id
+  WHERE p.id = p_prompt_id
+  GROUP BY p.created_at;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt not found';
+  END IF;
+
+  RETURN QUERY
+  WITH arms AS (
+    SELECT NULL::uuid AS arm_id, 'base'::text AS arm_label, NULL::text AS arm_status,
+           NULL::integer AS arm_weight, v_base_since AS arm_since
+    UNION ALL
+    SELECT v.id, v.label, v.status, v.weight, v.created_at
+    FROM public.ai_prompt_variants v
+    WHERE v.prompt_id = p_prompt_id
+  ),
+  arm_usage AS (
+    SELECT u.prompt_variant_id AS arm_id,
+           count(*) AS n_requests,
+           COALESCE(sum(u.tokens_used), 0)::bigint AS n_tokens,
+           COALESCE(sum(u.estimated_cost), 0)::numeric AS total_cost
+    FROM public.api_usage u
+    WHERE u.prompt_id = p_prompt_id
+      AND (u.prompt_variant_id IS NOT NULL OR u.created_at >= v_base_since)
+    GROUP BY u.prompt_variant_id
+  ),
+  arm_analyses AS (
+    SELECT a.prompt_variant_id AS arm_id, count(*) AS n_analyses
+    FROM public.ai_analysis a
+    WHERE a.prompt_id = p_prompt_id
+      AND (a.prompt_variant_id IS NOT NULL OR a.created_at >= v_base_since)
+    GROUP BY a.prompt_variant_id
+  ),
+  arm_ratings AS (
+    SELECT f.prompt_variant_id AS arm_id,
+           count(f.rating) AS n_ratings,
+           round(avg(f.rating)::numeric, 2) AS mean_rating
+    FROM public.user_feedback f
+    WHERE f.prompt_id = p_prompt_id
+      AND (f.prompt_variant_id IS NOT NULL OR f.created_at >= v_base_since)
+    GROUP BY f.prompt_variant_id
+  )
+  SELECT arms.arm_id, arms.arm_label, arms.arm_status, arms.arm_weight, arms.arm_since,
+         COALESCE(au.n_requests, 0), COALESCE(au.n_tokens, 0), COALESCE(au.total_cost, 0),
+         COALESCE(aa.n_analyses, 0), COALESCE(ar.n_ratings, 0), ar.mean_rating
+  FROM arms
+  LEFT JOIN arm_usage au ON au.arm_id IS NOT DISTINCT FROM arms.arm_id
+  LEFT JOIN arm_analyses aa ON aa.arm_id IS NOT DISTINCT FROM arms.arm_id
+  LEFT JOIN arm_ratings ar ON ar.arm_id IS NOT DISTINCT FROM arms.arm_id
+  ORDER BY arms.arm_id IS NOT NULL, arms.arm_since;
+END;
+$$;
+
+-- ─── 5. Promote / rollback ───────────────────────────────────────────────────
+
+-- The variant's text becomes the base text (the old one goes to the version
+-- history via track_prompt_version) and the experiment ends: every active
+-- variant is retired. Returns the new version number.
+CREATE OR REPLACE FUNCTION public.promote_ai_prompt_variant(p_variant_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_variant public.ai_prompt_variants%ROWTYPE;
+  v_old_version integer;
+  v_new_version integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT * INTO v_variant FROM public.ai_prompt_variants WHERE id = p_variant_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Variant not found';
+  END IF;
+
+  SELECT current_version INTO v_old_version
+  FROM public.ai_prompts WHERE id = v_variant.prompt_id FOR UPDATE;
+
+  UPDATE public.ai_prompts
+  SET prompt_text = v_variant.prompt_text,
+      runtime_enabled = true
+  WHERE id = v_variant.prompt_id
+  RETURNING current_version INTO v_new_version;
+
+  IF v_new_version <> v_old_version THEN
+    UPDATE public.ai_prompt_versions
+    SET change_reason = 'Replaced by variant: ' || v_variant.label
+    WHERE prompt_id = v_variant.prompt_id AND version_number = v_old_version;
+  END IF;
+
+  UPDATE public.ai_prompt_variants
+  SET status = 'retired',
+      promoted_at = CASE WHEN id = p_variant_id THEN now() ELSE promoted_at END
+  WHERE prompt_id = v_variant.prompt_id
+    AND (status = 'active' OR id = p_variant_id);
+
+  RETURN v_new_version;
+END;
+$$;
+
+-- Restores the text of the latest history entry, i.e. undoes the last change
+-- (an edit, a promotion or a rollback), and pauses active variants so the
+-- restored text gets all the traffic. Returns the new version number.
+CREATE OR REPLACE FUNCTION public.rollback_ai_prompt(p_prompt_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous public.ai_prompt_versions%ROWTYPE;
+  v_old_version integer;
+  v_new_version integer;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin'::app_role) THEN
+    RAISE EXCEPTION 'Access denied';
+  END IF;
+
+  SELECT current_version INTO v_old_version
+  FROM public.ai_prompts WHERE id = p_prompt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prompt not found';
+  END IF;
+
+  SELECT * INTO v_previous
+  FROM public.ai_prompt_versions
+  WHERE prompt_id = p_prompt_id
+  ORDER BY changed_at DESC, version_number DESC
+  LIMIT 1;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No earlier version';
+  END IF;
+
+  UPDATE public.ai_prompt_variants
+  SET status = 'draft'
+  WHERE prompt_id = p_prompt_id AND status = 'active';
+
+  UPDATE public.ai_prompts
+  SET prompt_text = v_previous.prompt_text
+  WHERE id = p_prompt_id
+  RETURNING current_version INTO v_new_version;
+
+  IF v_new_version <> v_old_version THEN
+    UPDATE public.ai_prompt_versions
+    SET change_reason = 'Rolled back to v' || v_previous.version_number
+    WHERE prompt_id = p_prompt_id AND version_number = v_old_version;
+  END IF;
+
+  RETURN v_new_version;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_prompt_variant_report(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.promote_ai_prompt_variant(uuid) FROM PUBLIC;
+REVOKE ALL ON FUNCTION public.rollback_ai_prompt(uuid) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_prompt_variant_report(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.promote_ai_prompt_variant(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rollback_ai_prompt(uuid) TO authenticated;